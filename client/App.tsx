@@ -23,6 +23,7 @@ import Lease from "./pages/Lease";
 import PG from "./pages/PG";
 import Services from "./pages/Services";
 import Advertise from "./pages/Advertise";
+import BookAdvertisement from "./pages/BookAdvertisement";
 import Chat from "./pages/Chat";
 import ChatPage from "./pages/ChatPage";
 import ChatConversation from "./pages/ChatConversation";
@@ -68,6 +69,9 @@ import Messages from "./pages/Messages";
 import MyProperties from "./pages/MyProperties";
 import Clients from "./pages/Clients";
 import Favorites from "./pages/Favorites";
+import ComparePage from "./pages/ComparePage";
+import CompareTray from "./components/CompareTray";
+import { noteNavigation } from "./lib/viewTracking";
 import BlogPost from "./pages/BlogPost";
 import Maps from "./pages/Maps";
 import NewProjects from "./pages/NewProjects";
@@ -114,6 +118,14 @@ function HomeHeaderGate() {
   return location.pathname === "/" ? <HomeTopBar /> : null;
 }
 
+function ViewHistoryTracker() {
+  const location = useLocation();
+  useEffect(() => {
+    noteNavigation(location);
+  }, [location.pathname, location.search]);
+  return null;
+}
+
 function App() {
   useEffect(() => {
     if ("scrollRestoration" in window.history) {
@@ -141,6 +153,7 @@ function App() {
 
                 {/* ✅ Show logo bar only on Home */}
                 <HomeHeaderGate />
+                <ViewHistoryTracker />
 
                 <Routes>
                   <Route path="/" element={<Index />} />
@@ -182,6 +195,7 @@ function App() {
                     element={<OtherServicesListings />}
                   />
                   <Route path="/advertise" element={<Advertise />} />
+                  <Route path="/advertise/book" element={<BookAdvertisement />} />
                   {/* Category/Subcategory Listings */}
                   <Route path="/buy/:slug" element={<CategoryProperties />} />
                   <Route path="/sale/:slug" element={<CategoryProperties />} />
@@ -305,6 +319,7 @@ function App() {
 
                   {/* ✅ Wishlist routes (both paths) */}
                   <Route path="/favorites" element={<Favorites />} />
+                  <Route path="/compare" element={<ComparePage />} />
                   <Route path="/wishlist" element={<Wishlist />} />
 
                   <Route path="/account/my-ads" element={<MyProperties />} />
@@ -341,6 +356,7 @@ function App() {
                   {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                   <Route path="*" element={<NotFound />} />
                 </Routes>
+                <CompareTray />
               </BrowserRouter>
 
               {/* Global Components */}
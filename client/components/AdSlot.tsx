@@ -1,6 +1,7 @@
 import { useEffect, useRef } from "react";
 
 import { useAdsenseConfig } from "./AdsenseProvider";
+import { useAdImpression } from "../hooks/useAdImpression";
 
 interface AdSlotProps {
   adSlot?: string; // explicit data-ad-slot (overrides config)
@@ -37,6 +38,13 @@ export default function AdSlot({
     ) ?? false;
   const enabled = !!cfg?.enabled && !!cfg?.clientId && !routeDisabled;
 
+  // AdSense handles its own clicks; we can only count that the slot was seen
+  const impressionRef = useAdImpression(
+    enabled && resolvedSlot
+      ? { source: "ad_slot", adId: slotKey || resolvedSlot, slot: format }
+      : null,
+  );
+
   useEffect(() => {
     if (!enabled) return;
     // @ts-ignore
@@ -51,7 +59,11 @@ export default function AdSlot({
   if (!enabled || !resolvedSlot) return null;
 
   return (
-    <div className={className} style={{ ...defaultStyles[format], ...style }}>
+    <div
+      ref={impressionRef}
+      className={className}
+      style={{ ...defaultStyles[format], ...style }}
+    >
       <ins
         className="adsbygoogle block"
         style={{ display: "block", width: "100%", height: "100%" }}
@@ -29,12 +29,36 @@ import {
   Image as ImageIcon,
   Link as LinkIcon,
   ArrowUpDown,
+  BarChart3,
 } from "lucide-react";
 import { BannerAd } from "@shared/types";
 import { useToast } from "./ui/use-toast";
+import AdvertiserReports, { Advertiser } from "./admin/AdvertiserReports";
 
-/** Local type: add optional `position` to server BannerAd */
-type AdminBanner = BannerAd & { position?: string };
+/** Local type: add optional `position` and `advertiserId` to server BannerAd */
+type AdminBanner = BannerAd & { position?: string; advertiserId?: string | null };
+
+interface BannerStats {
+  impressions: number;
+  clicks: number;
+  ctr: number;
+}
+
+const STATS_RANGES = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+/** YYYY-MM-DD for `days - 1` days ago, i.e. a window ending today. */
+const rangeStart = (days: number) => {
+  const d = new Date();
+  d.setDate(d.getDate() - (days - 1));
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+const ctrOf = (impressions: number, clicks: number) =>
+  impressions > 0 ? Math.round((clicks / impressions) * 10000) / 100 : 0;
 
 interface AdminBannersProps {
   token: string;
@@ -69,6 +93,12 @@ export default function AdminBanners({ token }: AdminBannersProps) {
   const [uploading, setUploading] = useState(false);
   const { toast } = useToast();
 
+  // performance (impressions / clicks / CTR) for the selected range
+  const [statsRange, setStatsRange] = useState("30");
+  const [bannerStats, setBannerStats] = useState<Record<string, BannerStats>>({});
+  const [statsTotals, setStatsTotals] = useState<BannerStats | null>(null);
+  const [advertisers, setAdvertisers] = useState<Advertiser[]>([]);
+
   const [formData, setFormData] = useState<{
     title: string;
     imageUrl: string;
@@ -78,6 +108,7 @@ export default function AdminBanners({ token }: AdminBannersProps) {
     position: string;
     status: string;
     isFeatured: boolean;
+    advertiserId: string;
   }>({
     title: "",
     imageUrl: "",
@@ -87,6 +118,7 @@ export default function AdminBanners({ token }: AdminBannersProps) {
     position: "homepage_top",
     status: "approved",
     isFeatured: false,
+    advertiserId: "",
   });
 
   useEffect(() => {
@@ -94,6 +126,57 @@ export default function AdminBanners({ token }: AdminBannersProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [search, currentPage, filterPosition, filterActive]);
 
+  useEffect(() => {
+    fetchStats();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statsRange]);
+
+  useEffect(() => {
+    fetchAdvertisers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchStats = async () => {
+    try {
+      const params = new URLSearchParams({
+        source: "banner",
+        from: rangeStart(Number(statsRange)),
+      });
+      const response = await fetch(`/api/admin/banners/stats?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!data?.success) return;
+
+      // a banner can run in several slots; the table shows its total
+      const byBanner: Record<string, BannerStats> = {};
+      for (const row of data.data.rows || []) {
+        const s = byBanner[row.adId] || { impressions: 0, clicks: 0, ctr: 0 };
+        s.impressions += row.impressions;
+        s.clicks += row.clicks;
+        s.ctr = ctrOf(s.impressions, s.clicks);
+        byBanner[row.adId] = s;
+      }
+      setBannerStats(byBanner);
+      setStatsTotals(data.data.totals);
+    } catch (error) {
+      console.error("Error fetching banner stats:", error);
+    }
+  };
+
+  const fetchAdvertisers = async () => {
+    try {
+      const response = await fetch(
+        "/api/admin/advertisement/submissions?limit=100",
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      const data = await response.json();
+      if (data?.success) setAdvertisers(data.data.submissions || []);
+    } catch (error) {
+      console.error("Error fetching advertisers:", error);
+    }
+  };
+
   const fetchBanners = async () => {
     try {
       setLoading(true);
@@ -209,6 +292,7 @@ export default function AdminBanners({ token }: AdminBannersProps) {
         position: formData.position,
         status: formData.status || "approved",
         isFeatured: formData.isFeatured || false,
+        advertiserId: formData.advertiserId || null,
       };
 
       // Optimistic UI (editing) - preserve all fields including status/isFeatured
@@ -361,6 +445,7 @@ export default function AdminBanners({ token }: AdminBannersProps) {
       position: banner.position || "homepage_top",
       status: (banner as any).status || "approved",
       isFeatured: Boolean((banner as any).isFeatured),
+      advertiserId: banner.advertiserId || "",
     });
     setEditingBanner(banner);
     setShowDialog(true);
@@ -376,6 +461,7 @@ export default function AdminBanners({ token }: AdminBannersProps) {
       position: "homepage_top",
       status: "approved",
       isFeatured: false,
+      advertiserId: "",
     });
     setEditingBanner(null);
   };
@@ -501,6 +587,28 @@ export default function AdminBanners({ token }: AdminBannersProps) {
                 </select>
               </div>
 
+              {/* Advertiser */}
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Advertiser
+                </label>
+                <select
+                  value={formData.advertiserId}
+                  onChange={(e) => handleInputChange("advertiserId", e.target.value)}
+                  className="w-full border rounded-md p-2 text-sm"
+                >
+                  <option value="">House ad (no advertiser)</option>
+                  {advertisers.map((a) => (
+                    <option key={a._id} value={a._id}>
+                      {a.projectName} — {a.fullName}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Links this banner's impressions and clicks to the advertiser's report
+                </p>
+              </div>
+
               {/* Sort order */}
               <div>
                 <label className="block text-sm font-medium mb-2">
@@ -633,6 +741,48 @@ export default function AdminBanners({ token }: AdminBannersProps) {
         </div>
       </div>
 
+      {/* Performance */}
+      <div className="bg-white rounded-lg shadow border p-4 space-y-4">
+        <div className="flex items-center gap-3 flex-wrap">
+          <BarChart3 className="h-5 w-5 text-gray-500" />
+          <h2 className="font-semibold text-gray-900">Performance</h2>
+          <select
+            value={statsRange}
+            onChange={(e) => setStatsRange(e.target.value)}
+            className="border rounded-md p-2 text-sm ml-auto"
+          >
+            {STATS_RANGES.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold">
+              {(statsTotals?.impressions ?? 0).toLocaleString("en-IN")}
+            </p>
+            <p className="text-xs text-gray-500">Impressions</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">
+              {(statsTotals?.clicks ?? 0).toLocaleString("en-IN")}
+            </p>
+            <p className="text-xs text-gray-500">Clicks</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{(statsTotals?.ctr ?? 0).toFixed(2)}%</p>
+            <p className="text-xs text-gray-500">CTR</p>
+          </div>
+        </div>
+        <AdvertiserReports
+          token={token}
+          advertisers={advertisers}
+          from={rangeStart(Number(statsRange))}
+        />
+      </div>
+
       {/* Table */}
       <div className="bg-white rounded-lg shadow border">
         <Table>
@@ -642,6 +792,9 @@ export default function AdminBanners({ token }: AdminBannersProps) {
               <TableHead>Title</TableHead>
               <TableHead>Position</TableHead>
               <TableHead>Link</TableHead>
+              <TableHead className="text-right">Impressions</TableHead>
+              <TableHead className="text-right">Clicks</TableHead>
+              <TableHead className="text-right">CTR</TableHead>
               <TableHead className="w-24">
                 <div className="flex items-center">
                   <ArrowUpDown className="h-4 w-4 mr-1" />
@@ -692,6 +845,16 @@ export default function AdminBanners({ token }: AdminBannersProps) {
                   )}
                 </TableCell>
 
+                <TableCell className="text-right tabular-nums">
+                  {(bannerStats[banner._id!]?.impressions ?? 0).toLocaleString("en-IN")}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {(bannerStats[banner._id!]?.clicks ?? 0).toLocaleString("en-IN")}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {(bannerStats[banner._id!]?.ctr ?? 0).toFixed(2)}%
+                </TableCell>
+
                 <TableCell>{banner.sortOrder}</TableCell>
 
                 <TableCell>
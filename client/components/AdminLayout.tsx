@@ -19,6 +19,7 @@ import {
   MapPin,
   Globe,
   BarChart3,
+  TrendingUp,
   AlertTriangle,
   Send,
   UserCheck,
@@ -35,6 +36,9 @@ import {
   Plus,
   Bell,
   Trash2,
+  Clock,
+  History,
+  Scale,
 } from "lucide-react";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
@@ -94,6 +98,7 @@ const menuItems: MenuItem[] = [
       { id: "transactions", label: "Payment Transactions", icon: CreditCard },
       { id: "manual-payment-approval", label: "Manual Payment Approval", icon: Shield, badge: "" },
       { id: "bank-transfer", label: "Bank Transfer", icon: CreditCard },
+      { id: "payment-reconciliation", label: "Payment Reconciliation", icon: Scale },
     ],
   },
   {
@@ -158,6 +163,7 @@ const menuItems: MenuItem[] = [
       { id: "states", label: "States", icon: MapPin },
       { id: "cities", label: "Cities", icon: MapPin },
       { id: "areas", label: "Areas", icon: MapPin },
+      { id: "market-insights", label: "Market Insights", icon: TrendingUp },
     ],
   },
   {
@@ -177,6 +183,7 @@ const menuItems: MenuItem[] = [
       { id: "send-notification", label: "Send Notification", icon: Send },
       { id: "customers", label: "Customers", icon: Users },
       { id: "advertisement-submissions", label: "Advertisement Submissions", icon: Megaphone },
+      { id: "ad-campaigns", label: "Banner Campaigns", icon: Megaphone },
     ],
   },
   {
@@ -186,6 +193,7 @@ const menuItems: MenuItem[] = [
     children: [
       { id: "role", label: "Role", icon: Shield },
       { id: "staff-management", label: "Staff Management", icon: Crown },
+      { id: "audit-log", label: "Audit Log", icon: History },
     ],
   },
   {
@@ -207,9 +215,11 @@ const menuItems: MenuItem[] = [
     icon: Wrench,
     children: [
       { id: "system-status", label: "System Status", icon: Activity },
+      { id: "scheduled-jobs", label: "Scheduled Jobs", icon: Clock },
       { id: "testing", label: "System Testing", icon: Activity },
       { id: "test-seller-notifications", label: "Test Seller Notifications", icon: Bell },
       { id: "free-ad-limit-settings", label: "Free Ad Limit Settings", icon: Settings },
+      { id: "listing-expiry-settings", label: "Listing Expiry Settings", icon: Clock },
       { id: "settings", label: "Settings", icon: Settings },
       { id: "system-update", label: "System Update", icon: RefreshCw },
       { id: "auth-debug", label: "Auth Debug", icon: Shield },
@@ -7,6 +7,8 @@ import {
   CarouselPrevious,
   type CarouselApi,
 } from "./ui/carousel";
+import { AdRef, trackAdClick } from "../lib/adTracking";
+import { useAdImpression } from "../hooks/useAdImpression";
 
 export interface BannerAd {
   _id?: string;
@@ -87,6 +89,11 @@ function forceExtimgProxy(raw?: string | null): string | null {
 const toImgUrl = (b: any): string =>
   forceExtimgProxy(readImgKey(b) || "") || "/placeholder.svg";
 
+const adRef = (b: BannerAd | undefined): AdRef | null =>
+  b?._id
+    ? { source: "banner", adId: b._id, slot: b.position || "advertisement_banners" }
+    : null;
+
 const AdvertisementBannerCarousel: React.FC<
   AdvertisementBannerCarouselProps
 > = ({ onBannerClick }) => {
@@ -95,6 +102,7 @@ const AdvertisementBannerCarousel: React.FC<
   const [current, setCurrent] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const impressionRef = useAdImpression(adRef(banners[current]));
 
   const defaultSlides = useMemo<BannerAd[]>(
     () =>
@@ -191,6 +199,8 @@ const AdvertisementBannerCarousel: React.FC<
   }, [api, banners.length]);
 
   const handleBannerClick = (b: BannerAd) => {
+    trackAdClick(adRef(b));
+
     // Determine banner type from position in array or title
     const index = banners.indexOf(b);
     const types = ["residential", "commercial", "investment", "industrial"];
@@ -210,7 +220,10 @@ const AdvertisementBannerCarousel: React.FC<
   }
 
   return (
-    <div className="advertisement-carousel relative w-full h-64 sm:h-80 md:h-96 overflow-hidden bg-black">
+    <div
+      ref={impressionRef}
+      className="advertisement-carousel relative w-full h-64 sm:h-80 md:h-96 overflow-hidden bg-black"
+    >
       <Carousel
         opts={{ align: "start", loop: true }}
         setApi={setApi}
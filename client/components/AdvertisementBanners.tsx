@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { useToast } from "./ui/use-toast";
+import { ToastAction } from "./ui/toast";
 import {
   Dialog,
   DialogContent,
@@ -109,9 +110,20 @@ export default function AdvertisementForm({
       const data = await response.json();
 
       if (data.success) {
+        // self-serve: skip the sales call and book dates right away
+        const bookUrl = `/advertise/book?submissionId=${data.data?._id || ""}`;
         toast({
           title: "Success",
-          description: "Your submission has been sent to our sales team",
+          description:
+            "Your submission has been sent to our sales team. Want to go live sooner? Book a slot online.",
+          action: (
+            <ToastAction
+              altText="Book a slot online"
+              onClick={() => (window.location.href = bookUrl)}
+            >
+              Book online
+            </ToastAction>
+          ),
         });
         setFormData({
           bannerType,
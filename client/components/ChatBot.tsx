@@ -99,12 +99,10 @@ export default function ChatBot({
   const [unreadCount, setUnreadCount] = useState(0);
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'connecting' | 'disconnected'>('disconnected');
   const [showScrollToBottom, setShowScrollToBottom] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
-  const wsRef = useRef<WebSocket | null>(null);
 
   // Theme colors
   const themeColors = {
@@ -140,92 +138,6 @@ export default function ChatBot({
 
   const currentTheme = themeColors[theme];
 
-  // WebSocket connection
-  useEffect(() => {
-    if (isOpen && user && token) {
-      connectWebSocket();
-    }
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-    };
-  }, [isOpen, user, token]);
-
-  const connectWebSocket = () => {
-    try {
-      setConnectionStatus('connecting');
-      const wsUrl = `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}/ws/chat`;
-      wsRef.current = new WebSocket(wsUrl);
-
-      wsRef.current.onopen = () => {
-        setConnectionStatus('connected');
-        // Send authentication and context
-        wsRef.current?.send(JSON.stringify({
-          type: 'auth',
-          token,
-          propertyId,
-          sellerId,
-          userId: user?.id
-        }));
-      };
-
-      wsRef.current.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-        handleWebSocketMessage(data);
-      };
-
-      wsRef.current.onclose = () => {
-        setConnectionStatus('disconnected');
-        // Attempt to reconnect after 3 seconds
-        setTimeout(() => {
-          if (isOpen) {
-            connectWebSocket();
-          }
-        }, 3000);
-      };
-
-      wsRef.current.onerror = () => {
-        setConnectionStatus('disconnected');
-      };
-    } catch (error) {
-      console.error('WebSocket connection error:', error);
-      setConnectionStatus('disconnected');
-    }
-  };
-
-  const handleWebSocketMessage = (data: any) => {
-    switch (data.type) {
-      case 'message':
-        addMessage({
-          id: data.messageId || Date.now().toString(),
-          message: data.message,
-          sender: data.sender,
-          timestamp: new Date(data.timestamp),
-          type: data.messageType || 'text',
-          data: data.data,
-          status: 'sent'
-        });
-        break;
-      case 'typing':
-        setIsTyping(data.isTyping);
-        break;
-      case 'conversation_created':
-        setConversationId(data.conversationId);
-        break;
-      case 'handoff':
-        setIsBotMode(false);
-        addMessage({
-          id: Date.now().toString(),
-          message: 'You are now connected to a human agent. How can we help you?',
-          sender: 'human',
-          timestamp: new Date(),
-          type: 'system'
-        });
-        break;
-    }
-  };
-
   // Initialize bot conversation
   useEffect(() => {
     if (isOpen && messages.length === 0) {
@@ -332,80 +244,61 @@ export default function ChatBot({
     setInputMessage('');
     setIsLoading(true);
 
-    // Send via WebSocket if connected
-    if (wsRef.current && connectionStatus === 'connected') {
-      try {
-        wsRef.current.send(JSON.stringify({
-          type: 'message',
+    setIsTyping(true);
+    try {
+      const response = await fetch(apiEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : ''
+        },
+        body: JSON.stringify({
           message: currentMessage,
           propertyId,
           sellerId,
           conversationId,
-          isBotMode
-        }));
-        // Optimistically mark as sent once queued to WS
+          isBotMode,
+          userId: user?.id
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        // Mark user's message as sent
         updateMessageStatus(userMessage.id, 'sent');
-      } catch (err) {
-        console.error('WebSocket send failed, falling back to HTTP:', err);
-      }
-    }
 
-    // If WS isn't connected or send failed, use HTTP fallback
-    if (!wsRef.current || connectionStatus !== 'connected') {
-      try {
-        const response = await fetch(apiEndpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': token ? `Bearer ${token}` : ''
-          },
-          body: JSON.stringify({
-            message: currentMessage,
-            propertyId,
-            sellerId,
-            conversationId,
-            isBotMode,
-            userId: user?.id
-          })
-        });
-
-        const data = await response.json();
-
-        if (data.success) {
-          // Mark user's message as sent
-          updateMessageStatus(userMessage.id, 'sent');
-
-          if (data.conversationId) {
-            setConversationId(data.conversationId);
-          }
-
-          // Add bot/human response
-          if (data.response) {
-            addMessage({
-              id: data.messageId || (Date.now() + 1).toString(),
-              message: data.response,
-              sender: isBotMode ? 'bot' : 'human',
-              timestamp: new Date(),
-              type: 'text'
-            });
-          }
-        } else {
-          // Ensure the UI doesn't spin forever
-          updateMessageStatus(userMessage.id, 'sent');
+        if (data.conversationId) {
+          setConversationId(data.conversationId);
+        }
+
+        // Add bot/human response
+        if (data.response) {
+          addMessage({
+            id: data.messageId || (Date.now() + 1).toString(),
+            message: data.response,
+            sender: isBotMode ? 'bot' : 'human',
+            timestamp: new Date(),
+            type: 'text'
+          });
         }
-      } catch (error) {
-        console.error('Error sending message:', error);
+      } else {
+        // Ensure the UI doesn't spin forever
         updateMessageStatus(userMessage.id, 'sent');
-        addMessage({
-          id: Date.now().toString(),
-          message: 'Sorry, there was an error sending your message. Please try again.',
-          sender: 'bot',
-          timestamp: new Date(),
-          type: 'text'
-        });
       }
+    } catch (error) {
+      console.error('Error sending message:', error);
+      updateMessageStatus(userMessage.id, 'sent');
+      addMessage({
+        id: Date.now().toString(),
+        message: 'Sorry, there was an error sending your message. Please try again.',
+        sender: 'bot',
+        timestamp: new Date(),
+        type: 'text'
+      });
     }
 
+    setIsTyping(false);
     setIsLoading(false);
   };
 
@@ -438,16 +331,6 @@ export default function ChatBot({
     
     setIsBotMode(false);
     
-    // Send handoff request
-    if (wsRef.current && connectionStatus === 'connected') {
-      wsRef.current.send(JSON.stringify({
-        type: 'handoff_request',
-        propertyId,
-        sellerId,
-        conversationId
-      }));
-    }
-
     addMessage({
       id: Date.now().toString(),
       message: 'Connecting you to a human agent. Please wait a moment...',
@@ -616,14 +499,8 @@ export default function ChatBot({
                 {isBotMode ? 'AI Assistant' : `Chat with ${sellerName}`}
               </h3>
               <div className="flex items-center space-x-1 text-xs opacity-90">
-                <div className={`w-2 h-2 rounded-full ${
-                  connectionStatus === 'connected' ? 'bg-green-400' : 
-                  connectionStatus === 'connecting' ? 'bg-yellow-400' : 'bg-red-400'
-                }`}></div>
-                <span>
-                  {connectionStatus === 'connected' ? 'Online' : 
-                   connectionStatus === 'connecting' ? 'Connecting...' : 'Offline'}
-                </span>
+                <div className="w-2 h-2 rounded-full bg-green-400"></div>
+                <span>Online</span>
               </div>
             </div>
           </div>
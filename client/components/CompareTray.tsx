@@ -0,0 +1,61 @@
+import React from "react";
+import { Link, useLocation } from "react-router-dom";
+import { GitCompare, Home, X } from "lucide-react";
+import { MAX_COMPARE, compareUrl } from "@shared/compare";
+import { useCompareTray } from "../hooks/useCompareTray";
+import { Button } from "./ui/button";
+
+// pages where the floating tray would get in the way
+const HIDDEN_ON = [/^\/compare/, /^\/admin/, /^\/staff/];
+
+/** Floating bar with the properties picked for comparison. */
+export default function CompareTray() {
+  const { pathname } = useLocation();
+  const { items, remove, clear } = useCompareTray();
+
+  if (!items.length || HIDDEN_ON.some((re) => re.test(pathname))) return null;
+
+  return (
+    <div className="fixed bottom-16 md:bottom-4 left-1/2 -translate-x-1/2 z-40 w-[95%] max-w-3xl bg-white border shadow-lg rounded-lg p-3">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 flex gap-2 overflow-x-auto">
+          {items.map((item) => (
+            <div key={item._id} className="relative flex items-center gap-2 border rounded-md p-1 pr-6 min-w-[140px] max-w-[180px]">
+              <div className="w-10 h-10 bg-gray-100 rounded overflow-hidden flex-shrink-0">
+                {item.image ? (
+                  <img data-wm="1" src={item.image} alt={item.title} className="w-full h-full object-cover" />
+                ) : (
+                  <Home className="h-5 w-5 m-2.5 text-gray-400" />
+                )}
+              </div>
+              <span className="text-xs font-medium line-clamp-2">{item.title}</span>
+              <button
+                type="button"
+                onClick={() => remove(item._id)}
+                className="absolute top-1 right-1 text-gray-400 hover:text-gray-700"
+                aria-label={`Remove ${item.title} from compare`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-col items-end gap-1 flex-shrink-0">
+          {items.length < 2 ? (
+            <span className="text-xs text-gray-500">Add {2 - items.length} more to compare</span>
+          ) : (
+            <Link to={compareUrl(items.map((i) => i._id))}>
+              <Button size="sm" className="bg-[#C70000] hover:bg-[#A60000] text-white">
+                <GitCompare className="h-4 w-4 mr-1" />
+                Compare {items.length}/{MAX_COMPARE}
+              </Button>
+            </Link>
+          )}
+          <button type="button" onClick={clear} className="text-xs text-gray-500 hover:underline">
+            Clear
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
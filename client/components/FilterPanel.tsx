@@ -1,5 +1,14 @@
 import { useState } from "react";
-import { Filter, X, MapPin, IndianRupee, Home, Bed, Bath } from "lucide-react";
+import {
+  Filter,
+  X,
+  MapPin,
+  IndianRupee,
+  Home,
+  Bed,
+  Bath,
+  BellRing,
+} from "lucide-react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
@@ -12,6 +21,8 @@ import {
   SelectValue,
 } from "./ui/select";
 import { Slider } from "./ui/slider";
+import { api } from "../lib/api";
+import { SearchFilters } from "@shared/types";
 
 interface FilterPanelProps {
   isOpen: boolean;
@@ -27,13 +38,30 @@ interface FilterPanelProps {
     sort?: string;
   }) => void;
   onClear?: () => void;
+  priceType?: "sale" | "rent"; // included when saving the search
 }
 
+const MAX_PRICE = 10000000;
+
+// Filter panel labels → canonical propertyType values
+const PROPERTY_TYPE_VALUES: Record<string, string> = {
+  Residential: "residential",
+  Commercial: "commercial",
+  Plots: "plot",
+  Flats: "flat",
+  "PG / Rental": "pg",
+  "Builder Floors": "residential",
+  "Agricultural Land": "agricultural",
+  Shops: "commercial",
+  Warehouses: "commercial",
+};
+
 export default function FilterPanel({
   isOpen,
   onClose,
   onApply,
   onClear,
+  priceType,
 }: FilterPanelProps) {
   const [priceRange, setPriceRange] = useState<[number, number]>([0, 10000000]);
   const [selectedPropertyTypes, setSelectedPropertyTypes] = useState<string[]>(
@@ -44,6 +72,10 @@ export default function FilterPanel({
   const [sectorVal, setSectorVal] = useState<string>("");
   const [locationText, setLocationText] = useState<string>("");
   const [sort, setSort] = useState<string>("");
+  const [searchName, setSearchName] = useState<string>("");
+  const [frequency, setFrequency] = useState<"instant" | "daily">("instant");
+  const [saveMessage, setSaveMessage] = useState<string>("");
+  const [saving, setSaving] = useState(false);
 
   const propertyTypes = [
     "Residential",
@@ -87,6 +119,55 @@ export default function FilterPanel({
     onClose();
   };
 
+  const toSavedSearchFilters = (): SearchFilters => {
+    const filters: SearchFilters = {};
+    if (priceType) filters.priceType = priceType;
+    if (priceRange[0] > 0 || priceRange[1] < MAX_PRICE) {
+      filters.priceRange = {
+        min: priceRange[0],
+        max: priceRange[1] < MAX_PRICE ? priceRange[1] : 0,
+      };
+    }
+    const types = Array.from(
+      new Set(selectedPropertyTypes.map((t) => PROPERTY_TYPE_VALUES[t]).filter(Boolean)),
+    );
+    if (types.length) filters.propertyTypes = types;
+    if (bhk) filters.bedrooms = bhk === "5plus" ? 5 : parseInt(bhk);
+    if (bathrooms) filters.bathrooms = bathrooms === "4plus" ? 4 : parseInt(bathrooms);
+    if (sectorVal) filters.location = { sector: sectorVal.replace(/-/g, " ") };
+    if (locationText.trim()) filters.keyword = locationText.trim();
+    return filters;
+  };
+
+  const saveSearch = async () => {
+    setSaveMessage("");
+    const filters = toSavedSearchFilters();
+    if (Object.keys(filters).length === 0) {
+      setSaveMessage("Pick at least one filter first");
+      return;
+    }
+    setSaving(true);
+    try {
+      const response = await api.post("saved-searches", {
+        name: searchName.trim() || "My search",
+        filters,
+        frequency,
+      });
+      setSaveMessage(
+        response.success
+          ? frequency === "instant"
+            ? "Saved! We'll alert you as soon as a new listing matches."
+            : "Saved! You'll get a daily email with new matches."
+          : response.error === "HTTP 401"
+            ? "Please log in to save searches"
+            : response.error || "Could not save search",
+      );
+      if (response.success) setSearchName("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const clearAll = () => {
     setPriceRange([0, 10000000]);
     setSelectedPropertyTypes([]);
@@ -95,6 +176,7 @@ export default function FilterPanel({
     setSectorVal("");
     setLocationText("");
     setSort("");
+    setSaveMessage("");
     onClear?.();
   };
 
@@ -148,6 +230,16 @@ export default function FilterPanel({
             />
 
             <SortSection sort={sort} setSort={setSort} />
+
+            <SaveSearchSection
+              name={searchName}
+              setName={setSearchName}
+              frequency={frequency}
+              setFrequency={setFrequency}
+              onSave={saveSearch}
+              saving={saving}
+              message={saveMessage}
+            />
           </div>
 
           <FooterButtons
@@ -199,6 +291,16 @@ export default function FilterPanel({
               </div>
 
               <SortSection sort={sort} setSort={setSort} />
+
+              <SaveSearchSection
+                name={searchName}
+                setName={setSearchName}
+                frequency={frequency}
+                setFrequency={setFrequency}
+                onSave={saveSearch}
+                saving={saving}
+                message={saveMessage}
+              />
             </div>
           </div>
 
@@ -438,6 +540,64 @@ function SortSection({
   );
 }
 
+function SaveSearchSection({
+  name,
+  setName,
+  frequency,
+  setFrequency,
+  onSave,
+  saving,
+  message,
+}: {
+  name: string;
+  setName: (v: string) => void;
+  frequency: "instant" | "daily";
+  setFrequency: (v: "instant" | "daily") => void;
+  onSave: () => void;
+  saving: boolean;
+  message: string;
+}) {
+  return (
+    <div className="rounded-lg border border-dashed border-[#C70000]/40 p-3">
+      <Label className="mb-3 flex items-center gap-2 text-base font-medium">
+        <BellRing className="h-4 w-4 text-[#C70000]" />
+        Save this search
+      </Label>
+      <div className="space-y-2">
+        <Input
+          placeholder="e.g. 3 BHK in Sector 14"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <Select
+            value={frequency}
+            onValueChange={(v) => setFrequency(v as "instant" | "daily")}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="instant">Alert me instantly</SelectItem>
+              <SelectItem value="daily">Daily digest</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            type="button"
+            className="border-[#C70000] text-[#C70000]"
+            disabled={saving}
+            onClick={onSave}
+          >
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+        {message && <p className="text-xs text-gray-600">{message}</p>}
+      </div>
+    </div>
+  );
+}
+
 function FooterButtons({
   apply,
   clear,
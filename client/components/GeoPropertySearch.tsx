@@ -0,0 +1,319 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Crosshair, MapPin, PenTool, Trash2 } from "lucide-react";
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+interface GeoResult {
+  _id: string;
+  title: string;
+  price: number;
+  priceType?: "sale" | "rent";
+  images?: string[];
+  location?: { address?: string; area?: string; sector?: string };
+  distanceKm: number;
+}
+
+// Bounding box of the embedded Rohtak map (same view as LocationMap)
+const BBOX = { west: 76.53, south: 28.85, east: 76.63, north: 28.95 };
+
+const LANDMARKS: Array<{ label: string } & LatLng> = [
+  { label: "PGIMS", lat: 28.8777, lng: 76.6206 },
+  { label: "Rohtak Railway Station", lat: 28.8983, lng: 76.5817 },
+  { label: "City Centre", lat: 28.8955, lng: 76.6066 },
+];
+
+const RADII = [1, 2, 5, 10];
+
+const formatPrice = (price: number, priceType?: string) => {
+  const v =
+    price >= 10000000
+      ? `₹${(price / 10000000).toFixed(2)} Cr`
+      : price >= 100000
+        ? `₹${(price / 100000).toFixed(1)} L`
+        : `₹${Number(price || 0).toLocaleString("en-IN")}`;
+  return priceType === "rent" ? `${v}/month` : v;
+};
+
+export default function GeoPropertySearch() {
+  const [mode, setMode] = useState<"near" | "draw">("near");
+  const [center, setCenter] = useState<(LatLng & { label: string }) | null>(null);
+  const [radiusKm, setRadiusKm] = useState(2);
+  const [sort, setSort] = useState("distance");
+  const [points, setPoints] = useState<LatLng[]>([]);
+  const [results, setResults] = useState<GeoResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const overlayRef = useRef<SVGSVGElement | null>(null);
+
+  const searchNearby = async (
+    c: LatLng & { label: string },
+    r = radiusKm,
+    s = sort,
+  ) => {
+    setCenter(c);
+    setLoading(true);
+    setError("");
+    try {
+      const qs = new URLSearchParams({
+        lat: String(c.lat),
+        lng: String(c.lng),
+        radiusKm: String(r),
+        sort: s,
+        limit: "50",
+      });
+      const res = await fetch(`/api/properties/nearby?${qs}`, { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok || data?.success === false)
+        throw new Error(data?.error || "Failed to load properties");
+      setResults(data.data?.properties || []);
+      setTotal(data.data?.pagination?.total || 0);
+    } catch (e: any) {
+      setResults([]);
+      setTotal(0);
+      setError(e?.message || "Failed to load properties");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const searchArea = async (s = sort) => {
+    if (points.length < 3) {
+      setError("Tap at least 3 points on the map to draw an area");
+      return;
+    }
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/properties/within", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ polygon: points, sort: s, limit: 50 }),
+      });
+      const data = await res.json();
+      if (!res.ok || data?.success === false)
+        throw new Error(data?.error || "Failed to load properties");
+      setResults(data.data?.properties || []);
+      setTotal(data.data?.pagination?.total || 0);
+    } catch (e: any) {
+      setResults([]);
+      setTotal(0);
+      setError(e?.message || "Failed to load properties");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const useMyLocation = () => {
+    if (!("geolocation" in navigator)) {
+      setError("Location is not available on this device");
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) =>
+        searchNearby({
+          label: "your location",
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+        }),
+      () => setError("Location permission denied"),
+    );
+  };
+
+  const onMapClick: React.MouseEventHandler<SVGSVGElement> = (e) => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    setPoints((p) => [
+      ...p,
+      {
+        lat: BBOX.north - y * (BBOX.north - BBOX.south),
+        lng: BBOX.west + x * (BBOX.east - BBOX.west),
+      },
+    ]);
+  };
+
+  const toPixel = (p: LatLng) => ({
+    x: ((p.lng - BBOX.west) / (BBOX.east - BBOX.west)) * 100,
+    y: ((BBOX.north - p.lat) / (BBOX.north - BBOX.south)) * 100,
+  });
+
+  const changeSort = (s: string) => {
+    setSort(s);
+    if (mode === "near" && center) searchNearby(center, radiusKm, s);
+    if (mode === "draw" && points.length >= 3) searchArea(s);
+  };
+
+  const chip = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm border ${
+      active
+        ? "bg-[#C70000] text-white border-[#C70000]"
+        : "bg-white text-gray-800 border-gray-200"
+    }`;
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <MapPin className="h-5 w-5 text-[#C70000]" />
+          Find properties by location
+        </h2>
+        <div className="flex gap-2">
+          <button className={chip(mode === "near")} onClick={() => setMode("near")}>
+            Near a place
+          </button>
+          <button className={chip(mode === "draw")} onClick={() => setMode("draw")}>
+            Draw area
+          </button>
+        </div>
+      </div>
+
+      {mode === "near" ? (
+        <div className="space-y-3">
+          <div className="flex gap-2 flex-wrap">
+            {LANDMARKS.map((l) => (
+              <button
+                key={l.label}
+                className={chip(center?.label === l.label)}
+                onClick={() => searchNearby(l)}
+              >
+                {l.label}
+              </button>
+            ))}
+            <button className={chip(center?.label === "your location")} onClick={useMyLocation}>
+              <Crosshair className="inline h-4 w-4 mr-1" />
+              Near me
+            </button>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Within</span>
+            {RADII.map((r) => (
+              <button
+                key={r}
+                className={chip(radiusKm === r)}
+                onClick={() => {
+                  setRadiusKm(r);
+                  if (center) searchNearby(center, r);
+                }}
+              >
+                {r} km
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="relative w-full h-72 rounded-lg overflow-hidden border">
+            <iframe
+              title="Rohtak map"
+              className="w-full h-full pointer-events-none"
+              src={`https://www.openstreetmap.org/export/embed.html?bbox=${BBOX.west},${BBOX.south},${BBOX.east},${BBOX.north}&layer=mapnik`}
+              loading="lazy"
+            />
+            <svg
+              ref={overlayRef}
+              className="absolute inset-0 w-full h-full cursor-crosshair"
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+              onClick={onMapClick}
+            >
+              {points.length > 1 && (
+                <polygon
+                  points={points.map((p) => `${toPixel(p).x},${toPixel(p).y}`).join(" ")}
+                  fill="rgba(199,0,0,0.15)"
+                  stroke="#C70000"
+                  strokeWidth={0.5}
+                />
+              )}
+              {points.map((p, i) => (
+                <circle key={i} cx={toPixel(p).x} cy={toPixel(p).y} r={1} fill="#C70000" />
+              ))}
+            </svg>
+          </div>
+          <div className="flex gap-2 items-center text-sm">
+            <span className="text-gray-600 flex items-center gap-1">
+              <PenTool className="h-4 w-4" />
+              Tap the map to outline an area ({points.length} points)
+            </span>
+            <button
+              className="ml-auto px-3 py-1.5 rounded border text-sm"
+              onClick={() => {
+                setPoints([]);
+                setResults([]);
+                setTotal(0);
+              }}
+            >
+              <Trash2 className="inline h-4 w-4 mr-1" />
+              Clear
+            </button>
+            <button
+              className="px-3 py-1.5 rounded bg-[#C70000] text-white text-sm disabled:opacity-50"
+              disabled={points.length < 3 || loading}
+              onClick={() => searchArea()}
+            >
+              Search this area
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4 mb-2">
+        <div className="text-sm text-gray-600">
+          {loading
+            ? "Searching..."
+            : mode === "near" && center
+              ? `${total} properties within ${radiusKm} km of ${center.label}`
+              : mode === "draw" && total > 0
+                ? `${total} properties in the selected area`
+                : ""}
+        </div>
+        <select
+          className="border rounded px-2 py-1 text-sm"
+          value={sort}
+          onChange={(e) => changeSort(e.target.value)}
+        >
+          <option value="distance">Nearest first</option>
+          <option value="price_asc">Price: Low to High</option>
+          <option value="price_desc">Price: High to Low</option>
+          <option value="newest">Newest first</option>
+        </select>
+      </div>
+
+      {error && <div className="text-sm text-red-600 mb-2">{error}</div>}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {results.map((p) => (
+          <Link
+            key={p._id}
+            to={`/property/${p._id}`}
+            className="flex gap-3 border rounded-lg p-2 hover:shadow-sm"
+          >
+            {p.images?.[0] && (
+              <img
+                src={p.images[0]}
+                alt={p.title}
+                className="w-20 h-20 object-cover rounded"
+                loading="lazy"
+              />
+            )}
+            <div className="min-w-0">
+              <div className="font-medium text-gray-900 truncate">{p.title}</div>
+              <div className="text-[#C70000] text-sm font-semibold">
+                {formatPrice(p.price, p.priceType)}
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                {p.location?.address || p.location?.area}
+              </div>
+              <div className="text-xs text-gray-700 mt-1">{p.distanceKm} km away</div>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
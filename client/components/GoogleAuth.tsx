@@ -66,8 +66,8 @@ export default function GoogleAuth({
       const payload = data?.data ?? data;
 
       if (ok && payload?.token && payload?.user) {
-        const { token, user } = payload;
-        login(token, user);
+        const { token, user, refreshToken } = payload;
+        login(token, user, refreshToken);
 
         if (onSuccess) onSuccess(user);
         else {
@@ -1,5 +1,7 @@
 import React, { useEffect, useState, useRef } from "react";
 import { BannerAd } from "@shared/types";
+import { AdRef, trackAdClick } from "../lib/adTracking";
+import { useAdImpression } from "../hooks/useAdImpression";
 
 interface HomepageBannerProps {
   position: "homepage_top" | "homepage_middle" | "homepage_bottom";
@@ -82,8 +84,13 @@ export default function HomepageBanner({
   }, [banners.length, paused, intervalMs]);
 
   const current = banners[idx];
+  const currentAd: AdRef | null = current?._id
+    ? { source: "banner", adId: current._id, slot: position }
+    : null;
+  const impressionRef = useAdImpression(currentAd);
 
   const handleClick = () => {
+    trackAdClick(currentAd);
     if (current?.link) {
       window.open(current.link, "_blank", "noopener,noreferrer");
     }
@@ -105,6 +112,7 @@ export default function HomepageBanner({
       onMouseLeave={() => setPaused(false)}
     >
       <div
+        ref={impressionRef}
         className="relative overflow-hidden rounded-xl shadow-lg hover:shadow-xl cursor-pointer transition-all duration-300"
         role={current?.link ? "button" : "img"}
         aria-label={current?.title || "Banner"}
@@ -1,3 +1,5 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { MapPin } from "lucide-react";
 
 interface LocationMapProps {
@@ -7,6 +9,17 @@ interface LocationMapProps {
   sector?: string;
   colony?: string;
   landmark?: string;
+  coordinates?: { lat: number; lng: number };
+  propertyId?: string; // excluded from the "nearby" list
+  nearbyRadiusKm?: number;
+}
+
+interface NearbyItem {
+  _id: string;
+  title: string;
+  price: number;
+  priceType?: string;
+  distanceKm: number;
 }
 
 export default function LocationMap({
@@ -16,7 +29,32 @@ export default function LocationMap({
   sector,
   colony,
   landmark,
+  coordinates,
+  propertyId,
+  nearbyRadiusKm = 2,
 }: LocationMapProps) {
+  const [nearby, setNearby] = useState<NearbyItem[]>([]);
+  const hasCoords =
+    !!coordinates &&
+    Number.isFinite(coordinates.lat) &&
+    Number.isFinite(coordinates.lng) &&
+    !(coordinates.lat === 0 && coordinates.lng === 0);
+
+  useEffect(() => {
+    if (!hasCoords) return;
+    const qs = new URLSearchParams({
+      lat: String(coordinates!.lat),
+      lng: String(coordinates!.lng),
+      radiusKm: String(nearbyRadiusKm),
+      limit: "4",
+      ...(propertyId ? { excludeId: propertyId } : {}),
+    });
+    fetch(`/api/properties/nearby?${qs}`)
+      .then((r) => r.json())
+      .then((data) => setNearby(data?.data?.properties || []))
+      .catch(() => setNearby([]));
+  }, [hasCoords, coordinates?.lat, coordinates?.lng, propertyId, nearbyRadiusKm]);
+
   const fullAddress = [
     address,
     sector,
@@ -32,7 +70,10 @@ export default function LocationMap({
 
   const osmEmbedUrl = `https://www.openstreetmap.org/export/embed.html?bbox=76.53,28.85,76.63,28.95&layer=mapnik&marker=28.9,76.58`;
 
-  const googleMapsUrl = `https://www.google.com/maps?q=${encodedAddress}&output=embed`;
+  const mapQuery = hasCoords
+    ? `${coordinates!.lat},${coordinates!.lng}`
+    : encodedAddress;
+  const googleMapsUrl = `https://www.google.com/maps?q=${mapQuery}&output=embed`;
 
   return (
     <div className="w-full rounded-lg overflow-hidden border border-gray-200">
@@ -71,6 +112,27 @@ export default function LocationMap({
           </a>
         </div>
       )}
+
+      {nearby.length > 0 && (
+        <div className="px-4 py-3 border-t">
+          <h4 className="text-xs sm:text-sm font-semibold text-gray-900 mb-2">
+            Other properties within {nearbyRadiusKm} km
+          </h4>
+          <ul className="space-y-1">
+            {nearby.map((p) => (
+              <li key={p._id} className="flex justify-between gap-2 text-xs sm:text-sm">
+                <Link to={`/property/${p._id}`} className="truncate text-[#C70000] hover:underline">
+                  {p.title}
+                </Link>
+                <span className="shrink-0 text-gray-600">
+                  ₹{Number(p.price || 0).toLocaleString("en-IN")}
+                  {p.priceType === "rent" ? "/mo" : ""} · {p.distanceKm} km
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -4,6 +4,8 @@ import { Heart, MapPin, Clock, Send } from "lucide-react";
 import PropertyLoadingSkeleton from "./PropertyLoadingSkeleton";
 import EnquiryModal from "./EnquiryModal";
 import Watermark from "./Watermark";
+import PriceDropBadge from "./PriceDropBadge";
+import VerifiedSellerBadge from "./VerifiedSellerBadge";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
 
@@ -27,6 +29,9 @@ interface Property {
   createdBy?: { role?: string; _id?: string };
   ownerRole?: string;
   contactInfo: { name?: string };
+  priceDropPct?: number | null;
+  priceChangedAt?: string | null;
+  sellerVerified?: boolean;
 }
 
 /* -------- LocalStorage helpers (for logged-out wishlist) -------- */
@@ -439,6 +444,12 @@ export default function OLXStyleListings() {
                     </div>
                   )}
 
+                  <PriceDropBadge
+                    priceDropPct={property.priceDropPct}
+                    priceChangedAt={property.priceChangedAt}
+                    className="absolute top-2 right-2"
+                  />
+
                   {/* watermark should not steal clicks */}
                   <Watermark
                     variant="badge"
@@ -472,6 +483,11 @@ export default function OLXStyleListings() {
                     {property.title}
                   </h3>
 
+                  <VerifiedSellerBadge
+                    sellerVerified={property.sellerVerified}
+                    className="mb-2"
+                  />
+
                   <div className="flex items-center text-[11px] md:text-xs text-gray-700 mb-2">
                     <MapPin className="h-3 w-3 mr-1 flex-shrink-0" />
                     <span className="truncate font-medium">
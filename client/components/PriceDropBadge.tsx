@@ -0,0 +1,31 @@
+import { TrendingDown } from "lucide-react";
+
+// Badges stop showing once the drop is older than this
+const BADGE_DAYS = 30;
+
+interface PriceDropBadgeProps {
+  priceDropPct?: number | null;
+  priceChangedAt?: string | Date | null;
+  className?: string;
+}
+
+export default function PriceDropBadge({
+  priceDropPct,
+  priceChangedAt,
+  className = "",
+}: PriceDropBadgeProps) {
+  if (!priceDropPct || priceDropPct <= 0) return null;
+  if (priceChangedAt) {
+    const ageDays = (Date.now() - new Date(priceChangedAt).getTime()) / 864e5;
+    if (ageDays > BADGE_DAYS) return null;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 bg-green-600 text-white px-2 py-1 rounded-md text-[10px] md:text-xs font-bold shadow ${className}`}
+    >
+      <TrendingDown className="h-3 w-3" />
+      Price reduced {Math.round(priceDropPct)}%
+    </span>
+  );
+}
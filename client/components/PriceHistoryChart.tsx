@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "./ui/chart";
+import { Card, CardContent } from "./ui/card";
+
+interface PricePoint {
+  price: number;
+  date: string;
+  changePct?: number | null;
+}
+
+const chartConfig = {
+  price: { label: "Price", color: "#C70000" },
+} satisfies ChartConfig;
+
+const shortPrice = (v: number) =>
+  v >= 10000000
+    ? `${(v / 10000000).toFixed(1)}Cr`
+    : v >= 100000
+      ? `${(v / 100000).toFixed(1)}L`
+      : v >= 1000
+        ? `${Math.round(v / 1000)}K`
+        : String(v);
+
+export default function PriceHistoryChart({
+  propertyId,
+}: {
+  propertyId: string;
+}) {
+  const [points, setPoints] = useState<PricePoint[]>([]);
+
+  useEffect(() => {
+    if (!propertyId) return;
+    fetch(`/api/properties/${propertyId}/price-history`)
+      .then((r) => r.json())
+      .then((data) => setPoints(data?.data?.points || []))
+      .catch(() => setPoints([]));
+  }, [propertyId]);
+
+  // nothing to chart until the price has changed at least once
+  if (points.length < 2) return null;
+
+  const data = points.map((p) => ({
+    price: p.price,
+    label: new Date(p.date).toLocaleDateString("en-IN", {
+      day: "numeric",
+      month: "short",
+    }),
+  }));
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-gray-900 mb-2">Price history</h3>
+        <ChartContainer config={chartConfig} className="h-48 w-full">
+          <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis
+              tickFormatter={shortPrice}
+              tickLine={false}
+              axisLine={false}
+              width={48}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value) =>
+                    `₹${Number(value).toLocaleString("en-IN")}`
+                  }
+                />
+              }
+            />
+            <Line
+              type="stepAfter"
+              dataKey="price"
+              stroke="var(--color-price)"
+              strokeWidth={2}
+              dot
+            />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,7 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import { AdRef, trackAdClick } from "../lib/adTracking";
+import { useAdImpression } from "../hooks/useAdImpression";
 
 interface Advertisement {
   _id: string;
@@ -15,6 +17,9 @@ const SLIDE_INTERVAL = 4000;
 const SWIPE_THRESHOLD_RATIO = 0.18; // ~18%
 const SETTLE_MS = 320;
 
+const adRef = (ad: Advertisement | undefined): AdRef | null =>
+  ad ? { source: "banner", adId: ad._id, slot: ad.position } : null;
+
 const PropertyAdsSlider: React.FC = () => {
   const [ads, setAds] = useState<Advertisement[]>([]);
   const [loading, setLoading] = useState(true);
@@ -208,8 +213,11 @@ const PropertyAdsSlider: React.FC = () => {
   const next = () => slides.length > 1 && setCurrentSlide((p) => (p + 1) % slides.length);
   const prev = () => slides.length > 1 && setCurrentSlide((p) => (p - 1 + slides.length) % slides.length);
 
+  const impressionRef = useAdImpression(adRef(slides[currentSlide]?.data));
+
   const handleBannerClick = (ad: Advertisement) => {
     if (lastClickSuppressedRef.current) return; // ignore click after drag
+    trackAdClick(adRef(ad));
     if (ad.link) window.open(ad.link, "_blank", "noopener,noreferrer");
   };
 
@@ -233,7 +241,7 @@ const PropertyAdsSlider: React.FC = () => {
         </div>
 
         {/* MAIN CAROUSEL */}
-        <div className="relative">
+        <div className="relative" ref={impressionRef}>
           <div
             ref={wrapRef}
             className="overflow-hidden rounded-lg touch-pan-y select-none"
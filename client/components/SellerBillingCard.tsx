@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from "react";
+import { Receipt } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+import { GST_STATES, isValidGstin } from "@shared/gst";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+type Props = {
+  getToken: () => Promise<string | null>;
+};
+
+/** GSTIN and billing address printed on the seller's tax invoices. */
+export default function SellerBillingCard({ getToken }: Props) {
+  const [billing, setBilling] = useState({ gstin: "", legalName: "", address: "", stateCode: "" });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const res = await api.get("/seller/billing", (await getToken()) || undefined);
+      if (res.success) {
+        const { gstin, legalName, address, stateCode } = res.data as any;
+        setBilling({ gstin: gstin || "", legalName: legalName || "", address: address || "", stateCode: stateCode || "" });
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const gstin = billing.gstin.trim().toUpperCase();
+  const gstinError = gstin && !isValidGstin(gstin) ? "Not a valid GSTIN" : "";
+
+  const save = async () => {
+    setSaving(true);
+    const res = await api.put("/seller/billing", { ...billing, gstin }, (await getToken()) || undefined);
+    setSaving(false);
+    if (res.success) toast.success("Billing details saved");
+    else toast.error(res.error || "Failed to save billing details");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Receipt className="h-5 w-5" />
+          <span>Billing Details (GST)</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="gstin">GSTIN (optional)</Label>
+          <Input
+            id="gstin"
+            value={billing.gstin}
+            maxLength={15}
+            placeholder="e.g. 03ABCDE1234F1Z5"
+            onChange={(e) => {
+              const value = e.target.value.toUpperCase();
+              setBilling((b) => ({
+                ...b,
+                gstin: value,
+                // a registered buyer's state is fixed by their GSTIN
+                stateCode: isValidGstin(value) ? value.slice(0, 2) : b.stateCode,
+              }));
+            }}
+          />
+          {gstinError && <p className="text-xs text-red-600 mt-1">{gstinError}</p>}
+        </div>
+        <div>
+          <Label htmlFor="legalName">Legal / Business Name</Label>
+          <Input
+            id="legalName"
+            value={billing.legalName}
+            onChange={(e) => setBilling((b) => ({ ...b, legalName: e.target.value }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="billingAddress">Billing Address</Label>
+          <Input
+            id="billingAddress"
+            value={billing.address}
+            onChange={(e) => setBilling((b) => ({ ...b, address: e.target.value }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="billingState">State</Label>
+          <select
+            id="billingState"
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={billing.stateCode}
+            disabled={isValidGstin(gstin)}
+            onChange={(e) => setBilling((b) => ({ ...b, stateCode: e.target.value }))}
+          >
+            <option value="">Select state</option>
+            {GST_STATES.map((s) => (
+              <option key={s.code} value={s.code}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-gray-500">
+          Used on invoices for future payments. Add your GSTIN to claim input tax credit.
+        </p>
+        <Button onClick={save} disabled={saving || !!gstinError} className="w-full">
+          Save Billing Details
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import { Rocket } from "lucide-react";
+import { api } from "../lib/api";
+import { PropertyBoost } from "@shared/boosts";
+import { Badge } from "./ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+type Props = {
+  getToken: () => Promise<string | null>;
+  refreshKey?: unknown; // reload when this changes, e.g. after a new boost
+};
+
+/** Views per day before each boost against while it ran. */
+export default function SellerBoostCard({ getToken, refreshKey }: Props) {
+  const [boosts, setBoosts] = useState<PropertyBoost[]>([]);
+
+  useEffect(() => {
+    (async () => {
+      const res = await api.get("/seller/boosts", (await getToken()) || undefined);
+      if (res.success) setBoosts(((res.data as any)?.items || []) as PropertyBoost[]);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
+
+  const lift = (b: PropertyBoost) => {
+    if (!b.viewsPerDayBefore) return b.viewsPerDayDuring > 0 ? "new views" : "—";
+    const pct = Math.round(((b.viewsPerDayDuring - b.viewsPerDayBefore) / b.viewsPerDayBefore) * 100);
+    return `${pct >= 0 ? "+" : ""}${pct}%`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Rocket className="h-5 w-5" />
+          <span>Boost Performance</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {boosts.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Boost a live listing to bump it back to the top of search and category pages.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {boosts.map((b) => (
+              <div key={b._id} className="border rounded-lg p-3 text-sm">
+                <div className="flex justify-between items-start gap-2">
+                  <span className="font-medium">{b.propertyTitle}</span>
+                  {b.active ? (
+                    <Badge className="bg-orange-100 text-orange-800">Running</Badge>
+                  ) : (
+                    <Badge variant="outline">Ended</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 mb-2">
+                  {new Date(b.boostedAt).toLocaleDateString()} – {new Date(b.boostUntil).toLocaleDateString()}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <div className="font-bold">{b.viewsPerDayBefore}</div>
+                    <div className="text-xs text-gray-600">views/day before</div>
+                  </div>
+                  <div>
+                    <div className="font-bold">{b.viewsPerDayDuring}</div>
+                    <div className="text-xs text-gray-600">views/day boosted</div>
+                  </div>
+                  <div>
+                    <div className="font-bold text-[#C70000]">{lift(b)}</div>
+                    <div className="text-xs text-gray-600">
+                      {b.inquiriesBefore} → {b.inquiriesDuring} enquiries
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+import { api } from "../lib/api";
+import { ENTITLEMENT_KEYS, ENTITLEMENT_LABELS, QuotaSummary, isUnlimited } from "@shared/entitlements";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+type Props = {
+  getToken: () => Promise<string | null>;
+};
+
+/** What the seller's active packages still allow. */
+export default function SellerQuotaCard({ getToken }: Props) {
+  const [summary, setSummary] = useState<QuotaSummary | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const res = await api.get("/seller/quota", (await getToken()) || undefined);
+      if (res.success) setSummary(res.data as any);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  if (!summary) return null;
+
+  const free = summary.freeListings;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Gauge className="h-5 w-5" />
+          <span>Plan Usage</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {ENTITLEMENT_KEYS.map((key) => {
+            const q = summary.quotas[key];
+            return (
+              <div key={key} className="border rounded-lg p-3">
+                <div className="text-2xl font-bold text-[#C70000]">
+                  {isUnlimited(q.remaining) ? "∞" : q.remaining}
+                </div>
+                <div className="text-xs text-gray-600">{ENTITLEMENT_LABELS[key]} left</div>
+                {!isUnlimited(q.limit) && q.limit > 0 && (
+                  <div className="h-1.5 bg-gray-100 rounded mt-2">
+                    <div
+                      className="h-1.5 bg-[#C70000] rounded"
+                      style={{ width: `${Math.min(100, (q.used / q.limit) * 100)}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {free && (
+          <p className="text-sm text-gray-600">
+            Free listings: {free.remaining} of {free.limit} left this {free.periodDays}-day period
+          </p>
+        )}
+
+        {summary.packages.length === 0 ? (
+          <p className="text-sm text-gray-500">No active packages.</p>
+        ) : (
+          <div className="space-y-1 text-sm">
+            {summary.packages.map((p) => (
+              <div key={p._id} className="flex justify-between">
+                <span>{p.packageName}</span>
+                <span className="text-gray-500">until {new Date(p.endDate).toLocaleDateString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
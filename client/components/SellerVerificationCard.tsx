@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from "react";
+import { FileText, Plus, ShieldCheck, Trash2, Upload } from "lucide-react";
+import { api } from "../lib/api";
+import {
+  DOCUMENT_TYPE_LABELS,
+  MAX_DOCUMENTS,
+  MAX_DOCUMENT_MB,
+  MyVerificationStatus,
+  VerificationDocumentType,
+} from "@shared/sellerVerification";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+type Props = {
+  getToken: () => Promise<string | null>;
+  isAgent?: boolean;
+};
+
+type Row = { type: VerificationDocumentType; file: File | null };
+
+const STATUS_STYLE: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+/** KYC status and the upload form that earns the verified-seller badge. */
+export default function SellerVerificationCard({ getToken, isAgent }: Props) {
+  const [status, setStatus] = useState<MyVerificationStatus | null>(null);
+  const [rows, setRows] = useState<Row[]>([
+    { type: "aadhaar", file: null },
+    { type: isAgent ? "rera_certificate" : "ownership_proof", file: null },
+  ]);
+  const [reraNumber, setReraNumber] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = async () => {
+    const res = await api.get("/seller/verification", (await getToken()) || undefined);
+    if (res.success) setStatus(res.data as MyVerificationStatus);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const setRow = (i: number, patch: Partial<Row>) =>
+    setRows((prev) => prev.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  const submit = async () => {
+    const filled = rows.filter((r) => r.file);
+    if (filled.length === 0) {
+      setError("Choose at least one file");
+      return;
+    }
+    const form = new FormData();
+    filled.forEach((r) => {
+      form.append("documents", r.file as File);
+      form.append("documentTypes", r.type);
+    });
+    if (reraNumber.trim()) form.append("reraNumber", reraNumber.trim());
+
+    setSubmitting(true);
+    setError("");
+    const res = await api.post("/seller/verification", form, (await getToken()) || undefined);
+    setSubmitting(false);
+    if (res.success) {
+      setRows(rows.map((r) => ({ ...r, file: null })));
+      load();
+    } else {
+      setError(res.error || "Could not submit documents");
+    }
+  };
+
+  const verification = status?.verification;
+  const canSubmit = !status?.verified;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Seller Verification</span>
+          {status?.verified ? (
+            <Badge className={STATUS_STYLE.approved}>Verified</Badge>
+          ) : (
+            verification && (
+              <Badge className={STATUS_STYLE[verification.status]}>
+                {verification.status.charAt(0).toUpperCase() + verification.status.slice(1)}
+              </Badge>
+            )
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status?.verified ? (
+          <p className="text-sm text-gray-600">
+            Your listings show the Verified Seller badge and rank higher in search.
+          </p>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Upload an identity document and your{" "}
+            {isAgent ? "RERA certificate" : "RERA certificate or proof of ownership"}. Documents
+            are only seen by our review team. Verified sellers get a badge on every listing and
+            rank higher in search.
+          </p>
+        )}
+
+        {verification?.status === "rejected" && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            Not approved: {verification.rejectionReason}
+            {verification.comments ? ` — ${verification.comments}` : ""}
+          </div>
+        )}
+
+        {verification && verification.status !== "rejected" && (
+          <div className="space-y-2">
+            {verification.documents.map((doc) => (
+              <a
+                key={doc._id}
+                href={doc.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center space-x-2 text-sm text-gray-700 hover:underline"
+              >
+                <FileText className="h-4 w-4 text-gray-500" />
+                <span>{doc.label}</span>
+                <span className="text-gray-400">({doc.fileName})</span>
+              </a>
+            ))}
+            {verification.status === "pending" && (
+              <p className="text-xs text-gray-500">
+                Submitted {new Date(verification.submittedAt).toLocaleDateString()}. Uploading again
+                replaces this submission.
+              </p>
+            )}
+          </div>
+        )}
+
+        {canSubmit && (
+          <div className="space-y-3">
+            {rows.map((row, i) => (
+              <div key={i} className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                <Select
+                  value={row.type}
+                  onValueChange={(v) => setRow(i, { type: v as VerificationDocumentType })}
+                >
+                  <SelectTrigger className="sm:w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="file"
+                  accept=".pdf,.jpg,.jpeg,.png,.webp"
+                  onChange={(e) => setRow(i, { file: e.target.files?.[0] || null })}
+                />
+                {rows.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRows(rows.filter((_, j) => j !== i))}
+                    aria-label="Remove document"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {rows.length < MAX_DOCUMENTS && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRows([...rows, { type: "pan", file: null }])}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add document
+              </Button>
+            )}
+            <div>
+              <Label htmlFor="reraNumber">RERA registration number{isAgent ? "" : " (if any)"}</Label>
+              <Input
+                id="reraNumber"
+                value={reraNumber}
+                onChange={(e) => setReraNumber(e.target.value)}
+                placeholder="e.g. HRERA-PKL-REA-123-2024"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              PDF, JPEG, PNG or WebP, up to {MAX_DOCUMENT_MB} MB each.
+            </p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button
+              onClick={submit}
+              disabled={submitting}
+              className="bg-[#C70000] hover:bg-[#A60000] text-white"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {submitting ? "Uploading..." : "Submit for Verification"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -33,11 +33,13 @@ import {
   Activity,
   Plus,
   Edit,
+  History,
 } from "lucide-react";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
 import { cn } from "../lib/utils";
-import { hasPermission, hasAnyPermission, getRoleDisplayName } from "../utils/permissions";
+import { grantsAnyPermission, getRoleDisplayName } from "../utils/permissions";
+import { useStaffPermissions } from "../hooks/useStaffPermissions";
 
 interface StaffAdminLayoutProps {
   children: React.ReactNode;
@@ -173,6 +175,7 @@ const fullMenuItems: MenuItem[] = [
     children: [
       { id: "role", label: "Role", icon: Shield, permissions: ["roles.manage"] },
       { id: "staff-management", label: "Staff Management", icon: Crown, permissions: ["staff.manage"] },
+      { id: "audit-log", label: "Audit Log", icon: History, permissions: ["audit.view"] },
     ],
   },
   {
@@ -213,6 +216,7 @@ export default function StaffAdminLayout({
   onSectionChange,
 }: StaffAdminLayoutProps) {
   const { user, logout } = useAuth();
+  const grantedPermissions = useStaffPermissions(user?.role);
 
   // Safety check
   if (!user) {
@@ -229,26 +233,21 @@ export default function StaffAdminLayout({
   const [expandedSections, setExpandedSections] = useState<string[]>(["dashboard"]);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
-  // Filter menu items based on permissions
+  // Filter menu items based on the permissions the admin API grants
   const hasMenuPermission = (requiredPermissions?: string[]) => {
     if (!requiredPermissions || requiredPermissions.length === 0) return true;
-    return hasAnyPermission(user?.role || "admin", requiredPermissions);
+    return grantsAnyPermission(grantedPermissions, requiredPermissions);
   };
 
   const filterMenuItems = (items: MenuItem[]): MenuItem[] => {
-    return items.filter(item => {
-      // Check if user has permission for this item
-      if (!hasMenuPermission(item.permissions)) return false;
-
-      // If item has children, filter them too
+    return items.flatMap(item => {
+      // If item has children, show the parent only when some child is accessible
       if (item.children) {
         const filteredChildren = filterMenuItems(item.children);
-        // Only show parent if it has accessible children
-        if (filteredChildren.length === 0) return false;
-        item.children = filteredChildren;
+        return filteredChildren.length > 0 ? [{ ...item, children: filteredChildren }] : [];
       }
 
-      return true;
+      return hasMenuPermission(item.permissions) ? [item] : [];
     });
   };
 
@@ -1,5 +1,7 @@
 import { useEffect, useState } from "react";
 import { BannerAd } from "@shared/types";
+import { AdRef, trackAdClick } from "../lib/adTracking";
+import { useAdImpression } from "../hooks/useAdImpression";
 
 export default function TopBanner() {
   const [banner, setBanner] = useState<BannerAd | null>(null);
@@ -33,10 +35,15 @@ export default function TopBanner() {
     fetchBanner();
   }, []);
 
+  const ad: AdRef | null = banner?._id
+    ? { source: "banner", adId: banner._id, slot: (banner as any).position || "top" }
+    : null;
+  const impressionRef = useAdImpression(ad);
+
   if (loading || !banner) return null;
 
   return (
-    <div className="w-full">
+    <div className="w-full" ref={impressionRef}>
       <div className="relative w-full h-40 sm:h-48 md:h-56 lg:h-64 overflow-hidden rounded-none">
         <img
           src={(banner as any).imageUrl || (banner as any).image}
@@ -58,6 +65,7 @@ export default function TopBanner() {
                 <button
                   className="bg-[#C70000] hover:bg-[#A60000] text-white px-5 py-2 rounded-lg font-semibold"
                   onClick={() => {
+                    trackAdClick(ad);
                     if (banner.link.startsWith("http")) {
                       window.open(banner.link, "_blank", "noopener,noreferrer");
                     } else {
@@ -0,0 +1,24 @@
+import { ShieldCheck } from "lucide-react";
+
+interface VerifiedSellerBadgeProps {
+  sellerVerified?: boolean;
+  className?: string;
+}
+
+/** Shown on listings whose owner passed KYC (see shared/sellerVerification). */
+export default function VerifiedSellerBadge({
+  sellerVerified,
+  className = "",
+}: VerifiedSellerBadgeProps) {
+  if (!sellerVerified) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 bg-emerald-600 text-white px-2 py-1 rounded-md text-[10px] md:text-xs font-bold shadow ${className}`}
+      title="This seller's identity and documents were verified"
+    >
+      <ShieldCheck className="h-3 w-3" />
+      Verified Seller
+    </span>
+  );
+}
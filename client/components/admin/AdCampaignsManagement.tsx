@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, RefreshCw, CheckCircle2, XCircle, AlertTriangle } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { useToast } from "../ui/use-toast";
+import { AdCampaign, AdCampaignStatus, findBannerSlot } from "@shared/adCampaigns";
+import RefundDialog from "./RefundDialog";
+
+type AdminCampaign = AdCampaign & {
+  overbooked?: boolean;
+  refundDue?: boolean;
+  advertiser?: { fullName: string; email: string; phone: string; projectName: string };
+};
+
+type Pagination = { page: number; limit: number; total: number; pages: number };
+
+type Props = {
+  token: string | null;
+};
+
+const statusColor: Record<AdCampaignStatus, string> = {
+  pending_payment: "bg-gray-100 text-gray-700",
+  expired: "bg-gray-100 text-gray-500",
+  pending_approval: "bg-amber-100 text-amber-700",
+  approved: "bg-blue-100 text-blue-700",
+  live: "bg-emerald-100 text-emerald-700",
+  completed: "bg-slate-100 text-slate-600",
+  rejected: "bg-red-100 text-red-700",
+  cancelled: "bg-gray-100 text-gray-500",
+};
+
+const FILTERS: Array<"all" | AdCampaignStatus> = [
+  "pending_approval",
+  "approved",
+  "live",
+  "completed",
+  "rejected",
+  "pending_payment",
+  "all",
+];
+
+/** Review paid banner campaigns; approved ones go live on their start date. */
+export default function AdCampaignsManagement({ token }: Props) {
+  const [campaigns, setCampaigns] = useState<AdminCampaign[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [statusFilter, setStatusFilter] = useState<"all" | AdCampaignStatus>("pending_approval");
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState("");
+  const [refundUrl, setRefundUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchCampaigns = async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: "20" });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const res = await fetch(`/api/admin/ad-campaigns?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json();
+      if (!data?.success) throw new Error(data?.error || "Failed to fetch campaigns");
+      setCampaigns(data.data.campaigns || []);
+      setPagination(data.data.pagination);
+    } catch (err: any) {
+      console.error("Error fetching ad campaigns:", err);
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCampaigns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, page, statusFilter]);
+
+  const review = async (campaign: AdminCampaign, status: "approved" | "rejected") => {
+    let reason = "";
+    if (status === "rejected") {
+      const input = prompt("Reason for rejection (sent to the advertiser):");
+      if (input === null) return;
+      reason = input;
+    }
+    setBusyId(campaign._id);
+    try {
+      const res = await fetch(`/api/admin/ad-campaigns/${campaign._id}/status`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ status, reason }),
+      });
+      const data = await res.json();
+      if (!data?.success) throw new Error(data?.error || "Failed to update campaign");
+      toast({
+        title: status === "approved" ? "Approved" : "Rejected",
+        description:
+          status === "approved"
+            ? `Banner runs ${campaign.startDate} to ${campaign.endDate}`
+            : "The advertiser has been notified",
+      });
+      fetchCampaigns();
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } finally {
+      setBusyId("");
+    }
+  };
+
+  const startRefund = async (campaign: AdminCampaign) => {
+    setBusyId(campaign._id);
+    try {
+      const res = await fetch(
+        `/api/admin/payments/ledger?search=${campaign._id}&kind=payment&status=paid`,
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      const data = await res.json();
+      const entry = data?.data?.entries?.[0];
+      if (!entry) throw new Error(data?.error || "No payment found for this campaign");
+      setRefundUrl(`/api/admin/payments/ledger/${entry._id}`);
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } finally {
+      setBusyId("");
+    }
+  };
+
+  return (
+    <Card>
+      <RefundDialog
+        token={token}
+        baseUrl={refundUrl}
+        title="Refund banner campaign"
+        onClose={() => setRefundUrl(null)}
+        onRefunded={fetchCampaigns}
+      />
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Banner Campaigns</CardTitle>
+        <div className="flex items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setPage(1);
+              setStatusFilter(e.target.value as any);
+            }}
+            className="border rounded-md p-2 text-sm"
+          >
+            {FILTERS.map((f) => (
+              <option key={f} value={f}>
+                {f === "all" ? "All statuses" : f.replace(/_/g, " ")}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" onClick={fetchCampaigns} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && campaigns.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : campaigns.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">No campaigns</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Creative</TableHead>
+                <TableHead>Advertiser</TableHead>
+                <TableHead>Slot &amp; dates</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map((c) => (
+                <TableRow key={c._id}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <a href={c.creative?.imageUrl} target="_blank" rel="noopener noreferrer">
+                        <img
+                          src={c.creative?.imageUrl}
+                          alt={c.creative?.title}
+                          className="w-24 h-12 object-cover rounded border"
+                        />
+                      </a>
+                      <div>
+                        <div className="font-medium">{c.creative?.title}</div>
+                        {c.creative?.link && (
+                          <div className="text-xs text-gray-500 break-all">{c.creative.link}</div>
+                        )}
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{c.advertiser?.projectName}</div>
+                    <div className="text-xs text-gray-500">
+                      {c.advertiser?.fullName} · {c.advertiser?.phone}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{findBannerSlot(c.slot)?.label || c.slot}</div>
+                    <div className="text-xs text-gray-500">
+                      {c.startDate} – {c.endDate} ({c.days}d)
+                    </div>
+                  </TableCell>
+                  <TableCell>₹{Number(c.amount || 0).toLocaleString("en-IN")}</TableCell>
+                  <TableCell>
+                    <span className={`text-xs px-2 py-1 rounded ${statusColor[c.status] || ""}`}>
+                      {c.status.replace(/_/g, " ")}
+                    </span>
+                    {c.overbooked && (
+                      <div className="text-xs text-amber-700 flex items-center gap-1 mt-1">
+                        <AlertTriangle className="h-3 w-3" /> Slot over capacity
+                      </div>
+                    )}
+                    {c.refundDue && <div className="text-xs text-red-600 mt-1">Refund due</div>}
+                    {c.paymentStatus === "refunded" && (
+                      <div className="text-xs text-gray-500 mt-1">Refunded</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    {c.status === "pending_approval" && (
+                      <Button
+                        size="sm"
+                        disabled={busyId === c._id}
+                        onClick={() => review(c, "approved")}
+                      >
+                        <CheckCircle2 className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                    )}
+                    {(c.status === "pending_approval" || c.status === "approved") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600"
+                        disabled={busyId === c._id}
+                        onClick={() => review(c, "rejected")}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    )}
+                    {c.paymentStatus === "paid" && (
+                      <Button
+                        size="sm"
+                        variant={c.refundDue ? "default" : "ghost"}
+                        disabled={busyId === c._id}
+                        onClick={() => startRefund(c)}
+                      >
+                        Refund
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {pagination && pagination.pages > 1 && (
+          <div className="flex justify-end items-center gap-2 mt-4 text-sm">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span>
+              Page {pagination.page} of {pagination.pages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= pagination.pages}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Download, FileText, Link as LinkIcon, Unlink } from "lucide-react";
+import { Button } from "../ui/button";
+import { useToast } from "../ui/use-toast";
+
+export interface Advertiser {
+  _id: string;
+  fullName: string;
+  projectName: string;
+  reportToken?: string;
+}
+
+interface AdvertiserReportsProps {
+  token: string;
+  advertisers: Advertiser[];
+  from: string; // YYYY-MM-DD, start of the selected range
+}
+
+const shareUrl = (reportToken: string) =>
+  `${window.location.origin}/api/ad-reports/${reportToken}`;
+
+/** Download or share one advertiser's banner performance as PDF/CSV. */
+export default function AdvertiserReports({
+  token,
+  advertisers,
+  from,
+}: AdvertiserReportsProps) {
+  const [advertiserId, setAdvertiserId] = useState("");
+  const [busy, setBusy] = useState(false);
+  // tokens issued/revoked here, layered over what the list was loaded with
+  const [links, setLinks] = useState<Record<string, string | null>>({});
+  const { toast } = useToast();
+
+  const selected = advertisers.find((a) => a._id === advertiserId);
+  const reportToken =
+    selected && (selected._id in links ? links[selected._id] : selected.reportToken);
+
+  const download = async (format: "pdf" | "csv") => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      const params = new URLSearchParams({ format, from });
+      const response = await fetch(
+        `/api/admin/advertisement/submissions/${selected._id}/report?${params}`,
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const blob = await response.blob();
+      const name =
+        /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") || "")?.[1] ||
+        `ad-report.${format}`;
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error downloading advertiser report:", error);
+      toast({
+        title: "Error",
+        description: "Failed to download report",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createLink = async () => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      const response = await fetch(
+        `/api/admin/advertisement/submissions/${selected._id}/report-link`,
+        { method: "POST", headers: { Authorization: `Bearer ${token}` } },
+      );
+      const data = await response.json();
+      if (!data?.success) throw new Error(data?.error);
+
+      setLinks((prev) => ({ ...prev, [selected._id]: data.data.reportToken }));
+      try {
+        await navigator.clipboard.writeText(shareUrl(data.data.reportToken));
+        toast({ title: "Link copied", description: "Share it with the advertiser" });
+      } catch {
+        toast({ title: "Link created", description: shareUrl(data.data.reportToken) });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to create share link",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeLink = async () => {
+    if (!selected || !confirm("Stop sharing this report? The current link will stop working.")) return;
+    setBusy(true);
+    try {
+      const response = await fetch(
+        `/api/admin/advertisement/submissions/${selected._id}/report-link`,
+        { method: "DELETE", headers: { Authorization: `Bearer ${token}` } },
+      );
+      const data = await response.json();
+      if (!data?.success) throw new Error(data?.error);
+      setLinks((prev) => ({ ...prev, [selected._id]: null }));
+      toast({ title: "Revoked", description: "Share link disabled" });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to revoke share link",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex items-center gap-3 flex-wrap">
+        <FileText className="h-4 w-4 text-gray-500" />
+        <span className="text-sm font-medium">Advertiser report</span>
+        <select
+          value={advertiserId}
+          onChange={(e) => setAdvertiserId(e.target.value)}
+          className="border rounded-md p-2 text-sm min-w-[220px]"
+        >
+          <option value="">Select advertiser…</option>
+          {advertisers.map((a) => (
+            <option key={a._id} value={a._id}>
+              {a.projectName} — {a.fullName}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!selected || busy}
+          onClick={() => download("pdf")}
+        >
+          <Download className="h-4 w-4 mr-1" />
+          PDF
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!selected || busy}
+          onClick={() => download("csv")}
+        >
+          <Download className="h-4 w-4 mr-1" />
+          CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!selected || busy}
+          onClick={createLink}
+        >
+          <LinkIcon className="h-4 w-4 mr-1" />
+          {reportToken ? "New share link" : "Share link"}
+        </Button>
+        {reportToken && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-600"
+            disabled={busy}
+            onClick={revokeLink}
+          >
+            <Unlink className="h-4 w-4 mr-1" />
+            Revoke
+          </Button>
+        )}
+      </div>
+      {reportToken && (
+        <p className="text-xs text-gray-500 break-all">
+          Shared at{" "}
+          <a
+            href={shareUrl(reportToken)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600"
+          >
+            {shareUrl(reportToken)}
+          </a>{" "}
+          (PDF; add <code>?format=csv</code> for a spreadsheet)
+        </p>
+      )}
+    </div>
+  );
+}
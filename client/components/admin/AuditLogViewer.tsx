@@ -0,0 +1,339 @@
+import React, { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Download, History, RefreshCw, Search } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { api, createApiUrl } from "../../lib/api";
+import { useAuth } from "../../hooks/useAuth";
+
+interface AuditChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+interface AuditEntry {
+  _id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  targetLabel: string | null;
+  changes: AuditChange[];
+  meta: Record<string, any> | null;
+  ip: string | null;
+  createdAt: string;
+}
+
+interface Filters {
+  q: string;
+  actor: string;
+  action: string;
+  targetType: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { q: "", actor: "", action: "all", targetType: "all", from: "", to: "" };
+
+const formatValue = (v: any) =>
+  v === null || v === undefined ? "—" : typeof v === "object" ? JSON.stringify(v) : String(v);
+
+const actionTone = (action: string) =>
+  /delete|reject/.test(action)
+    ? "bg-red-100 text-red-800"
+    : /approve|verified|create|restore/.test(action)
+      ? "bg-green-100 text-green-800"
+      : "bg-gray-100 text-gray-800";
+
+export default function AuditLogViewer() {
+  const { token } = useAuth();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [facets, setFacets] = useState<{ actions: string[]; targetTypes: string[] }>({
+    actions: [],
+    targetTypes: [],
+  });
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchEntries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [page]);
+
+  const queryString = (extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams();
+    Object.entries({ ...filters, ...extra }).forEach(([k, v]) => {
+      if (v && v !== "all") params.set(k, v);
+    });
+    return params.toString();
+  };
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const response = await api.get(
+        `/admin/audit-logs?${queryString({ page: String(page), limit: "50" })}`,
+      );
+      if (response.success) {
+        setEntries(response.data?.entries || []);
+        setFacets(response.data?.facets || { actions: [], targetTypes: [] });
+        setPages(response.data?.pagination?.pages || 1);
+        setTotal(response.data?.pagination?.total || 0);
+      } else {
+        setError(response.error || "Failed to load audit log");
+      }
+    } catch (err) {
+      console.error("Error fetching audit log:", err);
+      setError("Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyFilters = () => {
+    if (page === 1) fetchEntries();
+    else setPage(1);
+  };
+
+  const exportCsv = async () => {
+    try {
+      const response = await fetch(createApiUrl(`/admin/audit-logs/export?${queryString()}`), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        setError("Failed to export audit log");
+        return;
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      setError("Network error while exporting audit log");
+    }
+  };
+
+  const setFilter = (key: keyof Filters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Audit Log
+          <span className="text-xs font-normal text-gray-500">{total} entries</span>
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={fetchEntries} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={exportCsv}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-2">
+          <Input
+            className="md:col-span-2"
+            placeholder="Search target, email, IP…"
+            value={filters.q}
+            onChange={(e) => setFilter("q", e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && applyFilters()}
+          />
+          <Input
+            placeholder="Actor email or ID"
+            value={filters.actor}
+            onChange={(e) => setFilter("actor", e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && applyFilters()}
+          />
+          <Select value={filters.action} onValueChange={(v) => setFilter("action", v)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Action" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {facets.actions.map((a) => (
+                <SelectItem key={a} value={a}>
+                  {a}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.targetType} onValueChange={(v) => setFilter("targetType", v)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Target" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All targets</SelectItem>
+              {facets.targetTypes.map((t) => (
+                <SelectItem key={t} value={t}>
+                  {t}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Input type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} />
+            <Input type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={applyFilters}>
+            <Search className="h-4 w-4 mr-2" />
+            Apply
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setFilters(EMPTY_FILTERS)}
+          >
+            Clear
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>When</TableHead>
+              <TableHead>Actor</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>IP</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((e) => {
+              const isOpen = expanded === e._id;
+              return (
+                <React.Fragment key={e._id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpanded(isOpen ? null : e._id)}
+                  >
+                    <TableCell>
+                      {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {new Date(e.createdAt).toLocaleString("en-IN")}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {e.actorEmail || e.actorId || "—"}
+                      {e.actorRole && <div className="text-xs text-gray-500">{e.actorRole}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={actionTone(e.action)}>{e.action}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {e.targetLabel || e.targetId || "—"}
+                      <div className="text-xs text-gray-500">{e.targetType}</div>
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-500">{e.ip || "—"}</TableCell>
+                  </TableRow>
+                  {isOpen && (
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={5} className="bg-gray-50">
+                        {e.changes?.length ? (
+                          <table className="text-xs w-full">
+                            <tbody>
+                              {e.changes.map((c) => (
+                                <tr key={c.field} className="align-top">
+                                  <td className="pr-4 py-1 font-mono text-gray-700">{c.field}</td>
+                                  <td className="pr-4 py-1 text-red-700 line-through break-all">
+                                    {formatValue(c.before)}
+                                  </td>
+                                  <td className="py-1 text-green-700 break-all">{formatValue(c.after)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        ) : (
+                          <p className="text-xs text-gray-500">No field changes recorded</p>
+                        )}
+                        {e.meta && (
+                          <pre className="mt-2 text-xs text-gray-600 whitespace-pre-wrap break-all">
+                            {JSON.stringify(e.meta, null, 2)}
+                          </pre>
+                        )}
+                        {e.targetId && (
+                          <p className="mt-2 text-xs text-gray-500">Target ID: {e.targetId}</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              );
+            })}
+            {!loading && entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500">
+                  No audit entries match these filters
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {pages > 1 && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span>
+              Page {page} of {pages}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={page >= pages}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -473,11 +473,23 @@ function CompletePropertyManagement() {
 
     try {
       const { api } = await import("../../lib/api");
-      await api.put(
+      let res = await api.put(
         `admin/properties/${propertyId}/promotion`,
         { [field]: value },
         token,
       );
+      if (
+        !res.success &&
+        (res.data as any)?.entitlement === "featuredSlots" &&
+        confirm(`${res.error}\n\nFeature this listing free of charge?`)
+      ) {
+        res = await api.put(
+          `admin/properties/${propertyId}/promotion`,
+          { [field]: value, complimentary: true },
+          token,
+        );
+      }
+      if (!res.success && res.error) setError(res.error);
       fetchProperties();
     } catch (error: any) {
       console.error("Error updating promotion:", error);
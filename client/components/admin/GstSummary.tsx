@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { Download, RefreshCw } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { useToast } from "../ui/use-toast";
+import { gstStateName } from "@shared/gst";
+
+type Amounts = { taxableValue: number; cgst: number; sgst: number; igst: number; total?: number };
+
+type Summary = {
+  month: string;
+  totals: Required<Amounts>;
+  byState: Record<string, Amounts>;
+  invoiceCount: number;
+  creditNoteCount: number;
+};
+
+const rupees = (n: number) => `₹${Number(n || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Monthly output GST from issued invoices less credit notes, with CSV export. */
+export default function GstSummary({ token }: { token: string | null }) {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSummary = async () => {
+    if (!token || !month) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/payments/gst-summary?month=${month}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json();
+      if (!data?.success) throw new Error(data?.error || "Failed to load GST summary");
+      setSummary(data.data);
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSummary();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [month, token]);
+
+  const downloadCsv = async () => {
+    const res = await fetch(`/api/admin/payments/gst-summary?month=${month}&format=csv`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) {
+      toast({ title: "Error", description: "Failed to export", variant: "destructive" });
+      return;
+    }
+    const url = URL.createObjectURL(await res.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `gst-summary-${month}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const t = summary?.totals;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 flex-wrap">
+        <div>
+          <CardTitle>GST Summary</CardTitle>
+          <p className="text-xs text-gray-500 mt-1">
+            {summary
+              ? `${summary.invoiceCount} invoices, ${summary.creditNoteCount} credit notes`
+              : "Invoices and credit notes for the month"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="border rounded-md p-2 text-sm"
+          />
+          <Button variant="outline" size="sm" onClick={downloadCsv} disabled={!month}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={fetchSummary} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {t && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+            {(
+              [
+                ["Taxable value", t.taxableValue],
+                ["CGST", t.cgst],
+                ["SGST", t.sgst],
+                ["IGST", t.igst],
+                ["Invoice total", t.total],
+              ] as const
+            ).map(([label, value]) => (
+              <div key={label} className="border rounded-lg p-3">
+                <div className="font-semibold">{rupees(value)}</div>
+                <div className="text-xs text-gray-600">{label}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        {summary && Object.keys(summary.byState).length > 0 && (
+          <table className="w-full text-sm mt-4">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Place of supply</th>
+                <th className="py-1 text-right">Taxable value</th>
+                <th className="py-1 text-right">CGST</th>
+                <th className="py-1 text-right">SGST</th>
+                <th className="py-1 text-right">IGST</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(summary.byState).map(([code, s]) => (
+                <tr key={code} className="border-t">
+                  <td className="py-1">
+                    {code}-{gstStateName(code)}
+                  </td>
+                  <td className="py-1 text-right">{rupees(s.taxableValue)}</td>
+                  <td className="py-1 text-right">{rupees(s.cgst)}</td>
+                  <td className="py-1 text-right">{rupees(s.sgst)}</td>
+                  <td className="py-1 text-right">{rupees(s.igst)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { api } from "../../lib/api";
+import { Loader2, Save } from "lucide-react";
+import {
+  DEFAULT_LISTING_EXPIRY_SETTINGS,
+  LISTING_TIERS,
+  LISTING_TIER_LABELS,
+  ListingExpirySettings as Settings,
+} from "@shared/listingExpiry";
+
+export default function ListingExpirySettings() {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_LISTING_EXPIRY_SETTINGS);
+  const [reminderText, setReminderText] = useState(
+    DEFAULT_LISTING_EXPIRY_SETTINGS.reminderDays.join(", "),
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get("/admin/settings/listing-expiry");
+      if (response.success) {
+        setSettings(response.data);
+        setReminderText(response.data.reminderDays.join(", "));
+      }
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage("");
+    try {
+      const reminderDays = reminderText
+        .split(",")
+        .map((s) => parseInt(s.trim()))
+        .filter((n) => n > 0);
+      const response = await api.put("/admin/settings/listing-expiry", {
+        ...settings,
+        reminderDays,
+      });
+
+      if (response.success) {
+        setSettings(response.data);
+        setReminderText(response.data.reminderDays.join(", "));
+        setMessage("Settings saved successfully!");
+        setTimeout(() => setMessage(""), 3000);
+      } else {
+        setMessage("Failed to save settings");
+      }
+    } catch (error) {
+      setMessage("Error saving settings");
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-red-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl">
+      <div className="bg-white rounded-lg p-6 border border-gray-200">
+        <h1 className="text-3xl font-bold mb-6">Listing Expiry Settings</h1>
+
+        {message && (
+          <div
+            className={`mb-6 p-4 rounded-lg ${
+              message.includes("success")
+                ? "bg-green-50 text-green-700 border border-green-200"
+                : "bg-red-50 text-red-700 border border-red-200"
+            }`}
+          >
+            {message}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-semibold mb-2">
+              Listing Lifetime (Days)
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              {LISTING_TIERS.map((tier) => (
+                <div key={tier}>
+                  <span className="block text-sm text-gray-700 mb-1">
+                    {LISTING_TIER_LABELS[tier]}
+                  </span>
+                  <input
+                    type="number"
+                    min="1"
+                    max="365"
+                    value={settings.lifetimeDays[tier]}
+                    onChange={(e) =>
+                      setSettings({
+                        ...settings,
+                        lifetimeDays: {
+                          ...settings.lifetimeDays,
+                          [tier]: parseInt(e.target.value) || 1,
+                        },
+                      })
+                    }
+                    className="w-full border rounded-lg px-4 py-2"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-600 mt-2">
+              How long an approved listing stays live before it expires and is
+              hidden from search
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2">
+              Reminder Days Before Expiry
+            </label>
+            <input
+              type="text"
+              value={reminderText}
+              onChange={(e) => setReminderText(e.target.value)}
+              placeholder="7, 1"
+              className="w-full border rounded-lg px-4 py-2"
+            />
+            <p className="text-sm text-gray-600 mt-2">
+              Comma-separated; owners get an email, push and dashboard
+              notification on each of these days
+            </p>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.isActive}
+                onChange={(e) =>
+                  setSettings({ ...settings, isActive: e.target.checked })
+                }
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              <span className="font-semibold">Enable Listing Expiry</span>
+            </label>
+            <p className="text-sm text-gray-600 mt-2">
+              When off, listings stay live until their owner takes them down
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button onClick={handleSave} disabled={saving} className="gap-2">
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4" />
+                  Save Settings
+                </>
+              )}
+            </Button>
+            <Button variant="outline" onClick={fetchSettings} type="button">
+              Reset
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Camera, RefreshCw, TrendingUp } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "../ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { api } from "../../lib/api";
+
+interface AreaInsight {
+  areaKey: string;
+  area: string;
+  propertyType: string;
+  subCategory: string;
+  listingCount: number;
+  saleCount: number;
+  rentCount: number;
+  medianSalePrice: number | null;
+  medianSalePricePerSqft: number | null;
+  medianRent: number | null;
+  rentYieldPct: number | null;
+  medianDaysOnMarket: number | null;
+}
+
+interface TrendPoint {
+  snapshotDate: string;
+  listingCount: number;
+  medianSalePricePerSqft: number | null;
+  medianRent: number | null;
+}
+
+const PROPERTY_TYPES = ["all", "residential", "flat", "plot", "commercial", "agricultural", "pg"];
+
+const chartConfig = {
+  medianSalePricePerSqft: { label: "₹ / sq ft (sale)", color: "#C70000" },
+  listingCount: { label: "Listings", color: "#2563eb" },
+} satisfies ChartConfig;
+
+const inr = (v: number | null) =>
+  v === null || v === undefined ? "—" : `₹${Math.round(v).toLocaleString("en-IN")}`;
+
+export default function MarketInsightsDashboard() {
+  const [propertyType, setPropertyType] = useState("all");
+  const [areas, setAreas] = useState<AreaInsight[]>([]);
+  const [asOf, setAsOf] = useState<string>("");
+  const [selected, setSelected] = useState<string>("");
+  const [trend, setTrend] = useState<TrendPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    fetchAreas();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [propertyType]);
+
+  useEffect(() => {
+    if (selected) fetchTrend(selected);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected, propertyType]);
+
+  const fetchAreas = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get(`/insights/areas?propertyType=${propertyType}`);
+      if (response.success) {
+        const rows: AreaInsight[] = response.data?.areas || [];
+        setAreas(rows);
+        setAsOf(response.data?.asOf || "");
+        if (!selected && rows.length) setSelected(rows[0].areaKey);
+      }
+    } catch (error) {
+      console.error("Error fetching area insights:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTrend = async (areaKey: string) => {
+    try {
+      const response = await api.get(
+        `/insights/areas/trend?area=${encodeURIComponent(areaKey)}&propertyType=${propertyType}&days=365`,
+      );
+      setTrend(response.success ? response.data?.points || [] : []);
+    } catch (error) {
+      console.error("Error fetching area trend:", error);
+      setTrend([]);
+    }
+  };
+
+  const snapshotNow = async () => {
+    setMessage("");
+    const response = await api.post("/admin/jobs/market-insights/run");
+    setMessage(response.success ? "Snapshot updated" : response.error || "Snapshot failed");
+    await fetchAreas();
+    if (selected) await fetchTrend(selected);
+  };
+
+  const selectedRow = areas.find((a) => a.areaKey === selected);
+  const chartData = trend.map((p) => ({
+    ...p,
+    label: new Date(p.snapshotDate).toLocaleDateString("en-IN", {
+      day: "numeric",
+      month: "short",
+    }),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Market Insights
+            {asOf && (
+              <span className="text-xs font-normal text-gray-500">
+                as of {new Date(asOf).toLocaleDateString("en-IN")}
+              </span>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={propertyType} onValueChange={setPropertyType}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROPERTY_TYPES.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {t === "all" ? "All types" : t}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={fetchAreas} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={snapshotNow}>
+              <Camera className="h-4 w-4 mr-2" />
+              Snapshot now
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {message && (
+            <div className="mb-4 p-3 rounded-lg bg-gray-50 border text-sm">{message}</div>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Area</TableHead>
+                <TableHead className="text-right">Listings</TableHead>
+                <TableHead className="text-right">Median Sale</TableHead>
+                <TableHead className="text-right">₹ / sq ft</TableHead>
+                <TableHead className="text-right">Median Rent</TableHead>
+                <TableHead className="text-right">Rent Yield</TableHead>
+                <TableHead className="text-right">Days on Market</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {areas.map((a) => (
+                <TableRow
+                  key={`${a.areaKey}-${a.propertyType}-${a.subCategory}`}
+                  className={`cursor-pointer ${a.areaKey === selected ? "bg-red-50" : ""}`}
+                  onClick={() => setSelected(a.areaKey)}
+                >
+                  <TableCell className="font-medium">{a.area}</TableCell>
+                  <TableCell className="text-right">
+                    {a.listingCount}
+                    <div className="text-xs text-gray-500">
+                      {a.saleCount} sale · {a.rentCount} rent
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{inr(a.medianSalePrice)}</TableCell>
+                  <TableCell className="text-right">{inr(a.medianSalePricePerSqft)}</TableCell>
+                  <TableCell className="text-right">{inr(a.medianRent)}</TableCell>
+                  <TableCell className="text-right">
+                    {a.rentYieldPct === null ? "—" : `${a.rentYieldPct}%`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {a.medianDaysOnMarket === null ? "—" : a.medianDaysOnMarket}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && areas.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-gray-500">
+                    No active listings with a sector/area yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedRow && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selectedRow.area} — last 12 months</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {chartData.length < 2 ? (
+              <p className="text-sm text-gray-500">
+                Trends appear once at least two daily snapshots exist.
+              </p>
+            ) : (
+              <ChartContainer config={chartConfig} className="h-72 w-full">
+                <LineChart data={chartData} margin={{ left: 8, right: 8, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis yAxisId="price" tickLine={false} axisLine={false} width={56} />
+                  <YAxis
+                    yAxisId="count"
+                    orientation="right"
+                    tickLine={false}
+                    axisLine={false}
+                    width={32}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line
+                    yAxisId="price"
+                    dataKey="medianSalePricePerSqft"
+                    stroke="var(--color-medianSalePricePerSqft)"
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                  <Line
+                    yAxisId="count"
+                    dataKey="listingCount"
+                    stroke="var(--color-listingCount)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -160,14 +160,34 @@ export default function NewProjectsManagement() {
     link: "",
     isActive: true,
     sortOrder: 1,
+    advertiserId: "",
   });
 
+  // advertisement submissions a banner can be credited to (for reports)
+  const [advertisers, setAdvertisers] = useState<
+    { _id: string; fullName: string; projectName: string }[]
+  >([]);
+
   useEffect(() => {
     fetchProjects();
     fetchBanners();
+    fetchAdvertisers();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const fetchAdvertisers = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/admin/advertisement/submissions?limit=100", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data?.success) setAdvertisers(data.data.submissions || []);
+    } catch (error) {
+      console.error("Error fetching advertisers:", error);
+    }
+  };
+
   /* ------------------ API: Projects ------------------ */
   const fetchProjects = async () => {
     if (!token) return;
@@ -359,6 +379,7 @@ export default function NewProjectsManagement() {
       link: normalizeLink(bannerFormData.link),
       title: (bannerFormData.title || "").trim(),
       imageUrl: (bannerFormData.imageUrl || "").trim(),
+      advertiserId: bannerFormData.advertiserId || undefined,
     };
 
     if (!token || !payload.title || !payload.imageUrl || !payload.link) {
@@ -435,6 +456,7 @@ export default function NewProjectsManagement() {
       link: "",
       isActive: true,
       sortOrder: 1,
+      advertiserId: "",
     });
     setEditingBanner(null);
   };
@@ -777,6 +799,22 @@ export default function NewProjectsManagement() {
                     </select>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Advertiser (optional)</label>
+                    <select
+                      value={bannerFormData.advertiserId}
+                      onChange={(e) => handleBannerInputChange("advertiserId", e.target.value)}
+                      className="w-full border border-gray-300 rounded-md h-9 px-3 text-sm"
+                    >
+                      <option value="">— House ad —</option>
+                      {advertisers.map((a) => (
+                        <option key={a._id} value={a._id}>
+                          {a.projectName} — {a.fullName}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div className="grid grid-cols-2 gap-3">
                     <div>
                       <label className="block text-sm font-medium mb-2">Sort Order</label>
@@ -29,6 +29,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "../ui/dialog";
+import {
+  ENTITLEMENT_KEYS,
+  ENTITLEMENT_LABELS,
+  PackageEntitlements,
+  UNLIMITED,
+  resolveEntitlements,
+} from "@shared/entitlements";
 
 interface AdPackage {
   _id: string;
@@ -37,7 +44,8 @@ interface AdPackage {
   price: number;
   duration: number;
   features: string[];
-  type: "basic" | "featured" | "premium";
+  entitlements?: PackageEntitlements;
+  type: "basic" | "featured" | "premium" | "boost";
   category: string;
   location: string;
   active: boolean;
@@ -62,8 +70,9 @@ export default function PackageManagement() {
     price: 0,
     duration: 30,
     features: [""],
-    type: "basic" as "basic" | "featured" | "premium",
+    type: "basic" as "basic" | "featured" | "premium" | "boost",
     active: true,
+    entitlements: { listings: 1, featuredSlots: 0, boosts: 0, contactReveals: 0 },
   });
 
   useEffect(() => {
@@ -77,7 +86,7 @@ export default function PackageManagement() {
       setLoading(true);
       setError("");
 
-      const response = await fetch("/api/packages", {
+      const response = await fetch("/api/packages?type=all", {
         headers: { Authorization: `Bearer ${token}` },
       });
 
@@ -134,6 +143,7 @@ export default function PackageManagement() {
       features: [""],
       type: "basic",
       active: true,
+      entitlements: { listings: 1, featuredSlots: 0, boosts: 0, contactReveals: 0 },
     });
     setEditingPackage(null);
   };
@@ -152,6 +162,7 @@ export default function PackageManagement() {
       features: pkg.features,
       type: pkg.type,
       active: pkg.active,
+      entitlements: resolveEntitlements(pkg),
     });
     setEditingPackage(pkg);
     setShowCreateDialog(true);
@@ -178,6 +189,7 @@ export default function PackageManagement() {
         body: JSON.stringify({
           ...formData,
           features: formData.features.filter((f) => (( f ?? "" ).trim()) !== ""),
+          entitlements: { ...formData.entitlements, durationDays: formData.duration },
         }),
       });
 
@@ -360,6 +372,7 @@ export default function PackageManagement() {
             <SelectItem value="basic">Basic</SelectItem>
             <SelectItem value="featured">Featured</SelectItem>
             <SelectItem value="premium">Premium</SelectItem>
+            <SelectItem value="boost">Boost</SelectItem>
           </SelectContent>
         </Select>
         <Button variant="outline">
@@ -400,7 +413,9 @@ export default function PackageManagement() {
                           ? "bg-purple-100 text-purple-800"
                           : pkg.type === "featured"
                             ? "bg-blue-100 text-blue-800"
-                            : "bg-gray-100 text-gray-800"
+                            : pkg.type === "boost"
+                              ? "bg-orange-100 text-orange-800"
+                              : "bg-gray-100 text-gray-800"
                       }
                     >
                       {pkg.type}
@@ -526,6 +541,7 @@ export default function PackageManagement() {
                     <SelectItem value="basic">Basic</SelectItem>
                     <SelectItem value="featured">Featured</SelectItem>
                     <SelectItem value="premium">Premium</SelectItem>
+                    <SelectItem value="boost">Boost</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -582,6 +598,33 @@ export default function PackageManagement() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Entitlements <span className="font-normal text-gray-500">({UNLIMITED} = unlimited)</span>
+              </label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {ENTITLEMENT_KEYS.map((key) => (
+                  <div key={key}>
+                    <label className="block text-xs text-gray-600 mb-1">{ENTITLEMENT_LABELS[key]}</label>
+                    <Input
+                      type="number"
+                      min={UNLIMITED}
+                      value={formData.entitlements[key]}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          entitlements: {
+                            ...formData.entitlements,
+                            [key]: Math.max(UNLIMITED, parseInt(e.target.value) || 0),
+                          },
+                        })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Features *
@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from "react";
+import { Download, Loader2, Play, RefreshCw } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { useToast } from "../ui/use-toast";
+import {
+  RECONCILIATION_ISSUE_LABELS,
+  ReconciliationIssue,
+  ReconciliationIssueType,
+} from "@shared/paymentLedger";
+import RefundDialog from "./RefundDialog";
+import GstSummary from "./GstSummary";
+
+type Props = {
+  token: string | null;
+};
+
+type Report = {
+  issues: ReconciliationIssue[];
+  openByType: Partial<Record<ReconciliationIssueType, number>>;
+  lastRunAt: string | null;
+  lastRunStats: Record<string, number> | null;
+  pagination: { page: number; pages: number; total: number };
+};
+
+const ISSUE_TYPES = Object.keys(RECONCILIATION_ISSUE_LABELS) as ReconciliationIssueType[];
+const ACTIVATABLE: ReconciliationIssueType[] = ["paid_not_recorded", "missing_entitlement"];
+
+const describe = (issue: ReconciliationIssue) => {
+  const d = issue.details || {};
+  switch (issue.type) {
+    case "paid_not_recorded":
+      return d.gatewayAmount != null ? `Gateway captured ₹${d.gatewayAmount}` : "Gateway shows paid";
+    case "recorded_not_paid":
+      return `Gateway says ${d.gatewayStatus}`;
+    case "amount_mismatch":
+      return `Ledger ₹${d.ledgerAmount} vs gateway ₹${d.gatewayAmount}`;
+    case "stuck_pending":
+      return `Pending for ${d.ageHours}h`;
+    case "double_activation":
+      return `Also activated by ${d.previous?.source} ${d.previous?.sourceId}`;
+    default:
+      return "";
+  }
+};
+
+/** Mismatches between our payment records, the gateways and what got activated. */
+export default function PaymentReconciliation({ token }: Props) {
+  const [report, setReport] = useState<Report | null>(null);
+  const [status, setStatus] = useState("open");
+  const [type, setType] = useState("");
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [busyId, setBusyId] = useState("");
+  const [refundLedgerId, setRefundLedgerId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const query = () => new URLSearchParams({ status, ...(type ? { type } : {}), page: String(page) });
+
+  const fetchReport = async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/payments/reconciliation?${query()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json();
+      if (!data?.success) throw new Error(data?.error || "Failed to load report");
+      setReport(data.data);
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, status, type, page]);
+
+  const runNow = async () => {
+    setRunning(true);
+    try {
+      const res = await fetch("/api/admin/payments/reconciliation/run", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json();
+      if (!data?.success) throw new Error(data?.error || "Reconciliation failed");
+      toast({
+        title: "Reconciliation complete",
+        description: `${data.data.gatewayChecked} checked with gateways, ${data.data.newIssues} new issues`,
+      });
+      fetchReport();
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const act = async (issue: ReconciliationIssue, action: "activate" | "resolve" | "ignore") => {
+    if (action === "activate" && !confirm("Mark this payment as paid and activate what was bought?")) return;
+    const note = action === "activate" ? "" : prompt("Note (optional):") ?? null;
+    if (note === null) return;
+    setBusyId(issue._id);
+    try {
+      const res = await fetch(`/api/admin/payments/reconciliation/${issue._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ action, note }),
+      });
+      const data = await res.json();
+      if (!data?.success) throw new Error(data?.error || "Failed to update issue");
+      fetchReport();
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } finally {
+      setBusyId("");
+    }
+  };
+
+  const downloadCsv = async () => {
+    const params = query();
+    params.set("format", "csv");
+    const res = await fetch(`/api/admin/payments/reconciliation?${params}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) {
+      toast({ title: "Error", description: "Failed to export", variant: "destructive" });
+      return;
+    }
+    const url = URL.createObjectURL(await res.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `payment-reconciliation-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        {ISSUE_TYPES.map((t) => (
+          <button
+            key={t}
+            onClick={() => {
+              setPage(1);
+              setStatus("open");
+              setType(type === t ? "" : t);
+            }}
+            className={`text-left border rounded-lg p-3 bg-white ${type === t ? "border-[#C70000]" : ""}`}
+          >
+            <div className="text-2xl font-semibold">{report?.openByType?.[t] || 0}</div>
+            <div className="text-xs text-gray-600">{RECONCILIATION_ISSUE_LABELS[t]}</div>
+          </button>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-2 flex-wrap">
+          <div>
+            <CardTitle>Payment Reconciliation</CardTitle>
+            <p className="text-xs text-gray-500 mt-1">
+              {report?.lastRunAt
+                ? `Last run ${new Date(report.lastRunAt).toLocaleString()}`
+                : "Not run yet"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={status}
+              onChange={(e) => {
+                setPage(1);
+                setStatus(e.target.value);
+              }}
+              className="border rounded-md p-2 text-sm"
+            >
+              <option value="open">Open</option>
+              <option value="resolved">Resolved</option>
+              <option value="ignored">Ignored</option>
+              <option value="all">All</option>
+            </select>
+            <Button variant="outline" size="sm" onClick={downloadCsv}>
+              <Download className="h-4 w-4 mr-1" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={fetchReport} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+            <Button size="sm" onClick={runNow} disabled={running}>
+              {running ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+              Run now
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!report?.issues.length ? (
+            <p className="text-sm text-gray-500 py-8 text-center">
+              {loading ? "Loading…" : "Nothing to reconcile"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Issue</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Seen</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.issues.map((issue) => (
+                  <TableRow key={issue._id}>
+                    <TableCell>
+                      <div className="font-medium text-sm">{RECONCILIATION_ISSUE_LABELS[issue.type]}</div>
+                      <div className="text-xs text-gray-500">{describe(issue)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">
+                        {issue.ledger?.gateway} · {issue.ledger?.purpose?.replace("_", " ")}
+                      </div>
+                      <div className="text-xs text-gray-500 break-all">
+                        {issue.ledger?.gatewayRef || issue.ledger?.sourceId}
+                      </div>
+                    </TableCell>
+                    <TableCell>₹{Number(issue.ledger?.amount || 0).toLocaleString("en-IN")}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{issue.ledger?.status}</div>
+                      {issue.ledger?.gatewayStatus && (
+                        <div className="text-xs text-gray-500">gateway: {issue.ledger.gatewayStatus}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-500">
+                      {new Date(issue.firstSeenAt).toLocaleDateString()}
+                      {issue.status !== "open" && <div>{issue.status}</div>}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      {issue.status === "open" && (
+                        <>
+                          {ACTIVATABLE.includes(issue.type) && (
+                            <Button size="sm" disabled={busyId === issue._id} onClick={() => act(issue, "activate")}>
+                              Activate
+                            </Button>
+                          )}
+                          {issue.type === "double_activation" && issue.ledger?.status === "paid" && (
+                            <Button size="sm" onClick={() => setRefundLedgerId(issue.ledgerId)}>
+                              Refund
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busyId === issue._id}
+                            onClick={() => act(issue, "resolve")}
+                          >
+                            Resolve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={busyId === issue._id}
+                            onClick={() => act(issue, "ignore")}
+                          >
+                            Ignore
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {report && report.pagination.pages > 1 && (
+            <div className="flex justify-end items-center gap-2 mt-4 text-sm">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <span>
+                Page {report.pagination.page} of {report.pagination.pages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= report.pagination.pages}
+                onClick={() => setPage(page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <GstSummary token={token} />
+
+      <RefundDialog
+        token={token}
+        baseUrl={refundLedgerId ? `/api/admin/payments/ledger/${refundLedgerId}` : null}
+        title="Refund duplicate payment"
+        keepPurchase
+        onClose={() => setRefundLedgerId(null)}
+        onRefunded={fetchReport}
+      />
+    </div>
+  );
+}
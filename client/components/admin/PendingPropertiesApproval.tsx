@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Property } from "@shared/types";
+import { Property, ListingRiskAssessment } from "@shared/types";
 import { api } from "../../lib/api";
 import { Button } from "../ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
@@ -18,6 +18,8 @@ import {
   Mail,
   Calendar,
   MessageSquare,
+  ShieldAlert,
+  RefreshCw,
 } from "lucide-react";
 import { Alert, AlertDescription } from "../ui/alert";
 import {
@@ -40,6 +42,63 @@ const REJECTION_REGIONS = [
   { value: "other", label: "Other" },
 ];
 
+const RISK_STYLES: Record<ListingRiskAssessment["level"], string> = {
+  high: "bg-red-100 text-red-800 border-red-200",
+  medium: "bg-amber-100 text-amber-800 border-amber-200",
+  low: "bg-green-100 text-green-800 border-green-200",
+};
+
+const RiskPanel = ({
+  risk,
+  onRecheck,
+}: {
+  risk?: ListingRiskAssessment;
+  onRecheck?: () => void;
+}) => {
+  if (!risk) return null;
+  return (
+    <div className={`rounded-lg border p-3 text-sm ${RISK_STYLES[risk.level]}`}>
+      <div className="flex items-center justify-between">
+        <span className="font-semibold flex items-center gap-2">
+          <ShieldAlert className="h-4 w-4" />
+          Risk score {risk.score}/100 ({risk.level})
+        </span>
+        {onRecheck && (
+          <button
+            type="button"
+            onClick={onRecheck}
+            className="text-xs underline flex items-center gap-1"
+          >
+            <RefreshCw className="h-3 w-3" />
+            Re-check
+          </button>
+        )}
+      </div>
+      {risk.reasons.length === 0 ? (
+        <p className="mt-1 text-xs">No duplicate or fraud signals found.</p>
+      ) : (
+        <ul className="mt-2 space-y-1 list-disc pl-5">
+          {risk.reasons.map((r, i) => (
+            <li key={i}>
+              {r.message}
+              {r.relatedPropertyId && (
+                <a
+                  href={`/property/${r.relatedPropertyId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="ml-1 underline"
+                >
+                  view
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
 const PendingPropertiesApproval = () => {
   const [properties, setProperties] = useState<Property[]>([]);
   const [loading, setLoading] = useState(true);
@@ -52,10 +111,15 @@ const PendingPropertiesApproval = () => {
   const [rejectionReason, setRejectionReason] = useState("");
   const [success, setSuccess] = useState("");
   const [error, setError] = useState("");
+  const [sortByRisk, setSortByRisk] = useState(false);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
 
   useEffect(() => {
     fetchPendingProperties();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sortByRisk, page]);
 
   const fetchPendingProperties = async () => {
     try {
@@ -64,9 +128,14 @@ const PendingPropertiesApproval = () => {
         setError("Authentication required");
         return;
       }
-      const response = await api.get("admin/properties/pending", token);
+      const response = await api.get(
+        `admin/properties/pending?page=${page}${sortByRisk ? "&sort=risk" : ""}`,
+        token,
+      );
       if (response.data.success) {
         setProperties(response.data.data);
+        setPages(response.data.meta?.pagination?.pages || 1);
+        setTotal(response.data.meta?.pagination?.total ?? response.data.data.length);
       }
     } catch (error) {
       console.error("Error fetching pending properties:", error);
@@ -76,9 +145,25 @@ const PendingPropertiesApproval = () => {
     }
   };
 
+  const recheckRisk = async (propertyId: string) => {
+    const token = localStorage.getItem("token");
+    if (!token) return;
+    const response = await api.get(
+      `admin/properties/${propertyId}/risk?refresh=true`,
+      token,
+    );
+    if (response.success) {
+      const riskAssessment = response.data as unknown as ListingRiskAssessment;
+      setProperties((list) =>
+        list.map((p) => (p._id === propertyId ? { ...p, riskAssessment } : p)),
+      );
+    }
+  };
+
   const handleApproval = async (
     propertyId: string,
     approvalStatus: "approved" | "rejected",
+    acknowledgeRisk = false,
   ) => {
     if (!selectedProperty) return;
 
@@ -90,6 +175,7 @@ const PendingPropertiesApproval = () => {
       const payload: any = {
         approvalStatus,
         adminComments: adminComments.trim() || undefined,
+        acknowledgeRisk: acknowledgeRisk || undefined,
       };
 
       if (approvalStatus === "rejected") {
@@ -117,9 +203,26 @@ const PendingPropertiesApproval = () => {
 
       console.log(`📨 Approval response received:`, response);
 
+      const flagged = (response.data as any)?.riskAssessment as
+        | ListingRiskAssessment
+        | undefined;
+      if (!response.success && flagged && !acknowledgeRisk) {
+        const reasons = flagged.reasons.map((r) => `• ${r.message}`).join("\n");
+        if (
+          window.confirm(
+            `This listing is flagged as high risk (${flagged.score}/100):\n\n${reasons}\n\nApprove anyway?`,
+          )
+        ) {
+          setProcessing(null);
+          return handleApproval(propertyId, approvalStatus, true);
+        }
+        return;
+      }
+
       if (response.data.success) {
         setSuccess(`Property ${approvalStatus} successfully`);
         setProperties(properties.filter((p) => p._id !== propertyId));
+        setTotal((n) => Math.max(0, n - 1));
         setSelectedProperty(null);
         setAdminComments("");
         setRejectionReason("");
@@ -163,9 +266,22 @@ const PendingPropertiesApproval = () => {
           </h2>
           <p className="text-gray-600">Review and approve property listings</p>
         </div>
-        <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
-          {properties.length} Pending Review
-        </Badge>
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setSortByRisk((v) => !v);
+              setPage(1);
+            }}
+          >
+            <ShieldAlert className="h-4 w-4 mr-2" />
+            {sortByRisk ? "Newest first" : "Riskiest first"}
+          </Button>
+          <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+            {total} Pending Review
+          </Badge>
+        </div>
       </div>
 
       {error && (
@@ -318,6 +434,11 @@ const PendingPropertiesApproval = () => {
                       </div>
                     </div>
 
+                    <RiskPanel
+                      risk={property.riskAssessment}
+                      onRecheck={() => recheckRisk(property._id!)}
+                    />
+
                     {/* Action Buttons */}
                     <div className="flex flex-wrap gap-3 pt-2">
                       <Button
@@ -359,6 +480,25 @@ const PendingPropertiesApproval = () => {
         </div>
       )}
 
+      {pages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span>
+            Page {page} of {pages}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={page >= pages}
+            onClick={() => setPage(page + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
       {/* Property Review Modal */}
       {selectedProperty && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -461,6 +601,8 @@ const PendingPropertiesApproval = () => {
                   </div>
                 </div>
 
+                <RiskPanel risk={selectedProperty.riskAssessment} />
+
                 <div className="flex justify-end gap-3 pt-4">
                   <Button
                     onClick={() => setSelectedProperty(null)}
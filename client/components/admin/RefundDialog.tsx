@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Textarea } from "../ui/textarea";
+import { useToast } from "../ui/use-toast";
+import { RefundMode, RefundQuote } from "@shared/paymentLedger";
+
+type Props = {
+  token: string | null;
+  /** e.g. `/api/admin/user-packages/:id` or `/api/admin/payments/ledger/:id` */
+  baseUrl: string | null;
+  title: string;
+  /** Refund a duplicate charge in full without cancelling the purchase. */
+  keepPurchase?: boolean;
+  onClose: () => void;
+  onRefunded: () => void;
+};
+
+const rupees = (n: number) => `₹${Number(n || 0).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+/** Quote and issue a full or prorated refund. Open while `baseUrl` is set. */
+export default function RefundDialog({ token, baseUrl, title, keepPurchase, onClose, onRefunded }: Props) {
+  const [quote, setQuote] = useState<RefundQuote | null>(null);
+  const [mode, setMode] = useState<RefundMode>("prorated");
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setQuote(null);
+    setReason("");
+    setMode(keepPurchase ? "full" : "prorated");
+    if (!baseUrl || !token) return;
+
+    setLoading(true);
+    fetch(`${baseUrl}/refund-quote`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((data) => {
+        if (!data?.success) throw new Error(data?.error || "Failed to load refund amount");
+        setQuote(data.data);
+      })
+      .catch((err) => {
+        toast({ title: "Error", description: err.message, variant: "destructive" });
+        onClose();
+      })
+      .finally(() => setLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [baseUrl, token]);
+
+  const amount = quote ? (mode === "full" ? quote.full : quote.prorated) : 0;
+
+  const submit = async () => {
+    if (!baseUrl || !reason.trim()) return;
+    setSubmitting(true);
+    try {
+      const res = await fetch(`${baseUrl}/refund`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ mode, reason: reason.trim(), revoke: !keepPurchase }),
+      });
+      const data = await res.json();
+      if (!data?.success) throw new Error(data?.error || "Refund failed");
+      toast({
+        title: data.data.status === "processed" ? "Refund processed" : "Refund initiated",
+        description: `${rupees(data.data.amount)} · credit note ${data.data.creditNoteNumber}${
+          data.data.manualPayout ? " · pay out manually" : ""
+        }`,
+      });
+      onRefunded();
+      onClose();
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!baseUrl} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        {loading || !quote ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="text-gray-500">Paid</div>
+              <div>{rupees(quote.paidAmount)}</div>
+              <div className="text-gray-500">Already refunded</div>
+              <div>{rupees(quote.alreadyRefunded)}</div>
+            </div>
+
+            <div className="space-y-2">
+              <label className={`flex items-center gap-2 text-sm ${keepPurchase ? "hidden" : ""}`}>
+                <input type="radio" checked={mode === "prorated"} onChange={() => setMode("prorated")} />
+                Unused period: <b>{rupees(quote.prorated)}</b>
+                {quote.totalDays != null && (
+                  <span className="text-gray-500">
+                    ({quote.unusedDays} of {quote.totalDays} days)
+                  </span>
+                )}
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="radio" checked={mode === "full"} onChange={() => setMode("full")} />
+                Full refund: <b>{rupees(quote.full)}</b>
+              </label>
+            </div>
+
+            <Textarea
+              placeholder="Reason (shown on the credit note)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+            />
+            <p className="text-xs text-gray-500">
+              {keepPurchase
+                ? "The purchase stays active; only this duplicate payment is returned."
+                : "The purchase is cancelled and its featured/premium benefits removed straight away."}
+            </p>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#C70000] hover:bg-[#A60000]"
+            disabled={!quote || amount <= 0 || !reason.trim() || submitting}
+            onClick={submit}
+          >
+            {submitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Refund {rupees(amount)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
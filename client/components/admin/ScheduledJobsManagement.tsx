@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from "react";
+import { Clock, Pause, Play, RefreshCw, RotateCw } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { api } from "../../lib/api";
+
+interface ScheduledJob {
+  name: string;
+  description: string;
+  intervalMs: number;
+  paused: boolean;
+  nextRunAt: string;
+  lockedBy: string | null;
+  lastRunAt?: string | null;
+  lastStatus?: "success" | "failed" | null;
+  lastError?: string | null;
+  lastResult?: Record<string, any> | null;
+  lastDurationMs?: number | null;
+  runCount: number;
+  failCount: number;
+}
+
+const formatDate = (v?: string | null) =>
+  v ? new Date(v).toLocaleString("en-IN") : "—";
+
+const formatInterval = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  return hours < 24 ? `${hours} h` : `${Math.round(hours / 24)} d`;
+};
+
+export default function ScheduledJobsManagement() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyJob, setBusyJob] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  const fetchJobs = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get("/admin/jobs");
+      if (response.success) {
+        setJobs(response.data?.jobs || []);
+      }
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (job: ScheduledJob, action: "run" | "pause" | "resume") => {
+    setBusyJob(job.name);
+    setMessage("");
+    try {
+      const endpoint = `/admin/jobs/${encodeURIComponent(job.name)}/${action}`;
+      const response =
+        action === "run" ? await api.post(endpoint) : await api.put(endpoint);
+
+      setMessage(
+        response.success
+          ? action === "run"
+            ? `"${job.name}" finished`
+            : `"${job.name}" ${action === "pause" ? "paused" : "resumed"}`
+          : response.error || "Action failed",
+      );
+      await fetchJobs();
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Scheduled Jobs
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={fetchJobs} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {message && (
+          <div className="mb-4 p-3 rounded-lg bg-gray-50 border text-sm">{message}</div>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Job</TableHead>
+              <TableHead>Every</TableHead>
+              <TableHead>Last Run</TableHead>
+              <TableHead>Next Run</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map((job) => (
+              <TableRow key={job.name}>
+                <TableCell>
+                  <div className="font-medium">{job.name}</div>
+                  <div className="text-xs text-gray-500">{job.description}</div>
+                  {job.lastResult && (
+                    <div className="text-xs text-gray-400 mt-1">
+                      {Object.entries(job.lastResult)
+                        .map(([k, v]) => `${k}: ${v}`)
+                        .join(" · ")}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>{formatInterval(job.intervalMs)}</TableCell>
+                <TableCell className="text-sm">
+                  {formatDate(job.lastRunAt)}
+                  {typeof job.lastDurationMs === "number" && (
+                    <div className="text-xs text-gray-500">{job.lastDurationMs} ms</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {job.paused ? "—" : formatDate(job.nextRunAt)}
+                </TableCell>
+                <TableCell>
+                  {job.paused ? (
+                    <Badge variant="outline">Paused</Badge>
+                  ) : job.lockedBy ? (
+                    <Badge className="bg-blue-100 text-blue-800">Running</Badge>
+                  ) : job.lastStatus === "failed" ? (
+                    <Badge variant="destructive" title={job.lastError || ""}>
+                      Failed
+                    </Badge>
+                  ) : (
+                    <Badge className="bg-green-100 text-green-800">Active</Badge>
+                  )}
+                  <div className="text-xs text-gray-500 mt-1">
+                    {job.runCount} runs · {job.failCount} failed
+                  </div>
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyJob === job.name}
+                    onClick={() => runAction(job, "run")}
+                  >
+                    <RotateCw className="h-4 w-4 mr-1" />
+                    Run now
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyJob === job.name}
+                    onClick={() => runAction(job, job.paused ? "resume" : "pause")}
+                  >
+                    {job.paused ? (
+                      <Play className="h-4 w-4 mr-1" />
+                    ) : (
+                      <Pause className="h-4 w-4 mr-1" />
+                    )}
+                    {job.paused ? "Resume" : "Pause"}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && jobs.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500">
+                  No jobs registered yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
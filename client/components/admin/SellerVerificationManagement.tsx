@@ -47,24 +47,7 @@ import {
   DialogTitle,
 } from '../ui/dialog';
 import { Textarea } from '../ui/textarea';
-
-interface SellerVerification {
-  _id: string;
-  userId: string;
-  userName: string;
-  userEmail: string;
-  userPhone?: string;
-  documents: {
-    type: string;
-    url: string;
-    verified: boolean;
-  }[];
-  status: 'pending' | 'approved' | 'rejected';
-  submittedAt: string;
-  reviewedAt?: string;
-  reviewedBy?: string;
-  comments?: string;
-}
+import { REJECTION_REASONS, SellerVerification } from '@shared/sellerVerification';
 
 export default function SellerVerificationManagement() {
   const { token } = useAuth();
@@ -75,6 +58,7 @@ export default function SellerVerificationManagement() {
   const [statusFilter, setStatusFilter] = useState('all');
   const [selectedVerification, setSelectedVerification] = useState<SellerVerification | null>(null);
   const [reviewComments, setReviewComments] = useState('');
+  const [rejectionReason, setRejectionReason] = useState('');
   const [processing, setProcessing] = useState(false);
 
   useEffect(() => {
@@ -130,21 +114,19 @@ export default function SellerVerificationManagement() {
         body: JSON.stringify({
           status: action === 'approve' ? 'approved' : 'rejected',
           comments: reviewComments.trim() || undefined,
+          rejectionReason: action === 'reject' ? rejectionReason : undefined,
         }),
       });
 
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          // Refresh the list
-          fetchVerifications();
-          setSelectedVerification(null);
-          setReviewComments('');
-        } else {
-          setError(data.error || 'Failed to update verification');
-        }
+      const data = await response.json().catch(() => ({}));
+      if (response.ok && data.success) {
+        // Refresh the list
+        fetchVerifications();
+        setSelectedVerification(null);
+        setReviewComments('');
+        setRejectionReason('');
       } else {
-        setError('Failed to update verification status');
+        setError(data.error || 'Failed to update verification status');
       }
     } catch (err) {
       setError('Network error while updating verification');
@@ -280,7 +262,10 @@ export default function SellerVerificationManagement() {
                       <TableCell>
                         <div className="flex space-x-2">
                           <Button
-                            onClick={() => setSelectedVerification(verification)}
+                            onClick={() => {
+                              setSelectedVerification(verification);
+                              setRejectionReason('');
+                            }}
                             variant="outline"
                             size="sm"
                           >
@@ -292,6 +277,7 @@ export default function SellerVerificationManagement() {
                                 onClick={() => {
                                   setSelectedVerification(verification);
                                   setReviewComments('');
+                                  setRejectionReason('');
                                 }}
                                 variant="outline"
                                 size="sm"
@@ -303,6 +289,7 @@ export default function SellerVerificationManagement() {
                                 onClick={() => {
                                   setSelectedVerification(verification);
                                   setReviewComments('');
+                                  setRejectionReason('');
                                 }}
                                 variant="outline"
                                 size="sm"
@@ -349,6 +336,10 @@ export default function SellerVerificationManagement() {
                   {selectedVerification.userPhone && (
                     <p className="text-gray-600">{selectedVerification.userPhone}</p>
                   )}
+                  <p className="text-sm text-gray-500 capitalize">
+                    {selectedVerification.userType}
+                    {selectedVerification.reraNumber && ` · RERA ${selectedVerification.reraNumber}`}
+                  </p>
                   {getStatusBadge(selectedVerification.status)}
                 </div>
               </div>
@@ -360,7 +351,8 @@ export default function SellerVerificationManagement() {
                     <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
                       <div className="flex items-center space-x-2">
                         <FileText className="h-4 w-4 text-gray-500" />
-                        <span className="font-medium">{doc.type}</span>
+                        <span className="font-medium">{doc.label}</span>
+                        <span className="text-sm text-gray-500">{doc.fileName}</span>
                       </div>
                       <div className="flex items-center space-x-2">
                         <Badge variant={doc.verified ? 'default' : 'outline'}>
@@ -379,8 +371,25 @@ export default function SellerVerificationManagement() {
                 </div>
               </div>
 
-              {selectedVerification.status === 'pending' && (
+              {selectedVerification.status !== 'rejected' && (
                 <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Rejection Reason
+                    </label>
+                    <Select value={rejectionReason} onValueChange={setRejectionReason}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Required to reject" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REJECTION_REASONS.map((reason) => (
+                          <SelectItem key={reason} value={reason}>
+                            {reason}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Review Comments
@@ -396,29 +405,40 @@ export default function SellerVerificationManagement() {
                   <div className="flex justify-end space-x-3">
                     <Button
                       onClick={() => handleVerificationAction(selectedVerification._id, 'reject')}
-                      disabled={processing}
+                      disabled={processing || !rejectionReason}
                       variant="destructive"
                       className="flex items-center gap-2"
                     >
                       <XCircle className="h-4 w-4" />
-                      {processing ? 'Processing...' : 'Reject'}
-                    </Button>
-                    <Button
-                      onClick={() => handleVerificationAction(selectedVerification._id, 'approve')}
-                      disabled={processing}
-                      className="bg-green-600 hover:bg-green-700 flex items-center gap-2"
-                    >
-                      <CheckCircle className="h-4 w-4" />
-                      {processing ? 'Processing...' : 'Approve'}
+                      {processing
+                        ? 'Processing...'
+                        : selectedVerification.status === 'approved'
+                          ? 'Revoke Verification'
+                          : 'Reject'}
                     </Button>
+                    {selectedVerification.status === 'pending' && (
+                      <Button
+                        onClick={() => handleVerificationAction(selectedVerification._id, 'approve')}
+                        disabled={processing}
+                        className="bg-green-600 hover:bg-green-700 flex items-center gap-2"
+                      >
+                        <CheckCircle className="h-4 w-4" />
+                        {processing ? 'Processing...' : 'Approve'}
+                      </Button>
+                    )}
                   </div>
                 </div>
               )}
 
-              {selectedVerification.comments && (
+              {(selectedVerification.rejectionReason || selectedVerification.comments) && (
                 <div className="bg-gray-50 rounded-lg p-4">
                   <h4 className="font-semibold mb-2">Admin Comments</h4>
-                  <p className="text-gray-700">{selectedVerification.comments}</p>
+                  {selectedVerification.rejectionReason && (
+                    <p className="text-red-700 mb-1">{selectedVerification.rejectionReason}</p>
+                  )}
+                  {selectedVerification.comments && (
+                    <p className="text-gray-700">{selectedVerification.comments}</p>
+                  )}
                 </div>
               )}
             </div>
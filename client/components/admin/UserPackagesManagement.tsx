@@ -46,6 +46,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "../ui/dialog";
+import RefundDialog from "./RefundDialog";
 
 interface UserPackage {
   _id: string;
@@ -81,6 +82,7 @@ export default function UserPackagesManagement() {
   const [selectedStatus, setSelectedStatus] = useState("all");
   const [selectedPackageType, setSelectedPackageType] = useState("all");
   const [selectedUserPackage, setSelectedUserPackage] = useState<UserPackage | null>(null);
+  const [refundPackageId, setRefundPackageId] = useState<string | null>(null);
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 20,
@@ -573,6 +575,15 @@ export default function UserPackagesManagement() {
                             Cancel
                           </Button>
                         )}
+                        {pkg.paymentStatus === "paid" && pkg.price > 0 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRefundPackageId(pkg._id)}
+                          >
+                            Refund
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -589,6 +600,14 @@ export default function UserPackagesManagement() {
           </Table>
         </CardContent>
       </Card>
+
+      <RefundDialog
+        token={token}
+        baseUrl={refundPackageId ? `/api/admin/user-packages/${refundPackageId}` : null}
+        title="Refund package"
+        onClose={() => setRefundPackageId(null)}
+        onRefunded={fetchUserPackages}
+      />
     </div>
   );
 }
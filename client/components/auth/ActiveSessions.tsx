@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { LogOut, Monitor, RefreshCw, Smartphone } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { api } from "../../lib/api";
+
+interface SessionInfo {
+  id: string;
+  device: string;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+const isMobile = (device: string) => /Android|iOS|Mobile/.test(device);
+
+/** Signed-in devices for the current account, with per-device sign out. */
+export default function ActiveSessions() {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    setError("");
+    const response = await api.get("/auth/sessions");
+    if (response.success) {
+      setSessions(response.data?.sessions || []);
+    } else {
+      setError(response.error || "Failed to load sessions");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const revoke = async (sessionId: string) => {
+    setBusy(sessionId);
+    const response = await api.delete(`/auth/sessions/${sessionId}`);
+    if (response.success) {
+      setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+    } else {
+      setError(response.error || "Failed to sign out device");
+    }
+    setBusy(null);
+  };
+
+  const revokeOthers = async () => {
+    setBusy("others");
+    const response = await api.delete("/auth/sessions");
+    if (response.success) {
+      setSessions((prev) => prev.filter((s) => s.current));
+    } else {
+      setError(response.error || "Failed to sign out other devices");
+    }
+    setBusy(null);
+  };
+
+  const others = sessions.filter((s) => !s.current).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Active Sessions</CardTitle>
+        <Button variant="ghost" size="sm" onClick={fetchSessions} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {sessions.map((s) => (
+          <div key={s.id} className="flex items-center justify-between border rounded-lg p-3">
+            <div className="flex items-center gap-3">
+              {isMobile(s.device) ? (
+                <Smartphone className="h-5 w-5 text-gray-500" />
+              ) : (
+                <Monitor className="h-5 w-5 text-gray-500" />
+              )}
+              <div>
+                <p className="font-medium text-sm">
+                  {s.device}
+                  {s.current && (
+                    <Badge variant="outline" className="ml-2 text-green-600">
+                      This device
+                    </Badge>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {s.ip || "Unknown IP"} · last active{" "}
+                  {new Date(s.lastUsedAt).toLocaleString("en-IN")}
+                </p>
+              </div>
+            </div>
+            {!s.current && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revoke(s.id)}
+                disabled={busy !== null}
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Sign out
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {!loading && sessions.length === 0 && !error && (
+          <p className="text-sm text-gray-500">No active sessions found</p>
+        )}
+
+        {others > 0 && (
+          <Button
+            variant="outline"
+            className="w-full text-red-600"
+            onClick={revokeOthers}
+            disabled={busy !== null}
+          >
+            Sign out all other devices
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -54,10 +54,11 @@ export default function GoogleAuth({
       // Normalize shape
       const appToken = data?.token ?? data?.data?.token;
       const appUser  = data?.user  ?? data?.data?.user;
+      const appRefreshToken = data?.refreshToken ?? data?.data?.refreshToken;
       if (!appToken || !appUser) throw new Error("Invalid server response");
 
       // 3) Save JWT + user via context/storage
-      login(appToken, appUser);
+      login(appToken, appUser, appRefreshToken);
 
       setSuccess("You're signed in with Google!");
       onSuccess?.();
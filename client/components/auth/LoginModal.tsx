@@ -13,7 +13,7 @@ import { api } from "../../lib/api";
 
 interface EmailVerifyResponse {
   success: boolean;
-  data?: { token: string; user: any };
+  data?: { token: string; refreshToken?: string; user: any };
   error?: string;
 }
 
@@ -136,7 +136,7 @@ export default function LoginModal() {
         { email, otp: emailOtp },
       );
       if (data?.success && data.data) {
-        login(data.data.token, data.data.user);
+        login(data.data.token, data.data.user, data.data.refreshToken);
       } else setError(data?.error || "Invalid OTP");
     } catch (e: any) {
       setError(e?.message || "Invalid OTP");
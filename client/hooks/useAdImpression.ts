@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { AdRef, trackAdImpression } from "../lib/adTracking";
+
+const VISIBLE_RATIO = 0.5;
+const VISIBLE_MS = 1000;
+
+/**
+ * Counts an impression once `ad` has been at least half on screen for a
+ * second. Attach the returned ref to the element showing the ad; for a
+ * carousel pass the current slide so each slide is counted as it comes up.
+ */
+export function useAdImpression(ad: AdRef | null | undefined) {
+  const [element, setElement] = useState<Element | null>(null);
+  const key = ad ? `${ad.source}:${ad.adId}:${ad.slot || ""}` : "";
+
+  useEffect(() => {
+    if (!element || !ad) return;
+    if (typeof IntersectionObserver === "undefined") {
+      trackAdImpression(ad);
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        const visible =
+          entry.isIntersecting &&
+          entry.intersectionRatio >= VISIBLE_RATIO &&
+          document.visibilityState === "visible";
+        if (visible && !timer) {
+          timer = setTimeout(() => {
+            trackAdImpression(ad);
+            observer.disconnect();
+          }, VISIBLE_MS);
+        } else if (!visible && timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+      },
+      { threshold: [0, VISIBLE_RATIO] },
+    );
+    observer.observe(element);
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      observer.disconnect();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [element, key]);
+
+  return setElement;
+}
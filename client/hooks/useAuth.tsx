@@ -7,7 +7,12 @@ import {
   ReactNode,
 } from "react";
 import { clearToasts } from "@/hooks/use-toast";
-import { apiClient } from "@/lib/apiClient";
+import {
+  apiClient,
+  ensureFreshToken,
+  TOKEN_REFRESHED_EVENT,
+} from "@/lib/apiClient";
+import { mergeAnonymousViews } from "@/lib/viewTracking";
 
 type UserType = "buyer" | "seller" | "agent" | "admin" | "staff";
 
@@ -31,7 +36,7 @@ interface AuthContextType {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
-  login: (token: string, user: User) => void;
+  login: (token: string, user: User, refreshToken?: string) => void;
   logout: () => void;
   loading: boolean;
 }
@@ -40,6 +45,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const TOKEN_KEY = "adminToken";
 const USER_KEY = "adminUser";
+// access tokens live ~15 minutes; check often enough to renew before expiry
+const KEEP_ALIVE_MS = 60 * 1000;
 
 function getUserId(u: any) {
   return u?.id || u?._id || u?.uid || null;
@@ -74,6 +81,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           setToken(storedToken);
           setUser(parsedUser);
           apiClient.setToken(storedToken); // attach on boot
+          ensureFreshToken(); // a token from the last visit has likely expired
         } else {
           throw new Error("Invalid token or user data");
         }
@@ -87,17 +95,48 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   }, []);
 
-  const login = (newToken: string, newUser: User) => {
+  // apiClient rotates the access token; mirror it into context state
+  useEffect(() => {
+    const onRefreshed = (e: Event) => {
+      const next = (e as CustomEvent<{ token: string }>).detail?.token;
+      if (next) setToken(next);
+    };
+    window.addEventListener(TOKEN_REFRESHED_EVENT, onRefreshed);
+    return () => window.removeEventListener(TOKEN_REFRESHED_EVENT, onRefreshed);
+  }, []);
+
+  // pages that send `token` from context directly never hit the 401 retry,
+  // so renew it in the background while signed in
+  useEffect(() => {
+    if (!token) return;
+    const id = window.setInterval(() => {
+      ensureFreshToken();
+    }, KEEP_ALIVE_MS);
+    return () => window.clearInterval(id);
+  }, [token]);
+
+  const login = (newToken: string, newUser: User, refreshToken?: string) => {
     try { clearToasts(); } catch {}
     localStorage.setItem(TOKEN_KEY, newToken);
     localStorage.setItem(USER_KEY, JSON.stringify(newUser));
     setToken(newToken);
     setUser(newUser);
     apiClient.setToken(newToken); // future requests authorized
+    apiClient.setRefreshToken(refreshToken || null);
+    mergeAnonymousViews(newToken); // fire-and-forget
   };
 
   const logout = () => {
     try { clearToasts(); } catch {}
+    // end the server-side session; fire-and-forget
+    const refreshToken = apiClient.getRefreshToken();
+    if (refreshToken) {
+      fetch(apiClient.createUrl("auth/logout"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      }).catch(() => {});
+    }
     localStorage.removeItem(TOKEN_KEY);
     localStorage.removeItem(USER_KEY);
     setToken(null);
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import { MAX_COMPARE } from "@shared/compare";
+
+export interface CompareItem {
+  _id: string;
+  title: string;
+  image?: string | null;
+  price?: number;
+  priceType?: string;
+}
+
+const STORAGE_KEY = "compareTray";
+const CHANGE_EVENT = "compare-tray-change";
+
+function readTray(): CompareItem[] {
+  try {
+    const items = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(items) ? items.filter((i) => i && i._id).slice(0, MAX_COMPARE) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeTray(items: CompareItem[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items.slice(0, MAX_COMPARE)));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** Properties picked for comparison, kept in localStorage so the tray follows the buyer across pages and tabs. */
+export const useCompareTray = () => {
+  const [items, setItems] = useState<CompareItem[]>(readTray);
+
+  useEffect(() => {
+    const sync = () => setItems(readTray());
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+
+  const has = useCallback((id: string) => items.some((i) => i._id === id), [items]);
+
+  // false when the tray is already full
+  const add = useCallback((item: CompareItem) => {
+    const current = readTray();
+    if (current.some((i) => i._id === item._id)) return true;
+    if (current.length >= MAX_COMPARE) return false;
+    writeTray([...current, item]);
+    return true;
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    writeTray(readTray().filter((i) => i._id !== id));
+  }, []);
+
+  const clear = useCallback(() => writeTray([]), []);
+
+  return { items, has, add, remove, clear, isFull: items.length >= MAX_COMPARE };
+};
@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api } from "@/lib/api";
+import { acquireChatSocket, releaseChatSocket } from "@/lib/chatSocket";
+import {
+  ConversationMessage,
+  MESSAGE_POLL_SECONDS,
+  MessageReceipt,
+  MessageStatus,
+  PresenceEvent,
+  TypingEvent,
+} from "@shared/messaging";
+
+export type ThreadMessage = ConversationMessage & { pending?: "sending" | "failed" };
+
+const SEND_TIMEOUT_MS = 10000;
+const TYPING_THROTTLE_MS = 2000;
+
+const normalize = (m: any): ThreadMessage => ({
+  ...m,
+  _id: String(m._id),
+  conversationId: String(m.conversationId),
+  senderId: String(m.senderId || m.sender || ""),
+  text: m.text ?? m.message ?? "",
+  createdAt: m.createdAt ? new Date(m.createdAt).toISOString() : new Date().toISOString(),
+});
+
+/** Where a message the user sent has got to, from the other participants' receipts. */
+export function messageStatus(m: ThreadMessage, meId: string): MessageStatus {
+  if (m.pending) return m.pending;
+  if (m.readBy?.some((r) => r.userId !== meId)) return "read";
+  if (m.deliveredTo?.some((r) => r.userId !== meId)) return "delivered";
+  return "sent";
+}
+
+function applyReceipt(messages: ThreadMessage[], receipt: MessageReceipt): ThreadMessage[] {
+  const ids = new Set(receipt.messageIds);
+  return messages.map((m) => {
+    if (!ids.has(m._id)) return m;
+    const next = { ...m };
+    if (!next.deliveredTo?.some((r) => r.userId === receipt.userId)) {
+      next.deliveredTo = [...(next.deliveredTo || []), { userId: receipt.userId, deliveredAt: receipt.at }];
+    }
+    if (receipt.type === "read" && !next.readBy?.some((r) => r.userId === receipt.userId)) {
+      next.readBy = [...(next.readBy || []), { userId: receipt.userId, readAt: receipt.at }];
+    }
+    return next;
+  });
+}
+
+/**
+ * Messages, receipts, typing and presence for one conversation over the
+ * shared chat socket. While the socket is down it polls and sends over REST,
+ * which read and write the same storage.
+ */
+export function useConversationChannel(
+  conversationId: string | undefined,
+  token: string | null | undefined,
+  meId: string,
+) {
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [connected, setConnected] = useState(false);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+  const socketRef = useRef<ReturnType<typeof acquireChatSocket> | null>(null);
+  const lastTypingSent = useRef(0);
+
+  const load = useCallback(async () => {
+    if (!conversationId || !token) return;
+    const res = await api.get(`conversations/${conversationId}/messages`, token);
+    if (!res.success) {
+      setError(res.error || "Failed to load messages");
+      return;
+    }
+    setError("");
+    const loaded: ThreadMessage[] = (res.data?.items || []).map(normalize);
+    // keep anything still on its way out
+    setMessages((prev) => [...loaded, ...prev.filter((m) => m.pending)]);
+  }, [conversationId, token]);
+
+  useEffect(() => {
+    setMessages([]);
+    setLoading(true);
+    load().finally(() => setLoading(false));
+  }, [load]);
+
+  useEffect(() => {
+    if (!conversationId || !token) return;
+    const socket = acquireChatSocket(token);
+    socketRef.current = socket;
+
+    const join = () => {
+      setConnected(true);
+      socket.emit("conversation:join", conversationId, (res: any) => {
+        if (res?.success) setOnlineUserIds(res.online || []);
+      });
+      load(); // catch up on anything sent while disconnected
+    };
+
+    const onMessage = (raw: any) => {
+      const msg = normalize(raw);
+      if (msg.senderId === meId) {
+        if (msg.conversationId !== conversationId) return;
+        setMessages((prev) => {
+          if (prev.some((m) => m._id === msg._id)) return prev;
+          // our own echo may beat the send ack; swap it in for the pending copy
+          const i = prev.findIndex((m) => m.pending === "sending" && m.text === msg.text);
+          return i === -1 ? [...prev, msg] : prev.map((m, j) => (j === i ? msg : m));
+        });
+        return;
+      }
+
+      if (msg.conversationId !== conversationId) {
+        socket.emit("message:delivered", { conversationId: msg.conversationId, messageIds: [msg._id] });
+        return;
+      }
+      setMessages((prev) => (prev.some((m) => m._id === msg._id) ? prev : [...prev, msg]));
+      setTypingUserIds((prev) => prev.filter((id) => id !== msg.senderId));
+      if (document.visibilityState === "visible") {
+        socket.emit("message:read", { conversationId });
+      } else {
+        socket.emit("message:delivered", { conversationId, messageIds: [msg._id] });
+      }
+    };
+
+    const onReceipt = (receipt: MessageReceipt) => {
+      if (receipt.conversationId !== conversationId || receipt.userId === meId) return;
+      setMessages((prev) => applyReceipt(prev, receipt));
+    };
+
+    const onTyping = (e: TypingEvent) => {
+      if (e.conversationId !== conversationId || e.userId === meId) return;
+      setTypingUserIds((prev) =>
+        e.isTyping ? Array.from(new Set([...prev, e.userId])) : prev.filter((id) => id !== e.userId),
+      );
+    };
+
+    const onPresence = (e: PresenceEvent) => {
+      setOnlineUserIds((prev) =>
+        e.online ? Array.from(new Set([...prev, e.userId])) : prev.filter((id) => id !== e.userId),
+      );
+      if (!e.online) setTypingUserIds((prev) => prev.filter((id) => id !== e.userId));
+    };
+
+    const onDisconnect = () => {
+      setConnected(false);
+      setTypingUserIds([]);
+    };
+
+    if (socket.connected) join();
+    socket.on("connect", join);
+    socket.on("disconnect", onDisconnect);
+    socket.on("message:new", onMessage);
+    socket.on("message:receipt", onReceipt);
+    socket.on("typing", onTyping);
+    socket.on("presence", onPresence);
+
+    return () => {
+      socket.emit("conversation:leave", conversationId);
+      socket.off("connect", join);
+      socket.off("disconnect", onDisconnect);
+      socket.off("message:new", onMessage);
+      socket.off("message:receipt", onReceipt);
+      socket.off("typing", onTyping);
+      socket.off("presence", onPresence);
+      socketRef.current = null;
+      setConnected(false);
+      releaseChatSocket();
+    };
+  }, [conversationId, token, meId, load]);
+
+  // REST fallback while the socket is unavailable
+  useEffect(() => {
+    if (connected || !conversationId || !token) return;
+    const interval = setInterval(load, MESSAGE_POLL_SECONDS * 1000);
+    return () => clearInterval(interval);
+  }, [connected, conversationId, token, load]);
+
+  const markRead = useCallback(async () => {
+    if (!conversationId || !token) return;
+    if (socketRef.current?.connected) {
+      socketRef.current.emit("message:read", { conversationId });
+    } else {
+      await api.post(`conversations/${conversationId}/read`, {}, token);
+    }
+  }, [conversationId, token]);
+
+  const setTyping = useCallback(
+    (isTyping: boolean) => {
+      const socket = socketRef.current;
+      if (!socket?.connected || !conversationId) return;
+      const now = Date.now();
+      if (isTyping && now - lastTypingSent.current < TYPING_THROTTLE_MS) return;
+      lastTypingSent.current = isTyping ? now : 0;
+      socket.emit("typing", { conversationId, isTyping });
+    },
+    [conversationId],
+  );
+
+  /** Resolves with an error message, or null once the server has stored it. */
+  const send = useCallback(
+    async (text: string): Promise<string | null> => {
+      if (!conversationId || !token || !text.trim()) return null;
+      const tempId = `pending-${Date.now()}`;
+      setMessages((prev) => [
+        ...prev,
+        {
+          _id: tempId,
+          conversationId,
+          senderId: meId,
+          text: text.trim(),
+          createdAt: new Date().toISOString(),
+          pending: "sending",
+        },
+      ]);
+
+      const settle = (saved: any | null) =>
+        setMessages((prev) => {
+          if (!saved) return prev.map((m) => (m._id === tempId ? { ...m, pending: "failed" } : m));
+          const msg = normalize(saved);
+          const rest = prev.filter((m) => m._id !== tempId);
+          return rest.some((m) => m._id === msg._id) ? rest : [...rest, msg];
+        });
+
+      const socket = socketRef.current;
+      if (socket?.connected) {
+        return new Promise((resolve) => {
+          socket
+            .timeout(SEND_TIMEOUT_MS)
+            .emit("message:send", { conversationId, text }, (err: any, res: any) => {
+              const ok = !err && res?.success;
+              settle(ok ? res.data : null);
+              resolve(ok ? null : res?.error || "Failed to send message");
+            });
+        });
+      }
+
+      const res = await api.post(`conversations/${conversationId}/messages`, { text }, token);
+      settle(res.success ? res.data : null);
+      return res.success ? null : res.error || "Failed to send message";
+    },
+    [conversationId, token, meId],
+  );
+
+  return {
+    messages,
+    loading,
+    error,
+    connected,
+    typingUserIds,
+    onlineUserIds,
+    send,
+    setTyping,
+    markRead,
+    reload: load,
+  };
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import { getRolePermissions } from "../utils/permissions";
+
+/**
+ * Effective permissions of the signed-in staff member as enforced by the
+ * admin API (role set plus any custom permissions). Falls back to the role
+ * table until the server answers.
+ */
+export const useStaffPermissions = (role?: string) => {
+  const [permissions, setPermissions] = useState<string[]>(() =>
+    getRolePermissions(role || "admin"),
+  );
+
+  useEffect(() => {
+    let active = true;
+
+    (async () => {
+      try {
+        const response = await api.get("/admin/me/permissions");
+        if (active && response.success && Array.isArray(response.data?.permissions)) {
+          setPermissions(response.data.permissions);
+        }
+      } catch (e: any) {
+        console.warn("staff permissions fetch failed:", e?.message || e);
+      }
+    })();
+
+    return () => {
+      active = false;
+    };
+  }, [role]);
+
+  return permissions;
+};
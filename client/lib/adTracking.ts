@@ -0,0 +1,103 @@
+// client/lib/adTracking.ts
+// Batches ad impressions/clicks and ships them to /api/ads/track with
+// navigator.sendBeacon, so a click that navigates away still gets counted.
+// The server de-duplicates per session and day; the in-memory `seen` set just
+// saves sending the same event twice from one page view.
+
+export type AdSource = "banner" | "new_project_banner" | "homepage_slider" | "ad_slot";
+
+export interface AdRef {
+  source: AdSource;
+  adId: string;
+  slot?: string; // placement, e.g. the banner position or AdSense slot key
+}
+
+type AdEvent = AdRef & { type: "impression" | "click" };
+
+const ENDPOINT = "/api/ads/track";
+const SESSION_KEY = "adSessionId";
+const FLUSH_DELAY_MS = 2000;
+const MAX_BATCH = 50;
+
+let queue: AdEvent[] = [];
+let timer: ReturnType<typeof setTimeout> | null = null;
+const seen = new Set<string>();
+
+const randomId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID().replace(/-/g, "")
+    : `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 12)}`;
+
+/** One id per browser tab session; survives reloads, not new tabs. */
+export function getAdSessionId(): string {
+  try {
+    let id = sessionStorage.getItem(SESSION_KEY);
+    if (!id) {
+      id = randomId();
+      sessionStorage.setItem(SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    // storage blocked (private mode); fall back to a per-page id
+    return (window as any).__adSessionId || ((window as any).__adSessionId = randomId());
+  }
+}
+
+// Fallback ids like "ad-default-1" are placeholders, not sold inventory
+const isTrackable = (ref: AdRef | null | undefined): ref is AdRef =>
+  !!ref?.adId && !/^ad-default-/.test(ref.adId);
+
+export function flushAdEvents() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  while (queue.length) {
+    const events = queue.splice(0, MAX_BATCH);
+    const body = JSON.stringify({ sessionId: getAdSessionId(), events });
+    try {
+      const sent =
+        typeof navigator !== "undefined" &&
+        typeof navigator.sendBeacon === "function" &&
+        navigator.sendBeacon(ENDPOINT, new Blob([body], { type: "application/json" }));
+      if (!sent) {
+        fetch(ENDPOINT, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+          keepalive: true,
+        }).catch(() => {});
+      }
+    } catch {
+      // tracking must never break the page
+    }
+  }
+}
+
+function enqueue(event: AdEvent) {
+  const key = `${event.type}:${event.source}:${event.adId}:${event.slot || ""}`;
+  if (seen.has(key)) return;
+  seen.add(key);
+  queue.push(event);
+
+  if (event.type === "click" || queue.length >= MAX_BATCH) {
+    flushAdEvents();
+  } else if (!timer) {
+    timer = setTimeout(flushAdEvents, FLUSH_DELAY_MS);
+  }
+}
+
+export function trackAdImpression(ref: AdRef | null | undefined) {
+  if (isTrackable(ref)) enqueue({ ...ref, type: "impression" });
+}
+
+export function trackAdClick(ref: AdRef | null | undefined) {
+  if (isTrackable(ref)) enqueue({ ...ref, type: "click" });
+}
+
+if (typeof document !== "undefined") {
+  // last chance to send what's queued before the tab goes away
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushAdEvents();
+  });
+}
@@ -1,3 +1,5 @@
+import { ensureFreshToken, refreshAccessToken } from "./apiClient";
+
 /* =========================
    Environment detection
 ========================= */
@@ -110,7 +112,8 @@ const getStoredToken = (): string | null => {
 export const apiRequest = async (
   endpoint: string,
   options: RequestInit = {},
-  retryCount = 0
+  retryCount = 0,
+  refreshed = false
 ): Promise<{ data: any; status: number; ok: boolean }> => {
   const url = createApiUrl(endpoint);
 
@@ -143,8 +146,17 @@ export const apiRequest = async (
   }, finalTimeout);
 
   try {
-    const callerHeaders = (options.headers as Record<string, string>) ?? {};
+    let callerHeaders = (options.headers as Record<string, string>) ?? {};
+    // Short-lived access tokens are refreshed before they lapse. Callers that
+    // pass the stored token explicitly get the refreshed one substituted.
+    const before = getStoredToken();
+    const usesStoredToken =
+      !("Authorization" in callerHeaders) || callerHeaders.Authorization === `Bearer ${before}`;
+    if (usesStoredToken) await ensureFreshToken();
     const stored = getStoredToken();
+    if (usesStoredToken && "Authorization" in callerHeaders && stored) {
+      callerHeaders = { ...callerHeaders, Authorization: `Bearer ${stored}` };
+    }
 
     const defaultHeaders: Record<string, string> = {};
     const hasBody = options.body !== undefined && options.body !== null;
@@ -185,6 +197,22 @@ export const apiRequest = async (
       }
     }
 
+    if (
+      response.status === 401 &&
+      responseData?.code === "TOKEN_EXPIRED" &&
+      !refreshed &&
+      usesStoredToken
+    ) {
+      const fresh = await refreshAccessToken();
+      if (fresh) {
+        const headers =
+          "Authorization" in callerHeaders
+            ? { ...callerHeaders, Authorization: `Bearer ${fresh}` }
+            : callerHeaders;
+        return apiRequest(endpoint, { ...options, headers }, retryCount, true);
+      }
+    }
+
     return { data: responseData, status: response.status, ok: response.ok };
   } catch (error: any) {
     clearTimeout(timeoutId);
@@ -198,7 +226,7 @@ export const apiRequest = async (
 
     if (retriable && retryCount < API_CONFIG.retryAttempts) {
       await new Promise((r) => setTimeout(r, API_CONFIG.retryDelay));
-      return apiRequest(endpoint, options, retryCount + 1);
+      return apiRequest(endpoint, options, retryCount + 1, refreshed);
     }
 
     const isBuilderPreviewNoApi =
@@ -0,0 +1,33 @@
+import { io, Socket } from "socket.io-client";
+
+// One socket per signed-in tab, shared by every chat screen; see
+// shared/messaging for the events. Closed when the last user releases it.
+let socket: Socket | null = null;
+let socketToken: string | null = null;
+let holders = 0;
+
+export function acquireChatSocket(token: string): Socket {
+  if (socket && socketToken !== token) {
+    socket.disconnect();
+    socket = null;
+  }
+  if (!socket) {
+    socket = io(window.location.origin, {
+      auth: { token },
+      transports: ["websocket", "polling"],
+      reconnectionDelayMax: 10000,
+    });
+    socketToken = token;
+  }
+  holders += 1;
+  return socket;
+}
+
+export function releaseChatSocket() {
+  holders = Math.max(0, holders - 1);
+  if (holders === 0 && socket) {
+    socket.disconnect();
+    socket = null;
+    socketToken = null;
+  }
+}
@@ -86,3 +86,23 @@ export async function subscribeTokenToGeneralTopic(token: string) {
     console.warn("Topic subscribe failed (non-fatal):", e);
   }
 }
+
+// Link this device to the logged-in account so the server can send
+// personal pushes (saved-search alerts etc.). No-op for guests.
+export async function registerTokenWithAccount(token: string) {
+  try {
+    const authToken =
+      localStorage.getItem("token") || localStorage.getItem("authToken");
+    if (!authToken) return;
+    await fetch("/api/notifications/register-device", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${authToken}`,
+      },
+      body: JSON.stringify({ token }),
+    });
+  } catch (e) {
+    console.warn("Device registration failed (non-fatal):", e);
+  }
+}
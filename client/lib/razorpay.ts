@@ -10,8 +10,12 @@ declare global {
 }
 
 type StartRazorpayOpts = {
-  packageId: string;
+  packageId?: string;
   propertyId?: string;
+  campaignId?: string; // pay for a booked banner campaign instead of a package
+  description?: string;
+  onSuccess?: () => void; // replaces the default "Payment successful" alert
+  onDismiss?: () => void;
   authToken?: string; // if your api wrapper auto-adds token, you can skip this
   prefill?: {
     name?: string;
@@ -51,29 +55,31 @@ async function ensureRazorpayLoaded() {
  * Then open checkout and on success, POST /api/payments/razorpay/verify
  */
 export async function startRazorpayPayment(opts: StartRazorpayOpts): Promise<{ ok: boolean; error?: string }> {
-  const { packageId, propertyId, prefill } = opts;
+  const { packageId, propertyId, campaignId, prefill } = opts;
 
   await ensureRazorpayLoaded();
 
   // 1) create order from backend
   let createResp;
   try {
-    createResp = await api.post("payments/razorpay/create", {
-      packageId,
-      propertyId,
-    });
+    createResp = await api.post(
+      "payments/razorpay/create",
+      campaignId ? { campaignId } : { packageId, propertyId },
+    );
   } catch (e: any) {
     console.error("create order failed:", e);
     return { ok: false, error: e?.message || "Failed to create order" };
   }
 
+  // api unwraps { success, data } already; tolerate the nested shape too
   const payload = createResp?.data;
-  if (!payload?.success || !payload?.data?.razorpayOrderId) {
-    const msg = payload?.error || "Failed to create order";
+  const order = payload?.data?.razorpayOrderId ? payload.data : payload;
+  if (!payload?.success || !order?.razorpayOrderId) {
+    const msg = payload?.error || createResp?.error || "Failed to create order";
     return { ok: false, error: msg };
   }
 
-  const { razorpayOrderId, amount, currency, keyId, transactionId } = payload.data;
+  const { razorpayOrderId, amount, currency, keyId, transactionId } = order;
 
   // 2) open Razorpay checkout
   const rzpOptions = {
@@ -81,7 +87,7 @@ export async function startRazorpayPayment(opts: StartRazorpayOpts): Promise<{ o
     amount, // in paise
     currency: currency || "INR",
     name: "Ashish Properties",
-    description: "Package purchase",
+    description: opts.description || "Package purchase",
     order_id: razorpayOrderId,
     prefill: {
       name: prefill?.name || "Customer",
@@ -104,8 +110,8 @@ export async function startRazorpayPayment(opts: StartRazorpayOpts): Promise<{ o
         });
         const vr = verifyResp?.data;
         if (vr?.success) {
-          alert("Payment successful ✅");
-          // TODO: redirect/update UI if needed
+          if (opts.onSuccess) opts.onSuccess();
+          else alert("Payment successful ✅");
         } else {
           alert(vr?.error || "Verification failed");
         }
@@ -117,12 +123,14 @@ export async function startRazorpayPayment(opts: StartRazorpayOpts): Promise<{ o
     modal: {
       ondismiss: function () {
         console.log("Razorpay modal closed by user");
+        opts.onDismiss?.();
       },
     },
     notes: {
       transactionId,
-      packageId,
+      packageId: packageId || "none",
       propertyId: propertyId || "none",
+      campaignId: campaignId || "none",
     },
   };
 
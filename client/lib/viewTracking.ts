@@ -0,0 +1,170 @@
+// client/lib/viewTracking.ts
+// Recently viewed history. A property page opens a view with /api/views/start
+// and then beats every VIEW_HEARTBEAT_SECONDS while the tab is visible; the
+// server turns the gaps between beats into dwell time. Signed-out browsers are
+// keyed by a visitor id in localStorage, merged into the account on login.
+//
+// We also remember the last listing/search page the visitor was on, so the
+// session a view lands in can show the search that led there.
+import { VIEW_HEARTBEAT_SECONDS, ViewSearchContext } from "@shared/viewHistory";
+
+const VISITOR_KEY = "viewVisitorId";
+const SESSION_KEY = "viewSessionId";
+const SEARCH_KEY = "viewSearchContext";
+
+// pages whose query string describes a search
+const SEARCH_PATHS = /^\/(properties|search|buy|rent|sale|listings|categories)(\/|$)/;
+const QUERY_PARAMS = ["q", "search", "query", "keyword"];
+
+let previousPath = "";
+let currentPath = "";
+
+const randomId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID().replace(/-/g, "")
+    : `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 12)}`;
+
+function stored(storage: () => Storage, key: string, fallback: string): string {
+  try {
+    let id = storage().getItem(key);
+    if (!id) {
+      id = randomId();
+      storage().setItem(key, id);
+    }
+    return id;
+  } catch {
+    // storage blocked (private mode); fall back to a per-page id
+    return (window as any)[fallback] || ((window as any)[fallback] = randomId());
+  }
+}
+
+/** Identifies a signed-out browser across visits until it logs in. */
+export const getVisitorId = () => stored(() => localStorage, VISITOR_KEY, "__viewVisitorId");
+
+/** One browsing session id per tab. */
+const getTabSessionId = () => stored(() => sessionStorage, SESSION_KEY, "__viewSessionId");
+
+/** Call on every route change; remembers the previous page and the last search. */
+export function noteNavigation(location: { pathname: string; search: string }) {
+  const path = location.pathname + location.search;
+  if (path === currentPath) return;
+  previousPath = currentPath;
+  currentPath = path;
+
+  if (!SEARCH_PATHS.test(location.pathname)) return;
+  const params = new URLSearchParams(location.search);
+  const filters: Record<string, string> = {};
+  let query = "";
+  params.forEach((value, key) => {
+    if (!value || key === "page") return;
+    if (QUERY_PARAMS.includes(key)) query = query || value;
+    else filters[key] = value;
+  });
+  const context: ViewSearchContext = { path, ...(query ? { query } : {}), filters };
+  try {
+    sessionStorage.setItem(SEARCH_KEY, JSON.stringify(context));
+  } catch {}
+}
+
+function lastSearch(): ViewSearchContext | null {
+  try {
+    return JSON.parse(sessionStorage.getItem(SEARCH_KEY) || "null");
+  } catch {
+    return null;
+  }
+}
+
+function post(endpoint: string, payload: object, token?: string | null, beacon = false) {
+  const body = JSON.stringify(payload);
+  if (beacon && !token && typeof navigator !== "undefined" && navigator.sendBeacon) {
+    if (navigator.sendBeacon(endpoint, new Blob([body], { type: "application/json" }))) {
+      return Promise.resolve(null);
+    }
+  }
+  return fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body,
+    keepalive: beacon,
+  })
+    .then((r) => (r.ok ? r.json() : null))
+    .catch(() => null);
+}
+
+/**
+ * Start tracking a view of `propertyId`. Returns a stop function for the
+ * page's effect cleanup, which sends the final beat.
+ */
+export function startPropertyView(propertyId: string, token?: string | null): () => void {
+  let viewId: string | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let stopped = false;
+
+  const beat = (resume = false, final = false) => {
+    if (viewId) post("/api/views/heartbeat", { viewId, ...(resume ? { resume } : {}) }, null, final);
+  };
+  const run = () => {
+    if (!timer) timer = setInterval(() => beat(), VIEW_HEARTBEAT_SECONDS * 1000);
+  };
+  const pause = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+  const onVisibility = () => {
+    if (document.visibilityState === "hidden") {
+      beat(false, true);
+      pause();
+    } else {
+      beat(true);
+      run();
+    }
+  };
+  const onPageHide = () => beat(false, true);
+
+  const search = lastSearch();
+  post(
+    "/api/views/start",
+    {
+      propertyId,
+      sessionId: getTabSessionId(),
+      ...(token ? {} : { visitorId: getVisitorId() }),
+      referrer: previousPath || document.referrer || undefined,
+      search: search && previousPath === search.path ? search : null,
+    },
+    token,
+  ).then((res: any) => {
+    viewId = res?.data?.viewId || null;
+    if (!viewId || stopped) return;
+    document.addEventListener("visibilitychange", onVisibility);
+    window.addEventListener("pagehide", onPageHide);
+    if (document.visibilityState === "visible") run();
+  });
+
+  return () => {
+    stopped = true;
+    pause();
+    document.removeEventListener("visibilitychange", onVisibility);
+    window.removeEventListener("pagehide", onPageHide);
+    beat(false, true);
+  };
+}
+
+/** Move this browser's anonymous history into the account just signed in to. */
+export function mergeAnonymousViews(token: string) {
+  let visitorId: string | null = null;
+  try {
+    visitorId = localStorage.getItem(VISITOR_KEY);
+  } catch {}
+  if (!visitorId) return;
+  post("/api/user/recent-views/merge", { visitorId }, token).then((res: any) => {
+    // a fresh id from here on; the old one now belongs to the account
+    if (res?.success) {
+      try {
+        localStorage.removeItem(VISITOR_KEY);
+      } catch {}
+    }
+  });
+}
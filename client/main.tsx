@@ -38,6 +38,7 @@ import {
   getFcmToken,
   listenForegroundNotifications,
   subscribeTokenToGeneralTopic,
+  registerTokenWithAccount,
 } from "./lib/messaging";
 
 function bootstrapApp() {
@@ -52,6 +53,7 @@ function bootstrapApp() {
       const token = await getFcmToken();
       if (token) {
         subscribeTokenToGeneralTopic(token);
+        registerTokenWithAccount(token);
         listenForegroundNotifications();
       }
     }, 1500);
@@ -46,6 +46,7 @@ import AdminSettings from "../components/admin/AdminSettings";
 import AdminTestingDashboard from "../components/admin/AdminTestingDashboard";
 import TestSellerNotification from "../components/admin/TestSellerNotification";
 import UserAnalytics from "../components/admin/UserAnalytics";
+import MarketInsightsDashboard from "../components/admin/MarketInsightsDashboard";
 import NotificationManagement from "../components/admin/NotificationManagement";
 import SystemUpdate from "../components/admin/SystemUpdate";
 import AdvertisementListingPackage from "../components/admin/AdvertisementListingPackage";
@@ -72,8 +73,13 @@ import PendingPropertiesApproval from "../components/admin/PendingPropertiesAppr
 import OtherServicesManagement from "../components/admin/OtherServicesManagement";
 import SupportInbox from "../components/admin/SupportInbox";
 import AdvertisementSubmissionsManagement from "../components/admin/AdvertisementSubmissionsManagement";
+import AdCampaignsManagement from "../components/admin/AdCampaignsManagement";
+import PaymentReconciliation from "../components/admin/PaymentReconciliation";
 import AdminBlogManagement from "../components/admin/AdminBlogManagement";
 import FreeAdLimitSettings from "../components/admin/FreeAdLimitSettings";
+import ListingExpirySettings from "../components/admin/ListingExpirySettings";
+import ScheduledJobsManagement from "../components/admin/ScheduledJobsManagement";
+import AuditLogViewer from "../components/admin/AuditLogViewer";
 import {
   Table,
   TableBody,
@@ -1107,6 +1113,8 @@ export default function Admin() {
           return <AllUsersManagement />;
         case "user-analytics":
           return <UserAnalytics />;
+        case "market-insights":
+          return <MarketInsightsDashboard />;
         case "ads-listing":
           return <CompletePropertyManagement />;
         case "deleted-ads":
@@ -1141,6 +1149,8 @@ export default function Admin() {
           return <ManualPaymentApproval />;
         case "bank-transfer":
           return <BankTransferManagement />;
+        case "payment-reconciliation":
+          return <PaymentReconciliation token={token} />;
         case "seller-management":
           return <UserManagement />;
         case "verification-fields":
@@ -1188,10 +1198,14 @@ export default function Admin() {
           return <AllUsersManagement />;
         case "advertisement-submissions":
           return <AdvertisementSubmissionsManagement token={token} />;
+        case "ad-campaigns":
+          return <AdCampaignsManagement token={token} />;
         case "role":
           return <StaffManagement />;
         case "staff-management":
           return <StaffManagement />;
+        case "audit-log":
+          return <AuditLogViewer />;
         case "blog-management":
           return <AdminBlogManagement />;
         case "blogs":
@@ -1204,6 +1218,8 @@ export default function Admin() {
           return <TestimonialManagement />;
         case "free-ad-limit-settings":
           return <FreeAdLimitSettings />;
+        case "listing-expiry-settings":
+          return <ListingExpirySettings />;
         case "settings":
           return <AdminSettings />;
         case "testing":
@@ -1216,6 +1232,8 @@ export default function Admin() {
           return <AuthDebug />;
         case "system-status":
           return <SystemStatus />;
+        case "scheduled-jobs":
+          return <ScheduledJobsManagement />;
         case "content-management":
           return <ContentManagement />;
         case "pages":
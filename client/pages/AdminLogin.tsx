@@ -47,17 +47,20 @@ export default function AdminLogin() {
 
       const user =
         (data as any)?.data?.user || (data as any)?.user || null;
+      const refreshToken =
+        (data as any)?.data?.refreshToken || (data as any)?.refreshToken;
 
       if (!token) throw new Error("Token missing in response");
 
       // ✅ persist token so hard refresh stays logged-in
       localStorage.setItem("adminToken", token);
       apiClient.setToken(token); // hydrate current session too
+      apiClient.setRefreshToken(refreshToken || null);
 
       // your existing auth context (if it stores user etc.)
       if (typeof login === "function") {
         // keep signature consistent with your hook
-        try { login(token, user); } catch { /* ignore if signature differs */ }
+        try { login(token, user, refreshToken); } catch { /* ignore if signature differs */ }
       }
 
       // go to admin home
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from "react";
 import { useAuth } from "../hooks/useAuth";
 import { useNavigate, Link } from "react-router-dom";
 import { Property } from "@shared/types";
+import { AgentSummary } from "@shared/agentClients";
 import { api } from "../lib/api";
 import { Button } from "../components/ui/button";
 import {
@@ -33,12 +34,14 @@ import {
 } from "lucide-react";
 import OLXStyleHeader from "../components/OLXStyleHeader";
 import BottomNavigation from "../components/BottomNavigation";
+import SellerVerificationCard from "../components/SellerVerificationCard";
 
 export default function AgentDashboard() {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
   const [properties, setProperties] = useState<Property[]>([]);
   const [clients, setClients] = useState<any[]>([]);
+  const [summary, setSummary] = useState<AgentSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [stats, setStats] = useState({
@@ -84,61 +87,39 @@ export default function AgentDashboard() {
         return;
       }
 
-      // Fetch agent's properties
-      const response = await api.get("/user/properties", token);
-      if (response.data.success) {
-        const agentProperties = response.data.data as Property[];
-        setProperties(agentProperties);
+      const [response, summaryRes] = await Promise.all([
+        api.get("/user/properties", token),
+        api.get("/agent/summary", token),
+      ]);
+      if (response.success) {
+        setProperties((response.data.items || []) as Property[]);
+      }
 
-        // Calculate agent-specific stats
-        const activeListings = agentProperties.filter(
-          (p) => p.status === "active" && p.approvalStatus === "approved",
-        ).length;
-        const totalViews = agentProperties.reduce(
-          (sum, prop) => sum + prop.views,
-          0,
+      if (summaryRes.success) {
+        const summary = summaryRes.data as AgentSummary;
+        setSummary(summary);
+        setStats((prev) => ({
+          ...prev,
+          totalProperties: summary.listings.total,
+          activeListings: summary.listings.active,
+          totalClients: summary.clients.total,
+          closedDeals: summary.deals.closed,
+          pendingInquiries: summary.listings.inquiries,
+          thisMonthDeals: summary.deals.closedThisMonth,
+          totalCommission: summary.commission.earned,
+        }));
+        setClients(
+          summary.recentClients.map((c) => ({
+            id: c._id,
+            name: c.name,
+            type: c.userType === "seller" ? "Seller" : "Buyer",
+            status: c.status.charAt(0).toUpperCase() + c.status.slice(1),
+            lastContact: c.lastContact
+              ? new Date(c.lastContact).toLocaleDateString()
+              : "",
+          })),
         );
-        const totalInquiries = agentProperties.reduce(
-          (sum, prop) => sum + prop.inquiries,
-          0,
-        );
-
-        setStats({
-          totalProperties: agentProperties.length,
-          activeListings,
-          totalClients: 25, // Mock data
-          closedDeals: 12, // Mock data
-          pendingInquiries: totalInquiries,
-          thisMonthDeals: 3, // Mock data
-          totalCommission: 450000, // Mock data
-          rating: 4.5, // Mock data
-        });
       }
-
-      // Mock client data for demonstration
-      setClients([
-        {
-          id: 1,
-          name: "Rajesh Kumar",
-          type: "Buyer",
-          status: "Active",
-          lastContact: "2024-01-15",
-        },
-        {
-          id: 2,
-          name: "Priya Sharma",
-          type: "Seller",
-          status: "Closed",
-          lastContact: "2024-01-14",
-        },
-        {
-          id: 3,
-          name: "Amit Singh",
-          type: "Buyer",
-          status: "Active",
-          lastContact: "2024-01-13",
-        },
-      ]);
     } catch (error: any) {
       console.error("Error fetching agent data:", error);
       if (error.message.includes("401") || error.message.includes("403")) {
@@ -345,14 +326,75 @@ export default function AgentDashboard() {
               </div>
               <div className="text-center p-4 bg-purple-50 rounded-lg">
                 <div className="text-2xl font-bold text-purple-600">
-                  {((stats.closedDeals / stats.totalClients) * 100).toFixed(1)}%
+                  {(summary?.leads.conversionRate ?? 0).toFixed(1)}%
                 </div>
-                <p className="text-sm text-purple-700">Conversion Rate</p>
+                <p className="text-sm text-purple-700">Lead Conversion Rate</p>
               </div>
             </div>
+            {summary && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6 text-sm">
+                <div>
+                  <p className="text-gray-500">Commission received</p>
+                  <p className="font-semibold">
+                    ₹{summary.commission.received.toLocaleString()}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Commission due</p>
+                  <p className="font-semibold">
+                    ₹{summary.commission.pending.toLocaleString()}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Expected from open deals</p>
+                  <p className="font-semibold">
+                    ₹{summary.commission.expected.toLocaleString()}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Follow-ups due</p>
+                  <p className="font-semibold">
+                    {summary.leads.followupsDue} leads ({summary.leads.hot} hot)
+                  </p>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        <SellerVerificationCard
+          getToken={async () => localStorage.getItem("token")}
+          isAgent
+        />
+
+        {/* Deal Pipeline */}
+        {summary && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Deal Pipeline</CardTitle>
+              <Link to="/clients">
+                <Button variant="outline" size="sm">
+                  Manage Deals
+                </Button>
+              </Link>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {summary.pipeline.map((s) => (
+                  <div key={s.stage} className="p-4 border border-gray-200 rounded-lg">
+                    <p className="text-sm text-gray-500">{s.label}</p>
+                    <p className="text-2xl font-bold">{s.count}</p>
+                    <p className="text-xs text-gray-500">
+                      ₹{s.value.toLocaleString()} · ₹
+                      {s.commission.toLocaleString()} commission
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Agent Profile */}
         <Card>
           <CardHeader>
@@ -0,0 +1,488 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { CalendarDays, Loader2, Upload, CheckCircle2 } from "lucide-react";
+import Header from "../components/Header";
+import BottomNavigation from "../components/BottomNavigation";
+import StaticFooter from "../components/StaticFooter";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { useToast } from "../components/ui/use-toast";
+import { useAuth } from "../hooks/useAuth";
+import { startRazorpayPayment } from "../lib/razorpay";
+import {
+  AdCampaign,
+  BannerSlot,
+  SlotDayAvailability,
+  addDays,
+  campaignDays,
+} from "@shared/adCampaigns";
+
+// Campaign dates are calendar days in India, whatever the browser's timezone
+const todayIST = () =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Kolkata" }).format(new Date());
+
+const STATUS_LABELS: Record<string, string> = {
+  pending_payment: "Awaiting payment",
+  expired: "Booking expired",
+  pending_approval: "Paid · in review",
+  approved: "Approved · scheduled",
+  live: "Live",
+  completed: "Completed",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+const formatINR = (n: number) => `₹${Number(n || 0).toLocaleString("en-IN")}`;
+
+export default function BookAdvertisement() {
+  const { user, token, isAuthenticated, loading: authLoading } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+
+  const [slots, setSlots] = useState<BannerSlot[]>([]);
+  const [maxDays, setMaxDays] = useState(90);
+  const [slot, setSlot] = useState("");
+  const [startDate, setStartDate] = useState(todayIST());
+  const [endDate, setEndDate] = useState(addDays(todayIST(), 6));
+  const [availability, setAvailability] = useState<SlotDayAvailability[]>([]);
+  const [loadingAvailability, setLoadingAvailability] = useState(false);
+
+  const [advertiser, setAdvertiser] = useState({
+    fullName: "",
+    email: "",
+    phone: "",
+    projectName: "",
+    location: "",
+    description: "",
+  });
+  const [creative, setCreative] = useState({ title: "", link: "", imageUrl: "" });
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [myCampaigns, setMyCampaigns] = useState<AdCampaign[]>([]);
+  const [phonePeEnabled, setPhonePeEnabled] = useState(false);
+
+  // set when arriving from the enquiry form: the lead to attach bookings to
+  const submissionId = searchParams.get("submissionId") || "";
+  const selectedSlot = slots.find((s) => s.position === slot);
+  const days =
+    startDate && endDate && endDate >= startDate ? campaignDays(startDate, endDate) : 0;
+  const total = selectedSlot ? selectedSlot.pricePerDay * days : 0;
+  const fullDays = availability.filter((d) => !d.available);
+
+  useEffect(() => {
+    fetch("/api/ad-campaigns/slots")
+      .then((r) => r.json())
+      .then((data) => {
+        if (data?.success) {
+          setSlots(data.data.slots);
+          setMaxDays(data.data.maxDays);
+          setSlot((current) => current || data.data.slots[0]?.position || "");
+        }
+      })
+      .catch(() => {});
+    fetch("/api/payments/methods")
+      .then((r) => r.json())
+      .then((data) => setPhonePeEnabled(!!data?.data?.phonepe?.enabled))
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    setAdvertiser((prev) => ({
+      ...prev,
+      fullName: prev.fullName || user.name || "",
+      email: prev.email || user.email || "",
+      phone: prev.phone || user.phone || "",
+    }));
+  }, [user]);
+
+  useEffect(() => {
+    if (!slot || !days || days > maxDays) {
+      setAvailability([]);
+      return;
+    }
+    const controller = new AbortController();
+    setLoadingAvailability(true);
+    fetch(
+      `/api/ad-campaigns/availability?${new URLSearchParams({ slot, from: startDate, to: endDate })}`,
+      { signal: controller.signal },
+    )
+      .then((r) => r.json())
+      .then((data) => setAvailability(data?.success ? data.data.days : []))
+      .catch(() => {})
+      .finally(() => setLoadingAvailability(false));
+    return () => controller.abort();
+  }, [slot, startDate, endDate, days, maxDays]);
+
+  const loadMyCampaigns = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/ad-campaigns/mine", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data?.success) setMyCampaigns(data.data);
+    } catch (error) {
+      console.error("Error loading campaigns:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadMyCampaigns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  // back from the PhonePe page
+  useEffect(() => {
+    const status = searchParams.get("paymentStatus");
+    if (!status) return;
+    if (status === "success") {
+      toast({ title: "Payment received", description: "Your banner is now awaiting approval." });
+    } else if (status === "failed") {
+      toast({
+        title: "Payment failed",
+        description: "You can retry from My campaigns while the booking is held.",
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Payment pending", description: "We'll update the booking once PhonePe confirms." });
+    }
+    searchParams.delete("paymentStatus");
+    searchParams.delete("transactionId");
+    setSearchParams(searchParams, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const uploadCreative = async (file: File) => {
+    setUploading(true);
+    try {
+      const form = new FormData();
+      form.append("image", file);
+      const response = await fetch("/api/ad-campaigns/creative", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+        body: form,
+      });
+      const data = await response.json();
+      if (!data?.success) throw new Error(data?.error || "Upload failed");
+      setCreative((prev) => ({ ...prev, imageUrl: data.data.imageUrl }));
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Upload failed", variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const pay = async (campaign: AdCampaign, method: "razorpay" | "phonepe") => {
+    if (method === "phonepe") {
+      const response = await fetch("/api/payments/phonepe/transaction", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ campaignId: campaign._id }),
+      });
+      const data = await response.json();
+      if (!data?.success || !data.data?.redirectUrl) {
+        throw new Error(data?.error || "Failed to start PhonePe payment");
+      }
+      window.location.href = data.data.redirectUrl;
+      return;
+    }
+
+    const result = await startRazorpayPayment({
+      campaignId: campaign._id,
+      description: `Banner campaign ${campaign.startDate} – ${campaign.endDate}`,
+      prefill: { name: advertiser.fullName, email: advertiser.email, contact: advertiser.phone },
+      onSuccess: () => {
+        toast({ title: "Payment received", description: "Your banner is now awaiting approval." });
+        loadMyCampaigns();
+      },
+      onDismiss: loadMyCampaigns,
+    });
+    if (!result.ok) throw new Error(result.error);
+  };
+
+  const handleBook = async (method: "razorpay" | "phonepe") => {
+    if (!creative.imageUrl || !creative.title) {
+      toast({ title: "Error", description: "Add a title and upload your banner", variant: "destructive" });
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const response = await fetch("/api/ad-campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          ...(submissionId ? { submissionId } : advertiser),
+          slot,
+          startDate,
+          endDate,
+          creative,
+        }),
+      });
+      const data = await response.json();
+      if (!data?.success) throw new Error(data?.error || "Booking failed");
+      await loadMyCampaigns();
+      await pay(data.data, method);
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Booking failed", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const retryPayment = async (campaign: AdCampaign) => {
+    setSubmitting(true);
+    try {
+      await pay(campaign, "razorpay");
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Payment failed", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const dateError = useMemo(() => {
+    if (!startDate || !endDate) return "Pick a start and end date";
+    if (startDate < todayIST()) return "Start date is in the past";
+    if (endDate < startDate) return "End date is before the start date";
+    if (days > maxDays) return `Campaigns can run at most ${maxDays} days`;
+    return "";
+  }, [startDate, endDate, days, maxDays]);
+
+  const canBook =
+    !!selectedSlot &&
+    !dateError &&
+    !loadingAvailability &&
+    availability.length > 0 &&
+    fullDays.length === 0 &&
+    (!!submissionId || Object.values(advertiser).every((v) => v.trim())) &&
+    !!creative.title &&
+    !!creative.imageUrl &&
+    !submitting;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <main className="max-w-4xl mx-auto px-4 py-8 pb-24 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Book a banner</h1>
+          <p className="text-gray-600 mt-1">
+            Pick a slot and dates, upload your creative and pay online. Your banner goes live on
+            the start date once our team approves it.
+          </p>
+        </div>
+
+        {!authLoading && !isAuthenticated ? (
+          <div className="bg-white rounded-lg border p-6 text-center">
+            <p className="text-gray-700 mb-4">Sign in to book and pay for a banner campaign.</p>
+            <Button
+              onClick={() =>
+                (window.location.href = `/auth?returnTo=${encodeURIComponent(
+                  window.location.pathname + window.location.search,
+                )}`)
+              }
+            >
+              Sign in
+            </Button>
+          </div>
+        ) : (
+          <>
+            <section className="bg-white rounded-lg border p-6 space-y-4">
+              <h2 className="font-semibold flex items-center gap-2">
+                <CalendarDays className="h-5 w-5 text-[#C70000]" />
+                Slot and dates
+              </h2>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {slots.map((s) => (
+                  <button
+                    key={s.position}
+                    type="button"
+                    onClick={() => setSlot(s.position)}
+                    className={`text-left border rounded-lg p-4 ${
+                      slot === s.position ? "border-[#C70000] bg-red-50" : "hover:border-gray-400"
+                    }`}
+                  >
+                    <div className="font-medium">{s.label}</div>
+                    <div className="text-sm text-gray-600">{s.description}</div>
+                    <div className="text-sm mt-2">
+                      {formatINR(s.pricePerDay)} / day · {s.capacity} advertisers at a time
+                    </div>
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 max-w-md">
+                <label className="text-sm">
+                  Start date
+                  <Input
+                    type="date"
+                    min={todayIST()}
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </label>
+                <label className="text-sm">
+                  End date
+                  <Input
+                    type="date"
+                    min={startDate}
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </label>
+              </div>
+
+              {dateError ? (
+                <p className="text-sm text-red-600">{dateError}</p>
+              ) : loadingAvailability ? (
+                <p className="text-sm text-gray-500 flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Checking availability…
+                </p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-1">
+                    {availability.map((d) => (
+                      <div
+                        key={d.date}
+                        title={`${d.date}: ${d.booked}/${d.capacity} booked`}
+                        className={`text-xs rounded px-2 py-1 ${
+                          d.available ? "bg-green-100 text-green-800" : "bg-red-100 text-red-700"
+                        }`}
+                      >
+                        {d.date.slice(5)} · {d.capacity - d.booked} left
+                      </div>
+                    ))}
+                  </div>
+                  {fullDays.length > 0 ? (
+                    <p className="text-sm text-red-600">
+                      Fully booked on {fullDays.map((d) => d.date).join(", ")}. Choose other dates.
+                    </p>
+                  ) : (
+                    selectedSlot && (
+                      <p className="text-sm">
+                        {days} day{days === 1 ? "" : "s"} × {formatINR(selectedSlot.pricePerDay)} ={" "}
+                        <span className="font-semibold">{formatINR(total)}</span>
+                      </p>
+                    )
+                  )}
+                </>
+              )}
+            </section>
+
+            {!submissionId && (
+              <section className="bg-white rounded-lg border p-6 space-y-3">
+                <h2 className="font-semibold">Advertiser details</h2>
+                <div className="grid sm:grid-cols-2 gap-3">
+                  {(
+                    [
+                      ["fullName", "Full name"],
+                      ["email", "Email"],
+                      ["phone", "Phone"],
+                      ["projectName", "Business / project name"],
+                      ["location", "Location"],
+                    ] as const
+                  ).map(([field, label]) => (
+                    <Input
+                      key={field}
+                      placeholder={label}
+                      value={advertiser[field]}
+                      onChange={(e) => setAdvertiser((prev) => ({ ...prev, [field]: e.target.value }))}
+                    />
+                  ))}
+                </div>
+                <textarea
+                  className="w-full border rounded-md p-2 text-sm"
+                  rows={3}
+                  placeholder="What are you promoting?"
+                  value={advertiser.description}
+                  onChange={(e) => setAdvertiser((prev) => ({ ...prev, description: e.target.value }))}
+                />
+              </section>
+            )}
+
+            <section className="bg-white rounded-lg border p-6 space-y-3">
+              <h2 className="font-semibold">Creative</h2>
+              <Input
+                placeholder="Banner title"
+                value={creative.title}
+                onChange={(e) => setCreative((prev) => ({ ...prev, title: e.target.value }))}
+              />
+              <Input
+                placeholder="Link when clicked (https://…)"
+                value={creative.link}
+                onChange={(e) => setCreative((prev) => ({ ...prev, link: e.target.value }))}
+              />
+              <label className="flex items-center gap-2 text-sm cursor-pointer w-fit">
+                <Upload className="h-4 w-4" />
+                {uploading ? "Uploading…" : creative.imageUrl ? "Replace image" : "Upload banner image (max 2MB)"}
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  disabled={uploading}
+                  onChange={(e) => e.target.files?.[0] && uploadCreative(e.target.files[0])}
+                />
+              </label>
+              {creative.imageUrl && (
+                <img
+                  src={creative.imageUrl}
+                  alt="Banner preview"
+                  className="w-full max-h-48 object-cover rounded border"
+                />
+              )}
+            </section>
+
+            <div className="flex flex-wrap gap-3">
+              <Button disabled={!canBook} onClick={() => handleBook("razorpay")}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Pay {total ? formatINR(total) : ""} with Razorpay
+              </Button>
+              {phonePeEnabled && (
+                <Button variant="outline" disabled={!canBook} onClick={() => handleBook("phonepe")}>
+                  Pay with PhonePe
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              Your dates are held for 30 minutes while you pay. If we can't approve the creative,
+              we'll contact you about a refund.
+            </p>
+
+            {myCampaigns.length > 0 && (
+              <section className="bg-white rounded-lg border p-6">
+                <h2 className="font-semibold mb-3">My campaigns</h2>
+                <div className="divide-y">
+                  {myCampaigns.map((c) => (
+                    <div key={c._id} className="py-3 flex items-center justify-between gap-3">
+                      <div>
+                        <div className="font-medium">{c.creative?.title}</div>
+                        <div className="text-sm text-gray-600">
+                          {slots.find((s) => s.position === c.slot)?.label || c.slot} · {c.startDate} –{" "}
+                          {c.endDate} · {formatINR(c.amount)}
+                        </div>
+                        {c.rejectionReason && (
+                          <div className="text-sm text-red-600">{c.rejectionReason}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        {c.status === "live" && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                        <span>{STATUS_LABELS[c.status] || c.status}</span>
+                        {c.status === "pending_payment" && (
+                          <Button size="sm" disabled={submitting} onClick={() => retryPayment(c)}>
+                            Pay now
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+      <StaticFooter />
+      <BottomNavigation />
+    </div>
+  );
+}
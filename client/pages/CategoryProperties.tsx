@@ -15,6 +15,7 @@ import Header from "../components/Header";
 import BottomNavigation from "../components/BottomNavigation";
 import ImageModal from "../components/ImageModal";
 import Watermark from "../components/Watermark";
+import VerifiedSellerBadge from "../components/VerifiedSellerBadge";
 import { Button } from "../components/ui/button";
 import { Property } from "@shared/types";
 
@@ -978,8 +979,11 @@ export default function CategoryProperties() {
                       </div>
 
                       <div className="flex items-center justify-between">
-                        <span className="text-xs text-gray-400">
+                        <span className="text-xs text-gray-400 flex items-center gap-2">
                           {property.contactInfo?.name || "Owner"}
+                          <VerifiedSellerBadge
+                            sellerVerified={property.sellerVerified}
+                          />
                         </span>
                         <Button
                           onClick={(e) => {
@@ -11,27 +11,13 @@ import {
 import { Button } from "../components/ui/button";
 import { Textarea } from "../components/ui/textarea";
 import { useAuth } from "../hooks/useAuth";
-import { io, Socket } from "socket.io-client";
+import { messageStatus, useConversationChannel } from "../hooks/useConversationChannel";
 import { toast } from "../components/ui/use-toast";
 import { createApiUrl } from "../lib/api";
 
 /* ================= Types ================= */
 type UserLite = { _id?: string; id?: string; name?: string; userType?: string };
 
-interface Message {
-  _id: string;
-  conversationId: string; // ObjectId (string) on client
-  sender: string;         // legacy field
-  senderId: string;       // normalized string
-  senderName?: string;
-  senderType?: string;
-  message: string;        // normalized (message || text)
-  imageUrl?: string;
-  messageType?: "text" | "image";
-  createdAt: string;      // ISO string
-  readBy?: Array<{ userId: string; readAt: string }>;
-}
-
 interface Conversation {
   _id: string | { $oid?: string; oid?: string };
   buyer: string;
@@ -69,20 +55,17 @@ const apiGet = async (endpoint: string, token: string) => {
   return { ok: r.ok, status: r.status, data: j };
 };
 
-const apiPost = async (endpoint: string, token: string, body?: any) => {
-  const url = createApiUrl(endpoint);
-  const r = await fetch(url, {
-    method: "POST",
-    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-    body: body ? JSON.stringify(body) : undefined,
-  });
-  const j = await r.json().catch(() => ({}));
-  return { ok: r.ok, status: r.status, data: j };
-};
-
 const fmtTime = (iso: string) =>
   new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 
+const STATUS_MARK: Record<string, { mark: string; label: string }> = {
+  sending: { mark: "🕓", label: "Sending" },
+  failed: { mark: "!", label: "Not sent" },
+  sent: { mark: "✓", label: "Sent" },
+  delivered: { mark: "✓✓", label: "Delivered" },
+  read: { mark: "✓✓", label: "Read" },
+};
+
 /* ============== Component ============== */
 export default function ChatConversation() {
   const { id } = useParams<{ id: string }>();
@@ -92,14 +75,19 @@ export default function ChatConversation() {
   const meId = (user as any)?.id || (user as any)?._id;
 
   const [conversation, setConversation] = useState<Conversation | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(true);
   const [sendingMessage, setSendingMessage] = useState(false);
   const [error, setError] = useState("");
-  const socketRef = useRef<Socket | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const channel = useConversationChannel(
+    id && id !== "undefined" ? id : undefined,
+    token,
+    String(meId || ""),
+  );
+  const { messages, markRead } = channel;
+
   /* -------------- Scroll on new messages -------------- */
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -140,15 +128,10 @@ export default function ChatConversation() {
         }
         return;
       }
-      if (alive) setConversation(conv);
-
-      // messages
-      await loadMessages(id!);
-
-      // mark read once on open
-      await markRead(id!);
-
-      if (alive) setLoading(false);
+      if (alive) {
+        setConversation(conv);
+        setLoading(false);
+      }
     })();
 
     return () => {
@@ -157,78 +140,12 @@ export default function ChatConversation() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id, isAuthenticated, token]);
 
-  /* -------------- Socket.io setup -------------- */
-  useEffect(() => {
-    if (!token || !isAuthenticated || !id || id === "undefined") return;
-
-    const socket = io(window.location.origin, {
-      auth: { token },
-      transports: ["websocket", "polling"],
-    });
-    socketRef.current = socket;
-
-    // join room for this conversation
-    socket.emit("join-conversation", id);
-
-    // handle multiple possible event names/payload shapes
-    const onAnyNewMessage = (payload: any) => {
-      // possible shapes:
-      // { conversation: "<id>", ... } OR
-      // { conversationId: "<id>", ... } OR
-      // { conversation: { _id: "<id>" }, ... }
-      const convId =
-        payload?.conversationId ||
-        (typeof payload?.conversation === "string"
-          ? payload.conversation
-          : normalizeId(payload?.conversation?._id));
-
-      if (convId !== id) return;
-
-      const msg: Message = {
-        _id: String(payload?._id || payload?.id || Math.random()),
-        conversationId: convId,
-        sender: String(payload?.senderId || payload?.sender || ""),
-        senderId: String(payload?.senderId || payload?.sender || ""),
-        senderName: payload?.senderName || "",
-        senderType: payload?.senderType || "",
-        message: payload?.message ?? payload?.text ?? "",
-        imageUrl: payload?.imageUrl || undefined,
-        messageType: payload?.messageType || (payload?.imageUrl ? "image" : "text"),
-        createdAt: payload?.createdAt
-          ? new Date(payload.createdAt).toISOString()
-          : new Date().toISOString(),
-        readBy: payload?.readBy,
-      };
-
-      setMessages((prev) => {
-        if (prev.some((m) => m._id === msg._id)) return prev;
-        return [...prev, msg];
-      });
-    };
-
-    socket.on("message:new", onAnyNewMessage);
-    socket.on("new-message", onAnyNewMessage);
-    socket.on("chat:new-message", onAnyNewMessage);
-
-    socket.on("connect", () => console.log("Socket connected"));
-    socket.on("disconnect", () => console.log("Socket disconnected"));
-
-    return () => {
-      try {
-        socket.emit("leave-conversation", id);
-        socket.removeAllListeners();
-        socket.disconnect();
-      } catch {}
-      socketRef.current = null;
-    };
-  }, [token, isAuthenticated, id]);
-
   /* -------------- Visibility/focus: mark as read -------------- */
   useEffect(() => {
     if (!id || !token) return;
-    const onFocus = () => markRead(id);
+    const onFocus = () => markRead();
     const onVisible = () => {
-      if (document.visibilityState === "visible") markRead(id);
+      if (document.visibilityState === "visible") markRead();
     };
     window.addEventListener("focus", onFocus);
     document.addEventListener("visibilitychange", onVisible);
@@ -236,47 +153,7 @@ export default function ChatConversation() {
       window.removeEventListener("focus", onFocus);
       document.removeEventListener("visibilitychange", onVisible);
     };
-  }, [id, token]);
-
-  /* -------------- Load messages helper -------------- */
-  const loadMessages = async (convId: string) => {
-    const res = await apiGet(`conversations/${convId}/messages`, token!);
-    if (res.status === 403 || res.status === 404) {
-      setError("Conversation not found");
-      return;
-    }
-    if (!res.ok) {
-      setError(res.data?.error || "Failed to load messages");
-      return;
-    }
-    const payload = res.data?.data ?? res.data;
-    const arr = Array.isArray(payload?.messages)
-      ? payload.messages
-      : Array.isArray(payload)
-      ? payload
-      : [];
-
-    const normalized: Message[] = arr.map((m: any) => ({
-      _id: String(m._id),
-      conversationId: normalizeId(m.conversationId),
-      sender: String(m.senderId || m.sender || ""),
-      senderId: String(m.senderId || m.sender || ""),
-      senderName: m.senderName || "",
-      senderType: m.senderType || "",
-      message: m.message ?? m.text ?? "",
-      imageUrl: m.imageUrl || undefined,
-      messageType: m.messageType || (m.imageUrl ? "image" : "text"),
-      createdAt: m.createdAt ? new Date(m.createdAt).toISOString() : new Date().toISOString(),
-      readBy: m.readBy,
-    }));
-
-    setMessages(normalized);
-  };
-
-  /* -------------- Mark read helper -------------- */
-  const markRead = async (convId: string) => {
-    await apiPost(`conversations/${convId}/read`, token!, {});
-  };
+  }, [id, token, markRead]);
 
   /* -------------- Send message -------------- */
   const handleSendMessage = async () => {
@@ -284,32 +161,14 @@ export default function ChatConversation() {
 
     setSendingMessage(true);
     setError("");
-
-    const res = await apiPost(`conversations/${id}/messages`, token!, { text: newMessage });
-    if (res.ok) {
-      const raw = res.data?.data ?? res.data;
-      const msg: Message = {
-        _id: String(raw?._id || Math.random()),
-        conversationId: id!,
-        sender: String(raw?.senderId || raw?.sender || meId || ""),
-        senderId: String(raw?.senderId || raw?.sender || meId || ""),
-        senderName: raw?.senderName || (user as any)?.name || "You",
-        senderType: raw?.senderType || "",
-        message: raw?.message ?? raw?.text ?? newMessage,
-        imageUrl: raw?.imageUrl || undefined,
-        messageType: raw?.messageType || "text",
-        createdAt: raw?.createdAt ? new Date(raw.createdAt).toISOString() : new Date().toISOString(),
-        readBy: raw?.readBy,
-      };
-
-      setMessages((prev) => [...prev, msg]);
-      setNewMessage("");
-      // ensure unread cleared for me
-      await markRead(id!);
-      // scroll
-      setTimeout(() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }), 50);
-    } else {
-      setError(res.data?.error || "Failed to send message");
+    const text = newMessage;
+    setNewMessage("");
+    channel.setTyping(false);
+
+    const sendError = await channel.send(text);
+    if (sendError) {
+      setError(sendError);
+      setNewMessage(text);
     }
 
     setSendingMessage(false);
@@ -343,7 +202,11 @@ export default function ChatConversation() {
 
   const otherParticipant =
     conversation.buyer === meId ? conversation.sellerData : conversation.buyerData;
+  const otherId = conversation.buyer === meId ? conversation.seller : conversation.buyer;
+  const isOtherOnline = channel.onlineUserIds.includes(String(otherId));
+  const isOtherTyping = channel.typingUserIds.includes(String(otherId));
   const property = conversation.property;
+  const shownError = error || channel.error;
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
@@ -364,8 +227,18 @@ export default function ChatConversation() {
             {otherParticipant?.name || "Unknown User"}
           </h3>
           <div className="flex items-center space-x-1">
-            <Circle className="h-2 w-2 text-green-500 fill-current" />
-            <span className="text-xs text-gray-500">Online</span>
+            {isOtherTyping ? (
+              <span className="text-xs text-[#C70000]">typing…</span>
+            ) : (
+              <>
+                <Circle
+                  className={`h-2 w-2 fill-current ${isOtherOnline ? "text-green-500" : "text-gray-300"}`}
+                />
+                <span className="text-xs text-gray-500">
+                  {isOtherOnline ? "Online" : channel.connected ? "Offline" : "Reconnecting…"}
+                </span>
+              </>
+            )}
           </div>
         </div>
 
@@ -380,10 +253,10 @@ export default function ChatConversation() {
       </header>
 
       {/* Error */}
-      {error && (
+      {shownError && (
         <div className="bg-red-50 border-b border-red-200 p-3 flex items-center space-x-2">
           <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
-          <p className="text-red-700 text-sm">{error}</p>
+          <p className="text-red-700 text-sm">{shownError}</p>
         </div>
       )}
 
@@ -425,9 +298,8 @@ export default function ChatConversation() {
           <div className="text-center py-8 text-gray-600">No messages yet. Say hello 👋</div>
         ) : (
           messages.map((m) => {
-            const isMe = (m.senderId || m.sender) === meId;
-            const readCount = (m.readBy?.length || 0);
-            const isRead = isMe && readCount > 1;
+            const isMe = m.senderId === meId;
+            const status = STATUS_MARK[messageStatus(m, String(meId))];
             return (
               <div key={m._id} className={`flex ${isMe ? "justify-end" : "justify-start"}`}>
                 <div
@@ -438,7 +310,7 @@ export default function ChatConversation() {
                   {m.imageUrl ? (
                     <img src={m.imageUrl} alt="Sent" className="max-w-full h-auto rounded" />
                   ) : (
-                    <p className="text-sm whitespace-pre-wrap break-words">{m.message}</p>
+                    <p className="text-sm whitespace-pre-wrap break-words">{m.text}</p>
                   )}
                   <div
                     className={`flex items-center gap-2 text-xs mt-1 ${
@@ -446,7 +318,14 @@ export default function ChatConversation() {
                     }`}
                   >
                     <span>{fmtTime(m.createdAt)}</span>
-                    {isMe && <span>{isRead ? "✓✓" : "✓"}</span>}
+                    {isMe && (
+                      <span
+                        title={status.label}
+                        className={status.label === "Read" ? "text-white font-semibold" : undefined}
+                      >
+                        {status.mark}
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -480,7 +359,11 @@ export default function ChatConversation() {
           <Textarea
             placeholder="Type a message..."
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
+            onChange={(e) => {
+              setNewMessage(e.target.value);
+              channel.setTyping(e.target.value.trim().length > 0);
+            }}
+            onBlur={() => channel.setTyping(false)}
             onKeyDown={(e) => {
               if (e.key === "Enter" && !e.shiftKey) {
                 e.preventDefault();
@@ -2,6 +2,12 @@ import React, { useState, useEffect } from "react";
 import { useAuth } from "../hooks/useAuth";
 import { useNavigate, Link } from "react-router-dom";
 import { api } from "../lib/api";
+import {
+  DEAL_STAGES,
+  DEAL_STAGE_LABELS,
+  DealStage,
+  LinkedProperty,
+} from "@shared/agentClients";
 import { Button } from "../components/ui/button";
 import {
   Card,
@@ -101,6 +107,7 @@ interface Client {
   notes: string;
   interactions: Interaction[];
   deals: Deal[];
+  properties: LinkedProperty[];
   rating: number;
 }
 
@@ -122,6 +129,9 @@ interface Deal {
   amount: number;
   commission: number;
   status: "negotiating" | "pending" | "closed" | "cancelled";
+  stage: DealStage;
+  commissionRate: number;
+  commissionReceived: boolean;
   startDate: string;
   expectedCloseDate: string;
   actualCloseDate?: string;
@@ -171,6 +181,13 @@ export default function Clients() {
     nextAction: "",
   });
 
+  const [newDeal, setNewDeal] = useState({
+    propertyId: "",
+    amount: "",
+    commissionRate: "",
+    expectedCloseDate: "",
+  });
+
   const [stats, setStats] = useState({
     total: 0,
     active: 0,
@@ -203,10 +220,14 @@ export default function Clients() {
       if (!token) return;
 
       const response = await api.get("/agent/clients", token);
-      if (response.data.success) {
-        const clientsData = response.data.data as Client[];
+      if (response.success) {
+        const clientsData = (response.data.items || []) as Client[];
         setClients(clientsData);
         calculateStats(clientsData);
+        // keep an open details dialog in step with the refreshed list
+        setSelectedClient((prev) =>
+          prev ? clientsData.find((c) => c._id === prev._id) || null : prev,
+        );
       }
     } catch (error) {
       console.error("Error fetching clients:", error);
@@ -303,6 +324,75 @@ export default function Clients() {
     }
   };
 
+  const addDeal = async () => {
+    if (!selectedClient || !newDeal.propertyId) return;
+
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) return;
+
+      const response = await api.post(
+        `/agent/clients/${selectedClient._id}/deals`,
+        {
+          propertyId: newDeal.propertyId,
+          amount: Number(newDeal.amount) || undefined,
+          commissionRate:
+            newDeal.commissionRate === ""
+              ? undefined
+              : Number(newDeal.commissionRate),
+          expectedCloseDate: newDeal.expectedCloseDate || undefined,
+        },
+        token,
+      );
+      if (response.success) {
+        setNewDeal({
+          propertyId: "",
+          amount: "",
+          commissionRate: "",
+          expectedCloseDate: "",
+        });
+        fetchClients();
+      } else {
+        alert(response.error || "Failed to add deal");
+      }
+    } catch (error) {
+      console.error("Error adding deal:", error);
+    }
+  };
+
+  const updateDealStage = async (dealId: string, stage: DealStage) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) return;
+
+      const response = await api.put(
+        `/agent/deals/${dealId}/stage`,
+        { stage },
+        token,
+      );
+      if (!response.success) alert(response.error || "Failed to move deal");
+      fetchClients();
+    } catch (error) {
+      console.error("Error updating deal stage:", error);
+    }
+  };
+
+  const markCommissionReceived = async (dealId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) return;
+
+      await api.put(
+        `/agent/deals/${dealId}/commission`,
+        { commissionReceived: true },
+        token,
+      );
+      fetchClients();
+    } catch (error) {
+      console.error("Error updating commission:", error);
+    }
+  };
+
   const deleteClient = async (clientId: string) => {
     if (!confirm("Are you sure you want to delete this client?")) return;
 
@@ -1049,28 +1139,155 @@ export default function Clients() {
                     </p>
                   ) : (
                     <div className="space-y-3">
-                      {selectedClient.deals?.map((deal) => (
-                        <Card key={deal._id}>
-                          <CardContent className="p-4">
-                            <div className="flex justify-between items-start">
-                              <div>
-                                <h4 className="font-medium">
-                                  {deal.propertyTitle}
-                                </h4>
-                                <p className="text-sm text-gray-500">
-                                  {deal.type}
-                                </p>
-                                <p className="text-lg font-bold text-[#C70000]">
-                                  ₹{deal.amount.toLocaleString()}
-                                </p>
+                      {selectedClient.deals?.map((deal) => {
+                        const finished =
+                          deal.stage === "closed" ||
+                          deal.stage === "cancelled";
+                        return (
+                          <Card key={deal._id}>
+                            <CardContent className="p-4">
+                              <div className="flex justify-between items-start">
+                                <div>
+                                  <h4 className="font-medium">
+                                    {deal.propertyTitle}
+                                  </h4>
+                                  <p className="text-sm text-gray-500">
+                                    {deal.type}
+                                  </p>
+                                  <p className="text-lg font-bold text-[#C70000]">
+                                    ₹{deal.amount.toLocaleString()}
+                                  </p>
+                                  <p className="text-sm text-gray-600">
+                                    Commission ₹
+                                    {deal.commission.toLocaleString()} (
+                                    {deal.commissionRate}%)
+                                    {deal.commissionReceived && " · received"}
+                                  </p>
+                                </div>
+                                <div className="flex flex-col items-end space-y-2">
+                                  {finished ? (
+                                    <Badge>
+                                      {DEAL_STAGE_LABELS[deal.stage] ||
+                                        deal.status}
+                                    </Badge>
+                                  ) : (
+                                    <Select
+                                      value={deal.stage}
+                                      onValueChange={(value) =>
+                                        updateDealStage(
+                                          deal._id,
+                                          value as DealStage,
+                                        )
+                                      }
+                                    >
+                                      <SelectTrigger className="w-36">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {DEAL_STAGES.map((stage) => (
+                                          <SelectItem key={stage} value={stage}>
+                                            {DEAL_STAGE_LABELS[stage]}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  )}
+                                  {deal.stage === "closed" &&
+                                    !deal.commissionReceived && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() =>
+                                          markCommissionReceived(deal._id)
+                                        }
+                                      >
+                                        Commission received
+                                      </Button>
+                                    )}
+                                </div>
                               </div>
-                              <Badge>{deal.status}</Badge>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))}
+                            </CardContent>
+                          </Card>
+                        );
+                      })}
                     </div>
                   )}
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-sm">New Deal</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {selectedClient.properties?.length ? (
+                        <Select
+                          value={newDeal.propertyId}
+                          onValueChange={(value) =>
+                            setNewDeal((prev) => ({ ...prev, propertyId: value }))
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Linked property" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {selectedClient.properties.map((p) => (
+                              <SelectItem key={p._id} value={p._id}>
+                                {p.title}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          value={newDeal.propertyId}
+                          onChange={(e) =>
+                            setNewDeal((prev) => ({
+                              ...prev,
+                              propertyId: e.target.value.trim(),
+                            }))
+                          }
+                          placeholder="Property ID"
+                        />
+                      )}
+                      <div className="grid grid-cols-3 gap-2">
+                        <Input
+                          type="number"
+                          value={newDeal.amount}
+                          onChange={(e) =>
+                            setNewDeal((prev) => ({ ...prev, amount: e.target.value }))
+                          }
+                          placeholder="Amount (listing price)"
+                        />
+                        <Input
+                          type="number"
+                          value={newDeal.commissionRate}
+                          onChange={(e) =>
+                            setNewDeal((prev) => ({
+                              ...prev,
+                              commissionRate: e.target.value,
+                            }))
+                          }
+                          placeholder="Commission %"
+                        />
+                        <Input
+                          type="date"
+                          value={newDeal.expectedCloseDate}
+                          onChange={(e) =>
+                            setNewDeal((prev) => ({
+                              ...prev,
+                              expectedCloseDate: e.target.value,
+                            }))
+                          }
+                        />
+                      </div>
+                      <Button
+                        onClick={addDeal}
+                        disabled={!newDeal.propertyId}
+                        className="w-full bg-[#C70000] hover:bg-[#A60000]"
+                      >
+                        Add Deal
+                      </Button>
+                    </CardContent>
+                  </Card>
                 </TabsContent>
 
                 <TabsContent value="preferences" className="space-y-4">
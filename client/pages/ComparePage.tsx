@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, GitCompare, Home, X } from "lucide-react";
+import {
+  ComparedProperty,
+  MAX_COMPARE,
+  PropertyComparison,
+  compareUrl,
+  parseCompareIds,
+} from "@shared/compare";
+import { api } from "../lib/api";
+import { useCompareTray } from "../hooks/useCompareTray";
+import { Button } from "../components/ui/button";
+import { Card, CardContent } from "../components/ui/card";
+import ShareButton from "../components/ShareButton";
+import OLXStyleHeader from "../components/OLXStyleHeader";
+import BottomNavigation from "../components/BottomNavigation";
+
+const inr = (n: number | null | undefined) =>
+  n === null || n === undefined ? "—" : `₹${Math.round(n).toLocaleString("en-IN")}`;
+const show = (v: unknown) => (v === null || v === undefined || v === "" ? "—" : String(v));
+
+type Row = {
+  label: string;
+  value: (p: ComparedProperty) => React.ReactNode;
+  // highlight the lowest (or highest) numeric value across the columns
+  best?: { of: (p: ComparedProperty) => number | null; lowest?: boolean };
+};
+
+export default function ComparePage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tray = useCompareTray();
+  const [comparison, setComparison] = useState<PropertyComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  // an old or hand-edited link may carry more than the API accepts
+  const urlIds = parseCompareIds(searchParams.get("ids")).slice(0, MAX_COMPARE);
+  // a bare /compare opens whatever is in the tray
+  const ids = urlIds.length ? urlIds : tray.items.map((i) => i._id);
+  const idsKey = ids.join(",");
+
+  useEffect(() => {
+    if (!urlIds.length && ids.length) {
+      setSearchParams({ ids: idsKey }, { replace: true });
+      return;
+    }
+    if (ids.length < 2) {
+      setLoading(false);
+      setComparison(null);
+      return;
+    }
+    (async () => {
+      setLoading(true);
+      setError("");
+      const res = await api.get(`/properties/compare?ids=${idsKey}`);
+      if (res.success) setComparison(res.data as PropertyComparison);
+      else setError(res.error || "Failed to load comparison");
+      setLoading(false);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsKey]);
+
+  const removeColumn = (id: string) => {
+    tray.remove(id);
+    const rest = ids.filter((i) => i !== id);
+    navigate(rest.length ? compareUrl(rest) : "/compare", { replace: true });
+  };
+
+  const properties = comparison?.properties || [];
+
+  const rows: Row[] = [
+    {
+      label: "Price",
+      value: (p) => (
+        <span className="font-bold text-[#C70000]">
+          {inr(p.price)}
+          {p.priceType === "rent" && <span className="text-xs font-normal">/month</span>}
+        </span>
+      ),
+    },
+    {
+      label: "Price per sq ft",
+      value: (p) => inr(p.pricePerSqft),
+      best: { of: (p) => p.pricePerSqft, lowest: true },
+    },
+    {
+      label: "Area",
+      value: (p) => (p.specs.areaSqft ? `${p.specs.areaSqft.toLocaleString("en-IN")} sq ft` : "—"),
+      best: { of: (p) => p.specs.areaSqft },
+    },
+    { label: "Type", value: (p) => [p.propertyType, p.subCategory].filter(Boolean).join(" · ") || "—" },
+    { label: "Bedrooms", value: (p) => show(p.specs.bedrooms) },
+    { label: "Bathrooms", value: (p) => show(p.specs.bathrooms) },
+    {
+      label: "Floor",
+      value: (p) =>
+        p.specs.floor ? `${p.specs.floor}${p.specs.totalFloors ? ` of ${p.specs.totalFloors}` : ""}` : "—",
+    },
+    { label: "Furnishing", value: (p) => show(p.specs.furnished) },
+    { label: "Facing", value: (p) => show(p.specs.facing) },
+    { label: "Parking", value: (p) => show(p.specs.parking) },
+    { label: "Age", value: (p) => (p.specs.ageYears === null ? "—" : `${p.specs.ageYears} yrs`) },
+    { label: "Locality", value: (p) => p.locality || p.address || "—" },
+    {
+      label: "Area median / sq ft",
+      value: (p) =>
+        p.areaInsight ? (
+          <div>
+            <div>{inr(p.areaInsight.medianPricePerSqft)}</div>
+            {p.areaInsight.vsMedianPct !== null && (
+              <div
+                className={`text-xs ${p.areaInsight.vsMedianPct <= 0 ? "text-green-700" : "text-orange-700"}`}
+              >
+                {p.areaInsight.vsMedianPct > 0 ? "+" : ""}
+                {p.areaInsight.vsMedianPct}% vs {p.areaInsight.area}
+              </div>
+            )}
+          </div>
+        ) : (
+          "—"
+        ),
+    },
+    {
+      label: "Rent yield (area)",
+      value: (p) => (p.areaInsight?.rentYieldPct ? `${p.areaInsight.rentYieldPct}%` : "—"),
+    },
+    ...(comparison?.landmarks || []).map(
+      (l): Row => ({
+        label: `To ${l.name}`,
+        value: (p) => {
+          const km = p.landmarkDistancesKm[l.key];
+          return km === null || km === undefined ? "—" : `${km} km`;
+        },
+        best: { of: (p) => p.landmarkDistancesKm[l.key] ?? null, lowest: true },
+      }),
+    ),
+  ];
+
+  const bestValue = (row: Row) => {
+    if (!row.best) return null;
+    const values = properties.map(row.best.of).filter((v): v is number => v !== null && v > 0);
+    if (values.length < 2) return null;
+    return row.best.lowest ? Math.min(...values) : Math.max(...values);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <OLXStyleHeader />
+
+      <div className="container mx-auto px-4 py-6 pb-24">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => navigate(-1)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <GitCompare className="h-6 w-6" />
+              Compare Properties
+            </h1>
+          </div>
+          {properties.length >= 2 && (
+            <ShareButton
+              url={`${window.location.origin}${compareUrl(properties.map((p) => p._id))}`}
+              title="Compare these properties"
+              text={properties.map((p) => p.title).join(" vs ")}
+              size="sm"
+            />
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin w-8 h-8 border-2 border-[#C70000] border-t-transparent rounded-full" />
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="p-6 text-center text-red-600">{error}</CardContent>
+          </Card>
+        ) : properties.length < 2 ? (
+          <Card>
+            <CardContent className="p-10 text-center">
+              <GitCompare className="mx-auto h-12 w-12 text-gray-400 mb-3" />
+              <p className="text-gray-700 mb-4">
+                Add at least two properties to compare using the Compare button on a property page.
+              </p>
+              <Link to="/properties">
+                <Button className="bg-[#C70000] hover:bg-[#A60000]">Browse properties</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {!!comparison?.missing.length && (
+              <p className="text-sm text-gray-500 mb-3">
+                {comparison.missing.length} of the shared properties are no longer available.
+              </p>
+            )}
+            <div className="overflow-x-auto bg-white border rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="w-40" />
+                    {properties.map((p) => (
+                      <th key={p._id} className="p-3 text-left align-top min-w-[200px]">
+                        <div className="relative">
+                          <button
+                            type="button"
+                            onClick={() => removeColumn(p._id)}
+                            className="absolute top-1 right-1 bg-white/80 rounded-full p-1 text-gray-500 hover:text-gray-800"
+                            aria-label={`Remove ${p.title}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                          <div className="h-28 bg-gray-100 rounded overflow-hidden mb-2">
+                            {p.image ? (
+                              <img data-wm="1" src={p.image} alt={p.title} className="w-full h-full object-cover" />
+                            ) : (
+                              <Home className="h-8 w-8 m-10 text-gray-400" />
+                            )}
+                          </div>
+                          <Link to={`/property/${p._id}`} className="font-semibold text-gray-900 hover:underline">
+                            {p.title}
+                          </Link>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const best = bestValue(row);
+                    return (
+                      <tr key={row.label} className="border-b last:border-0">
+                        <td className="p-3 text-gray-600 font-medium">{row.label}</td>
+                        {properties.map((p) => (
+                          <td
+                            key={p._id}
+                            className={`p-3 ${best !== null && row.best!.of(p) === best ? "text-green-700 font-semibold" : ""}`}
+                          >
+                            {row.value(p)}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                  <tr className="border-b">
+                    <td className="p-3 text-gray-600 font-medium">Amenities in all</td>
+                    <td className="p-3" colSpan={properties.length}>
+                      {comparison!.commonAmenities.length ? comparison!.commonAmenities.join(", ") : "—"}
+                    </td>
+                  </tr>
+                  <tr>
+                    <td className="p-3 text-gray-600 font-medium">Only this one has</td>
+                    {properties.map((p) => (
+                      <td key={p._id} className="p-3 align-top">
+                        {p.uniqueAmenities.length ? (
+                          <ul className="list-disc pl-4 space-y-0.5">
+                            {p.uniqueAmenities.map((a) => (
+                              <li key={a}>{a}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      <BottomNavigation />
+    </div>
+  );
+}
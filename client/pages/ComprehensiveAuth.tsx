@@ -177,17 +177,17 @@ const ComprehensiveAuth = () => {
         throw new Error(msg);
       }
 
-      const { token, user } = res.data || {};
+      const { token, user, refreshToken } = res.data || {};
       if (!token || !user) throw new Error("Malformed response from server");
 
       if (!isLogin) {
         setSuccess("Registration successful! Welcome to Ashish Property.");
         setTimeout(() => {
-          login(token, user);
+          login(token, user, refreshToken);
           redirectToCorrectDashboard(user.userType);
         }, 900);
       } else {
-        login(token, user);
+        login(token, user, refreshToken);
         redirectToCorrectDashboard(user.userType);
       }
     } catch (err: any) {
@@ -286,12 +286,13 @@ const ComprehensiveAuth = () => {
       const ok = !!res?.success;
       const token = res?.data?.token ?? res?.token;
       const u = res?.data?.user ?? res?.user;
+      const refreshToken = res?.data?.refreshToken ?? res?.refreshToken;
 
       if (!ok || !token || !u) {
         throw new Error(res?.error || res?.message || "Login failed");
       }
 
-      login(token, u);
+      login(token, u, refreshToken);
       redirectToCorrectDashboard(u.userType);
     } catch (err: any) {
       console.error("OTP verification error:", err);
@@ -337,10 +338,10 @@ const ComprehensiveAuth = () => {
         throw new Error(res?.error || "Google authentication failed");
       }
 
-      const { token, user } = res.data || {};
+      const { token, user, refreshToken } = res.data || {};
       if (!token || !user) throw new Error("Malformed response from server");
 
-      login(token, user);
+      login(token, user, refreshToken);
       redirectToCorrectDashboard(user.userType);
     } catch (err: any) {
       setError(err?.message || "Google authentication failed");
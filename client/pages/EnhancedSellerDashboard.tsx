@@ -2,7 +2,9 @@ import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useAuth } from "../hooks/useAuth";
 import { useNavigate, Link } from "react-router-dom";
 import { Property } from "@shared/types";
-import { api } from "../lib/api";
+import { BOOST_WINDOW_DAYS, BoostOptions } from "@shared/boosts";
+import { api, createApiUrl } from "../lib/api";
+import { startRazorpayPayment } from "../lib/razorpay";
 import { Button } from "../components/ui/button";
 import {
   Card,
@@ -58,12 +60,17 @@ import {
   ExternalLink,
   Crown,
   Zap,
+  Rocket,
   Search as SearchIcon,
   Filter,
   Check,
   X,
 } from "lucide-react";
 import OLXStyleHeader from "../components/OLXStyleHeader";
+import SellerBillingCard from "../components/SellerBillingCard";
+import SellerQuotaCard from "../components/SellerQuotaCard";
+import SellerBoostCard from "../components/SellerBoostCard";
+import SellerVerificationCard from "../components/SellerVerificationCard";
 import BottomNavigation from "../components/BottomNavigation";
 
 // --------------------------------------------------
@@ -118,9 +125,11 @@ interface Payment {
   _id: string;
   amount: number;
   package: string;
-  status: "completed" | "pending" | "failed";
+  status: "completed" | "pending" | "failed" | "refunded";
   date: string;
   transactionId: string;
+  invoiceNumber?: string | null;
+  invoiceUrl?: string | null;
 }
 
 // --------------------------------------------------
@@ -153,6 +162,8 @@ async function getAuthToken(): Promise<string | null> {
   return token;
 }
 
+const isBoostedNow = (p: Property) => !!p.boostUntil && new Date(p.boostUntil) > new Date();
+
 // --------------------------------------------------
 // Component
 // --------------------------------------------------
@@ -171,6 +182,8 @@ export default function EnhancedSellerDashboard() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [packages, setPackages] = useState<PackageT[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [boostingId, setBoostingId] = useState<string | null>(null);
+  const [boostCount, setBoostCount] = useState(0);
 
   // Reply modal state
   const [replyModalOpen, setReplyModalOpen] = useState(false);
@@ -587,6 +600,76 @@ export default function EnhancedSellerDashboard() {
     }
   };
 
+  // Spend a boost credit if the seller has one, otherwise pay for the boost package
+  const handleBoost = async (property: Property) => {
+    const id = property._id;
+    setBoostingId(id);
+    try {
+      const token = (await getAuthToken()) || undefined;
+      const opts = await api.get("/seller/boost-options", token);
+      if (!opts.success) {
+        toast.error(opts.error || "Failed to load boost options");
+        return;
+      }
+      const { creditsRemaining, package: pkg } = opts.data as BoostOptions;
+      const onBoosted = async () => {
+        toast.success(`Listing boosted for ${BOOST_WINDOW_DAYS} days`);
+        setBoostCount((n) => n + 1);
+        await fetchDashboardData();
+      };
+
+      if (creditsRemaining !== 0) {
+        if (!confirm(`Use a boost credit to bump "${property.title}" to the top for ${BOOST_WINDOW_DAYS} days?`)) return;
+        const res = await api.post(`/seller/properties/${id}/boost`, {}, token);
+        if (!res.success) {
+          toast.error(res.error || "Failed to boost listing");
+          return;
+        }
+        await onBoosted();
+        return;
+      }
+
+      if (!pkg) {
+        toast.error("Boosts are not available right now");
+        return;
+      }
+      if (!confirm(`Bump "${property.title}" to the top for ${BOOST_WINDOW_DAYS} days for ₹${pkg.price}?`)) return;
+      const result = await startRazorpayPayment({
+        packageId: pkg._id,
+        propertyId: id,
+        description: pkg.name,
+        authToken: token,
+        onSuccess: onBoosted,
+      });
+      if (!result.ok) toast.error(result.error || "Payment failed");
+    } catch (e) {
+      console.error("boost:", e);
+      toast.error("Failed to boost listing");
+    } finally {
+      setBoostingId(null);
+    }
+  };
+
+  const downloadInvoice = async (p: Payment) => {
+    if (!p.invoiceUrl) return;
+    try {
+      const token = await getAuthToken();
+      const res = await fetch(createApiUrl(p.invoiceUrl), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${(p.invoiceNumber || "invoice").replace(/\//g, "-")}.pdf`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("invoice download:", e);
+      toast.error("Failed to download invoice");
+    }
+  };
+
   const handleResubmit = async (id: string) => {
     try {
       const token = await getAuthToken();
@@ -1324,6 +1407,27 @@ export default function EnhancedSellerDashboard() {
                                     Resubmit
                                   </Button>
                                 )}
+                                {property.status === "active" &&
+                                  property.approvalStatus === "approved" &&
+                                  !isBoostedNow(property) && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="border-orange-200 text-orange-700 hover:bg-orange-50"
+                                      disabled={boostingId === id}
+                                      onClick={() => handleBoost(property)}
+                                      title={`Bump this listing to the top for ${BOOST_WINDOW_DAYS} days`}
+                                    >
+                                      <Rocket className="h-3 w-3 mr-1" />
+                                      Boost
+                                    </Button>
+                                  )}
+                                {isBoostedNow(property) && (
+                                  <Badge className="ml-1 bg-orange-100 text-orange-800">
+                                    <Rocket className="h-3 w-3 mr-1" />
+                                    Boosted until {new Date(property.boostUntil!).toLocaleDateString()}
+                                  </Badge>
+                                )}
                                 {property.isPremium && (
                                   <Badge className="ml-1 bg-amber-100 text-amber-800">
                                     <Crown className="h-3 w-3 mr-1" />
@@ -1520,6 +1624,8 @@ export default function EnhancedSellerDashboard() {
                 </CardContent>
               </Card>
             </div>
+
+            <SellerBoostCard getToken={getAuthToken} refreshKey={boostCount} />
           </TabsContent>
 
           {/* Blog */}
@@ -1545,6 +1651,7 @@ export default function EnhancedSellerDashboard() {
 
           {/* Payments */}
           <TabsContent value="payments" className="space-y-4">
+            <SellerQuotaCard getToken={getAuthToken} />
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card>
                 <CardHeader>
@@ -1651,7 +1758,13 @@ export default function EnhancedSellerDashboard() {
                             </div>
                           </div>
                           <div className="flex items-center space-x-2 mt-2">
-                            <Button size="sm" variant="outline">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!p.invoiceUrl}
+                              title={p.invoiceUrl ? p.invoiceNumber || "" : "Invoice not issued yet"}
+                              onClick={() => downloadInvoice(p)}
+                            >
                               <Download className="h-3 w-3 mr-1" />
                               Invoice
                             </Button>
@@ -1671,6 +1784,7 @@ export default function EnhancedSellerDashboard() {
 
           {/* Settings */}
           <TabsContent value="settings" className="space-y-4">
+            <SellerVerificationCard getToken={getAuthToken} />
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card>
                 <CardHeader>
@@ -1866,6 +1980,8 @@ export default function EnhancedSellerDashboard() {
                   </Button>
                 </CardContent>
               </Card>
+
+              <SellerBillingCard getToken={getAuthToken} />
             </div>
           </TabsContent>
         </Tabs>
@@ -114,7 +114,7 @@ const EnhancedUserLogin = () => {
 
       // Handle successful response
       if (response.data && response.data.success === true) {
-        const { token, user } = response.data.data;
+        const { token, user, refreshToken } = response.data.data;
         console.log('Token received:', !!token);
         console.log('User received:', user);
 
@@ -125,12 +125,12 @@ const EnhancedUserLogin = () => {
 
           // Login user and redirect after showing success message
           setTimeout(() => {
-            login(token, user);
+            login(token, user, refreshToken);
             navigate("/");
           }, 2000);
         } else {
           // Login successful
-          login(token, user);
+          login(token, user, refreshToken);
 
           const dashboardRoutes = {
             seller: "/seller-dashboard",
@@ -172,17 +172,16 @@ const EnhancedUserLogin = () => {
 
       if (response.data?.success) {
         setOtpSent(true);
-        setOtpTimer(60);
-        setSuccess("OTP sent successfully! Use 123456 for demo");
+        setOtpTimer(response.data?.resendAfter || 60);
+        setSuccess(`OTP sent to ${response.data?.phone || formData.phone}`);
       } else {
+        // cooldown / hourly limit: keep the timer honest
+        if (response.data?.retryAfter && otpSent) setOtpTimer(response.data.retryAfter);
         setError(response.data?.error || "Failed to send OTP");
       }
     } catch (error: any) {
       console.error("OTP send error:", error);
-      // Fallback to mock for demo
-      setOtpSent(true);
-      setOtpTimer(60);
-      setSuccess("OTP sent successfully! Use 123456 for demo");
+      setError("Could not send OTP. Please check your connection and try again.");
     } finally {
       setLoading(false);
     }
@@ -197,33 +196,26 @@ const EnhancedUserLogin = () => {
     try {
       const response = await api.post("auth/verify-otp", {
         phone: formData.phone,
-        otp: formData.otp
+        otp: formData.otp,
+        // only used when this number has no account yet
+        name: formData.name,
+        userType: formData.userType,
       });
 
       if (response.data?.success) {
-        const { token, user } = response.data.data;
-        login(token, user);
+        const { token, user, refreshToken } = response.data;
+        login(token, user, refreshToken);
         navigate("/user-dashboard");
       } else {
-        setError(response.data?.error || "Invalid OTP");
+        const attemptsLeft = response.data?.attemptsLeft;
+        setError(
+          (response.data?.error || "Invalid OTP") +
+            (typeof attemptsLeft === "number" ? ` (${attemptsLeft} attempts left)` : "")
+        );
       }
     } catch (error: any) {
       console.error("OTP verification error:", error);
-      // Fallback to mock for demo
-      if (formData.otp === "123456" || formData.otp.length === 6) {
-        const mockUser = {
-          id: "otp-" + Date.now(),
-          name: formData.phone,
-          email: "",
-          phone: formData.phone,
-          userType: "seller"
-        };
-        const mockToken = "otp-token-" + Date.now();
-        login(mockToken, mockUser);
-        navigate("/user-dashboard");
-      } else {
-        setError("Invalid OTP. Use 123456 for demo");
-      }
+      setError("Could not verify OTP. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -247,8 +239,8 @@ const handleGoogleLogin = async () => {
     });
 
     if (data?.success) {
-      const { token, user } = data.data;
-      login(token, user);
+      const { token, user, refreshToken } = data.data;
+      login(token, user, refreshToken);
       redirectToCorrectDashboard(user.userType);
     } else {
       throw new Error(data?.error || "Google login failed");
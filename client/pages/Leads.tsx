@@ -179,6 +179,7 @@ export default function Leads() {
     outcome: "neutral" as LeadInteraction["outcome"],
     nextAction: "",
     scoreChange: 0,
+    nextFollowup: "",
   });
 
   const [stats, setStats] = useState({
@@ -214,8 +215,8 @@ export default function Leads() {
       if (!token) return;
 
       const response = await api.get("/agent/leads", token);
-      if (response.data.success) {
-        const leadsData = response.data.data as Lead[];
+      if (response.success) {
+        const leadsData = (response.data.items || []) as Lead[];
         setLeads(leadsData);
         calculateStats(leadsData);
       }
@@ -232,8 +233,8 @@ export default function Leads() {
       if (!token) return;
 
       const response = await api.get("/agent/lead-sources", token);
-      if (response.data.success) {
-        setLeadSources(response.data.data);
+      if (response.success) {
+        setLeadSources(response.data.items || []);
       }
     } catch (error) {
       console.error("Error fetching lead sources:", error);
@@ -355,6 +356,7 @@ export default function Leads() {
           outcome: "neutral",
           nextAction: "",
           scoreChange: 0,
+          nextFollowup: "",
         });
       }
     } catch (error) {
@@ -1581,6 +1583,23 @@ export default function Leads() {
                 />
               </div>
 
+              <div>
+                <label className="text-sm font-medium">Next Follow-up</label>
+                <Input
+                  type="date"
+                  value={newInteraction.nextFollowup}
+                  onChange={(e) =>
+                    setNewInteraction((prev) => ({
+                      ...prev,
+                      nextFollowup: e.target.value,
+                    }))
+                  }
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Leave empty to schedule it by the lead's urgency
+                </p>
+              </div>
+
               <div className="flex space-x-2">
                 <Button
                   onClick={addInteraction}
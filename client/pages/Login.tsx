@@ -76,10 +76,10 @@ export default function Login() {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ idToken, userType: userTypeParam }),
         });
-        const data: ApiResponse<{ token: string; user: any }> = await resp.json();
+        const data: ApiResponse<{ token: string; refreshToken?: string; user: any }> = await resp.json();
         if (!resp.ok || !data?.success) throw new Error(data?.error || "Failed to verify OTP");
 
-        login(data.data.token, data.data.user);
+        login(data.data.token, data.data.user, data.data.refreshToken);
 
         // Redirect based on userType
         const utype = data.data.user.userType;
@@ -117,11 +117,11 @@ export default function Login() {
           serviceAreas: userTypeParam === "agent" ? [] : undefined,
         }),
       });
-      const data: ApiResponse<{ token: string; user: any }> = await resp.json();
+      const data: ApiResponse<{ token: string; refreshToken?: string; user: any }> = await resp.json();
       if (!resp.ok || !data?.success) throw new Error(data?.error || "Failed to create profile");
 
       // Login & redirect
-      login(data.data.token, data.data.user);
+      login(data.data.token, data.data.user, data.data.refreshToken);
       const utype = data.data.user.userType;
       if (utype === "seller") window.location.href = "/seller-dashboard";
       else if (utype === "agent") window.location.href = "/agent-dashboard";
@@ -144,10 +144,10 @@ export default function Login() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ idToken, userType: userTypeParam }),
       });
-      const data: ApiResponse<{ token: string; user: any }> = await resp.json();
+      const data: ApiResponse<{ token: string; refreshToken?: string; user: any }> = await resp.json();
       if (!resp.ok || !data?.success) throw new Error(data?.error || "Google login failed");
 
-      login(data.data.token, data.data.user);
+      login(data.data.token, data.data.user, data.data.refreshToken);
       const utype = data.data.user.userType;
       if (utype === "seller") window.location.href = "/seller-dashboard";
       else if (utype === "agent") window.location.href = "/agent-dashboard";
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState, useCallback, useRef } from "react";
 import Header from "../components/Header";
 import BottomNavigation from "../components/BottomNavigation";
+import GeoPropertySearch from "../components/GeoPropertySearch";
 
 interface AreaMapItem {
   _id?: string;
@@ -255,6 +256,8 @@ export default function Maps() {
           <h1 className="text-2xl font-bold">Maps</h1>
         </div>
 
+        <GeoPropertySearch />
+
         {areas.length > 0 && (
           <div className="flex gap-2 flex-wrap mb-4">
             <button
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from "react";
 import { useAuth } from "../hooks/useAuth";
 import { useNavigate, Link, useSearchParams } from "react-router-dom";
 import { Property } from "@shared/types";
+import { DEFAULT_LISTING_EXPIRY_SETTINGS, daysUntilExpiry } from "@shared/listingExpiry";
 import { api } from "../lib/api";
 import { Button } from "../components/ui/button";
 import {
@@ -83,6 +84,9 @@ import {
 import OLXStyleHeader from "../components/OLXStyleHeader";
 import BottomNavigation from "../components/BottomNavigation";
 
+// the renew action shows from the first default reminder; the server has the final say
+const RENEW_WINDOW_DAYS = Math.max(...DEFAULT_LISTING_EXPIRY_SETTINGS.reminderDays);
+
 interface PropertyStats {
   views: number;
   inquiries: number;
@@ -99,7 +103,7 @@ export default function MyProperties() {
   const [properties, setProperties] = useState<Property[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<
-    "all" | "pending" | "approved" | "rejected"
+    "all" | "pending" | "approved" | "rejected" | "expired"
   >("all");
   const [typeFilter, setTypeFilter] = useState<"all" | "premium" | "regular">(
     "all",
@@ -120,6 +124,7 @@ export default function MyProperties() {
     pending: 0,
     approved: 0,
     rejected: 0,
+    expired: 0,
     premium: 0,
     totalViews: 0,
     totalInquiries: 0,
@@ -137,8 +142,8 @@ export default function MyProperties() {
     const status = searchParams.get("status");
     const sort = searchParams.get("sort");
 
-    if (status && ["pending", "approved", "rejected"].includes(status)) {
-      setStatusFilter(status as "pending" | "approved" | "rejected");
+    if (status && ["pending", "approved", "rejected", "expired"].includes(status)) {
+      setStatusFilter(status as "pending" | "approved" | "rejected" | "expired");
     }
 
     if (sort && ["newest", "oldest", "price", "views"].includes(sort)) {
@@ -179,6 +184,7 @@ export default function MyProperties() {
         .length,
       rejected: properties.filter((p) => p.approvalStatus === "rejected")
         .length,
+      expired: properties.filter((p) => p.status === "expired").length,
       premium: properties.filter((p) => p.isPremium).length,
       totalViews,
       totalInquiries,
@@ -291,6 +297,42 @@ export default function MyProperties() {
     }
   };
 
+  const renewProperty = async (property: Property) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        alert("Please login to renew your property");
+        return;
+      }
+
+      const response = await api.post(
+        `/seller/properties/${property._id}/renew`,
+        {},
+        token,
+      );
+
+      if (response.data.success) {
+        alert(
+          response.data.reviewRequired
+            ? "Your listing has changed since it was approved, so it has been sent for review. It will go live again once approved."
+            : "Listing renewed! It is live again.",
+        );
+        fetchProperties();
+      } else {
+        alert(response.data.error || "Failed to renew property");
+      }
+    } catch (error: any) {
+      console.error("Error renewing property:", error);
+      alert(error.message || "Network error occurred while renewing property");
+    }
+  };
+
+  const canRenew = (property: Property) => {
+    if (property.status === "expired") return true;
+    const left = daysUntilExpiry(property.expiresAt);
+    return property.status === "active" && left !== null && left <= RENEW_WINDOW_DAYS;
+  };
+
   const getFilteredProperties = () => {
     let filtered = properties;
 
@@ -307,7 +349,9 @@ export default function MyProperties() {
     }
 
     // Apply status filter
-    if (statusFilter !== "all") {
+    if (statusFilter === "expired") {
+      filtered = filtered.filter((property) => property.status === "expired");
+    } else if (statusFilter !== "all") {
       filtered = filtered.filter(
         (property) => property.approvalStatus === statusFilter,
       );
@@ -435,7 +479,7 @@ export default function MyProperties() {
         </div>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4 mb-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4 mb-6">
           <Card>
             <CardContent className="p-4 text-center">
               <div className="text-2xl font-bold text-[#C70000]">
@@ -472,6 +516,15 @@ export default function MyProperties() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardContent className="p-4 text-center">
+              <div className="text-2xl font-bold text-gray-500">
+                {stats.expired}
+              </div>
+              <div className="text-sm text-gray-600">Expired</div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardContent className="p-4 text-center">
               <div className="text-2xl font-bold text-amber-600">
@@ -523,6 +576,7 @@ export default function MyProperties() {
                 <option value="pending">Pending</option>
                 <option value="approved">Approved</option>
                 <option value="rejected">Rejected</option>
+                <option value="expired">Expired</option>
               </select>
 
               <select
@@ -643,7 +697,33 @@ export default function MyProperties() {
 
                         <TableCell>
                           <div className="space-y-2">
-                            {getStatusBadge(property.approvalStatus)}
+                            {property.status === "expired" ? (
+                              <Badge variant="outline" className="bg-gray-100 text-gray-700">
+                                <Clock className="h-3 w-3 mr-1" />
+                                Expired
+                              </Badge>
+                            ) : (
+                              getStatusBadge(property.approvalStatus)
+                            )}
+                            {property.status === "active" &&
+                              property.approvalStatus === "approved" &&
+                              property.expiresAt && (
+                                <div className="text-xs text-gray-500">
+                                  Expires{" "}
+                                  {new Date(property.expiresAt).toLocaleDateString()}
+                                </div>
+                              )}
+                            {canRenew(property) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="w-full border-green-600 text-green-700 hover:bg-green-50"
+                                onClick={() => renewProperty(property)}
+                              >
+                                <RefreshCw className="h-3 w-3 mr-1" />
+                                Renew
+                              </Button>
+                            )}
                             {property.approvalStatus === "rejected" && (
                               <>
                                 {property.rejectionReason && (
@@ -758,26 +838,28 @@ export default function MyProperties() {
                                 </DropdownMenuItem>
                               )}
 
-                              <DropdownMenuItem
-                                onClick={() =>
-                                  togglePropertyStatus(
-                                    property._id,
-                                    property.status,
-                                  )
-                                }
-                              >
-                                {property.status === "active" ? (
-                                  <>
-                                    <XCircle className="h-4 w-4 mr-2" />
-                                    Deactivate
-                                  </>
-                                ) : (
-                                  <>
-                                    <CheckCircle className="h-4 w-4 mr-2" />
-                                    Activate
-                                  </>
-                                )}
-                              </DropdownMenuItem>
+                              {property.status !== "expired" && (
+                                <DropdownMenuItem
+                                  onClick={() =>
+                                    togglePropertyStatus(
+                                      property._id,
+                                      property.status,
+                                    )
+                                  }
+                                >
+                                  {property.status === "active" ? (
+                                    <>
+                                      <XCircle className="h-4 w-4 mr-2" />
+                                      Deactivate
+                                    </>
+                                  ) : (
+                                    <>
+                                      <CheckCircle className="h-4 w-4 mr-2" />
+                                      Activate
+                                    </>
+                                  )}
+                                </DropdownMenuItem>
+                              )}
 
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
@@ -2,6 +2,8 @@ import React, { useEffect, useState, useCallback } from "react";
 import Header from "../components/Header";
 import BottomNavigation from "../components/BottomNavigation";
 import useEmblaCarousel from "embla-carousel-react";
+import { AdRef, trackAdClick } from "../lib/adTracking";
+import { useAdImpression } from "../hooks/useAdImpression";
 
 interface Banner {
   _id?: string;
@@ -12,10 +14,15 @@ interface Banner {
   isActive: boolean;
 }
 
+const adRef = (b: Banner | undefined): AdRef | null =>
+  b?._id ? { source: "new_project_banner", adId: b._id, slot: "new_projects_page" } : null;
+
 export default function NewProjects() {
   const [banners, setBanners] = useState<Banner[]>([]);
   const [loading, setLoading] = useState(true);
   const [emblaRef, emblaApi] = useEmblaCarousel({ loop: true, skipSnaps: false });
+  const [selected, setSelected] = useState(0);
+  const impressionRef = useAdImpression(adRef(banners[selected]));
 
   const fetchBanners = useCallback(async () => {
     try {
@@ -60,6 +67,16 @@ export default function NewProjects() {
     }
   }, [banners, emblaApi]);
 
+  useEffect(() => {
+    if (!emblaApi) return;
+    const onSelect = () => setSelected(emblaApi.selectedScrollSnap());
+    onSelect();
+    emblaApi.on("select", onSelect);
+    return () => {
+      emblaApi.off("select", onSelect);
+    };
+  }, [emblaApi]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -83,12 +100,12 @@ export default function NewProjects() {
         <h1 className="text-2xl font-bold mb-4">New Projects</h1>
 
         {banners.length > 0 ? (
-          <div className="embla overflow-hidden rounded-lg">
+          <div className="embla overflow-hidden rounded-lg" ref={impressionRef}>
             <div className="embla__viewport" ref={emblaRef}>
               <div className="embla__container flex">
                 {banners.map((b) => (
                   <div key={b._id} className="embla__slide min-w-full">
-                    <a href={b.link} className="block w-full">
+                    <a href={b.link} className="block w-full" onClick={() => trackAdClick(adRef(b))}>
                       <div className="relative w-full h-64 md:h-96 bg-gray-100 rounded-lg overflow-hidden">
                         <img
                           src={b.imageUrl}
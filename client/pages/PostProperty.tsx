@@ -265,6 +265,7 @@ export default function PostProperty() {
   const [selectedPackagePrice, setSelectedPackagePrice] = useState(0);
   const [propertyId, setPropertyId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [featureListing, setFeatureListing] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
   const [editPropertyId, setEditPropertyId] = useState<string | null>(null);
 
@@ -678,6 +679,7 @@ export default function PostProperty() {
       submitData.append("contactInfo", JSON.stringify(formData.contactInfo));
       submitData.append("premium", withPackage.toString());
       submitData.append("contactVisible", (!withPackage).toString());
+      if (withPackage && featureListing) submitData.append("featured", "true");
 
       formData.images.forEach((image) => submitData.append("images", image));
 
@@ -1736,6 +1738,19 @@ export default function PostProperty() {
               </div>
 
               <div className="space-y-4">
+                {!isEditMode && (
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={featureListing}
+                      onChange={(e) => setFeatureListing(e.target.checked)}
+                      className="rounded border-gray-300 text-[#C70000] focus:ring-[#C70000]"
+                    />
+                    <span className="text-sm text-gray-700">
+                      Feature this listing (uses a featured slot from your package)
+                    </span>
+                  </label>
+                )}
                 <Button
                   onClick={() => handleSubmit(true)}
                   disabled={loading}
@@ -13,10 +13,12 @@ import {
   Layers,
   Tag,
   BadgeCheck,
+  ShieldCheck,
   Landmark,
   FileText,
   IdCard,
   X,
+  GitCompare,
 } from "lucide-react";
 import { useWatermark } from "../hooks/useWatermark";
 import { Button } from "../components/ui/button";
@@ -28,7 +30,11 @@ import PropertyReviews from "../components/PropertyReviews";
 import ReviewsList from "../components/ReviewsList";
 import ReviewForm from "../components/ReviewForm";
 import LocationMap from "../components/LocationMap";
+import PriceDropBadge from "../components/PriceDropBadge";
+import PriceHistoryChart from "../components/PriceHistoryChart";
 import { useAuth } from "../hooks/useAuth";
+import { useCompareTray } from "../hooks/useCompareTray";
+import { startPropertyView } from "../lib/viewTracking";
 
 /* ---------------- UI helpers ---------------- */
 const KV = ({ k, v }: { k: string; v?: any }) =>
@@ -65,6 +71,7 @@ interface Property {
     colony?: string;
     landmark?: string;
     nearby?: string[];
+    coordinates?: { lat: number; lng: number };
   };
   contactInfo: {
     name: string;
@@ -76,6 +83,9 @@ interface Property {
   status: "active" | "inactive" | "sold" | "rented";
   featured: boolean;
   premium: boolean;
+  previousPrice?: number | null;
+  priceDropPct?: number | null;
+  priceChangedAt?: string | null;
   specifications?: {
     bedrooms?: number;
     bathrooms?: number;
@@ -112,6 +122,7 @@ interface Property {
   amenities?: string[];
   tags?: string[];
   isVerified?: boolean;
+  sellerVerified?: boolean;
   meta?: {
     verified?: boolean;
     postedBy?: string;
@@ -488,6 +499,25 @@ export default function PropertyDetail() {
 
   const [lightboxOpen, setLightboxOpen] = useState(false);
 
+  const compareTray = useCompareTray();
+  const toggleCompare = () => {
+    if (!property) return;
+    if (compareTray.has(property._id)) {
+      compareTray.remove(property._id);
+      notify("Removed from compare");
+      return;
+    }
+    const added = compareTray.add({
+      _id: property._id,
+      title: property.title,
+      image: property.images?.[0] || null,
+      price: property.price,
+      priceType: property.priceType,
+    });
+    if (added) notify("Added to compare");
+    else notify("You can compare up to 4 properties. Remove one first.", "error");
+  };
+
   const buildAuthHeaders = () => {
     const h: Record<string, string> = { "Content-Type": "application/json" };
     const ls = localStorage;
@@ -543,6 +573,13 @@ export default function PropertyDetail() {
     }
   }, [id]);
 
+  // recently viewed history with dwell time; waits for auth so the view
+  // lands on the account rather than the anonymous visitor
+  useEffect(() => {
+    if (!id || authLoading) return;
+    return startPropertyView(id, token);
+  }, [id, authLoading, token]);
+
   const fetchProperty = async (retryCount = 0) => {
     try {
       setLoading(true);
@@ -700,7 +737,16 @@ export default function PropertyDetail() {
   const handleCall = (phoneNumber: string) => {
     try {
       const url = `/api/analytics/phone/${id}`;
-      if (navigator.sendBeacon) {
+      const bearer = token || localStorage.getItem("token");
+      // a beacon can't carry the token, and signed-in calls become the agent's leads
+      if (bearer) {
+        fetch(url, {
+          method: "POST",
+          keepalive: true,
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${bearer}` },
+          body: JSON.stringify({ ts: Date.now() }),
+        }).catch(() => {});
+      } else if (navigator.sendBeacon) {
         const blob = new Blob([JSON.stringify({ ts: Date.now() })], {
           type: "application/json",
         });
@@ -909,6 +955,14 @@ export default function PropertyDetail() {
               >
                 <Share2 className="h-4 w-4" />
               </Button>
+              <Button
+                variant={property && compareTray.has(property._id) ? "secondary" : "ghost"}
+                size="sm"
+                title="Compare"
+                onClick={toggleCompare}
+              >
+                <GitCompare className="h-4 w-4" />
+              </Button>
               <Button
                 size="sm"
                 disabled={startingChat}
@@ -971,6 +1025,17 @@ export default function PropertyDetail() {
                   ₹{Number(property.price || 0).toLocaleString("en-IN")}{" "}
                   {isRent && <span className="text-lg">/month</span>}
                 </div>
+                {!!property.priceDropPct && !!property.previousPrice && (
+                  <div className="flex items-center gap-2 mb-3">
+                    <PriceDropBadge
+                      priceDropPct={property.priceDropPct}
+                      priceChangedAt={property.priceChangedAt}
+                    />
+                    <span className="text-sm text-gray-500 line-through">
+                      ₹{Number(property.previousPrice).toLocaleString("en-IN")}
+                    </span>
+                  </div>
+                )}
 
                 <div className="flex flex-wrap gap-1 mb-3">
                   {!!property.propertyType && (
@@ -998,6 +1063,12 @@ export default function PropertyDetail() {
                       Verified
                     </Chip>
                   )}
+                  {property.sellerVerified && (
+                    <Chip className="bg-emerald-50 text-emerald-700">
+                      <ShieldCheck className="h-3 w-3 mr-1" />
+                      Verified Seller
+                    </Chip>
+                  )}
                 </div>
 
                 {property.description && (
@@ -1184,6 +1255,8 @@ export default function PropertyDetail() {
               </CardContent>
             </Card>
 
+            <PriceHistoryChart propertyId={property._id} />
+
             {(property.location?.address ||
               property.location?.city ||
               property.location?.sector ||
@@ -1197,6 +1270,8 @@ export default function PropertyDetail() {
                     sector={property.location?.sector}
                     colony={property.location?.colony}
                     landmark={property.location?.landmark}
+                    coordinates={property.location?.coordinates}
+                    propertyId={property._id}
                   />
                 </CardContent>
               </Card>
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from "react";
 import { useAuth } from "../hooks/useAuth";
 import { useNavigate, Link } from "react-router-dom";
 import { Property } from "@shared/types";
+import { ViewHistorySettings, ViewingSession } from "@shared/viewHistory";
 import { api } from "../lib/api";
 import { Button } from "../components/ui/button";
 import {
@@ -60,6 +61,8 @@ import {
   Square,
   CalendarDays,
   ArrowRight,
+  Pause,
+  Play,
 } from "lucide-react";
 import OLXStyleHeader from "../components/OLXStyleHeader";
 import BottomNavigation from "../components/BottomNavigation";
@@ -73,15 +76,6 @@ interface ViewedProperty extends Property {
   lastViewSession: string;
 }
 
-interface ViewingSession {
-  _id: string;
-  date: string;
-  properties: string[];
-  totalTimeSpent: number;
-  searchQuery?: string;
-  filters?: any;
-}
-
 export default function RecentViews() {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -97,6 +91,7 @@ export default function RecentViews() {
   >("recent");
   const [viewMode, setViewMode] = useState<"grid" | "list">("list");
   const [selectedTab, setSelectedTab] = useState("properties");
+  const [historyPaused, setHistoryPaused] = useState(false);
 
   const [stats, setStats] = useState({
     totalViews: 0,
@@ -114,6 +109,7 @@ export default function RecentViews() {
     }
     fetchRecentViews();
     fetchViewingSessions();
+    fetchHistorySettings();
   }, [user, navigate]);
 
   const fetchRecentViews = async () => {
@@ -123,8 +119,8 @@ export default function RecentViews() {
       if (!token) return;
 
       const response = await api.get("/user/recent-views", token);
-      if (response.data.success) {
-        const viewsData = response.data.data as ViewedProperty[];
+      if (response.success) {
+        const viewsData = (response.data.items || []) as ViewedProperty[];
         setRecentViews(viewsData);
         calculateStats(viewsData);
       }
@@ -141,14 +137,36 @@ export default function RecentViews() {
       if (!token) return;
 
       const response = await api.get("/user/viewing-sessions", token);
-      if (response.data.success) {
-        setViewingSessions(response.data.data as ViewingSession[]);
+      if (response.success) {
+        setViewingSessions((response.data.items || []) as ViewingSession[]);
       }
     } catch (error) {
       console.error("Error fetching viewing sessions:", error);
     }
   };
 
+  const fetchHistorySettings = async () => {
+    const token = localStorage.getItem("token");
+    if (!token) return;
+    const response = await api.get("/user/view-history/settings", token);
+    if (response.success) {
+      setHistoryPaused(Boolean((response.data as ViewHistorySettings).paused));
+    }
+  };
+
+  const toggleHistoryPaused = async () => {
+    const token = localStorage.getItem("token");
+    if (!token) return;
+    const response = await api.put(
+      "/user/view-history/settings",
+      { paused: !historyPaused },
+      token,
+    );
+    if (response.success) {
+      setHistoryPaused(Boolean((response.data as ViewHistorySettings).paused));
+    }
+  };
+
   const calculateStats = (views: ViewedProperty[]) => {
     const now = new Date();
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -196,6 +214,7 @@ export default function RecentViews() {
 
       await api.delete(`/user/recent-views/${propertyId}`, token);
       fetchRecentViews();
+      fetchViewingSessions();
     } catch (error) {
       console.error("Error removing from recent views:", error);
     }
@@ -208,6 +227,7 @@ export default function RecentViews() {
 
       await api.delete("/user/recent-views", token);
       fetchRecentViews();
+      fetchViewingSessions();
     } catch (error) {
       console.error("Error clearing recent views:", error);
     }
@@ -346,8 +366,29 @@ export default function RecentViews() {
             <p className="text-gray-600">
               Your property viewing history and browsing patterns
             </p>
+            {historyPaused && (
+              <p className="text-sm text-amber-600 mt-1">
+                History is paused. Properties you open are not being saved.
+              </p>
+            )}
           </div>
           <div className="flex items-center space-x-2">
+            <Button
+              onClick={toggleHistoryPaused}
+              variant="outline"
+              title={
+                historyPaused
+                  ? "Properties you open are not being saved"
+                  : "Stop saving properties you open"
+              }
+            >
+              {historyPaused ? (
+                <Play className="h-4 w-4 mr-2" />
+              ) : (
+                <Pause className="h-4 w-4 mr-2" />
+              )}
+              {historyPaused ? "Resume History" : "Pause History"}
+            </Button>
             <Button onClick={fetchRecentViews} variant="outline">
               <RefreshCw className="h-4 w-4 mr-2" />
               Refresh
@@ -365,7 +406,8 @@ export default function RecentViews() {
                     <AlertDialogTitle>Clear All Recent Views</AlertDialogTitle>
                     <AlertDialogDescription>
                       Are you sure you want to clear your entire viewing
-                      history? This action cannot be undone.
+                      history, including your browsing sessions? This action
+                      cannot be undone.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
@@ -842,11 +884,30 @@ export default function RecentViews() {
                                   total time
                                 </span>
                               </div>
-                              {session.searchQuery && (
+                              {(session.searchQuery || session.searchPath) && (
                                 <p className="text-sm text-blue-600 mt-1">
-                                  Searched: "{session.searchQuery}"
+                                  {session.searchPath ? (
+                                    <Link to={session.searchPath}>
+                                      {session.searchQuery
+                                        ? `Searched: "${session.searchQuery}"`
+                                        : "From a property search"}
+                                    </Link>
+                                  ) : (
+                                    <>Searched: "{session.searchQuery}"</>
+                                  )}
                                 </p>
                               )}
+                              {session.filters && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {Object.entries(session.filters).map(
+                                    ([key, value]) => (
+                                      <Badge key={key} variant="outline">
+                                        {key}: {value}
+                                      </Badge>
+                                    ),
+                                  )}
+                                </div>
+                              )}
                             </div>
                             <ArrowRight className="h-5 w-5 text-gray-400" />
                           </div>
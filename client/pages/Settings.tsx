@@ -62,6 +62,7 @@ import {
 } from "lucide-react";
 import OLXStyleHeader from "../components/OLXStyleHeader";
 import BottomNavigation from "../components/BottomNavigation";
+import ActiveSessions from "../components/auth/ActiveSessions";
 
 interface NotificationSettings {
   emailNotifications: boolean;
@@ -689,6 +690,8 @@ export default function Settings() {
                 </div>
               </CardContent>
             </Card>
+
+            <ActiveSessions />
           </TabsContent>
 
           {/* Notifications Tab */}
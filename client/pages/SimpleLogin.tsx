@@ -71,8 +71,8 @@ export default function SimpleLogin() {
       console.log('Response data:', data);
 
       if (data.success) {
-        const { token, user, verificationLink } = data.data;
-        login(token, user);
+        const { token, user, refreshToken, verificationLink } = data.data;
+        login(token, user, refreshToken);
 
         if (!isLogin && verificationLink) {
           // Show email verification for new registrations
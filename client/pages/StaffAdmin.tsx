@@ -3,6 +3,7 @@ import { useAuth } from "../hooks/useAuth";
 import { useNavigate } from "react-router-dom";
 import StaffAdminLayout from "../components/StaffAdminLayout";
 import { canAccessSection } from "../utils/permissions";
+import { useStaffPermissions } from "../hooks/useStaffPermissions";
 import { Shield } from "lucide-react";
 
 // Import all admin components
@@ -34,9 +35,11 @@ import PremiumListingApprovals from "../components/admin/PremiumListingApprovals
 import CustomFieldsManagement from "../components/admin/CustomFieldsManagement";
 import UserManagement from "../components/admin/UserManagement";
 import PropertyManagement from "../components/admin/PropertyManagement";
+import AuditLogViewer from "../components/admin/AuditLogViewer";
 
 export default function StaffAdmin() {
   const { user, isAuthenticated } = useAuth();
+  const grantedPermissions = useStaffPermissions(user?.role);
   const navigate = useNavigate();
   const [activeSection, setActiveSection] = useState("dashboard");
   const [loading, setLoading] = useState(true);
@@ -58,7 +61,7 @@ export default function StaffAdmin() {
 
   const renderContent = () => {
     // Check if user has permission to access this section
-    if (!canAccessSection(user?.role || "admin", activeSection)) {
+    if (!canAccessSection(user?.role || "admin", activeSection, grantedPermissions)) {
       return (
         <div className="flex items-center justify-center h-96">
           <div className="text-center">
@@ -175,6 +178,8 @@ export default function StaffAdmin() {
         return <StaffManagement />;
       case "staff-management":
         return <StaffManagement />;
+      case "audit-log":
+        return <AuditLogViewer />;
 
       // Content Management
       case "footer-management":
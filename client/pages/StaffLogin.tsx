@@ -49,7 +49,7 @@ export default function StaffLogin() {
 
       if (data.success) {
         // Use the login function from useAuth
-        login(data.data.token, data.data.user);
+        login(data.data.token, data.data.user, data.data.refreshToken);
         
         // Redirect to staff admin panel for all staff members
         navigate("/staff-admin");
@@ -166,6 +166,21 @@ const UserDashboard = () => {
     }
   };
 
+  // Another account verified a number that is also on this profile
+  const phoneReleaseRequest = notifications.find(
+    (n) => n.type === "phone_release_request" && !n.isRead,
+  );
+
+  const answerPhoneRelease = async (release: boolean) => {
+    try {
+      const token = localStorage.getItem("token");
+      await api.post("auth/phone-release", { release }, token);
+    } catch (error) {
+      console.error("Error answering phone number request:", error);
+    }
+    if (phoneReleaseRequest) markNotificationAsRead(phoneReleaseRequest._id);
+  };
+
   const deleteNotification = async (notificationId: string) => {
     try {
       const token = localStorage.getItem("token");
@@ -355,6 +370,25 @@ const UserDashboard = () => {
           </div>
         </div>
 
+        {phoneReleaseRequest && (
+          <Card className="mb-6 border-yellow-200 bg-yellow-50">
+            <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div>
+                <p className="font-medium text-gray-900">{phoneReleaseRequest.title}</p>
+                <p className="text-sm text-gray-600">{phoneReleaseRequest.message}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => answerPhoneRelease(false)}>
+                  It's mine, keep it
+                </Button>
+                <Button size="sm" onClick={() => answerPhoneRelease(true)}>
+                  Remove it
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Basic Stats Cards */}
         <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
           <Card
@@ -69,8 +69,8 @@ const UserLogin = () => {
       console.log("API response:", response);
 
       if (response.data.success) {
-        const { token, user } = response.data.data;
-        login(token, user);
+        const { token, user, refreshToken } = response.data.data;
+        login(token, user, refreshToken);
         
         // Redirect to user dashboard
         navigate("/user-dashboard");
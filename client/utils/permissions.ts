@@ -1,35 +1,12 @@
-// Role-based permission mapping
-export const rolePermissions: Record<string, string[]> = {
-  super_admin: [
-    "dashboard.view", "content.manage", "content.create", "content.view", 
-    "ads.manage", "ads.view", "ads.approve", "categories.manage",
-    "packages.manage", "payments.manage", "payments.view", "payments.approve",
-    "users.manage", "users.view", "sellers.manage", "sellers.verify", "sellers.view",
-    "locations.manage", "reports.manage", "reports.view", "promotions.manage",
-    "notifications.send", "staff.manage", "roles.manage", "blog.manage", "blog.view",
-    "support.view", "system.manage", "system.view", "system.test", "system.update", "system.debug",
-    "analytics.view"
-  ],
-  content_manager: [
-    "dashboard.view", "content.manage", "content.create", "content.view",
-    "blog.manage", "blog.view", "ads.view", "support.view"
-  ],
-  sales_manager: [
-    "dashboard.view", "users.view", "sellers.manage", "sellers.verify", "sellers.view",
-    "payments.view", "packages.manage", "ads.view", "analytics.view"
-  ],
-  support_executive: [
-    "dashboard.view", "users.view", "support.view", "reports.view", "content.view"
-  ],
-  admin: [
-    "dashboard.view", "content.view", "users.view", "ads.view", "analytics.view"
-  ]
-};
+import { ROLE_PERMISSIONS, permissionAllows } from "@shared/permissions";
+
+// Role-based permission mapping (same table the admin API enforces)
+export const rolePermissions: Record<string, string[]> = ROLE_PERMISSIONS;
 
 // Check if user has a specific permission
 export const hasPermission = (userRole: string, permission: string): boolean => {
   const permissions = rolePermissions[userRole] || rolePermissions.admin;
-  return permissions.includes(permission);
+  return permissionAllows(permissions, permission);
 };
 
 // Check if user has any of the required permissions
@@ -37,6 +14,11 @@ export const hasAnyPermission = (userRole: string, requiredPermissions: string[]
   return requiredPermissions.some(permission => hasPermission(userRole, permission));
 };
 
+// Same check against an explicit permission list (e.g. from /api/admin/me/permissions)
+export const grantsAnyPermission = (granted: string[], requiredPermissions: string[]): boolean => {
+  return requiredPermissions.some(permission => permissionAllows(granted, permission));
+};
+
 // Get all permissions for a role
 export const getRolePermissions = (userRole: string): string[] => {
   return rolePermissions[userRole] || rolePermissions.admin;
@@ -49,13 +31,19 @@ export const getRoleDisplayName = (role: string): string => {
     content_manager: "Content Manager", 
     sales_manager: "Sales Manager",
     support_executive: "Support Executive",
+    property_moderator: "Property Moderator",
+    custom_role: "Custom Role",
     admin: "Admin"
   };
   return roleDisplayNames[role] || "Staff";
 };
 
 // Check if user can access a specific section
-export const canAccessSection = (userRole: string, sectionId: string): boolean => {
+export const canAccessSection = (
+  userRole: string,
+  sectionId: string,
+  grantedPermissions?: string[],
+): boolean => {
   const sectionPermissions: Record<string, string[]> = {
     "dashboard": ["dashboard.view"],
     "content-management": ["content.create"],
@@ -75,6 +63,7 @@ export const canAccessSection = (userRole: string, sectionId: string): boolean =
     "transactions": ["payments.view"],
     "manual-payment-approval": ["payments.approve"],
     "bank-transfer": ["payments.manage"],
+    "payment-reconciliation": ["payments.view"],
     "all-users": ["users.view"],
     "user-analytics": ["analytics.view"],
     "seller-management": ["sellers.manage"],
@@ -92,8 +81,10 @@ export const canAccessSection = (userRole: string, sectionId: string): boolean =
     "user-reports": ["reports.view"],
     "send-notification": ["notifications.send"],
     "customers": ["users.view"],
+    "ad-campaigns": ["ads.view"],
     "role": ["roles.manage"],
     "staff-management": ["staff.manage"],
+    "audit-log": ["audit.view"],
     "footer-management": ["content.manage"],
     "blog-management": ["blog.manage"],
     "blogs": ["blog.view"],
@@ -108,5 +99,7 @@ export const canAccessSection = (userRole: string, sectionId: string): boolean =
   };
 
   const requiredPermissions = sectionPermissions[sectionId] || [];
-  return hasAnyPermission(userRole, requiredPermissions);
+  return grantedPermissions
+    ? grantsAnyPermission(grantedPermissions, requiredPermissions)
+    : hasAnyPermission(userRole, requiredPermissions);
 };
@@ -10,13 +10,22 @@ import {
   authenticateToken,
   requireAdmin,
   requireSellerOrAgent,
+  requireAgent,
+  optionalAuth,
 } from "./middleware/auth";
 import { requireBuyer } from "./middleware/auth";
+import { enforceAdminPermissions } from "./middleware/permissions";
 import { ChatSocketServer } from "./socketio";
 import reviewsRouter from "./routes/reviews";
 import phonepeRoutes from "./routes/phonepe";
 import {
   getProperties,
+  searchProperties,
+  getNearbyProperties,
+  getPropertyComparison,
+  getPropertiesWithinPolygon,
+  getPropertyPriceHistory,
+  getPropertyRisk,
   getPropertyById,
   createProperty,
   getFeaturedProperties,
@@ -127,6 +136,7 @@ import {
   loginUser,
   sendOTP, // (deprecated, but mounted)
   verifyOTP, // (deprecated, but mounted)
+  respondToPhoneRelease,
   googleAuth,
   getUserProfile,
   updateUserProfile,
@@ -446,6 +456,7 @@ import {
   updateStaffPassword,
   getRolesAndPermissions,
   getAvailablePermissions,
+  getMyPermissions,
 } from "./routes/staff";
 
 // Notification management routes
@@ -457,9 +468,136 @@ import {
   deleteNotification,
 } from "./routes/notifications";
 import { getUnreadNotificationsCount } from "./routes/notifications-unread";
-import { subscribeToTopic } from "./routes/notifications-subscribe";
+import {
+  subscribeToTopic,
+  registerDeviceToken,
+} from "./routes/notifications-subscribe";
 import { requestEmailOtp, verifyEmailOtp } from "./routes/email-otp";
 
+// Background job scheduler
+import { startScheduler } from "./utils/scheduler";
+import { registerDefaultJobs } from "./jobs";
+import { ensurePropertySearchIndexes } from "./utils/propertySearch";
+import { ensurePropertyGeoIndexes } from "./utils/geo";
+import { ensureAuditIndexes } from "./utils/auditLog";
+import { getAuditLogs, exportAuditLogs } from "./routes/audit-logs";
+import { ensureSessionIndexes } from "./utils/authSessions";
+import { ensurePhoneOtpIndexes } from "./utils/phoneOtp";
+import { ensureAdTrackingIndexes } from "./utils/adTracking";
+import {
+  trackAdEvents,
+  getBannerStats,
+  getAdvertiserReport,
+  createAdvertiserReportLink,
+  revokeAdvertiserReportLink,
+  getSharedAdvertiserReport,
+} from "./routes/ad-tracking";
+import { ensureAdCampaignIndexes } from "./utils/adCampaigns";
+import { ensurePaymentLedgerIndexes } from "./utils/paymentLedger";
+import { ensureReconciliationIndexes } from "./utils/paymentReconciliation";
+import { ensureRefundIndexes } from "./utils/paymentRefunds";
+import { createRefund, getRefundQuote, getRefunds } from "./routes/payment-refunds";
+import { ensureInvoiceIndexes } from "./utils/invoices";
+import { migratePackageEntitlements } from "./utils/entitlements";
+import { ensureBoostIndexes } from "./utils/boosts";
+import { ensureListingExpiryIndexes } from "./utils/listingExpiry";
+import { getListingExpiryConfig, updateListingExpiryConfig } from "./routes/listing-expiry";
+import { boostProperty, getBoostOptions, getSellerBoosts } from "./routes/boosts";
+import { ensureLeadIndexes } from "./utils/leads";
+import {
+  addAgentLeadInteraction,
+  convertAgentLead,
+  createAgentLead,
+  deleteAgentLead,
+  getAgentLead,
+  getAgentLeadSources,
+  getAgentLeads,
+  updateAgentLead,
+  updateAgentLeadScore,
+  updateAgentLeadStatus,
+} from "./routes/agent-leads";
+import { ensureAgentClientIndexes } from "./utils/agentClients";
+import {
+  addAgentClientInteraction,
+  createAgentClient,
+  createAgentDeal,
+  deleteAgentClient,
+  getAgentClient,
+  getAgentClients,
+  getAgentDeals,
+  getAgentSummary,
+  linkAgentClientProperty,
+  unlinkAgentClientProperty,
+  updateAgentClient,
+  updateAgentClientStatus,
+  updateAgentDealCommission,
+  updateAgentDealStage,
+} from "./routes/agent-clients";
+import { ensureViewHistoryIndexes } from "./utils/viewHistory";
+import {
+  clearRecentViews,
+  getRecentViews,
+  getViewHistorySettings,
+  getViewingSessions,
+  mergeRecentViews,
+  removeRecentView,
+  startPropertyView,
+  updateViewHistorySettings,
+  viewHeartbeat,
+} from "./routes/view-history";
+import { ensureSellerVerificationIndexes } from "./utils/sellerVerification";
+import { ensureMessagingIndexes, migrateMessageConversationIds } from "./utils/messaging";
+import { ensureListingRiskIndexes, migratePhoneKeys } from "./utils/listingRisk";
+import {
+  getMyVerification,
+  getSellerVerifications,
+  getVerificationDocument,
+  reviewSellerVerification,
+  submitMyVerification,
+  uploadVerificationDocuments,
+} from "./routes/seller-verifications";
+import { getGstSummary, getInvoicePdf, getMyInvoicePdf } from "./routes/invoices";
+import {
+  getPaymentLedger,
+  getReconciliationReport,
+  runReconciliationNow,
+  updateReconciliationIssue,
+} from "./routes/payment-reconciliation";
+import {
+  getCampaignSlots,
+  getCampaignAvailability,
+  createCampaign,
+  getMyCampaigns,
+  getAdminCampaigns,
+  updateCampaignStatus,
+} from "./routes/ad-campaigns";
+import {
+  refreshSession,
+  logoutSession,
+  getMySessions,
+  revokeMySession,
+  revokeOtherSessions,
+} from "./routes/sessions";
+import {
+  getScheduledJobs,
+  getJobRuns,
+  pauseJob,
+  resumeJob,
+  runJob,
+} from "./routes/jobs";
+
+// Saved searches routes
+import {
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  unsubscribeSavedSearch,
+} from "./routes/saved-searches";
+
+// Market insights routes
+import { getAreaInsights, getAreaInsightTrend } from "./routes/insights";
+
 // Homepage slider routes
 import {
   getHomepageSliders,
@@ -496,12 +634,17 @@ import {
   sendSellerMessage,
   getSellerPackages,
   getSellerPayments,
+  getSellerBilling,
+  updateSellerBilling,
+  getSellerQuota,
   updateSellerProfile,
   changeSellerPassword,
   purchasePackage,
   getSellerStats,
   deleteSellerProperty,
   resubmitSellerProperty,
+  renewSellerProperty,
+  updateSellerProperty,
 } from "./routes/seller";
 
 // Chatbot routes
@@ -683,8 +826,15 @@ export function createServer() {
   app.use(express.json({ limit: "1gb" }));
   app.use(express.urlencoded({ extended: true, limit: "1gb" }));
 
-  // Mount CSV import routes under protected admin path
-  app.use("/api/admin", authenticateToken, requireAdmin, osImportRoutes);
+  // Every /api/admin route is gated by the route→permission map in
+  // middleware/permissions.ts; CSV import routes are mounted here too
+  app.use(
+    "/api/admin",
+    authenticateToken,
+    requireAdmin,
+    enforceAdminPermissions,
+    osImportRoutes,
+  );
   app.use("/api/payments/phonepe", phonepeRoutes);
   // Initialize MongoDB connection
   connectToDatabase()
@@ -716,6 +866,83 @@ export function createServer() {
       } catch (e: any) {
         console.warn("⚠️ seedDefaultData failed:", e?.message || e);
       }
+
+      // Text index for /api/properties/search (idempotent)
+      const searchIndex = await ensurePropertySearchIndexes(getDatabase());
+      console.log("🔎 Property search index:", searchIndex);
+
+      // 2dsphere index + GeoJSON backfill for /api/properties/nearby
+      const geoIndex = await ensurePropertyGeoIndexes(getDatabase());
+      console.log("📍 Property geo index:", geoIndex);
+
+      await ensureAuditIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Audit log indexes failed:", e?.message || e),
+      );
+      await ensureSessionIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Auth session indexes failed:", e?.message || e),
+      );
+      await ensurePhoneOtpIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Phone OTP indexes failed:", e?.message || e),
+      );
+      await ensureAdTrackingIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Ad tracking indexes failed:", e?.message || e),
+      );
+      await ensureAdCampaignIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Ad campaign indexes failed:", e?.message || e),
+      );
+      await ensurePaymentLedgerIndexes(getDatabase()).catch((e: any) =>
+        console.error("❌ Payment ledger indexes failed; payments will not activate until fixed:", e?.message || e),
+      );
+      await ensureReconciliationIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Reconciliation indexes failed:", e?.message || e),
+      );
+      await ensureRefundIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Refund indexes failed:", e?.message || e),
+      );
+      await ensureInvoiceIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Invoice indexes failed:", e?.message || e),
+      );
+      await migratePackageEntitlements(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Package entitlement migration failed:", e?.message || e),
+      );
+      await ensureBoostIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Boost indexes failed:", e?.message || e),
+      );
+      await ensureListingExpiryIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Listing expiry indexes failed:", e?.message || e),
+      );
+      await ensureLeadIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Lead indexes failed:", e?.message || e),
+      );
+      await ensureAgentClientIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Agent client indexes failed:", e?.message || e),
+      );
+      await ensureViewHistoryIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ View history indexes failed:", e?.message || e),
+      );
+      await ensureSellerVerificationIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Seller verification indexes failed:", e?.message || e),
+      );
+      await migrateMessageConversationIds(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Message conversation id migration failed:", e?.message || e),
+      );
+      await ensureMessagingIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Messaging indexes failed:", e?.message || e),
+      );
+      await migratePhoneKeys(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Listing phone key migration failed:", e?.message || e),
+      );
+      await ensureListingRiskIndexes(getDatabase()).catch((e: any) =>
+        console.warn("⚠️ Listing risk indexes failed:", e?.message || e),
+      );
+
+      // Start background jobs (package expiry, scheduled notifications, ...)
+      try {
+        registerDefaultJobs();
+        await startScheduler();
+      } catch (e: any) {
+        console.warn("⚠️ Scheduler failed to start:", e?.message || e);
+      }
     })
     .catch((error) => {
       console.error("�� MongoDB connection failed:", error);
@@ -827,12 +1054,20 @@ export function createServer() {
   app.post("/api/auth/register", registerUser);
   app.post("/api/auth/login", loginUser);
   app.post("/api/auth/send-otp", sendOTP);
-  app.post("/api/auth/verify-otp", verifyOTP);
+  app.post("/api/auth/verify-otp", optionalAuth, verifyOTP);
+  app.post("/api/auth/phone-release", authenticateToken, respondToPhoneRelease);
   app.post("/api/auth/google", googleAuth);
   app.get("/api/auth/profile", authenticateToken, getUserProfile);
   app.put("/api/auth/profile", authenticateToken, updateUserProfile);
   app.post("/api/auth/firebase-login", firebaseLogin); // ✅ ADD THIS LINE
 
+  // Sessions: refresh-token rotation, logout and device management
+  app.post("/api/auth/refresh", refreshSession);
+  app.post("/api/auth/logout", logoutSession);
+  app.get("/api/auth/sessions", authenticateToken, getMySessions);
+  app.delete("/api/auth/sessions", authenticateToken, revokeOtherSessions);
+  app.delete("/api/auth/sessions/:sessionId", authenticateToken, revokeMySession);
+
   // Email verification routes
   app.post("/api/auth/send-verification", sendEmailVerification);
   app.get("/api/auth/verify-email", verifyEmail);
@@ -849,7 +1084,18 @@ export function createServer() {
   // Property routes
   app.get("/api/properties", getProperties);
   app.get("/api/properties/featured", getFeaturedProperties);
+  app.get("/api/properties/search", searchProperties);
+  app.get("/api/properties/nearby", getNearbyProperties);
+  app.get("/api/properties/compare", getPropertyComparison);
+  app.post("/api/properties/within", getPropertiesWithinPolygon);
   app.get("/api/properties/:id", getPropertyById);
+  app.get("/api/properties/:id/price-history", getPropertyPriceHistory);
+  app.put(
+    "/api/properties/:id",
+    authenticateToken,
+    upload.array("images", 10),
+    updateSellerProperty,
+  );
   app.post(
     "/api/properties",
     authenticateToken,
@@ -876,6 +1122,11 @@ export function createServer() {
 
   // FCM topic subscribe (optional, requires Firebase admin env)
   app.post("/api/notifications/subscribe", subscribeToTopic);
+  app.post(
+    "/api/notifications/register-device",
+    authenticateToken,
+    registerDeviceToken,
+  );
   app.get(
     "/api/notifications/unread-count",
     authenticateToken,
@@ -896,6 +1147,12 @@ export function createServer() {
     requireAdmin,
     getPendingProperties,
   );
+  app.get(
+    "/api/admin/properties/:propertyId/risk",
+    authenticateToken,
+    requireAdmin,
+    getPropertyRisk,
+  );
   app.get(
     "/api/admin/notifications/counts",
     authenticateToken,
@@ -1433,6 +1690,79 @@ export function createServer() {
   );
   app.post("/api/payments/verify", verifyPayment);
 
+  // Unified payment ledger and reconciliation report
+  app.get(
+    "/api/admin/payments/ledger",
+    authenticateToken,
+    requireAdmin,
+    getPaymentLedger,
+  );
+  app.get(
+    "/api/admin/payments/reconciliation",
+    authenticateToken,
+    requireAdmin,
+    getReconciliationReport,
+  );
+  app.post(
+    "/api/admin/payments/reconciliation/run",
+    authenticateToken,
+    requireAdmin,
+    runReconciliationNow,
+  );
+  app.put(
+    "/api/admin/payments/reconciliation/:id",
+    authenticateToken,
+    requireAdmin,
+    updateReconciliationIssue,
+  );
+
+  // Refunds (against a ledger row or a purchased package)
+  app.get(
+    "/api/admin/payments/refunds",
+    authenticateToken,
+    requireAdmin,
+    getRefunds,
+  );
+  app.get(
+    "/api/admin/payments/ledger/:id/refund-quote",
+    authenticateToken,
+    requireAdmin,
+    getRefundQuote,
+  );
+  app.post(
+    "/api/admin/payments/ledger/:id/refund",
+    authenticateToken,
+    requireAdmin,
+    createRefund,
+  );
+  app.get(
+    "/api/admin/user-packages/:packageId/refund-quote",
+    authenticateToken,
+    requireAdmin,
+    getRefundQuote,
+  );
+  app.post(
+    "/api/admin/user-packages/:packageId/refund",
+    authenticateToken,
+    requireAdmin,
+    createRefund,
+  );
+
+  // GST invoices
+  app.get(
+    "/api/admin/payments/gst-summary",
+    authenticateToken,
+    requireAdmin,
+    getGstSummary,
+  );
+  app.get(
+    "/api/admin/invoices/:id/pdf",
+    authenticateToken,
+    requireAdmin,
+    getInvoicePdf,
+  );
+  app.get("/api/invoices/:id/pdf", authenticateToken, getMyInvoicePdf);
+
   // Payment methods (PhonePe flags)
   app.get("/api/payments/methods", getPaymentMethodsWithPhonePe);
 
@@ -1630,6 +1960,52 @@ export function createServer() {
     requireAdmin,
     getAdvertisementStatistics,
   );
+  app.get(
+    "/api/admin/advertisement/submissions/:id/report",
+    authenticateToken,
+    requireAdmin,
+    getAdvertiserReport,
+  );
+  app.post(
+    "/api/admin/advertisement/submissions/:id/report-link",
+    authenticateToken,
+    requireAdmin,
+    createAdvertiserReportLink,
+  );
+  app.delete(
+    "/api/admin/advertisement/submissions/:id/report-link",
+    authenticateToken,
+    requireAdmin,
+    revokeAdvertiserReportLink,
+  );
+
+  // Ad impression/click beacon and advertisers' shared reports
+  app.post("/api/ads/track", trackAdEvents);
+  app.get("/api/ad-reports/:token", getSharedAdvertiserReport);
+
+  // Self-serve banner campaigns: book a slot, pay, admin approves
+  app.get("/api/ad-campaigns/slots", getCampaignSlots);
+  app.get("/api/ad-campaigns/availability", getCampaignAvailability);
+  app.get("/api/ad-campaigns/mine", authenticateToken, getMyCampaigns);
+  app.post("/api/ad-campaigns", authenticateToken, createCampaign);
+  app.post(
+    "/api/ad-campaigns/creative",
+    authenticateToken,
+    uploadBannerImage,
+    handleImageUpload,
+  );
+  app.get(
+    "/api/admin/ad-campaigns",
+    authenticateToken,
+    requireAdmin,
+    getAdminCampaigns,
+  );
+  app.put(
+    "/api/admin/ad-campaigns/:id/status",
+    authenticateToken,
+    requireAdmin,
+    updateCampaignStatus,
+  );
 
   // Analytics routes
   app.post("/api/analytics/view/:propertyId", trackPropertyView);
@@ -1638,7 +2014,18 @@ export function createServer() {
     authenticateToken,
     trackPropertyInquiry,
   );
-  app.post("/api/analytics/phone/:propertyId", trackPhoneClick);
+  app.post("/api/analytics/phone/:propertyId", optionalAuth, trackPhoneClick);
+
+  // Recently viewed history
+  app.post("/api/views/start", optionalAuth, startPropertyView);
+  app.post("/api/views/heartbeat", viewHeartbeat);
+  app.get("/api/user/recent-views", authenticateToken, getRecentViews);
+  app.delete("/api/user/recent-views", authenticateToken, clearRecentViews);
+  app.post("/api/user/recent-views/merge", authenticateToken, mergeRecentViews);
+  app.delete("/api/user/recent-views/:propertyId", authenticateToken, removeRecentView);
+  app.get("/api/user/viewing-sessions", authenticateToken, getViewingSessions);
+  app.get("/api/user/view-history/settings", authenticateToken, getViewHistorySettings);
+  app.put("/api/user/view-history/settings", authenticateToken, updateViewHistorySettings);
   app.get(
     "/api/analytics/property/:propertyId",
     authenticateToken,
@@ -2006,6 +2393,18 @@ export function createServer() {
     requireAdmin,
     updateFreeAdSettings,
   );
+  app.get(
+    "/api/admin/settings/listing-expiry",
+    authenticateToken,
+    requireAdmin,
+    getListingExpiryConfig,
+  );
+  app.put(
+    "/api/admin/settings/listing-expiry",
+    authenticateToken,
+    requireAdmin,
+    updateListingExpiryConfig,
+  );
   app.get("/api/user/free-ad-limit", authenticateToken, checkUserFreeAdLimit);
   app.post("/api/user/record-free-ad", authenticateToken, recordFreeAdPost);
 
@@ -2187,6 +2586,12 @@ export function createServer() {
     requireAdmin,
     getAvailablePermissions,
   );
+  app.get(
+    "/api/admin/me/permissions",
+    authenticateToken,
+    requireAdmin,
+    getMyPermissions,
+  );
 
   // Notification management routes
   app.get(
@@ -2214,6 +2619,52 @@ export function createServer() {
     getNotificationById,
   );
 
+  // Scheduled job management routes
+  app.get(
+    "/api/admin/jobs",
+    authenticateToken,
+    requireAdmin,
+    getScheduledJobs,
+  );
+  app.get(
+    "/api/admin/jobs/:name/runs",
+    authenticateToken,
+    requireAdmin,
+    getJobRuns,
+  );
+  app.put(
+    "/api/admin/jobs/:name/pause",
+    authenticateToken,
+    requireAdmin,
+    pauseJob,
+  );
+  app.put(
+    "/api/admin/jobs/:name/resume",
+    authenticateToken,
+    requireAdmin,
+    resumeJob,
+  );
+  app.post(
+    "/api/admin/jobs/:name/run",
+    authenticateToken,
+    requireAdmin,
+    runJob,
+  );
+
+  // Audit log (read-only; entries are written by the handlers themselves)
+  app.get(
+    "/api/admin/audit-logs/export",
+    authenticateToken,
+    requireAdmin,
+    exportAuditLogs,
+  );
+  app.get(
+    "/api/admin/audit-logs",
+    authenticateToken,
+    requireAdmin,
+    getAuditLogs,
+  );
+
   // Homepage slider management routes
   app.get(
     "/api/admin/homepage-sliders",
@@ -2336,6 +2787,28 @@ export function createServer() {
   app.post("/api/seller/messages", authenticateToken, sendSellerMessage);
   app.get("/api/seller/packages", authenticateToken, getSellerPackages);
   app.get("/api/seller/payments", authenticateToken, getSellerPayments);
+  app.get("/api/seller/billing", authenticateToken, getSellerBilling);
+  app.get("/api/seller/quota", authenticateToken, getSellerQuota);
+  app.get("/api/seller/boost-options", authenticateToken, getBoostOptions);
+  app.get("/api/seller/boosts", authenticateToken, getSellerBoosts);
+  app.post("/api/seller/properties/:id/boost", authenticateToken, boostProperty);
+  app.get("/api/seller/verification", requireSellerOrAgent, getMyVerification);
+  app.post(
+    "/api/seller/verification",
+    requireSellerOrAgent,
+    uploadVerificationDocuments,
+    submitMyVerification,
+  );
+  app.get("/api/admin/seller-verifications", authenticateToken, requireAdmin, getSellerVerifications);
+  app.patch(
+    "/api/admin/seller-verifications/:id",
+    authenticateToken,
+    requireAdmin,
+    reviewSellerVerification,
+  );
+  // signed, expiring links; no auth header so the admin can open them in a new tab
+  app.get("/api/seller-verifications/:id/documents/:docId", getVerificationDocument);
+  app.put("/api/seller/billing", authenticateToken, updateSellerBilling);
   app.put("/api/seller/profile", authenticateToken, updateSellerProfile);
   app.put(
     "/api/seller/change-password",
@@ -2354,6 +2827,37 @@ export function createServer() {
     authenticateToken,
     resubmitSellerProperty,
   );
+  app.post(
+    "/api/seller/properties/:id/renew",
+    authenticateToken,
+    renewSellerProperty,
+  );
+
+  // Agent CRM routes
+  app.get("/api/agent/leads", requireAgent, getAgentLeads);
+  app.post("/api/agent/leads", requireAgent, createAgentLead);
+  app.get("/api/agent/leads/:id", requireAgent, getAgentLead);
+  app.put("/api/agent/leads/:id", requireAgent, updateAgentLead);
+  app.delete("/api/agent/leads/:id", requireAgent, deleteAgentLead);
+  app.put("/api/agent/leads/:id/status", requireAgent, updateAgentLeadStatus);
+  app.put("/api/agent/leads/:id/score", requireAgent, updateAgentLeadScore);
+  app.post("/api/agent/leads/:id/interactions", requireAgent, addAgentLeadInteraction);
+  app.post("/api/agent/leads/:id/convert", requireAgent, convertAgentLead);
+  app.get("/api/agent/lead-sources", requireAgent, getAgentLeadSources);
+  app.get("/api/agent/clients", requireAgent, getAgentClients);
+  app.post("/api/agent/clients", requireAgent, createAgentClient);
+  app.get("/api/agent/clients/:id", requireAgent, getAgentClient);
+  app.put("/api/agent/clients/:id", requireAgent, updateAgentClient);
+  app.delete("/api/agent/clients/:id", requireAgent, deleteAgentClient);
+  app.put("/api/agent/clients/:id/status", requireAgent, updateAgentClientStatus);
+  app.post("/api/agent/clients/:id/interactions", requireAgent, addAgentClientInteraction);
+  app.post("/api/agent/clients/:id/properties", requireAgent, linkAgentClientProperty);
+  app.delete("/api/agent/clients/:id/properties/:propertyId", requireAgent, unlinkAgentClientProperty);
+  app.post("/api/agent/clients/:id/deals", requireAgent, createAgentDeal);
+  app.get("/api/agent/deals", requireAgent, getAgentDeals);
+  app.put("/api/agent/deals/:id/stage", requireAgent, updateAgentDealStage);
+  app.put("/api/agent/deals/:id/commission", requireAgent, updateAgentDealCommission);
+  app.get("/api/agent/summary", requireAgent, getAgentSummary);
 
   // Chatbot routes
   app.post("/api/chatbot", sendChatbotMessage);
@@ -2511,8 +3015,19 @@ export function createServer() {
   );
   app.get("/api/favorites/:propertyId/check", authenticateToken, checkFavorite);
 
+  // Market insights routes (public)
+  app.get("/api/insights/areas", getAreaInsights);
+  app.get("/api/insights/areas/trend", getAreaInsightTrend);
+
+  // Saved searches routes
+  app.get("/api/saved-searches", authenticateToken, getSavedSearches);
+  app.post("/api/saved-searches", authenticateToken, createSavedSearch);
+  app.put("/api/saved-searches/:id", authenticateToken, updateSavedSearch);
+  app.delete("/api/saved-searches/:id", authenticateToken, deleteSavedSearch);
+  app.get("/api/saved-searches/unsubscribe/:token", unsubscribeSavedSearch);
+
   // Enquiries routes
-  app.post("/api/enquiries", submitEnquiry); // Public endpoint for submitting enquiries
+  app.post("/api/enquiries", optionalAuth, submitEnquiry); // Public endpoint for submitting enquiries
   app.get(
     "/api/admin/enquiries",
     authenticateToken,
@@ -2591,6 +3106,12 @@ export function createServer() {
   // Banner routes
   app.get("/api/banners", getActiveBanners); // Public endpoint for active banners
   app.get("/api/admin/banners", authenticateToken, requireAdmin, getAllBanners);
+  app.get(
+    "/api/admin/banners/stats",
+    authenticateToken,
+    requireAdmin,
+    getBannerStats,
+  );
   app.post("/api/admin/banners", authenticateToken, requireAdmin, createBanner);
   app.put(
     "/api/admin/banners/:id",
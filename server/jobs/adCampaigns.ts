@@ -0,0 +1,11 @@
+// server/jobs/adCampaigns.ts
+import { JobHandler } from "../utils/scheduler";
+import { syncCampaignBanners } from "../utils/adCampaigns";
+
+/**
+ * Keep self-serve campaigns in step with the calendar: approved campaigns
+ * get their banner on the start date, finished ones are switched off, and
+ * unpaid holds that timed out give their slot back.
+ */
+export const runAdCampaigns: JobHandler = async ({ db, now }) =>
+  syncCampaignBanners(db, now);
@@ -0,0 +1,7 @@
+// server/jobs/imageHashes.ts
+import { JobHandler } from "../utils/scheduler";
+import { backfillImageHashes } from "../utils/listingRisk";
+
+export const hashListingImages: JobHandler = async ({ db }) => {
+  return backfillImageHashes(db);
+};
@@ -0,0 +1,82 @@
+// server/jobs/index.ts
+// Registers every background job with the scheduler. Add new jobs here.
+import { registerJob } from "../utils/scheduler";
+import { expirePackages } from "./packageExpiry";
+import { sendScheduledNotifications } from "./scheduledNotifications";
+import { sendSavedSearchDigest } from "./savedSearchDigest";
+import { snapshotMarketInsights } from "./marketInsights";
+import { hashListingImages } from "./imageHashes";
+import { runAdCampaigns } from "./adCampaigns";
+import { reconcilePayments } from "./paymentReconciliation";
+import { expireListings } from "./listingExpiry";
+import { sendLeadFollowups } from "./leadFollowups";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export function registerDefaultJobs() {
+  registerJob({
+    name: "package-expiry",
+    description:
+      "Downgrade expired premium/featured properties, expire user packages and seller plans",
+    intervalMs: 15 * MINUTE,
+    handler: expirePackages,
+  });
+
+  registerJob({
+    name: "scheduled-notifications",
+    description: "Dispatch admin notifications whose scheduled time has passed",
+    intervalMs: 1 * MINUTE,
+    handler: sendScheduledNotifications,
+  });
+
+  registerJob({
+    name: "saved-search-digest",
+    description: "Email the daily digest of new listings matching saved searches",
+    intervalMs: 24 * HOUR,
+    handler: sendSavedSearchDigest,
+  });
+
+  registerJob({
+    name: "market-insights",
+    description: "Snapshot per-area median prices, rent yield and days on market",
+    intervalMs: 24 * HOUR,
+    handler: snapshotMarketInsights,
+  });
+
+  registerJob({
+    name: "image-hash-backfill",
+    description: "Fingerprint listing photos for duplicate-image detection",
+    intervalMs: 10 * MINUTE,
+    handler: hashListingImages,
+  });
+
+  registerJob({
+    name: "ad-campaigns",
+    description: "Start and end banners for booked ad campaigns, release unpaid holds",
+    intervalMs: 10 * MINUTE,
+    handler: runAdCampaigns,
+  });
+
+  registerJob({
+    name: "payment-reconciliation",
+    description:
+      "Mirror payments into the ledger, check them against Razorpay/PhonePe and flag mismatches",
+    intervalMs: 30 * MINUTE,
+    handler: reconcilePayments,
+  });
+
+  registerJob({
+    name: "listing-expiry",
+    description: "Expire listings past their lifetime and remind owners before they do",
+    intervalMs: 1 * HOUR,
+    handler: expireListings,
+  });
+
+  registerJob({
+    name: "lead-followups",
+    description: "Remind agents about leads whose follow-up is due",
+    intervalMs: 15 * MINUTE,
+    handler: sendLeadFollowups,
+  });
+}
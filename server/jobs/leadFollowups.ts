@@ -0,0 +1,6 @@
+// server/jobs/leadFollowups.ts
+import { JobHandler } from "../utils/scheduler";
+import { remindLeadFollowups } from "../utils/leads";
+
+/** Remind agents about open leads whose follow-up date has come. */
+export const sendLeadFollowups: JobHandler = async ({ db, now }) => remindLeadFollowups(db, now);
@@ -0,0 +1,9 @@
+// server/jobs/listingExpiry.ts
+import { JobHandler } from "../utils/scheduler";
+import { syncListingExpiry } from "../utils/listingExpiry";
+
+/**
+ * Give live listings an expiry date, remind owners before it and move
+ * listings past it to `expired` so they drop out of search.
+ */
+export const expireListings: JobHandler = async ({ db, now }) => syncListingExpiry(db, now);
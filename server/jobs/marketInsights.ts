@@ -0,0 +1,7 @@
+// server/jobs/marketInsights.ts
+import { JobHandler } from "../utils/scheduler";
+import { snapshotAreaInsights } from "../utils/marketInsights";
+
+export const snapshotMarketInsights: JobHandler = async ({ db, now }) => {
+  return snapshotAreaInsights(db, now);
+};
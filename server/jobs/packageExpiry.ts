@@ -0,0 +1,74 @@
+// server/jobs/packageExpiry.ts
+import { ObjectId } from "mongodb";
+import { JobHandler } from "../utils/scheduler";
+
+/**
+ * Enforce package expiry:
+ * - properties whose `packageExpiry` has passed lose featured/premium flags
+ * - `user_packages` past their `endDate` move to "expired"
+ * - sellers whose `packageExpiresAt` has passed are downgraded
+ */
+export const expirePackages: JobHandler = async ({ db, now }) => {
+  // 1) Properties with an expired package
+  const expiredProperties = await db
+    .collection("properties")
+    .find(
+      {
+        packageExpiry: { $ne: null, $lte: now },
+        $or: [{ featured: true }, { premium: true }],
+      },
+      { projection: { _id: 1, title: 1, ownerId: 1 } },
+    )
+    .toArray();
+
+  if (expiredProperties.length > 0) {
+    await db.collection("properties").updateMany(
+      { _id: { $in: expiredProperties.map((p) => p._id) } },
+      {
+        $set: {
+          featured: false,
+          premium: false,
+          packageStatus: "expired",
+          packageExpiredAt: now,
+          updatedAt: now,
+        },
+      },
+    );
+
+    // let owners know (seller notifications live in `notifications`)
+    const notices = expiredProperties
+      .filter((p) => p.ownerId && ObjectId.isValid(String(p.ownerId)))
+      .map((p) => ({
+        sellerId: new ObjectId(String(p.ownerId)),
+        propertyId: p._id,
+        title: "Package Expired",
+        message: `The promotion package on "${p.title || "your property"}" has expired. Renew it to stay featured.`,
+        type: "package_expired",
+        isRead: false,
+        createdAt: now,
+      }));
+    if (notices.length > 0) {
+      await db.collection("notifications").insertMany(notices);
+    }
+  }
+
+  // 2) User package subscriptions
+  const userPackages = await db.collection("user_packages").updateMany(
+    { status: "active", endDate: { $lte: now } },
+    { $set: { status: "expired", autoRenewal: false, updatedAt: now } },
+  );
+
+  // 3) Seller-level packages bought via /api/seller/purchase-package
+  const sellers = await db.collection("users").updateMany(
+    { isPremium: true, packageExpiresAt: { $lte: now } },
+    {
+      $set: { isPremium: false, packageStatus: "expired", updatedAt: now },
+    },
+  );
+
+  return {
+    propertiesDowngraded: expiredProperties.length,
+    userPackagesExpired: userPackages.modifiedCount,
+    sellersDowngraded: sellers.modifiedCount,
+  };
+};
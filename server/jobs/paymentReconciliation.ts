@@ -0,0 +1,12 @@
+// server/jobs/paymentReconciliation.ts
+import { JobHandler } from "../utils/scheduler";
+import { runPaymentReconciliation } from "../utils/paymentReconciliation";
+
+/**
+ * Keep `payment_ledger` in step with transactions, bank transfers and seller
+ * payments, ask the gateways about anything unsettled or unverified (pending
+ * refunds included), raise issues for mismatches, stuck payments and
+ * double activations, and issue any invoices that failed at payment time.
+ */
+export const reconcilePayments: JobHandler = async ({ db, now }) =>
+  runPaymentReconciliation(db, now);
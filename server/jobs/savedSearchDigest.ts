@@ -0,0 +1,7 @@
+// server/jobs/savedSearchDigest.ts
+import { JobHandler } from "../utils/scheduler";
+import { sendSavedSearchDigests } from "../utils/savedSearchAlerts";
+
+export const sendSavedSearchDigest: JobHandler = async ({ db }) => {
+  return sendSavedSearchDigests(db);
+};
@@ -0,0 +1,7 @@
+// server/jobs/scheduledNotifications.ts
+import { JobHandler } from "../utils/scheduler";
+import { dispatchScheduledNotifications } from "../routes/notifications";
+
+export const sendScheduledNotifications: JobHandler = async ({ db, now }) => {
+  return dispatchScheduledNotifications(db, now);
+};
@@ -1,9 +1,8 @@
 // server/middleware/auth.ts
 import type { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
-
-const JWT_SECRET =
-  process.env.JWT_SECRET || process.env.JWT_PRIVATE_KEY || "your-secret-key";
+import { permissionAllows, resolveRolePermissions } from "@shared/permissions";
+import { JWT_SECRET, isAccessTokenRevoked } from "../utils/authSessions";
 
 export interface AuthenticatedRequest extends Request {
   userId?: string;
@@ -11,6 +10,7 @@ export interface AuthenticatedRequest extends Request {
   email?: string;
   role?: string;     // super_admin | content_manager | ...
   isAdmin?: boolean; // optional boolean claim support
+  sessionId?: string; // auth_sessions id (`sid` claim)
 }
 
 /* ---------- helpers ---------- */
@@ -71,45 +71,62 @@ const getIsAdminBool = (p: any): boolean => {
 };
 
 /* ---------- core verifier ---------- */
-const verifyAndAttach = (req: Request, res: Response): { ok: boolean } => {
-  const token = pickToken(req);
-  if (!token) {
-    res.status(401).json({ success: false, error: "Access token required" });
+// 401 `code`s: TOKEN_EXPIRED tells the client to refresh and retry,
+// SESSION_REVOKED / INVALID_TOKEN mean it has to sign in again.
+// With `res` null nothing is sent (optional auth).
+const verifyAndAttach = async (req: Request, res: Response | null): Promise<{ ok: boolean }> => {
+  const reject = (body: Record<string, any>) => {
+    res?.status(401).json({ success: false, ...body });
     return { ok: false };
-  }
+  };
 
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
+  const token = pickToken(req);
+  if (!token) return reject({ error: "Access token required" });
 
-    const uid = idFromPayload(decoded);
-    if (!uid) {
-      res.status(401).json({ success: false, error: "Invalid token (no user id)" });
-      return { ok: false };
-    }
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, JWT_SECRET) as any;
+  } catch (e) {
+    const expired = (e as any)?.name === "TokenExpiredError";
+    return reject({
+      error: expired ? "Access token expired" : "Invalid or expired token",
+      code: expired ? "TOKEN_EXPIRED" : "INVALID_TOKEN",
+    });
+  }
 
-    (req as any).userId   = uid;
-    (req as any).userType = getUserTypeFromPayload(decoded);
-    (req as any).role     = getRoleFromPayload(decoded);
-    (req as any).email    = decoded?.email || decoded?.user?.email;
-    (req as any).isAdmin  = getIsAdminBool(decoded);
+  const uid = idFromPayload(decoded);
+  if (!uid) return reject({ error: "Invalid token (no user id)", code: "INVALID_TOKEN" });
 
-    return { ok: true };
-  } catch (e) {
-    res.status(401).json({ success: false, error: "Invalid or expired token" });
-    return { ok: false };
+  if (await isAccessTokenRevoked(decoded, uid)) {
+    return reject({ error: "Session revoked", code: "SESSION_REVOKED" });
   }
+
+  (req as any).userId    = uid;
+  (req as any).userType  = getUserTypeFromPayload(decoded);
+  (req as any).role      = getRoleFromPayload(decoded);
+  (req as any).email     = decoded?.email || decoded?.user?.email;
+  (req as any).isAdmin   = getIsAdminBool(decoded);
+  (req as any).sessionId = decoded?.sid ? String(decoded.sid) : undefined;
+
+  return { ok: true };
 };
 
 /* ---------- exported guards ---------- */
-export const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
-  const r = verifyAndAttach(req, res);
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
+  const r = await verifyAndAttach(req, res);
   if (r.ok) next();
 };
 
 export const requireAuthAny = authenticateToken;
 
-export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
-  const r = verifyAndAttach(req, res);
+/** Attaches the user when a valid token is sent; anonymous requests pass through. */
+export const optionalAuth = async (req: Request, _res: Response, next: NextFunction) => {
+  await verifyAndAttach(req, null);
+  next();
+};
+
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  const r = await verifyAndAttach(req, res);
   if (!r.ok) return;
 
   const userType = (toLower((req as any).userType) as string) || "";
@@ -126,8 +143,8 @@ export const requireAdmin = (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
-export const requireSellerOrAgent = (req: Request, res: Response, next: NextFunction) => {
-  const r = verifyAndAttach(req, res);
+export const requireSellerOrAgent = async (req: Request, res: Response, next: NextFunction) => {
+  const r = await verifyAndAttach(req, res);
   if (!r.ok) return;
 
   const userType = ((req as any).userType || "").toLowerCase();
@@ -137,8 +154,19 @@ export const requireSellerOrAgent = (req: Request, res: Response, next: NextFunc
   next();
 };
 
-export const requireBuyer = (req: Request, res: Response, next: NextFunction) => {
-  const r = verifyAndAttach(req, res);
+export const requireAgent = async (req: Request, res: Response, next: NextFunction) => {
+  const r = await verifyAndAttach(req, res);
+  if (!r.ok) return;
+
+  const userType = ((req as any).userType || "").toLowerCase();
+  if (userType !== "agent") {
+    return res.status(403).json({ success: false, error: "Agent access required" });
+  }
+  next();
+};
+
+export const requireBuyer = async (req: Request, res: Response, next: NextFunction) => {
+  const r = await verifyAndAttach(req, res);
   if (!r.ok) return;
 
   const userType = ((req as any).userType || "").toLowerCase();
@@ -149,8 +177,8 @@ export const requireBuyer = (req: Request, res: Response, next: NextFunction) =>
 };
 
 export const requirePermission = (permission: string) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const r = verifyAndAttach(req, res);
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const r = await verifyAndAttach(req, res);
     if (!r.ok) return;
 
     const userType = ((req as any).userType || "").toLowerCase();
@@ -159,17 +187,11 @@ export const requirePermission = (permission: string) => {
     if (userType === "admin") return next();
 
     if (userType === "staff") {
-      const rolePermissions: Record<string, string[]> = {
-        super_admin: ["*"],
-        content_manager: ["content.view", "content.create", "content.manage", "blog.manage", "blog.view"],
-        sales_manager: ["users.view", "sellers.manage", "sellers.verify", "sellers.view", "payments.view", "packages.manage", "ads.view", "analytics.view"],
-        support_executive: ["users.view", "support.view", "reports.view", "content.view"],
-        admin: ["content.view", "users.view", "ads.view", "analytics.view"],
-      };
-      const perms = rolePermissions[role] || [];
-      if (perms.includes("*") || perms.includes(permission)) return next();
+      if (permissionAllows(resolveRolePermissions(role), permission)) return next();
     }
 
-    return res.status(403).json({ success: false, error: `Permission required: ${permission}` });
+    return res
+      .status(403)
+      .json({ success: false, error: `Permission required: ${permission}`, requiredPermission: permission });
   };
 };
@@ -0,0 +1,238 @@
+// server/middleware/permissions.ts
+// Declarative permission map for everything mounted under /api/admin.
+// Rules are matched in order (first match wins) against the path relative to
+// /api/admin; `:param` matches one segment and a trailing `/*` matches any
+// sub-path. Routes with no rule fall back to DEFAULT_ADMIN_PERMISSION so a
+// newly added endpoint is super-admin only until it is mapped here.
+import type { Request, Response, NextFunction } from "express";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import {
+  WILDCARD_PERMISSION,
+  permissionAllows,
+  resolveRolePermissions,
+} from "@shared/permissions";
+
+type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "*";
+
+export interface AdminRoutePermission {
+  method: Method;
+  path: string;
+  permission: string | string[] | null; // null = any admin-panel user; a list = any one of them
+}
+
+export const DEFAULT_ADMIN_PERMISSION = "system.manage";
+
+const rule = (
+  method: Method,
+  path: string,
+  permission: AdminRoutePermission["permission"],
+): AdminRoutePermission => ({
+  method,
+  path,
+  permission,
+});
+
+// GET needs `view`, every other method needs `manage`
+const readWrite = (path: string, view: string, manage: string): AdminRoutePermission[] => [
+  rule("GET", path, view),
+  rule("*", path, manage),
+];
+
+export const ADMIN_ROUTE_PERMISSIONS: AdminRoutePermission[] = [
+  rule("GET", "/me/permissions", null),
+  rule("GET", "/notifications/counts", "dashboard.view"),
+
+  // listings & moderation
+  rule("GET", "/properties/pending", "ads.approve"),
+  rule("GET", "/properties/:propertyId/risk", "ads.approve"),
+  rule("PUT", "/properties/:propertyId/approval", "ads.approve"),
+  rule("PUT", "/properties/bulk/approval", "ads.approve"),
+  rule("*", "/premium-properties/*", "ads.approve"),
+  rule("GET", "/premium-properties", "ads.approve"),
+  ...readWrite("/properties/*", "ads.view", "ads.manage"),
+  ...readWrite("/properties", "ads.view", "ads.manage"),
+  ...readWrite("/service-listings/*", "ads.view", "ads.manage"),
+  ...readWrite("/service-listings", "ads.view", "ads.manage"),
+  ...readWrite("/os-listings/*", "ads.view", "ads.manage"),
+  ...readWrite("/os-listings", "ads.view", "ads.manage"),
+  ...readWrite("/other-services/*", "ads.view", "ads.manage"),
+  ...readWrite("/other-services", "ads.view", "ads.manage"),
+  rule("GET", "/advertisement/statistics", "ads.view"),
+  rule("PUT", "/advertisement/submissions/:id/status", "ads.approve"),
+  ...readWrite("/advertisement/submissions/*", "ads.view", "ads.manage"),
+  ...readWrite("/advertisement/submissions", "ads.view", "ads.manage"),
+  rule("PUT", "/ad-campaigns/:id/status", "ads.approve"),
+  ...readWrite("/ad-campaigns", "ads.view", "ads.manage"),
+  ...readWrite("/custom-fields/*", "ads.view", "ads.manage"),
+  ...readWrite("/custom-fields", "ads.view", "ads.manage"),
+
+  // categories
+  ...readWrite("/categories/*", "ads.view", "categories.manage"),
+  ...readWrite("/categories", "ads.view", "categories.manage"),
+  ...readWrite("/subcategories/*", "ads.view", "categories.manage"),
+  ...readWrite("/subcategories", "ads.view", "categories.manage"),
+  ...readWrite("/os-categories/*", "ads.view", "categories.manage"),
+  ...readWrite("/os-categories", "ads.view", "categories.manage"),
+  ...readWrite("/os-subcategories/*", "ads.view", "categories.manage"),
+  ...readWrite("/os-subcategories", "ads.view", "categories.manage"),
+
+  // users & analytics
+  rule("GET", "/users/export", "users.manage"),
+  ...readWrite("/users/*", "users.view", "users.manage"),
+  ...readWrite("/users", "users.view", "users.manage"),
+  rule("GET", "/stats", "users.view"),
+  rule("GET", "/user-stats", "users.view"),
+  rule("GET", "/user-analytics", "analytics.view"),
+  rule("GET", "/analytics", "analytics.view"),
+  rule("GET", "/package-stats", "analytics.view"),
+  rule("GET", "/app/stats", "analytics.view"),
+
+  // seller verification (KYC)
+  rule("GET", "/seller-verifications", ["sellers.view", "sellers.verify"]),
+  rule("PATCH", "/seller-verifications/:id", "sellers.verify"),
+
+  // packages & payments
+  ...readWrite("/coupons/*", "packages.manage", "packages.manage"),
+  ...readWrite("/coupons", "packages.manage", "packages.manage"),
+  // quotes only read; issuing the refund is what needs payments.refund
+  rule("POST", "/user-packages/:packageId/refund", "payments.refund"),
+  rule("GET", "/user-packages/:packageId/refund-quote", "payments.view"),
+  ...readWrite("/user-packages/*", "packages.manage", "packages.manage"),
+  ...readWrite("/user-packages", "packages.manage", "packages.manage"),
+  rule("PUT", "/transactions/*", "payments.approve"),
+  rule("GET", "/transactions", "payments.view"),
+  rule("PUT", "/payments/reconciliation/:id", "payments.approve"),
+  rule("GET", "/payments/ledger/:id/refund-quote", "payments.view"),
+  rule("POST", "/payments/ledger/:id/refund", "payments.refund"),
+  ...readWrite("/payments/*", "payments.view", "payments.manage"),
+  ...readWrite("/invoices/*", "payments.view", "payments.manage"),
+  rule("PUT", "/bank-transfers/:transferId/status", "payments.approve"),
+  rule("POST", "/bank-transfers/init-test-data", DEFAULT_ADMIN_PERMISSION),
+  ...readWrite("/bank-transfers/*", "payments.view", "payments.manage"),
+  ...readWrite("/bank-transfers", "payments.view", "payments.manage"),
+
+  // content
+  rule("*", "/homepage-sliders/initialize", DEFAULT_ADMIN_PERMISSION),
+  rule("*", "/testimonials/initialize", DEFAULT_ADMIN_PERMISSION),
+  rule("*", "/advertisement-banners/initialize", DEFAULT_ADMIN_PERMISSION),
+  ...[
+    "/homepage-sliders",
+    "/banners",
+    "/testimonials",
+    "/faqs",
+    "/pages",
+    "/content",
+    "/footer-links",
+    "/footer-settings",
+    "/new-projects",
+  ].flatMap((p) => [
+    ...readWrite(`${p}/*`, "content.view", "content.manage"),
+    ...readWrite(p, "content.view", "content.manage"),
+  ]),
+  ...readWrite("/blog/*", "blog.view", "blog.manage"),
+  ...readWrite("/blog", "blog.view", "blog.manage"),
+  ...readWrite("/maps/*", "content.view", "locations.manage"),
+  ...readWrite("/maps", "content.view", "locations.manage"),
+
+  // support & reports
+  ...readWrite("/conversations/*", "support.view", "support.manage"),
+  ...readWrite("/conversations", "support.view", "support.manage"),
+  ...readWrite("/chat/*", "support.view", "support.manage"),
+  ...readWrite("/enquiries/*", "support.view", "support.manage"),
+  ...readWrite("/enquiries", "support.view", "support.manage"),
+  ...readWrite("/tickets/*", "support.view", "support.manage"),
+  ...readWrite("/tickets", "support.view", "support.manage"),
+  ...readWrite("/reports/reasons/*", "reports.view", "reports.manage"),
+  ...readWrite("/reports/reasons", "reports.view", "reports.manage"),
+  ...readWrite("/reports/*", "reports.view", "reports.manage"),
+  ...readWrite("/reports", "reports.view", "reports.manage"),
+  rule("*", "/notifications/*", "notifications.send"),
+  rule("GET", "/notifications", "notifications.send"),
+
+  // staff & accountability
+  rule("GET", "/audit-logs/export", "audit.view"),
+  rule("GET", "/audit-logs", "audit.view"),
+  rule("GET", "/roles", "roles.manage"),
+  rule("GET", "/staff/permissions", "roles.manage"),
+  rule("*", "/staff/*", "staff.manage"),
+  rule("*", "/staff", "staff.manage"),
+
+  // settings, jobs, maintenance and dev tools fall through to the default
+];
+
+const compiled = ADMIN_ROUTE_PERMISSIONS.map((r) => {
+  const body = r.path
+    .replace(/\/\*$/, "")
+    .split("/")
+    .map((seg) => (seg.startsWith(":") ? "[^/]+" : seg.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+    .join("/");
+  const tail = r.path.endsWith("/*") ? "/.+" : "/?";
+  return { ...r, regex: new RegExp(`^${body}${tail}$`) };
+});
+
+/** Permission required for METHOD /api/admin<path>. */
+export function requiredAdminPermission(
+  method: string,
+  path: string,
+): AdminRoutePermission["permission"] {
+  const m = method.toUpperCase();
+  const hit = compiled.find((r) => (r.method === "*" || r.method === m) && r.regex.test(path));
+  return hit ? hit.permission : DEFAULT_ADMIN_PERMISSION;
+}
+
+/**
+ * Effective permissions for the authenticated request. Admin accounts get the
+ * wildcard; staff get their role's set plus whatever is stored on their user
+ * document (custom roles). Cached on the request.
+ */
+export async function getRequestPermissions(req: Request): Promise<string[]> {
+  const r = req as any;
+  if (r.permissions) return r.permissions;
+
+  const userType = String(r.userType || "").toLowerCase();
+  const role = String(r.role || "").toLowerCase();
+
+  let permissions: string[];
+  if (userType !== "staff" || role === "super_admin") {
+    // requireAdmin already let this request through as an admin account
+    permissions = [WILDCARD_PERMISSION];
+  } else {
+    let stored: string[] = [];
+    if (ObjectId.isValid(String(r.userId))) {
+      const staff = await getDatabase()
+        .collection("users")
+        .findOne({ _id: new ObjectId(String(r.userId)) }, { projection: { role: 1, permissions: 1 } });
+      stored = staff?.permissions || [];
+    }
+    permissions = resolveRolePermissions(role, stored);
+  }
+
+  r.permissions = permissions;
+  return permissions;
+}
+
+/** Mount after authenticateToken + requireAdmin on /api/admin. */
+export const enforceAdminPermissions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const required = requiredAdminPermission(req.method, req.path);
+  if (required === null) return next();
+  const anyOf = Array.isArray(required) ? required : [required];
+
+  try {
+    const granted = await getRequestPermissions(req);
+    if (anyOf.some((p) => permissionAllows(granted, p))) return next();
+  } catch (error) {
+    console.error("Error resolving staff permissions:", error);
+    return res.status(500).json({ success: false, error: "Failed to check permissions" });
+  }
+
+  return res.status(403).json({
+    success: false,
+    error: `Permission required: ${anyOf.join(" or ")}`,
+    requiredPermission: required,
+  });
+};
@@ -0,0 +1,259 @@
+import { RequestHandler } from "express";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import {
+  AdCampaignCreative,
+  BANNER_SLOTS,
+  MAX_CAMPAIGN_DAYS,
+  SlotDayAvailability,
+  addDays,
+  campaignDays,
+  findBannerSlot,
+} from "@shared/adCampaigns";
+import {
+  AD_CAMPAIGNS_COLLECTION,
+  CampaignError,
+  approveCampaign,
+  bookCampaign,
+  getSlotAvailability,
+  rejectCampaign,
+} from "../utils/adCampaigns";
+import { statDay } from "../utils/adTracking";
+import { recordAudit } from "../utils/auditLog";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_RE = /^[0-9\s\-\+\(\)]{10,}$/;
+
+const sendCampaignError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof CampaignError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
+
+// Images must come from our own upload endpoint so the creative an admin
+// approves can't be swapped out afterwards; links must be plain http(s)
+const cleanCreative = (raw: any): AdCampaignCreative => {
+  const title = String(raw?.title || "").trim().slice(0, 120);
+  const imageUrl = String(raw?.imageUrl || "").trim();
+  const link = String(raw?.link || "").trim();
+  if (!title) throw new CampaignError("Creative title is required");
+  if (!/^\/uploads\/banners\/[\w.-]+$/.test(imageUrl)) {
+    throw new CampaignError("Upload a banner image");
+  }
+  if (link && !/^(https?:\/\/|\/)\S*$/.test(link)) {
+    throw new CampaignError("Link must start with http://, https:// or /");
+  }
+  return { title, imageUrl, link };
+};
+
+/** GET /api/ad-campaigns/slots — bookable banner slots with day rates. */
+export const getCampaignSlots: RequestHandler = (_req, res) => {
+  const response: ApiResponse<{ slots: typeof BANNER_SLOTS; maxDays: number }> = {
+    success: true,
+    data: { slots: BANNER_SLOTS, maxDays: MAX_CAMPAIGN_DAYS },
+  };
+  res.json(response);
+};
+
+/**
+ * GET /api/ad-campaigns/availability?slot&from&to
+ * Public. Per-day capacity for a slot; defaults to the next 30 days.
+ */
+export const getCampaignAvailability: RequestHandler = async (req, res) => {
+  try {
+    const slot = String(req.query.slot || "");
+    if (!findBannerSlot(slot)) {
+      return res.status(400).json({ success: false, error: "Unknown banner slot" });
+    }
+    const today = statDay();
+    const from = DATE_RE.test(String(req.query.from)) ? String(req.query.from) : today;
+    const to = DATE_RE.test(String(req.query.to)) ? String(req.query.to) : addDays(from, 29);
+    if (to < from || campaignDays(from, to) > 120) {
+      return res.status(400).json({ success: false, error: "Invalid date range" });
+    }
+
+    const days = await getSlotAvailability(getDatabase(), slot, from, to);
+    const response: ApiResponse<{ slot: string; from: string; to: string; days: SlotDayAvailability[] }> = {
+      success: true,
+      data: { slot, from, to, days },
+    };
+    res.json(response);
+  } catch (error) {
+    sendCampaignError(res, error, "Failed to load availability");
+  }
+};
+
+/**
+ * POST /api/ad-campaigns
+ * { submissionId? | fullName,email,phone,projectName,location,description,
+ *   slot, startDate, endDate, creative: { title, imageUrl, link } }
+ * Holds the slot and returns the campaign to pay for.
+ */
+export const createCampaign: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const userId = new ObjectId(String((req as any).userId));
+    const body = req.body || {};
+    const creative = cleanCreative(body.creative);
+
+    let submissionId: ObjectId;
+    if (body.submissionId) {
+      if (!ObjectId.isValid(String(body.submissionId))) {
+        return res.status(400).json({ success: false, error: "Invalid submission ID" });
+      }
+      const submission = await db
+        .collection("advertisement_submissions")
+        .findOne({ _id: new ObjectId(String(body.submissionId)) });
+      // a lead without an owner was created from the public form; the
+      // first signed-in booking against it claims it
+      if (!submission || (submission.userId && String(submission.userId) !== String(userId))) {
+        return res.status(404).json({ success: false, error: "Submission not found" });
+      }
+      if (!submission.userId) {
+        await db
+          .collection("advertisement_submissions")
+          .updateOne({ _id: submission._id }, { $set: { userId } });
+      }
+      submissionId = submission._id;
+    } else {
+      const fields = ["fullName", "email", "phone", "projectName", "location", "description"];
+      if (fields.some((f) => !String(body[f] || "").trim())) {
+        return res.status(400).json({ success: false, error: "Missing required fields" });
+      }
+      if (!EMAIL_RE.test(body.email)) {
+        return res.status(400).json({ success: false, error: "Invalid email format" });
+      }
+      if (!PHONE_RE.test(body.phone)) {
+        return res.status(400).json({ success: false, error: "Invalid phone format" });
+      }
+      const now = new Date();
+      const { insertedId } = await db.collection("advertisement_submissions").insertOne({
+        bannerType: String(body.slot || ""),
+        fullName: String(body.fullName).trim(),
+        email: String(body.email).trim(),
+        phone: String(body.phone).trim(),
+        projectName: String(body.projectName).trim(),
+        location: String(body.location).trim(),
+        projectType: String(body.projectType || ""),
+        description: String(body.description).trim(),
+        status: "new",
+        source: "self_serve",
+        userId,
+        createdAt: now,
+        updatedAt: now,
+      });
+      submissionId = insertedId;
+    }
+
+    const campaign = await bookCampaign(db, {
+      submissionId,
+      userId,
+      slot: String(body.slot || ""),
+      startDate: String(body.startDate || ""),
+      endDate: String(body.endDate || ""),
+      creative,
+    });
+    const response: ApiResponse<typeof campaign> = { success: true, data: campaign };
+    res.status(201).json(response);
+  } catch (error) {
+    sendCampaignError(res, error, "Failed to book campaign");
+  }
+};
+
+/** GET /api/ad-campaigns/mine — the caller's bookings, newest first. */
+export const getMyCampaigns: RequestHandler = async (req, res) => {
+  try {
+    const campaigns = await getDatabase()
+      .collection(AD_CAMPAIGNS_COLLECTION)
+      .find({ userId: new ObjectId(String((req as any).userId)) })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .toArray();
+    res.json({ success: true, data: campaigns });
+  } catch (error) {
+    sendCampaignError(res, error, "Failed to load campaigns");
+  }
+};
+
+/** GET /api/admin/ad-campaigns?status&page&limit */
+export const getAdminCampaigns: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const pageNum = Math.max(1, parseInt(String(req.query.page)) || 1);
+    const limitNum = Math.max(1, Math.min(100, parseInt(String(req.query.limit)) || 20));
+    const filter: any = {};
+    if (req.query.status) filter.status = String(req.query.status);
+
+    const [campaigns, total] = await Promise.all([
+      db
+        .collection(AD_CAMPAIGNS_COLLECTION)
+        .aggregate([
+          { $match: filter },
+          { $sort: { createdAt: -1 } },
+          { $skip: (pageNum - 1) * limitNum },
+          { $limit: limitNum },
+          {
+            $lookup: {
+              from: "advertisement_submissions",
+              localField: "submissionId",
+              foreignField: "_id",
+              as: "advertiser",
+              pipeline: [{ $project: { fullName: 1, email: 1, phone: 1, projectName: 1 } }],
+            },
+          },
+          { $unwind: { path: "$advertiser", preserveNullAndEmptyArrays: true } },
+        ])
+        .toArray(),
+      db.collection(AD_CAMPAIGNS_COLLECTION).countDocuments(filter),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        campaigns,
+        pagination: { page: pageNum, limit: limitNum, total, pages: Math.ceil(total / limitNum) },
+      },
+    });
+  } catch (error) {
+    sendCampaignError(res, error, "Failed to load campaigns");
+  }
+};
+
+/** PUT /api/admin/ad-campaigns/:id/status { status: "approved"|"rejected", reason? } */
+export const updateCampaignStatus: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid campaign ID" });
+    }
+    const { status } = req.body || {};
+    const reason = String(req.body?.reason || "").trim().slice(0, 500);
+    const db = getDatabase();
+    const _id = new ObjectId(id);
+
+    let campaign: any;
+    if (status === "approved") {
+      campaign = await approveCampaign(db, _id, String((req as any).userId || "") || null);
+    } else if (status === "rejected") {
+      campaign = await rejectCampaign(db, _id, reason);
+    } else {
+      return res.status(400).json({ success: false, error: "Status must be approved or rejected" });
+    }
+
+    await recordAudit(req, {
+      action: `ad_campaign.${status === "approved" ? "approve" : "reject"}`,
+      targetType: "ad_campaign",
+      targetId: id,
+      targetLabel: campaign?.creative?.title,
+      after: { status, ...(reason ? { reason } : {}) },
+    });
+
+    res.json({ success: true, data: campaign });
+  } catch (error) {
+    sendCampaignError(res, error, "Failed to update campaign");
+  }
+};
@@ -0,0 +1,338 @@
+import { RequestHandler } from "express";
+import crypto from "crypto";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import {
+  AD_SOURCES,
+  MAX_EVENTS_PER_BEACON,
+  getAdDailyBreakdown,
+  getAdStats,
+  isBotUserAgent,
+  isValidAdSessionId,
+  recordAdEvents,
+  resolveRange,
+} from "../utils/adTracking";
+import { clientIp, recordAudit } from "../utils/auditLog";
+import { SimplePdf } from "../utils/simplePdf";
+
+// Beacons per IP per minute; a page with a few carousels sends one every
+// couple of seconds at most, so this only bites scripted traffic.
+const BEACONS_PER_IP_PER_MINUTE = 60;
+const beaconWindows = new Map<string, { start: number; count: number }>();
+
+const overBeaconLimit = (ip: string) => {
+  const now = Date.now();
+  const w = beaconWindows.get(ip);
+  if (!w || now - w.start > 60_000) {
+    if (beaconWindows.size > 10_000) beaconWindows.clear();
+    beaconWindows.set(ip, { start: now, count: 1 });
+    return false;
+  }
+  w.count++;
+  return w.count > BEACONS_PER_IP_PER_MINUTE;
+};
+
+/**
+ * POST /api/ads/track { sessionId, events: [{ type, source, adId, slot }] }
+ * Public beacon (sent with navigator.sendBeacon). Always answers 202 so a
+ * rejected beacon never surfaces as a page error.
+ */
+export const trackAdEvents: RequestHandler = async (req, res) => {
+  try {
+    const { sessionId, events } = (req.body || {}) as { sessionId?: unknown; events?: unknown };
+    const ip = clientIp(req) || "unknown";
+
+    if (
+      !isValidAdSessionId(sessionId) ||
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      isBotUserAgent(req.get("user-agent")) ||
+      overBeaconLimit(ip)
+    ) {
+      return res.status(202).json({ success: true, data: { counted: 0 } });
+    }
+
+    const result = await recordAdEvents(sessionId, events.slice(0, MAX_EVENTS_PER_BEACON));
+    res.status(202).json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error recording ad events:", error);
+    res.status(500).json({ success: false, error: "Failed to record ad events" });
+  }
+};
+
+/**
+ * GET /api/admin/banners/stats?source=&from=&to=
+ * Impressions, clicks and CTR per ad and slot, plus a daily series.
+ */
+export const getBannerStats: RequestHandler = async (req, res) => {
+  try {
+    const { source, from, to } = req.query as { source?: string; from?: string; to?: string };
+    if (source && !(source in AD_SOURCES)) {
+      return res.status(400).json({ success: false, error: "Unknown ad source" });
+    }
+
+    const stats = await getAdStats({ source, from, to });
+    const response: ApiResponse<typeof stats> = { success: true, data: stats };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching banner stats:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch banner stats" });
+  }
+};
+
+/* ---------- per-advertiser reports ---------- */
+
+/** Banners linked to a submission through their `advertiserId`. */
+async function advertiserAds(submissionId: string) {
+  const db = getDatabase();
+  const [banners, projectBanners] = await Promise.all([
+    db.collection("banners").find({ advertiserId: submissionId }, { projection: { title: 1 } }).toArray(),
+    db
+      .collection("new_project_banners")
+      .find({ advertiserId: submissionId }, { projection: { title: 1 } })
+      .toArray(),
+  ]);
+  return [
+    ...banners.map((b: any) => ({ source: "banner", adId: b._id.toString(), title: b.title })),
+    ...projectBanners.map((b: any) => ({ source: "new_project_banner", adId: b._id.toString(), title: b.title })),
+  ];
+}
+
+async function buildAdvertiserReport(submission: any, from?: unknown, to?: unknown) {
+  const range = resolveRange(from, to);
+  const ads = await advertiserAds(submission._id.toString());
+  const query = { ...range, ads: ads.map(({ source, adId }) => ({ source, adId })) };
+  const [stats, breakdown] = await Promise.all([getAdStats(query), getAdDailyBreakdown(query)]);
+  return {
+    advertiser: {
+      id: submission._id.toString(),
+      name: submission.fullName,
+      email: submission.email,
+      projectName: submission.projectName,
+      bannerType: submission.bannerType,
+    },
+    ads,
+    ...stats,
+    breakdown,
+  };
+}
+
+type AdvertiserReport = Awaited<ReturnType<typeof buildAdvertiserReport>>;
+
+const csvCell = (v: any) => `"${String(v ?? "").replace(/"/g, '""')}"`;
+
+const reportFilename = (report: AdvertiserReport, ext: string) =>
+  `ad-report-${String(report.advertiser.projectName || report.advertiser.id)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")}-${report.from}-to-${report.to}.${ext}`;
+
+function reportCsv(report: AdvertiserReport) {
+  const header = "Date,Banner,Slot,Impressions,Clicks,CTR %\n";
+  const lines = report.breakdown.map((r) =>
+    [r.day, r.title, r.slot, r.impressions, r.clicks, r.ctr.toFixed(2)].map(csvCell).join(","),
+  );
+  lines.push(
+    ["Total", "", "", report.totals.impressions, report.totals.clicks, report.totals.ctr.toFixed(2)]
+      .map(csvCell)
+      .join(","),
+  );
+  return header + lines.join("\n");
+}
+
+function reportPdf(report: AdvertiserReport) {
+  const pdf = new SimplePdf();
+  const num = (n: number) => n.toLocaleString("en-IN");
+
+  pdf.heading("Advertising Performance Report", 18);
+  pdf.keyValues([
+    ["Advertiser", report.advertiser.name || "-"],
+    ["Project", report.advertiser.projectName || "-"],
+    ["Period", `${report.from} to ${report.to}`],
+    ["Generated", new Date().toLocaleString("en-IN", { timeZone: "Asia/Kolkata" })],
+  ]);
+
+  pdf.heading("Summary", 13);
+  pdf.table(
+    [
+      { header: "Impressions", width: 171 },
+      { header: "Clicks", width: 171 },
+      { header: "CTR", width: 173 },
+    ],
+    [[num(report.totals.impressions), num(report.totals.clicks), `${report.totals.ctr.toFixed(2)}%`]],
+  );
+
+  pdf.heading("By banner", 13);
+  if (report.rows.length) {
+    pdf.table(
+      [
+        { header: "Banner", width: 215 },
+        { header: "Slot", width: 120 },
+        { header: "Impressions", width: 65, align: "right" },
+        { header: "Clicks", width: 55, align: "right" },
+        { header: "CTR", width: 60, align: "right" },
+      ],
+      report.rows.map((r) => [r.title, r.slot, num(r.impressions), num(r.clicks), `${r.ctr.toFixed(2)}%`]),
+    );
+  } else {
+    pdf.paragraph("No impressions were recorded for this advertiser's banners in this period.");
+  }
+
+  if (report.daily.length) {
+    pdf.heading("By day", 13);
+    pdf.table(
+      [
+        { header: "Date", width: 155 },
+        { header: "Impressions", width: 120, align: "right" },
+        { header: "Clicks", width: 120, align: "right" },
+        { header: "CTR", width: 120, align: "right" },
+      ],
+      report.daily.map((d) => [d.day, num(d.impressions), num(d.clicks), `${d.ctr.toFixed(2)}%`]),
+    );
+  }
+
+  pdf.paragraph(
+    "Impressions count a banner at least half visible on screen, once per visitor session per day. Clicks are counted once per session per day.",
+    { size: 8 },
+  );
+  return pdf.toBuffer();
+}
+
+/** Shared by the admin and the public share-link endpoints. */
+function sendReport(res: any, report: AdvertiserReport, format: unknown) {
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader("Content-Disposition", `attachment; filename="${reportFilename(report, "csv")}"`);
+    return res.send(reportCsv(report));
+  }
+  if (format === "pdf") {
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${reportFilename(report, "pdf")}"`);
+    return res.send(reportPdf(report));
+  }
+  const response: ApiResponse<AdvertiserReport> = { success: true, data: report };
+  return res.json(response);
+}
+
+/** GET /api/admin/advertisement/submissions/:id/report?format=json|csv|pdf&from=&to= */
+export const getAdvertiserReport: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid submission ID" });
+    }
+
+    const submission = await getDatabase()
+      .collection("advertisement_submissions")
+      .findOne({ _id: new ObjectId(id) });
+    if (!submission) {
+      return res.status(404).json({ success: false, error: "Submission not found" });
+    }
+
+    const report = await buildAdvertiserReport(submission, req.query.from, req.query.to);
+    sendReport(res, report, req.query.format);
+  } catch (error) {
+    console.error("Error building advertiser report:", error);
+    res.status(500).json({ success: false, error: "Failed to build report" });
+  }
+};
+
+/**
+ * POST /api/admin/advertisement/submissions/:id/report-link
+ * Issues (or replaces) the token behind the advertiser's shareable report URL.
+ */
+export const createAdvertiserReportLink: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid submission ID" });
+    }
+
+    const reportToken = crypto.randomBytes(24).toString("base64url");
+    const submission = await getDatabase()
+      .collection("advertisement_submissions")
+      .findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: { reportToken, reportTokenCreatedAt: new Date(), updatedAt: new Date() } },
+        { returnDocument: "after" },
+      );
+    if (!submission) {
+      return res.status(404).json({ success: false, error: "Submission not found" });
+    }
+
+    await recordAudit(req, {
+      action: "advertisement.report_link_created",
+      targetType: "advertisement_submission",
+      targetId: id,
+      targetLabel: submission.projectName,
+    });
+
+    const response: ApiResponse<{ reportToken: string; path: string }> = {
+      success: true,
+      data: { reportToken, path: `/api/ad-reports/${reportToken}` },
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error creating report link:", error);
+    res.status(500).json({ success: false, error: "Failed to create report link" });
+  }
+};
+
+/** DELETE /api/admin/advertisement/submissions/:id/report-link — stop sharing. */
+export const revokeAdvertiserReportLink: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid submission ID" });
+    }
+
+    const result = await getDatabase()
+      .collection("advertisement_submissions")
+      .updateOne(
+        { _id: new ObjectId(id) },
+        { $unset: { reportToken: "", reportTokenCreatedAt: "" }, $set: { updatedAt: new Date() } },
+      );
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ success: false, error: "Submission not found" });
+    }
+
+    await recordAudit(req, {
+      action: "advertisement.report_link_revoked",
+      targetType: "advertisement_submission",
+      targetId: id,
+    });
+
+    res.json({ success: true, data: { message: "Report link revoked" } });
+  } catch (error) {
+    console.error("Error revoking report link:", error);
+    res.status(500).json({ success: false, error: "Failed to revoke report link" });
+  }
+};
+
+/** GET /api/ad-reports/:token?format=json|csv|pdf — public, for advertisers. */
+export const getSharedAdvertiserReport: RequestHandler = async (req, res) => {
+  try {
+    const token = String(req.params.token || "");
+    if (!/^[A-Za-z0-9_-]{32}$/.test(token)) {
+      return res.status(404).json({ success: false, error: "Report not found" });
+    }
+
+    const submission = await getDatabase()
+      .collection("advertisement_submissions")
+      .findOne({ reportToken: token });
+    if (!submission) {
+      return res.status(404).json({ success: false, error: "Report not found" });
+    }
+
+    const report = await buildAdvertiserReport(submission, req.query.from, req.query.to);
+    // the advertiser sees their own name and project, not our contact fields
+    report.advertiser.email = undefined;
+    res.set("Cache-Control", "private, no-store");
+    sendReport(res, report, req.query.format ?? "pdf");
+  } catch (error) {
+    console.error("Error serving shared ad report:", error);
+    res.status(500).json({ success: false, error: "Failed to build report" });
+  }
+};
+
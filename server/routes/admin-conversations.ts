@@ -2,7 +2,7 @@ import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { ObjectId } from "mongodb";
 import { ApiResponse } from "@shared/types";
-import { getSocketServer } from "../index";
+import { MessagingError, postMessage } from "../utils/messaging";
 
 // GET /admin/conversations - Admin support inbox to see all conversations
 export const getAdminConversations: RequestHandler = async (req, res) => {
@@ -156,99 +156,23 @@ export const getAdminConversations: RequestHandler = async (req, res) => {
 // POST /admin/conversations/:id/messages - Admin reply to conversation
 export const adminReplyToConversation: RequestHandler = async (req, res) => {
   try {
-    const db = getDatabase();
     const adminId = (req as any).userId;
-    const { id } = req.params;
     const { text, imageUrl } = req.body;
 
-    if (!text && !imageUrl) {
-      return res.status(400).json({
-        success: false,
-        error: "Either text or imageUrl is required",
-      });
-    }
-
-    if (!ObjectId.isValid(id)) {
-      return res.status(400).json({
-        success: false,
-        error: "Invalid conversation ID",
-      });
-    }
-
-    // Check if conversation exists
-    const conversation = await db.collection("conversations").findOne({
-      _id: new ObjectId(id),
-    });
-
-    if (!conversation) {
-      return res.status(404).json({
-        success: false,
-        error: "Conversation not found",
-      });
-    }
-
-    // Get admin details
-    const admin = await db.collection("users").findOne({ _id: adminId });
-    if (!admin) {
-      return res.status(404).json({
-        success: false,
-        error: "Admin user not found",
-      });
-    }
-
-    // Create admin message
-    const newMessage = {
-      conversationId: id,
-      senderId: adminId,
-      senderName: admin.name || "Admin",
-      senderType: "admin",
-      message: text || "",
-      imageUrl: imageUrl || null,
-      messageType: imageUrl ? "image" : "text",
-      readBy: [
-        {
-          userId: adminId,
-          readAt: new Date(),
-        },
-      ],
-      createdAt: new Date(),
-    };
-
-    const messageResult = await db.collection("messages").insertOne(newMessage);
-
-    // Update conversation last message timestamp
-    await db.collection("conversations").updateOne(
-      { _id: new ObjectId(id) },
-      {
-        $set: {
-          lastMessageAt: new Date(),
-          updatedAt: new Date(),
-        },
-      },
+    const { message } = await postMessage(
+      getDatabase(),
+      req.params.id,
+      String(adminId),
+      { text, imageUrl },
+      { asAdmin: true },
     );
 
-    // Emit real-time message via Socket.io
-    const socketServer = getSocketServer();
-    if (socketServer) {
-      const messageWithId = {
-        ...newMessage,
-        _id: messageResult.insertedId,
-        text: newMessage.message,
-        sender: newMessage.senderId,
-      };
-      socketServer.emitNewMessage(conversation, messageWithId);
-    }
-
-    const response: ApiResponse<any> = {
-      success: true,
-      data: {
-        _id: messageResult.insertedId,
-        ...newMessage,
-      },
-    };
-
+    const response: ApiResponse<any> = { success: true, data: message };
     res.status(201).json(response);
   } catch (error) {
+    if (error instanceof MessagingError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error("Error sending admin message:", error);
     res.status(500).json({
       success: false,
@@ -1,6 +1,7 @@
 import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { ApiResponse } from "@shared/types";
+import { recordAudit } from "../utils/auditLog";
 
 interface AdminSettings {
   general: {
@@ -146,10 +147,19 @@ export const updateAdminSettings: RequestHandler = async (req, res) => {
       updatedAt: new Date(),
     };
 
+    const previous = await db.collection("admin_settings").findOne({});
     const result = await db
       .collection("admin_settings")
       .replaceOne({}, updateData, { upsert: true });
 
+    await recordAudit(req, {
+      action: "settings.update",
+      targetType: "settings",
+      targetLabel: "admin_settings",
+      before: previous,
+      after: settingsData,
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Settings updated successfully" },
@@ -206,6 +216,7 @@ export const updatePhonePeConfig: RequestHandler = async (req, res) => {
     const db = getDatabase();
     const { enabled, merchantId, saltKey, saltIndex, testMode } = req.body;
 
+    const previous = await db.collection("admin_settings").findOne({});
     const result = await db.collection("admin_settings").updateOne(
       {},
       {
@@ -223,6 +234,14 @@ export const updatePhonePeConfig: RequestHandler = async (req, res) => {
       { upsert: true },
     );
 
+    await recordAudit(req, {
+      action: "settings.phonepe_update",
+      targetType: "settings",
+      targetLabel: "payment.phonePe",
+      before: previous?.payment?.phonePe || null,
+      after: { enabled, merchantId, saltKey, saltIndex, testMode },
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "PhonePe configuration updated successfully" },
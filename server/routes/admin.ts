@@ -4,6 +4,14 @@ import { ApiResponse, Category } from "@shared/types";
 import { ObjectId } from "mongodb";
 import bcrypt from "bcrypt";
 import { clearCategoriesCache } from "../utils/categoryCache";
+import { notifySavedSearchMatches } from "../utils/savedSearchAlerts";
+import { withGeoPoint } from "../utils/geo";
+import { recordPriceChange, notifyPriceDrop } from "../utils/priceHistory";
+import { recordAudit } from "../utils/auditLog";
+import { contentHash } from "../utils/listingExpiry";
+import { contactPhoneKey } from "../utils/listingRisk";
+import { revokeUserSessions } from "../utils/authSessions";
+import { QuotaError, releaseEntitlement, requireEntitlement } from "../utils/entitlements";
 
 // Get all users (admin only)
 export const getAllUsers: RequestHandler = async (req, res) => {
@@ -356,7 +364,7 @@ export const updateUserStatus: RequestHandler = async (req, res) => {
       });
     }
 
-    const result = await db.collection("users").updateOne(
+    const previous = await db.collection("users").findOneAndUpdate(
       { _id: new ObjectId(userId) },
       {
         $set: {
@@ -364,15 +372,28 @@ export const updateUserStatus: RequestHandler = async (req, res) => {
           updatedAt: new Date(),
         },
       },
+      { returnDocument: "before", projection: { status: 1, email: 1, name: 1 } },
     );
 
-    if (result.matchedCount === 0) {
+    if (!previous) {
       return res.status(404).json({
         success: false,
         error: "User not found",
       });
     }
 
+    // signed-in devices of a deactivated account are logged out
+    if (status !== "active") await revokeUserSessions(userId, `account_${status}`);
+
+    await recordAudit(req, {
+      action: "user.status",
+      targetType: "user",
+      targetId: userId,
+      targetLabel: previous.email || previous.name,
+      before: { status: previous.status },
+      after: { status },
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "User status updated successfully" },
@@ -402,19 +423,35 @@ export const deleteUser: RequestHandler = async (req, res) => {
     }
 
     // Also delete user's properties
-    await db.collection("properties").deleteMany({ ownerId: userId });
+    const removedProperties = await db
+      .collection("properties")
+      .deleteMany({ ownerId: userId });
 
-    const result = await db
+    const deleted = await db
       .collection("users")
-      .deleteOne({ _id: new ObjectId(userId) });
+      .findOneAndDelete(
+        { _id: new ObjectId(userId) },
+        { projection: { email: 1, name: 1, userType: 1, status: 1 } },
+      );
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return res.status(404).json({
         success: false,
         error: "User not found",
       });
     }
 
+    await revokeUserSessions(userId, "account_deleted");
+
+    await recordAudit(req, {
+      action: "user.delete",
+      targetType: "user",
+      targetId: userId,
+      targetLabel: deleted.email || deleted.name,
+      before: deleted,
+      meta: { propertiesDeleted: removedProperties.deletedCount },
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "User deleted successfully" },
@@ -465,6 +502,14 @@ export const bulkDeleteUsers: RequestHandler = async (req, res) => {
       .collection("users")
       .deleteMany({ _id: { $in: objectIds } });
 
+    for (const id of ids) await revokeUserSessions(String(id), "account_deleted");
+
+    await recordAudit(req, {
+      action: "user.bulk_delete",
+      targetType: "user",
+      meta: { ids: ids.map(String), deletedCount: result.deletedCount },
+    });
+
     const response: ApiResponse<{ message: string; deletedCount: number }> = {
       success: true,
       data: {
@@ -864,10 +909,11 @@ export const updateProperty: RequestHandler = async (req, res) => {
     }
 
     // Parse JSON fields if they come as strings
-    const location =
+    const location = withGeoPoint(
       typeof req.body.location === "string"
         ? JSON.parse(req.body.location)
-        : req.body.location;
+        : req.body.location,
+    );
 
     const contactInfo =
       typeof req.body.contactInfo === "string"
@@ -889,7 +935,7 @@ export const updateProperty: RequestHandler = async (req, res) => {
     // Combine existing images with new images
     const combinedImages = [...(existingProperty.images || []), ...newImages];
 
-    const updateData = {
+    const updateData: any = {
       title: req.body.title,
       description: req.body.description,
       price: parseInt(req.body.price),
@@ -898,15 +944,42 @@ export const updateProperty: RequestHandler = async (req, res) => {
       subCategory: req.body.subCategory,
       location,
       contactInfo,
+      phoneKey: contactPhoneKey(contactInfo?.phone),
       status: req.body.status,
       images: combinedImages,
       updatedAt: new Date(),
     };
 
+    const priceFields = await recordPriceChange(db, {
+      property: existingProperty,
+      newPrice: updateData.price,
+      changedBy: (req as any).userId,
+      source: "admin",
+    });
+    if (priceFields) Object.assign(updateData, priceFields);
+
     const result = await db
       .collection("properties")
       .updateOne({ _id: new ObjectId(propertyId) }, { $set: updateData });
 
+    await recordAudit(req, {
+      action: "property.update",
+      targetType: "property",
+      targetId: propertyId,
+      targetLabel: existingProperty.title,
+      before: existingProperty,
+      after: updateData,
+    });
+
+    if (priceFields) {
+      notifyPriceDrop(
+        db,
+        { ...existingProperty, ...updateData },
+        Number(existingProperty.price) || 0,
+        updateData.price,
+      );
+    }
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Property updated successfully" },
@@ -936,10 +1009,11 @@ export const createProperty: RequestHandler = async (req, res) => {
     }
 
     // Parse JSON fields if they come as strings
-    const location =
+    const location = withGeoPoint(
       typeof req.body.location === "string"
         ? JSON.parse(req.body.location)
-        : req.body.location;
+        : req.body.location,
+    );
 
     const contactInfo =
       typeof req.body.contactInfo === "string"
@@ -969,6 +1043,7 @@ export const createProperty: RequestHandler = async (req, res) => {
       ownerId: "admin",
       ownerType: "admin",
       contactInfo,
+      phoneKey: contactPhoneKey(contactInfo?.phone),
       status: req.body.status || "active",
       approvalStatus: "approved", // Admin added properties are auto-approved
       featured: false,
@@ -1066,16 +1141,35 @@ export const approvePremiumProperty: RequestHandler = async (req, res) => {
       updateData.adminComments = adminComments;
     }
 
-    const result = await db
+    const previous = await db
       .collection("properties")
-      .updateOne({ _id: new ObjectId(propertyId) }, { $set: updateData });
+      .findOneAndUpdate(
+        { _id: new ObjectId(propertyId) },
+        { $set: updateData },
+        { returnDocument: "before" },
+      );
 
-    if (result.matchedCount === 0) {
+    if (!previous) {
       return res.status(404).json({
         success: false,
         error: "Property not found",
       });
     }
+    if (action === "approve") {
+      // the update leaves content alone, so the "before" copy is what was approved
+      await db
+        .collection("properties")
+        .updateOne({ _id: previous._id }, { $set: { approvedContentHash: contentHash(previous) } });
+    }
+
+    await recordAudit(req, {
+      action: `property.premium_${action}`,
+      targetType: "property",
+      targetId: propertyId,
+      targetLabel: previous.title,
+      before: previous,
+      after: updateData,
+    });
 
     const response: ApiResponse<{ message: string }> = {
       success: true,
@@ -1099,7 +1193,7 @@ export const deleteProperty: RequestHandler = async (req, res) => {
     const { propertyId } = req.params;
     const adminId = (req as any).user?.userId;
 
-    const result = await db.collection("properties").updateOne(
+    const previous = await db.collection("properties").findOneAndUpdate(
       { _id: new ObjectId(propertyId) },
       {
         $set: {
@@ -1108,15 +1202,25 @@ export const deleteProperty: RequestHandler = async (req, res) => {
           deletedBy: adminId,
         },
       },
+      { projection: { title: 1, status: 1, isDeleted: 1 } },
     );
 
-    if (result.matchedCount === 0) {
+    if (!previous) {
       return res.status(404).json({
         success: false,
         error: "Property not found",
       });
     }
 
+    await recordAudit(req, {
+      action: "property.delete",
+      targetType: "property",
+      targetId: propertyId,
+      targetLabel: previous.title,
+      before: { isDeleted: !!previous.isDeleted },
+      after: { isDeleted: true },
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Property deleted successfully" },
@@ -1192,6 +1296,15 @@ export const bulkDeleteProperties: RequestHandler = async (req, res) => {
       },
     );
 
+    await recordAudit(req, {
+      action: "property.bulk_delete",
+      targetType: "property",
+      meta: {
+        ids: objectIds.map(String),
+        modifiedCount: result.modifiedCount,
+      },
+    });
+
     const response: ApiResponse<{ message: string; deletedCount: number }> = {
       success: true,
       data: {
@@ -1260,6 +1373,14 @@ export const restoreProperty: RequestHandler = async (req, res) => {
       });
     }
 
+    await recordAudit(req, {
+      action: "property.restore",
+      targetType: "property",
+      targetId: propertyId,
+      before: { isDeleted: true },
+      after: { isDeleted: false },
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Property restored successfully" },
@@ -1312,6 +1433,12 @@ export const restoreProperties: RequestHandler = async (req, res) => {
       },
     );
 
+    await recordAudit(req, {
+      action: "property.bulk_restore",
+      targetType: "property",
+      meta: { ids: objectIds.map(String), restoredCount: result.modifiedCount },
+    });
+
     const response: ApiResponse<{ message: string; restoredCount: number }> = {
       success: true,
       data: {
@@ -1337,17 +1464,25 @@ export const permanentDeleteProperty: RequestHandler = async (req, res) => {
     const db = getDatabase();
     const { propertyId } = req.params;
 
-    const result = await db
+    const deleted = await db
       .collection("properties")
-      .deleteOne({ _id: new ObjectId(propertyId), isDeleted: true });
+      .findOneAndDelete({ _id: new ObjectId(propertyId), isDeleted: true });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return res.status(404).json({
         success: false,
         error: "Deleted property not found",
       });
     }
 
+    await recordAudit(req, {
+      action: "property.permanent_delete",
+      targetType: "property",
+      targetId: propertyId,
+      targetLabel: deleted.title,
+      meta: { ownerId: deleted.ownerId ? String(deleted.ownerId) : null, price: deleted.price },
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Property permanently deleted" },
@@ -1396,6 +1531,12 @@ export const permanentDeleteProperties: RequestHandler = async (req, res) => {
       .collection("properties")
       .deleteMany({ _id: { $in: objectIds }, isDeleted: true });
 
+    await recordAudit(req, {
+      action: "property.bulk_permanent_delete",
+      targetType: "property",
+      meta: { ids: objectIds.map(String), deletedCount: result.deletedCount },
+    });
+
     const response: ApiResponse<{ message: string; deletedCount: number }> = {
       success: true,
       data: {
@@ -1457,6 +1598,13 @@ export const bulkUpdatePropertiesStatus: RequestHandler = async (req, res) => {
         { $set: { status, updatedAt: new Date() } },
       );
 
+    await recordAudit(req, {
+      action: "property.bulk_status",
+      targetType: "property",
+      after: { status },
+      meta: { ids: objectIds.map(String), modifiedCount: result.modifiedCount },
+    });
+
     const response: ApiResponse<{ message: string; updatedCount: number }> = {
       success: true,
       data: {
@@ -1517,18 +1665,59 @@ export const bulkUpdatePropertiesApproval: RequestHandler = async (
       }
       objectIds.push(new ObjectId(idString));
     }
-    const result = await db
-      .collection("properties")
-      .updateMany(
-        { _id: { $in: objectIds } },
-        { $set: { approvalStatus, updatedAt: new Date() } },
-      );
+
+    const now = new Date();
+    let modifiedCount = 0;
+    let newlyApproved: any[] = [];
+    if (approvalStatus === "approved") {
+      // Each listing records the content approved, so renewal can tell if it changed since
+      const targets = await db
+        .collection("properties")
+        .find({ _id: { $in: objectIds } })
+        .toArray();
+      // Listings going live for the first time trigger saved-search alerts
+      newlyApproved = targets.filter((p) => p.approvalStatus !== "approved");
+      if (targets.length > 0) {
+        const result = await db.collection("properties").bulkWrite(
+          targets.map((p) => ({
+            updateOne: {
+              filter: { _id: p._id },
+              update: {
+                $set: { approvalStatus, updatedAt: now, approvedContentHash: contentHash(p) },
+              },
+            },
+          })),
+        );
+        modifiedCount = result.modifiedCount;
+      }
+    } else {
+      const result = await db
+        .collection("properties")
+        .updateMany(
+          { _id: { $in: objectIds } },
+          { $set: { approvalStatus, updatedAt: now } },
+        );
+      modifiedCount = result.modifiedCount;
+    }
+
+    await recordAudit(req, {
+      action: "property.bulk_approval",
+      targetType: "property",
+      after: { approvalStatus },
+      meta: { ids: objectIds.map(String), modifiedCount },
+    });
+
+    for (const property of newlyApproved) {
+      if (property.status === "active") {
+        notifySavedSearchMatches(db, { ...property, approvalStatus });
+      }
+    }
 
     const response: ApiResponse<{ message: string; updatedCount: number }> = {
       success: true,
       data: {
-        message: `${result.modifiedCount} properties approval updated successfully`,
-        updatedCount: result.modifiedCount,
+        message: `${modifiedCount} properties approval updated successfully`,
+        updatedCount: modifiedCount,
       },
     };
 
@@ -1661,15 +1850,48 @@ export const getUserAnalytics: RequestHandler = async (req, res) => {
   }
 };
 
-// Update property promotion status
+// Update property promotion status. Featuring a listing spends one of the
+// owner's featured slots unless `complimentary` is set; un-featuring gives
+// the slot back.
 export const updatePropertyPromotion: RequestHandler = async (req, res) => {
   try {
     const db = getDatabase();
     const { propertyId } = req.params;
-    const updates = req.body;
+    const { complimentary, _id, featuredUserPackageId, ...updates } = req.body || {};
 
-    const result = await db.collection("properties").updateOne(
-      { _id: new ObjectId(propertyId) },
+    const property = await db
+      .collection("properties")
+      .findOne({ _id: new ObjectId(propertyId) });
+    if (!property) {
+      return res.status(404).json({
+        success: false,
+        error: "Property not found",
+      });
+    }
+
+    if (updates.featured === true && !property.featured) {
+      if (complimentary === true) {
+        updates.featuredUserPackageId = null;
+      } else {
+        try {
+          const slot = await requireEntitlement(db, property.ownerId, "featuredSlots");
+          updates.featuredUserPackageId = slot._id;
+        } catch (e) {
+          if (!(e instanceof QuotaError)) throw e;
+          return res.status(e.status).json({
+            success: false,
+            error: "The owner has no featured slots left. Feature it as complimentary to override.",
+            entitlement: e.entitlement,
+          });
+        }
+      }
+    } else if (updates.featured === false && property.featured) {
+      await releaseEntitlement(db, property.featuredUserPackageId, "featuredSlots");
+      updates.featuredUserPackageId = null;
+    }
+
+    await db.collection("properties").updateOne(
+      { _id: property._id },
       {
         $set: {
           ...updates,
@@ -1678,13 +1900,6 @@ export const updatePropertyPromotion: RequestHandler = async (req, res) => {
       },
     );
 
-    if (result.matchedCount === 0) {
-      return res.status(404).json({
-        success: false,
-        error: "Property not found",
-      });
-    }
-
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Property promotion updated successfully" },
@@ -1908,11 +2123,33 @@ export const updatePropertyApproval: RequestHandler = async (req, res) => {
 
     console.log(`✅ Found property: ${existingProperty.title}`);
 
+    // High-risk listings need an explicit acknowledgement before going live
+    const risk = existingProperty.riskAssessment;
+    if (
+      approvalStatus === "approved" &&
+      risk?.level === "high" &&
+      !req.body.acknowledgeRisk
+    ) {
+      return res.status(409).json({
+        success: false,
+        error: "This listing was flagged as high risk. Review the reasons and confirm to approve.",
+        riskAssessment: risk,
+      });
+    }
+
     const updateData: any = {
       approvalStatus,
       approvedAt: approvalStatus === "approved" ? new Date() : null,
       updatedAt: new Date(),
     };
+    if (risk) {
+      updateData.riskAtDecision = {
+        ...risk,
+        decision: approvalStatus,
+        decidedBy: (req as any).userId || null,
+        acknowledged: !!req.body.acknowledgeRisk,
+      };
+    }
 
     // Add admin comments and rejection reason if provided
     if (req.body.adminComments) {
@@ -1935,6 +2172,7 @@ export const updatePropertyApproval: RequestHandler = async (req, res) => {
     if (approvalStatus === "approved") {
       updateData.status = "active";
       updateData.isApproved = true;
+      updateData.approvedContentHash = contentHash(existingProperty);
       // Clear any previous rejection data
       updateData.rejectionReason = null;
       updateData.rejectionRegion = null;
@@ -1958,6 +2196,24 @@ export const updatePropertyApproval: RequestHandler = async (req, res) => {
       `✅ Property approval updated: ${result.modifiedCount} documents modified`,
     );
 
+    await recordAudit(req, {
+      action: `property.${approvalStatus}`,
+      targetType: "property",
+      targetId: propertyId,
+      targetLabel: existingProperty.title,
+      before: existingProperty,
+      after: updateData,
+      meta: risk ? { riskScore: risk.score, riskLevel: risk.level } : undefined,
+    });
+
+    if (
+      approvalStatus === "approved" &&
+      existingProperty.approvalStatus !== "approved"
+    ) {
+      // fire-and-forget: alerts must not delay or fail the approval
+      notifySavedSearchMatches(db, { ...existingProperty, ...updateData });
+    }
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: `Property ${approvalStatus} successfully` },
@@ -15,6 +15,9 @@ export interface AdvertisementSubmission {
   budget?: string;
   description: string;
   status: "new" | "viewed" | "contacted";
+  source?: "form" | "self_serve"; // self_serve = created by a campaign booking
+  userId?: string; // set once the advertiser books a campaign while signed in
+  campaignIds?: string[]; // bookings in ad_campaigns
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,229 @@
+import { RequestHandler } from "express";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import { AgentClient, AgentSummary, Deal, OPEN_DEAL_STAGES } from "@shared/agentClients";
+import { LeadError } from "../utils/leads";
+import {
+  CLIENTS_COLLECTION,
+  DEALS_COLLECTION,
+  addClientInteraction,
+  agentSummary,
+  clientInput,
+  clientStatusUpdate,
+  createClient,
+  createDeal,
+  hydrateClients,
+  linkClientProperty,
+  moveDealStage,
+  serializeDeal,
+  unlinkClientProperty,
+  updateDealCommission,
+} from "../utils/agentClients";
+
+const sendClientError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof LeadError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
+
+/** The agent's own client or deal by `:id`; throws a 404 LeadError for anyone else's. */
+async function ownDoc(req: any, collection: string, label: string) {
+  if (!ObjectId.isValid(req.params.id)) throw new LeadError(`Invalid ${label} ID`);
+  const doc = await getDatabase()
+    .collection(collection)
+    .findOne({ _id: new ObjectId(req.params.id), agentId: String(req.userId) });
+  if (!doc) throw new LeadError(`${label[0].toUpperCase()}${label.slice(1)} not found`, 404);
+  return doc;
+}
+const ownClient = (req: any) => ownDoc(req, CLIENTS_COLLECTION, "client");
+const ownDeal = (req: any) => ownDoc(req, DEALS_COLLECTION, "deal");
+
+const sendClient = async (res: any, doc: any, status = 200) => {
+  const [client] = await hydrateClients(getDatabase(), [doc]);
+  const response: ApiResponse<AgentClient> = { success: true, data: client };
+  res.status(status).json(response);
+};
+
+const sendDeal = (res: any, doc: any, status = 200) => {
+  const response: ApiResponse<Deal> = { success: true, data: serializeDeal(doc) };
+  res.status(status).json(response);
+};
+
+/** GET /api/agent/clients — the client book with deals and linked properties. */
+export const getAgentClients: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const clients = await db
+      .collection(CLIENTS_COLLECTION)
+      .find({ agentId: String((req as any).userId) })
+      .sort({ lastContact: -1 })
+      .limit(1000)
+      .toArray();
+
+    const response: ApiResponse<AgentClient[]> = { success: true, data: await hydrateClients(db, clients) };
+    res.json(response);
+  } catch (error) {
+    sendClientError(res, error, "Failed to fetch clients");
+  }
+};
+
+/** GET /api/agent/clients/:id */
+export const getAgentClient: RequestHandler = async (req, res) => {
+  try {
+    await sendClient(res, await ownClient(req));
+  } catch (error) {
+    sendClientError(res, error, "Failed to fetch client");
+  }
+};
+
+/** POST /api/agent/clients */
+export const createAgentClient: RequestHandler = async (req, res) => {
+  try {
+    await sendClient(res, await createClient(getDatabase(), String((req as any).userId), req.body), 201);
+  } catch (error) {
+    sendClientError(res, error, "Failed to create client");
+  }
+};
+
+/** PUT /api/agent/clients/:id */
+export const updateAgentClient: RequestHandler = async (req, res) => {
+  try {
+    const client = await ownClient(req);
+    const updated = await getDatabase()
+      .collection(CLIENTS_COLLECTION)
+      .findOneAndUpdate(
+        { _id: client._id },
+        { $set: { ...clientInput(req.body, true), updatedAt: new Date() } },
+        { returnDocument: "after" },
+      );
+    await sendClient(res, updated);
+  } catch (error) {
+    sendClientError(res, error, "Failed to update client");
+  }
+};
+
+/** DELETE /api/agent/clients/:id — removes the client and their deals. */
+export const deleteAgentClient: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const client = await ownClient(req);
+    await db.collection(DEALS_COLLECTION).deleteMany({ clientId: String(client._id) });
+    await db.collection(CLIENTS_COLLECTION).deleteOne({ _id: client._id });
+    res.json({ success: true, data: { message: "Client deleted" } });
+  } catch (error) {
+    sendClientError(res, error, "Failed to delete client");
+  }
+};
+
+/** PUT /api/agent/clients/:id/status */
+export const updateAgentClientStatus: RequestHandler = async (req, res) => {
+  try {
+    const client = await ownClient(req);
+    const updated = await getDatabase()
+      .collection(CLIENTS_COLLECTION)
+      .findOneAndUpdate(
+        { _id: client._id },
+        { $set: clientStatusUpdate(req.body?.status) },
+        { returnDocument: "after" },
+      );
+    await sendClient(res, updated);
+  } catch (error) {
+    sendClientError(res, error, "Failed to update client status");
+  }
+};
+
+/** POST /api/agent/clients/:id/interactions */
+export const addAgentClientInteraction: RequestHandler = async (req, res) => {
+  try {
+    const client = await ownClient(req);
+    await sendClient(res, await addClientInteraction(getDatabase(), client, req.body), 201);
+  } catch (error) {
+    sendClientError(res, error, "Failed to add interaction");
+  }
+};
+
+/** POST /api/agent/clients/:id/properties — link a listing to the client. */
+export const linkAgentClientProperty: RequestHandler = async (req, res) => {
+  try {
+    const client = await ownClient(req);
+    await sendClient(res, await linkClientProperty(getDatabase(), client, req.body?.propertyId));
+  } catch (error) {
+    sendClientError(res, error, "Failed to link property");
+  }
+};
+
+/** DELETE /api/agent/clients/:id/properties/:propertyId */
+export const unlinkAgentClientProperty: RequestHandler = async (req, res) => {
+  try {
+    const client = await ownClient(req);
+    await sendClient(res, await unlinkClientProperty(getDatabase(), client, req.params.propertyId));
+  } catch (error) {
+    sendClientError(res, error, "Failed to unlink property");
+  }
+};
+
+/** POST /api/agent/clients/:id/deals — open a deal on a property. */
+export const createAgentDeal: RequestHandler = async (req, res) => {
+  try {
+    const client = await ownClient(req);
+    sendDeal(res, await createDeal(getDatabase(), client, req.body), 201);
+  } catch (error) {
+    sendClientError(res, error, "Failed to create deal");
+  }
+};
+
+/** GET /api/agent/deals — the pipeline; `?stage=` narrows it, `?open=1` leaves out finished deals. */
+export const getAgentDeals: RequestHandler = async (req, res) => {
+  try {
+    const filter: Record<string, any> = { agentId: String((req as any).userId) };
+    if (typeof req.query.stage === "string") filter.stage = req.query.stage;
+    else if (req.query.open === "1") filter.stage = { $in: OPEN_DEAL_STAGES };
+
+    const deals = await getDatabase()
+      .collection(DEALS_COLLECTION)
+      .find(filter)
+      .sort({ expectedCloseDate: 1 })
+      .limit(1000)
+      .toArray();
+    const response: ApiResponse<Deal[]> = { success: true, data: deals.map(serializeDeal) };
+    res.json(response);
+  } catch (error) {
+    sendClientError(res, error, "Failed to fetch deals");
+  }
+};
+
+/** PUT /api/agent/deals/:id/stage */
+export const updateAgentDealStage: RequestHandler = async (req, res) => {
+  try {
+    const deal = await ownDeal(req);
+    sendDeal(res, await moveDealStage(getDatabase(), deal, req.body));
+  } catch (error) {
+    sendClientError(res, error, "Failed to update deal stage");
+  }
+};
+
+/** PUT /api/agent/deals/:id/commission */
+export const updateAgentDealCommission: RequestHandler = async (req, res) => {
+  try {
+    const deal = await ownDeal(req);
+    sendDeal(res, await updateDealCommission(getDatabase(), deal, req.body));
+  } catch (error) {
+    sendClientError(res, error, "Failed to update commission");
+  }
+};
+
+/** GET /api/agent/summary — figures for the agent dashboard. */
+export const getAgentSummary: RequestHandler = async (req, res) => {
+  try {
+    const response: ApiResponse<AgentSummary> = {
+      success: true,
+      data: await agentSummary(getDatabase(), String((req as any).userId)),
+    };
+    res.json(response);
+  } catch (error) {
+    sendClientError(res, error, "Failed to load agent summary");
+  }
+};
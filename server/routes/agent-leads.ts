@@ -0,0 +1,208 @@
+import { RequestHandler } from "express";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import { Lead, LeadSourceStats, STATUS_PROBABILITY, clampScore } from "@shared/leads";
+import {
+  LEADS_COLLECTION,
+  LeadError,
+  addLeadInteraction,
+  createLead,
+  leadInput,
+  leadSourceStats,
+  serializeLead,
+  statusUpdate,
+} from "../utils/leads";
+import { convertLeadToClient } from "../utils/agentClients";
+
+const sendLeadError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof LeadError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
+
+/** The agent's own lead by `:id`; throws a 404 LeadError for anyone else's. */
+async function ownLead(req: any) {
+  if (!ObjectId.isValid(req.params.id)) throw new LeadError("Invalid lead ID");
+  const lead = await getDatabase()
+    .collection(LEADS_COLLECTION)
+    .findOne({ _id: new ObjectId(req.params.id), agentId: String(req.userId) });
+  if (!lead) throw new LeadError("Lead not found", 404);
+  return lead;
+}
+
+const sendLead = (res: any, doc: any, status = 200) => {
+  const response: ApiResponse<Lead> = { success: true, data: serializeLead(doc) };
+  res.status(status).json(response);
+};
+
+/** GET /api/agent/leads — the agent's leads, most recently touched first. */
+export const getAgentLeads: RequestHandler = async (req, res) => {
+  try {
+    const leads = await getDatabase()
+      .collection(LEADS_COLLECTION)
+      .find({ agentId: String((req as any).userId) })
+      .sort({ lastContact: -1 })
+      .limit(1000)
+      .toArray();
+
+    const response: ApiResponse<Lead[]> = { success: true, data: leads.map(serializeLead) };
+    res.json(response);
+  } catch (error) {
+    sendLeadError(res, error, "Failed to fetch leads");
+  }
+};
+
+/** GET /api/agent/leads/:id */
+export const getAgentLead: RequestHandler = async (req, res) => {
+  try {
+    sendLead(res, await ownLead(req));
+  } catch (error) {
+    sendLeadError(res, error, "Failed to fetch lead");
+  }
+};
+
+/** POST /api/agent/leads */
+export const createAgentLead: RequestHandler = async (req, res) => {
+  try {
+    const lead = await createLead(getDatabase(), String((req as any).userId), req.body);
+    sendLead(res, lead, 201);
+  } catch (error) {
+    sendLeadError(res, error, "Failed to create lead");
+  }
+};
+
+/** PUT /api/agent/leads/:id — edit contact details, interest, notes or the follow-up date. */
+export const updateAgentLead: RequestHandler = async (req, res) => {
+  try {
+    const lead = await ownLead(req);
+    const updated = await getDatabase()
+      .collection(LEADS_COLLECTION)
+      .findOneAndUpdate(
+        { _id: lead._id },
+        { $set: { ...leadInput(req.body, true), updatedAt: new Date() } },
+        { returnDocument: "after" },
+      );
+    sendLead(res, updated);
+  } catch (error) {
+    sendLeadError(res, error, "Failed to update lead");
+  }
+};
+
+/** DELETE /api/agent/leads/:id */
+export const deleteAgentLead: RequestHandler = async (req, res) => {
+  try {
+    const lead = await ownLead(req);
+    await getDatabase().collection(LEADS_COLLECTION).deleteOne({ _id: lead._id });
+    res.json({ success: true, data: { message: "Lead deleted" } });
+  } catch (error) {
+    sendLeadError(res, error, "Failed to delete lead");
+  }
+};
+
+/** PUT /api/agent/leads/:id/status */
+export const updateAgentLeadStatus: RequestHandler = async (req, res) => {
+  try {
+    const lead = await ownLead(req);
+    const updated = await getDatabase()
+      .collection(LEADS_COLLECTION)
+      .findOneAndUpdate({ _id: lead._id }, { $set: statusUpdate(req.body?.status) }, { returnDocument: "after" });
+    sendLead(res, updated);
+  } catch (error) {
+    sendLeadError(res, error, "Failed to update lead status");
+  }
+};
+
+/** PUT /api/agent/leads/:id/score — `{ scoreChange }` nudges the score, `{ score }` sets it. */
+export const updateAgentLeadScore: RequestHandler = async (req, res) => {
+  try {
+    const lead = await ownLead(req);
+    const { score, scoreChange } = req.body || {};
+    if (score === undefined && !Number.isFinite(Number(scoreChange))) {
+      throw new LeadError("score or scoreChange is required");
+    }
+    const next = clampScore(score !== undefined ? Number(score) : (lead.score || 0) + Number(scoreChange));
+    const updated = await getDatabase()
+      .collection(LEADS_COLLECTION)
+      .findOneAndUpdate(
+        { _id: lead._id },
+        { $set: { score: next, updatedAt: new Date() } },
+        { returnDocument: "after" },
+      );
+    sendLead(res, updated);
+  } catch (error) {
+    sendLeadError(res, error, "Failed to update lead score");
+  }
+};
+
+/** POST /api/agent/leads/:id/interactions */
+export const addAgentLeadInteraction: RequestHandler = async (req, res) => {
+  try {
+    const lead = await ownLead(req);
+    sendLead(res, await addLeadInteraction(getDatabase(), lead, req.body), 201);
+  } catch (error) {
+    sendLeadError(res, error, "Failed to add interaction");
+  }
+};
+
+/** POST /api/agent/leads/:id/convert — mark the lead won and add them to the client book. */
+export const convertAgentLead: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const leads = db.collection(LEADS_COLLECTION);
+    const lead = await ownLead(req);
+    const now = new Date();
+    // claim the lead before adding the client so two conversions racing
+    // each other can't both create one
+    const claimed = await leads.findOneAndUpdate(
+      { _id: lead._id, convertedToClient: { $ne: true } },
+      {
+        $set: {
+          convertedToClient: true,
+          conversionDate: now,
+          status: "closed",
+          probability: STATUS_PROBABILITY.closed,
+          updatedAt: now,
+        },
+      },
+    );
+    if (!claimed) throw new LeadError("Lead is already a client", 409);
+
+    let client;
+    try {
+      client = await convertLeadToClient(db, claimed);
+    } catch (error) {
+      await leads.updateOne(
+        { _id: lead._id },
+        {
+          $set: { status: claimed.status, probability: claimed.probability, updatedAt: claimed.updatedAt },
+          $unset: { convertedToClient: "", conversionDate: "" },
+        },
+      );
+      throw error;
+    }
+    const updated = await leads.findOneAndUpdate(
+      { _id: lead._id },
+      { $set: { clientId: String(client._id) } },
+      { returnDocument: "after" },
+    );
+    sendLead(res, updated);
+  } catch (error) {
+    sendLeadError(res, error, "Failed to convert lead");
+  }
+};
+
+/** GET /api/agent/lead-sources — conversion statistics per lead source. */
+export const getAgentLeadSources: RequestHandler = async (req, res) => {
+  try {
+    const response: ApiResponse<LeadSourceStats[]> = {
+      success: true,
+      data: await leadSourceStats(getDatabase(), String((req as any).userId)),
+    };
+    res.json(response);
+  } catch (error) {
+    sendLeadError(res, error, "Failed to fetch lead sources");
+  }
+};
@@ -2,13 +2,13 @@ import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { PropertyAnalytics, ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
+import { captureLeadQuietly } from "../utils/leads";
 
 // Track property view
 export const trackPropertyView: RequestHandler = async (req, res) => {
   try {
     const db = getDatabase();
     const { propertyId } = req.params;
-    const userId = (req as any).userId;
 
     // Validate property ID
     if (!ObjectId.isValid(propertyId)) {
@@ -48,22 +48,7 @@ export const trackPropertyView: RequestHandler = async (req, res) => {
       { upsert: true },
     );
 
-    // Track user view if authenticated
-    if (userId) {
-      await db.collection("user_property_views").updateOne(
-        {
-          userId,
-          propertyId,
-        },
-        {
-          $set: {
-            lastViewed: new Date(),
-          },
-          $inc: { viewCount: 1 },
-        },
-        { upsert: true },
-      );
-    }
+    // per-user history is recorded by /api/views/start (utils/viewHistory.ts)
 
     const response: ApiResponse<{ message: string }> = {
       success: true,
@@ -175,6 +160,11 @@ export const trackPhoneClick: RequestHandler = async (req, res) => {
       { upsert: true },
     );
 
+    // A signed-in caller is someone an agent can follow up with
+    if ((req as any).userId) {
+      captureLeadQuietly(db, { propertyId, channel: "phone", userId: (req as any).userId });
+    }
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Phone click tracked successfully" },
@@ -433,6 +423,7 @@ export const getAdminAnalytics: RequestHandler = async (req, res) => {
     const userStats = await db
       .collection("user_property_views")
       .aggregate([
+        { $match: { userId: { $exists: true } } },
         {
           $group: {
             _id: "$userId",
@@ -0,0 +1,149 @@
+import { RequestHandler } from "express";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import { AUDIT_COLLECTION } from "../utils/auditLog";
+
+const MAX_EXPORT_ROWS = 50000;
+
+const escapeRegex = (v: string) => v.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Shared by the list and the CSV export so both see the same rows
+function buildAuditFilter(query: any) {
+  const { actor, action, targetType, targetId, q, from, to } = query;
+  const filter: any = {};
+
+  if (actor) {
+    const rx = { $regex: escapeRegex(String(actor)), $options: "i" };
+    filter.$or = [{ actorId: String(actor) }, { actorEmail: rx }];
+  }
+  if (action && action !== "all") {
+    // "property" matches every property.* action
+    filter.action = String(action).includes(".")
+      ? String(action)
+      : { $regex: `^${escapeRegex(String(action))}\\.` };
+  }
+  if (targetType && targetType !== "all") filter.targetType = String(targetType);
+  if (targetId) filter.targetId = String(targetId);
+  if (q) {
+    const rx = { $regex: escapeRegex(String(q)), $options: "i" };
+    filter.$and = [
+      {
+        $or: [
+          { targetLabel: rx },
+          { targetId: String(q) },
+          { actorEmail: rx },
+          { action: rx },
+          { ip: String(q) },
+        ],
+      },
+    ];
+  }
+  if (from || to) {
+    filter.createdAt = {};
+    if (from) filter.createdAt.$gte = new Date(String(from));
+    if (to) {
+      const end = new Date(String(to));
+      // a bare date means "through the end of that day"
+      if (/^\d{4}-\d{2}-\d{2}$/.test(String(to))) end.setUTCHours(23, 59, 59, 999);
+      filter.createdAt.$lte = end;
+    }
+  }
+  return filter;
+}
+
+/**
+ * GET /api/admin/audit-logs?actor=&action=property&targetType=&targetId=&q=&from=&to=&page=1&limit=50
+ */
+export const getAuditLogs: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const page = Math.max(parseInt(String(req.query.page || "1")) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50")) || 50, 1), 200);
+    const filter = buildAuditFilter(req.query);
+
+    const [entries, total, actions, targetTypes] = await Promise.all([
+      db
+        .collection(AUDIT_COLLECTION)
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray(),
+      db.collection(AUDIT_COLLECTION).countDocuments(filter),
+      db.collection(AUDIT_COLLECTION).distinct("action"),
+      db.collection(AUDIT_COLLECTION).distinct("targetType"),
+    ]);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        entries,
+        facets: { actions: actions.sort(), targetTypes: targetTypes.sort() },
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching audit logs:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch audit logs",
+    });
+  }
+};
+
+const csvCell = (v: any) => `"${String(v ?? "").replace(/"/g, '""')}"`;
+
+const formatChanges = (changes: any[] = []) =>
+  changes
+    .map((c) => `${c.field}: ${JSON.stringify(c.before)} -> ${JSON.stringify(c.after)}`)
+    .join("; ");
+
+/** GET /api/admin/audit-logs/export — same filters as the list, as CSV. */
+export const exportAuditLogs: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const entries = await db
+      .collection(AUDIT_COLLECTION)
+      .find(buildAuditFilter(req.query))
+      .sort({ createdAt: -1 })
+      .limit(MAX_EXPORT_ROWS)
+      .toArray();
+
+    const csvHeaders =
+      "Time,Actor Email,Actor ID,Role,Action,Target Type,Target ID,Target,Changes,Details,IP\n";
+    const csvData = entries
+      .map((e: any) =>
+        [
+          e.createdAt ? new Date(e.createdAt).toISOString() : "",
+          e.actorEmail,
+          e.actorId,
+          e.actorRole,
+          e.action,
+          e.targetType,
+          e.targetId,
+          e.targetLabel,
+          formatChanges(e.changes),
+          e.meta ? JSON.stringify(e.meta) : "",
+          e.ip,
+        ]
+          .map(csvCell)
+          .join(","),
+      )
+      .join("\n");
+
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+    );
+    res.send(csvHeaders + csvData);
+  } catch (error) {
+    console.error("Error exporting audit logs:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to export audit logs",
+    });
+  }
+};
@@ -3,13 +3,27 @@ import { getDatabase } from "../db/mongodb";
 import { User, ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import crypto from "crypto";
 import { sendWelcomeNotification } from "./notifications";
 import { getAdmin } from "../firebaseAdmin";
 import { sendWelcomeEmail } from "../utils/mailer";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+import { BLOCKED_ACCOUNT_STATUSES, issueSession } from "../utils/authSessions";
+import { clientIp } from "../utils/auditLog";
+import {
+  OtpError,
+  normalizePhone,
+  phoneVariants,
+  requestPhoneOtp,
+  verifyPhoneOtp,
+} from "../utils/phoneOtp";
+import {
+  isMergeableAccount,
+  isTrustedPhoneMatch,
+  mergeUserAccounts,
+  pickPrimaryAccount,
+  answerPhoneRelease,
+  requestPhoneRelease,
+} from "../utils/accountMerge";
 const SALT_ROUNDS = 10;
 
 /* --------------------------------- Helpers -------------------------------- */
@@ -30,10 +44,6 @@ function pickIdTokenFromReq(req: any): { idToken?: string; userType?: string } {
   return { idToken: bodyToken || bearer || undefined, userType };
 }
 
-function signAppJwt(payload: Record<string, any>) {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: "7d" });
-}
-
 /**
  * Verify Firebase ID token and ensure same project.
  * Returns decoded + (email,name,phone) hydrated from Firebase if needed.
@@ -122,18 +132,20 @@ async function upsertUserFromFirebaseIdentity(
   }
 }
 
-function makeAuthResponse(user: any) {
-  const token = signAppJwt({
+async function makeAuthResponse(req: any, user: any) {
+  const { token, refreshToken, expiresIn } = await issueSession(req, user, {
     userId: String(user._id),
     userType: user.userType,
     email: user.email,
     phone: user.phone,
   });
 
-  const api: ApiResponse<{ token: string; user: any }> = {
+  const api: ApiResponse<{ token: string; refreshToken: string; expiresIn: number; user: any }> = {
     success: true,
     data: {
       token,
+      refreshToken,
+      expiresIn,
       user: {
         id: String(user._id),
         name: user.name,
@@ -146,7 +158,7 @@ function makeAuthResponse(user: any) {
   };
 
   // keep backward-compat (flat fields)
-  return { ...api, token, user: api.data.user };
+  return { ...api, token, refreshToken, user: api.data.user };
 }
 
 /* ----------------------------- Register new user --------------------------- */
@@ -195,9 +207,13 @@ export const registerUser: RequestHandler = async (req, res) => {
         });
     }
 
-    const existingUser = await db
-      .collection("users")
-      .findOne({ $or: [{ email }, { phone }] });
+    const normalizedPhone = normalizePhone(phone);
+    const existingUser = await db.collection("users").findOne({
+      $or: [
+        { email },
+        { phone: { $in: normalizedPhone ? [phone, ...phoneVariants(normalizedPhone)] : [phone] } },
+      ],
+    });
     if (existingUser) {
       return res.status(400).json({
         success: false,
@@ -260,11 +276,11 @@ export const registerUser: RequestHandler = async (req, res) => {
       console.warn("Welcome email failed:", (e as any)?.message || e);
     }
 
-    const token = signAppJwt({
-      userId: result.insertedId.toString(),
-      userType,
-      email,
-    });
+    const { token, refreshToken, expiresIn } = await issueSession(
+      req,
+      { _id: result.insertedId, userType },
+      { userId: result.insertedId.toString(), userType, email },
+    );
 
     const verificationLink = `${
       process.env.BASE_URL || "http://localhost:8080"
@@ -272,12 +288,16 @@ export const registerUser: RequestHandler = async (req, res) => {
 
     const response: ApiResponse<{
       token: string;
+      refreshToken: string;
+      expiresIn: number;
       user: any;
       verificationLink?: string;
     }> = {
       success: true,
       data: {
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: result.insertedId.toString(),
           name,
@@ -370,6 +390,12 @@ export const loginUser: RequestHandler = async (req, res) => {
         .json({ success: false, error: "Invalid credentials" });
     }
 
+    if (BLOCKED_ACCOUNT_STATUSES.includes(String(user.status || "active"))) {
+      return res
+        .status(403)
+        .json({ success: false, error: "This account has been deactivated" });
+    }
+
     await db.collection("users").updateOne(
       { _id: user._id },
       {
@@ -378,7 +404,7 @@ export const loginUser: RequestHandler = async (req, res) => {
       },
     );
 
-    const token = signAppJwt({
+    const { token, refreshToken, expiresIn } = await issueSession(req, user, {
       userId: user._id.toString(),
       userType: user.userType,
       email: user.email,
@@ -416,9 +442,14 @@ export const loginUser: RequestHandler = async (req, res) => {
       };
     }
 
-    const response: ApiResponse<{ token: string; user: any }> = {
+    const response: ApiResponse<{
+      token: string;
+      refreshToken: string;
+      expiresIn: number;
+      user: any;
+    }> = {
       success: true,
-      data: { token, user: userResponse },
+      data: { token, refreshToken, expiresIn, user: userResponse },
       message: user.isFirstLogin
         ? "First login successful - please change your password"
         : "Login successful",
@@ -431,21 +462,150 @@ export const loginUser: RequestHandler = async (req, res) => {
   }
 };
 
-/* ---------------------- Deprecated demo OTP endpoints --------------------- */
-export const sendOTP: RequestHandler = async (_req, res) => {
-  return res.status(410).json({
+/* ----------------------------- Phone OTP login ---------------------------- */
+function sendOtpError(res: any, error: OtpError) {
+  if (error.retryAfter) res.setHeader("Retry-After", String(error.retryAfter));
+  return res.status(error.status).json({
     success: false,
-    error:
-      "Deprecated. Use Firebase phone auth on client and POST /api/auth/firebase-login with idToken.",
+    error: error.message,
+    code: error.code,
+    ...(error.retryAfter ? { retryAfter: error.retryAfter } : {}),
+    ...(error.attemptsLeft !== undefined ? { attemptsLeft: error.attemptsLeft } : {}),
   });
+}
+
+/** POST /api/auth/send-otp { phone } */
+export const sendOTP: RequestHandler = async (req, res) => {
+  try {
+    const result = await requestPhoneOtp(req.body?.phone, clientIp(req));
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      message: "OTP sent",
+    };
+    res.json(response);
+  } catch (error) {
+    if (error instanceof OtpError) return sendOtpError(res, error);
+    console.error("Error sending OTP:", error);
+    res.status(500).json({ success: false, error: "Failed to send OTP" });
+  }
 };
 
-export const verifyOTP: RequestHandler = async (_req, res) => {
-  return res.status(410).json({
-    success: false,
-    error:
-      "Deprecated. Use Firebase phone auth on client and POST /api/auth/firebase-login with idToken.",
-  });
+/**
+ * POST /api/auth/verify-otp { phone, otp, name?, userType? }
+ * Logs in (or registers) by phone. Accounts that already verified the number
+ * (in any spelling), or that share the signed-in caller's email or Firebase
+ * identity, are merged into one; a signed-in caller links the number to
+ * their account. Accounts that only typed the number in are never merged
+ * and keep the number until their owner agrees to give it up. When such an
+ * account is the only one with the number, a signed-out caller is told to
+ * sign in to it and link the number there — no second account is made.
+ */
+export const verifyOTP: RequestHandler = async (req, res) => {
+  try {
+    const { phone: rawPhone, otp, name, userType: rawUserType } = req.body || {};
+    const phone = await verifyPhoneOtp(rawPhone, otp);
+    const db = getDatabase();
+
+    const matches = await db
+      .collection("users")
+      .find({ phone: { $in: phoneVariants(phone) }, status: { $ne: "merged" } })
+      .toArray();
+
+    const signedInId = (req as any).userId;
+    const signedIn =
+      signedInId && ObjectId.isValid(signedInId)
+        ? await db.collection("users").findOne({ _id: new ObjectId(signedInId) })
+        : null;
+
+    if ([signedIn, ...matches].some((u) => u && !isMergeableAccount(u))) {
+      return res.status(403).json({
+        success: false,
+        error: "This number belongs to a staff account. Please use the staff login.",
+      });
+    }
+
+    const others = matches.filter((u) => !signedIn || String(u._id) !== String(signedIn._id));
+    const trusted = others.filter((u) => isTrustedPhoneMatch(u, signedIn));
+    const unverified = others.filter((u) => !trusted.includes(u));
+    const accounts = signedIn ? [signedIn, ...trusted] : trusted;
+
+    if (accounts.length === 0 && unverified.length > 0) {
+      return res.status(409).json({
+        success: false,
+        code: "PHONE_ON_EXISTING_ACCOUNT",
+        error:
+          "This number is already on an account. Sign in with your email or Google, then verify the number to link it.",
+      });
+    }
+
+    const now = new Date();
+    let user: any;
+    let isNewUser = false;
+
+    if (accounts.length === 0) {
+      const t = String(rawUserType || "").toLowerCase();
+      const newUser: any = {
+        name: String(name || "").trim() || `User ${phone.slice(-4)}`,
+        phone,
+        phoneVerified: true,
+        userType: ["seller", "buyer", "agent"].includes(t) ? t : "seller",
+        status: "active",
+        createdAt: now,
+        updatedAt: now,
+      };
+      const ins = await db.collection("users").insertOne(newUser);
+      user = { _id: ins.insertedId, ...newUser };
+      isNewUser = true;
+    } else {
+      user = await mergeUserAccounts(db, signedIn || pickPrimaryAccount(trusted), accounts);
+    }
+
+    if (BLOCKED_ACCOUNT_STATUSES.includes(String(user.status || "active"))) {
+      return res
+        .status(403)
+        .json({ success: false, error: "This account has been deactivated" });
+    }
+
+    await db.collection("users").updateOne(
+      { _id: user._id },
+      { $set: { phone, phoneVerified: true, lastLogin: now, updatedAt: now } },
+    );
+    await requestPhoneRelease(db, unverified, phone, user._id).catch((e: any) =>
+      console.warn("Phone release request failed:", e?.message || e),
+    );
+
+    const body = await makeAuthResponse(req, { ...user, phone });
+    return res.json({ ...body, data: { ...body.data, isNewUser } });
+  } catch (error) {
+    if (error instanceof OtpError) return sendOtpError(res, error);
+    console.error("Error verifying OTP:", error);
+    res.status(500).json({ success: false, error: "Failed to verify OTP" });
+  }
+};
+
+/**
+ * POST /api/auth/phone-release { release } — answer a request to give up a
+ * number another account has verified (see requestPhoneRelease).
+ */
+export const respondToPhoneRelease: RequestHandler = async (req, res) => {
+  try {
+    const answered = await answerPhoneRelease(
+      getDatabase(),
+      new ObjectId(String((req as any).userId)),
+      req.body?.release === true,
+    );
+    if (!answered) {
+      return res.status(404).json({ success: false, error: "No pending phone number request" });
+    }
+    res.json({
+      success: true,
+      message: req.body?.release === true ? "Phone number removed" : "Phone number kept",
+    });
+  } catch (error) {
+    console.error("Error answering phone release:", error);
+    res.status(500).json({ success: false, error: "Failed to update phone number" });
+  }
 };
 
 /* ---------- Firebase Phone/Google token → our session (unified) ----------- */
@@ -492,7 +652,7 @@ export const firebaseLogin: RequestHandler = async (req, res) => {
       bodyUserType,
     );
 
-    return res.json(makeAuthResponse(user));
+    return res.json(await makeAuthResponse(req, user));
   } catch (err: any) {
     console.error("firebaseLogin error:", err?.message || err);
     return res.status(401).json({ success: false, error: "Invalid token" });
@@ -545,7 +705,7 @@ export const googleAuth: RequestHandler = async (req, res) => {
       bodyUserType,
     );
 
-    return res.json(makeAuthResponse(user));
+    return res.json(await makeAuthResponse(req, user));
   } catch (err: any) {
     console.error("googleAuth verify error:", err?.message || err);
     return res
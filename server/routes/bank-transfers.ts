@@ -2,6 +2,8 @@ import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
+import { recordAudit } from "../utils/auditLog";
+import { activateEntitlement, syncLedgerEntry } from "../utils/paymentLedger";
 
 interface BankTransfer {
   _id?: ObjectId;
@@ -228,58 +230,37 @@ export const updateBankTransferStatus: RequestHandler = async (req, res) => {
       }
     }
 
-    const result = await db
+    const previous = await db
       .collection("bank_transfers")
-      .updateOne(
+      .findOneAndUpdate(
         { _id: new ObjectId(transferId) },
-        { $set: updateData }
+        { $set: updateData },
+        { returnDocument: "before" }
       );
 
-    if (result.matchedCount === 0) {
+    if (!previous) {
       return res.status(404).json({
         success: false,
         error: "Bank transfer not found",
       });
     }
 
-    // If verified, activate the package or credit the user
+    await recordAudit(req, {
+      action: `bank_transfer.${status}`,
+      targetType: "bank_transfer",
+      targetId: transferId,
+      targetLabel: previous.referenceNumber,
+      before: previous,
+      after: updateData,
+      meta: { amount: previous.amount, userEmail: previous.userEmail },
+    });
+
+    // If verified, activate the package; otherwise just keep the ledger current
+    const transfer = { ...previous, ...updateData };
     if (status === "verified") {
-      const transfer = await db
-        .collection("bank_transfers")
-        .findOne({ _id: new ObjectId(transferId) });
-
-      if (transfer && transfer.packageId) {
-        // Activate package for the user
-        await db.collection("user_packages").insertOne({
-          userId: transfer.userId,
-          packageId: transfer.packageId,
-          packageName: transfer.packageName,
-          amount: transfer.amount,
-          propertyId: transfer.propertyId,
-          propertyTitle: transfer.propertyTitle,
-          status: "active",
-          purchaseDate: new Date(),
-          activatedBy: adminId,
-          paymentMethod: "bank_transfer",
-          referenceNumber: transfer.referenceNumber,
-        });
-
-        // Update property to premium if propertyId exists
-        if (transfer.propertyId) {
-          await db
-            .collection("properties")
-            .updateOne(
-              { _id: transfer.propertyId },
-              { 
-                $set: { 
-                  premium: true,
-                  premiumApprovalStatus: "approved",
-                  premiumActivatedAt: new Date(),
-                } 
-              }
-            );
-        }
-      }
+      await activateEntitlement(db, "bank_transfers", transfer, { activatedBy: adminId });
+    } else {
+      await syncLedgerEntry(db, "bank_transfers", transfer);
     }
 
     const response: ApiResponse<{}> = {
@@ -379,17 +360,25 @@ export const deleteBankTransfer: RequestHandler = async (req, res) => {
 
     const db = getDatabase();
 
-    const result = await db
+    const deleted = await db
       .collection("bank_transfers")
-      .deleteOne({ _id: new ObjectId(transferId) });
+      .findOneAndDelete({ _id: new ObjectId(transferId) });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return res.status(404).json({
         success: false,
         error: "Bank transfer not found",
       });
     }
 
+    await recordAudit(req, {
+      action: "bank_transfer.delete",
+      targetType: "bank_transfer",
+      targetId: transferId,
+      targetLabel: deleted.referenceNumber,
+      before: deleted,
+    });
+
     const response: ApiResponse<{}> = {
       success: true,
       data: {},
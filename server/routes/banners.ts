@@ -283,8 +283,8 @@ export const getAllBanners: RequestHandler = async (req, res) => {
 export const createBanner: RequestHandler = async (req, res) => {
   try {
     const db = getDatabase();
-    const { title, imageUrl, link = "", isActive = true, sortOrder, position, status = "approved", isFeatured = false } =
-      req.body as Partial<BannerAd> & { position?: string; status?: string; isFeatured?: boolean };
+    const { title, imageUrl, link = "", isActive = true, sortOrder, position, status = "approved", isFeatured = false, advertiserId } =
+      req.body as Partial<BannerAd> & { position?: string; status?: string; isFeatured?: boolean; advertiserId?: string };
 
     if (!title || !imageUrl) {
       return res.status(400).json({
@@ -293,7 +293,7 @@ export const createBanner: RequestHandler = async (req, res) => {
       });
     }
 
-    const bannerData: Omit<BannerAd, "_id"> & { createdAt: Date; position?: string; status?: string; isFeatured?: boolean } = {
+    const bannerData: Omit<BannerAd, "_id"> & { createdAt: Date; position?: string; status?: string; isFeatured?: boolean; advertiserId?: string } = {
       title: String(title).trim(),
       imageUrl: String(imageUrl).trim(),
       link: String(link || "").trim(),
@@ -303,6 +303,8 @@ export const createBanner: RequestHandler = async (req, res) => {
       isFeatured: Boolean(isFeatured),
       createdAt: new Date(),
       ...(position ? { position: String(position) } : {}),
+      // advertisement submission this banner was sold to (for its report)
+      ...(advertiserId ? { advertiserId: String(advertiserId) } : {}),
     };
 
     const result = await db.collection("banners").insertOne(bannerData as any);
@@ -334,8 +336,8 @@ export const updateBanner: RequestHandler = async (req, res) => {
       return res.status(400).json({ success: false, error: "Invalid banner ID" });
     }
 
-    const { title, imageUrl, link, isActive, sortOrder, position, status, isFeatured } =
-      req.body as Partial<BannerAd> & { position?: string; status?: string; isFeatured?: boolean };
+    const { title, imageUrl, link, isActive, sortOrder, position, status, isFeatured, advertiserId } =
+      req.body as Partial<BannerAd> & { position?: string; status?: string; isFeatured?: boolean; advertiserId?: string | null };
 
     const updateData: any = {};
     if (title !== undefined) updateData.title = String(title).trim();
@@ -346,6 +348,7 @@ export const updateBanner: RequestHandler = async (req, res) => {
     if (position !== undefined) updateData.position = String(position);
     if (status !== undefined) updateData.status = String(status);
     if (isFeatured !== undefined) updateData.isFeatured = Boolean(isFeatured);
+    if (advertiserId !== undefined) updateData.advertiserId = advertiserId ? String(advertiserId) : null;
 
     if (Object.keys(updateData).length === 0) {
       return res.status(400).json({ success: false, error: "No fields to update" });
@@ -0,0 +1,103 @@
+import { RequestHandler } from "express";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import { BoostOptions, PropertyBoost } from "@shared/boosts";
+import {
+  BoostError,
+  applyBoost,
+  assertBoostable,
+  boostPerformance,
+  getBoostPackage,
+} from "../utils/boosts";
+import { QuotaError, getQuotaSummary, releaseEntitlement, requireEntitlement } from "../utils/entitlements";
+
+const sendBoostError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof BoostError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  if (error instanceof QuotaError) {
+    return res
+      .status(error.status)
+      .json({ success: false, error: error.message, entitlement: error.entitlement });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
+
+/** GET /api/seller/boost-options — boost credits left and the boost package for paying instead. */
+export const getBoostOptions: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const [summary, pkg] = await Promise.all([
+      getQuotaSummary(db, (req as any).userId),
+      getBoostPackage(db),
+    ]);
+
+    const response: ApiResponse<BoostOptions> = {
+      success: true,
+      data: {
+        creditsRemaining: summary.quotas.boosts.remaining,
+        package: pkg ? { _id: String(pkg._id), name: pkg.name, price: Number(pkg.price || 0) } : null,
+      },
+    };
+    res.json(response);
+  } catch (error) {
+    sendBoostError(res, error, "Failed to fetch boost options");
+  }
+};
+
+/**
+ * POST /api/seller/properties/:id/boost — boost a listing with a credit from
+ * an active package. Paying for a boost goes through the gateways with the
+ * boost package and `propertyId` instead.
+ */
+export const boostProperty: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid property ID" });
+    }
+    const db = getDatabase();
+    const userId = (req as any).userId;
+    const propertyId = new ObjectId(id);
+
+    assertBoostable(await db.collection("properties").findOne({ _id: propertyId }), userId);
+
+    const row = await requireEntitlement(db, userId, "boosts");
+    let boost: Awaited<ReturnType<typeof applyBoost>>;
+    try {
+      boost = await applyBoost(db, propertyId, {
+        userId,
+        source: "credit",
+        userPackageId: row._id,
+      });
+    } catch (error) {
+      await releaseEntitlement(db, row._id, "boosts");
+      throw error;
+    }
+
+    const response: ApiResponse<typeof boost> = {
+      success: true,
+      data: boost,
+    };
+    res.json(response);
+  } catch (error) {
+    sendBoostError(res, error, "Failed to boost listing");
+  }
+};
+
+/** GET /api/seller/boosts — the seller's boosts with views before and during each. */
+export const getSellerBoosts: RequestHandler = async (req, res) => {
+  try {
+    const boosts = await boostPerformance(getDatabase(), (req as any).userId);
+
+    const response: ApiResponse<PropertyBoost[]> = {
+      success: true,
+      data: boosts,
+    };
+    res.json(response);
+  } catch (error) {
+    sendBoostError(res, error, "Failed to fetch boosts");
+  }
+};
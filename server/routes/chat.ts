@@ -1,8 +1,18 @@
 import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
-import { ChatConversation, ChatMessage } from "@shared/chat-types";
+import { ChatConversation } from "@shared/chat-types";
 import { ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
+import { captureLeadQuietly } from "../utils/leads";
+import { MessagingError, findConversationFor, markMessages, postMessage } from "../utils/messaging";
+
+const sendMessagingError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof MessagingError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
 
 // Get all conversations for a user
 export const getUserConversations: RequestHandler = async (req, res) => {
@@ -123,29 +133,11 @@ export const getConversationMessages: RequestHandler = async (req, res) => {
     const limitNum = parseInt(limit as string);
     const skip = (pageNum - 1) * limitNum;
 
-    if (!ObjectId.isValid(conversationId)) {
-      return res.status(400).json({
-        success: false,
-        error: "Invalid conversation ID",
-      });
-    }
-
-    // Check if user is participant in conversation
-    const conversation = await db.collection("conversations").findOne({
-      _id: new ObjectId(conversationId),
-      participants: userId,
-    });
-
-    if (!conversation) {
-      return res.status(403).json({
-        success: false,
-        error: "Access denied",
-      });
-    }
+    const conversation = await findConversationFor(db, conversationId, userId);
 
     const messages = await db
       .collection("messages")
-      .find({ conversationId: conversationId })
+      .find({ conversationId: conversation._id })
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limitNum)
@@ -153,24 +145,9 @@ export const getConversationMessages: RequestHandler = async (req, res) => {
 
     const total = await db
       .collection("messages")
-      .countDocuments({ conversationId: conversationId });
-
-    // Mark messages as read
-    await db.collection("messages").updateMany(
-      {
-        conversationId: conversationId,
-        senderId: { $ne: userId },
-        "readBy.userId": { $ne: userId },
-      },
-      {
-        $push: {
-          readBy: {
-            userId: userId,
-            readAt: new Date(),
-          },
-        } as any,
-      },
-    );
+      .countDocuments({ conversationId: conversation._id });
+
+    await markMessages(db, conversation._id, userId, "read");
 
     const response: ApiResponse<{
       messages: any[];
@@ -195,11 +172,7 @@ export const getConversationMessages: RequestHandler = async (req, res) => {
 
     res.json(response);
   } catch (error) {
-    console.error("Error fetching messages:", error);
-    res.status(500).json({
-      success: false,
-      error: "Failed to fetch messages",
-    });
+    sendMessagingError(res, error, "Failed to fetch messages");
   }
 };
 
@@ -215,18 +188,6 @@ export const sendMessage: RequestHandler = async (req, res) => {
       propertyData,
     } = req.body;
 
-    // Get user details
-    const user = await db
-      .collection("users")
-      .findOne({ _id: new ObjectId(userId) });
-
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        error: "User not found",
-      });
-    }
-
     let finalConversationId = conversationId;
 
     // If no conversation ID, create new conversation
@@ -267,49 +228,11 @@ export const sendMessage: RequestHandler = async (req, res) => {
       }
     }
 
-    // Verify user is participant in conversation
-    const conversation = await db.collection("conversations").findOne({
-      _id: new ObjectId(finalConversationId),
-      participants: userId,
-    });
-
-    if (!conversation) {
-      return res.status(403).json({
-        success: false,
-        error: "Access denied",
-      });
-    }
-
-    // Create message
-    const newMessage: Omit<ChatMessage, "_id"> = {
-      conversationId: finalConversationId,
-      senderId: userId,
-      senderName: user.name,
-      senderType: user.userType,
-      message,
+    const { message: saved } = await postMessage(db, finalConversationId, userId, {
+      text: message,
       messageType,
       propertyData,
-      readBy: [
-        {
-          userId: userId,
-          readAt: new Date(),
-        },
-      ] as any,
-      createdAt: new Date(),
-    };
-
-    const messageResult = await db.collection("messages").insertOne(newMessage);
-
-    // Update conversation last message
-    await db.collection("conversations").updateOne(
-      { _id: new ObjectId(finalConversationId) },
-      {
-        $set: {
-          lastMessageAt: new Date(),
-          updatedAt: new Date(),
-        },
-      },
-    );
+    });
 
     const response: ApiResponse<{
       messageId: string;
@@ -317,19 +240,15 @@ export const sendMessage: RequestHandler = async (req, res) => {
     }> = {
       success: true,
       data: {
-        messageId: messageResult.insertedId.toString(),
-        conversationId: finalConversationId,
+        messageId: saved._id.toString(),
+        conversationId: String(finalConversationId),
       },
       message: "Message sent successfully",
     };
 
     res.status(201).json(response);
   } catch (error) {
-    console.error("Error sending message:", error);
-    res.status(500).json({
-      success: false,
-      error: "Failed to send message",
-    });
+    sendMessagingError(res, error, "Failed to send message");
   }
 };
 
@@ -392,42 +311,12 @@ export const startPropertyConversation: RequestHandler = async (req, res) => {
         .collection("conversations")
         .insertOne(newConversation);
       conversationId = conversationResult.insertedId.toString();
+      captureLeadQuietly(db, { propertyId, channel: "chat", userId, message });
     }
 
     // Send initial message if provided
     if (message) {
-      const user = await db
-        .collection("users")
-        .findOne({ _id: new ObjectId(userId) });
-
-      const newMessage: Omit<ChatMessage, "_id"> = {
-        conversationId: conversationId,
-        senderId: userId,
-        senderName: user?.name || "User",
-        senderType: user?.userType || "buyer",
-        message,
-        messageType: "text",
-        readBy: [
-          {
-            userId: userId,
-            readAt: new Date(),
-          },
-        ] as any,
-        createdAt: new Date(),
-      };
-
-      await db.collection("messages").insertOne(newMessage);
-
-      // Update conversation
-      await db.collection("conversations").updateOne(
-        { _id: new ObjectId(conversationId) },
-        {
-          $set: {
-            lastMessageAt: new Date(),
-            updatedAt: new Date(),
-          },
-        },
-      );
+      await postMessage(db, conversationId, userId, { text: message });
     }
 
     const response: ApiResponse<{ conversationId: string }> = {
@@ -438,11 +327,7 @@ export const startPropertyConversation: RequestHandler = async (req, res) => {
 
     res.status(201).json(response);
   } catch (error) {
-    console.error("Error starting conversation:", error);
-    res.status(500).json({
-      success: false,
-      error: "Failed to start conversation",
-    });
+    sendMessagingError(res, error, "Failed to start conversation");
   }
 };
 
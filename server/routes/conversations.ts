@@ -3,30 +3,18 @@ import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { ObjectId } from "mongodb";
 import { ApiResponse } from "@shared/types";
-import { getSocketServer } from "../index";
+import { captureLeadQuietly } from "../utils/leads";
+import { MessagingError, findConversationFor, markMessages, postMessage } from "../utils/messaging";
 
 /* ------------------------ Helpers ------------------------ */
 
-const messageRateMap: Map<string, number[]> = new Map();
-const now = () => Date.now();
-const WINDOW_MS = 30 * 1000; // 30s
-const MAX_MSGS = 10; // 10 messages / 30s
-
-function canSend(userId: string): boolean {
-  const ts = now();
-  const arr = messageRateMap.get(userId) || [];
-  const filtered = arr.filter((t) => ts - t < WINDOW_MS);
-  if (filtered.length >= MAX_MSGS) return false;
-  filtered.push(ts);
-  messageRateMap.set(userId, filtered);
-  return true;
-}
-
-function sanitizeText(input?: string): string {
-  if (!input) return "";
-  const noTags = input.replace(/<[^>]*>/g, "");
-  return noTags.trim().slice(0, 2000);
-}
+const sendMessagingError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof MessagingError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
 
 function isHexObjectId(v: any): boolean {
   return typeof v === "string" && /^[a-f\d]{24}$/i.test(v);
@@ -120,6 +108,7 @@ export const findOrCreateConversation: RequestHandler = async (req, res) => {
     };
 
     const result = await db.collection("conversations").insertOne(newConversation);
+    captureLeadQuietly(db, { propertyId, channel: "chat", userId: buyerId });
 
     const response: ApiResponse<any> = {
       success: true,
@@ -215,6 +204,7 @@ export const createConversation: RequestHandler = async (req, res) => {
     };
 
     const result = await db.collection("conversations").insertOne(newConversation);
+    captureLeadQuietly(db, { propertyId, channel: "chat", userId });
 
     const response: ApiResponse<any> = {
       success: true,
@@ -389,23 +379,9 @@ export const getConversationMessages: RequestHandler = async (req, res) => {
     if (!userId) {
       return res.status(401).json({ success: false, error: "Auth required" });
     }
-    if (!ObjectId.isValid(id)) {
-      return res
-        .status(400)
-        .json({ success: false, error: "Invalid conversation ID" });
-    }
-    const convoId = new ObjectId(id);
-
-    // Must be participant
-    const conversation = await db.collection("conversations").findOne({
-      _id: convoId,
-      $or: [{ buyer: userId }, { seller: userId }, { participants: userId }],
-    });
-    if (!conversation) {
-      return res.status(403).json({ success: false, error: "Access denied" });
-    }
+    const conversation = await findConversationFor(db, id, userId);
 
-    const q: any = { conversationId: convoId };
+    const q: any = { conversationId: conversation._id };
     if (cursor) {
       const d = new Date(String(cursor));
       if (!isNaN(d.getTime())) q.createdAt = { $lt: d };
@@ -419,15 +395,8 @@ export const getConversationMessages: RequestHandler = async (req, res) => {
       .limit(limitNum)
       .toArray();
 
-    // Mark as read (for messages not by current user)
-    await db.collection("messages").updateMany(
-      {
-        conversationId: convoId,
-        senderId: { $ne: userId },
-        "readBy.userId": { $ne: userId },
-      },
-      { $push: { readBy: { userId, readAt: new Date() } } },
-    );
+    // Fetching is reading; senders get a receipt
+    await markMessages(db, conversation._id, userId, "read");
 
     const response: ApiResponse<any[]> = {
       success: true,
@@ -435,11 +404,7 @@ export const getConversationMessages: RequestHandler = async (req, res) => {
     };
     return res.json(response);
   } catch (error) {
-    console.error("Error fetching messages:", error);
-    return res.status(500).json({
-      success: false,
-      error: "Failed to fetch messages",
-    });
+    sendMessagingError(res, error, "Failed to fetch messages");
   }
 };
 
@@ -449,109 +414,20 @@ export const getConversationMessages: RequestHandler = async (req, res) => {
    ========================================================= */
 export const sendMessageToConversation: RequestHandler = async (req, res) => {
   try {
-    const db = getDatabase();
     const userId = (req as any).userId as string;
-    const { id } = req.params as { id: string };
     const { text, imageUrl } = req.body as { text?: string; imageUrl?: string };
 
     if (!userId) {
       return res.status(401).json({ success: false, error: "Auth required" });
     }
-    if (!text && !imageUrl) {
-      return res.status(400).json({
-        success: false,
-        error: "Either text or imageUrl is required",
-      });
-    }
-    if (!ObjectId.isValid(id)) {
-      return res
-        .status(400)
-        .json({ success: false, error: "Invalid conversation ID" });
-    }
-    if (!canSend(userId)) {
-      return res
-        .status(429)
-        .json({ success: false, error: "Too many messages. Please wait a moment." });
-    }
-
-    const convoId = new ObjectId(id);
-
-    const conversation = await db.collection("conversations").findOne({
-      _id: convoId,
-      $or: [{ buyer: userId }, { seller: userId }, { participants: userId }],
-    });
-    if (!conversation) {
-      return res.status(403).json({ success: false, error: "Access denied" });
-    }
 
-    // Load user (works for both string and ObjectId _id schemas)
-    const user =
-      (await db
-        .collection("users")
-        .findOne({ _id: toObjectIdOrNull(userId) as any })) ||
-      (await db.collection("users").findOne({ _id: userId as any }));
+    // Same path as socket `message:send`: stored, then pushed live or via FCM
+    const { message } = await postMessage(getDatabase(), req.params.id, userId, { text, imageUrl });
 
-    if (!user) {
-      return res.status(404).json({ success: false, error: "User not found" });
-    }
-
-    const safeText = sanitizeText(text);
-
-    const newMessage = {
-      conversationId: convoId, // ✅ ObjectId
-      sender: userId, // legacy
-      senderId: userId, // normalized string
-      senderName: user.name ?? "User",
-      senderType: user.userType ?? (conversation.seller === userId ? "owner" : "buyer"),
-      text: safeText,
-      message: safeText, // legacy compatibility
-      imageUrl: imageUrl || null,
-      messageType: imageUrl ? "image" : "text",
-      readBy: [{ userId, readAt: new Date() }],
-      createdAt: new Date(),
-    };
-
-    const messageResult = await db.collection("messages").insertOne(newMessage);
-
-    await db.collection("conversations").updateOne(
-      { _id: convoId },
-      {
-        $set: {
-          lastMessageAt: new Date(),
-          updatedAt: new Date(),
-          lastMessage: {
-            text: newMessage.text,
-            senderId: userId,
-            createdAt: newMessage.createdAt,
-          },
-        },
-      },
-    );
-
-    // Real-time push (if socket server available)
-    try {
-      const socketServer = getSocketServer?.();
-      if (socketServer) {
-        socketServer.emitNewMessage?.(conversation, {
-          ...newMessage,
-          _id: messageResult.insertedId,
-        });
-      }
-    } catch (e) {
-      console.warn("Socket emit failed (non-blocking):", (e as any)?.message || e);
-    }
-
-    const response: ApiResponse<any> = {
-      success: true,
-      data: { _id: messageResult.insertedId, ...newMessage },
-    };
+    const response: ApiResponse<any> = { success: true, data: message };
     return res.status(201).json(response);
   } catch (error) {
-    console.error("Error sending message:", error);
-    return res.status(500).json({
-      success: false,
-      error: "Failed to send message",
-    });
+    sendMessagingError(res, error, "Failed to send message");
   }
 };
 
@@ -561,40 +437,19 @@ export const sendMessageToConversation: RequestHandler = async (req, res) => {
    ========================================================= */
 export const markConversationRead: RequestHandler = async (req, res) => {
   try {
-    const db = getDatabase();
     const userId = (req as any).userId as string;
     const { id } = req.params as { id: string };
 
     if (!userId) {
       return res.status(401).json({ success: false, error: "Auth required" });
     }
-    if (!ObjectId.isValid(id)) {
-      return res
-        .status(400)
-        .json({ success: false, error: "Invalid conversation ID" });
-    }
-    const convoId = new ObjectId(id);
 
-    const conversation = await db.collection("conversations").findOne({
-      _id: convoId,
-      $or: [{ buyer: userId }, { seller: userId }, { participants: userId }],
+    const receipt = await markMessages(getDatabase(), id, userId, "read");
+    return res.json({
+      success: true,
+      data: { conversationId: id, messageIds: receipt?.messageIds || [] },
     });
-    if (!conversation) {
-      return res.status(403).json({ success: false, error: "Access denied" });
-    }
-
-    await db.collection("messages").updateMany(
-      {
-        conversationId: convoId,
-        senderId: { $ne: userId },
-        "readBy.userId": { $ne: userId },
-      },
-      { $push: { readBy: { userId, readAt: new Date() } } },
-    );
-
-    return res.json({ success: true, data: { conversationId: id } });
   } catch (error) {
-    console.error("Error marking conversation read:", error);
-    return res.status(500).json({ success: false, error: "Failed to mark as read" });
+    sendMessagingError(res, error, "Failed to mark as read");
   }
 };
@@ -2,6 +2,7 @@ import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
+import { recordAudit } from "../utils/auditLog";
 
 export interface Coupon {
   _id?: ObjectId;
@@ -142,6 +143,15 @@ export const createCoupon: RequestHandler = async (req, res) => {
 
     const result = await db.collection("coupons").insertOne(couponData);
 
+    await recordAudit(req, {
+      action: "coupon.create",
+      targetType: "coupon",
+      targetId: result.insertedId,
+      targetLabel: couponData.code,
+      before: null,
+      after: couponData,
+    });
+
     const response: ApiResponse<{ couponId: string }> = {
       success: true,
       data: { couponId: result.insertedId.toString() },
@@ -198,6 +208,15 @@ export const updateCoupon: RequestHandler = async (req, res) => {
       });
     }
 
+    await recordAudit(req, {
+      action: "coupon.update",
+      targetType: "coupon",
+      targetId: id,
+      targetLabel: updateData.code || (existing as any)?.code,
+      before: existing,
+      after: updateData,
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Coupon updated successfully" },
@@ -226,15 +245,23 @@ export const deleteCoupon: RequestHandler = async (req, res) => {
       });
     }
 
-    const result = await db.collection("coupons").deleteOne({ _id: new ObjectId(id) });
+    const deleted = await db.collection("coupons").findOneAndDelete({ _id: new ObjectId(id) });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return res.status(404).json({
         success: false,
         error: "Coupon not found",
       });
     }
 
+    await recordAudit(req, {
+      action: "coupon.delete",
+      targetType: "coupon",
+      targetId: id,
+      targetLabel: deleted.code,
+      before: deleted,
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Coupon deleted successfully" },
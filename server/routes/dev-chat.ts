@@ -89,7 +89,7 @@ export const seedChatData: RequestHandler = async (req, res) => {
 
     // Seed messages
     await db.collection("messages").insertOne({
-      conversationId: conversation._id.toString(),
+      conversationId: conversation._id,
       sender: buyerId.toString(),
       senderId: buyerId.toString(),
       senderName: "Buyer",
@@ -101,7 +101,7 @@ export const seedChatData: RequestHandler = async (req, res) => {
     });
 
     await db.collection("messages").insertOne({
-      conversationId: conversation._id.toString(),
+      conversationId: conversation._id,
       sender: ownerId.toString(),
       senderId: ownerId.toString(),
       senderName: "Owner",
@@ -152,7 +152,7 @@ export const replyAsOwner: RequestHandler = async (req, res) => {
     const seller = await db.collection("users").findOne({ _id: sellerId });
 
     const message = {
-      conversationId,
+      conversationId: conv._id,
       sender: sellerId,
       senderId: sellerId,
       senderName: seller?.name || "Owner",
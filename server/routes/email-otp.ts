@@ -1,14 +1,11 @@
 import type { RequestHandler } from "express";
-import jwt from "jsonwebtoken";
 import { sendEmail } from "../utils/mailer";
 import { getDatabase } from "../db/mongodb";
+import { issueSession } from "../utils/authSessions";
 
 // Store email OTPs in MongoDB for reliability across restarts
 // Collection: email_otps { email: string, otp: string, createdAt: Date, expiresAt: Date }
 
-const JWT_SECRET =
-  process.env.JWT_MOCK_SECRET || process.env.JWT_SECRET || "change-this";
-
 function generateOtp(): string {
   return String(Math.floor(100000 + Math.random() * 900000));
 }
@@ -111,20 +108,18 @@ export const verifyEmailOtp: RequestHandler = async (req, res) => {
       user = { _id: ins.insertedId, ...doc } as any;
     }
 
-    const token = jwt.sign(
-      {
-        userId: String(user._id),
-        userType: user.userType || "seller",
-        email: user.email,
-      },
-      JWT_SECRET,
-      { expiresIn: "7d" },
-    );
+    const { token, refreshToken, expiresIn } = await issueSession(req, user, {
+      userId: String(user._id),
+      userType: user.userType || "seller",
+      email: user.email,
+    });
 
     return res.json({
       success: true,
       data: {
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: String(user._id),
           name: user.name,
@@ -2,6 +2,7 @@ import { RequestHandler } from "express";
 import { ObjectId } from "mongodb";
 import { getDatabase } from "../db/mongodb";
 import { sendEmail } from "../utils/mailer";
+import { captureLeadQuietly } from "../utils/leads";
 
 interface EnquiryData {
   propertyId: string;
@@ -137,6 +138,17 @@ export const submitEnquiry: RequestHandler = async (req, res) => {
       `✅ New enquiry received for property ${propertyId} from ${name} (${phone})`,
     );
 
+    // Enquiries on agents' listings land in their CRM
+    captureLeadQuietly(db, {
+      propertyId,
+      channel: "enquiry",
+      userId: (req as any).userId,
+      name: name.trim(),
+      phone: phone.trim(),
+      email: email?.trim(),
+      message: message.trim(),
+    });
+
     // Send email notifications asynchronously (don't block response)
     (async () => {
       try {
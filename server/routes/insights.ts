@@ -0,0 +1,113 @@
+import { RequestHandler } from "express";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import {
+  ALL,
+  AreaInsight,
+  SNAPSHOTS_COLLECTION,
+  computeAreaInsights,
+  getLatestSnapshotDate,
+} from "../utils/marketInsights";
+import { normalizeSearchText } from "../utils/propertySearch";
+
+const slug = (v: any) => String(v || "").trim().toLowerCase();
+
+/**
+ * GET /api/insights/areas?area=sector 14&propertyType=residential&subCategory=3bhk
+ * Latest snapshot rows. Without propertyType/subCategory the "all" roll-ups
+ * are returned; pass `breakdown=true` to get every row for the area(s).
+ */
+export const getAreaInsights: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const { area, propertyType, subCategory, breakdown } = req.query;
+
+    const filter: any = {};
+    if (area) filter.areaKey = normalizeSearchText(String(area));
+    if (propertyType) filter.propertyType = slug(propertyType);
+    else if (breakdown !== "true") filter.propertyType = ALL;
+    if (subCategory) filter.subCategory = slug(subCategory);
+    else if (breakdown !== "true") filter.subCategory = ALL;
+
+    const snapshotDate = await getLatestSnapshotDate(db);
+    let rows: AreaInsight[];
+    let source: "snapshot" | "live" = "snapshot";
+
+    if (snapshotDate) {
+      rows = (await db
+        .collection(SNAPSHOTS_COLLECTION)
+        .find({ ...filter, snapshotDate })
+        .project({ _id: 0, createdAt: 0 })
+        .sort({ listingCount: -1 })
+        .toArray()) as unknown as AreaInsight[];
+    } else {
+      // first boot, before the snapshot job has run
+      source = "live";
+      rows = (await computeAreaInsights(db)).filter((r) =>
+        Object.entries(filter).every(([k, v]) => (r as any)[k] === v),
+      );
+    }
+
+    const response: ApiResponse<{
+      asOf: Date;
+      source: string;
+      areas: AreaInsight[];
+    }> = {
+      success: true,
+      data: { asOf: snapshotDate || new Date(), source, areas: rows },
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching area insights:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch area insights",
+    });
+  }
+};
+
+/**
+ * GET /api/insights/areas/trend?area=sector 14&propertyType=all&days=180
+ * Snapshot time series for one area (or every area when `area` is omitted,
+ * used by the admin dashboard).
+ */
+export const getAreaInsightTrend: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const { area, propertyType, subCategory, days = "180" } = req.query;
+    const daysNum = Math.min(Math.max(parseInt(String(days)) || 180, 1), 730);
+
+    const filter: any = {
+      propertyType: propertyType ? slug(propertyType) : ALL,
+      subCategory: subCategory ? slug(subCategory) : ALL,
+      snapshotDate: { $gte: new Date(Date.now() - daysNum * 24 * 60 * 60 * 1000) },
+    };
+    if (area) filter.areaKey = normalizeSearchText(String(area));
+
+    const points = await db
+      .collection(SNAPSHOTS_COLLECTION)
+      .find(filter)
+      .project({
+        _id: 0,
+        snapshotDate: 1,
+        areaKey: 1,
+        area: 1,
+        listingCount: 1,
+        medianSalePrice: 1,
+        medianSalePricePerSqft: 1,
+        medianRent: 1,
+        rentYieldPct: 1,
+        medianDaysOnMarket: 1,
+      })
+      .sort({ snapshotDate: 1 })
+      .toArray();
+
+    res.json({ success: true, data: { days: daysNum, points } });
+  } catch (error) {
+    console.error("Error fetching area insight trend:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch area insight trend",
+    });
+  }
+};
@@ -0,0 +1,113 @@
+import { RequestHandler } from "express";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import { gstStateName } from "@shared/gst";
+import { INVOICES_COLLECTION, monthlyGstSummary } from "../utils/invoices";
+
+const csvCell = (v: any) => `"${String(v ?? "").replace(/"/g, '""')}"`;
+
+const sendInvoicePdf = async (res: any, filter: Record<string, any>) => {
+  const invoice = await getDatabase().collection(INVOICES_COLLECTION).findOne(filter);
+  if (!invoice?.pdf) {
+    return res.status(404).json({ success: false, error: "Invoice not found" });
+  }
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${String(invoice.invoiceNumber).replace(/\//g, "-")}.pdf"`,
+  );
+  res.send(Buffer.from(invoice.pdf.buffer));
+};
+
+/** GET /api/invoices/:id/pdf — the signed-in buyer's own invoice. */
+export const getMyInvoicePdf: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid invoice ID" });
+    }
+    const userId = String((req as any).userId);
+    await sendInvoicePdf(res, {
+      _id: new ObjectId(id),
+      userId: { $in: [new ObjectId(userId), userId] },
+    });
+  } catch (error) {
+    console.error("Error downloading invoice:", error);
+    res.status(500).json({ success: false, error: "Failed to download invoice" });
+  }
+};
+
+/** GET /api/admin/invoices/:id/pdf */
+export const getInvoicePdf: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid invoice ID" });
+    }
+    await sendInvoicePdf(res, { _id: new ObjectId(id) });
+  } catch (error) {
+    console.error("Error downloading invoice:", error);
+    res.status(500).json({ success: false, error: "Failed to download invoice" });
+  }
+};
+
+/**
+ * GET /api/admin/payments/gst-summary?month=YYYY-MM&format=csv
+ * Invoices and credit notes for the month with CGST/SGST/IGST totals, for
+ * filing GSTR-1.
+ */
+export const getGstSummary: RequestHandler = async (req, res) => {
+  try {
+    const now = new Date();
+    const month =
+      String(req.query.month || "") ||
+      `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return res.status(400).json({ success: false, error: "Month must be YYYY-MM" });
+    }
+
+    const summary = await monthlyGstSummary(getDatabase(), month);
+
+    if (String(req.query.format) === "csv") {
+      const header =
+        ["Type", "Number", "Date", "Buyer", "Buyer GSTIN", "Place of supply", "Taxable value", "CGST", "SGST", "IGST", "Total"]
+          .map(csvCell)
+          .join(",") + "\n";
+      const rows = summary.rows
+        .map((r) =>
+          [
+            r.type === "invoice" ? "Invoice" : "Credit note",
+            r.number,
+            new Date(r.date).toISOString().slice(0, 10),
+            r.buyer,
+            r.buyerGstin,
+            `${r.placeOfSupply}-${gstStateName(r.placeOfSupply)}`,
+            r.taxableValue.toFixed(2),
+            r.cgst.toFixed(2),
+            r.sgst.toFixed(2),
+            r.igst.toFixed(2),
+            r.total.toFixed(2),
+          ]
+            .map(csvCell)
+            .join(","),
+        )
+        .join("\n");
+      const t = summary.totals;
+      const footer =
+        "\n" +
+        ["Total", "", "", "", "", "", t.taxableValue.toFixed(2), t.cgst.toFixed(2), t.sgst.toFixed(2), t.igst.toFixed(2), t.total.toFixed(2)]
+          .map(csvCell)
+          .join(",");
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="gst-summary-${month}.csv"`);
+      return res.send(header + rows + footer);
+    }
+
+    const response: ApiResponse<typeof summary> = { success: true, data: summary };
+    res.json(response);
+  } catch (error) {
+    console.error("Error building GST summary:", error);
+    res.status(500).json({ success: false, error: "Failed to build GST summary" });
+  }
+};
@@ -0,0 +1,117 @@
+import { RequestHandler } from "express";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import {
+  ScheduledJobDoc,
+  INSTANCE_ID,
+  isJobRegistered,
+  runJobNow,
+  setJobPaused,
+} from "../utils/scheduler";
+
+// List all scheduled jobs with their last run state (admin only)
+export const getScheduledJobs: RequestHandler = async (_req, res) => {
+  try {
+    const db = getDatabase();
+    const jobs = await db
+      .collection("scheduled_jobs")
+      .find({})
+      .sort({ name: 1 })
+      .toArray();
+
+    const response: ApiResponse<{
+      jobs: ScheduledJobDoc[];
+      instance: string;
+    }> = {
+      success: true,
+      data: {
+        jobs: jobs as unknown as ScheduledJobDoc[],
+        instance: INSTANCE_ID,
+      },
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching scheduled jobs:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch scheduled jobs",
+    });
+  }
+};
+
+// Recent run history for one job (admin only)
+export const getJobRuns: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const { name } = req.params;
+    const limitNum = Math.min(parseInt(String(req.query.limit || "20")), 100);
+
+    const runs = await db
+      .collection("job_runs")
+      .find({ jobName: name })
+      .sort({ startedAt: -1 })
+      .limit(limitNum)
+      .toArray();
+
+    res.json({ success: true, data: runs });
+  } catch (error) {
+    console.error("Error fetching job runs:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch job runs",
+    });
+  }
+};
+
+const setPaused =
+  (paused: boolean): RequestHandler =>
+  async (req, res) => {
+    try {
+      const { name } = req.params;
+      const found = await setJobPaused(name, paused);
+      if (!found) {
+        return res.status(404).json({ success: false, error: "Job not found" });
+      }
+
+      const response: ApiResponse<{ message: string }> = {
+        success: true,
+        data: { message: `Job ${paused ? "paused" : "resumed"} successfully` },
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error updating job state:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update job",
+      });
+    }
+  };
+
+export const pauseJob = setPaused(true);
+export const resumeJob = setPaused(false);
+
+// Trigger a job right now, regardless of schedule or pause state (admin only)
+export const runJob: RequestHandler = async (req, res) => {
+  try {
+    const { name } = req.params;
+    if (!isJobRegistered(name)) {
+      return res.status(404).json({ success: false, error: "Job not found" });
+    }
+
+    const outcome = await runJobNow(name);
+    if (!outcome) {
+      return res.status(409).json({
+        success: false,
+        error: "Job is already running on another instance",
+      });
+    }
+
+    res.json({ success: outcome.status === "success", data: outcome });
+  } catch (error) {
+    console.error("Error running job:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to run job",
+    });
+  }
+};
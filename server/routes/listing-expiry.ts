@@ -0,0 +1,46 @@
+import { RequestHandler } from "express";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import { ListingExpirySettings } from "@shared/listingExpiry";
+import { getListingExpirySettings, saveListingExpirySettings } from "../utils/listingExpiry";
+import { recordAudit } from "../utils/auditLog";
+
+/** GET /api/admin/settings/listing-expiry */
+export const getListingExpiryConfig: RequestHandler = async (_req, res) => {
+  try {
+    const response: ApiResponse<ListingExpirySettings> = {
+      success: true,
+      data: await getListingExpirySettings(getDatabase()),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching listing expiry settings:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch settings" });
+  }
+};
+
+/** PUT /api/admin/settings/listing-expiry — lifetimes per package type and reminder days. */
+export const updateListingExpiryConfig: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const previous = await getListingExpirySettings(db);
+    const settings = await saveListingExpirySettings(db, req.body);
+
+    await recordAudit(req, {
+      action: "settings.update",
+      targetType: "settings",
+      targetLabel: "listing_expiry_settings",
+      before: previous,
+      after: settings,
+    });
+
+    const response: ApiResponse<ListingExpirySettings> = {
+      success: true,
+      data: settings,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error updating listing expiry settings:", error);
+    res.status(500).json({ success: false, error: "Failed to update settings" });
+  }
+};
@@ -1,5 +1,7 @@
 import { RequestHandler } from "express";
+import { ObjectId } from "mongodb";
 import { getAdmin } from "../firebaseAdmin";
+import { getDatabase } from "../db/mongodb";
 
 export const subscribeToTopic: RequestHandler = async (req, res) => {
   try {
@@ -33,3 +35,34 @@ export const subscribeToTopic: RequestHandler = async (req, res) => {
       });
   }
 };
+
+// Attach an FCM device token to the logged-in user so targeted pushes
+// (saved-search alerts, price drops, chat) can reach them
+export const registerDeviceToken: RequestHandler = async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+    const { token } = req.body || {};
+    if (!token || typeof token !== "string") {
+      return res.status(400).json({ success: false, error: "token required" });
+    }
+    if (!ObjectId.isValid(String(userId))) {
+      return res.status(400).json({ success: false, error: "Invalid user" });
+    }
+
+    const db = getDatabase();
+    await db.collection("users").updateOne(
+      { _id: new ObjectId(String(userId)) },
+      {
+        $addToSet: { fcmTokens: token },
+        $set: { fcmTokenUpdatedAt: new Date() },
+      } as any,
+    );
+    return res.json({ success: true });
+  } catch (e: any) {
+    return res.status(500).json({
+      success: false,
+      error: "Failed to register device",
+      details: e?.message,
+    });
+  }
+};
@@ -1,7 +1,7 @@
 import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { ApiResponse } from "@shared/types";
-import { ObjectId } from "mongodb";
+import { Db, ObjectId } from "mongodb";
 
 interface NotificationData {
   _id?: ObjectId;
@@ -24,6 +24,178 @@ interface NotificationData {
   };
 }
 
+// Resolve recipient users for an audience (also used when a scheduled
+// notification is dispatched, so late sign-ups are included)
+export const resolveRecipients = async (
+  db: Db,
+  audience: NotificationData["audience"],
+  specificUsers?: string[],
+) => {
+  let recipientFilter: any = {};
+
+  if (audience === "specific" && specificUsers && specificUsers.length > 0) {
+    // Specific users selected
+    recipientFilter = {
+      _id: {
+        $in: specificUsers
+          .filter((id: string) => ObjectId.isValid(id))
+          .map((id: string) => new ObjectId(id)),
+      },
+    };
+  } else {
+    // Audience-based targeting
+    switch (audience) {
+      case "buyers":
+        recipientFilter = { userType: "buyer" };
+        break;
+      case "sellers":
+        recipientFilter = { userType: "seller" };
+        break;
+      case "agents":
+        recipientFilter = { userType: "agent" };
+        break;
+      case "all":
+      default:
+        recipientFilter = { userType: { $in: ["buyer", "seller", "agent"] } };
+        break;
+    }
+  }
+
+  return db
+    .collection("users")
+    .find(recipientFilter, { projection: { _id: 1, name: 1, email: 1, userType: 1 } })
+    .toArray();
+};
+
+// Deliver a stored notification to its recipients and record the results
+export const deliverNotification = async (
+  db: Db,
+  notification: NotificationData,
+  recipients: any[],
+) => {
+  const notificationId = notification._id;
+  const { title, message, type } = notification;
+
+  try {
+    let emailsSent = 0;
+    let pushNotificationsSent = 0;
+    let failedDeliveries = 0;
+    const errorDetails: string[] = [];
+
+    // Send notifications to each recipient
+    for (const recipient of recipients) {
+      try {
+        // Log the notification for tracking
+        await db.collection("user_notifications").insertOne({
+          notificationId,
+          userId: recipient._id,
+          title,
+          message,
+          type,
+          sentAt: new Date(),
+          readAt: null,
+          status: "delivered",
+          recipientInfo: {
+            name: recipient.name,
+            email: recipient.email,
+            userType: recipient.userType,
+          },
+        });
+
+        // Simulate email sending
+        if (type === "email" || type === "both") {
+          // In a real implementation, you would integrate with an email service
+          // For now, we'll just log it
+          console.log(`📧 Email sent to ${recipient.email}: ${title}`);
+          emailsSent++;
+        }
+
+        // Simulate push notification sending
+        if (type === "push" || type === "both") {
+          // In a real implementation, you would integrate with a push notification service
+          // For now, we'll just log it
+          console.log(`🔔 Push notification sent to ${recipient.name}: ${title}`);
+          pushNotificationsSent++;
+        }
+      } catch (recipientError) {
+        console.error(`Failed to send to ${recipient.email}:`, recipientError);
+        failedDeliveries++;
+        errorDetails.push(`Failed to send to ${recipient.email}: ${recipientError}`);
+      }
+    }
+
+    // Update notification with delivery results
+    await db.collection("notifications").updateOne(
+      { _id: notificationId },
+      {
+        $set: {
+          sentAt: new Date(),
+          recipientCount: recipients.length,
+          deliveredCount: emailsSent + pushNotificationsSent,
+          status:
+            recipients.length > 0 && failedDeliveries === recipients.length
+              ? "failed"
+              : "sent",
+          metadata: {
+            emailsSent,
+            pushNotificationsSent,
+            failedDeliveries,
+            errorDetails,
+          },
+        },
+      }
+    );
+
+    console.log(`✅ Notification sent successfully: ${emailsSent + pushNotificationsSent} delivered, ${failedDeliveries} failed`);
+    return { delivered: emailsSent + pushNotificationsSent, failed: failedDeliveries };
+  } catch (sendError) {
+    console.error("Error sending notifications:", sendError);
+    // Update notification status to failed
+    await db.collection("notifications").updateOne(
+      { _id: notificationId },
+      {
+        $set: {
+          status: "failed",
+          metadata: {
+            emailsSent: 0,
+            pushNotificationsSent: 0,
+            failedDeliveries: recipients.length,
+            errorDetails: [`Sending failed: ${sendError}`],
+          },
+        },
+      }
+    );
+    return { delivered: 0, failed: recipients.length };
+  }
+};
+
+// Dispatch scheduled notifications whose time has come (used by the scheduler).
+// Each notification is claimed with an atomic status flip so it is sent once.
+export const dispatchScheduledNotifications = async (db: Db, now = new Date()) => {
+  let dispatched = 0;
+  let delivered = 0;
+
+  while (true) {
+    const claimed = (await db.collection("notifications").findOneAndUpdate(
+      { status: "scheduled", scheduledTime: { $lte: now } },
+      { $set: { status: "pending", dispatchedAt: new Date() } },
+      { sort: { scheduledTime: 1 }, returnDocument: "after" },
+    )) as unknown as NotificationData | null;
+    if (!claimed) break;
+
+    const recipients = await resolveRecipients(
+      db,
+      claimed.audience,
+      claimed.specificUsers,
+    );
+    const out = await deliverNotification(db, claimed, recipients);
+    dispatched++;
+    delivered += out.delivered;
+  }
+
+  return { dispatched, delivered };
+};
+
 // Get all notifications (admin only)
 export const getAllNotifications: RequestHandler = async (req, res) => {
   try {
@@ -98,36 +270,7 @@ export const sendNotification: RequestHandler = async (req, res) => {
     }
 
     // Get recipient users based on audience
-    let recipients: any[] = [];
-    let recipientFilter: any = {};
-
-    if (audience === "specific" && specificUsers && specificUsers.length > 0) {
-      // Specific users selected
-      recipientFilter = { _id: { $in: specificUsers.map((id: string) => new ObjectId(id)) } };
-    } else {
-      // Audience-based targeting
-      switch (audience) {
-        case "buyers":
-          recipientFilter = { userType: "buyer" };
-          break;
-        case "sellers":
-          recipientFilter = { userType: "seller" };
-          break;
-        case "agents":
-          recipientFilter = { userType: "agent" };
-          break;
-        case "all":
-        default:
-          recipientFilter = { userType: { $in: ["buyer", "seller", "agent"] } };
-          break;
-      }
-    }
-
-    // Get recipients
-    recipients = await db
-      .collection("users")
-      .find(recipientFilter, { projection: { _id: 1, name: 1, email: 1, userType: 1 } })
-      .toArray();
+    const recipients = await resolveRecipients(db, audience, specificUsers);
 
     console.log(`📊 Found ${recipients.length} recipients for audience: ${audience}`);
 
@@ -162,92 +305,14 @@ export const sendNotification: RequestHandler = async (req, res) => {
     const result = await db.collection("notifications").insertOne(notificationData);
     const notificationId = result.insertedId;
 
-    // If not scheduled, send immediately
+    // If not scheduled, send immediately (scheduled ones are picked up by the
+    // "scheduled-notifications" job)
     if (!scheduledTime) {
-      try {
-        let emailsSent = 0;
-        let pushNotificationsSent = 0;
-        let failedDeliveries = 0;
-        const errorDetails: string[] = [];
-
-        // Send notifications to each recipient
-        for (const recipient of recipients) {
-          try {
-            // Log the notification for tracking
-            await db.collection("user_notifications").insertOne({
-              notificationId,
-              userId: recipient._id,
-              title,
-              message,
-              type,
-              sentAt: new Date(),
-              readAt: null,
-              status: "delivered",
-              recipientInfo: {
-                name: recipient.name,
-                email: recipient.email,
-                userType: recipient.userType,
-              },
-            });
-
-            // Simulate email sending
-            if (type === "email" || type === "both") {
-              // In a real implementation, you would integrate with an email service
-              // For now, we'll just log it
-              console.log(`📧 Email sent to ${recipient.email}: ${title}`);
-              emailsSent++;
-            }
-
-            // Simulate push notification sending
-            if (type === "push" || type === "both") {
-              // In a real implementation, you would integrate with a push notification service
-              // For now, we'll just log it
-              console.log(`🔔 Push notification sent to ${recipient.name}: ${title}`);
-              pushNotificationsSent++;
-            }
-          } catch (recipientError) {
-            console.error(`Failed to send to ${recipient.email}:`, recipientError);
-            failedDeliveries++;
-            errorDetails.push(`Failed to send to ${recipient.email}: ${recipientError}`);
-          }
-        }
-
-        // Update notification with delivery results
-        await db.collection("notifications").updateOne(
-          { _id: notificationId },
-          {
-            $set: {
-              deliveredCount: emailsSent + pushNotificationsSent,
-              status: failedDeliveries === recipients.length ? "failed" : "sent",
-              metadata: {
-                emailsSent,
-                pushNotificationsSent,
-                failedDeliveries,
-                errorDetails,
-              },
-            },
-          }
-        );
-
-        console.log(`✅ Notification sent successfully: ${emailsSent + pushNotificationsSent} delivered, ${failedDeliveries} failed`);
-      } catch (sendError) {
-        console.error("Error sending notifications:", sendError);
-        // Update notification status to failed
-        await db.collection("notifications").updateOne(
-          { _id: notificationId },
-          {
-            $set: {
-              status: "failed",
-              metadata: {
-                emailsSent: 0,
-                pushNotificationsSent: 0,
-                failedDeliveries: recipients.length,
-                errorDetails: [`Sending failed: ${sendError}`],
-              },
-            },
-          }
-        );
-      }
+      await deliverNotification(
+        db,
+        { ...notificationData, _id: notificationId },
+        recipients,
+      );
     }
 
     const response: ApiResponse<{
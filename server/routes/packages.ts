@@ -2,6 +2,7 @@ import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { AdPackage, Transaction, ApiResponse } from "@shared/types";
 import { ObjectId, Db } from "mongodb";
+import { resolveEntitlements } from "@shared/entitlements";
 
 // Internal function to initialize packages
 async function initializePackagesInternal(db: Db) {
@@ -81,7 +82,7 @@ async function initializePackagesInternal(db: Db) {
 export const getAdPackages: RequestHandler = async (req, res) => {
   try {
     const db = getDatabase();
-    const { category, location, activeOnly = "false", isActive } = req.query as any;
+    const { category, location, activeOnly = "false", isActive, type } = req.query as any;
 
     const filter: any = {};
 
@@ -92,6 +93,9 @@ export const getAdPackages: RequestHandler = async (req, res) => {
 
     if (category) filter.category = category;
     if (location) filter.location = location;
+    // the boost package is bought per listing, not from the plan pickers
+    if (!type) filter.type = { $ne: "boost" };
+    else if (type !== "all") filter.type = type;
 
     console.log(`📦 Fetching packages with filter:`, filter);
 
@@ -199,8 +203,11 @@ export const getPackageById: RequestHandler = async (req, res) => {
 export const createPackage: RequestHandler = async (req, res) => {
   try {
     const db = getDatabase();
+    const entitlements = resolveEntitlements(req.body);
     const packageData: Omit<AdPackage, "_id"> = {
       ...req.body,
+      duration: entitlements.durationDays,
+      entitlements,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -239,6 +246,14 @@ export const updatePackage: RequestHandler = async (req, res) => {
 
     delete updateData._id;
 
+    // keep `duration` and `entitlements.durationDays` the same number
+    if (updateData.entitlements) {
+      updateData.entitlements = resolveEntitlements(updateData);
+      updateData.duration = updateData.entitlements.durationDays;
+    } else if (updateData.duration !== undefined) {
+      updateData["entitlements.durationDays"] = Number(updateData.duration);
+    }
+
     const result = await db
       .collection("ad_packages")
       .updateOne({ _id: new ObjectId(packageId) }, { $set: updateData });
@@ -0,0 +1,251 @@
+import { RequestHandler } from "express";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import { RECONCILIATION_ISSUE_LABELS, ReconciliationIssueType } from "@shared/paymentLedger";
+import { LEDGER_COLLECTION, activateEntitlement } from "../utils/paymentLedger";
+import {
+  RECON_ISSUES_COLLECTION,
+  getReconciliationMeta,
+  runPaymentReconciliation,
+} from "../utils/paymentReconciliation";
+import { recordAudit } from "../utils/auditLog";
+
+const csvCell = (v: any) => `"${String(v ?? "").replace(/"/g, '""')}"`;
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * GET /api/admin/payments/ledger?kind&gateway&status&purpose&search&page&limit
+ * Every payment attempt and refund across gateways, bank transfers and seller plans.
+ */
+export const getPaymentLedger: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const pageNum = Math.max(1, parseInt(String(req.query.page)) || 1);
+    const limitNum = Math.max(1, Math.min(100, parseInt(String(req.query.limit)) || 20));
+
+    const filter: any = {};
+    for (const key of ["kind", "gateway", "status", "purpose", "source"]) {
+      if (req.query[key]) filter[key] = String(req.query[key]);
+    }
+    // rows mirrored before refunds existed carry no kind
+    if (filter.kind === "payment") filter.kind = { $ne: "refund" };
+    const search = String(req.query.search || "").trim();
+    if (search) {
+      filter.$or = [
+        { gatewayRef: { $regex: escapeRegex(search), $options: "i" } },
+        ...(ObjectId.isValid(search)
+          ? [
+              { sourceId: new ObjectId(search) },
+              { userId: new ObjectId(search) },
+              { campaignId: new ObjectId(search) },
+            ]
+          : []),
+      ];
+    }
+
+    const [entries, total] = await Promise.all([
+      db
+        .collection(LEDGER_COLLECTION)
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+        .toArray(),
+      db.collection(LEDGER_COLLECTION).countDocuments(filter),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        entries,
+        pagination: { page: pageNum, limit: limitNum, total, pages: Math.ceil(total / limitNum) },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching payment ledger:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch payment ledger" });
+  }
+};
+
+/**
+ * GET /api/admin/payments/reconciliation?status=open&type&page&limit&format=csv
+ * Issues found by the reconciliation job, with their ledger rows.
+ */
+export const getReconciliationReport: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const status = String(req.query.status || "open");
+    const type = String(req.query.type || "");
+    const format = String(req.query.format || "json");
+    const pageNum = Math.max(1, parseInt(String(req.query.page)) || 1);
+    const limitNum =
+      format === "csv" ? 5000 : Math.max(1, Math.min(100, parseInt(String(req.query.limit)) || 20));
+
+    const filter: any = {};
+    if (status !== "all") filter.status = status;
+    if (type) filter.type = type;
+
+    const issues = await db
+      .collection(RECON_ISSUES_COLLECTION)
+      .aggregate([
+        { $match: filter },
+        { $sort: { lastSeenAt: -1 } },
+        { $skip: (pageNum - 1) * limitNum },
+        { $limit: limitNum },
+        {
+          $lookup: { from: LEDGER_COLLECTION, localField: "ledgerId", foreignField: "_id", as: "ledger" },
+        },
+        { $unwind: { path: "$ledger", preserveNullAndEmptyArrays: true } },
+      ])
+      .toArray();
+
+    if (format === "csv") {
+      const header =
+        ["Issue", "Status", "Gateway", "Reference", "Source", "Source ID", "Amount", "Ledger status", "Gateway status", "First seen", "Last seen"]
+          .map(csvCell)
+          .join(",") + "\n";
+      const rows = issues
+        .map((i) =>
+          [
+            RECONCILIATION_ISSUE_LABELS[i.type as ReconciliationIssueType] || i.type,
+            i.status,
+            i.ledger?.gateway,
+            i.ledger?.gatewayRef,
+            i.ledger?.source,
+            i.ledger?.sourceId,
+            i.ledger?.amount,
+            i.ledger?.status,
+            i.ledger?.gatewayStatus,
+            i.firstSeenAt?.toISOString(),
+            i.lastSeenAt?.toISOString(),
+          ]
+            .map(csvCell)
+            .join(","),
+        )
+        .join("\n");
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="payment-reconciliation-${new Date().toISOString().slice(0, 10)}.csv"`,
+      );
+      return res.send(header + rows);
+    }
+
+    const [total, counts, meta] = await Promise.all([
+      db.collection(RECON_ISSUES_COLLECTION).countDocuments(filter),
+      db
+        .collection(RECON_ISSUES_COLLECTION)
+        .aggregate([{ $match: { status: "open" } }, { $group: { _id: "$type", count: { $sum: 1 } } }])
+        .toArray(),
+      getReconciliationMeta(db),
+    ]);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        issues,
+        openByType: Object.fromEntries(counts.map((c) => [c._id, c.count])),
+        lastRunAt: meta?.lastRunAt || null,
+        lastRunStats: meta?.lastRunStats || null,
+        pagination: { page: pageNum, limit: limitNum, total, pages: Math.ceil(total / limitNum) },
+      },
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching reconciliation report:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch reconciliation report" });
+  }
+};
+
+/** POST /api/admin/payments/reconciliation/run — reconcile now instead of waiting for the job. */
+export const runReconciliationNow: RequestHandler = async (req, res) => {
+  try {
+    const stats = await runPaymentReconciliation(getDatabase());
+    await recordAudit(req, {
+      action: "payments.reconciliation_run",
+      targetType: "payment_reconciliation",
+      meta: stats,
+    });
+    res.json({ success: true, data: stats });
+  } catch (error) {
+    console.error("Error running reconciliation:", error);
+    res.status(500).json({ success: false, error: "Failed to run reconciliation" });
+  }
+};
+
+/**
+ * PUT /api/admin/payments/reconciliation/:id { action: "activate"|"resolve"|"ignore", note? }
+ * "activate" records a gateway-confirmed payment as paid (if needed) and
+ * gives the user what they bought.
+ */
+export const updateReconciliationIssue: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid issue ID" });
+    }
+    const action = String(req.body?.action || "");
+    const note = String(req.body?.note || "").trim().slice(0, 500);
+    if (!["activate", "resolve", "ignore"].includes(action)) {
+      return res.status(400).json({ success: false, error: "Action must be activate, resolve or ignore" });
+    }
+
+    const db = getDatabase();
+    const adminId = String((req as any).userId || "") || null;
+    const issue = await db.collection(RECON_ISSUES_COLLECTION).findOne({ _id: new ObjectId(id) });
+    if (!issue) return res.status(404).json({ success: false, error: "Issue not found" });
+    const ledger = await db.collection(LEDGER_COLLECTION).findOne({ _id: issue.ledgerId });
+
+    let activation: any = null;
+    if (action === "activate") {
+      if (!ledger || !["paid_not_recorded", "missing_entitlement"].includes(issue.type)) {
+        return res
+          .status(400)
+          .json({ success: false, error: "Only unrecorded or unactivated payments can be activated" });
+      }
+      const now = new Date();
+      const sourceDoc =
+        issue.type === "paid_not_recorded" && ledger.source === "transactions"
+          ? await db.collection("transactions").findOneAndUpdate(
+              { _id: ledger.sourceId, status: { $ne: "paid" } },
+              { $set: { status: "paid", paidAt: now, reconciledAt: now, reconciledBy: adminId, updatedAt: now } },
+              { returnDocument: "after" },
+            )
+          : await db.collection(ledger.source).findOne({ _id: ledger.sourceId });
+      if (!sourceDoc) {
+        return res.status(409).json({ success: false, error: "Payment record changed; run reconciliation again" });
+      }
+      activation = await activateEntitlement(db, ledger.source, sourceDoc, {
+        activatedBy: adminId,
+        reviewListing: ledger.gateway === "razorpay" || ledger.gateway === "phonepe",
+      });
+    }
+
+    const status = action === "ignore" ? "ignored" : "resolved";
+    const update = {
+      status,
+      resolution: action === "activate" ? "activated" : action === "ignore" ? "ignored" : "manual",
+      note: note || null,
+      resolvedAt: new Date(),
+      resolvedBy: adminId,
+    };
+    await db.collection(RECON_ISSUES_COLLECTION).updateOne({ _id: issue._id }, { $set: update });
+
+    await recordAudit(req, {
+      action: `payments.reconciliation_${action}`,
+      targetType: "payment_reconciliation",
+      targetId: id,
+      targetLabel: ledger?.gatewayRef || String(issue.ledgerId),
+      before: { status: issue.status },
+      after: update,
+      meta: { type: issue.type, amount: ledger?.amount, activation },
+    });
+
+    res.json({ success: true, data: { ...issue, ...update, activation } });
+  } catch (error) {
+    console.error("Error updating reconciliation issue:", error);
+    res.status(500).json({ success: false, error: "Failed to update issue" });
+  }
+};
@@ -0,0 +1,145 @@
+import { RequestHandler } from "express";
+import { Db, ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import { RefundMode, RefundQuote } from "@shared/paymentLedger";
+import { LEDGER_COLLECTION, syncLedgerEntry } from "../utils/paymentLedger";
+import { REFUNDS_COLLECTION, RefundError, quoteRefund, refundPayment } from "../utils/paymentRefunds";
+import { recordAudit } from "../utils/auditLog";
+
+const REFUND_MODES: RefundMode[] = ["full", "prorated"];
+
+/**
+ * The ledger row behind a purchased package. Packages activated before the
+ * ledger existed are matched to their transaction and mirrored on demand.
+ */
+async function ledgerIdForUserPackage(db: Db, userPackageId: string) {
+  const userPackage = await db.collection("user_packages").findOne({ _id: new ObjectId(userPackageId) });
+  if (!userPackage) throw new RefundError("User package not found", 404);
+
+  if (userPackage.ledgerSource && userPackage.ledgerSourceId) {
+    const entry = await db
+      .collection(LEDGER_COLLECTION)
+      .findOne({ source: userPackage.ledgerSource, sourceId: userPackage.ledgerSourceId });
+    if (entry) return entry._id as ObjectId;
+  }
+
+  const ids = (v: any) => (v && ObjectId.isValid(String(v)) ? [new ObjectId(String(v)), String(v)] : [v]);
+  const tx = await db.collection("transactions").findOne(
+    {
+      userId: { $in: ids(userPackage.userId) },
+      packageId: { $in: ids(userPackage.packageId) },
+      ...(userPackage.propertyId ? { propertyId: { $in: ids(userPackage.propertyId) } } : {}),
+      status: { $in: ["paid", "refunded"] },
+    },
+    { sort: { createdAt: -1 } },
+  );
+  if (!tx) throw new RefundError("No payment found for this package", 404);
+  await syncLedgerEntry(db, "transactions", tx);
+  const entry = await db.collection(LEDGER_COLLECTION).findOne({ source: "transactions", sourceId: tx._id });
+  return entry!._id as ObjectId;
+}
+
+/** `/payments/ledger/:id/...` or `/user-packages/:packageId/...` */
+async function resolveLedgerId(db: Db, params: Record<string, string>) {
+  const raw = params.packageId ?? params.id;
+  if (!ObjectId.isValid(raw)) throw new RefundError("Invalid ID");
+  return params.packageId ? ledgerIdForUserPackage(db, raw) : new ObjectId(raw);
+}
+
+const sendRefundError = (res: any, error: any, fallback: string) => {
+  if (error instanceof RefundError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
+
+/**
+ * GET /api/admin/payments/ledger/:id/refund-quote
+ * GET /api/admin/user-packages/:packageId/refund-quote
+ */
+export const getRefundQuote: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const quote = await quoteRefund(db, await resolveLedgerId(db, req.params));
+    const response: ApiResponse<RefundQuote> = { success: true, data: quote };
+    res.json(response);
+  } catch (error) {
+    sendRefundError(res, error, "Failed to quote refund");
+  }
+};
+
+/**
+ * POST /api/admin/payments/ledger/:id/refund { mode: "full"|"prorated", reason, revoke? }
+ * POST /api/admin/user-packages/:packageId/refund
+ * Refunds through the original gateway, takes back what was bought and
+ * emails the payer a credit note.
+ */
+export const createRefund: RequestHandler = async (req, res) => {
+  try {
+    const mode = String(req.body?.mode || "") as RefundMode;
+    const reason = String(req.body?.reason || "").trim().slice(0, 500);
+    if (!REFUND_MODES.includes(mode)) {
+      return res.status(400).json({ success: false, error: "Mode must be full or prorated" });
+    }
+    if (!reason) {
+      return res.status(400).json({ success: false, error: "A reason is required" });
+    }
+
+    const db = getDatabase();
+    const ledgerId = await resolveLedgerId(db, req.params);
+    const refund = await refundPayment(db, ledgerId, {
+      mode,
+      reason,
+      requestedBy: String((req as any).userId || "") || null,
+      revoke: req.body?.revoke !== false,
+    });
+
+    await recordAudit(req, {
+      action: "payments.refund",
+      targetType: "payment",
+      targetId: String(ledgerId),
+      targetLabel: refund?.creditNoteNumber,
+      after: { amount: refund?.amount, mode, status: refund?.status },
+      meta: { reason, gateway: refund?.gateway, revoked: refund?.revoked },
+    });
+
+    res.json({ success: true, data: refund });
+  } catch (error) {
+    sendRefundError(res, error, "Failed to refund payment");
+  }
+};
+
+/** GET /api/admin/payments/refunds?status&page&limit */
+export const getRefunds: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const pageNum = Math.max(1, parseInt(String(req.query.page)) || 1);
+    const limitNum = Math.max(1, Math.min(100, parseInt(String(req.query.limit)) || 20));
+    const filter: any = {};
+    if (req.query.status && req.query.status !== "all") filter.status = String(req.query.status);
+
+    const [refunds, total] = await Promise.all([
+      db
+        .collection(REFUNDS_COLLECTION)
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+        .toArray(),
+      db.collection(REFUNDS_COLLECTION).countDocuments(filter),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        refunds,
+        pagination: { page: pageNum, limit: limitNum, total, pages: Math.ceil(total / limitNum) },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching refunds:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch refunds" });
+  }
+};
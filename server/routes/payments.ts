@@ -3,6 +3,7 @@ import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { Transaction, ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
+import { activateEntitlement } from "../utils/paymentLedger";
 
 /** Helpers */
 function toObjectId(id?: string | null) {
@@ -69,21 +70,8 @@ export const createTransaction: RequestHandler = async (req, res) => {
     const result = await db.collection("transactions").insertOne(transactionData);
 
     // If free package, activate immediately
-    if (amount === 0 && propId) {
-      const packageExpiry = new Date();
-      packageExpiry.setDate(packageExpiry.getDate() + Number(package_.duration || 0));
-
-      await db.collection("properties").updateOne(
-        { _id: propId },
-        {
-          $set: {
-            packageId: pkgId,
-            packageExpiry,
-            featured: package_.type === "featured" || package_.type === "premium",
-            updatedAt: new Date(),
-          },
-        }
-      );
+    if (status === "paid") {
+      await activateEntitlement(db, "transactions", { ...transactionData, _id: result.insertedId });
     }
 
     const response: ApiResponse<{ transactionId: string; status: string }> = {
@@ -293,29 +281,13 @@ export const updateTransactionStatus: RequestHandler = async (req, res) => {
       updateData.adminNotes = adminNotes;
     }
 
-    await db.collection("transactions").updateOne({ _id: txId }, { $set: updateData });
-
-    // If paid/approved → activate property package
-    if ((status === "approved" || status === "paid") && transaction.propertyId) {
-      const pkgId = toObjectId(String(transaction.packageId));
-      if (pkgId) {
-        const package_ = await db.collection("ad_packages").findOne({ _id: pkgId });
-        if (package_) {
-          const packageExpiry = new Date();
-          packageExpiry.setDate(packageExpiry.getDate() + Number(package_.duration || 0));
-          await db.collection("properties").updateOne(
-            { _id: toObjectId(String(transaction.propertyId))! },
-            {
-              $set: {
-                packageId: pkgId,
-                packageExpiry,
-                featured: package_.type === "featured" || package_.type === "premium",
-                updatedAt: new Date(),
-              },
-            }
-          );
-        }
-      }
+    const updated = await db
+      .collection("transactions")
+      .findOneAndUpdate({ _id: txId }, { $set: updateData }, { returnDocument: "after" });
+
+    // If paid/approved → activate what was bought
+    if (updated && (status === "approved" || status === "paid")) {
+      await activateEntitlement(db, "transactions", updated, { activatedBy: adminId || null });
     }
 
     return res.json({
@@ -351,7 +323,7 @@ export const verifyPayment: RequestHandler = async (req, res) => {
     const isPaymentValid = paymentData && paymentData.status === "success";
     const newStatus: Transaction["status"] = isPaymentValid ? "paid" : "failed";
 
-    await db.collection("transactions").updateOne(
+    const updated = await db.collection("transactions").findOneAndUpdate(
       { _id: txId },
       {
         $set: {
@@ -360,31 +332,13 @@ export const verifyPayment: RequestHandler = async (req, res) => {
           updatedAt: new Date(),
           ...(isPaymentValid ? { paidAt: new Date() } : {}),
         },
-      }
+      },
+      { returnDocument: "after" }
     );
 
     // Activate package on success
-    if (isPaymentValid && transaction.propertyId && transaction.packageId) {
-      const pkgId = toObjectId(String(transaction.packageId));
-      const propId = toObjectId(String(transaction.propertyId));
-      if (pkgId && propId) {
-        const package_ = await db.collection("ad_packages").findOne({ _id: pkgId });
-        if (package_) {
-          const packageExpiry = new Date();
-          packageExpiry.setDate(packageExpiry.getDate() + Number(package_.duration || 0));
-          await db.collection("properties").updateOne(
-            { _id: propId },
-            {
-              $set: {
-                packageId: pkgId,
-                packageExpiry,
-                featured: package_.type === "featured" || package_.type === "premium",
-                updatedAt: new Date(),
-              },
-            }
-          );
-        }
-      }
+    if (isPaymentValid && updated) {
+      await activateEntitlement(db, "transactions", updated);
     }
 
     return res.json({ success: true, data: { status: newStatus } } as ApiResponse<{ status: string }>);
@@ -3,16 +3,17 @@ import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { ApiResponse } from "@shared/types";
 import crypto from "crypto";
-import { ObjectId } from "mongodb";
-
-// ---------------- Types ----------------
-interface PhonePeConfig {
-  enabled: boolean;
-  merchantId: string;
-  saltKey: string;
-  saltIndex: string; // string per PhonePe docs
-  testMode: boolean;
-}
+import { Db, ObjectId } from "mongodb";
+import { CampaignError, getPayableCampaign } from "../utils/adCampaigns";
+import { activateEntitlement } from "../utils/paymentLedger";
+import { BoostError, assertBoostable } from "../utils/boosts";
+import {
+  fetchPhonePeStatus,
+  loadPhonePeConfig,
+  phonePeApiRoot,
+  phonePeChecksum,
+  phonePeTransactionStatus as statusForState,
+} from "../utils/paymentGateways";
 
 // ---------------- Utils ----------------
 const getBaseUrl = (req: any) => {
@@ -22,48 +23,6 @@ const getBaseUrl = (req: any) => {
   return `${proto}://${host}`;
 };
 
-/** Load config from DB: admin_settings.payment.phonePe */
-const getPhonePeConfig = async (): Promise<PhonePeConfig | null> => {
-  try {
-    const db = getDatabase();
-    const settings = await db.collection("admin_settings").findOne({});
-    const cfg = settings?.payment?.phonePe as PhonePeConfig | undefined;
-    if (!cfg?.enabled) return null;
-
-    if (!cfg.merchantId || !cfg.saltKey || !cfg.saltIndex) {
-      console.error("❌ PhonePe config incomplete", {
-        hasMerchantId: !!cfg?.merchantId,
-        hasSaltKey: !!cfg?.saltKey,
-        hasSaltIndex: !!cfg?.saltIndex,
-      });
-      return null;
-    }
-
-    return {
-      enabled: true,
-      merchantId: cfg.merchantId,
-      saltKey: cfg.saltKey,
-      saltIndex: String(cfg.saltIndex),
-      testMode: !!cfg.testMode,
-    };
-  } catch (e) {
-    console.error("Error reading PhonePe config:", e);
-    return null;
-  }
-};
-
-/** sha256(base64Payload + APIPath + saltKey) + "###" + saltIndex */
-const generateChecksum = (
-  base64Payload: string,
-  endpoint: string,
-  saltKey: string,
-  saltIndex: string
-) => {
-  const data = base64Payload + endpoint + saltKey;
-  const hash = crypto.createHash("sha256").update(data).digest("hex");
-  return `${hash}###${saltIndex}`;
-};
-
 /** For callback/status verify: sha256(responseBase64 + saltKey) == x-verify(before ###) */
 const verifyChecksum = (responseBase64: string, xVerify: string, saltKey: string) => {
   try {
@@ -75,12 +34,38 @@ const verifyChecksum = (responseBase64: string, xVerify: string, saltKey: string
   }
 };
 
+/** Record a gateway status on our transaction and activate what was bought. */
+const settlePhonePeTransaction = async (
+  db: Db,
+  merchantTransactionId: string,
+  newStatus: string,
+  extra: Record<string, any>
+) => {
+  const tx = await db.collection("transactions").findOneAndUpdate(
+    { merchantTransactionId },
+    {
+      $set: {
+        status: newStatus,
+        ...extra,
+        updatedAt: new Date(),
+        ...(newStatus === "paid" ? { paidAt: new Date() } : {}),
+      },
+    },
+    { returnDocument: "after" }
+  );
+  if (tx && newStatus === "paid") {
+    await activateEntitlement(db, "transactions", tx, { reviewListing: true });
+  }
+  return tx;
+};
+
 // ---------------- Handlers ----------------
 
 /**
  * POST /api/payments/phonepe/create
  * Body:
  *  { packageId, propertyId?, paymentMethod?, paymentDetails?, mode?: "redirect" | "qr" }
+ *  or { campaignId, mode? } to pay for a booked banner campaign
  */
 export const createPhonePeTransaction: RequestHandler = async (req, res) => {
   try {
@@ -92,16 +77,17 @@ export const createPhonePeTransaction: RequestHandler = async (req, res) => {
     }
     const userId = new ObjectId(userIdRaw);
 
-    const { packageId, propertyId, paymentMethod, paymentDetails, mode } = (req.body ||
+    const { packageId, propertyId, paymentMethod, paymentDetails, mode, campaignId } = (req.body ||
       {}) as {
       packageId: string;
       propertyId?: string | null;
       paymentMethod?: string;
       paymentDetails?: { merchantTransactionId?: string; [k: string]: any };
       mode?: "redirect" | "qr";
+      campaignId?: string;
     };
 
-    if (!packageId) {
+    if (!packageId && !campaignId) {
       return res.status(400).json({ success: false, error: "Missing required field: packageId" });
     }
 
@@ -110,7 +96,7 @@ export const createPhonePeTransaction: RequestHandler = async (req, res) => {
       paymentDetails?.merchantTransactionId ||
       `ap_${userId.toString()}_${Date.now()}_${Math.floor(Math.random() * 1e6)}`;
 
-    const config = await getPhonePeConfig();
+    const config = await loadPhonePeConfig();
     if (!config) {
       return res.status(400).json({
         success: false,
@@ -118,36 +104,82 @@ export const createPhonePeTransaction: RequestHandler = async (req, res) => {
       });
     }
 
-    let pkgId: ObjectId;
-    try {
-      pkgId = new ObjectId(packageId);
-    } catch {
-      return res.status(400).json({ success: false, error: "Invalid package ID" });
-    }
+    const now = new Date();
+    let pkgId: ObjectId | undefined;
+    let propId: ObjectId | undefined;
+    let amount: number;
+    let insertRes: { insertedId: ObjectId };
+    let returnQuery: string;
+
+    if (campaignId) {
+      // banner campaign: the booking decides the price
+      let payable: Awaited<ReturnType<typeof getPayableCampaign>>;
+      try {
+        payable = await getPayableCampaign(db, campaignId, userId);
+      } catch (e) {
+        if (e instanceof CampaignError) {
+          return res.status(e.status).json({ success: false, error: e.message });
+        }
+        throw e;
+      }
+      amount = payable.amount;
+      insertRes = await db.collection("transactions").insertOne({
+        userId,
+        campaignId: payable.campaign._id,
+        purpose: "ad_campaign",
+        amount,
+        currency: "INR",
+        paymentMethod: finalPaymentMethod,
+        merchantTransactionId,
+        phonepeTxnId: null as null | string,
+        status: "pending",
+        packageName: payable.description,
+        createdAt: now,
+        updatedAt: now,
+      });
+      returnQuery = `campaignId=${String(payable.campaign._id)}`;
+    } else {
+      try {
+        pkgId = new ObjectId(packageId);
+      } catch {
+        return res.status(400).json({ success: false, error: "Invalid package ID" });
+      }
 
-    const pack = await db.collection("ad_packages").findOne({ _id: pkgId });
-    if (!pack) return res.status(404).json({ success: false, error: "Package not found" });
+      const pack = await db.collection("ad_packages").findOne({ _id: pkgId });
+      if (!pack) return res.status(404).json({ success: false, error: "Package not found" });
 
-    const propId = propertyId ? new ObjectId(propertyId) : undefined;
-    const now = new Date();
+      propId = propertyId ? new ObjectId(propertyId) : undefined;
+      amount = Number(pack.price || 0);
 
-    // Create local transaction (pending)
-    const insertRes = await db.collection("transactions").insertOne({
-      userId,
-      packageId: pkgId,
-      propertyId: propId,
-      amount: Number(pack.price || 0), // rupees in our DB
-      currency: "INR",
-      paymentMethod: finalPaymentMethod,
-      paymentDetails: paymentDetails || {},
-      merchantTransactionId,
-      phonepeTxnId: null as null | string,
-      status: "pending",
-      packageName: pack.name,
-      packageDuration: pack.duration,
-      createdAt: now,
-      updatedAt: now,
-    });
+      // don't take payment for a boost that can't be applied
+      if (pack.type === "boost" && propId) {
+        try {
+          assertBoostable(await db.collection("properties").findOne({ _id: propId }), userId);
+        } catch (e) {
+          if (e instanceof BoostError) return res.status(e.status).json({ success: false, error: e.message });
+          throw e;
+        }
+      }
+
+      // Create local transaction (pending)
+      insertRes = await db.collection("transactions").insertOne({
+        userId,
+        packageId: pkgId,
+        propertyId: propId,
+        amount, // rupees in our DB
+        currency: "INR",
+        paymentMethod: finalPaymentMethod,
+        paymentDetails: paymentDetails || {},
+        merchantTransactionId,
+        phonepeTxnId: null as null | string,
+        status: "pending",
+        packageName: pack.name,
+        packageDuration: pack.duration,
+        createdAt: now,
+        updatedAt: now,
+      });
+      returnQuery = `packageId=${pkgId.toString()}&propertyId=${propId?.toString() || ""}`;
+    }
 
     // ---- PhonePe request build ----
     const baseUrl = getBaseUrl(req);
@@ -160,8 +192,8 @@ export const createPhonePeTransaction: RequestHandler = async (req, res) => {
       merchantId: config.merchantId,
       merchantTransactionId,
       merchantUserId: userId.toString(),
-      amount: Math.max(100, Math.round(Number(pack.price) * 100)), // paise, >= ₹1.00
-      redirectUrl: `${baseUrl}/payment-callback?packageId=${pkgId.toString()}&propertyId=${propId?.toString() || ""}&transactionId=${merchantTransactionId}`,
+      amount: Math.max(100, Math.round(amount * 100)), // paise, >= ₹1.00
+      redirectUrl: `${baseUrl}/payment-callback?${returnQuery}&transactionId=${merchantTransactionId}`,
       redirectMode: "REDIRECT",
       callbackUrl: `${baseUrl}/api/payments/phonepe/callback`,
       mobileNumber: (req as any).userPhone || undefined,
@@ -170,13 +202,9 @@ export const createPhonePeTransaction: RequestHandler = async (req, res) => {
 
     // Prepare signature
     const payload = Buffer.from(JSON.stringify(payRequest)).toString("base64");
-    const xVerify = generateChecksum(payload, payEndpoint, config.saltKey, config.saltIndex);
+    const xVerify = phonePeChecksum(payload, payEndpoint, config.saltKey, config.saltIndex);
 
-    const apiRoot = config.testMode
-      ? "https://api-preprod.phonepe.com/apis/pg-sandbox"
-      : "https://api.phonepe.com/apis/hermes";
-
-    const resp = await fetch(`${apiRoot}${payEndpoint}`, {
+    const resp = await fetch(`${phonePeApiRoot(config)}${payEndpoint}`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -236,7 +264,7 @@ export const createPhonePeTransaction: RequestHandler = async (req, res) => {
  */
 export const phonePeCallback: RequestHandler = async (req, res) => {
   try {
-    const config = await getPhonePeConfig();
+    const config = await loadPhonePeConfig();
     if (!config) return res.status(400).json({ success: false, error: "PhonePe not configured" });
 
     const { response } = req.body as { response?: string };
@@ -265,48 +293,11 @@ export const phonePeCallback: RequestHandler = async (req, res) => {
       return res.status(200).json({ success: true }); // ack anyway
     }
 
-    const paidStates = new Set(["SUCCESS", "COMPLETED"]);
-    const newStatus =
-      paidStates.has(state) ? "paid" : state === "FAILED" ? "failed" : "processing";
-
-    await db.collection("transactions").updateOne(
-      { _id: tx._id },
-      {
-        $set: {
-          status: newStatus,
-          phonepeTxnId,
-          phonepeResponse: decoded,
-          updatedAt: new Date(),
-          ...(newStatus === "paid" ? { paidAt: new Date() } : {}),
-        },
-      }
-    );
-
-    // If paid and property exists → push to pending admin approval
-    if (newStatus === "paid" && tx.propertyId && tx.packageId) {
-      const package_ = await db.collection("ad_packages").findOne({
-        _id: new ObjectId(String(tx.packageId)),
-      });
-      if (package_) {
-        const packageExpiry = new Date();
-        packageExpiry.setDate(packageExpiry.getDate() + Number(package_.duration || 0));
-
-        await db.collection("properties").updateOne(
-          { _id: new ObjectId(String(tx.propertyId)) },
-          {
-            $set: {
-              packageId: new ObjectId(String(tx.packageId)),
-              packageExpiry,
-              featured: package_.type === "featured" || package_.type === "premium",
-              status: "inactive",
-              approvalStatus: "pending_approval",
-              updatedAt: new Date(),
-              premiumPaymentCompletedAt: new Date(),
-            },
-          }
-        );
-      }
-    }
+    const newStatus = statusForState(state);
+    await settlePhonePeTransaction(db, merchantTransactionId, newStatus, {
+      phonepeTxnId,
+      phonepeResponse: decoded,
+    });
 
     return res.json({ success: true, message: "Callback processed" });
   } catch (err) {
@@ -321,7 +312,7 @@ export const phonePeCallback: RequestHandler = async (req, res) => {
  */
 export const getPhonePePaymentStatus: RequestHandler = async (req, res) => {
   try {
-    const config = await getPhonePeConfig();
+    const config = await loadPhonePeConfig();
     if (!config) return res.status(400).json({ success: false, error: "PhonePe not configured" });
 
     const merchantTransactionId = req.params.merchantTransactionId;
@@ -329,47 +320,13 @@ export const getPhonePePaymentStatus: RequestHandler = async (req, res) => {
       return res.status(400).json({ success: false, error: "Missing merchantTransactionId" });
     }
 
-    const endpoint = `/pg/v1/status/${config.merchantId}/${merchantTransactionId}`;
-    const xVerify = generateChecksum("", endpoint, config.saltKey, config.saltIndex);
-
-    const apiRoot = config.testMode
-      ? "https://api-preprod.phonepe.com/apis/pg-sandbox"
-      : "https://api.phonepe.com/apis/hermes";
-
-    const r = await fetch(`${apiRoot}${endpoint}`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        "X-VERIFY": xVerify,
-        "X-MERCHANT-ID": config.merchantId,
-      },
-    });
-
-    const text = await r.text();
-    let j: any = null;
-    try {
-      j = JSON.parse(text);
-    } catch {}
-    console.log("PhonePe status RAW:", text);
-
+    const j = await fetchPhonePeStatus(config, merchantTransactionId);
     if (j?.success) {
-      const db = getDatabase();
-      const state = j.data?.state as string | undefined;
-
-      const paidStates = new Set(["SUCCESS", "COMPLETED"]);
-      const newStatus =
-        paidStates.has(state || "") ? "paid" : state === "FAILED" ? "failed" : "processing";
-
-      await db.collection("transactions").updateOne(
-        { merchantTransactionId },
-        {
-          $set: {
-            status: newStatus,
-            phonepeResponse: j.data,
-            updatedAt: new Date(),
-            ...(newStatus === "paid" ? { paidAt: new Date() } : {}),
-          },
-        }
+      await settlePhonePeTransaction(
+        getDatabase(),
+        merchantTransactionId,
+        statusForState(j.data?.state),
+        { phonepeResponse: j.data }
       );
     }
 
@@ -384,7 +341,8 @@ export const getPhonePePaymentStatus: RequestHandler = async (req, res) => {
 /**
  * POST /payment-callback
  * Browser redirect from PhonePe after payment.
- * Sends: packageId, propertyId, transactionId (merchantTransactionId)
+ * Sends: packageId, propertyId, transactionId (merchantTransactionId),
+ * or campaignId + transactionId for banner campaign bookings.
  */
 export const phonePePaymentCallback: RequestHandler = async (req, res) => {
   try {
@@ -399,7 +357,27 @@ export const phonePePaymentCallback: RequestHandler = async (req, res) => {
     }
 
     const db = getDatabase();
-    const tx = await db.collection("transactions").findOne({ merchantTransactionId });
+    let tx = await db.collection("transactions").findOne({ merchantTransactionId });
+
+    if (tx?.campaignId) {
+      // the server-to-server callback may not have landed yet; ask PhonePe
+      // directly so the advertiser sees the outcome on return
+      if (tx.status === "pending" || tx.status === "processing") {
+        const config = await loadPhonePeConfig();
+        const j = config ? await fetchPhonePeStatus(config, merchantTransactionId) : null;
+        if (j?.success) {
+          tx =
+            (await settlePhonePeTransaction(db, merchantTransactionId, statusForState(j.data?.state), {
+              phonepeResponse: j.data,
+            })) || tx;
+        }
+      }
+      const outcome =
+        tx.status === "paid" ? "success" : tx.status === "failed" ? "failed" : "pending";
+      return res.redirect(
+        `/advertise/book?campaignId=${String(tx.campaignId)}&paymentStatus=${outcome}&transactionId=${merchantTransactionId}`
+      );
+    }
 
     if (!tx) {
       return res.redirect(
@@ -435,7 +413,7 @@ export const phonePePaymentCallback: RequestHandler = async (req, res) => {
  */
 export const getPaymentMethodsWithPhonePe: RequestHandler = async (_req, res) => {
   try {
-    const cfg = await getPhonePeConfig();
+    const cfg = await loadPhonePeConfig();
     const paymentMethods = {
       upi: {
         enabled: true,
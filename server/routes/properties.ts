@@ -2,7 +2,7 @@
 import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { Property, ApiResponse } from "@shared/types";
-import { ObjectId } from "mongodb";
+import { Db, ObjectId } from "mongodb";
 import multer, { FileFilterCallback } from "multer";
 import path from "path";
 
@@ -12,6 +12,32 @@ import {
   sendPropertyApprovalEmail,
   sendEmail,
 } from "../utils/mailer";
+import {
+  matchRohtakAreas,
+  normalizeSearchText,
+  buildSnippet,
+  escapeRegex,
+} from "../utils/propertySearch";
+import { publicVisibilityFilter } from "../utils/listingVisibility";
+import {
+  PROPERTY_GEO_FIELD,
+  isValidLatLng,
+  toGeoPolygon,
+  polygonCentroid,
+  haversineKm,
+  withGeoPoint,
+} from "../utils/geo";
+import { contactPhoneKey, getListingRisk } from "../utils/listingRisk";
+import {
+  claimEntitlement,
+  freeListingAllowance,
+  getQuotaSummary,
+  releaseEntitlement,
+} from "../utils/entitlements";
+import { isBoosted, rankedSortStages } from "../utils/boosts";
+import { compareProperties } from "../utils/propertyCompare";
+import { MAX_COMPARE, PropertyComparison, parseCompareIds } from "@shared/compare";
+import { VERIFIED_SEARCH_BOOST } from "@shared/sellerVerification";
 
 /* =========================================================================
    Multer (image uploads)
@@ -44,6 +70,18 @@ export const upload = multer({
 /* =========================================================================
    Helpers
    ========================================================================= */
+/** Whether the poster has passed KYC; copied onto each listing for the badge and ranking. */
+const isSellerVerified = async (db: Db, userId: unknown) =>
+  ObjectId.isValid(String(userId))
+    ? Boolean(
+        (
+          await db
+            .collection("users")
+            .findOne({ _id: new ObjectId(String(userId)) }, { projection: { sellerVerified: 1 } })
+        )?.sellerVerified,
+      )
+    : false;
+
 const toInt = (v: any): number | undefined => {
   const n = Number(v);
   return Number.isFinite(n) ? Math.trunc(n) : undefined;
@@ -64,6 +102,32 @@ function normSlug(v: any): string {
     .toLowerCase();
 }
 
+// Map UI aliases to canonical DB values, on save and in listing queries
+const LISTING_TYPE_ALIASES: Record<string, string> = {
+  "co-living": "pg",
+  coliving: "pg",
+  pg: "pg",
+  "agricultural-land": "agricultural",
+  agri: "agricultural",
+  agricultural: "agricultural",
+  commercial: "commercial",
+  showroom: "commercial",
+  office: "commercial",
+  residential: "residential",
+  flat: "flat",
+  apartment: "flat",
+  plot: "plot",
+};
+
+/** Stored `propertyType` for a submitted one; used on create and on owner edits. */
+export function normalizePropertyType(v: any): string {
+  const slug = normSlug(v);
+  return LISTING_TYPE_ALIASES[slug] || slug;
+}
+
+/** Stored `subCategory` slug. */
+export const normalizeSubCategory = (v: any) => normSlug(v);
+
 function expandCategory(cat: string): string[] {
   const s = normSlug(cat);
   return CAT_SYNONYMS[s] || (s ? [s] : []);
@@ -110,49 +174,17 @@ export const getProperties: RequestHandler = async (req, res) => {
     const category = norm(qCategory);
     let propertyType = norm(qPropertyType);
 
-    // Map UI aliases → canonical DB values
-    const TYPE_ALIASES: Record<string, string> = {
-      // PG / Co-living
-      "co-living": "pg",
-      coliving: "pg",
-      pg: "pg",
-
-      // Agricultural
-      "agricultural-land": "agricultural",
-      agri: "agricultural",
-      agricultural: "agricultural",
-
-      // Commercial family
-      commercial: "commercial",
-      showroom: "commercial", // sometimes treated as category in UI
-      office: "commercial",
-
-      // Residential family
-      residential: "residential",
-      flat: "flat", // you use a separate "flat" type in DB
-      apartment: "flat", // alias just in case
-
-      // Plot
-      plot: "plot",
-    };
-
     // If page passed only `category`, derive propertyType from it
-    if (!propertyType && category && TYPE_ALIASES[category]) {
-      propertyType = TYPE_ALIASES[category];
+    if (!propertyType && category && LISTING_TYPE_ALIASES[category]) {
+      propertyType = LISTING_TYPE_ALIASES[category];
     }
     // If page passed a propertyType alias, normalize it
-    if (propertyType && TYPE_ALIASES[propertyType]) {
-      propertyType = TYPE_ALIASES[propertyType];
+    if (propertyType && LISTING_TYPE_ALIASES[propertyType]) {
+      propertyType = LISTING_TYPE_ALIASES[propertyType];
     }
 
     // --- 2) Base moderation filter (public) ---
-    const filter: any = {
-      status: "active",
-      $or: [
-        { approvalStatus: "approved" },
-        { approvalStatus: { $exists: false } },
-      ],
-    };
+    const filter: any = publicVisibilityFilter();
 
     // --- 3) “Buy/Rent” top tabs logic (broad groupings) ---
     // If the page is one of the top tabs, prefer this grouping,
@@ -243,13 +275,25 @@ export const getProperties: RequestHandler = async (req, res) => {
     const limitNum = parseInt(String(limit), 10);
     const skip = (pageNum - 1) * limitNum;
 
-    const properties = await db
-      .collection("properties")
-      .find(filter)
-      .sort(sort)
-      .skip(skip)
-      .limit(limitNum)
-      .toArray();
+    // newest-first is the default listing order, where boosted listings rank by their boost time
+    const properties = sort.createdAt === -1
+      ? await db
+          .collection("properties")
+          .aggregate([
+            { $match: filter },
+            ...rankedSortStages(),
+            { $skip: skip },
+            { $limit: limitNum },
+            { $project: { _rankAt: 0 } },
+          ])
+          .toArray()
+      : await db
+          .collection("properties")
+          .find(filter)
+          .sort(sort)
+          .skip(skip)
+          .limit(limitNum)
+          .toArray();
 
     const total = await db.collection("properties").countDocuments(filter);
 
@@ -273,6 +317,376 @@ export const getProperties: RequestHandler = async (req, res) => {
   }
 };
 
+/* =========================================================================
+   PUBLIC: Keyword search (text index + typo-tolerant locality matching)
+   ========================================================================= */
+const SEARCH_MAX_CANDIDATES = 200;
+const AREA_MATCH_BOOST = 5;
+const LOCATION_FIELDS = [
+  "location.area",
+  "location.sector",
+  "location.mohalla",
+  "location.landmark",
+  "location.address",
+];
+
+/**
+ * GET /api/properties/search?q=2bhk modle town&priceType=rent
+ * - Mongo $text over title/description/amenities/address (weighted)
+ * - Locality names are fuzzy-matched against ROHTAK_AREAS and boosted
+ * - Same public moderation filter as the listing endpoint
+ */
+export const searchProperties: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const {
+      q = "",
+      propertyType,
+      priceType,
+      minPrice,
+      maxPrice,
+      page = "1",
+      limit = "20",
+    } = req.query;
+
+    const rawQuery = String(q).trim();
+    if (rawQuery.length < 2) {
+      return res.status(400).json({
+        success: false,
+        error: "Search query must be at least 2 characters",
+      });
+    }
+
+    // --- 1) Locality correction ("modle town" → "model town")
+    const areaMatches = matchRohtakAreas(rawQuery);
+    let correctedQuery = normalizeSearchText(rawQuery);
+    for (const m of areaMatches) {
+      correctedQuery = correctedQuery.replace(
+        m.matched,
+        normalizeSearchText(m.area),
+      );
+    }
+
+    // --- 2) Filters shared by both passes
+    const clauses: any[] = [publicVisibilityFilter()];
+    if (propertyType) clauses.push({ propertyType: normSlug(propertyType) });
+    if (priceType) clauses.push({ priceType: normSlug(priceType) });
+    if (minPrice || maxPrice) {
+      const price: any = {};
+      if (minPrice) price.$gte = parseInt(String(minPrice), 10);
+      if (maxPrice) price.$lte = parseInt(String(maxPrice), 10);
+      clauses.push({ price });
+    }
+
+    // --- 3) Full-text pass
+    const candidates = new Map<string, { doc: any; score: number; areas: string[] }>();
+    try {
+      const textHits = await db
+        .collection("properties")
+        .find(
+          { $and: [...clauses, { $text: { $search: correctedQuery } }] },
+          { projection: { score: { $meta: "textScore" } } },
+        )
+        .sort({ score: { $meta: "textScore" } })
+        .limit(SEARCH_MAX_CANDIDATES)
+        .toArray();
+
+      for (const doc of textHits) {
+        candidates.set(String(doc._id), {
+          doc,
+          score: Number(doc.score) || 0,
+          areas: [],
+        });
+      }
+    } catch (e: any) {
+      // text index missing (e.g. first boot) → fall back to regex on title
+      console.warn("Text search unavailable, using regex:", e?.message || e);
+      const re = new RegExp(escapeRegex(rawQuery), "i");
+      const regexHits = await db
+        .collection("properties")
+        .find({
+          $and: [...clauses, { $or: [{ title: re }, { description: re }] }],
+        })
+        .limit(SEARCH_MAX_CANDIDATES)
+        .toArray();
+      for (const doc of regexHits) {
+        candidates.set(String(doc._id), { doc, score: 1, areas: [] });
+      }
+    }
+
+    // --- 4) Locality pass (catches listings whose text doesn't mention the typo'd word)
+    for (const m of areaMatches) {
+      const re = new RegExp(`\\b${escapeRegex(m.area)}\\b`, "i");
+      const areaHits = await db
+        .collection("properties")
+        .find({
+          $and: [...clauses, { $or: LOCATION_FIELDS.map((f) => ({ [f]: re })) }],
+        })
+        .limit(SEARCH_MAX_CANDIDATES)
+        .toArray();
+
+      const boost = AREA_MATCH_BOOST / (1 + m.distance);
+      for (const doc of areaHits) {
+        const key = String(doc._id);
+        const existing = candidates.get(key);
+        if (existing) {
+          existing.score += boost;
+          existing.areas.push(m.area);
+        } else {
+          candidates.set(key, { doc, score: boost, areas: [m.area] });
+        }
+      }
+    }
+
+    // --- 5) Rank, paginate, highlight (verified sellers get a relevance lift)
+    const now = new Date();
+    const relevance = (c: { doc: any; score: number }) =>
+      c.score * (c.doc.sellerVerified ? VERIFIED_SEARCH_BOOST : 1);
+    const ranked = Array.from(candidates.values()).sort(
+      (a, b) =>
+        relevance(b) - relevance(a) ||
+        Number(isBoosted(b.doc, now)) - Number(isBoosted(a.doc, now)) ||
+        Number(!!b.doc.featured) - Number(!!a.doc.featured) ||
+        new Date(b.doc.createdAt).getTime() -
+          new Date(a.doc.createdAt).getTime(),
+    );
+
+    const pageNum = Math.max(parseInt(String(page), 10) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(String(limit), 10) || 20, 1), 50);
+    const pageItems = ranked.slice((pageNum - 1) * limitNum, pageNum * limitNum);
+
+    const terms = [
+      ...correctedQuery.split(" ").filter((t) => t.length >= 3),
+      ...areaMatches.map((m) => m.area),
+    ];
+
+    const properties = pageItems.map(({ doc, score, areas }) => {
+      const { score: _textScore, ...property } = doc;
+      return {
+        ...property,
+        relevance: Math.round(score * 100) / 100,
+        highlights: {
+          title: buildSnippet(doc.title, terms, 200),
+          description: buildSnippet(doc.description, terms),
+          address: buildSnippet(doc.location?.address, terms),
+          areas,
+        },
+      };
+    });
+
+    res.json({
+      success: true,
+      data: {
+        properties,
+        query: {
+          q: rawQuery,
+          corrected: correctedQuery,
+          matchedAreas: areaMatches.map((m) => m.area),
+        },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total: ranked.length,
+          pages: Math.ceil(ranked.length / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error searching properties:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to search properties" });
+  }
+};
+
+/* =========================================================================
+   PUBLIC: Geo search
+   ========================================================================= */
+const GEO_MAX_RADIUS_KM = 50;
+const GEO_SORTS: Record<string, Record<string, 1 | -1>> = {
+  distance: { distanceKm: 1 },
+  price_asc: { price: 1 },
+  price_desc: { price: -1 },
+  newest: { createdAt: -1 },
+};
+
+// Optional filters shared by /nearby and /within
+const geoFilterClauses = (query: any) => {
+  const clauses: any[] = [publicVisibilityFilter()];
+  if (query.propertyType) clauses.push({ propertyType: normSlug(query.propertyType) });
+  if (query.priceType) clauses.push({ priceType: normSlug(query.priceType) });
+  if (query.minPrice || query.maxPrice) {
+    const price: any = {};
+    if (query.minPrice) price.$gte = parseInt(String(query.minPrice), 10);
+    if (query.maxPrice) price.$lte = parseInt(String(query.maxPrice), 10);
+    clauses.push({ price });
+  }
+  if (query.excludeId && ObjectId.isValid(String(query.excludeId))) {
+    clauses.push({ _id: { $ne: new ObjectId(String(query.excludeId)) } });
+  }
+  return clauses;
+};
+
+const geoPaging = (query: any) => {
+  const pageNum = Math.max(parseInt(String(query.page || "1"), 10) || 1, 1);
+  const limitNum = Math.min(
+    Math.max(parseInt(String(query.limit || "20"), 10) || 20, 1),
+    100,
+  );
+  const sortKey = GEO_SORTS[String(query.sort || "")] ? String(query.sort) : "distance";
+  return { pageNum, limitNum, sortKey };
+};
+
+/**
+ * GET /api/properties/nearby?lat=28.87&lng=76.62&radiusKm=2
+ * Active + approved listings within radiusKm of the point, each with
+ * `distanceKm`. sort=distance (default) | price_asc | price_desc | newest
+ */
+export const getNearbyProperties: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const lat = Number(req.query.lat);
+    const lng = Number(req.query.lng);
+    if (!isValidLatLng(lat, lng)) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid lat and lng query parameters are required",
+      });
+    }
+
+    const radiusKm = Math.min(
+      Math.max(Number(req.query.radiusKm) || 2, 0.1),
+      GEO_MAX_RADIUS_KM,
+    );
+    const { pageNum, limitNum, sortKey } = geoPaging(req.query);
+
+    const [result] = await db
+      .collection("properties")
+      .aggregate([
+        {
+          $geoNear: {
+            near: { type: "Point", coordinates: [lng, lat] },
+            key: PROPERTY_GEO_FIELD,
+            distanceField: "distanceMeters",
+            maxDistance: radiusKm * 1000,
+            spherical: true,
+            query: { $and: geoFilterClauses(req.query) },
+          },
+        },
+        {
+          $addFields: {
+            distanceKm: { $round: [{ $divide: ["$distanceMeters", 1000] }, 2] },
+          },
+        },
+        { $project: { distanceMeters: 0 } },
+        { $sort: { ...GEO_SORTS[sortKey], _id: 1 } },
+        {
+          $facet: {
+            properties: [{ $skip: (pageNum - 1) * limitNum }, { $limit: limitNum }],
+            total: [{ $count: "count" }],
+          },
+        },
+      ])
+      .toArray();
+
+    const total = result?.total?.[0]?.count || 0;
+    res.json({
+      success: true,
+      data: {
+        properties: result?.properties || [],
+        center: { lat, lng },
+        radiusKm,
+        sort: sortKey,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching nearby properties:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to fetch nearby properties" });
+  }
+};
+
+/**
+ * POST /api/properties/within  { polygon: [{lat,lng}, ...], from?: {lat,lng} }
+ * Listings inside a user-drawn area. `distanceKm` is measured from `from`
+ * (e.g. the user's location) or the polygon's centre.
+ */
+export const getPropertiesWithinPolygon: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const polygon = toGeoPolygon(req.body?.polygon);
+    if (!polygon) {
+      return res.status(400).json({
+        success: false,
+        error: "polygon must be 3-100 valid {lat, lng} points",
+      });
+    }
+
+    const from = req.body?.from;
+    const reference =
+      from && isValidLatLng(Number(from.lat), Number(from.lng))
+        ? { lat: Number(from.lat), lng: Number(from.lng) }
+        : polygonCentroid(polygon);
+
+    const options = { ...req.query, ...req.body };
+    const { pageNum, limitNum, sortKey } = geoPaging(options);
+
+    const docs = await db
+      .collection("properties")
+      .find({
+        $and: [
+          ...geoFilterClauses(options),
+          { [PROPERTY_GEO_FIELD]: { $geoWithin: { $geometry: polygon } } },
+        ],
+      })
+      .limit(1000)
+      .toArray();
+
+    const withDistance = docs.map((doc) => {
+      const [lng, lat] = doc.location?.geo?.coordinates || [];
+      return {
+        ...doc,
+        distanceKm: Math.round(haversineKm(reference, { lat, lng }) * 100) / 100,
+      };
+    });
+
+    const [[field, dir]] = Object.entries(GEO_SORTS[sortKey]);
+    withDistance.sort((a: any, b: any) => {
+      const av = field === "createdAt" ? new Date(a[field]).getTime() : Number(a[field]) || 0;
+      const bv = field === "createdAt" ? new Date(b[field]).getTime() : Number(b[field]) || 0;
+      return (av - bv) * dir;
+    });
+
+    const total = withDistance.length;
+    res.json({
+      success: true,
+      data: {
+        properties: withDistance.slice((pageNum - 1) * limitNum, pageNum * limitNum),
+        reference,
+        sort: sortKey,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching properties within polygon:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to fetch properties in area" });
+  }
+};
+
 /* =========================================================================
    PUBLIC: Category page with path params (/categories/:category/:sub?)
    ========================================================================= */
@@ -297,6 +711,34 @@ export const listPublicPropertiesByCategory: RequestHandler = async (
   }
 };
 
+/* =========================================================================
+   PUBLIC: Compare (GET /api/properties/compare?ids=a,b,c)
+   ========================================================================= */
+export const getPropertyComparison: RequestHandler = async (req, res) => {
+  try {
+    const ids = parseCompareIds(req.query.ids);
+    if (ids.length < 2 || ids.length > MAX_COMPARE) {
+      return res.status(400).json({
+        success: false,
+        error: `Pick between 2 and ${MAX_COMPARE} properties to compare`,
+      });
+    }
+
+    const comparison = await compareProperties(getDatabase(), ids);
+
+    const response: ApiResponse<PropertyComparison> = {
+      success: true,
+      data: comparison,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error comparing properties:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to compare properties" });
+  }
+};
+
 /* =========================================================================
    PUBLIC: Get by ID
    ========================================================================= */
@@ -332,6 +774,66 @@ export const getPropertyById: RequestHandler = async (req, res) => {
   }
 };
 
+/* =========================================================================
+   PUBLIC: Price history (chart on the detail page)
+   ========================================================================= */
+export const getPropertyPriceHistory: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const { id } = req.params;
+    if (!ObjectId.isValid(id))
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid property ID" });
+
+    const property = await db
+      .collection("properties")
+      .findOne(
+        { _id: new ObjectId(id) },
+        { projection: { price: 1, priceType: 1, createdAt: 1, previousPrice: 1, priceDropPct: 1 } },
+      );
+    if (!property)
+      return res
+        .status(404)
+        .json({ success: false, error: "Property not found" });
+
+    const changes = await db
+      .collection("property_price_history")
+      .find({ propertyId: property._id })
+      .sort({ changedAt: 1 })
+      .toArray();
+
+    // listing price first, then one point per change
+    const points = [
+      {
+        price: changes.length ? changes[0].oldPrice : property.price,
+        date: property.createdAt || changes[0]?.changedAt || new Date(),
+      },
+      ...changes.map((c) => ({
+        price: c.newPrice,
+        date: c.changedAt,
+        changePct: c.changePct,
+      })),
+    ];
+
+    res.json({
+      success: true,
+      data: {
+        currentPrice: property.price,
+        priceType: property.priceType,
+        priceDropPct: property.priceDropPct ?? null,
+        previousPrice: property.previousPrice ?? null,
+        points,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching price history:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to fetch price history" });
+  }
+};
+
 /* =========================================================================
    CREATE: FREE / pre-PAID (ALWAYS pending)
    ========================================================================= */
@@ -369,6 +871,7 @@ export const createProperty: RequestHandler = async (req, res) => {
     const contactInfo = safeParse(req.body.contactInfo, {});
 
     const providedPremium = req.body.premium === "true";
+    const wantsFeatured = req.body.featured === "true" || req.body.featured === true;
     const contactVisibleFlag =
       typeof req.body.contactVisible === "string"
         ? req.body.contactVisible === "true"
@@ -385,28 +888,7 @@ export const createProperty: RequestHandler = async (req, res) => {
       : "pending";
     const status: "inactive" | "active" = "inactive"; // 🔒 NEVER live at creation
 
-    // Map UI aliases to canonical DB values (same as query-time mapping)
-    const TYPE_ALIASES: Record<string, string> = {
-      "co-living": "pg",
-      coliving: "pg",
-      pg: "pg",
-      "agricultural-land": "agricultural",
-      agri: "agricultural",
-      agricultural: "agricultural",
-      commercial: "commercial",
-      showroom: "commercial",
-      office: "commercial",
-      residential: "residential",
-      flat: "flat",
-      apartment: "flat",
-      plot: "plot",
-    };
-
-    // Normalize propertyType
-    let normalizedPropertyType = normSlug(req.body.propertyType);
-    if (TYPE_ALIASES[normalizedPropertyType]) {
-      normalizedPropertyType = TYPE_ALIASES[normalizedPropertyType];
-    }
+    const normalizedPropertyType = normalizePropertyType(req.body.propertyType);
 
     const propertyData: Omit<Property, "_id"> & {
       packageId?: string;
@@ -425,8 +907,8 @@ export const createProperty: RequestHandler = async (req, res) => {
       price: toInt(req.body.price) ?? 0,
       priceType: req.body.priceType,
       propertyType: normalizedPropertyType,
-      subCategory: normSlug(req.body.subCategory),
-      location,
+      subCategory: normalizeSubCategory(req.body.subCategory),
+      location: withGeoPoint(location),
       specifications: {
         ...specifications,
         bedrooms: toInt(specifications.bedrooms),
@@ -443,7 +925,9 @@ export const createProperty: RequestHandler = async (req, res) => {
       amenities: Array.isArray(amenities) ? amenities : [],
       ownerId: String(userId),
       ownerType: (req as any).userType || "seller",
+      sellerVerified: await isSellerVerified(db, userId),
       contactInfo,
+      phoneKey: contactPhoneKey(contactInfo?.phone),
 
       // 🔒 moderation enforced
       status,
@@ -478,55 +962,73 @@ export const createProperty: RequestHandler = async (req, res) => {
       packageId: propertyData.packageId || null,
     });
 
-    // Free post limit enforcement - get settings from database
-    let freeAdSettings: any = await db
-      .collection("free_ad_settings")
-      .findOne({ _id: "default" });
-
-    if (!freeAdSettings) {
-      freeAdSettings = {
-        maxFreeAdsPerMonth: process.env.FREE_POST_LIMIT
-          ? Number(process.env.FREE_POST_LIMIT)
-          : 5,
-        numberOfDays: process.env.FREE_POST_PERIOD_DAYS
-          ? Number(process.env.FREE_POST_PERIOD_DAYS)
-          : 30,
-        isActive: true,
-      };
-    }
-
-    if (freeAdSettings.isActive && !propertyData.packageId) {
-      const periodStart = new Date(
-        Date.now() - freeAdSettings.numberOfDays * 24 * 60 * 60 * 1000,
-      );
-      const userIdStr = String(userId);
-      const freePostsCount = await db.collection("properties").countDocuments({
-        ownerId: userIdStr,
-        createdAt: { $gte: periodStart },
-        $or: [
-          { packageId: { $exists: false } },
-          { packageId: null },
-          { isPaid: false },
-        ],
+    // A listing is covered by, in order: a package the seller already holds
+    // (the one they picked, else any with listings left), the free allowance,
+    // or — when they picked a package they don't hold — a payment to follow.
+    // A featured slot is only spent when the seller asked to be featured.
+    const attachPackage = async (userPackage: any) => {
+      const featuredSlot = wantsFeatured
+        ? await claimEntitlement(db, userId, "featuredSlots", { userPackageId: userPackage._id })
+        : null;
+      Object.assign(propertyData, {
+        packageId: String(userPackage.packageId),
+        isPaid: true,
+        paymentStatus: "paid",
+        package: {
+          id: userPackage.packageId,
+          name: userPackage.packageName,
+          type: userPackage.packageType,
+          purchasedAt: userPackage.startDate,
+          expiry: userPackage.endDate,
+        },
+        packageExpiry: userPackage.endDate,
+        userPackageId: userPackage._id,
+        featured: !!featuredSlot,
+        featuredUserPackageId: featuredSlot ? userPackage._id : null,
       });
+    };
 
-      if (freePostsCount >= freeAdSettings.maxFreeAdsPerMonth) {
-        return res.status(403).json({
-          success: false,
-          error: `Free listing limit reached: You can post ${freeAdSettings.maxFreeAdsPerMonth} free ads every ${freeAdSettings.numberOfDays} days. Please upgrade to a paid package to post more.`,
-          limitReached: true,
-          freeAdLimit: {
-            max: freeAdSettings.maxFreeAdsPerMonth,
-            days: freeAdSettings.numberOfDays,
-            used: freePostsCount,
-          },
-        });
+    let coveredBy: any = packageId
+      ? await claimEntitlement(db, userId, "listings", { packageId })
+      : null;
+
+    if (!propertyData.packageId) {
+      const free = await freeListingAllowance(db, userId);
+      if (free && free.remaining <= 0) {
+        coveredBy = await claimEntitlement(db, userId, "listings");
+        if (!coveredBy) {
+          return res.status(403).json({
+            success: false,
+            error: `Free listing limit reached: You can post ${free.limit} free ads every ${free.periodDays} days and your packages have no listings left. Please buy or upgrade a package to post more.`,
+            limitReached: true,
+            entitlement: "listings",
+            freeAdLimit: { max: free.limit, days: free.periodDays, used: free.used },
+            quota: (await getQuotaSummary(db, userId)).quotas,
+          });
+        }
       }
     }
+    if (coveredBy) await attachPackage(coveredBy);
 
-    const result = await db.collection("properties").insertOne(propertyData);
+    let result;
+    try {
+      result = await db.collection("properties").insertOne(propertyData);
+    } catch (e) {
+      if (coveredBy) {
+        await releaseEntitlement(db, coveredBy._id, "listings");
+        if ((propertyData as any).featuredUserPackageId) {
+          await releaseEntitlement(db, coveredBy._id, "featuredSlots");
+        }
+      }
+      throw e;
+    }
     const propertyId = result.insertedId.toString();
 
+    // score it (hashing the photos on the way) so the moderation queue only reads stored results
+    getListingRisk(db, { ...propertyData, _id: result.insertedId }, true).catch((e: any) =>
+      console.warn("Risk assessment failed:", propertyId, e?.message || e),
+    );
+
     // ✅ user confirmation email (best-effort)
     try {
       const user = await db
@@ -830,18 +1332,47 @@ export const deleteUserNotification: RequestHandler = async (req, res) => {
 /* =========================================================================
    ADMIN: Pending list
    ========================================================================= */
-export const getPendingProperties: RequestHandler = async (_req, res) => {
+export const getPendingProperties: RequestHandler = async (req, res) => {
   try {
     const db = getDatabase();
-    const properties = await db
-      .collection("properties")
-      .find({ approvalStatus: { $in: ["pending", "pending_approval"] } })
-      .sort({ createdAt: -1 })
-      .toArray();
+    const filter = { approvalStatus: { $in: ["pending", "pending_approval"] } };
+    const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit)) || 50));
+    const sort: Record<string, 1 | -1> =
+      req.query.sort === "risk"
+        ? { "riskAssessment.score": -1, createdAt: -1 }
+        : { createdAt: -1 };
+
+    const [properties, total] = await Promise.all([
+      db
+        .collection("properties")
+        .find(filter)
+        .sort(sort)
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray(),
+      db.collection("properties").countDocuments(filter),
+    ]);
+
+    // duplicate / fraud signals for moderators; scored at submit time, so
+    // this only refreshes stale results on the page being shown
+    for (const property of properties) {
+      try {
+        property.riskAssessment = await getListingRisk(db, property);
+      } catch (e: any) {
+        console.warn("Risk assessment failed:", property._id, e?.message || e);
+      }
+    }
+    if (req.query.sort === "risk") {
+      properties.sort(
+        (a, b) => (b.riskAssessment?.score || 0) - (a.riskAssessment?.score || 0),
+      );
+    }
 
     const response: ApiResponse<Property[]> = {
       success: true,
       data: properties as unknown as Property[],
+      meta: { pagination: { page, limit, total, pages: Math.ceil(total / limit) } },
     };
     res.json(response);
   } catch (error) {
@@ -852,6 +1383,34 @@ export const getPendingProperties: RequestHandler = async (_req, res) => {
   }
 };
 
+// Re-run the risk checks for one listing (admin "re-check" button)
+export const getPropertyRisk: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const { propertyId } = req.params;
+    if (!ObjectId.isValid(propertyId))
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid property ID" });
+
+    const property = await db
+      .collection("properties")
+      .findOne({ _id: new ObjectId(propertyId) });
+    if (!property)
+      return res
+        .status(404)
+        .json({ success: false, error: "Property not found" });
+
+    const assessment = await getListingRisk(db, property, req.query.refresh === "true");
+    res.json({ success: true, data: assessment });
+  } catch (error) {
+    console.error("Error assessing property risk:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to assess property" });
+  }
+};
+
 /* =========================================================================
    ADMIN: Approve / Reject
    ========================================================================= */
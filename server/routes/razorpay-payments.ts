@@ -4,6 +4,9 @@ import type { ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
 import Razorpay from "razorpay";
 import crypto from "crypto";
+import { CampaignError, getPayableCampaign } from "../utils/adCampaigns";
+import { activateEntitlement } from "../utils/paymentLedger";
+import { BoostError, assertBoostable } from "../utils/boosts";
 
 /** ---------- Config ---------- */
 interface RazorpayConfig {
@@ -42,6 +45,7 @@ const rupeesToPaise = (amt: number) => Math.round(Number(amt) * 100);
 /** =====================================================================
  *  POST /api/payments/razorpay/create
  *  Body: { packageId: string; propertyId?: string; paymentDetails?: { amount?: number; ... } }
+ *     or { campaignId: string } to pay for a booked banner campaign
  *  Returns: { transactionId, razorpayOrderId, amount (paise), currency, keyId }
  * ===================================================================== */
 export const createRazorpayOrder: RequestHandler = async (req, res) => {
@@ -61,11 +65,13 @@ export const createRazorpayOrder: RequestHandler = async (req, res) => {
       return bad(res, "Invalid user id", 401);
     }
 
-    const { packageId, propertyId, paymentDetails } = (req.body || {}) as {
+    const { packageId, propertyId, paymentDetails, campaignId } = (req.body || {}) as {
       packageId: string;
       propertyId?: string;
       paymentDetails?: { amount?: number; [k: string]: any };
+      campaignId?: string;
     };
+    if (campaignId) return createCampaignOrder(req, res, cfg, userObjId, campaignId);
     if (!packageId) return bad(res, "Missing packageId");
 
     let pkgObjId: ObjectId;
@@ -100,6 +106,16 @@ export const createRazorpayOrder: RequestHandler = async (req, res) => {
       }
     }
 
+    // don't take payment for a boost that can't be applied
+    if (pkg.type === "boost" && propObjId) {
+      try {
+        assertBoostable(await db.collection("properties").findOne({ _id: propObjId }), userObjId);
+      } catch (e) {
+        if (e instanceof BoostError) return bad(res, e.message, e.status);
+        throw e;
+      }
+    }
+
     // Razorpay instance
     const rzp = new Razorpay({
       key_id: cfg.keyId,
@@ -166,6 +182,72 @@ export const createRazorpayOrder: RequestHandler = async (req, res) => {
   }
 };
 
+/** Razorpay order for a booked banner campaign; priced from the booking. */
+async function createCampaignOrder(
+  req: any,
+  res: any,
+  cfg: RazorpayConfig,
+  userObjId: ObjectId,
+  campaignId: string
+) {
+  const db = getDatabase();
+  let payable: Awaited<ReturnType<typeof getPayableCampaign>>;
+  try {
+    payable = await getPayableCampaign(db, campaignId, userObjId);
+  } catch (e) {
+    if (e instanceof CampaignError) return bad(res, e.message, e.status);
+    throw e;
+  }
+  const { campaign, amount, description } = payable;
+  const amountPaise = rupeesToPaise(amount);
+
+  const rzp = new Razorpay({ key_id: cfg.keyId, key_secret: cfg.keySecret });
+  const order: { id: string } = await rzp.orders.create({
+    amount: amountPaise,
+    currency: "INR",
+    receipt: `camp_${String(campaign._id).slice(-8)}_${Date.now()}`,
+    payment_capture: true,
+    notes: {
+      campaignId: String(campaign._id),
+      userId: userObjId.toString(),
+      description,
+    },
+  });
+
+  const now = new Date();
+  const insertRes = await db.collection("transactions").insertOne({
+    userId: userObjId,
+    campaignId: campaign._id,
+    purpose: "ad_campaign",
+    amount,
+    currency: "INR",
+    paymentMethod: "razorpay",
+    razorpayOrderId: order.id,
+    status: "pending",
+    packageName: description,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const response: ApiResponse<{
+    transactionId: string;
+    razorpayOrderId: string;
+    amount: number; // paise
+    currency: string;
+    keyId: string;
+  }> = {
+    success: true,
+    data: {
+      transactionId: insertRes.insertedId.toString(),
+      razorpayOrderId: order.id,
+      amount: amountPaise,
+      currency: "INR",
+      keyId: cfg.keyId,
+    },
+  };
+  return res.json(response);
+}
+
 /** =====================================================================
  *  POST /api/payments/razorpay/verify
  *  Body: { razorpay_order_id, razorpay_payment_id, razorpay_signature }
@@ -206,7 +288,7 @@ export const verifyRazorpayPayment: RequestHandler = async (req, res) => {
     const now = new Date();
 
     // 1) Mark transaction paid
-    await db.collection("transactions").updateOne(
+    const paidTx = await db.collection("transactions").findOneAndUpdate(
       { _id: tx._id },
       {
         $set: {
@@ -216,73 +298,20 @@ export const verifyRazorpayPayment: RequestHandler = async (req, res) => {
           paidAt: now,
           updatedAt: now,
         },
-      }
+      },
+      { returnDocument: "after" }
     );
 
-    // 2) If property/package present → attach package snapshot & mark as PENDING APPROVAL (not live)
-    if (tx.propertyId && tx.packageId) {
-      const pkg = await db.collection("ad_packages").findOne({
-        _id: new ObjectId(String(tx.packageId)),
-      });
-
-      if (pkg) {
-        const packageExpiry = new Date();
-        packageExpiry.setDate(packageExpiry.getDate() + Number(pkg.duration || 0));
-
-        await db.collection("properties").updateOne(
-          { _id: new ObjectId(String(tx.propertyId)) },
-          {
-            $set: {
-              // payment meta
-              isPaid: true,
-              paymentStatus: "paid",
-              paymentGateway: "razorpay",
-              lastPaymentAt: now,
-
-              // paid amount (for admin dashboard display)
-              paidAmount: Number(tx.amount || 0),
-              paidCurrency: String(tx.currency || "INR"),
-              razorpayPaymentId: razorpay_payment_id,
-              razorpayOrderId: razorpay_order_id,
-
-              // package meta (snapshot)
-              packageId: new ObjectId(String(tx.packageId)),
-              package: {
-                id: new ObjectId(String(pkg._id)),
-                name: String(pkg.name || ""),
-                type: String(pkg.type || ""),
-                price: Number(pkg.price || 0),
-                duration: Number(pkg.duration || 0),
-                features: Array.isArray(pkg.features) ? pkg.features : [],
-                purchasedAt: now,
-                expiry: packageExpiry,
-              },
-              packageExpiry,
-
-              // visibility / moderation
-              status: "pending_approval",
-              approvalStatus: "pending",
-              isApproved: false,
-
-              // UX extras
-              featured: pkg.type === "featured" || pkg.type === "premium",
-              updatedAt: now,
-            },
-            $unset: {
-              // ensure any accidental live flags are removed
-              liveAt: "",
-              approvedAt: "",
-            },
-          }
-        );
-      }
-    }
+    // 2) Activate what was bought: a listing package goes back to PENDING
+    //    APPROVAL (not live), a banner campaign waits for creative review
+    await activateEntitlement(db, "transactions", paidTx || tx, { reviewListing: true });
 
     const response: ApiResponse<{ message: string; transactionId: string }> = {
       success: true,
       data: {
-        message:
-          "Payment verified. Property is pending admin approval (will go live after approval).",
+        message: tx.campaignId
+          ? "Payment verified. Your banner campaign is awaiting admin approval."
+          : "Payment verified. Property is pending admin approval (will go live after approval).",
         transactionId: String(tx._id),
       },
     };
@@ -0,0 +1,235 @@
+import { RequestHandler } from "express";
+import crypto from "crypto";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse, SavedSearch, SearchFilters } from "@shared/types";
+
+const MAX_SAVED_SEARCHES = 20;
+const FREQUENCIES = ["instant", "daily"];
+
+// Keep only the filter keys the matcher understands
+const sanitizeFilters = (raw: any): SearchFilters => {
+  const f: SearchFilters = {};
+  if (!raw || typeof raw !== "object") return f;
+
+  if (raw.priceType === "sale" || raw.priceType === "rent") f.priceType = raw.priceType;
+  if (raw.propertyType) f.propertyType = String(raw.propertyType);
+  if (Array.isArray(raw.propertyTypes) && raw.propertyTypes.length) {
+    f.propertyTypes = raw.propertyTypes.map(String);
+  }
+  if (raw.subCategory) f.subCategory = String(raw.subCategory);
+  if (raw.keyword) f.keyword = String(raw.keyword).trim().slice(0, 100);
+
+  const range = (r: any) =>
+    r && (Number(r.min) || Number(r.max))
+      ? { min: Number(r.min) || 0, max: Number(r.max) || 0 }
+      : undefined;
+  if (range(raw.priceRange)) f.priceRange = range(raw.priceRange);
+  if (range(raw.areaRange)) f.areaRange = range(raw.areaRange);
+
+  if (Number(raw.bedrooms) > 0) f.bedrooms = Number(raw.bedrooms);
+  if (Number(raw.bathrooms) > 0) f.bathrooms = Number(raw.bathrooms);
+
+  if (raw.location && typeof raw.location === "object") {
+    const location: SearchFilters["location"] = {};
+    for (const key of ["sector", "mohalla", "landmark"] as const) {
+      if (raw.location[key]) location[key] = String(raw.location[key]);
+    }
+    if (Object.keys(location).length) f.location = location;
+  }
+  if (Array.isArray(raw.amenities) && raw.amenities.length) {
+    f.amenities = raw.amenities.map(String);
+  }
+  return f;
+};
+
+// Get the logged-in user's saved searches
+export const getSavedSearches: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const userId = (req as any).userId;
+
+    const searches = await db
+      .collection("saved_searches")
+      .find({ userId: new ObjectId(userId) })
+      .project({ unsubscribeToken: 0 })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    const response: ApiResponse<SavedSearch[]> = {
+      success: true,
+      data: searches as unknown as SavedSearch[],
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch saved searches",
+    });
+  }
+};
+
+// Save a search and subscribe to new-listing alerts
+export const createSavedSearch: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const userId = (req as any).userId;
+    const { name, filters, frequency = "instant" } = req.body || {};
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ success: false, error: "Name is required" });
+    }
+    if (!FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({
+        success: false,
+        error: "Frequency must be instant or daily",
+      });
+    }
+
+    const cleanFilters = sanitizeFilters(filters);
+    if (Object.keys(cleanFilters).length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Pick at least one filter before saving a search",
+      });
+    }
+
+    const count = await db
+      .collection("saved_searches")
+      .countDocuments({ userId: new ObjectId(userId) });
+    if (count >= MAX_SAVED_SEARCHES) {
+      return res.status(400).json({
+        success: false,
+        error: `You can save up to ${MAX_SAVED_SEARCHES} searches`,
+      });
+    }
+
+    const now = new Date();
+    const doc = {
+      userId: new ObjectId(userId),
+      name: String(name).trim().slice(0, 80),
+      filters: cleanFilters,
+      frequency,
+      isActive: true,
+      lastNotifiedAt: null,
+      matchCount: 0,
+      unsubscribeToken: crypto.randomBytes(24).toString("hex"),
+      createdAt: now,
+      updatedAt: now,
+    };
+    const result = await db.collection("saved_searches").insertOne(doc);
+
+    const { unsubscribeToken, ...publicDoc } = doc;
+    const response: ApiResponse<SavedSearch> = {
+      success: true,
+      data: { ...publicDoc, _id: result.insertedId.toString() } as any,
+      message: "Search saved. We'll alert you when new listings match.",
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error saving search:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to save search",
+    });
+  }
+};
+
+// Rename, change frequency or pause/resume alerts
+export const updateSavedSearch: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const userId = (req as any).userId;
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid search ID" });
+    }
+
+    const { name, frequency, isActive, filters } = req.body || {};
+    const update: any = { updatedAt: new Date() };
+    if (name !== undefined) update.name = String(name).trim().slice(0, 80);
+    if (frequency !== undefined) {
+      if (!FREQUENCIES.includes(frequency)) {
+        return res.status(400).json({
+          success: false,
+          error: "Frequency must be instant or daily",
+        });
+      }
+      update.frequency = frequency;
+    }
+    if (isActive !== undefined) update.isActive = !!isActive;
+    if (filters !== undefined) update.filters = sanitizeFilters(filters);
+
+    const result = await db
+      .collection("saved_searches")
+      .updateOne(
+        { _id: new ObjectId(id), userId: new ObjectId(userId) },
+        { $set: update },
+      );
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ success: false, error: "Saved search not found" });
+    }
+
+    res.json({ success: true, message: "Saved search updated" });
+  } catch (error) {
+    console.error("Error updating saved search:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to update saved search",
+    });
+  }
+};
+
+export const deleteSavedSearch: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const userId = (req as any).userId;
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, error: "Invalid search ID" });
+    }
+
+    const result = await db
+      .collection("saved_searches")
+      .deleteOne({ _id: new ObjectId(id), userId: new ObjectId(userId) });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ success: false, error: "Saved search not found" });
+    }
+    await db
+      .collection("saved_search_matches")
+      .deleteMany({ savedSearchId: new ObjectId(id) });
+
+    res.json({ success: true, message: "Saved search deleted" });
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to delete saved search",
+    });
+  }
+};
+
+// One-click unsubscribe from alert emails (public, token based)
+export const unsubscribeSavedSearch: RequestHandler = async (req, res) => {
+  const page = (msg: string) =>
+    `<!doctype html><html><body style="font-family:Arial,sans-serif;text-align:center;padding:40px">
+      <h2 style="color:#C70000">Ashish Properties</h2><p>${msg}</p></body></html>`;
+  try {
+    const db = getDatabase();
+    const { token } = req.params;
+    const result = await db
+      .collection("saved_searches")
+      .findOneAndUpdate(
+        { unsubscribeToken: String(token || "") },
+        { $set: { isActive: false, updatedAt: new Date() } },
+      );
+    if (!result) {
+      return res.status(404).send(page("This alert link is invalid or has expired."));
+    }
+    res.send(page(`You won't receive alerts for "${result.name}" anymore.`));
+  } catch (error) {
+    console.error("Error unsubscribing saved search:", error);
+    res.status(500).send(page("Something went wrong. Please try again later."));
+  }
+};
@@ -0,0 +1,172 @@
+import { RequestHandler } from "express";
+import multer from "multer";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import {
+  DOCUMENT_MIME_TYPES,
+  MAX_DOCUMENTS,
+  MAX_DOCUMENT_MB,
+  MyVerificationStatus,
+  SellerVerification,
+} from "@shared/sellerVerification";
+import {
+  KYC_DIR,
+  VerificationError,
+  findDocument,
+  isValidDocumentLink,
+  listVerifications,
+  myVerification,
+  removeDocumentFiles,
+  reviewVerification,
+  serializeVerification,
+  submitVerification,
+} from "../utils/sellerVerification";
+import { recordAudit } from "../utils/auditLog";
+
+// KYC documents go to a private directory with random names; never under /uploads
+const storage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    if (!fs.existsSync(KYC_DIR)) fs.mkdirSync(KYC_DIR, { recursive: true });
+    cb(null, KYC_DIR);
+  },
+  filename: (_req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, "");
+    cb(null, `${crypto.randomBytes(16).toString("hex")}${ext}`);
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: { fileSize: MAX_DOCUMENT_MB * 1024 * 1024, files: MAX_DOCUMENTS },
+  fileFilter: (_req, file, cb) => {
+    if (DOCUMENT_MIME_TYPES.includes(file.mimetype)) return cb(null, true);
+    const e: any = new Error("Documents must be PDF, JPEG, PNG or WebP");
+    e.code = "INVALID_FILE_TYPE";
+    cb(e);
+  },
+}).array("documents", MAX_DOCUMENTS);
+
+// Wrong type, too large or too many files is the seller's mistake: 400, not the global 500
+export const uploadVerificationDocuments: RequestHandler = (req, res, next) => {
+  upload(req, res, (err: any) => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError || err.code === "INVALID_FILE_TYPE") {
+      const error =
+        err.code === "LIMIT_FILE_SIZE"
+          ? `Each document must be ${MAX_DOCUMENT_MB}MB or smaller`
+          : err.code === "LIMIT_FILE_COUNT" || err.code === "LIMIT_UNEXPECTED_FILE"
+            ? `Upload at most ${MAX_DOCUMENTS} documents`
+            : err.message || "File upload error";
+      return res.status(400).json({ success: false, error });
+    }
+    next(err);
+  });
+};
+
+const sendVerificationError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof VerificationError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
+
+/** GET /api/seller/verification — the signed-in seller's badge and latest submission. */
+export const getMyVerification: RequestHandler = async (req, res) => {
+  try {
+    const response: ApiResponse<MyVerificationStatus> = {
+      success: true,
+      data: await myVerification(getDatabase(), String((req as any).userId)),
+    };
+    res.json(response);
+  } catch (error) {
+    sendVerificationError(res, error, "Failed to fetch verification status");
+  }
+};
+
+/** POST /api/seller/verification — multipart `documents[]` with matching `documentTypes[]`. */
+export const submitMyVerification: RequestHandler = async (req, res) => {
+  const files = ((req as any).files || []) as Express.Multer.File[];
+  try {
+    const saved = await submitVerification(getDatabase(), String((req as any).userId), files, req.body);
+    const response: ApiResponse<SellerVerification> = { success: true, data: serializeVerification(saved) };
+    res.status(201).json(response);
+  } catch (error) {
+    await removeDocumentFiles(files.map((f) => f.filename));
+    sendVerificationError(res, error, "Failed to submit verification");
+  }
+};
+
+/** GET /api/admin/seller-verifications — review queue; `?status=` and `?search=` narrow it. */
+export const getSellerVerifications: RequestHandler = async (req, res) => {
+  try {
+    const rows = await listVerifications(getDatabase(), req.query);
+    const now = new Date();
+    const response: ApiResponse<SellerVerification[]> = {
+      success: true,
+      data: rows.map((r) => serializeVerification(r, now)),
+    };
+    res.json(response);
+  } catch (error) {
+    sendVerificationError(res, error, "Failed to fetch seller verifications");
+  }
+};
+
+/** PATCH /api/admin/seller-verifications/:id — `{ status, rejectionReason?, comments? }`. */
+export const reviewSellerVerification: RequestHandler = async (req, res) => {
+  try {
+    const { before, after } = await reviewVerification(
+      getDatabase(),
+      req.params.id,
+      String((req as any).userId),
+      req.body || {},
+    );
+    await recordAudit(req, {
+      action: after.status === "approved" ? "seller.verify" : "seller.verify_reject",
+      targetType: "user",
+      targetId: before.userId,
+      targetLabel: before.userEmail || before.userName,
+      before: { status: before.status },
+      after: { status: after.status, rejectionReason: after.rejectionReason || null },
+      meta: { verificationId: String(after._id) },
+    });
+    const response: ApiResponse<SellerVerification> = { success: true, data: serializeVerification(after) };
+    res.json(response);
+  } catch (error) {
+    sendVerificationError(res, error, "Failed to update verification");
+  }
+};
+
+const encodeRFC5987 = (value: string) =>
+  encodeURIComponent(value).replace(/['()*!]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// RFC 6266: an ASCII-only `filename` for old clients, the real name in `filename*`
+const contentDisposition = (fileName: string) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "") || "document";
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encodeRFC5987(fileName)}`;
+};
+
+/**
+ * GET /api/seller-verifications/:id/documents/:docId?exp=&sig= — streams a
+ * document. The signed query is the credential; links come from the admin
+ * queue or the seller's own status and expire after a few minutes.
+ */
+export const getVerificationDocument: RequestHandler = async (req, res) => {
+  try {
+    const { id, docId } = req.params;
+    if (!isValidDocumentLink(id, docId, req.query.exp, req.query.sig)) {
+      return res.status(403).json({ success: false, error: "This document link has expired" });
+    }
+    const { file, fileName, mimeType } = await findDocument(getDatabase(), id, docId);
+    res.setHeader("Content-Type", mimeType);
+    res.setHeader("Content-Disposition", contentDisposition(fileName));
+    res.setHeader("Cache-Control", "private, no-store");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.sendFile(file);
+  } catch (error) {
+    sendVerificationError(res, error, "Failed to fetch document");
+  }
+};
@@ -3,6 +3,15 @@ import { getDatabase } from "../db/mongodb";
 import { ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
 import bcrypt from "bcrypt";
+import { withGeoPoint } from "../utils/geo";
+import { recordPriceChange, notifyPriceDrop } from "../utils/priceHistory";
+import { activateEntitlement } from "../utils/paymentLedger";
+import { gstStateCode, isValidGstin } from "@shared/gst";
+import { QuotaSummary, resolveEntitlements } from "@shared/entitlements";
+import { getQuotaSummary } from "../utils/entitlements";
+import { RenewError, renewListing, stable } from "../utils/listingExpiry";
+import { contactPhoneKey, getListingRisk } from "../utils/listingRisk";
+import { normalizePropertyType, normalizeSubCategory } from "./properties";
 
 const toIdString = (value: any): string | undefined => {
   if (!value) return undefined;
@@ -1019,20 +1028,46 @@ export const getSellerPayments: RequestHandler = async (req, res) => {
     const sellerId = (req as any).userId;
     const sellerObjId = new ObjectId(String(sellerId));
 
-    const payments = await db
-      .collection("payments")
-      .find({
-        $or: [
-          { userId: sellerObjId, userType: "seller" },
-          { sellerId: sellerObjId }, // Support legacy format
-        ],
-      })
-      .sort({ createdAt: -1 })
-      .toArray();
+    const [payments, transactions] = await Promise.all([
+      db
+        .collection("payments")
+        .find({
+          $or: [
+            { userId: sellerObjId, userType: "seller" },
+            { sellerId: sellerObjId }, // Support legacy format
+          ],
+        })
+        .toArray(),
+      // listing packages and banners paid through the gateways
+      db
+        .collection("transactions")
+        .find({
+          userId: { $in: [sellerObjId, String(sellerId)] },
+          status: { $in: ["paid", "refunded"] },
+        })
+        .toArray(),
+    ]);
+
+    const invoiceUrl = (p: any) => (p.invoiceId ? `/api/invoices/${p.invoiceId}/pdf` : null);
+    const rows = [
+      ...payments.map((p) => ({ ...p, source: "payments", invoiceUrl: invoiceUrl(p) })),
+      ...transactions.map((t) => ({
+        _id: t._id,
+        amount: t.amount,
+        package: t.packageName || "Package",
+        status: t.status === "paid" ? "completed" : t.status,
+        date: t.paidAt || t.updatedAt || t.createdAt,
+        transactionId: t.razorpayOrderId || t.merchantTransactionId || String(t._id),
+        paymentMethod: t.paymentMethod,
+        invoiceNumber: t.invoiceNumber || null,
+        source: "transactions",
+        invoiceUrl: invoiceUrl(t),
+      })),
+    ].sort((a: any, b: any) => new Date(b.date || b.createdAt).getTime() - new Date(a.date || a.createdAt).getTime());
 
     const response: ApiResponse<any[]> = {
       success: true,
-      data: payments,
+      data: rows,
     };
 
     res.json(response);
@@ -1102,6 +1137,82 @@ export const updateSellerProfile: RequestHandler = async (req, res) => {
   }
 };
 
+// Billing details printed on tax invoices
+export const getSellerBilling: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const user = await db
+      .collection("users")
+      .findOne({ _id: new ObjectId(String((req as any).userId)) }, { projection: { billing: 1, name: 1 } });
+
+    res.json({
+      success: true,
+      data: {
+        gstin: user?.billing?.gstin || "",
+        legalName: user?.billing?.legalName || user?.name || "",
+        address: user?.billing?.address || "",
+        stateCode: user?.billing?.stateCode || "",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching billing details:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch billing details" });
+  }
+};
+
+// Save GSTIN and billing address; applies to invoices issued from now on
+export const updateSellerBilling: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const gstin = String(req.body?.gstin || "").trim().toUpperCase();
+    const legalName = String(req.body?.legalName || "").trim().slice(0, 200);
+    const address = String(req.body?.address || "").trim().slice(0, 500);
+    let stateCode = gstStateCode(req.body?.stateCode);
+
+    if (gstin && !isValidGstin(gstin)) {
+      return res.status(400).json({ success: false, error: "Invalid GSTIN" });
+    }
+    if (gstin) {
+      // the GSTIN's state is the place of supply for registered buyers
+      if (stateCode && stateCode !== gstin.slice(0, 2)) {
+        return res.status(400).json({ success: false, error: "State does not match the GSTIN" });
+      }
+      stateCode = gstin.slice(0, 2);
+    }
+
+    const billing = { gstin: gstin || null, legalName, address, stateCode, updatedAt: new Date() };
+    await db
+      .collection("users")
+      .updateOne({ _id: new ObjectId(String((req as any).userId)) }, { $set: { billing, updatedAt: new Date() } });
+
+    res.json({ success: true, data: billing });
+  } catch (error) {
+    console.error("Error updating billing details:", error);
+    res.status(500).json({ success: false, error: "Failed to update billing details" });
+  }
+};
+
+// Remaining listings, featured slots, boosts and contact reveals
+export const getSellerQuota: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const summary = await getQuotaSummary(db, (req as any).userId);
+
+    const response: ApiResponse<QuotaSummary> = {
+      success: true,
+      data: summary,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching seller quota:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch quota",
+    });
+  }
+};
+
 // Change seller password
 export const changeSellerPassword: RequestHandler = async (req, res) => {
   try {
@@ -1193,6 +1304,31 @@ export const purchasePackage: RequestHandler = async (req, res) => {
       });
     }
 
+    if (packageDetails.isActive === false || packageDetails.active === false) {
+      return res.status(400).json({
+        success: false,
+        error: "This package is no longer available",
+      });
+    }
+
+    // a free plan can't be stacked to multiply its quota
+    if (!Number(packageDetails.price)) {
+      const current = await db.collection("user_packages").findOne({
+        userId: { $in: [new ObjectId(String(sellerId)), String(sellerId)] },
+        packageId: { $in: [packageDetails._id, String(packageDetails._id)] },
+        status: "active",
+        endDate: { $gt: new Date() },
+      });
+      if (current) {
+        return res.status(409).json({
+          success: false,
+          error: `You already have the ${packageDetails.name} until ${new Date(current.endDate).toLocaleDateString("en-IN")}`,
+        });
+      }
+    }
+
+    const entitlements = resolveEntitlements(packageDetails);
+
     // Create payment record
     const payment = {
       sellerId: new ObjectId(sellerId),
@@ -1206,23 +1342,10 @@ export const purchasePackage: RequestHandler = async (req, res) => {
       createdAt: new Date(),
     };
 
-    await db.collection("payments").insertOne(payment);
+    const { insertedId } = await db.collection("payments").insertOne(payment);
 
     // Update seller's package status
-    await db.collection("users").updateOne(
-      { _id: new ObjectId(sellerId) },
-      {
-        $set: {
-          currentPackage: packageDetails.name,
-          packageType: packageDetails.type,
-          packageExpiresAt: new Date(
-            Date.now() + packageDetails.duration * 24 * 60 * 60 * 1000,
-          ),
-          isPremium: packageDetails.type !== "basic",
-          updatedAt: new Date(),
-        },
-      },
-    );
+    await activateEntitlement(db, "payments", { ...payment, _id: insertedId });
 
     // Create notification for successful purchase
     await db.collection("notifications").insertOne({
@@ -1241,6 +1364,8 @@ export const purchasePackage: RequestHandler = async (req, res) => {
         transactionId: payment.transactionId,
         package: packageDetails.name,
         amount: packageDetails.price,
+        entitlements,
+        quota: (await getQuotaSummary(db, sellerId)).quotas,
       },
     });
   } catch (error) {
@@ -1375,6 +1500,129 @@ export const deleteSellerProperty: RequestHandler = async (req, res) => {
   }
 };
 
+// Fields a moderator has to see again before the listing goes back on show
+const REVIEWED_CONTENT_FIELDS = ["title", "description", "images", "location", "contactInfo"];
+
+// Edit own property (PostProperty edit mode). Changing what buyers read —
+// REVIEWED_CONTENT_FIELDS — sends the listing back to moderation here, so a
+// direct API call can't skip the follow-up /resubmit.
+export const updateSellerProperty: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const sellerId = (req as any).userId;
+    const sellerObjId = new ObjectId(String(sellerId));
+    const { id } = req.params as { id: string };
+
+    if (!ObjectId.isValid(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid property ID" });
+    }
+
+    const ownerFilter = {
+      _id: new ObjectId(id),
+      $or: [
+        { ownerId: String(sellerId) },
+        { ownerId: sellerObjId },
+        { userId: sellerObjId },
+        { userId: String(sellerId) },
+        { sellerId: sellerObjId },
+        { sellerId: String(sellerId) },
+      ],
+    };
+    const existing = await db.collection("properties").findOne(ownerFilter);
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: "Property not found or not owned by user",
+      });
+    }
+
+    const parse = (v: any) => {
+      if (typeof v !== "string") return v;
+      try {
+        return JSON.parse(v);
+      } catch {
+        return undefined;
+      }
+    };
+
+    const newImages: string[] = Array.isArray((req as any).files)
+      ? (req as any).files.map((f: any) => `/uploads/properties/${f.filename}`)
+      : [];
+
+    const updateData: any = { updatedAt: new Date() };
+    for (const key of ["title", "description", "priceType"]) {
+      if (req.body[key] !== undefined) updateData[key] = req.body[key];
+    }
+    if (req.body.propertyType !== undefined) {
+      updateData.propertyType = normalizePropertyType(req.body.propertyType);
+    }
+    if (req.body.subCategory !== undefined) {
+      updateData.subCategory = normalizeSubCategory(req.body.subCategory);
+    }
+    const location = parse(req.body.location);
+    if (location) updateData.location = withGeoPoint(location);
+    for (const key of ["specifications", "amenities", "contactInfo"]) {
+      const v = parse(req.body[key]);
+      if (v !== undefined) updateData[key] = v;
+    }
+    if (updateData.contactInfo) updateData.phoneKey = contactPhoneKey(updateData.contactInfo.phone);
+    if (newImages.length) {
+      updateData.images = [...(existing.images || []), ...newImages];
+    }
+
+    const newPrice = parseInt(req.body.price);
+    if (Number.isFinite(newPrice)) {
+      updateData.price = newPrice;
+      const priceFields = await recordPriceChange(db, {
+        property: existing,
+        newPrice,
+        changedBy: sellerId,
+        source: "seller",
+      });
+      if (priceFields) Object.assign(updateData, priceFields);
+    }
+
+    const sameValue = (a: any, b: any) =>
+      JSON.stringify(stable(a ?? null)) === JSON.stringify(stable(b ?? null));
+    const needsReview = REVIEWED_CONTENT_FIELDS.some(
+      (key) => key in updateData && !sameValue(updateData[key], existing[key]),
+    );
+    if (needsReview) {
+      updateData.approvalStatus = "pending";
+      updateData.isApproved = false;
+    }
+
+    await db.collection("properties").updateOne(ownerFilter, {
+      $set: updateData,
+      ...(needsReview ? { $unset: { liveAt: "" } } : {}),
+    });
+
+    // no price-drop alerts for a listing that has just gone back to review
+    if (Number.isFinite(newPrice) && !needsReview) {
+      notifyPriceDrop(db, { ...existing, ...updateData }, Number(existing.price) || 0, newPrice);
+    }
+    if (needsReview) {
+      // score it now so the moderation queue doesn't have to
+      getListingRisk(db, { ...existing, ...updateData }, true).catch((e: any) =>
+        console.warn("Risk assessment failed:", id, e?.message || e),
+      );
+    }
+
+    res.json({
+      success: true,
+      data: { _id: id, approvalStatus: updateData.approvalStatus || existing.approvalStatus },
+      message: needsReview ? "Property updated and sent for review" : "Property updated",
+    });
+  } catch (error: any) {
+    console.error("Error updating seller property:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to update property" });
+  }
+};
+
 // Resubmit a rejected property for review
 export const resubmitSellerProperty: RequestHandler = async (req, res) => {
   try {
@@ -1428,3 +1676,56 @@ export const resubmitSellerProperty: RequestHandler = async (req, res) => {
       .json({ success: false, error: "Failed to resubmit property" });
   }
 };
+
+// Renew an expired (or about to expire) listing; edited listings go back to review
+export const renewSellerProperty: RequestHandler = async (req, res) => {
+  try {
+    const db = getDatabase();
+    const sellerId = (req as any).userId;
+    const sellerObjId = new ObjectId(String(sellerId));
+    const { id } = req.params as { id: string };
+
+    if (!ObjectId.isValid(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid property ID" });
+    }
+
+    const property = await db.collection("properties").findOne({
+      _id: new ObjectId(id),
+      $or: [
+        { ownerId: String(sellerId) },
+        { ownerId: sellerObjId },
+        { userId: sellerObjId },
+        { userId: String(sellerId) },
+        { sellerId: sellerObjId },
+        { sellerId: String(sellerId) },
+      ],
+    });
+    if (!property) {
+      return res.status(404).json({
+        success: false,
+        error: "Property not found or not owned by user",
+      });
+    }
+
+    const renewal = await renewListing(db, property);
+
+    const response: ApiResponse<typeof renewal> = {
+      success: true,
+      data: renewal,
+      message: renewal.reviewRequired
+        ? "Listing changed since it was approved, so it has been sent for review"
+        : "Listing renewed",
+    };
+    res.json(response);
+  } catch (error: any) {
+    if (error instanceof RenewError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error("Error renewing seller property:", error);
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to renew property" });
+  }
+};
@@ -0,0 +1,153 @@
+import { RequestHandler } from "express";
+import { ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import {
+  SESSIONS_COLLECTION,
+  SessionError,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeUserSessions,
+  rotateRefreshToken,
+} from "../utils/authSessions";
+
+const describeDevice = (ua: string | null) => {
+  if (!ua) return "Unknown device";
+  const browser =
+    /Edg\//.test(ua) ? "Edge"
+    : /OPR\//.test(ua) ? "Opera"
+    : /Chrome\//.test(ua) ? "Chrome"
+    : /Firefox\//.test(ua) ? "Firefox"
+    : /Safari\//.test(ua) ? "Safari"
+    : /okhttp|Dart|Expo/i.test(ua) ? "Mobile app"
+    : "Browser";
+  const os =
+    /Android/.test(ua) ? "Android"
+    : /iPhone|iPad|iOS/.test(ua) ? "iOS"
+    : /Windows/.test(ua) ? "Windows"
+    : /Mac OS X|Macintosh/.test(ua) ? "macOS"
+    : /Linux/.test(ua) ? "Linux"
+    : "";
+  return os ? `${browser} on ${os}` : browser;
+};
+
+/**
+ * POST /api/auth/refresh { refreshToken }
+ * Public: the access token may already be expired. Returns a new access token
+ * and a new refresh token; the old refresh token stops working.
+ */
+export const refreshSession: RequestHandler = async (req, res) => {
+  const refreshToken = String(req.body?.refreshToken || "");
+  if (!refreshToken) {
+    return res.status(400).json({ success: false, error: "refreshToken is required" });
+  }
+
+  try {
+    const session = await rotateRefreshToken(req, refreshToken);
+    const response: ApiResponse<typeof session> = { success: true, data: session };
+    res.json({ ...response, token: session.token, refreshToken: session.refreshToken });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(401).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error("Error refreshing session:", error);
+    res.status(500).json({ success: false, error: "Failed to refresh session" });
+  }
+};
+
+/**
+ * POST /api/auth/logout { refreshToken }
+ * Public like /refresh: revokes the session the refresh token belongs to.
+ */
+export const logoutSession: RequestHandler = async (req, res) => {
+  try {
+    const refreshToken = String(req.body?.refreshToken || "");
+    if (refreshToken) await revokeSessionByRefreshToken(refreshToken);
+    res.json({ success: true, data: { message: "Logged out" } });
+  } catch (error) {
+    console.error("Error logging out:", error);
+    res.status(500).json({ success: false, error: "Failed to log out" });
+  }
+};
+
+/** GET /api/auth/sessions — the caller's active devices, current one first. */
+export const getMySessions: RequestHandler = async (req, res) => {
+  try {
+    const { userId, sessionId } = req as any;
+    if (!ObjectId.isValid(String(userId))) {
+      return res.status(400).json({ success: false, error: "Invalid user ID" });
+    }
+
+    const sessions = await getDatabase()
+      .collection(SESSIONS_COLLECTION)
+      .find(
+        { userId: new ObjectId(String(userId)), revokedAt: null, expiresAt: { $gt: new Date() } },
+        { projection: { userAgent: 1, ip: 1, createdAt: 1, lastUsedAt: 1, expiresAt: 1 } },
+      )
+      .sort({ lastUsedAt: -1 })
+      .toArray();
+
+    const data = sessions
+      .map((s: any) => ({
+        id: s._id.toString(),
+        device: describeDevice(s.userAgent),
+        userAgent: s.userAgent,
+        ip: s.ip,
+        createdAt: s.createdAt,
+        lastUsedAt: s.lastUsedAt,
+        expiresAt: s.expiresAt,
+        current: s._id.toString() === sessionId,
+      }))
+      .sort((a, b) => Number(b.current) - Number(a.current));
+
+    const response: ApiResponse<{ sessions: typeof data }> = {
+      success: true,
+      data: { sessions: data },
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch sessions" });
+  }
+};
+
+/** DELETE /api/auth/sessions/:sessionId — sign one device out. */
+export const revokeMySession: RequestHandler = async (req, res) => {
+  try {
+    const { userId } = req as any;
+    const { sessionId } = req.params;
+    if (!ObjectId.isValid(sessionId)) {
+      return res.status(400).json({ success: false, error: "Invalid session ID" });
+    }
+
+    const revoked = await revokeSession(sessionId, "user_revoked", String(userId));
+    if (!revoked) {
+      return res.status(404).json({ success: false, error: "Session not found" });
+    }
+
+    res.json({ success: true, data: { message: "Session revoked" } });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    res.status(500).json({ success: false, error: "Failed to revoke session" });
+  }
+};
+
+/** DELETE /api/auth/sessions — sign out every other device. */
+export const revokeOtherSessions: RequestHandler = async (req, res) => {
+  try {
+    const { userId, sessionId } = req as any;
+    if (!sessionId) {
+      // legacy tokens carry no session id, so "others" can't be told apart
+      return res.status(400).json({
+        success: false,
+        error: "Sign in again to manage other sessions",
+      });
+    }
+
+    const revoked = await revokeUserSessions(String(userId), "user_revoked_others", sessionId);
+    res.json({ success: true, data: { revoked } });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    res.status(500).json({ success: false, error: "Failed to revoke sessions" });
+  }
+};
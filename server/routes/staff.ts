@@ -3,6 +3,14 @@ import { getDatabase } from "../db/mongodb";
 import { ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
 import bcrypt from "bcrypt";
+import {
+  PERMISSION_GROUPS,
+  ROLE_PERMISSIONS,
+  permissionAllows,
+} from "@shared/permissions";
+import { getRequestPermissions } from "../middleware/permissions";
+import { recordAudit } from "../utils/auditLog";
+import { revokeUserSessions } from "../utils/authSessions";
 
 interface StaffMember {
   _id?: ObjectId;
@@ -26,58 +34,7 @@ interface StaffMember {
   createdBy: string;
 }
 
-const rolePermissions = {
-  super_admin: ["*"], // All permissions
-  content_manager: [
-    "content.view",
-    "content.create",
-    "content.edit",
-    "content.delete",
-    "content.publish",
-    "categories.view",
-    "categories.edit",
-    "faq.view",
-    "faq.edit",
-    "analytics.view",
-  ],
-  sales_manager: [
-    "properties.view",
-    "properties.edit",
-    "properties.approve",
-    "properties.featured",
-    "users.view",
-    "analytics.view",
-    "packages.view",
-    "transactions.view",
-    "reports.view",
-  ],
-  support_executive: [
-    "users.view",
-    "users.support",
-    "support.tickets",
-    "support.resolve",
-    "chat.view",
-    "chat.manage",
-    "faq.view",
-    "notifications.send",
-  ],
-  property_moderator: [
-    "properties.view",
-    "properties.edit",
-    "properties.approve",
-    "users.view",
-    "categories.view",
-    "analytics.view",
-  ],
-  admin: [
-    "properties.view",
-    "properties.edit",
-    "users.view",
-    "categories.view",
-    "analytics.view",
-  ],
-  custom_role: [], // Will be filled with custom permissions
-};
+const rolePermissions = ROLE_PERMISSIONS as Record<string, string[]>;
 
 // Get all staff members
 export const getAllStaff: RequestHandler = async (req, res) => {
@@ -220,6 +177,15 @@ export const createStaff: RequestHandler = async (req, res) => {
     // Remove temporary password from response for security
     delete newStaff.loginCredentials.tempPassword;
 
+    await recordAudit(req, {
+      action: "staff.create",
+      targetType: "staff",
+      targetId: result.insertedId,
+      targetLabel: email,
+      before: null,
+      after: { name, email, phone, role, permissions, status },
+    });
+
     const response: ApiResponse<{
       _id: string;
       loginCredentials: {
@@ -346,6 +312,15 @@ export const updateStaff: RequestHandler = async (req, res) => {
 
     console.log("✅ Staff member updated successfully:", staffId);
 
+    await recordAudit(req, {
+      action: "staff.update",
+      targetType: "staff",
+      targetId: staffId,
+      targetLabel: existingStaff.email,
+      before: existingStaff,
+      after: updateData,
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Staff member updated successfully" },
@@ -374,17 +349,30 @@ export const deleteStaff: RequestHandler = async (req, res) => {
       });
     }
 
-    const result = await db
+    const deleted = await db
       .collection("users")
-      .deleteOne({ _id: new ObjectId(staffId) });
+      .findOneAndDelete(
+        { _id: new ObjectId(staffId) },
+        { projection: { name: 1, email: 1, role: 1, status: 1 } },
+      );
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return res.status(404).json({
         success: false,
         error: "Staff member not found",
       });
     }
 
+    await revokeUserSessions(staffId, "account_deleted");
+
+    await recordAudit(req, {
+      action: "staff.delete",
+      targetType: "staff",
+      targetId: staffId,
+      targetLabel: deleted.email,
+      before: deleted,
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Staff member deleted successfully" },
@@ -421,7 +409,7 @@ export const updateStaffStatus: RequestHandler = async (req, res) => {
       });
     }
 
-    const result = await db.collection("users").updateOne(
+    const previous = await db.collection("users").findOneAndUpdate(
       { _id: new ObjectId(staffId) },
       {
         $set: {
@@ -429,15 +417,28 @@ export const updateStaffStatus: RequestHandler = async (req, res) => {
           updatedAt: new Date(),
         },
       },
+      { returnDocument: "before", projection: { email: 1, status: 1 } },
     );
 
-    if (result.matchedCount === 0) {
+    if (!previous) {
       return res.status(404).json({
         success: false,
         error: "Staff member not found",
       });
     }
 
+    // signed-in devices of a deactivated staff member are logged out
+    if (status !== "active") await revokeUserSessions(staffId, `account_${status}`);
+
+    await recordAudit(req, {
+      action: "staff.status",
+      targetType: "staff",
+      targetId: staffId,
+      targetLabel: previous.email,
+      before: { status: previous.status },
+      after: { status },
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Staff status updated successfully" },
@@ -476,7 +477,7 @@ export const updateStaffPassword: RequestHandler = async (req, res) => {
 
     const hashedPassword = await bcrypt.hash(newPassword, 10);
 
-    const result = await db.collection("users").updateOne(
+    const previous = await db.collection("users").findOneAndUpdate(
       { _id: new ObjectId(staffId) },
       {
         $set: {
@@ -484,15 +485,25 @@ export const updateStaffPassword: RequestHandler = async (req, res) => {
           updatedAt: new Date(),
         },
       },
+      { projection: { email: 1 } },
     );
 
-    if (result.matchedCount === 0) {
+    if (!previous) {
       return res.status(404).json({
         success: false,
         error: "Staff member not found",
       });
     }
 
+    await revokeUserSessions(staffId, "password_reset");
+
+    await recordAudit(req, {
+      action: "staff.password_reset",
+      targetType: "staff",
+      targetId: staffId,
+      targetLabel: previous.email,
+    });
+
     const response: ApiResponse<{ message: string }> = {
       success: true,
       data: { message: "Password updated successfully" },
@@ -568,231 +579,7 @@ export const getRolesAndPermissions: RequestHandler = async (req, res) => {
 // Get available permissions grouped by category
 export const getAvailablePermissions: RequestHandler = async (req, res) => {
   try {
-    const availablePermissions = {
-      "User Management": [
-        {
-          key: "users.view",
-          label: "View Users",
-          description: "View user profiles and information",
-        },
-        {
-          key: "users.edit",
-          label: "Edit Users",
-          description: "Edit user profiles and settings",
-        },
-        {
-          key: "users.delete",
-          label: "Delete Users",
-          description: "Delete user accounts",
-        },
-        {
-          key: "users.support",
-          label: "User Support",
-          description: "Handle user support queries",
-        },
-        {
-          key: "users.export",
-          label: "Export Users",
-          description: "Export user data",
-        },
-      ],
-      "Property Management": [
-        {
-          key: "properties.view",
-          label: "View Properties",
-          description: "View property listings",
-        },
-        {
-          key: "properties.edit",
-          label: "Edit Properties",
-          description: "Edit property information",
-        },
-        {
-          key: "properties.delete",
-          label: "Delete Properties",
-          description: "Delete property listings",
-        },
-        {
-          key: "properties.approve",
-          label: "Approve Properties",
-          description: "Approve/reject property listings",
-        },
-        {
-          key: "properties.featured",
-          label: "Feature Properties",
-          description: "Mark properties as featured",
-        },
-        {
-          key: "properties.export",
-          label: "Export Properties",
-          description: "Export property data",
-        },
-      ],
-      "Content Management": [
-        {
-          key: "content.view",
-          label: "View Content",
-          description: "View pages and blog posts",
-        },
-        {
-          key: "content.create",
-          label: "Create Content",
-          description: "Create pages and blog posts",
-        },
-        {
-          key: "content.edit",
-          label: "Edit Content",
-          description: "Edit pages and blog posts",
-        },
-        {
-          key: "content.delete",
-          label: "Delete Content",
-          description: "Delete pages and blog posts",
-        },
-        {
-          key: "content.publish",
-          label: "Publish Content",
-          description: "Publish/unpublish content",
-        },
-      ],
-      "Category Management": [
-        {
-          key: "categories.view",
-          label: "View Categories",
-          description: "View property categories",
-        },
-        {
-          key: "categories.edit",
-          label: "Edit Categories",
-          description: "Edit property categories",
-        },
-        {
-          key: "categories.create",
-          label: "Create Categories",
-          description: "Create new categories",
-        },
-        {
-          key: "categories.delete",
-          label: "Delete Categories",
-          description: "Delete categories",
-        },
-      ],
-      "Payment & Packages": [
-        {
-          key: "packages.view",
-          label: "View Packages",
-          description: "View advertisement packages",
-        },
-        {
-          key: "packages.edit",
-          label: "Edit Packages",
-          description: "Edit advertisement packages",
-        },
-        {
-          key: "transactions.view",
-          label: "View Transactions",
-          description: "View payment transactions",
-        },
-        {
-          key: "transactions.manage",
-          label: "Manage Transactions",
-          description: "Approve/reject payments",
-        },
-        {
-          key: "payment.settings",
-          label: "Payment Settings",
-          description: "Configure payment gateways",
-        },
-      ],
-      "Analytics & Reports": [
-        {
-          key: "analytics.view",
-          label: "View Analytics",
-          description: "View dashboard analytics",
-        },
-        {
-          key: "analytics.export",
-          label: "Export Analytics",
-          description: "Export analytics data",
-        },
-        {
-          key: "reports.view",
-          label: "View Reports",
-          description: "View system reports",
-        },
-        {
-          key: "reports.generate",
-          label: "Generate Reports",
-          description: "Generate custom reports",
-        },
-      ],
-      "Chat & Communication": [
-        {
-          key: "chat.view",
-          label: "View Chats",
-          description: "View user conversations",
-        },
-        {
-          key: "chat.manage",
-          label: "Manage Chats",
-          description: "Reply to user conversations",
-        },
-        {
-          key: "notifications.send",
-          label: "Send Notifications",
-          description: "Send push notifications",
-        },
-        {
-          key: "email.send",
-          label: "Send Emails",
-          description: "Send bulk emails",
-        },
-      ],
-      "System Settings": [
-        {
-          key: "settings.view",
-          label: "View Settings",
-          description: "View system settings",
-        },
-        {
-          key: "settings.edit",
-          label: "Edit Settings",
-          description: "Modify system settings",
-        },
-        {
-          key: "staff.manage",
-          label: "Manage Staff",
-          description: "Manage staff members and roles",
-        },
-        {
-          key: "system.backup",
-          label: "System Backup",
-          description: "Create system backups",
-        },
-      ],
-      "FAQ & Support": [
-        {
-          key: "faq.view",
-          label: "View FAQs",
-          description: "View FAQ entries",
-        },
-        {
-          key: "faq.edit",
-          label: "Edit FAQs",
-          description: "Edit FAQ entries",
-        },
-        {
-          key: "support.tickets",
-          label: "Support Tickets",
-          description: "Handle support tickets",
-        },
-        {
-          key: "support.resolve",
-          label: "Resolve Issues",
-          description: "Resolve user issues",
-        },
-      ],
-    };
+    const availablePermissions = PERMISSION_GROUPS;
 
     const response: ApiResponse<any> = {
       success: true,
@@ -811,23 +598,37 @@ export const getAvailablePermissions: RequestHandler = async (req, res) => {
 
 // Check user permissions middleware
 export const checkPermission = (permission: string) => {
-  return (req: any, res: any, next: any) => {
-    const userPermissions = req.userPermissions || [];
-    const userRole = req.userRole;
-
-    // Super admin has all permissions
-    if (userRole === "super_admin" || userPermissions.includes("*")) {
-      return next();
-    }
+  return async (req: any, res: any, next: any) => {
+    const userPermissions = await getRequestPermissions(req);
 
-    // Check if user has the specific permission
-    if (userPermissions.includes(permission)) {
+    if (permissionAllows(userPermissions, permission)) {
       return next();
     }
 
     return res.status(403).json({
       success: false,
-      error: "Insufficient permissions",
+      error: `Permission required: ${permission}`,
+      requiredPermission: permission,
     });
   };
 };
+
+// Effective permissions of the signed-in admin/staff user (drives the staff menu)
+export const getMyPermissions: RequestHandler = async (req, res) => {
+  try {
+    const permissions = await getRequestPermissions(req);
+
+    const response: ApiResponse<{ role: string | null; permissions: string[] }> = {
+      success: true,
+      data: { role: (req as any).role || null, permissions },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching own permissions:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch permissions",
+    });
+  }
+};
@@ -2,6 +2,8 @@ import { RequestHandler } from "express";
 import { getDatabase } from "../db/mongodb";
 import { ApiResponse } from "@shared/types";
 import { ObjectId } from "mongodb";
+import { PackageEntitlements, resolveEntitlements } from "@shared/entitlements";
+import { initialUsage } from "../utils/entitlements";
 
 export interface UserPackage {
   _id?: string;
@@ -17,9 +19,13 @@ export interface UserPackage {
   endDate: Date;
   status: "active" | "expired" | "cancelled" | "pending";
   autoRenewal: boolean;
+  entitlements?: PackageEntitlements;
   featuresUsed: {
     listings: number;
     maxListings: number;
+    featuredSlots?: number;
+    boosts?: number;
+    contactReveals?: number;
     views: number;
     inquiries: number;
   };
@@ -138,9 +144,10 @@ export const createUserPackage: RequestHandler = async (req, res) => {
       });
     }
 
+    const entitlements = resolveEntitlements(package_);
     const startDate = new Date();
     const endDate = new Date();
-    endDate.setDate(startDate.getDate() + package_.duration);
+    endDate.setDate(startDate.getDate() + entitlements.durationDays);
 
     const userPackage: Omit<UserPackage, "_id"> = {
       userId: user._id,
@@ -150,17 +157,13 @@ export const createUserPackage: RequestHandler = async (req, res) => {
       packageName: package_.name,
       packageType: package_.type,
       price: package_.price,
-      duration: package_.duration,
+      duration: entitlements.durationDays,
       startDate,
       endDate,
       status: "active",
       autoRenewal: false,
-      featuresUsed: {
-        listings: 0,
-        maxListings: package_.maxListings || 999,
-        views: 0,
-        inquiries: 0,
-      },
+      entitlements,
+      featuresUsed: initialUsage(entitlements),
       paymentStatus: package_.price === 0 ? "paid" : "pending",
       createdAt: new Date(),
       updatedAt: new Date(),
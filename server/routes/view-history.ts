@@ -0,0 +1,139 @@
+import { RequestHandler } from "express";
+import { getDatabase } from "../db/mongodb";
+import { ApiResponse } from "@shared/types";
+import { ViewHistorySettings, ViewingSession } from "@shared/viewHistory";
+import {
+  clearViewHistory,
+  isHistoryPaused,
+  isVisitorId,
+  mergeAnonymousViews,
+  recentViews,
+  recordHeartbeat,
+  setHistoryPaused,
+  startView,
+  viewerOf,
+  viewingSessions,
+} from "../utils/viewHistory";
+
+const sendViewError = (res: any, error: unknown, fallback: string) => {
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
+
+/** POST /api/views/start — open a view of a property page; signed-in or anonymous. */
+export const startPropertyView: RequestHandler = async (req, res) => {
+  try {
+    const body = req.body || {};
+    const viewer = viewerOf((req as any).userId, body.visitorId);
+    if (!viewer) {
+      return res.status(400).json({ success: false, error: "visitorId is required when signed out" });
+    }
+    const viewId = await startView(getDatabase(), viewer, body);
+    const response: ApiResponse<{ viewId: string | null }> = { success: true, data: { viewId } };
+    res.json(response);
+  } catch (error) {
+    sendViewError(res, error, "Failed to start view");
+  }
+};
+
+/**
+ * POST /api/views/heartbeat — `{ viewId, resume? }` while the page stays
+ * visible. The unguessable viewId is the only credential, so this also works
+ * from sendBeacon when the tab is closing.
+ */
+export const viewHeartbeat: RequestHandler = async (req, res) => {
+  try {
+    const { viewId, resume } = req.body || {};
+    const seconds = await recordHeartbeat(getDatabase(), String(viewId || ""), Boolean(resume));
+    res.json({ success: true, data: { seconds } });
+  } catch (error) {
+    sendViewError(res, error, "Failed to record heartbeat");
+  }
+};
+
+/** GET /api/user/recent-views */
+export const getRecentViews: RequestHandler = async (req, res) => {
+  try {
+    const response: ApiResponse<any[]> = {
+      success: true,
+      data: await recentViews(getDatabase(), String((req as any).userId)),
+    };
+    res.json(response);
+  } catch (error) {
+    sendViewError(res, error, "Failed to fetch recently viewed properties");
+  }
+};
+
+/** GET /api/user/viewing-sessions */
+export const getViewingSessions: RequestHandler = async (req, res) => {
+  try {
+    const response: ApiResponse<ViewingSession[]> = {
+      success: true,
+      data: await viewingSessions(getDatabase(), String((req as any).userId)),
+    };
+    res.json(response);
+  } catch (error) {
+    sendViewError(res, error, "Failed to fetch viewing sessions");
+  }
+};
+
+/** DELETE /api/user/recent-views/:propertyId */
+export const removeRecentView: RequestHandler = async (req, res) => {
+  try {
+    const result = await clearViewHistory(getDatabase(), String((req as any).userId), req.params.propertyId);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    sendViewError(res, error, "Failed to remove property from history");
+  }
+};
+
+/** DELETE /api/user/recent-views — clears the whole history, sessions included. */
+export const clearRecentViews: RequestHandler = async (req, res) => {
+  try {
+    const result = await clearViewHistory(getDatabase(), String((req as any).userId));
+    res.json({ success: true, data: result });
+  } catch (error) {
+    sendViewError(res, error, "Failed to clear viewing history");
+  }
+};
+
+/** POST /api/user/recent-views/merge — `{ visitorId }`, called right after sign-in. */
+export const mergeRecentViews: RequestHandler = async (req, res) => {
+  try {
+    const { visitorId } = req.body || {};
+    if (!isVisitorId(visitorId)) {
+      return res.status(400).json({ success: false, error: "Invalid visitorId" });
+    }
+    const result = await mergeAnonymousViews(getDatabase(), String((req as any).userId), visitorId);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    sendViewError(res, error, "Failed to merge viewing history");
+  }
+};
+
+/** GET /api/user/view-history/settings */
+export const getViewHistorySettings: RequestHandler = async (req, res) => {
+  try {
+    const response: ApiResponse<ViewHistorySettings> = {
+      success: true,
+      data: { paused: await isHistoryPaused(getDatabase(), String((req as any).userId)) },
+    };
+    res.json(response);
+  } catch (error) {
+    sendViewError(res, error, "Failed to fetch history settings");
+  }
+};
+
+/** PUT /api/user/view-history/settings — `{ paused }`; pausing stops new views being recorded. */
+export const updateViewHistorySettings: RequestHandler = async (req, res) => {
+  try {
+    if (typeof req.body?.paused !== "boolean") {
+      return res.status(400).json({ success: false, error: "paused must be true or false" });
+    }
+    await setHistoryPaused(getDatabase(), String((req as any).userId), req.body.paused);
+    const response: ApiResponse<ViewHistorySettings> = { success: true, data: { paused: req.body.paused } };
+    res.json(response);
+  } catch (error) {
+    sendViewError(res, error, "Failed to update history settings");
+  }
+};
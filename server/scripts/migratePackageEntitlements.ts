@@ -0,0 +1,31 @@
+#!/usr/bin/env tsx
+/**
+ * Add structured `entitlements` to packages and purchases created before
+ * they existed. The server also runs this on start; this script is for
+ * running it by hand and seeing what changed.
+ *
+ * Run with: tsx server/scripts/migratePackageEntitlements.ts
+ */
+
+import { connectToDatabase, closeDatabaseConnection } from "../db/mongodb";
+import { migratePackageEntitlements } from "../utils/entitlements";
+
+async function main() {
+  console.log("🔧 Migrating package entitlements...");
+
+  try {
+    const { db } = await connectToDatabase();
+    const stats = await migratePackageEntitlements(db);
+    console.log(`✅ Packages updated: ${stats.packages}`);
+    console.log(`✅ Purchases updated: ${stats.userPackages}`);
+  } catch (error) {
+    console.error("❌ Error migrating package entitlements:", error);
+    process.exit(1);
+  } finally {
+    await closeDatabaseConnection();
+  }
+}
+
+main().then(() => {
+  process.exit(0);
+});
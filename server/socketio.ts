@@ -1,9 +1,27 @@
 import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
-import { getDatabase } from './db/mongodb';
 import { ObjectId } from 'mongodb';
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+import { getDatabase } from './db/mongodb';
+import { JWT_SECRET, isAccessTokenRevoked } from './utils/authSessions';
+import {
+  MessagingError,
+  contactsOf,
+  findConversationFor,
+  isUserOnline,
+  markMessages,
+  markOffline,
+  markOnline,
+  participantsOf,
+  postMessage,
+  setMessagingTransport,
+} from './utils/messaging';
+import {
+  MessageReceipt,
+  PresenceEvent,
+  SendMessagePayload,
+  TYPING_TIMEOUT_SECONDS,
+  TypingEvent,
+} from '@shared/messaging';
 
 interface AuthenticatedSocket extends Socket {
   data: {
@@ -12,6 +30,22 @@ interface AuthenticatedSocket extends Socket {
   };
 }
 
+type Ack = (response: { success: boolean; data?: any; error?: string; online?: string[] }) => void;
+
+const conversationRoom = (id: string) => `conversation:${id}`;
+const userRoom = (id: string) => `user:${id}`;
+
+// Fire-and-forget database work; also covers getDatabase() throwing before Mongo is up
+const quietly = (work: () => Promise<unknown>) => {
+  Promise.resolve().then(work).catch(() => undefined);
+};
+
+/**
+ * The one real-time transport for buyer/seller chat. Storage lives in
+ * utils/messaging; this class only moves events — see shared/messaging for
+ * the event list. REST routes post through the same storage and reach
+ * sockets via setMessagingTransport.
+ */
 export class ChatSocketServer {
   private io: Server;
 
@@ -26,7 +60,8 @@ export class ChatSocketServer {
 
     this.setupSocketAuth();
     this.setupEventHandlers();
-    
+    setMessagingTransport(this);
+
     console.log('🔌 Socket.io chat server initialized');
   }
 
@@ -34,19 +69,20 @@ export class ChatSocketServer {
     this.io.use(async (socket: AuthenticatedSocket, next) => {
       try {
         const token = socket.handshake.auth.token;
-        
+
         if (!token) {
           return next(new Error('Authentication token required'));
         }
 
         const decoded: any = jwt.verify(token, JWT_SECRET);
-        socket.data.userId = decoded.userId;
+        const userId = String(decoded.userId ?? decoded.id ?? decoded._id ?? '');
+        if (!userId || (await isAccessTokenRevoked(decoded, userId))) {
+          return next(new Error('Authentication failed'));
+        }
+        socket.data.userId = userId;
         socket.data.userType = decoded.userType;
-
-        console.log(`✅ Socket authenticated: ${socket.data.userId} (${socket.data.userType})`);
         next();
       } catch (error) {
-        console.error('Socket authentication failed:', error);
         next(new Error('Authentication failed'));
       }
     });
@@ -55,63 +91,143 @@ export class ChatSocketServer {
   private setupEventHandlers() {
     this.io.on('connection', (socket: AuthenticatedSocket) => {
       const userId = socket.data.userId!;
-      
-      // Join user's personal room for notifications
-      socket.join(`user:${userId}`);
-      
-      console.log(`👤 User ${userId} connected via Socket.io`);
-
-      // Handle joining conversation rooms
-      socket.on('join-conversation', (conversationId: string) => {
-        socket.join(`conversation:${conversationId}`);
-        console.log(`👥 User ${userId} joined conversation ${conversationId}`);
+
+      // Personal room for messages on conversations not currently open
+      socket.join(userRoom(userId));
+      if (['admin', 'staff'].includes(String(socket.data.userType))) socket.join('admin');
+
+      if (markOnline(userId)) this.announcePresence(userId, { userId, online: true });
+
+      const typingTimers = new Map<string, NodeJS.Timeout>();
+
+      socket.on('conversation:join', async (conversationId: string, ack?: Ack) => {
+        try {
+          const conversation = await findConversationFor(getDatabase(), conversationId, userId);
+          socket.join(conversationRoom(conversationId));
+          const online = participantsOf(conversation).filter(
+            (id) => id !== userId && isUserOnline(id),
+          );
+          ack?.({ success: true, online });
+        } catch (error) {
+          ack?.(this.failure(error, 'Failed to join conversation'));
+        }
+      });
+
+      socket.on('conversation:leave', (conversationId: string) => {
+        socket.leave(conversationRoom(conversationId));
+      });
+
+      socket.on('message:send', async (payload: SendMessagePayload, ack?: Ack) => {
+        try {
+          const { message } = await postMessage(getDatabase(), payload?.conversationId, userId, {
+            text: payload?.text,
+            imageUrl: payload?.imageUrl,
+          });
+          this.stopTyping(socket, typingTimers, String(payload.conversationId));
+          ack?.({ success: true, data: this.serialize(message) });
+        } catch (error) {
+          ack?.(this.failure(error, 'Failed to send message'));
+        }
+      });
+
+      socket.on('message:delivered', (payload: { conversationId: string; messageIds?: string[] }) => {
+        quietly(() =>
+          markMessages(getDatabase(), payload?.conversationId, userId, 'delivered', payload?.messageIds),
+        );
+      });
+
+      socket.on('message:read', (payload: { conversationId: string }) => {
+        quietly(() => markMessages(getDatabase(), payload?.conversationId, userId, 'read'));
       });
 
-      // Handle leaving conversation rooms
-      socket.on('leave-conversation', (conversationId: string) => {
-        socket.leave(`conversation:${conversationId}`);
-        console.log(`👋 User ${userId} left conversation ${conversationId}`);
+      // Only relayed within a joined room, so participation was already checked
+      socket.on('typing', (payload: { conversationId: string; isTyping: boolean }) => {
+        const conversationId = String(payload?.conversationId || '');
+        if (!socket.rooms.has(conversationRoom(conversationId))) return;
+        if (!payload.isTyping) return this.stopTyping(socket, typingTimers, conversationId);
+
+        clearTimeout(typingTimers.get(conversationId));
+        typingTimers.set(
+          conversationId,
+          setTimeout(() => this.stopTyping(socket, typingTimers, conversationId), TYPING_TIMEOUT_SECONDS * 1000),
+        );
+        const event: TypingEvent = { conversationId, userId, isTyping: true };
+        socket.to(conversationRoom(conversationId)).emit('typing', event);
       });
 
-      // Handle disconnect
       socket.on('disconnect', () => {
-        console.log(`📱 User ${userId} disconnected`);
+        for (const conversationId of Array.from(typingTimers.keys())) {
+          this.stopTyping(socket, typingTimers, conversationId);
+        }
+        if (!markOffline(userId)) return;
+
+        const lastSeenAt = new Date();
+        this.announcePresence(userId, { userId, online: false, lastSeenAt: lastSeenAt.toISOString() });
+        if (ObjectId.isValid(userId)) {
+          quietly(() =>
+            getDatabase()
+              .collection('users')
+              .updateOne({ _id: new ObjectId(userId) }, { $set: { lastSeenAt } }),
+          );
+        }
       });
     });
   }
 
-  // Emit new message to conversation participants
-  public emitNewMessage(conversation: any, message: any) {
-    const { buyer, seller } = conversation;
-    
-    const messageData = {
-      conversation: conversation._id.toString(),
-      _id: message._id.toString(),
-      text: message.text || message.message,
-      sender: message.sender || message.senderId,
-      createdAt: message.createdAt
+  private stopTyping(socket: AuthenticatedSocket, timers: Map<string, NodeJS.Timeout>, conversationId: string) {
+    if (!timers.has(conversationId)) return;
+    clearTimeout(timers.get(conversationId));
+    timers.delete(conversationId);
+    const event: TypingEvent = { conversationId, userId: socket.data.userId!, isTyping: false };
+    socket.to(conversationRoom(conversationId)).emit('typing', event);
+  }
+
+  private announcePresence(userId: string, event: PresenceEvent) {
+    quietly(async () => {
+      const contacts = await contactsOf(getDatabase(), userId);
+      if (contacts.length > 0) this.io.to(contacts.map(userRoom)).emit('presence', event);
+    });
+  }
+
+  private failure(error: unknown, fallback: string) {
+    if (error instanceof MessagingError) return { success: false, error: error.message };
+    console.error(`${fallback}:`, error);
+    return { success: false, error: fallback };
+  }
+
+  private serialize(message: any) {
+    return {
+      ...message,
+      _id: String(message._id),
+      conversationId: String(message.conversationId),
+      text: message.text ?? message.message ?? '',
     };
+  }
 
-    // Emit to both buyer and seller rooms
-    this.io.to([`user:${buyer}`, `user:${seller}`]).emit('message:new', messageData);
-    
-    // Also emit to conversation room if anyone is actively viewing it
-    this.io.to(`conversation:${conversation._id.toString()}`).emit('message:new', messageData);
+  // New message to every participant, plus anyone (e.g. support) watching the room.
+  // One emit over all rooms, so a socket in several of them gets it once.
+  public emitNewMessage(conversation: any, message: any) {
+    const conversationId = String(conversation._id);
+    this.io
+      .to([...participantsOf(conversation).map(userRoom), conversationRoom(conversationId)])
+      .emit('message:new', this.serialize({ ...message, conversationId }));
+  }
 
-    console.log(`📨 Message emitted to users: ${buyer}, ${seller}`);
+  public emitReceipt(conversation: any, receipt: MessageReceipt) {
+    this.io
+      .to([...participantsOf(conversation).map(userRoom), conversationRoom(receipt.conversationId)])
+      .emit('message:receipt', receipt);
   }
 
   // Emit to admin users (for support inbox)
   public emitToAdmins(event: string, data: any) {
-    // Assuming admin users join an 'admin' room
     this.io.to('admin').emit(event, data);
   }
 
   // Emit to a single user by userId
   public emitToUser(userId: string, event: string, data: any) {
     try {
-      this.io.to(`user:${userId}`).emit(event, data);
-      console.log(`🔔 Emitted event ${event} to user:${userId}`);
+      this.io.to(userRoom(userId)).emit(event, data);
     } catch (e) {
       console.error('Error emitting to user room', e);
     }
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from "vitest";
+import { ObjectId } from "mongodb";
+
+vi.mock("./authSessions", () => ({ revokeUserSessions: vi.fn(async () => undefined) }));
+
+import { mergeUserAccounts } from "./accountMerge";
+
+// Just enough of the driver for mergeUserAccounts: equality filters (which
+// also match array members), $set with an `$[id]` array filter, and $unset.
+const same = (a: any, b: any) =>
+  a instanceof ObjectId || b instanceof ObjectId ? String(a) === String(b) && typeof a === typeof b : a === b;
+const matches = (doc: any, filter: Record<string, any>) =>
+  Object.entries(filter).every(([k, v]) =>
+    Array.isArray(doc[k]) ? doc[k].some((x: any) => same(x, v)) : same(doc[k], v),
+  );
+
+function fakeDb(data: Record<string, any[]>) {
+  const apply = (doc: any, update: any, options: any = {}) => {
+    for (const [path, value] of Object.entries(update.$set || {})) {
+      const positional = /^(.+)\.\$\[(\w+)\]$/.exec(path);
+      if (positional) {
+        const target = options.arrayFilters[0][positional[2]];
+        doc[positional[1]] = doc[positional[1]].map((x: any) => (same(x, target) ? value : x));
+      } else {
+        doc[path] = value;
+      }
+    }
+    for (const path of Object.keys(update.$unset || {})) delete doc[path];
+  };
+  return {
+    collection: (name: string) => {
+      const docs = (data[name] ||= []);
+      return {
+        updateOne: async (filter: any, update: any, options?: any) => {
+          const doc = docs.find((d) => matches(d, filter));
+          if (doc) apply(doc, update, options);
+        },
+        updateMany: async (filter: any, update: any, options?: any) => {
+          docs.filter((d) => matches(d, filter)).forEach((d) => apply(d, update, options));
+        },
+      };
+    },
+  } as any;
+}
+
+describe("mergeUserAccounts", () => {
+  it("moves conversations and payment records to the surviving account", async () => {
+    const primary = { _id: new ObjectId(), email: "seller@example.com" };
+    const dupe = { _id: new ObjectId(), phone: "9876543210" };
+    const other = new ObjectId().toString();
+    const data: Record<string, any[]> = {
+      users: [primary, dupe],
+      conversations: [
+        {
+          _id: new ObjectId(),
+          buyer: other,
+          seller: String(dupe._id),
+          participants: [other, String(dupe._id)],
+        },
+      ],
+      payment_ledger: [{ _id: new ObjectId(), userId: dupe._id, amount: 999 }],
+    };
+
+    await mergeUserAccounts(fakeDb(data), primary, [dupe]);
+
+    const [conversation] = data.conversations;
+    expect(conversation.seller).toBe(String(primary._id));
+    expect(conversation.buyer).toBe(other);
+    expect(conversation.participants).toEqual([other, String(primary._id)]);
+
+    const [ledger] = data.payment_ledger;
+    expect(ledger.userId).toBeInstanceOf(ObjectId);
+    expect(String(ledger.userId)).toBe(String(primary._id));
+
+    expect(data.users[1]).toMatchObject({ status: "merged", mergedInto: primary._id });
+    expect(data.users[1].phone).toBeUndefined();
+  });
+});
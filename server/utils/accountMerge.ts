@@ -0,0 +1,237 @@
+// server/utils/accountMerge.ts
+// Folds duplicate user accounts into one. Used by phone OTP login when the
+// same number already sits on an account created via email or Google (often
+// in a different spelling), so a seller keeps one login, one set of listings
+// and one package history.
+import { Db, ObjectId } from "mongodb";
+import { revokeUserSessions } from "./authSessions";
+import { sendPushToUser } from "./push";
+
+// Every field that points at a user. Each is repointed whether the id was
+// stored as a string or an ObjectId, keeping the stored type; `array` fields
+// hold a list of ids and have each matching entry replaced.
+export const USER_REFERENCES: { collection: string; field: string; array?: boolean }[] = [
+  // listings
+  { collection: "properties", field: "ownerId" },
+  { collection: "properties", field: "sellerId" },
+  { collection: "properties", field: "userId" },
+  { collection: "property_boosts", field: "userId" },
+  { collection: "seller_verifications", field: "userId" },
+  { collection: "favorites", field: "userId" },
+  { collection: "saved_searches", field: "userId" },
+  { collection: "user_property_views", field: "userId" },
+  { collection: "view_sessions", field: "userId" },
+  { collection: "reviews", field: "userId" },
+
+  // payments
+  { collection: "transactions", field: "userId" },
+  { collection: "user_packages", field: "userId" },
+  { collection: "payments", field: "userId" },
+  { collection: "payments", field: "sellerId" },
+  { collection: "bank_transfers", field: "userId" },
+  { collection: "payment_ledger", field: "userId" },
+  { collection: "payment_refunds", field: "userId" },
+  { collection: "invoices", field: "userId" },
+
+  // messaging, enquiries and notifications
+  { collection: "conversations", field: "buyer" },
+  { collection: "conversations", field: "seller" },
+  { collection: "conversations", field: "participants", array: true },
+  { collection: "messages", field: "senderId" },
+  { collection: "messages", field: "sender" },
+  { collection: "enquiries", field: "userId" },
+  { collection: "enquiries", field: "buyerId" },
+  { collection: "property_inquiries", field: "buyerId" },
+  { collection: "property_inquiries", field: "sellerId" },
+  { collection: "notifications", field: "userId" },
+  { collection: "notifications", field: "sellerId" },
+  { collection: "user_notifications", field: "userId" },
+  { collection: "tickets", field: "userId" },
+
+  // agent CRM
+  { collection: "agent_leads", field: "agentId" },
+  { collection: "agent_leads", field: "userId" },
+  { collection: "agent_clients", field: "agentId" },
+  { collection: "agent_clients", field: "userId" },
+  { collection: "agent_deals", field: "agentId" },
+];
+
+// Profile fields copied onto the surviving account when it lacks them
+const FILL_FIELDS = [
+  "email",
+  "emailVerified",
+  "name",
+  "firebaseUid",
+  "googleId",
+  "profileImage",
+  "avatar",
+  "address",
+  "city",
+];
+
+/** Accounts allowed to absorb or be absorbed (never staff/admin). */
+export const isMergeableAccount = (user: any) =>
+  !["admin", "staff"].includes(String(user?.userType || "").toLowerCase());
+
+/**
+ * Whether an account found holding a just-verified number may be merged.
+ * The phone field on sign-up forms is never checked, so a match only counts
+ * when that account proved the number itself or is visibly the caller's own
+ * (same email or Firebase identity); anyone can type a stranger's number.
+ */
+export function isTrustedPhoneMatch(user: any, signedIn?: any) {
+  if (user?.phoneVerified === true) return true;
+  if (!signedIn) return false;
+  return Boolean(
+    (signedIn.email && user.email && String(user.email).toLowerCase() === String(signedIn.email).toLowerCase()) ||
+      (signedIn.firebaseUid && user.firebaseUid === signedIn.firebaseUid),
+  );
+}
+
+/**
+ * Someone proved they own a number that other accounts only typed in. Those
+ * accounts may well be the same person (every account made before phone
+ * verification existed), so nothing is taken away: each owner is asked
+ * whether to give the number up, and keeps it until they answer.
+ */
+export async function requestPhoneRelease(db: Db, users: any[], phone: string, requestedBy: ObjectId) {
+  const pending = users.filter((u) => u.phoneVerified !== true);
+  if (pending.length === 0) return;
+  const now = new Date();
+  await db.collection("users").updateMany(
+    { _id: { $in: pending.map((u) => u._id) }, phoneVerified: { $ne: true } },
+    { $set: { phoneReleaseRequest: { phone, requestedBy, requestedAt: now } } },
+  );
+
+  const title = "Is this your phone number?";
+  const message = `Another account has verified ${phone}, which is also on your profile. If it isn't yours, remove it from your account.`;
+  for (const user of pending) {
+    await db.collection("user_notifications").insertOne({
+      userId: user._id,
+      title,
+      message,
+      type: "phone_release_request",
+      isRead: false,
+      createdAt: now,
+    });
+    await sendPushToUser(db, user._id, {
+      title,
+      body: message,
+      link: "/user-dashboard",
+      data: { type: "phone_release_request" },
+    });
+  }
+}
+
+/**
+ * The owner's answer to requestPhoneRelease. Releasing takes the number off
+ * their account; keeping it just clears the request. Returns false when
+ * there was nothing to answer.
+ */
+export async function answerPhoneRelease(db: Db, userId: ObjectId, release: boolean) {
+  const user = await db.collection("users").findOne({ _id: userId });
+  const request = user?.phoneReleaseRequest;
+  if (!request) return false;
+
+  const now = new Date();
+  const stillOnAccount = release && user.phone === request.phone && user.phoneVerified !== true;
+  await db.collection("users").updateOne(
+    { _id: userId },
+    stillOnAccount
+      ? {
+          $set: { releasedPhone: request.phone, phoneReleasedAt: now, updatedAt: now },
+          $unset: { phone: "", phoneReleaseRequest: "" },
+        }
+      : { $unset: { phoneReleaseRequest: "" } },
+  );
+  await db
+    .collection("user_notifications")
+    .updateMany({ userId, type: "phone_release_request" }, { $set: { isRead: true } });
+  if (stillOnAccount) console.log(`📵 User ${userId} released an unverified phone number`);
+  return true;
+}
+
+/**
+ * Choose which of several accounts for one person survives: an account that
+ * has an email (an earlier email/Google sign-up) wins, then the oldest.
+ */
+export function pickPrimaryAccount(users: any[]) {
+  return [...users].sort((a, b) => {
+    const byEmail = Number(Boolean(b.email)) - Number(Boolean(a.email));
+    if (byEmail) return byEmail;
+    return new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime();
+  })[0];
+}
+
+/** Merge `duplicates` into `primary`; duplicates are kept as status "merged". */
+export async function mergeUserAccounts(db: Db, primary: any, duplicates: any[]) {
+  const dupes = duplicates.filter((d) => String(d._id) !== String(primary._id));
+  if (dupes.length === 0) return primary;
+
+  const users = db.collection("users");
+  const primaryId = new ObjectId(String(primary._id));
+  const fill: Record<string, any> = {};
+  const now = new Date();
+
+  for (const dupe of dupes) {
+    for (const field of FILL_FIELDS) {
+      if (!primary[field] && !fill[field] && dupe[field]) fill[field] = dupe[field];
+    }
+
+    // retire the duplicate first: it gives up email/phone so unique indexes
+    // don't trip when they move to the primary
+    await users.updateOne(
+      { _id: dupe._id },
+      {
+        $set: {
+          status: "merged",
+          mergedInto: primaryId,
+          mergedAt: now,
+          mergedEmail: dupe.email || null,
+          mergedPhone: dupe.phone || null,
+          updatedAt: now,
+        },
+        $unset: { email: "", phone: "", firebaseUid: "" },
+      },
+    );
+    await revokeUserSessions(dupe._id, "account_merged");
+
+    for (const ref of USER_REFERENCES) {
+      try {
+        const col = db.collection(ref.collection);
+        for (const [from, to] of [
+          [String(dupe._id), String(primaryId)],
+          [dupe._id, primaryId],
+        ] as const) {
+          if (ref.array) {
+            await col.updateMany(
+              { [ref.field]: from },
+              { $set: { [`${ref.field}.$[id]`]: to } },
+              { arrayFilters: [{ id: from }] },
+            );
+          } else {
+            await col.updateMany({ [ref.field]: from }, { $set: { [ref.field]: to } });
+          }
+        }
+      } catch (e: any) {
+        // e.g. a favourite both accounts had; the rest still moves over
+        console.warn(`Account merge: ${ref.collection}.${ref.field} partially moved:`, e?.message || e);
+      }
+    }
+  }
+
+  const fcmTokens = dupes.flatMap((d) => (Array.isArray(d.fcmTokens) ? d.fcmTokens : []));
+  await users.updateOne(
+    { _id: primaryId },
+    {
+      $set: { ...fill, updatedAt: now },
+      $push: {
+        mergedAccounts: { $each: dupes.map((d) => ({ userId: d._id, at: now })) },
+      } as any,
+      ...(fcmTokens.length ? { $addToSet: { fcmTokens: { $each: fcmTokens } } as any } : {}),
+    },
+  );
+
+  console.log(`👥 Merged ${dupes.length} account(s) into user ${primaryId}`);
+  return { ...primary, ...fill };
+}
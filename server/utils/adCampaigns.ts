@@ -0,0 +1,350 @@
+// server/utils/adCampaigns.ts
+// Booking, payment and scheduling for self-serve banner campaigns. A
+// campaign holds its slot while the advertiser pays, waits for an admin to
+// approve the creative, then becomes an active `banners` record for its
+// date window and is switched off the day after it ends.
+import { Db, ObjectId } from "mongodb";
+import {
+  AdCampaignCreative,
+  MAX_BOOKING_LEAD_DAYS,
+  MAX_CAMPAIGN_DAYS,
+  SlotDayAvailability,
+  addDays,
+  campaignDays,
+  findBannerSlot,
+} from "@shared/adCampaigns";
+import { statDay } from "./adTracking";
+import { sendEmail } from "./mailer";
+
+export const AD_CAMPAIGNS_COLLECTION = "ad_campaigns";
+
+const HOLD_MS = 30 * 60 * 1000; // unpaid bookings release their slot after this
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// statuses that occupy capacity in a slot (pending_payment only while held)
+const BLOCKING_STATUSES = ["pending_payment", "pending_approval", "approved", "live"];
+
+export class CampaignError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+export function validateCampaignWindow(slot: string, startDate: string, endDate: string) {
+  const def = findBannerSlot(slot);
+  if (!def) throw new CampaignError("Unknown banner slot");
+  if (!DATE_RE.test(startDate) || !DATE_RE.test(endDate)) {
+    throw new CampaignError("Dates must be YYYY-MM-DD");
+  }
+
+  const today = statDay();
+  if (startDate < today) throw new CampaignError("Start date is in the past");
+  if (endDate < startDate) throw new CampaignError("End date is before the start date");
+  if (startDate > addDays(today, MAX_BOOKING_LEAD_DAYS)) {
+    throw new CampaignError(`Campaigns can start at most ${MAX_BOOKING_LEAD_DAYS} days ahead`);
+  }
+  const days = campaignDays(startDate, endDate);
+  if (days > MAX_CAMPAIGN_DAYS) {
+    throw new CampaignError(`Campaigns can run at most ${MAX_CAMPAIGN_DAYS} days`);
+  }
+  return { def, days };
+}
+
+/** Per-day bookings for a slot; `excludeId` leaves one campaign out. */
+export async function getSlotAvailability(
+  db: Db,
+  slot: string,
+  from: string,
+  to: string,
+  excludeId?: ObjectId,
+): Promise<SlotDayAvailability[]> {
+  const def = findBannerSlot(slot);
+  if (!def) throw new CampaignError("Unknown banner slot");
+
+  const now = new Date();
+  const overlapping = await db
+    .collection(AD_CAMPAIGNS_COLLECTION)
+    .find(
+      {
+        slot,
+        status: { $in: BLOCKING_STATUSES },
+        startDate: { $lte: to },
+        endDate: { $gte: from },
+        ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+      },
+      { projection: { startDate: 1, endDate: 1, status: 1, holdExpiresAt: 1 } },
+    )
+    .toArray();
+  const active = overlapping.filter(
+    (c: any) => c.status !== "pending_payment" || (c.holdExpiresAt && c.holdExpiresAt > now),
+  );
+
+  const days: SlotDayAvailability[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const booked = active.filter((c: any) => c.startDate <= date && c.endDate >= date).length;
+    days.push({ date, booked, capacity: def.capacity, available: booked < def.capacity });
+  }
+  return days;
+}
+
+export interface CampaignBookingInput {
+  submissionId: ObjectId;
+  userId: ObjectId;
+  slot: string;
+  startDate: string;
+  endDate: string;
+  creative: AdCampaignCreative;
+}
+
+/**
+ * Hold a slot for an unpaid campaign. The insert happens first and the
+ * capacity check second, so two advertisers racing for the last place
+ * can't both get it.
+ */
+export async function bookCampaign(db: Db, input: CampaignBookingInput) {
+  const { def, days } = validateCampaignWindow(input.slot, input.startDate, input.endDate);
+  const campaigns = db.collection(AD_CAMPAIGNS_COLLECTION);
+  const now = new Date();
+
+  const doc = {
+    submissionId: input.submissionId,
+    userId: input.userId,
+    slot: def.position,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    days,
+    pricePerDay: def.pricePerDay,
+    amount: def.pricePerDay * days,
+    creative: input.creative,
+    status: "pending_payment",
+    paymentStatus: "unpaid",
+    holdExpiresAt: new Date(now.getTime() + HOLD_MS),
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { insertedId } = await campaigns.insertOne(doc);
+
+  const availability = await getSlotAvailability(db, def.position, input.startDate, input.endDate);
+  const full = availability.filter((d) => d.booked > d.capacity);
+  if (full.length) {
+    await campaigns.deleteOne({ _id: insertedId });
+    throw new CampaignError(`Slot is fully booked on ${full.map((d) => d.date).join(", ")}`, 409);
+  }
+
+  await db
+    .collection("advertisement_submissions")
+    .updateOne({ _id: input.submissionId }, { $addToSet: { campaignIds: insertedId }, $set: { updatedAt: now } });
+
+  return { ...doc, _id: insertedId };
+}
+
+/**
+ * What a payment for `campaignId` should charge, checked against the payer.
+ * Used by the gateway "create order" endpoints.
+ */
+export async function getPayableCampaign(db: Db, campaignId: string, userId: ObjectId) {
+  if (!ObjectId.isValid(campaignId)) throw new CampaignError("Invalid campaign ID");
+  const campaign = await db.collection(AD_CAMPAIGNS_COLLECTION).findOne({ _id: new ObjectId(campaignId) });
+  if (!campaign || String(campaign.userId) !== String(userId)) {
+    throw new CampaignError("Campaign not found", 404);
+  }
+  if (campaign.paymentStatus === "paid") throw new CampaignError("Campaign is already paid");
+  if (campaign.status !== "pending_payment" || campaign.holdExpiresAt <= new Date()) {
+    throw new CampaignError("This booking has expired. Please book the dates again.", 409);
+  }
+
+  // give the advertiser the full hold window at the gateway
+  await db
+    .collection(AD_CAMPAIGNS_COLLECTION)
+    .updateOne({ _id: campaign._id }, { $set: { holdExpiresAt: new Date(Date.now() + HOLD_MS) } });
+
+  const slot = findBannerSlot(campaign.slot);
+  return {
+    campaign,
+    amount: Number(campaign.amount),
+    description: `${slot?.label || campaign.slot} banner, ${campaign.startDate} to ${campaign.endDate}`,
+  };
+}
+
+/**
+ * Called once a gateway confirms payment. Idempotent: a repeated callback
+ * for the same campaign changes nothing.
+ */
+export async function markCampaignPaid(db: Db, campaignId: unknown, tx: { _id: unknown; paymentMethod?: string }) {
+  if (!ObjectId.isValid(String(campaignId))) return null;
+  const _id = new ObjectId(String(campaignId));
+  const now = new Date();
+
+  const campaign = await db.collection(AD_CAMPAIGNS_COLLECTION).findOneAndUpdate(
+    { _id, paymentStatus: { $ne: "paid" } },
+    {
+      $set: {
+        status: "pending_approval",
+        paymentStatus: "paid",
+        paidAt: now,
+        transactionId: String(tx._id),
+        paymentMethod: tx.paymentMethod || null,
+        updatedAt: now,
+      },
+      $unset: { holdExpiresAt: "" },
+    },
+    { returnDocument: "after" },
+  );
+  if (!campaign) return null;
+
+  // the hold may have lapsed mid-checkout and the slot been resold; flag it
+  // for the reviewer rather than refuse money already taken
+  const availability = await getSlotAvailability(db, campaign.slot, campaign.startDate, campaign.endDate);
+  if (availability.some((d) => d.booked > d.capacity)) {
+    await db
+      .collection(AD_CAMPAIGNS_COLLECTION)
+      .updateOne({ _id }, { $set: { overbooked: true } });
+  }
+  return campaign;
+}
+
+async function notifyAdvertiser(db: Db, campaign: any, subject: string, html: string) {
+  try {
+    const submission = await db
+      .collection("advertisement_submissions")
+      .findOne({ _id: campaign.submissionId }, { projection: { email: 1 } });
+    if (submission?.email) await sendEmail(submission.email, subject, html);
+  } catch (e: any) {
+    console.warn("Campaign email failed:", e?.message || e);
+  }
+}
+
+export async function approveCampaign(db: Db, id: ObjectId, approvedBy: string | null) {
+  const campaign = await db.collection(AD_CAMPAIGNS_COLLECTION).findOneAndUpdate(
+    { _id: id, status: "pending_approval" },
+    { $set: { status: "approved", approvedAt: new Date(), approvedBy, updatedAt: new Date() } },
+    { returnDocument: "after" },
+  );
+  if (!campaign) throw new CampaignError("Only paid campaigns awaiting approval can be approved", 409);
+
+  // a campaign whose window has already started goes live straight away
+  await syncCampaignBanners(db, new Date());
+  await notifyAdvertiser(
+    db,
+    campaign,
+    "Your banner campaign is approved",
+    `<p>Your banner "${campaign.creative?.title}" is approved and will run from <b>${campaign.startDate}</b> to <b>${campaign.endDate}</b>.</p>`,
+  );
+  return db.collection(AD_CAMPAIGNS_COLLECTION).findOne({ _id: id });
+}
+
+export async function rejectCampaign(db: Db, id: ObjectId, reason: string) {
+  const campaign = await db.collection(AD_CAMPAIGNS_COLLECTION).findOneAndUpdate(
+    { _id: id, status: { $in: ["pending_approval", "approved"] } },
+    {
+      $set: {
+        status: "rejected",
+        rejectionReason: reason,
+        rejectedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: "after" },
+  );
+  if (!campaign) throw new CampaignError("Campaign can no longer be rejected", 409);
+
+  if (campaign.paymentStatus === "paid") {
+    await db
+      .collection(AD_CAMPAIGNS_COLLECTION)
+      .updateOne({ _id: id }, { $set: { refundDue: true } });
+  }
+  await notifyAdvertiser(
+    db,
+    campaign,
+    "Your banner campaign could not be approved",
+    `<p>Your banner "${campaign.creative?.title}" was not approved${reason ? `: ${reason}` : ""}.</p>` +
+      (campaign.paymentStatus === "paid" ? "<p>Our team will contact you about your refund.</p>" : ""),
+  );
+  return campaign;
+}
+
+/**
+ * Bring banners in line with campaign windows: approved campaigns whose
+ * window has started get a banner, finished ones lose it, and unpaid holds
+ * past their expiry release the slot.
+ */
+export async function syncCampaignBanners(db: Db, now: Date) {
+  const campaigns = db.collection(AD_CAMPAIGNS_COLLECTION);
+  const banners = db.collection("banners");
+  const today = statDay(now);
+  let activated = 0;
+  let completed = 0;
+
+  const due = await campaigns
+    .find({ status: "approved", startDate: { $lte: today }, endDate: { $gte: today } })
+    .toArray();
+  for (const c of due) {
+    // claim first so two instances don't both create a banner
+    const claimed = await campaigns.updateOne(
+      { _id: c._id, status: "approved" },
+      { $set: { status: "live", liveAt: now, updatedAt: now } },
+    );
+    if (!claimed.modifiedCount) continue;
+
+    try {
+      const { insertedId } = await banners.insertOne({
+        title: c.creative.title,
+        imageUrl: c.creative.imageUrl,
+        link: c.creative.link || "",
+        isActive: true,
+        sortOrder: 1,
+        position: c.slot,
+        status: "approved",
+        isFeatured: true,
+        advertiserId: String(c.submissionId),
+        campaignId: c._id,
+        endsOn: c.endDate,
+        createdAt: now,
+      });
+      await campaigns.updateOne({ _id: c._id }, { $set: { bannerId: insertedId } });
+      activated++;
+    } catch (e) {
+      await campaigns.updateOne({ _id: c._id }, { $set: { status: "approved" } });
+      throw e;
+    }
+  }
+
+  const finished = await campaigns
+    .find({ status: { $in: ["live", "approved"] }, endDate: { $lt: today } })
+    .toArray();
+  for (const c of finished) {
+    if (c.bannerId) {
+      await banners.updateOne({ _id: c.bannerId }, { $set: { isActive: false, updatedAt: now } });
+    }
+    await campaigns.updateOne(
+      { _id: c._id },
+      {
+        $set: {
+          status: "completed",
+          completedAt: now,
+          updatedAt: now,
+          // approved too late to ever run; the reviewer sees why it has no stats
+          ...(c.status === "approved" ? { neverServed: true } : {}),
+        },
+      },
+    );
+    completed++;
+  }
+
+  const expired = await campaigns.updateMany(
+    { status: "pending_payment", holdExpiresAt: { $lte: now } },
+    { $set: { status: "expired", updatedAt: now } },
+  );
+
+  return { activated, completed, expiredHolds: expired.modifiedCount };
+}
+
+export async function ensureAdCampaignIndexes(db: Db) {
+  const campaigns = db.collection(AD_CAMPAIGNS_COLLECTION);
+  await campaigns.createIndex({ slot: 1, status: 1, startDate: 1, endDate: 1 });
+  await campaigns.createIndex({ userId: 1, createdAt: -1 });
+  await campaigns.createIndex({ status: 1, endDate: 1 });
+}
@@ -0,0 +1,293 @@
+// server/utils/adTracking.ts
+// Impression and click counting for everything we show as an ad. The beacon
+// sends events tagged with a per-tab session id; each (event, ad, slot,
+// session, day) is counted once, and counted events roll up into one
+// ad_stats_daily row per ad, slot and day (IST) that reports read from.
+import { Db, ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+
+export const AD_EVENTS_COLLECTION = "ad_events";
+export const AD_STATS_COLLECTION = "ad_stats_daily";
+
+export type AdEventType = "impression" | "click";
+
+// Where each tracked source keeps its ads; ad_slot ids are the slot keys of
+// AdSense placements, so there is nothing to look up.
+export const AD_SOURCES: Record<string, string | null> = {
+  banner: "banners",
+  new_project_banner: "new_project_banners",
+  homepage_slider: "homepage_sliders",
+  ad_slot: null,
+};
+
+export const MAX_EVENTS_PER_BEACON = 50;
+const DEDUPE_RETENTION_SECONDS = 2 * 24 * 60 * 60;
+const SESSION_ID_RE = /^[A-Za-z0-9_-]{8,64}$/;
+const SLOT_RE = /^[A-Za-z0-9_.:-]{1,64}$/;
+const BOT_UA_RE =
+  /bot|crawl|spider|slurp|facebookexternalhit|preview|headless|lighthouse|pingdom|curl|wget|python-requests/i;
+
+export interface AdEventInput {
+  type: AdEventType;
+  source: string;
+  adId: string;
+  slot?: string;
+}
+
+/** Calendar day in India, which is what advertisers are billed and report on. */
+export const statDay = (d: Date = new Date()) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Kolkata" }).format(d);
+
+export const isBotUserAgent = (ua: string | undefined) => !ua || BOT_UA_RE.test(ua);
+
+export const isValidAdSessionId = (id: unknown): id is string =>
+  typeof id === "string" && SESSION_ID_RE.test(id);
+
+/** Drop malformed events and ones pointing at ads that don't exist. */
+async function validEvents(db: Db, raw: any[]): Promise<AdEventInput[]> {
+  const shaped: AdEventInput[] = raw
+    .slice(0, MAX_EVENTS_PER_BEACON)
+    .filter(
+      (e) =>
+        e &&
+        (e.type === "impression" || e.type === "click") &&
+        typeof e.source === "string" &&
+        e.source in AD_SOURCES &&
+        typeof e.adId === "string" &&
+        (e.slot === undefined || e.slot === null || (typeof e.slot === "string" && SLOT_RE.test(e.slot))),
+    )
+    .map((e) => ({ type: e.type, source: e.source, adId: String(e.adId), slot: e.slot || "default" }));
+
+  const out: AdEventInput[] = [];
+  const bySource = new Map<string, AdEventInput[]>();
+  for (const e of shaped) {
+    if (AD_SOURCES[e.source] === null) {
+      if (SLOT_RE.test(e.adId)) out.push(e);
+    } else if (ObjectId.isValid(e.adId)) {
+      bySource.set(e.source, [...(bySource.get(e.source) || []), e]);
+    }
+  }
+
+  for (const [source, events] of bySource) {
+    const ids = [...new Set(events.map((e) => e.adId))].map((id) => new ObjectId(id));
+    const found = await db
+      .collection(AD_SOURCES[source]!)
+      .find({ _id: { $in: ids } }, { projection: { _id: 1 } })
+      .toArray();
+    const known = new Set(found.map((d) => d._id.toString()));
+    out.push(...events.filter((e) => known.has(e.adId)));
+  }
+  return out;
+}
+
+/**
+ * Record a beacon's worth of events for one browser session. Returns how many
+ * were counted; repeats within the same session and day are ignored.
+ */
+export async function recordAdEvents(sessionId: string, rawEvents: any[]) {
+  const db = getDatabase();
+  const events = await validEvents(db, rawEvents);
+  if (events.length === 0) return { accepted: 0, counted: 0 };
+
+  const day = statDay();
+  const now = new Date();
+  const increments = new Map<string, { source: string; adId: string; slot: string; impressions: number; clicks: number }>();
+
+  for (const e of events) {
+    const dedupeKey = `${e.type}:${e.source}:${e.adId}:${e.slot}:${sessionId}:${day}`;
+    const res = await db
+      .collection(AD_EVENTS_COLLECTION)
+      .updateOne(
+        { dedupeKey },
+        { $setOnInsert: { dedupeKey, type: e.type, source: e.source, adId: e.adId, slot: e.slot, sessionId, day, createdAt: now } },
+        { upsert: true },
+      )
+      .catch((err: any) => {
+        // two beacons racing on the same key: the other one counted it
+        if (err?.code === 11000) return { upsertedCount: 0 };
+        throw err;
+      });
+    if (!res.upsertedCount) continue;
+
+    const statKey = `${e.source}:${e.adId}:${e.slot}`;
+    const inc = increments.get(statKey) || { source: e.source, adId: e.adId, slot: e.slot!, impressions: 0, clicks: 0 };
+    if (e.type === "impression") inc.impressions++;
+    else inc.clicks++;
+    increments.set(statKey, inc);
+  }
+
+  if (increments.size) {
+    await db.collection(AD_STATS_COLLECTION).bulkWrite(
+      [...increments.values()].map((inc) => ({
+        updateOne: {
+          filter: { source: inc.source, adId: inc.adId, slot: inc.slot, day },
+          update: {
+            $inc: { impressions: inc.impressions, clicks: inc.clicks },
+            $set: { updatedAt: now },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+  }
+
+  const counted = [...increments.values()].reduce((s, i) => s + i.impressions + i.clicks, 0);
+  return { accepted: events.length, counted };
+}
+
+export const ctr = (impressions: number, clicks: number) =>
+  impressions > 0 ? Math.round((clicks / impressions) * 10000) / 100 : 0;
+
+export interface AdStatsQuery {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  source?: string;
+  ads?: { source: string; adId: string }[]; // restrict to these ads
+}
+
+export interface AdStatsRow {
+  source: string;
+  adId: string;
+  slot: string;
+  title: string;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+}
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Default window: the last 30 days including today. */
+export function resolveRange(from?: unknown, to?: unknown) {
+  const end = typeof to === "string" && DAY_RE.test(to) ? to : statDay();
+  const start =
+    typeof from === "string" && DAY_RE.test(from)
+      ? from
+      : statDay(new Date(new Date(`${end}T12:00:00Z`).getTime() - 29 * 24 * 60 * 60 * 1000));
+  return start <= end ? { from: start, to: end } : { from: end, to: start };
+}
+
+function statsFilter(query: AdStatsQuery) {
+  const { from, to } = resolveRange(query.from, query.to);
+  const filter: any = { day: { $gte: from, $lte: to } };
+  if (query.source) filter.source = query.source;
+  if (query.ads) {
+    filter.$or = query.ads.length
+      ? query.ads.map((a) => ({ source: a.source, adId: a.adId }))
+      : [{ _id: null }]; // an advertiser with no ads yet matches nothing
+  }
+  return { filter, from, to };
+}
+
+async function titlesFor(db: Db, rows: { source: string; adId: string }[]) {
+  const titles = new Map<string, string>();
+  const bySource = new Map<string, string[]>();
+  for (const r of rows) {
+    if (AD_SOURCES[r.source]) bySource.set(r.source, [...(bySource.get(r.source) || []), r.adId]);
+    else titles.set(`${r.source}:${r.adId}`, `AdSense slot "${r.adId}"`);
+  }
+  for (const [source, ids] of bySource) {
+    const docs = await db
+      .collection(AD_SOURCES[source]!)
+      .find(
+        { _id: { $in: ids.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id)) } },
+        { projection: { title: 1 } },
+      )
+      .toArray();
+    docs.forEach((d: any) => titles.set(`${source}:${d._id}`, d.title || "Untitled"));
+  }
+  return titles;
+}
+
+/** Per ad/slot totals, a per-day series and the overall totals for a range. */
+export async function getAdStats(query: AdStatsQuery) {
+  const db = getDatabase();
+  const { filter, from, to } = statsFilter(query);
+  const stats = db.collection(AD_STATS_COLLECTION);
+
+  const [grouped, daily] = await Promise.all([
+    stats
+      .aggregate([
+        { $match: filter },
+        {
+          $group: {
+            _id: { source: "$source", adId: "$adId", slot: "$slot" },
+            impressions: { $sum: "$impressions" },
+            clicks: { $sum: "$clicks" },
+          },
+        },
+        { $sort: { impressions: -1 } },
+      ])
+      .toArray(),
+    stats
+      .aggregate([
+        { $match: filter },
+        { $group: { _id: "$day", impressions: { $sum: "$impressions" }, clicks: { $sum: "$clicks" } } },
+        { $sort: { _id: 1 } },
+      ])
+      .toArray(),
+  ]);
+
+  const titles = await titlesFor(db, grouped.map((g: any) => g._id));
+  const rows: AdStatsRow[] = grouped.map((g: any) => ({
+    source: g._id.source,
+    adId: g._id.adId,
+    slot: g._id.slot,
+    title: titles.get(`${g._id.source}:${g._id.adId}`) || "Deleted ad",
+    impressions: g.impressions,
+    clicks: g.clicks,
+    ctr: ctr(g.impressions, g.clicks),
+  }));
+
+  const totals = rows.reduce(
+    (t, r) => ({ impressions: t.impressions + r.impressions, clicks: t.clicks + r.clicks }),
+    { impressions: 0, clicks: 0 },
+  );
+
+  return {
+    from,
+    to,
+    rows,
+    daily: daily.map((d: any) => ({
+      day: d._id as string,
+      impressions: d.impressions as number,
+      clicks: d.clicks as number,
+      ctr: ctr(d.impressions, d.clicks),
+    })),
+    totals: { ...totals, ctr: ctr(totals.impressions, totals.clicks) },
+  };
+}
+
+/** The same range as getAdStats, one row per ad, slot and day (for exports). */
+export async function getAdDailyBreakdown(query: AdStatsQuery) {
+  const db = getDatabase();
+  const { filter } = statsFilter(query);
+  const docs = await db
+    .collection(AD_STATS_COLLECTION)
+    .find(filter)
+    .sort({ day: 1, source: 1, adId: 1, slot: 1 })
+    .toArray();
+  const titles = await titlesFor(db, docs as any[]);
+  return docs.map((d: any) => ({
+    day: d.day as string,
+    source: d.source as string,
+    adId: d.adId as string,
+    slot: d.slot as string,
+    title: titles.get(`${d.source}:${d.adId}`) || "Deleted ad",
+    impressions: d.impressions as number,
+    clicks: d.clicks as number,
+    ctr: ctr(d.impressions, d.clicks),
+  }));
+}
+
+export async function ensureAdTrackingIndexes(db: Db) {
+  const events = db.collection(AD_EVENTS_COLLECTION);
+  await events.createIndex({ dedupeKey: 1 }, { unique: true });
+  // dedupe keys only matter for the day they were written on
+  await events.createIndex({ createdAt: 1 }, { expireAfterSeconds: DEDUPE_RETENTION_SECONDS });
+
+  const stats = db.collection(AD_STATS_COLLECTION);
+  await stats.createIndex({ source: 1, adId: 1, slot: 1, day: 1 }, { unique: true });
+  await stats.createIndex({ day: 1 });
+}
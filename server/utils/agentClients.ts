@@ -0,0 +1,516 @@
+// server/utils/agentClients.ts
+// Agent client book and deal pipeline. Clients keep their interactions
+// inline like leads do; deals live in their own collection so the pipeline
+// and commission totals can be read across all of an agent's clients.
+//
+// A deal moves forward through site visit → negotiation → token → registry
+// and ends closed or cancelled. Its commission is earned when it closes
+// and tracked separately until the agent marks it received.
+import { Db, ObjectId } from "mongodb";
+import {
+  AgentSummary,
+  CLIENT_SOURCES,
+  CLIENT_STATUSES,
+  ClientSource,
+  ClientStatus,
+  DEAL_STAGES,
+  DEAL_STAGE_LABELS,
+  DEAL_STATUS_BY_STAGE,
+  DEFAULT_COMMISSION_RATE,
+  DealStage,
+  OPEN_DEAL_STAGES,
+} from "@shared/agentClients";
+import { HOT_LEAD_SCORE } from "@shared/leads";
+import { LEADS_COLLECTION, LeadError } from "./leads";
+
+export const CLIENTS_COLLECTION = "agent_clients";
+export const DEALS_COLLECTION = "agent_deals";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const str = (v: unknown, max = 500) => String(v ?? "").trim().slice(0, max);
+const money = (v: unknown) => Math.max(0, Number(v) || 0);
+const oneOf = <T extends string>(list: readonly T[], v: unknown, fallback: T): T =>
+  list.includes(v as T) ? (v as T) : fallback;
+const list = (v: unknown) =>
+  (Array.isArray(v) ? v : String(v || "").split(","))
+    .map((s) => str(s, 100))
+    .filter(Boolean)
+    .slice(0, 20);
+const iso = (d: any) => (d ? new Date(d).toISOString() : "");
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const dateOr = (v: unknown, fallback: Date) => {
+  if (!v) return fallback;
+  const d = new Date(v as any);
+  if (isNaN(d.getTime())) throw new LeadError("Invalid date");
+  return d;
+};
+
+/** Validated fields for a client the agent adds or edits; `partial` keeps absent fields out. */
+export function clientInput(body: any, partial = false) {
+  const out: Record<string, any> = {};
+  const has = (k: string) => !partial || body?.[k] !== undefined;
+
+  if (has("name")) {
+    out.name = str(body?.name, 120);
+    if (!out.name) throw new LeadError("Name is required");
+  }
+  if (has("phone")) out.phone = str(body?.phone, 20);
+  if (has("email")) out.email = str(body?.email, 200).toLowerCase();
+  if (!partial && !out.phone && !out.email) throw new LeadError("A phone number or email is required");
+  if (has("userType")) out.userType = oneOf(["buyer", "seller"] as const, body?.userType, "buyer");
+  if (has("source")) out.source = oneOf(CLIENT_SOURCES, body?.source, "direct");
+  if (has("notes")) out.notes = str(body?.notes, 5000);
+  if (body?.rating !== undefined) out.rating = Math.max(0, Math.min(5, Number(body.rating) || 0));
+  if (body?.nextFollowup) out.nextFollowup = dateOr(body.nextFollowup, new Date());
+  if (has("budget")) {
+    const min = money(body?.budget?.min);
+    const max = money(body?.budget?.max);
+    out.budget = { min: Math.min(min, max || min), max: Math.max(min, max) };
+  }
+  if (has("preferences")) {
+    const p = body?.preferences || {};
+    out.preferences = {
+      propertyTypes: list(p.propertyTypes),
+      locations: list(p.locations),
+      ...(Number(p.bedrooms) > 0 ? { bedrooms: Math.round(Number(p.bedrooms)) } : {}),
+      amenities: list(p.amenities),
+    };
+  }
+  return out;
+}
+
+function newClientDoc(agentId: string, input: Record<string, any>, now: Date) {
+  return {
+    agentId,
+    status: "active" as ClientStatus,
+    rating: 0,
+    ...input,
+    assignedDate: now,
+    lastContact: now,
+    nextFollowup: input.nextFollowup || new Date(now.getTime() + 7 * DAY_MS),
+    interactions: [] as any[],
+    propertyIds: [] as string[],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function createClient(db: Db, agentId: string, body: any) {
+  const doc = newClientDoc(agentId, clientInput(body), new Date());
+  const result = await db.collection(CLIENTS_COLLECTION).insertOne(doc);
+  return { ...doc, _id: result.insertedId };
+}
+
+const LEAD_SOURCE_TO_CLIENT: Record<string, ClientSource> = {
+  website: "website",
+  referral: "referral",
+  social: "social",
+  advertisement: "advertisement",
+};
+
+/**
+ * Turn a lead into a client, carrying over contact details, what they're
+ * looking for, the listings they asked about and the interaction history.
+ */
+export async function convertLeadToClient(db: Db, lead: any) {
+  if (lead.convertedToClient) throw new LeadError("Lead is already a client", 409);
+  const now = new Date();
+  const pi = lead.propertyInterest || {};
+  const doc = {
+    ...newClientDoc(
+      lead.agentId,
+      {
+        name: lead.name,
+        email: lead.email || "",
+        phone: lead.phone || "",
+        userType: pi.type === "sell" ? "seller" : "buyer",
+        source: LEAD_SOURCE_TO_CLIENT[lead.source] || "direct",
+        notes: lead.notes || "",
+        budget: { min: money(pi.priceRange?.min), max: money(pi.priceRange?.max) },
+        preferences: {
+          propertyTypes: pi.propertyTypes || [],
+          locations: pi.locations || [],
+          ...(pi.bedrooms ? { bedrooms: pi.bedrooms } : {}),
+          amenities: [],
+        },
+      },
+      now,
+    ),
+    leadId: String(lead._id),
+    ...(lead.userId ? { userId: lead.userId } : {}),
+    propertyIds: lead.propertyIds || [],
+    interactions: (lead.interactions || []).map((i: any) => ({
+      _id: i._id,
+      type: i.type,
+      date: i.date,
+      description: i.description,
+      outcome: i.outcome,
+      followupRequired: false,
+      nextAction: i.nextAction || "",
+    })),
+    lastContact: lead.lastContact || now,
+  };
+  const result = await db.collection(CLIENTS_COLLECTION).insertOne(doc);
+  return { ...doc, _id: result.insertedId };
+}
+
+/** Log an interaction and, when it needs a follow-up, schedule one in two days. */
+export async function addClientInteraction(db: Db, client: any, body: any) {
+  const description = str(body?.description, 2000);
+  if (!description) throw new LeadError("Description is required");
+  const now = new Date();
+  const followupRequired = Boolean(body?.followupRequired);
+  const interaction = {
+    _id: new ObjectId(),
+    type: oneOf(["call", "email", "meeting", "message", "visit"] as const, body?.type, "call"),
+    date: now,
+    description,
+    outcome: oneOf(["positive", "neutral", "negative"] as const, body?.outcome, "neutral"),
+    followupRequired,
+    nextAction: str(body?.nextAction, 500),
+  };
+  return db.collection(CLIENTS_COLLECTION).findOneAndUpdate(
+    { _id: client._id },
+    {
+      $push: { interactions: interaction } as any,
+      $set: {
+        lastContact: now,
+        updatedAt: now,
+        ...(followupRequired ? { nextFollowup: new Date(now.getTime() + 2 * DAY_MS) } : {}),
+      },
+    },
+    { returnDocument: "after" },
+  );
+}
+
+export function clientStatusUpdate(status: unknown) {
+  if (!CLIENT_STATUSES.includes(status as ClientStatus)) throw new LeadError("Invalid status");
+  return { status: status as ClientStatus, updatedAt: new Date() };
+}
+
+async function findProperty(db: Db, propertyId: unknown) {
+  if (!ObjectId.isValid(String(propertyId || ""))) throw new LeadError("Invalid property ID");
+  const property = await db.collection("properties").findOne({ _id: new ObjectId(String(propertyId)) });
+  if (!property) throw new LeadError("Property not found", 404);
+  return property;
+}
+
+export async function linkClientProperty(db: Db, client: any, propertyId: unknown) {
+  const property = await findProperty(db, propertyId);
+  return db.collection(CLIENTS_COLLECTION).findOneAndUpdate(
+    { _id: client._id },
+    { $addToSet: { propertyIds: String(property._id) }, $set: { updatedAt: new Date() } },
+    { returnDocument: "after" },
+  );
+}
+
+export async function unlinkClientProperty(db: Db, client: any, propertyId: string) {
+  return db.collection(CLIENTS_COLLECTION).findOneAndUpdate(
+    { _id: client._id },
+    { $pull: { propertyIds: propertyId } as any, $set: { updatedAt: new Date() } },
+    { returnDocument: "after" },
+  );
+}
+
+const commissionFor = (amount: number, rate: number) => round2((amount * rate) / 100);
+
+/** Open a deal for a client on a property; the property is linked to the client too. */
+export async function createDeal(db: Db, client: any, body: any) {
+  const property = await findProperty(db, body?.propertyId);
+  const type = oneOf(["sale", "rent"] as const, body?.type, property.priceType === "rent" ? "rent" : "sale");
+  const amount = money(body?.amount) || money(property.price);
+  if (!amount) throw new LeadError("Deal amount is required");
+  const commissionRate =
+    body?.commissionRate !== undefined ? money(body.commissionRate) : DEFAULT_COMMISSION_RATE[type];
+  const stage = oneOf(OPEN_DEAL_STAGES, body?.stage, "site_visit");
+  const now = new Date();
+
+  const doc = {
+    agentId: client.agentId,
+    clientId: String(client._id),
+    propertyId: String(property._id),
+    propertyTitle: String(property.title || ""),
+    type,
+    amount,
+    stage,
+    status: DEAL_STATUS_BY_STAGE[stage],
+    stageHistory: [{ stage, at: now, note: str(body?.note, 500) }],
+    commissionRate,
+    commission: body?.commission !== undefined ? money(body.commission) : commissionFor(amount, commissionRate),
+    commissionReceived: false,
+    startDate: now,
+    expectedCloseDate: dateOr(body?.expectedCloseDate, new Date(now.getTime() + 30 * DAY_MS)),
+    notes: str(body?.notes, 5000),
+    createdAt: now,
+    updatedAt: now,
+  };
+  const result = await db.collection(DEALS_COLLECTION).insertOne(doc);
+  await db.collection(CLIENTS_COLLECTION).updateOne(
+    { _id: client._id },
+    { $addToSet: { propertyIds: doc.propertyId }, $set: { lastContact: now, updatedAt: now } },
+  );
+  return { ...doc, _id: result.insertedId };
+}
+
+/** Move a deal to another stage. Closing stamps the close date; closed or cancelled deals stay put. */
+export async function moveDealStage(db: Db, deal: any, body: any) {
+  const stage = body?.stage as DealStage;
+  if (!DEAL_STAGES.includes(stage)) throw new LeadError("Invalid stage");
+  if (deal.stage === "closed" || deal.stage === "cancelled") {
+    throw new LeadError(`Deal is already ${deal.stage}`, 409);
+  }
+  if (stage === deal.stage) return deal;
+
+  const now = new Date();
+  const updated = await db.collection(DEALS_COLLECTION).findOneAndUpdate(
+    { _id: deal._id },
+    {
+      $push: { stageHistory: { stage, at: now, note: str(body?.note, 500) } } as any,
+      $set: {
+        stage,
+        status: DEAL_STATUS_BY_STAGE[stage],
+        updatedAt: now,
+        ...(stage === "closed" || stage === "cancelled" ? { actualCloseDate: now } : {}),
+      },
+    },
+    { returnDocument: "after" },
+  );
+  if (stage === "closed" && ObjectId.isValid(deal.clientId)) {
+    await db
+      .collection(CLIENTS_COLLECTION)
+      .updateOne({ _id: new ObjectId(deal.clientId) }, { $set: { lastContact: now, updatedAt: now } });
+  }
+  return updated;
+}
+
+/** Change the amount, rate or commission, or mark the commission received. */
+export async function updateDealCommission(db: Db, deal: any, body: any) {
+  const $set: Record<string, any> = { updatedAt: new Date() };
+  const amount = body?.amount !== undefined ? money(body.amount) : deal.amount;
+  const rate = body?.commissionRate !== undefined ? money(body.commissionRate) : deal.commissionRate;
+  if (body?.amount !== undefined) $set.amount = amount;
+  if (body?.commissionRate !== undefined) $set.commissionRate = rate;
+  if (body?.commission !== undefined) $set.commission = money(body.commission);
+  else if (body?.amount !== undefined || body?.commissionRate !== undefined) {
+    $set.commission = commissionFor(amount, rate);
+  }
+  if (body?.commissionReceived !== undefined) {
+    if (body.commissionReceived && deal.stage !== "closed") {
+      throw new LeadError("Commission can only be received on a closed deal");
+    }
+    $set.commissionReceived = Boolean(body.commissionReceived);
+    $set.commissionReceivedAt = body.commissionReceived ? new Date() : null;
+  }
+  return db
+    .collection(DEALS_COLLECTION)
+    .findOneAndUpdate({ _id: deal._id }, { $set }, { returnDocument: "after" });
+}
+
+export function serializeDeal(doc: any) {
+  return {
+    ...doc,
+    _id: String(doc._id),
+    startDate: iso(doc.startDate),
+    expectedCloseDate: iso(doc.expectedCloseDate),
+    actualCloseDate: doc.actualCloseDate ? iso(doc.actualCloseDate) : undefined,
+    commissionReceivedAt: doc.commissionReceivedAt ? iso(doc.commissionReceivedAt) : undefined,
+    stageHistory: (doc.stageHistory || []).map((s: any) => ({ ...s, at: iso(s.at) })),
+  };
+}
+
+/** Clients with their deals and linked properties attached, as the client book expects. */
+export async function hydrateClients(db: Db, clients: any[]) {
+  if (clients.length === 0) return [];
+  const ids = clients.map((c) => String(c._id));
+  const propertyIds = [...new Set(clients.flatMap((c) => c.propertyIds || []))].filter((id) =>
+    ObjectId.isValid(id),
+  );
+  const [deals, properties] = await Promise.all([
+    db
+      .collection(DEALS_COLLECTION)
+      .find({ clientId: { $in: ids } })
+      .sort({ startDate: -1 })
+      .toArray(),
+    propertyIds.length
+      ? db
+          .collection("properties")
+          .find({ _id: { $in: propertyIds.map((id) => new ObjectId(id)) } })
+          .project({ title: 1, price: 1, priceType: 1, status: 1 })
+          .toArray()
+      : Promise.resolve([]),
+  ]);
+  const propertyById = new Map(properties.map((p: any) => [String(p._id), p]));
+
+  return clients.map((c) => ({
+    ...c,
+    _id: String(c._id),
+    assignedDate: iso(c.assignedDate),
+    lastContact: iso(c.lastContact),
+    nextFollowup: iso(c.nextFollowup),
+    interactions: (c.interactions || []).map((i: any) => ({ ...i, _id: String(i._id), date: iso(i.date) })),
+    deals: deals.filter((d) => d.clientId === String(c._id)).map(serializeDeal),
+    properties: (c.propertyIds || [])
+      .map((id: string) => propertyById.get(id))
+      .filter(Boolean)
+      .map((p: any) => ({
+        _id: String(p._id),
+        title: String(p.title || ""),
+        price: Number(p.price) || 0,
+        priceType: String(p.priceType || ""),
+        status: String(p.status || ""),
+      })),
+  }));
+}
+
+/** Client book, lead funnel, pipeline and commission totals for the agent dashboard. */
+export async function agentSummary(db: Db, agentId: string, now: Date = new Date()): Promise<AgentSummary> {
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  const ownerIds: any[] = [agentId, ...(ObjectId.isValid(agentId) ? [new ObjectId(agentId)] : [])];
+
+  const [clientRows, leadRows, dealRows, listingRows, recent] = await Promise.all([
+    db
+      .collection(CLIENTS_COLLECTION)
+      .aggregate([
+        { $match: { agentId } },
+        {
+          $group: {
+            _id: null,
+            total: { $sum: 1 },
+            active: { $sum: { $cond: [{ $eq: ["$status", "active"] }, 1, 0] } },
+            potential: { $sum: { $cond: [{ $eq: ["$status", "potential"] }, 1, 0] } },
+            buyers: { $sum: { $cond: [{ $eq: ["$userType", "buyer"] }, 1, 0] } },
+            sellers: { $sum: { $cond: [{ $eq: ["$userType", "seller"] }, 1, 0] } },
+          },
+        },
+      ])
+      .toArray(),
+    db
+      .collection(LEADS_COLLECTION)
+      .aggregate([
+        { $match: { agentId } },
+        {
+          $group: {
+            _id: null,
+            total: { $sum: 1 },
+            converted: { $sum: { $cond: [{ $eq: ["$convertedToClient", true] }, 1, 0] } },
+            open: { $sum: { $cond: [{ $in: ["$status", ["closed", "lost"]] }, 0, 1] } },
+            hot: {
+              $sum: {
+                $cond: [
+                  { $and: [{ $gte: ["$score", HOT_LEAD_SCORE] }, { $not: [{ $in: ["$status", ["closed", "lost"]] }] }] },
+                  1,
+                  0,
+                ],
+              },
+            },
+            followupsDue: {
+              $sum: {
+                $cond: [
+                  { $and: [{ $lte: ["$nextFollowup", now] }, { $not: [{ $in: ["$status", ["closed", "lost"]] }] }] },
+                  1,
+                  0,
+                ],
+              },
+            },
+          },
+        },
+      ])
+      .toArray(),
+    db
+      .collection(DEALS_COLLECTION)
+      .aggregate([
+        { $match: { agentId } },
+        {
+          $group: {
+            _id: "$stage",
+            count: { $sum: 1 },
+            value: { $sum: "$amount" },
+            commission: { $sum: "$commission" },
+            received: { $sum: { $cond: ["$commissionReceived", "$commission", 0] } },
+            thisMonth: { $sum: { $cond: [{ $gte: ["$actualCloseDate", monthStart] }, 1, 0] } },
+          },
+        },
+      ])
+      .toArray(),
+    db
+      .collection("properties")
+      .aggregate([
+        { $match: { $or: [{ ownerId: { $in: ownerIds } }, { sellerId: { $in: ownerIds } }] } },
+        {
+          $group: {
+            _id: null,
+            total: { $sum: 1 },
+            active: { $sum: { $cond: [{ $eq: ["$status", "active"] }, 1, 0] } },
+            inquiries: { $sum: { $ifNull: ["$inquiries", 0] } },
+          },
+        },
+      ])
+      .toArray(),
+    db
+      .collection(CLIENTS_COLLECTION)
+      .find({ agentId })
+      .sort({ lastContact: -1 })
+      .limit(5)
+      .project({ name: 1, userType: 1, status: 1, lastContact: 1 })
+      .toArray(),
+  ]);
+
+  const c = clientRows[0] || {};
+  const l = leadRows[0] || {};
+  const p = listingRows[0] || {};
+  const byStage = new Map(dealRows.map((d) => [d._id as DealStage, d]));
+  const stage = (s: DealStage) => byStage.get(s) || { count: 0, value: 0, commission: 0, received: 0, thisMonth: 0 };
+  const closed = stage("closed");
+
+  return {
+    clients: {
+      total: c.total || 0,
+      active: c.active || 0,
+      potential: c.potential || 0,
+      buyers: c.buyers || 0,
+      sellers: c.sellers || 0,
+    },
+    leads: {
+      open: l.open || 0,
+      hot: l.hot || 0,
+      followupsDue: l.followupsDue || 0,
+      converted: l.converted || 0,
+      conversionRate: l.total ? Math.round((l.converted / l.total) * 1000) / 10 : 0,
+    },
+    pipeline: OPEN_DEAL_STAGES.map((s) => ({
+      stage: s,
+      label: DEAL_STAGE_LABELS[s],
+      count: stage(s).count,
+      value: stage(s).value,
+      commission: round2(stage(s).commission),
+    })),
+    deals: {
+      open: OPEN_DEAL_STAGES.reduce((sum, s) => sum + stage(s).count, 0),
+      closed: closed.count,
+      closedThisMonth: closed.thisMonth,
+      cancelled: stage("cancelled").count,
+    },
+    commission: {
+      earned: round2(closed.commission),
+      received: round2(closed.received),
+      pending: round2(closed.commission - closed.received),
+      expected: round2(OPEN_DEAL_STAGES.reduce((sum, s) => sum + stage(s).commission, 0)),
+    },
+    listings: { total: p.total || 0, active: p.active || 0, inquiries: p.inquiries || 0 },
+    recentClients: recent.map((r: any) => ({
+      _id: String(r._id),
+      name: r.name,
+      userType: r.userType,
+      status: r.status,
+      lastContact: iso(r.lastContact),
+    })),
+  };
+}
+
+export async function ensureAgentClientIndexes(db: Db) {
+  await db.collection(CLIENTS_COLLECTION).createIndex({ agentId: 1, lastContact: -1 });
+  await db.collection(CLIENTS_COLLECTION).createIndex({ leadId: 1 }, { sparse: true });
+  await db.collection(DEALS_COLLECTION).createIndex({ agentId: 1, stage: 1 });
+  await db.collection(DEALS_COLLECTION).createIndex({ clientId: 1 });
+}
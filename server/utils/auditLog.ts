@@ -0,0 +1,121 @@
+// server/utils/auditLog.ts
+// Append-only trail of admin actions (moderation, money, configuration,
+// staff). Handlers call recordAudit() after a successful write; entries are
+// only ever inserted — nothing in the API updates or deletes them.
+import type { Request } from "express";
+import { Db, ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+
+export const AUDIT_COLLECTION = "audit_logs";
+
+export interface AuditChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface AuditEntryInput {
+  action: string; // e.g. "property.approve", "coupon.update"
+  targetType: string; // e.g. "property", "coupon", "settings"
+  targetId?: string | ObjectId | null;
+  targetLabel?: string; // human readable (title, email, code)
+  before?: any;
+  after?: any;
+  meta?: Record<string, any>;
+}
+
+const REDACTED = "[redacted]";
+const SENSITIVE_KEY = /pass(word)?|secret|salt|token|api[-_]?key|private/i;
+const IGNORED_KEYS = new Set(["_id", "updatedAt", "createdAt", "__v"]);
+const MAX_DEPTH = 3;
+
+const isPlainObject = (v: any) =>
+  v !== null &&
+  typeof v === "object" &&
+  !Array.isArray(v) &&
+  !(v instanceof Date) &&
+  !(v instanceof ObjectId);
+
+const normalize = (v: any): any => {
+  if (v instanceof ObjectId) return v.toString();
+  if (v instanceof Date) return v.toISOString();
+  return v === undefined ? null : v;
+};
+
+function flatten(obj: any, prefix = "", depth = 0, out: Record<string, any> = {}) {
+  if (!isPlainObject(obj)) return out;
+  for (const [key, value] of Object.entries(obj)) {
+    if (!prefix && IGNORED_KEYS.has(key)) continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && depth < MAX_DEPTH) flatten(value, path, depth + 1, out);
+    else out[path] = normalize(value);
+  }
+  return out;
+}
+
+/**
+ * Field-level diff between two documents (dotted paths, sensitive keys
+ * redacted). Only fields present in `after` are compared when both are given,
+ * so partial updates don't show every untouched field as removed.
+ */
+export function diffForAudit(before: any, after: any): AuditChange[] {
+  const a = flatten(before);
+  const b = flatten(after);
+  const keys = before && after ? Object.keys(b) : Object.keys({ ...a, ...b });
+
+  const changes: AuditChange[] = [];
+  for (const field of keys) {
+    const from = field in a ? a[field] : null;
+    const to = field in b ? b[field] : null;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    // secrets are compared but never stored
+    const secret = SENSITIVE_KEY.test(field.split(".").pop() || "");
+    changes.push({
+      field,
+      before: secret && from !== null ? REDACTED : from,
+      after: secret && to !== null ? REDACTED : to,
+    });
+  }
+  return changes;
+}
+
+export const clientIp = (req: Request) => {
+  const forwarded = String(req.headers["x-forwarded-for"] || "").split(",")[0].trim();
+  return forwarded || req.ip || req.socket?.remoteAddress || null;
+};
+
+/** Write one audit entry for the acting admin/staff user. Never throws. */
+export async function recordAudit(req: Request, entry: AuditEntryInput) {
+  try {
+    const r = req as any;
+    const db = getDatabase();
+    await db.collection(AUDIT_COLLECTION).insertOne({
+      actorId: r.userId ? String(r.userId) : null,
+      actorEmail: r.email || null,
+      actorType: r.userType || null,
+      actorRole: r.role || r.userType || null,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId ? String(entry.targetId) : null,
+      targetLabel: entry.targetLabel || null,
+      changes:
+        entry.before !== undefined || entry.after !== undefined
+          ? diffForAudit(entry.before, entry.after)
+          : [],
+      meta: entry.meta || null,
+      ip: clientIp(req),
+      userAgent: String(req.headers["user-agent"] || "") || null,
+      createdAt: new Date(),
+    });
+  } catch (e: any) {
+    console.warn(`Audit log write failed (${entry.action}):`, e?.message || e);
+  }
+}
+
+export async function ensureAuditIndexes(db: Db) {
+  const col = db.collection(AUDIT_COLLECTION);
+  await col.createIndex({ createdAt: -1 });
+  await col.createIndex({ actorId: 1, createdAt: -1 });
+  await col.createIndex({ action: 1, createdAt: -1 });
+  await col.createIndex({ targetType: 1, targetId: 1, createdAt: -1 });
+}
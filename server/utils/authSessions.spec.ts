@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ObjectId } from "mongodb";
+
+// one user and their sessions; enough of the driver for issue/rotate/revoke
+const user = { _id: new ObjectId(), userType: "seller", email: "seller@example.com", status: "active" };
+let sessions: any[] = [];
+
+const matches = (doc: any, filter: Record<string, any>): boolean =>
+  Object.entries(filter).every(([k, v]) =>
+    k === "$or" ? v.some((f: any) => matches(doc, f)) : String(doc[k]) === String(v),
+  );
+
+vi.mock("../db/mongodb", () => ({
+  getDatabase: () => ({
+    collection: (name: string) =>
+      name === "users"
+        ? { findOne: async () => user }
+        : {
+            insertOne: async (doc: any) => {
+              const _id = new ObjectId();
+              sessions.push({ ...doc, _id });
+              return { insertedId: _id };
+            },
+            findOne: async (filter: any) => sessions.find((s) => matches(s, filter)) || null,
+            updateOne: async (filter: any, update: any) => {
+              const doc = sessions.find((s) => matches(s, filter));
+              if (doc) Object.assign(doc, update.$set);
+              return { modifiedCount: doc ? 1 : 0 };
+            },
+          },
+  }),
+}));
+
+import { issueSession, rotateRefreshToken } from "./authSessions";
+
+const req = { headers: {}, ip: "127.0.0.1", socket: {} } as any;
+
+describe("rotateRefreshToken", () => {
+  beforeEach(() => {
+    sessions = [];
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-06-01T00:00:00Z"));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("rotates the refresh token", async () => {
+    const { refreshToken } = await issueSession(req, user);
+    const next = await rotateRefreshToken(req, refreshToken);
+
+    expect(next.refreshToken).not.toBe(refreshToken);
+    expect((await rotateRefreshToken(req, next.refreshToken)).refreshToken).not.toBe(next.refreshToken);
+  });
+
+  it("gives a second tab refreshing with the previous token the current pair", async () => {
+    const { refreshToken } = await issueSession(req, user);
+    const first = await rotateRefreshToken(req, refreshToken);
+
+    vi.advanceTimersByTime(3000);
+    const second = await rotateRefreshToken(req, refreshToken);
+    expect(second.refreshToken).toBe(first.refreshToken);
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(sessions[0].revokedAt).toBeNull();
+  });
+
+  it("treats the previous token as stolen once the grace window has passed", async () => {
+    const { refreshToken } = await issueSession(req, user);
+    const next = await rotateRefreshToken(req, refreshToken);
+
+    vi.advanceTimersByTime(60 * 1000);
+    await expect(rotateRefreshToken(req, refreshToken)).rejects.toMatchObject({ code: "SESSION_REVOKED" });
+    expect(sessions[0].revokedReason).toBe("refresh_token_reuse");
+    await expect(rotateRefreshToken(req, next.refreshToken)).rejects.toMatchObject({ code: "SESSION_REVOKED" });
+  });
+});
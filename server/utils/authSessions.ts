@@ -0,0 +1,301 @@
+// server/utils/authSessions.ts
+// Short-lived access tokens backed by server-side sessions. Every login
+// creates an `auth_sessions` document holding a hash of a rotating refresh
+// token; the access JWT carries the session id (`sid`) so revoking the session
+// (logout, "sign out other devices", account deactivation) cuts the access
+// token off within REVOCATION_CACHE_MS instead of waiting for it to expire.
+import type { Request } from "express";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Db, ObjectId } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { clientIp } from "./auditLog";
+
+export const SESSIONS_COLLECTION = "auth_sessions";
+
+export const JWT_SECRET =
+  process.env.JWT_SECRET || process.env.JWT_PRIVATE_KEY || "your-secret-key";
+
+export const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+const REVOCATION_CACHE_MS = 30 * 1000;
+// how long after a rotation the previous refresh token still answers, so two
+// tabs refreshing at the same moment both end up with the new pair
+const ROTATION_GRACE_MS = 10 * 1000;
+
+// statuses that must not hold a session ("merged" = folded into another account)
+export const BLOCKED_ACCOUNT_STATUSES = ["inactive", "suspended", "banned", "deleted", "merged"];
+
+export interface IssuedSession {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // seconds until the access token expires
+  sessionId: string;
+}
+
+export class SessionError extends Error {
+  constructor(
+    message: string,
+    public code: "INVALID_REFRESH_TOKEN" | "SESSION_REVOKED" | "ACCOUNT_INACTIVE",
+  ) {
+    super(message);
+  }
+}
+
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+const newRefreshToken = () => crypto.randomBytes(48).toString("base64url");
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// The current refresh token is kept encrypted on the session only so a late
+// request with the previous one can be handed the same token during the grace
+// window; the hash stays the lookup key.
+const sealKey = crypto.createHash("sha256").update(`refresh-token-seal:${JWT_SECRET}`).digest();
+
+function sealToken(token: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", sealKey, iv);
+  const sealed = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), sealed].map((b) => b.toString("base64url")).join(".");
+}
+
+function unsealToken(value: unknown): string | null {
+  try {
+    const [iv, tag, sealed] = String(value).split(".").map((p) => Buffer.from(p, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", sealKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(sealed), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+/** The session's current refresh token, if `hash` is the one it replaced moments ago. */
+function graceRefreshToken(session: any, hash: string) {
+  if (!session || session.previousRefreshTokenHash !== hash || !session.rotatedAt) return null;
+  if (Date.now() - new Date(session.rotatedAt).getTime() > ROTATION_GRACE_MS) return null;
+  const token = unsealToken(session.sealedRefreshToken);
+  return token && hashToken(token) === session.refreshTokenHash ? token : null;
+}
+
+function signAccessToken(claims: Record<string, any>, sessionId: string) {
+  const token = jwt.sign({ ...claims, sid: sessionId }, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL,
+  } as jwt.SignOptions);
+  const { exp, iat } = jwt.decode(token) as any;
+  return { token, expiresIn: exp - iat };
+}
+
+/** Claims the access token carries for a user document. */
+export function accessClaimsFor(user: any) {
+  return {
+    userId: String(user._id),
+    userType: user.userType,
+    email: user.email,
+    phone: user.phone,
+    ...(user.role ? { role: user.role } : {}),
+  };
+}
+
+/** Start a new session for `user` (one per login/device). */
+export async function issueSession(
+  req: Request,
+  user: any,
+  claims: Record<string, any> = accessClaimsFor(user),
+): Promise<IssuedSession> {
+  const db = getDatabase();
+  const refreshToken = newRefreshToken();
+  const now = new Date();
+
+  const { insertedId } = await db.collection(SESSIONS_COLLECTION).insertOne({
+    userId: new ObjectId(String(user._id)),
+    userType: user.userType || null,
+    claims,
+    refreshTokenHash: hashToken(refreshToken),
+    previousRefreshTokenHash: null,
+    sealedRefreshToken: null,
+    rotatedAt: null,
+    userAgent: String(req.headers["user-agent"] || "") || null,
+    ip: clientIp(req),
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: refreshExpiry(),
+    revokedAt: null,
+    revokedReason: null,
+  });
+
+  const sessionId = insertedId.toString();
+  return { ...signAccessToken(claims, sessionId), refreshToken, sessionId };
+}
+
+/**
+ * Exchange a refresh token for a new access + refresh token pair. The token
+ * it replaced still returns the current pair for ROTATION_GRACE_MS (parallel
+ * refreshes from several tabs); presented after that it means the token was
+ * copied, so the whole session is revoked.
+ */
+export async function rotateRefreshToken(req: Request, refreshToken: string): Promise<IssuedSession> {
+  const db = getDatabase();
+  const sessions = db.collection(SESSIONS_COLLECTION);
+  const hash = hashToken(refreshToken);
+
+  const session = await sessions.findOne({
+    $or: [{ refreshTokenHash: hash }, { previousRefreshTokenHash: hash }],
+  });
+  if (!session) throw new SessionError("Invalid refresh token", "INVALID_REFRESH_TOKEN");
+
+  if (session.revokedAt || session.expiresAt <= new Date()) {
+    throw new SessionError("Session expired or revoked", "SESSION_REVOKED");
+  }
+  const current = session.refreshTokenHash === hash ? null : graceRefreshToken(session, hash);
+  if (session.refreshTokenHash !== hash && !current) {
+    await revokeSession(session._id, "refresh_token_reuse");
+    throw new SessionError("Refresh token reuse detected", "SESSION_REVOKED");
+  }
+
+  const user = await db
+    .collection("users")
+    .findOne({ _id: session.userId }, { projection: { password: 0 } });
+  if (!user || BLOCKED_ACCOUNT_STATUSES.includes(String(user.status || "active"))) {
+    await revokeSession(session._id, "account_inactive");
+    throw new SessionError("Account is not active", "ACCOUNT_INACTIVE");
+  }
+
+  // refresh the claims so role/userType changes land on the next token
+  const claims = { ...session.claims, ...accessClaimsFor(user) };
+  const sessionId = session._id.toString();
+  if (current) return { ...signAccessToken(claims, sessionId), refreshToken: current, sessionId };
+
+  const next = newRefreshToken();
+  const now = new Date();
+  const rotated = await sessions.updateOne(
+    { _id: session._id, refreshTokenHash: hash, revokedAt: null },
+    {
+      $set: {
+        claims,
+        refreshTokenHash: hashToken(next),
+        previousRefreshTokenHash: hash,
+        sealedRefreshToken: sealToken(next),
+        rotatedAt: now,
+        lastUsedAt: now,
+        ip: clientIp(req),
+        expiresAt: refreshExpiry(),
+      },
+    },
+  );
+  if (!rotated.modifiedCount) {
+    // lost a race with a parallel refresh of the same token: hand over the pair it produced
+    const winner = graceRefreshToken(await sessions.findOne({ _id: session._id, revokedAt: null }), hash);
+    if (!winner) throw new SessionError("Invalid refresh token", "INVALID_REFRESH_TOKEN");
+    return { ...signAccessToken(claims, sessionId), refreshToken: winner, sessionId };
+  }
+
+  return { ...signAccessToken(claims, sessionId), refreshToken: next, sessionId };
+}
+
+/* ------------------------------ revocation ------------------------------ */
+
+// sid -> { revoked, checkedAt }; userId -> { validAfter, checkedAt }
+const sessionCache = new Map<string, { revoked: boolean; checkedAt: number }>();
+const userCache = new Map<string, { validAfter: number; checkedAt: number }>();
+
+export async function revokeSession(sessionId: string | ObjectId, reason = "logout", userId?: string) {
+  if (!ObjectId.isValid(String(sessionId))) return false;
+  const filter: any = { _id: new ObjectId(String(sessionId)), revokedAt: null };
+  if (userId) filter.userId = new ObjectId(userId);
+
+  const result = await getDatabase()
+    .collection(SESSIONS_COLLECTION)
+    .updateOne(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+  sessionCache.delete(String(sessionId));
+  return result.modifiedCount > 0;
+}
+
+/** Logout path: the access token may already be expired, the refresh token isn't. */
+export async function revokeSessionByRefreshToken(refreshToken: string, reason = "logout") {
+  const session = await getDatabase()
+    .collection(SESSIONS_COLLECTION)
+    .findOne({ refreshTokenHash: hashToken(refreshToken) }, { projection: { _id: 1 } });
+  return session ? revokeSession(session._id, reason) : false;
+}
+
+/**
+ * Revoke every session of a user (optionally keeping the caller's own). When
+ * nothing is kept, tokens issued before now are rejected as well — this also
+ * covers legacy tokens that carry no session id.
+ */
+export async function revokeUserSessions(
+  userId: string | ObjectId,
+  reason: string,
+  exceptSessionId?: string,
+) {
+  if (!ObjectId.isValid(String(userId))) return 0;
+  const db = getDatabase();
+  const uid = new ObjectId(String(userId));
+
+  const filter: any = { userId: uid, revokedAt: null };
+  if (exceptSessionId && ObjectId.isValid(exceptSessionId)) {
+    filter._id = { $ne: new ObjectId(exceptSessionId) };
+  }
+  const result = await db
+    .collection(SESSIONS_COLLECTION)
+    .updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+
+  if (!exceptSessionId) {
+    await db.collection("users").updateOne({ _id: uid }, { $set: { tokensValidAfter: new Date() } });
+  }
+  sessionCache.clear();
+  userCache.delete(uid.toString());
+  return result.modifiedCount;
+}
+
+/**
+ * Whether a verified access token has been revoked, via its session or the
+ * user's `tokensValidAfter` cut-off. Cached briefly; fails open on DB errors so
+ * a database blip doesn't log everyone out.
+ */
+export async function isAccessTokenRevoked(decoded: any, userId: string): Promise<boolean> {
+  const now = Date.now();
+  try {
+    const db = getDatabase();
+
+    if (ObjectId.isValid(userId)) {
+      let entry = userCache.get(userId);
+      if (!entry || now - entry.checkedAt > REVOCATION_CACHE_MS) {
+        const user = await db
+          .collection("users")
+          .findOne({ _id: new ObjectId(userId) }, { projection: { tokensValidAfter: 1 } });
+        entry = { validAfter: user?.tokensValidAfter?.getTime?.() || 0, checkedAt: now };
+        userCache.set(userId, entry);
+      }
+      // iat has second precision
+      if (decoded?.iat && decoded.iat * 1000 < entry.validAfter - 999) return true;
+    }
+
+    const sid = decoded?.sid ? String(decoded.sid) : null;
+    if (sid && ObjectId.isValid(sid)) {
+      let entry = sessionCache.get(sid);
+      if (!entry || now - entry.checkedAt > REVOCATION_CACHE_MS) {
+        const session = await db
+          .collection(SESSIONS_COLLECTION)
+          .findOne({ _id: new ObjectId(sid) }, { projection: { revokedAt: 1 } });
+        entry = { revoked: !session || Boolean(session.revokedAt), checkedAt: now };
+        sessionCache.set(sid, entry);
+      }
+      return entry.revoked;
+    }
+    return false;
+  } catch (e: any) {
+    console.warn("Session revocation check failed:", e?.message || e);
+    return false;
+  }
+}
+
+export async function ensureSessionIndexes(db: Db) {
+  const col = db.collection(SESSIONS_COLLECTION);
+  await col.createIndex({ refreshTokenHash: 1 });
+  await col.createIndex({ previousRefreshTokenHash: 1 });
+  await col.createIndex({ userId: 1, revokedAt: 1 });
+  // drop sessions a week after their refresh token lapses
+  await col.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+}
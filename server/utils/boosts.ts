@@ -0,0 +1,219 @@
+// server/utils/boosts.ts
+// Listing boosts ("bump to top"). A boost stamps `boostedAt`/`boostUntil` on
+// the listing and public lists rank it by `boostedAt` instead of `createdAt`
+// until the window ends, after which it drops back to its posting date with
+// no clean-up needed.
+//
+// Boosts are paid for with a `boosts` credit from a package (see
+// entitlements.ts) or by buying the boost package through a gateway, which
+// lands in activateEntitlement like any other package.
+import { Db, ObjectId } from "mongodb";
+import {
+  BOOST_PACKAGE_DEFAULTS,
+  BOOST_WINDOW_DAYS,
+  BoostSource,
+  PropertyBoost,
+} from "@shared/boosts";
+import { VERIFIED_RANK_BOOST_DAYS } from "@shared/sellerVerification";
+
+export const BOOSTS_COLLECTION = "property_boosts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BoostError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+export const isBoosted = (property: any, now: Date = new Date()) =>
+  !!property?.boostUntil && new Date(property.boostUntil) > now;
+
+/**
+ * Aggregation stages for the default "newest first" order: a boosted
+ * listing sorts as if it had been posted when it was boosted, and a
+ * verified seller's listing as if posted VERIFIED_RANK_BOOST_DAYS later.
+ */
+export function rankedSortStages(now: Date = new Date()) {
+  // older listings store these as strings; anything unparseable sorts as oldest
+  const asDate = (field: string) => ({
+    $convert: { input: field, to: "date", onError: new Date(0), onNull: new Date(0) },
+  });
+  return [
+    {
+      $addFields: {
+        _rankAt: {
+          $add: [
+            { $cond: [{ $gt: [asDate("$boostUntil"), now] }, asDate("$boostedAt"), asDate("$createdAt")] },
+            { $cond: [{ $eq: ["$sellerVerified", true] }, VERIFIED_RANK_BOOST_DAYS * DAY_MS, 0] },
+          ],
+        },
+      },
+    },
+    { $sort: { _rankAt: -1, _id: -1 } },
+  ];
+}
+
+/** The boost package, created on first use so admins can reprice it. */
+export async function getBoostPackage(db: Db) {
+  const packages = db.collection("ad_packages");
+  const existing = await packages.findOne({ type: "boost", active: true }, { sort: { price: 1 } });
+  if (existing) return existing;
+
+  const now = new Date();
+  const doc = {
+    ...BOOST_PACKAGE_DEFAULTS,
+    features: [...BOOST_PACKAGE_DEFAULTS.features],
+    entitlements: {
+      listings: 0,
+      featuredSlots: 0,
+      boosts: 1,
+      contactReveals: 0,
+      durationDays: BOOST_PACKAGE_DEFAULTS.duration,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { insertedId } = await packages.insertOne(doc);
+  return { _id: insertedId, ...doc };
+}
+
+/** Throws unless `userId` may boost `property` right now. */
+export function assertBoostable(property: any, userId: unknown, now: Date = new Date()) {
+  if (!property) throw new BoostError("Property not found", 404);
+  if (String(property.ownerId) !== String(userId)) {
+    throw new BoostError("You can only boost your own listings", 403);
+  }
+  if (property.status !== "active" || (property.approvalStatus && property.approvalStatus !== "approved")) {
+    throw new BoostError("Only live listings can be boosted");
+  }
+  if (isBoosted(property, now)) {
+    throw new BoostError(
+      `This listing is already boosted until ${new Date(property.boostUntil).toLocaleDateString("en-IN")}`,
+      409,
+    );
+  }
+}
+
+/**
+ * Bump a listing to the top for BOOST_WINDOW_DAYS. A boost bought while an
+ * earlier one is still running restarts the window from now.
+ */
+export async function applyBoost(
+  db: Db,
+  propertyId: ObjectId,
+  opts: { userId: unknown; source: BoostSource; userPackageId?: ObjectId | null; now?: Date },
+) {
+  const now = opts.now || new Date();
+  const boostUntil = new Date(now.getTime() + BOOST_WINDOW_DAYS * DAY_MS);
+
+  const property = await db.collection("properties").findOneAndUpdate(
+    { _id: propertyId },
+    {
+      $set: {
+        boostedAt: now,
+        boostUntil,
+        boostUserPackageId: opts.userPackageId || null,
+        updatedAt: now,
+      },
+    },
+    { returnDocument: "after" },
+  );
+  if (!property) throw new BoostError("Property not found", 404);
+
+  await db.collection(BOOSTS_COLLECTION).insertOne({
+    propertyId,
+    propertyTitle: String(property.title || ""),
+    userId: ObjectId.isValid(String(opts.userId)) ? new ObjectId(String(opts.userId)) : opts.userId,
+    source: opts.source,
+    userPackageId: opts.userPackageId || null,
+    boostedAt: now,
+    boostUntil,
+    viewsAtStart: Number(property.views || 0),
+    createdAt: now,
+  });
+
+  return { propertyId: String(propertyId), boostedAt: now, boostUntil };
+}
+
+/** End any boost a (refunded) package paid for. */
+export async function endBoostsForPackage(db: Db, userPackageId: ObjectId, now: Date = new Date()) {
+  await db
+    .collection("properties")
+    .updateMany(
+      { boostUserPackageId: userPackageId, boostUntil: { $gt: now } },
+      { $set: { boostUntil: now, updatedAt: now } },
+    );
+  await db
+    .collection(BOOSTS_COLLECTION)
+    .updateMany({ userPackageId, boostUntil: { $gt: now } }, { $set: { boostUntil: now, endedEarlyAt: now } });
+}
+
+/**
+ * A seller's boosts with daily views and inquiries over the window before
+ * each boost against the days it has run so far, from `property_analytics`.
+ */
+export async function boostPerformance(db: Db, userId: unknown, now: Date = new Date()): Promise<PropertyBoost[]> {
+  const ids = ObjectId.isValid(String(userId)) ? [new ObjectId(String(userId)), String(userId)] : [userId];
+  const boosts = await db
+    .collection(BOOSTS_COLLECTION)
+    .find({ userId: { $in: ids } })
+    .sort({ boostedAt: -1 })
+    .limit(50)
+    .toArray();
+  if (!boosts.length) return [];
+
+  const earliest = new Date(Math.min(...boosts.map((b) => b.boostedAt.getTime())) - (BOOST_WINDOW_DAYS + 1) * DAY_MS);
+  const days = await db
+    .collection("property_analytics")
+    .find({
+      propertyId: { $in: [...new Set(boosts.map((b) => String(b.propertyId)))] },
+      date: { $gte: earliest },
+    })
+    .project({ propertyId: 1, date: 1, views: 1, inquiries: 1 })
+    .toArray();
+
+  return boosts.map((b) => {
+    // analytics are bucketed by day from midnight; the boost day counts as "during"
+    const boostDay = new Date(b.boostedAt);
+    boostDay.setHours(0, 0, 0, 0);
+    const start = boostDay.getTime();
+    const end = Math.min(new Date(b.boostUntil).getTime(), now.getTime());
+    const before = { views: 0, inquiries: 0 };
+    const during = { views: 0, inquiries: 0 };
+    for (const d of days) {
+      if (d.propertyId !== String(b.propertyId)) continue;
+      const t = new Date(d.date).getTime();
+      const bucket = t >= start && t <= end ? during : t >= start - BOOST_WINDOW_DAYS * DAY_MS && t < start ? before : null;
+      if (!bucket) continue;
+      bucket.views += Number(d.views || 0);
+      bucket.inquiries += Number(d.inquiries || 0);
+    }
+    const daysRun = Math.floor((end - start) / DAY_MS) + 1;
+    const perDay = (n: number, d: number) => Math.round((n / d) * 10) / 10;
+
+    return {
+      _id: String(b._id),
+      propertyId: String(b.propertyId),
+      propertyTitle: b.propertyTitle,
+      userId: String(b.userId),
+      source: b.source,
+      boostedAt: new Date(b.boostedAt).toISOString(),
+      boostUntil: new Date(b.boostUntil).toISOString(),
+      active: new Date(b.boostUntil) > now,
+      viewsPerDayBefore: perDay(before.views, BOOST_WINDOW_DAYS),
+      viewsPerDayDuring: perDay(during.views, daysRun),
+      inquiriesBefore: before.inquiries,
+      inquiriesDuring: during.inquiries,
+    };
+  });
+}
+
+export async function ensureBoostIndexes(db: Db) {
+  await db.collection(BOOSTS_COLLECTION).createIndex({ userId: 1, boostedAt: -1 });
+  await db.collection(BOOSTS_COLLECTION).createIndex({ userPackageId: 1 });
+  await db.collection("properties").createIndex({ boostUntil: 1 }, { sparse: true });
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import { ObjectId } from "mongodb";
+import { UNLIMITED } from "@shared/entitlements";
+import { QuotaError, claimEntitlement, releaseEntitlement, requireEntitlement } from "./entitlements";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-06-01T00:00:00Z");
+const userId = new ObjectId();
+
+// Just the query operators the claim and release filters use, on dotted
+// paths: equality, $in, $gt, $or, and $expr with $lt/$ifNull.
+const get = (doc: any, path: string) => path.split(".").reduce((v, k) => v?.[k], doc);
+const same = (a: any, b: any) => String(a) === String(b) && typeof a === typeof b;
+const expr = (doc: any, e: any): any => {
+  if (typeof e === "string" && e.startsWith("$")) return get(doc, e.slice(1));
+  if (e?.$ifNull) return expr(doc, e.$ifNull[0]) ?? expr(doc, e.$ifNull[1]);
+  if (e?.$lt) return expr(doc, e.$lt[0]) < expr(doc, e.$lt[1]);
+  return e;
+};
+const matches = (doc: any, filter: Record<string, any>): boolean =>
+  Object.entries(filter).every(([k, v]) => {
+    if (k === "$or") return v.some((f: any) => matches(doc, f));
+    if (k === "$expr") return expr(doc, v);
+    const value = get(doc, k);
+    if (v?.$in) return v.$in.some((x: any) => same(value, x));
+    if (v?.$gt !== undefined) return value > v.$gt;
+    return same(value, v);
+  });
+
+function fakeDb(rows: any[]) {
+  const apply = (doc: any, update: any) => {
+    for (const [path, by] of Object.entries<number>(update.$inc || {})) {
+      const [head, key] = path.split(".");
+      doc[head] = { ...doc[head], [key]: (doc[head]?.[key] || 0) + by };
+    }
+    Object.assign(doc, update.$set);
+  };
+  return {
+    collection: () => ({
+      findOneAndUpdate: async (filter: any, update: any) => {
+        const doc = rows
+          .filter((r) => matches(r, filter))
+          .sort((a, b) => a.endDate - b.endDate)[0];
+        if (!doc) return null;
+        apply(doc, update);
+        return doc;
+      },
+      updateOne: async (filter: any, update: any) => {
+        const doc = rows.find((r) => matches(r, filter));
+        if (doc) apply(doc, update);
+      },
+    }),
+  } as any;
+}
+
+const userPackage = (entitlements: Record<string, number>, featuresUsed: Record<string, number> = {}, days = 30) => ({
+  _id: new ObjectId(),
+  userId,
+  packageId: new ObjectId(),
+  status: "active",
+  paymentStatus: "paid",
+  endDate: new Date(now.getTime() + days * DAY_MS),
+  entitlements,
+  featuresUsed,
+});
+
+describe("claimEntitlement", () => {
+  it("spends up to the package limit and then returns null", async () => {
+    const row = userPackage({ featuredSlots: 2 });
+    const db = fakeDb([row]);
+
+    expect(await claimEntitlement(db, userId, "featuredSlots", { now })).toBe(row);
+    expect(await claimEntitlement(db, userId, "featuredSlots", { now })).toBe(row);
+    expect(await claimEntitlement(db, userId, "featuredSlots", { now })).toBeNull();
+    expect(row.featuresUsed.featuredSlots).toBe(2);
+  });
+
+  it("never runs out of an unlimited entitlement", async () => {
+    const row = userPackage({ listings: UNLIMITED }, { listings: 500 });
+    expect(await claimEntitlement(fakeDb([row]), userId, "listings", { now })).toBe(row);
+    expect(row.featuresUsed.listings).toBe(501);
+  });
+
+  it("spends from the soonest-expiring package first", async () => {
+    const later = userPackage({ listings: 5 }, {}, 60);
+    const sooner = userPackage({ listings: 5 }, {}, 10);
+    const db = fakeDb([later, sooner]);
+
+    expect(await claimEntitlement(db, userId, "listings", { now })).toBe(sooner);
+  });
+
+  it("skips expired packages and other users' packages", async () => {
+    const expired = userPackage({ listings: 5 }, {}, -1);
+    const someoneElse = { ...userPackage({ listings: 5 }), userId: new ObjectId() };
+
+    expect(await claimEntitlement(fakeDb([expired, someoneElse]), userId, "listings", { now })).toBeNull();
+  });
+
+  it("only spends from the package asked for", async () => {
+    const picked = userPackage({ listings: 1 }, { listings: 1 });
+    const other = userPackage({ listings: 5 });
+
+    const row = await claimEntitlement(fakeDb([picked, other]), userId, "listings", {
+      packageId: picked.packageId,
+      now,
+    });
+    expect(row).toBeNull();
+    expect(other.featuresUsed).toEqual({});
+  });
+});
+
+describe("requireEntitlement", () => {
+  it("throws a 403 QuotaError naming what ran out", async () => {
+    const db = fakeDb([userPackage({ featuredSlots: 1 }, { featuredSlots: 1 })]);
+
+    const error = await requireEntitlement(db, userId, "featuredSlots", { now }).catch((e) => e);
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error).toMatchObject({ entitlement: "featuredSlots", status: 403 });
+  });
+});
+
+describe("releaseEntitlement", () => {
+  it("gives a claimed unit back", async () => {
+    const row = userPackage({ featuredSlots: 1 });
+    const db = fakeDb([row]);
+
+    await requireEntitlement(db, userId, "featuredSlots", { now });
+    await releaseEntitlement(db, row._id, "featuredSlots");
+    expect(row.featuresUsed.featuredSlots).toBe(0);
+    expect(await claimEntitlement(db, userId, "featuredSlots", { now })).toBe(row);
+  });
+
+  it("never takes usage below zero", async () => {
+    const row = userPackage({ featuredSlots: 1 }, { featuredSlots: 0 });
+
+    await releaseEntitlement(fakeDb([row]), row._id, "featuredSlots");
+    expect(row.featuresUsed.featuredSlots).toBe(0);
+  });
+
+  it("ignores a missing package id", async () => {
+    const row = userPackage({ featuredSlots: 1 }, { featuredSlots: 1 });
+
+    await releaseEntitlement(fakeDb([row]), null, "featuredSlots");
+    expect(row.featuresUsed.featuredSlots).toBe(1);
+  });
+});
@@ -0,0 +1,223 @@
+// server/utils/entitlements.ts
+// What a seller's active packages allow, and the one place that spends it.
+//
+// Each `user_packages` row carries an `entitlements` snapshot taken when the
+// package was bought and counts what has been spent in `featuresUsed`.
+// Claims are a single conditional $inc, so two listings posted at once
+// can't both take the last slot.
+import { Db, ObjectId } from "mongodb";
+import {
+  ENTITLEMENT_KEYS,
+  ENTITLEMENT_LABELS,
+  EntitlementKey,
+  PackageEntitlements,
+  QuotaSummary,
+  UNLIMITED,
+  resolveEntitlements,
+} from "@shared/entitlements";
+
+const USER_PACKAGES = "user_packages";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class QuotaError extends Error {
+  constructor(
+    message: string,
+    public entitlement: EntitlementKey,
+    public status = 403,
+  ) {
+    super(message);
+  }
+}
+
+const idVariants = (v: unknown) =>
+  ObjectId.isValid(String(v)) ? [new ObjectId(String(v)), String(v)] : [String(v)];
+
+function activePackagesFilter(userId: unknown, now: Date) {
+  return {
+    userId: { $in: idVariants(userId) },
+    status: "active",
+    paymentStatus: "paid",
+    endDate: { $gt: now },
+  };
+}
+
+/**
+ * `featuresUsed` for a new purchase. `propertyId` is the listing it was
+ * bought for, which has already spent a listing (or, for a boost, a boost).
+ */
+export function initialUsage(entitlements: PackageEntitlements, propertyId?: unknown, boughtFor: "listing" | "boost" = "listing") {
+  const listing = !!propertyId && boughtFor === "listing";
+  return {
+    listings: listing ? 1 : 0,
+    maxListings: entitlements.listings === UNLIMITED ? 999 : entitlements.listings,
+    featuredSlots: listing && entitlements.featuredSlots !== 0 ? 1 : 0,
+    boosts: propertyId && boughtFor === "boost" ? 1 : 0,
+    contactReveals: 0,
+    views: 0,
+    inquiries: 0,
+  };
+}
+
+/**
+ * Spend one unit of `key` from the user's active packages, soonest-expiring
+ * first. Returns the package row it came from, or null if nothing is left.
+ */
+export async function claimEntitlement(
+  db: Db,
+  userId: unknown,
+  key: EntitlementKey,
+  opts: { packageId?: unknown; userPackageId?: ObjectId; now?: Date } = {},
+) {
+  const now = opts.now || new Date();
+  const limit = `entitlements.${key}`;
+  const used = `featuresUsed.${key}`;
+  return db.collection(USER_PACKAGES).findOneAndUpdate(
+    {
+      ...activePackagesFilter(userId, now),
+      ...(opts.packageId ? { packageId: { $in: idVariants(opts.packageId) } } : {}),
+      ...(opts.userPackageId ? { _id: opts.userPackageId } : {}),
+      $or: [{ [limit]: UNLIMITED }, { $expr: { $lt: [{ $ifNull: [`$${used}`, 0] }, `$${limit}`] } }],
+    },
+    {
+      $inc: { [used]: 1 },
+      $set: { updatedAt: now },
+    },
+    { sort: { endDate: 1 }, returnDocument: "after" },
+  );
+}
+
+/** claimEntitlement, or a QuotaError explaining what ran out. */
+export async function requireEntitlement(
+  db: Db,
+  userId: unknown,
+  key: EntitlementKey,
+  opts: { packageId?: unknown; now?: Date } = {},
+) {
+  const row = await claimEntitlement(db, userId, key, opts);
+  if (!row) {
+    throw new QuotaError(
+      `No ${ENTITLEMENT_LABELS[key].toLowerCase()} left on your active packages. Buy or upgrade a package to continue.`,
+      key,
+    );
+  }
+  return row;
+}
+
+/** Give back a unit claimed for something that didn't go ahead or was undone. */
+export async function releaseEntitlement(db: Db, userPackageId: unknown, key: EntitlementKey) {
+  if (!userPackageId || !ObjectId.isValid(String(userPackageId))) return;
+  await db
+    .collection(USER_PACKAGES)
+    .updateOne(
+      { _id: new ObjectId(String(userPackageId)), [`featuresUsed.${key}`]: { $gt: 0 } },
+      { $inc: { [`featuresUsed.${key}`]: -1 }, $set: { updatedAt: new Date() } },
+    );
+}
+
+/** The free-listing allowance from `free_ad_settings`, or null when it is switched off. */
+export async function freeListingAllowance(db: Db, userId: unknown, now: Date = new Date()) {
+  const settings: any = (await db.collection("free_ad_settings").findOne({ _id: "default" as any })) || {
+    maxFreeAdsPerMonth: process.env.FREE_POST_LIMIT ? Number(process.env.FREE_POST_LIMIT) : 5,
+    numberOfDays: process.env.FREE_POST_PERIOD_DAYS ? Number(process.env.FREE_POST_PERIOD_DAYS) : 30,
+    isActive: true,
+  };
+  if (!settings.isActive) return null;
+
+  const used = await db.collection("properties").countDocuments({
+    ownerId: String(userId),
+    createdAt: { $gte: new Date(now.getTime() - settings.numberOfDays * DAY_MS) },
+    $or: [{ packageId: { $exists: false } }, { packageId: null }, { isPaid: false }],
+  });
+  const limit = Number(settings.maxFreeAdsPerMonth);
+  return { limit, used, remaining: Math.max(0, limit - used), periodDays: Number(settings.numberOfDays) };
+}
+
+/** Remaining quota across every active package, for the seller dashboard. */
+export async function getQuotaSummary(db: Db, userId: unknown, now: Date = new Date()): Promise<QuotaSummary> {
+  const rows = await db
+    .collection(USER_PACKAGES)
+    .find({ ...activePackagesFilter(userId, now), entitlements: { $exists: true } })
+    .sort({ endDate: 1 })
+    .toArray();
+
+  const quotas = {} as QuotaSummary["quotas"];
+  for (const key of ENTITLEMENT_KEYS) {
+    let limit = 0;
+    let used = 0;
+    for (const row of rows) {
+      const l = Number(row.entitlements?.[key] ?? 0);
+      used += Number(row.featuresUsed?.[key] || 0);
+      limit = limit === UNLIMITED || l === UNLIMITED ? UNLIMITED : limit + l;
+    }
+    quotas[key] = { limit, used, remaining: limit === UNLIMITED ? UNLIMITED : Math.max(0, limit - used) };
+  }
+
+  return {
+    quotas,
+    freeListings: await freeListingAllowance(db, userId, now),
+    packages: rows.map((row) => ({
+      _id: String(row._id),
+      packageName: row.packageName,
+      endDate: row.endDate,
+      entitlements: row.entitlements,
+      used: Object.fromEntries(ENTITLEMENT_KEYS.map((k) => [k, Number(row.featuresUsed?.[k] || 0)])) as any,
+    })),
+  };
+}
+
+/**
+ * Give packages created before structured entitlements an `entitlements`
+ * field inferred from their type and feature copy, and snapshot those onto
+ * purchases that don't have one. Only touches documents without the field,
+ * so it is safe to run on every start.
+ */
+export async function migratePackageEntitlements(db: Db) {
+  const stats = { packages: 0, userPackages: 0 };
+  const byId = new Map<string, any>();
+
+  for (const name of ["ad_packages", "packages"]) {
+    const packages = await db.collection(name).find({}).toArray();
+    for (const pkg of packages) {
+      byId.set(String(pkg._id), pkg);
+      if (pkg.entitlements) continue;
+      const entitlements = resolveEntitlements(pkg);
+      pkg.entitlements = entitlements;
+      await db.collection(name).updateOne({ _id: pkg._id }, { $set: { entitlements } });
+      stats.packages++;
+    }
+  }
+
+  const purchases = await db
+    .collection(USER_PACKAGES)
+    .find({ entitlements: { $exists: false } })
+    .toArray();
+  for (const row of purchases) {
+    const entitlements = resolveEntitlements(
+      byId.get(String(row.packageId)) || {
+        type: row.packageType,
+        duration: row.duration,
+        maxListings: row.featuresUsed?.maxListings,
+      },
+    );
+    // a package bought for one listing has already spent that listing
+    const usage = initialUsage(entitlements, row.propertyId);
+    // Written whole: older rows have `featuresUsed: null`, which a dotted $set can't descend into
+    const previous =
+      row.featuresUsed && typeof row.featuresUsed === "object" && !Array.isArray(row.featuresUsed)
+        ? row.featuresUsed
+        : {};
+    const featuresUsed = {
+      ...previous,
+      listings: Math.max(Number(previous.listings || 0), usage.listings),
+      featuredSlots: usage.featuredSlots,
+      boosts: 0,
+      contactReveals: 0,
+    };
+    await db
+      .collection(USER_PACKAGES)
+      .updateOne({ _id: row._id }, { $set: { entitlements, featuresUsed } });
+    stats.userPackages++;
+  }
+
+  return stats;
+}
@@ -0,0 +1,126 @@
+// server/utils/geo.ts
+// Geo helpers for property search. Listings keep the UI-friendly
+// `location.coordinates: {lat, lng}`; a GeoJSON mirror in `location.geo`
+// backs the 2dsphere index used by /api/properties/nearby and /within.
+import { Db } from "mongodb";
+
+export const PROPERTY_GEO_FIELD = "location.geo";
+export const PROPERTY_GEO_INDEX = "property_geo";
+
+export interface GeoPoint {
+  type: "Point";
+  coordinates: [number, number]; // [lng, lat]
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export const isValidLatLng = (lat: any, lng: any) =>
+  typeof lat === "number" &&
+  typeof lng === "number" &&
+  Number.isFinite(lat) &&
+  Number.isFinite(lng) &&
+  lat >= -90 &&
+  lat <= 90 &&
+  lng >= -180 &&
+  lng <= 180 &&
+  // 0,0 is what half-filled forms send; never a real Rohtak listing
+  !(lat === 0 && lng === 0);
+
+export function toGeoPoint(coordinates: any): GeoPoint | null {
+  const lat = Number(coordinates?.lat);
+  const lng = Number(coordinates?.lng);
+  if (!isValidLatLng(lat, lng)) return null;
+  return { type: "Point", coordinates: [lng, lat] };
+}
+
+/** Return the location with `geo` kept in sync with `coordinates`. */
+export function withGeoPoint<T extends Record<string, any>>(location: T): T {
+  if (!location || typeof location !== "object") return location;
+  const geo = toGeoPoint(location.coordinates);
+  const { geo: _old, ...rest } = location as any;
+  return (geo ? { ...rest, geo } : rest) as T;
+}
+
+// Great-circle distance in km
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const R = 6371;
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Parse a user-drawn polygon ([{lat,lng}] or [[lat,lng]]) into a closed
+ * GeoJSON ring. Returns null if it has fewer than 3 distinct valid points.
+ */
+export function toGeoPolygon(points: any, maxPoints = 100) {
+  if (!Array.isArray(points) || points.length > maxPoints + 1) return null;
+
+  const ring: [number, number][] = [];
+  for (const p of points) {
+    const lat = Number(Array.isArray(p) ? p[0] : p?.lat);
+    const lng = Number(Array.isArray(p) ? p[1] : p?.lng);
+    if (!isValidLatLng(lat, lng)) return null;
+    ring.push([lng, lat]);
+  }
+
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (ring.length && (first[0] !== last[0] || first[1] !== last[1])) {
+    ring.push(first);
+  }
+  if (ring.length < 4) return null;
+
+  return { type: "Polygon" as const, coordinates: [ring] };
+}
+
+// Average of the ring's vertices (good enough as a reference point for small areas)
+export function polygonCentroid(polygon: { coordinates: [number, number][][] }): LatLng {
+  const ring = polygon.coordinates[0].slice(0, -1);
+  const sum = ring.reduce((acc, [lng, lat]) => ({ lat: acc.lat + lat, lng: acc.lng + lng }), {
+    lat: 0,
+    lng: 0,
+  });
+  return { lat: sum.lat / ring.length, lng: sum.lng / ring.length };
+}
+
+/**
+ * Create the 2dsphere index and backfill `location.geo` for listings that
+ * only have lat/lng (idempotent, safe to run on every boot).
+ */
+export async function ensurePropertyGeoIndexes(db: Db) {
+  try {
+    const backfill = await db.collection("properties").updateMany(
+      {
+        [PROPERTY_GEO_FIELD]: { $exists: false },
+        "location.coordinates.lat": { $type: "number", $gte: -90, $lte: 90, $ne: 0 },
+        "location.coordinates.lng": { $type: "number", $gte: -180, $lte: 180, $ne: 0 },
+      },
+      [
+        {
+          $set: {
+            [PROPERTY_GEO_FIELD]: {
+              type: "Point",
+              coordinates: ["$location.coordinates.lng", "$location.coordinates.lat"],
+            },
+          },
+        },
+      ],
+    );
+
+    await db
+      .collection("properties")
+      .createIndex({ [PROPERTY_GEO_FIELD]: "2dsphere" }, { name: PROPERTY_GEO_INDEX });
+
+    return { backfilled: backfill.modifiedCount };
+  } catch (e: any) {
+    console.warn("⚠️ Property geo index not created:", e?.message || e);
+    return { backfilled: 0, error: e?.message || String(e) };
+  }
+}
@@ -0,0 +1,359 @@
+// server/utils/invoices.ts
+// Tax invoices for paid purchases. One invoice per ledger row, numbered
+// INV/<financial year>/<seq>: the invoice row is claimed (unique on
+// ledgerId) before a number is taken, so retried activations and the
+// reconciliation backfill never invoice a payment twice. The PDF is rendered
+// once and stored on the invoice; the source payment record gets the number.
+//
+// Supplier details and the tax rate come from admin_settings.invoice, falling
+// back to INVOICE_* env vars. Package prices are GST-inclusive by default.
+import { Binary, Db, ObjectId } from "mongodb";
+import { InvoiceParty, computeGst, gstStateCode, gstStateName, isValidGstin } from "@shared/gst";
+import { LedgerSource } from "@shared/paymentLedger";
+import { SimplePdf } from "./simplePdf";
+import { LEDGER_COLLECTION } from "./paymentLedger";
+import { REFUNDS_COLLECTION } from "./paymentRefunds";
+
+export const INVOICES_COLLECTION = "invoices";
+const COUNTERS_COLLECTION = "payment_counters";
+const CLAIM_TTL_MS = 5 * 60 * 1000;
+// The business is in Rohtak; without a configured GSTIN/state, sales within
+// Haryana must still be billed as CGST + SGST
+const DEFAULT_SUPPLIER_STATE = "06";
+
+/** Indian financial year (April–March) a date falls in, e.g. "2026-27". */
+export function financialYear(date: Date) {
+  const y = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${y}-${String((y + 1) % 100).padStart(2, "0")}`;
+}
+
+/** Next number in a per-financial-year series, e.g. INV/2026-27/0001. */
+export async function nextDocumentNumber(db: Db, prefix: "INV" | "CN", date: Date) {
+  const fy = financialYear(date);
+  const counter = await db
+    .collection(COUNTERS_COLLECTION)
+    .findOneAndUpdate(
+      { _id: `${prefix === "INV" ? "invoice" : "credit_note"}:${fy}` as any },
+      { $inc: { seq: 1 } },
+      { upsert: true, returnDocument: "after" },
+    );
+  return { number: `${prefix}/${fy}/${String(counter?.seq || 1).padStart(4, "0")}`, financialYear: fy };
+}
+
+export interface InvoiceSettings {
+  supplier: InvoiceParty;
+  sac: string; // services accounting code printed on each line
+  gstRate: number;
+  pricesIncludeGst: boolean;
+}
+
+export async function loadInvoiceSettings(db: Db): Promise<InvoiceSettings> {
+  const settings = await db.collection("admin_settings").findOne({});
+  const cfg = settings?.invoice || {};
+  const gstin = String(cfg.gstin || process.env.INVOICE_GSTIN || "").toUpperCase();
+  return {
+    supplier: {
+      name: cfg.legalName || process.env.INVOICE_LEGAL_NAME || "Ashish Properties",
+      gstin: gstin || null,
+      address: cfg.address || process.env.INVOICE_ADDRESS || "",
+      stateCode:
+        gstStateCode(cfg.stateCode || cfg.state || process.env.INVOICE_STATE) ||
+        (gstin ? gstin.slice(0, 2) : DEFAULT_SUPPLIER_STATE),
+      email: cfg.email || process.env.INVOICE_EMAIL || "",
+    },
+    sac: String(cfg.sac || "998365"), // sale of internet advertising space
+    gstRate: Number(cfg.gstRate ?? 18),
+    pricesIncludeGst: cfg.pricesIncludeGst !== false,
+  };
+}
+
+/** Bill-to details from the buyer's saved billing profile, else their account. */
+function buyerFromUser(user: any, fallbackStateCode: string): InvoiceParty {
+  const billing = user?.billing || {};
+  const gstin = isValidGstin(billing.gstin) ? String(billing.gstin).toUpperCase() : null;
+  return {
+    name: billing.legalName || user?.name || "Customer",
+    gstin,
+    address: billing.address || "",
+    // a registered buyer's GSTIN fixes the place of supply; otherwise their
+    // billing state, or ours when we don't know it
+    stateCode: (gstin && gstin.slice(0, 2)) || gstStateCode(billing.stateCode || billing.state) || fallbackStateCode,
+    email: user?.email || "",
+    phone: user?.phone || "",
+  };
+}
+
+async function describePurchase(db: Db, entry: any) {
+  if (entry.purpose === "ad_campaign") {
+    const campaign = entry.campaignId
+      ? await db.collection("ad_campaigns").findOne({ _id: entry.campaignId })
+      : null;
+    return campaign
+      ? `Banner advertising (${campaign.slot}), ${campaign.startDate} to ${campaign.endDate}`
+      : "Banner advertising";
+  }
+  const pkg = entry.packageId
+    ? (await db.collection("ad_packages").findOne({ _id: entry.packageId })) ||
+      (await db.collection("packages").findOne({ _id: entry.packageId }))
+    : null;
+  const name = pkg?.name || "Listing package";
+  return pkg?.duration ? `${name} (${pkg.duration} days)` : name;
+}
+
+const money = (n: number) => Number(n || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function renderInvoicePdf(invoice: any): Buffer {
+  const pdf = new SimplePdf();
+  const { supplier, buyer, gst } = invoice;
+
+  pdf.heading("Tax Invoice", 18);
+  pdf.keyValues([
+    ["Invoice no.", invoice.invoiceNumber],
+    ["Invoice date", new Date(invoice.issuedAt).toLocaleDateString("en-IN")],
+    ["Payment ref.", invoice.paymentRef || String(invoice.sourceId)],
+    ["Place of supply", `${gstStateName(invoice.placeOfSupply)} (${invoice.placeOfSupply})`],
+  ]);
+
+  pdf.heading("Supplier", 12);
+  pdf.keyValues([
+    ["Name", supplier.name],
+    ["GSTIN", supplier.gstin || "-"],
+    ["Address", supplier.address || "-"],
+    ["State", `${gstStateName(supplier.stateCode)} (${supplier.stateCode})`],
+  ]);
+
+  pdf.heading("Bill to", 12);
+  pdf.keyValues([
+    ["Name", buyer.name],
+    ["GSTIN", buyer.gstin || "Unregistered"],
+    ["Address", buyer.address || "-"],
+    ["State", `${gstStateName(buyer.stateCode)} (${buyer.stateCode})`],
+    ["Email", buyer.email || "-"],
+  ]);
+
+  const half = gst.rate / 2;
+  const rows = [["1", invoice.description, invoice.sac, money(gst.taxableValue)]];
+  if (gst.interState) {
+    rows.push(["", `IGST @ ${gst.rate}%`, "", money(gst.igst)]);
+  } else {
+    rows.push(["", `CGST @ ${half}%`, "", money(gst.cgst)]);
+    rows.push(["", `SGST @ ${half}%`, "", money(gst.sgst)]);
+  }
+  rows.push(["", "Total (Rs.)", "", money(gst.total)]);
+  pdf.table(
+    [
+      { header: "#", width: 30 },
+      { header: "Description", width: 285 },
+      { header: "SAC", width: 70 },
+      { header: "Amount (Rs.)", width: 130, align: "right" },
+    ],
+    rows,
+    { boldLastRow: true },
+  );
+
+  pdf.paragraph(
+    buyer.gstin
+      ? "Tax is payable on this supply under forward charge. Reverse charge: No."
+      : "Reverse charge: No.",
+    { size: 9 },
+  );
+  pdf.paragraph("This is a computer-generated invoice and does not need a signature.", { size: 9 });
+  return pdf.toBuffer();
+}
+
+/**
+ * Issue the invoice for a paid ledger row (free and zero-amount purchases
+ * get none). Safe to call repeatedly; returns the existing invoice if one
+ * was already issued.
+ */
+export async function issueInvoice(db: Db, ledgerId: ObjectId, now: Date = new Date()) {
+  const invoices = db.collection(INVOICES_COLLECTION);
+  const entry = await db.collection(LEDGER_COLLECTION).findOne({ _id: ledgerId });
+  if (!entry || entry.kind === "refund" || entry.status !== "paid" || !(Number(entry.amount) > 0)) return null;
+
+  try {
+    await invoices.updateOne(
+      { ledgerId },
+      { $setOnInsert: { ledgerId, status: "issuing", createdAt: now } },
+      { upsert: true },
+    );
+  } catch (e: any) {
+    if (e?.code !== 11000) throw e;
+  }
+  // whoever claims the placeholder numbers it; a claim left behind by a
+  // crashed attempt can be taken over after a few minutes
+  const claimed = await invoices.findOneAndUpdate(
+    {
+      ledgerId,
+      status: "issuing",
+      $or: [{ claimedAt: { $exists: false } }, { claimedAt: { $lt: new Date(now.getTime() - CLAIM_TTL_MS) } }],
+    },
+    { $set: { claimedAt: now } },
+  );
+  if (!claimed) return invoices.findOne({ ledgerId, status: "issued" }, { projection: { pdf: 0 } });
+
+  const settings = await loadInvoiceSettings(db);
+  const user = entry.userId ? await db.collection("users").findOne({ _id: entry.userId }) : null;
+  const buyer = buyerFromUser(user, settings.supplier.stateCode);
+  const gst = computeGst(Number(entry.amount), {
+    rate: settings.gstRate,
+    inclusive: settings.pricesIncludeGst,
+    supplierState: settings.supplier.stateCode,
+    placeOfSupply: buyer.stateCode,
+  });
+  // the number is written to the placeholder as soon as it is taken, so a
+  // failed render or save is retried under the same number instead of
+  // leaving a gap in the series
+  let number: string = claimed.invoiceNumber;
+  let fy: string = claimed.financialYear;
+  let issuedAt: Date = claimed.numberedAt || now;
+  if (!number) {
+    ({ number, financialYear: fy } = await nextDocumentNumber(db, "INV", now));
+    issuedAt = now;
+    await invoices.updateOne(
+      { _id: claimed._id },
+      { $set: { invoiceNumber: number, financialYear: fy, numberedAt: now } },
+    );
+  }
+
+  const invoice: Record<string, any> = {
+    invoiceNumber: number,
+    financialYear: fy,
+    ledgerId,
+    source: entry.source as LedgerSource,
+    sourceId: entry.sourceId,
+    paymentRef: entry.gatewayRef || null,
+    userId: entry.userId || null,
+    supplier: settings.supplier,
+    buyer,
+    placeOfSupply: buyer.stateCode,
+    description: await describePurchase(db, entry),
+    sac: settings.sac,
+    gst,
+    status: "issued",
+    issuedAt,
+  };
+  invoice.pdf = new Binary(renderInvoicePdf(invoice));
+
+  await invoices.updateOne({ ledgerId }, { $set: invoice });
+  const saved = await invoices.findOne({ ledgerId }, { projection: { pdf: 0 } });
+  await db
+    .collection(entry.source)
+    .updateOne({ _id: entry.sourceId }, { $set: { invoiceId: saved!._id, invoiceNumber: number } });
+  await db.collection(LEDGER_COLLECTION).updateOne({ _id: ledgerId }, { $set: { invoiceNumber: number } });
+  return saved;
+}
+
+/** Invoices for paid rows that missed theirs (e.g. PDF rendering failed). */
+export async function issueMissingInvoices(db: Db, since: Date, now: Date = new Date()) {
+  const missing = await db
+    .collection(LEDGER_COLLECTION)
+    .find({
+      kind: { $ne: "refund" },
+      status: "paid",
+      amount: { $gt: 0 },
+      invoiceNumber: null,
+      paidAt: { $gte: since },
+    })
+    .limit(200)
+    .toArray();
+  let issued = 0;
+  for (const entry of missing) {
+    try {
+      if (await issueInvoice(db, entry._id, now)) issued++;
+    } catch (e: any) {
+      console.warn(`Invoice for ledger ${entry._id} failed:`, e?.message || e);
+    }
+  }
+  return issued;
+}
+
+/**
+ * GST collected in a month ("YYYY-MM"): every invoice issued, less the tax
+ * on refunds processed in the month (credit notes), split the same way as
+ * the invoice they reverse.
+ */
+export async function monthlyGstSummary(db: Db, month: string) {
+  const [y, m] = month.split("-").map(Number);
+  const from = new Date(y, m - 1, 1);
+  const to = new Date(y, m, 1);
+
+  const invoices = await db
+    .collection(INVOICES_COLLECTION)
+    .find({ status: "issued", issuedAt: { $gte: from, $lt: to } }, { projection: { pdf: 0 } })
+    .sort({ issuedAt: 1 })
+    .toArray();
+
+  const refunds = await db
+    .collection(REFUNDS_COLLECTION)
+    .find({ status: "processed", processedAt: { $gte: from, $lt: to } })
+    .toArray();
+  const refundedInvoices = await db
+    .collection(INVOICES_COLLECTION)
+    .find({ ledgerId: { $in: refunds.map((r) => r.ledgerId) } }, { projection: { pdf: 0 } })
+    .toArray();
+  const invoiceByLedger = new Map(refundedInvoices.map((i) => [String(i.ledgerId), i]));
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const rows = invoices.map((i) => ({
+    type: "invoice" as "invoice" | "credit_note",
+    number: i.invoiceNumber,
+    date: i.issuedAt,
+    buyer: i.buyer?.name,
+    buyerGstin: i.buyer?.gstin || "",
+    placeOfSupply: i.placeOfSupply,
+    taxableValue: i.gst.taxableValue,
+    cgst: i.gst.cgst,
+    sgst: i.gst.sgst,
+    igst: i.gst.igst,
+    total: i.gst.total,
+  }));
+  for (const r of refunds) {
+    const inv = invoiceByLedger.get(String(r.ledgerId));
+    if (!inv) continue; // refund of a payment that was never invoiced
+    const share = Number(r.amount) / Number(inv.gst.total || 1);
+    rows.push({
+      type: "credit_note" as const,
+      number: r.creditNoteNumber,
+      date: r.processedAt,
+      buyer: inv.buyer?.name,
+      buyerGstin: inv.buyer?.gstin || "",
+      placeOfSupply: inv.placeOfSupply,
+      taxableValue: -round(inv.gst.taxableValue * share),
+      cgst: -round(inv.gst.cgst * share),
+      sgst: -round(inv.gst.sgst * share),
+      igst: -round(inv.gst.igst * share),
+      total: -round(Number(r.amount)),
+    });
+  }
+
+  const totals = rows.reduce(
+    (t, r) => ({
+      taxableValue: round(t.taxableValue + r.taxableValue),
+      cgst: round(t.cgst + r.cgst),
+      sgst: round(t.sgst + r.sgst),
+      igst: round(t.igst + r.igst),
+      total: round(t.total + r.total),
+    }),
+    { taxableValue: 0, cgst: 0, sgst: 0, igst: 0, total: 0 },
+  );
+
+  const byState: Record<string, { taxableValue: number; igst: number; cgst: number; sgst: number }> = {};
+  for (const r of rows) {
+    const s = (byState[r.placeOfSupply] ||= { taxableValue: 0, igst: 0, cgst: 0, sgst: 0 });
+    s.taxableValue = round(s.taxableValue + r.taxableValue);
+    s.igst = round(s.igst + r.igst);
+    s.cgst = round(s.cgst + r.cgst);
+    s.sgst = round(s.sgst + r.sgst);
+  }
+
+  return { month, rows, totals, byState, invoiceCount: invoices.length, creditNoteCount: rows.length - invoices.length };
+}
+
+export async function ensureInvoiceIndexes(db: Db) {
+  const invoices = db.collection(INVOICES_COLLECTION);
+  await invoices.createIndex({ ledgerId: 1 }, { unique: true });
+  await invoices.createIndex({ invoiceNumber: 1 }, { unique: true, sparse: true });
+  await invoices.createIndex({ userId: 1, issuedAt: -1 });
+  await invoices.createIndex({ issuedAt: 1 });
+}
@@ -0,0 +1,429 @@
+// server/utils/leads.ts
+// Agent CRM. Leads belong to an agent and carry their interaction history
+// inline, so the lead manager gets everything in one read.
+//
+// Besides the leads an agent adds by hand, a lead is captured (or an open
+// one bumped) whenever someone enquires on, starts a chat about or taps to
+// call one of the agent's listings. Each of those touches raises the score
+// and pulls the next follow-up forward; the follow-up job reminds agents
+// when one is due.
+import { Db, ObjectId } from "mongodb";
+import {
+  CHANNEL_SCORE,
+  FOLLOWUP_DAYS,
+  HOT_LEAD_SCORE,
+  INTERACTION_TYPES,
+  InteractionOutcome,
+  InteractionType,
+  LEAD_SOURCES,
+  LEAD_STATUSES,
+  LeadChannel,
+  LeadSource,
+  LeadSourceStats,
+  LeadStatus,
+  LeadUrgency,
+  OUTCOME_SCORE,
+  STATUS_PROBABILITY,
+  clampScore,
+  initialLeadScore,
+} from "@shared/leads";
+import { areaDisplayName, areaKeyOf } from "./marketInsights";
+import { sendPushToUser } from "./push";
+
+export const LEADS_COLLECTION = "agent_leads";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLOSED: LeadStatus[] = ["closed", "lost"];
+const BATCH = 500;
+
+export class LeadError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+const str = (v: unknown, max = 500) => String(v ?? "").trim().slice(0, max);
+const money = (v: unknown) => Math.max(0, Number(v) || 0);
+const oneOf = <T extends string>(list: readonly T[], v: unknown, fallback: T): T =>
+  list.includes(v as T) ? (v as T) : fallback;
+const urgencyOf = (v: unknown): LeadUrgency => oneOf(["low", "medium", "high"] as const, v, "medium");
+const followupAfter = (urgency: LeadUrgency, from: Date) =>
+  new Date(from.getTime() + FOLLOWUP_DAYS[urgency] * DAY_MS);
+
+/** Owner of a listing, from whichever field the listing was saved with. */
+export const propertyOwnerId = (p: any) =>
+  String(p?.ownerId ?? p?.sellerId ?? p?.userId ?? p?.owner ?? p?.postedBy ?? p?.createdBy ?? "");
+
+/** Lead document with `_id` as a string and dates as ISO strings, as the page expects. */
+export function serializeLead(doc: any) {
+  const iso = (d: any) => (d ? new Date(d).toISOString() : "");
+  return {
+    ...doc,
+    _id: String(doc._id),
+    assignedDate: iso(doc.assignedDate),
+    lastContact: iso(doc.lastContact),
+    nextFollowup: iso(doc.nextFollowup),
+    conversionDate: doc.conversionDate ? iso(doc.conversionDate) : undefined,
+    interactions: (doc.interactions || []).map((i: any) => ({ ...i, _id: String(i._id), date: iso(i.date) })),
+  };
+}
+
+/** Validated fields for a lead the agent adds or edits; `partial` keeps absent fields out. */
+export function leadInput(body: any, partial = false) {
+  const out: Record<string, any> = {};
+  const has = (k: string) => !partial || body?.[k] !== undefined;
+
+  if (has("name")) {
+    out.name = str(body?.name, 120);
+    if (!out.name) throw new LeadError("Name is required");
+  }
+  if (has("phone")) out.phone = str(body?.phone, 20);
+  if (has("email")) out.email = str(body?.email, 200).toLowerCase();
+  if (!partial && !out.phone && !out.email) throw new LeadError("A phone number or email is required");
+  if (has("source")) out.source = oneOf(LEAD_SOURCES, body?.source, "website");
+  if (has("notes")) out.notes = str(body?.notes, 5000);
+  if (body?.estimatedValue !== undefined) out.estimatedValue = money(body.estimatedValue);
+  if (body?.nextFollowup) {
+    const at = new Date(body.nextFollowup);
+    if (isNaN(at.getTime())) throw new LeadError("Invalid follow-up date");
+    out.nextFollowup = at;
+  }
+  if (has("propertyInterest")) {
+    const pi = body?.propertyInterest || {};
+    const min = money(pi.priceRange?.min);
+    const max = money(pi.priceRange?.max);
+    const list = (v: unknown) =>
+      (Array.isArray(v) ? v : String(v || "").split(","))
+        .map((s) => str(s, 100))
+        .filter(Boolean)
+        .slice(0, 20);
+    out.propertyInterest = {
+      type: oneOf(["buy", "sell", "rent"] as const, pi.type, "buy"),
+      priceRange: { min: Math.min(min, max || min), max: Math.max(min, max) },
+      locations: list(pi.locations),
+      propertyTypes: list(pi.propertyTypes),
+      ...(Number(pi.bedrooms) > 0 ? { bedrooms: Math.round(Number(pi.bedrooms)) } : {}),
+      urgency: urgencyOf(pi.urgency),
+    };
+  }
+  return out;
+}
+
+/** A lead the agent adds by hand. */
+export async function createLead(db: Db, agentId: string, body: any) {
+  const input = leadInput(body);
+  const now = new Date();
+  const doc = {
+    agentId,
+    ...input,
+    status: "new" as LeadStatus,
+    score: initialLeadScore(input.source, input.propertyInterest.urgency),
+    assignedDate: now,
+    lastContact: now,
+    nextFollowup: input.nextFollowup || followupAfter(input.propertyInterest.urgency, now),
+    propertyIds: [] as string[],
+    interactions: [] as any[],
+    convertedToClient: false,
+    estimatedValue: input.estimatedValue ?? input.propertyInterest.priceRange.max,
+    probability: STATUS_PROBABILITY.new,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const result = await db.collection(LEADS_COLLECTION).insertOne(doc);
+  return { ...doc, _id: result.insertedId };
+}
+
+/** Log an interaction; the score moves by `scoreChange`, or by the outcome when none is given. */
+export async function addLeadInteraction(db: Db, lead: any, body: any) {
+  const description = str(body?.description, 2000);
+  if (!description) throw new LeadError("Description is required");
+  const outcome = oneOf<InteractionOutcome>(["positive", "neutral", "negative"], body?.outcome, "neutral");
+  const requested = Math.max(-20, Math.min(20, Math.round(Number(body?.scoreChange) || 0)));
+  const scoreChange = requested || OUTCOME_SCORE[outcome];
+
+  const now = new Date();
+  let nextFollowup = followupAfter(urgencyOf(lead.propertyInterest?.urgency), now);
+  if (body?.nextFollowup) {
+    nextFollowup = new Date(body.nextFollowup);
+    if (isNaN(nextFollowup.getTime())) throw new LeadError("Invalid follow-up date");
+  }
+
+  const interaction = {
+    _id: new ObjectId(),
+    type: oneOf<InteractionType>(INTERACTION_TYPES, body?.type, "call"),
+    date: now,
+    description,
+    outcome,
+    nextAction: str(body?.nextAction, 500),
+    scoreChange,
+  };
+  // the first real conversation moves a new lead along
+  const status: LeadStatus = lead.status === "new" ? "contacted" : lead.status;
+
+  return db.collection(LEADS_COLLECTION).findOneAndUpdate(
+    { _id: lead._id },
+    {
+      $push: { interactions: interaction } as any,
+      $set: {
+        score: clampScore((lead.score || 0) + scoreChange),
+        status,
+        probability: lead.status === status ? lead.probability : STATUS_PROBABILITY[status],
+        lastContact: now,
+        nextFollowup,
+        updatedAt: now,
+      },
+    },
+    { returnDocument: "after" },
+  );
+}
+
+export function statusUpdate(status: unknown) {
+  if (!LEAD_STATUSES.includes(status as LeadStatus)) throw new LeadError("Invalid status");
+  return {
+    status: status as LeadStatus,
+    probability: STATUS_PROBABILITY[status as LeadStatus],
+    updatedAt: new Date(),
+  };
+}
+
+async function notifyAgent(
+  db: Db,
+  agentId: string,
+  note: { type: string; title: string; message: string; leadId?: ObjectId },
+) {
+  if (!ObjectId.isValid(agentId)) return;
+  const sellerId = new ObjectId(agentId);
+  await db.collection("notifications").insertOne({
+    sellerId,
+    ...(note.leadId ? { leadId: note.leadId } : {}),
+    title: note.title,
+    message: note.message,
+    type: note.type,
+    isRead: false,
+    createdAt: new Date(),
+  });
+  await sendPushToUser(db, sellerId, {
+    title: note.title,
+    body: note.message,
+    link: "/leads",
+    data: { type: note.type, ...(note.leadId ? { leadId: String(note.leadId) } : {}) },
+  });
+}
+
+const CHANNEL_INTERACTION: Record<LeadChannel, { type: InteractionType; describe: (title: string) => string }> = {
+  enquiry: { type: "message", describe: (t) => `Sent an enquiry about "${t}"` },
+  chat: { type: "message", describe: (t) => `Started a chat about "${t}"` },
+  phone: { type: "call", describe: (t) => `Tapped to call about "${t}"` },
+};
+
+export interface LeadTouch {
+  propertyId: string;
+  channel: LeadChannel;
+  userId?: string;
+  name?: string;
+  phone?: string;
+  email?: string;
+  message?: string;
+}
+
+/**
+ * Record a buyer reaching out on a listing. Only listings owned by agents
+ * produce leads; touches from someone with an open lead are added to it
+ * instead of creating a duplicate. Returns the lead, or null when there was
+ * nothing to capture.
+ */
+export async function captureLead(db: Db, touch: LeadTouch, now: Date = new Date()) {
+  if (!ObjectId.isValid(touch.propertyId)) return null;
+  const property = await db.collection("properties").findOne({ _id: new ObjectId(touch.propertyId) });
+  const agentId = propertyOwnerId(property);
+  if (!property || !ObjectId.isValid(agentId) || agentId === touch.userId) return null;
+
+  const agent = await db
+    .collection("users")
+    .findOne({ _id: new ObjectId(agentId) }, { projection: { userType: 1 } });
+  if (agent?.userType !== "agent") return null;
+
+  const user =
+    touch.userId && ObjectId.isValid(touch.userId)
+      ? await db
+          .collection("users")
+          .findOne({ _id: new ObjectId(touch.userId) }, { projection: { name: 1, email: 1, phone: 1 } })
+      : null;
+  const name = str(touch.name || user?.name, 120);
+  const phone = str(touch.phone || user?.phone, 20);
+  const email = str(touch.email || user?.email, 200).toLowerCase();
+  // nothing the agent could follow up on
+  if (!phone && !email && !user) return null;
+
+  const who: any[] = [];
+  if (user) who.push({ userId: String(user._id) });
+  if (phone) who.push({ phone });
+  if (email) who.push({ email });
+
+  const leads = db.collection(LEADS_COLLECTION);
+  const title = String(property.title || "your listing");
+  const { type, describe } = CHANNEL_INTERACTION[touch.channel];
+  const points = CHANNEL_SCORE[touch.channel];
+  const interaction = {
+    _id: new ObjectId(),
+    type,
+    date: now,
+    description: touch.message ? `${describe(title)}: ${str(touch.message, 1000)}` : describe(title),
+    outcome: "neutral" as InteractionOutcome,
+    nextAction: "",
+    scoreChange: points,
+    channel: touch.channel,
+    propertyId: String(property._id),
+  };
+  const soon = followupAfter("high", now);
+
+  const open = await leads.findOne({ agentId, status: { $nin: CLOSED }, $or: who });
+  if (open) {
+    return leads.findOneAndUpdate(
+      { _id: open._id },
+      {
+        $push: { interactions: interaction } as any,
+        $addToSet: { propertyIds: String(property._id) },
+        $set: {
+          score: clampScore((open.score || 0) + points),
+          lastContact: now,
+          nextFollowup: open.nextFollowup && open.nextFollowup < soon ? open.nextFollowup : soon,
+          updatedAt: now,
+          ...(user && !open.userId ? { userId: String(user._id) } : {}),
+          ...(phone && !open.phone ? { phone } : {}),
+          ...(email && !open.email ? { email } : {}),
+        },
+      },
+      { returnDocument: "after" },
+    );
+  }
+
+  const price = money(property.price);
+  const areaKey = areaKeyOf(property.location);
+  const doc = {
+    agentId,
+    ...(user ? { userId: String(user._id) } : {}),
+    name: name || "Website visitor",
+    email,
+    phone,
+    source: "website" as LeadSource,
+    channel: touch.channel,
+    status: "new" as LeadStatus,
+    score: initialLeadScore("website", "medium", touch.channel),
+    assignedDate: now,
+    lastContact: now,
+    nextFollowup: soon,
+    propertyInterest: {
+      type: property.priceType === "rent" ? "rent" : "buy",
+      priceRange: { min: price, max: price },
+      locations: areaKey ? [areaDisplayName(areaKey)] : [],
+      propertyTypes: property.propertyType ? [String(property.propertyType)] : [],
+      ...(Number(property.specifications?.bedrooms) > 0
+        ? { bedrooms: Number(property.specifications.bedrooms) }
+        : {}),
+      urgency: "medium" as LeadUrgency,
+    },
+    propertyIds: [String(property._id)],
+    notes: "",
+    interactions: [interaction],
+    convertedToClient: false,
+    estimatedValue: price,
+    probability: STATUS_PROBABILITY.new,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const result = await leads.insertOne(doc);
+
+  await notifyAgent(db, agentId, {
+    type: "new_lead",
+    title: "New lead",
+    message: `${doc.name}: ${describe(title)}`,
+    leadId: result.insertedId,
+  });
+  return { ...doc, _id: result.insertedId };
+}
+
+/** Fire-and-forget wrapper for the enquiry, chat and call paths. */
+export const captureLeadQuietly = (db: Db, touch: LeadTouch) =>
+  captureLead(db, touch).catch((e) => console.warn("Lead capture failed:", e?.message || e));
+
+/** Lead count, conversion rate and average value per source for one agent. */
+export async function leadSourceStats(db: Db, agentId: string): Promise<LeadSourceStats[]> {
+  const rows = await db
+    .collection(LEADS_COLLECTION)
+    .aggregate([
+      { $match: { agentId } },
+      {
+        $group: {
+          _id: "$source",
+          count: { $sum: 1 },
+          converted: { $sum: { $cond: [{ $eq: ["$convertedToClient", true] }, 1, 0] } },
+          avgValue: { $avg: "$estimatedValue" },
+        },
+      },
+      { $sort: { count: -1 } },
+    ])
+    .toArray();
+  return rows.map((r) => ({
+    source: r._id,
+    count: r.count,
+    converted: r.converted,
+    conversionRate: r.count ? Math.round((r.converted / r.count) * 1000) / 10 : 0,
+    avgValue: Math.round(r.avgValue || 0),
+  }));
+}
+
+/**
+ * One pass of the follow-up job: one reminder per agent listing the open
+ * leads whose follow-up has come due. Each due date is reminded once;
+ * moving the follow-up arms the reminder again.
+ */
+export async function remindLeadFollowups(db: Db, now: Date = new Date()) {
+  const leads = db.collection(LEADS_COLLECTION);
+  const due = await leads
+    .find(
+      {
+        status: { $nin: CLOSED },
+        nextFollowup: { $lte: now },
+        $expr: { $ne: [{ $ifNull: ["$followupRemindedFor", null] }, "$nextFollowup"] },
+      },
+      { projection: { agentId: 1, name: 1, score: 1 } },
+    )
+    .sort({ score: -1 })
+    .limit(BATCH)
+    .toArray();
+  if (due.length === 0) return { reminded: 0, agents: 0 };
+
+  const byAgent = new Map<string, any[]>();
+  for (const lead of due) {
+    byAgent.set(lead.agentId, [...(byAgent.get(lead.agentId) || []), lead]);
+  }
+
+  for (const [agentId, list] of byAgent) {
+    const hot = list.filter((l) => l.score >= HOT_LEAD_SCORE).length;
+    const names = list.slice(0, 3).map((l) => l.name).join(", ");
+    const more = list.length > 3 ? ` and ${list.length - 3} more` : "";
+    await notifyAgent(db, agentId, {
+      type: "lead_followup",
+      title: `${list.length} lead follow-up${list.length === 1 ? "" : "s"} due`,
+      message: `Follow up with ${names}${more}.${hot ? ` ${hot} of them ${hot === 1 ? "is" : "are"} hot.` : ""}`,
+    });
+  }
+
+  await leads.updateMany({ _id: { $in: due.map((l) => l._id) } }, [
+    { $set: { followupRemindedFor: "$nextFollowup" } },
+  ]);
+  return { reminded: due.length, agents: byAgent.size };
+}
+
+export async function ensureLeadIndexes(db: Db) {
+  const leads = db.collection(LEADS_COLLECTION);
+  await leads.createIndex({ agentId: 1, updatedAt: -1 });
+  await leads.createIndex({ agentId: 1, phone: 1 });
+  await leads.createIndex({ agentId: 1, email: 1 });
+  await leads.createIndex({ agentId: 1, userId: 1 });
+  await leads.createIndex({ status: 1, nextFollowup: 1 });
+}
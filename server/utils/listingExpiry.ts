@@ -0,0 +1,289 @@
+// server/utils/listingExpiry.ts
+// Listing lifetimes. Live listings get an `expiresAt` from the lifetime of
+// the package they were posted under; owners are reminded ahead of it and
+// the listing moves to the `expired` status once it passes.
+//
+// The content a moderator approved is fingerprinted in `approvedContentHash`,
+// so renewing an unchanged listing puts it straight back live while an
+// edited one goes back through moderation first.
+import crypto from "crypto";
+import { Db, ObjectId } from "mongodb";
+import {
+  LISTING_TIERS,
+  ListingExpirySettings,
+  ListingTier,
+  daysUntilExpiry,
+  normalizeListingExpirySettings,
+} from "@shared/listingExpiry";
+import { sendEmail } from "./mailer";
+import { sendPushToUser } from "./push";
+import { publicVisibilityFilter } from "./listingVisibility";
+
+const SETTINGS_COLLECTION = "listing_expiry_settings";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH = 500;
+
+const BASE_URL = () => process.env.BASE_URL || "http://localhost:8080";
+
+// what a moderator looks at; views, flags and timestamps don't count as changes
+const CONTENT_FIELDS = [
+  "title",
+  "description",
+  "price",
+  "priceType",
+  "propertyType",
+  "subCategory",
+  "location",
+  "specifications",
+  "amenities",
+  "images",
+  "contactInfo",
+];
+
+export class RenewError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+export async function getListingExpirySettings(db: Db): Promise<ListingExpirySettings> {
+  const doc = await db.collection(SETTINGS_COLLECTION).findOne({ _id: "default" as any });
+  return normalizeListingExpirySettings(doc);
+}
+
+export async function saveListingExpirySettings(db: Db, raw: unknown) {
+  const settings = normalizeListingExpirySettings(raw);
+  await db
+    .collection(SETTINGS_COLLECTION)
+    .updateOne({ _id: "default" as any }, { $set: { ...settings, updatedAt: new Date() } }, { upsert: true });
+  return settings;
+}
+
+/** `v` with object keys sorted at every level, so equal content serialises the same. */
+export const stable = (v: any): any => {
+  if (Array.isArray(v)) return v.map(stable);
+  if (v && typeof v === "object" && !(v instanceof Date) && !(v instanceof ObjectId)) {
+    return Object.fromEntries(
+      Object.keys(v)
+        .sort()
+        .map((k) => [k, stable(v[k])]),
+    );
+  }
+  return v;
+};
+
+/** Fingerprint of the fields a moderator reviews. */
+export function contentHash(property: any) {
+  const content = CONTENT_FIELDS.map((k) => stable(property?.[k] ?? null));
+  return crypto.createHash("sha1").update(JSON.stringify(content)).digest("hex");
+}
+
+/** The lifetime tier for a listing: its package type, or "free". */
+async function listingTier(db: Db, property: any, packageTypes: Map<string, string>): Promise<ListingTier> {
+  if (property.isPaid === false || !(property.packageId || property.package)) return "free";
+
+  let type = String(property.package?.type || "");
+  const packageId = String(property.packageId || "");
+  if (!type && ObjectId.isValid(packageId)) {
+    if (!packageTypes.has(packageId)) {
+      const pkg = await db
+        .collection("ad_packages")
+        .findOne({ _id: new ObjectId(packageId) }, { projection: { type: 1 } });
+      packageTypes.set(packageId, String(pkg?.type || ""));
+    }
+    type = packageTypes.get(packageId)!;
+  }
+  return type !== "free" && (LISTING_TIERS as readonly string[]).includes(type) ? (type as ListingTier) : "basic";
+}
+
+async function notifyOwner(
+  db: Db,
+  property: any,
+  note: { type: string; title: string; message: string },
+) {
+  const ownerId = String(property.ownerId || "");
+  if (!ObjectId.isValid(ownerId)) return;
+  const sellerId = new ObjectId(ownerId);
+  const link = `${BASE_URL()}/my-properties`;
+
+  await db.collection("notifications").insertOne({
+    sellerId,
+    propertyId: property._id,
+    title: note.title,
+    message: note.message,
+    type: note.type,
+    isRead: false,
+    createdAt: new Date(),
+  });
+
+  const owner = await db.collection("users").findOne({ _id: sellerId }, { projection: { email: 1, name: 1 } });
+  if (owner?.email) {
+    sendEmail(
+      owner.email,
+      note.title,
+      `<p>Hi ${owner.name || "there"},</p><p>${note.message}</p><p><a href="${link}">Go to My Properties</a></p>`,
+      `${note.message}\n${link}`,
+    ).catch((e) => console.warn("Listing expiry email failed:", e?.message || e));
+  }
+
+  await sendPushToUser(db, sellerId, {
+    title: note.title,
+    body: note.message,
+    link,
+    data: { type: note.type, propertyId: String(property._id) },
+  });
+}
+
+/**
+ * One pass of the listing-expiry job: stamp `expiresAt` on live listings
+ * that don't have one, send due reminders and expire what has run out.
+ */
+export async function syncListingExpiry(db: Db, now: Date = new Date()) {
+  const settings = await getListingExpirySettings(db);
+  if (!settings.isActive) return { skipped: "disabled" };
+
+  const properties = db.collection("properties");
+  const live = publicVisibilityFilter();
+  const packageTypes = new Map<string, string>();
+  // listings that were live before expiry existed always get at least the first reminder
+  const notice = Math.max(1, ...settings.reminderDays) * DAY_MS;
+
+  // 1) Newly approved, re-approved after renewal, or older than this feature
+  const unstamped = await properties.find({ ...live, expiresAt: null }).limit(BATCH).toArray();
+  for (const p of unstamped) {
+    const tier = await listingTier(db, p, packageTypes);
+    const listedAt = Math.max(
+      ...[p.approvedAt, p.renewedAt, p.createdAt].map((d) => (d ? new Date(d).getTime() : 0)),
+    );
+    const expiresAt = new Date(
+      Math.max(listedAt + settings.lifetimeDays[tier] * DAY_MS, now.getTime() + notice),
+    );
+    await properties.updateOne(
+      { _id: p._id },
+      {
+        $set: {
+          expiresAt,
+          listingTier: tier,
+          approvedContentHash: p.approvedContentHash || contentHash(p),
+          expiryRemindersSent: [],
+        },
+      },
+    );
+  }
+
+  // 2) Reminders, furthest first; one message covers every reminder already due
+  let reminded = 0;
+  for (const days of settings.reminderDays) {
+    const due = await properties
+      .find({
+        ...live,
+        expiresAt: { $gt: now, $lte: new Date(now.getTime() + days * DAY_MS) },
+        expiryRemindersSent: { $ne: days },
+      })
+      .limit(BATCH)
+      .toArray();
+    for (const p of due) {
+      const left = new Date(p.expiresAt).getTime() - now.getTime();
+      const covered = settings.reminderDays.filter((d) => left <= d * DAY_MS);
+      await properties.updateOne({ _id: p._id }, { $addToSet: { expiryRemindersSent: { $each: covered } } });
+
+      const inDays = daysUntilExpiry(p.expiresAt, now);
+      await notifyOwner(db, p, {
+        type: "listing_expiring",
+        title: "Listing expiring soon",
+        message: `"${p.title || "Your listing"}" expires in ${inDays} day${inDays === 1 ? "" : "s"}. Renew it to keep it live.`,
+      });
+      reminded++;
+    }
+  }
+
+  // 3) Expire. Each update re-checks the filter, so a listing renewed or
+  // taken down since the find is left alone and its owner isn't told
+  const expiring = await properties
+    .find({ ...live, expiresAt: { $lte: now } }, { projection: { _id: 1, title: 1, ownerId: 1 } })
+    .limit(BATCH)
+    .toArray();
+  let expired = 0;
+  for (const p of expiring) {
+    const result = await properties.updateOne(
+      { _id: p._id, ...live, expiresAt: { $lte: now } },
+      { $set: { status: "expired", expiredAt: now, updatedAt: now } },
+    );
+    if (result.modifiedCount === 0) continue;
+    expired++;
+    await notifyOwner(db, p, {
+      type: "listing_expired",
+      title: "Listing expired",
+      message: `"${p.title || "Your listing"}" has expired and is no longer shown to buyers. Renew it in one click from My Properties.`,
+    });
+  }
+
+  return { stamped: unstamped.length, reminded, expired };
+}
+
+/**
+ * Renew an expired listing, or a live one inside its reminder window.
+ * Unchanged listings go straight back live for a fresh lifetime; edited
+ * ones go back to moderation and get their new expiry once approved.
+ */
+export async function renewListing(db: Db, property: any, now: Date = new Date()) {
+  const settings = await getListingExpirySettings(db);
+  const windowMs = Math.max(1, ...settings.reminderDays) * DAY_MS;
+  const expiring =
+    property.status === "active" &&
+    property.expiresAt &&
+    new Date(property.expiresAt).getTime() - now.getTime() <= windowMs;
+  if (property.status !== "expired" && !expiring) {
+    throw new RenewError("Only expired listings or listings about to expire can be renewed", 409);
+  }
+
+  const unchanged = !!property.approvedContentHash && property.approvedContentHash === contentHash(property);
+  if (unchanged) {
+    const tier = await listingTier(db, property, new Map());
+    const expiresAt = new Date(now.getTime() + settings.lifetimeDays[tier] * DAY_MS);
+    await db.collection("properties").updateOne(
+      { _id: property._id },
+      {
+        $set: {
+          status: "active",
+          expiresAt,
+          listingTier: tier,
+          renewedAt: now,
+          expiryRemindersSent: [],
+          updatedAt: now,
+        },
+        $unset: { expiredAt: "" },
+      },
+    );
+    return { reviewRequired: false, expiresAt };
+  }
+
+  await db.collection("properties").updateOne(
+    { _id: property._id },
+    {
+      $set: {
+        status: "active",
+        approvalStatus: "pending",
+        isApproved: false,
+        renewedAt: now,
+        updatedAt: now,
+      },
+      $unset: {
+        expiresAt: "",
+        expiredAt: "",
+        approvedContentHash: "",
+        expiryRemindersSent: "",
+        approvedAt: "",
+        approvedBy: "",
+      },
+    },
+  );
+  return { reviewRequired: true, expiresAt: null };
+}
+
+export async function ensureListingExpiryIndexes(db: Db) {
+  await db.collection("properties").createIndex({ status: 1, expiresAt: 1 });
+}
@@ -0,0 +1,333 @@
+// server/utils/listingRisk.ts
+// Duplicate / fraud signals for the moderation queue. Each pending listing is
+// compared against other listings on four axes — near-duplicate text, a
+// contact phone shared with other owners, reused photos (dHash of files under
+// uploads/properties) and price outliers for its area — and given a 0-100
+// score with human-readable reasons.
+import path from "path";
+import fs from "fs";
+import sharp from "sharp";
+import { Db, ObjectId } from "mongodb";
+import { ListingRiskAssessment, ListingRiskReason } from "@shared/types";
+import { normalizeSearchText } from "./propertySearch";
+import { ALL, SNAPSHOTS_COLLECTION, areaKeyOf, getLatestSnapshotDate } from "./marketInsights";
+
+const WEIGHTS = {
+  duplicate_text: 40,
+  shared_phone: 30,
+  reused_image: 35,
+  reused_image_same_owner: 10,
+  price_outlier: 20,
+};
+
+const TITLE_SIMILARITY = 0.8;
+const DESCRIPTION_SIMILARITY = 0.7;
+const IMAGE_HAMMING_MAX = 6; // of 64 bits
+const PRICE_LOW_RATIO = 0.4;
+const PRICE_HIGH_RATIO = 2.5;
+const MIN_COMPARABLES = 5;
+const MAX_CANDIDATES = 500;
+const ASSESSMENT_TTL_MS = 60 * 60 * 1000;
+const BACKFILL_BATCH = 500;
+
+/* =========================================================================
+   Text similarity
+   ========================================================================= */
+function shingles(text: string, size = 3): Set<string> {
+  const words = normalizeSearchText(text).split(" ").filter(Boolean);
+  if (words.length < size) return new Set(words.length ? [words.join(" ")] : []);
+  const out = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) out.add(words.slice(i, i + size).join(" "));
+  return out;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  let inter = 0;
+  for (const x of a) if (b.has(x)) inter++;
+  return inter / (a.size + b.size - inter);
+}
+
+/* =========================================================================
+   Image hashing
+   ========================================================================= */
+const UPLOADS_ROOT = path.join(process.cwd(), "uploads", "properties");
+
+const localImagePath = (url: string) => {
+  const m = /\/uploads\/properties\/([^?#]+)$/.exec(String(url || ""));
+  if (!m) return null;
+  const file = path.join(UPLOADS_ROOT, path.basename(m[1]));
+  return fs.existsSync(file) ? file : null;
+};
+
+/** 64-bit difference hash (hex). Robust to resizing and recompression. */
+export async function imageDHash(filePath: string): Promise<string> {
+  const pixels = await sharp(filePath)
+    .grayscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let bits = "";
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits += pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? "1" : "0";
+    }
+  }
+  return BigInt(`0b${bits}`).toString(16).padStart(16, "0");
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let x = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (x) {
+    count += Number(x & 1n);
+    x >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Hash a listing's local images and cache them on the document
+ * (`imageHashes`, aligned with `images`). Remote URLs are skipped.
+ */
+export async function ensureImageHashes(db: Db, property: any): Promise<string[]> {
+  const images: string[] = Array.isArray(property?.images) ? property.images : [];
+  if (
+    Array.isArray(property.imageHashes) &&
+    property.imageHashesFor === images.length
+  ) {
+    return property.imageHashes.filter(Boolean);
+  }
+
+  const hashes: (string | null)[] = [];
+  for (const url of images) {
+    const file = localImagePath(typeof url === "string" ? url : (url as any)?.url);
+    try {
+      hashes.push(file ? await imageDHash(file) : null);
+    } catch {
+      hashes.push(null);
+    }
+  }
+
+  await db
+    .collection("properties")
+    .updateOne(
+      { _id: property._id },
+      { $set: { imageHashes: hashes, imageHashesFor: images.length } },
+    );
+  return hashes.filter(Boolean) as string[];
+}
+
+/** Hash images for listings that don't have them yet (scheduled backfill). */
+export async function backfillImageHashes(db: Db, batchSize = 50) {
+  const docs = await db
+    .collection("properties")
+    .find({ "images.0": { $exists: true }, imageHashes: { $exists: false } })
+    .project({ images: 1 })
+    .limit(batchSize)
+    .toArray();
+  for (const doc of docs) await ensureImageHashes(db, doc);
+  return { hashed: docs.length };
+}
+
+/* =========================================================================
+   Scoring
+   ========================================================================= */
+/** Digits-only form of a contact phone, stored as `phoneKey` so lookups are exact matches. */
+export const contactPhoneKey = (v: any) => String(v || "").replace(/\D/g, "").slice(-10);
+
+async function priceOutlierReason(db: Db, property: any): Promise<ListingRiskReason | null> {
+  const sqft = Number(property.specifications?.area) || 0;
+  const price = Number(property.price) || 0;
+  const areaKey = areaKeyOf(property.location);
+  if (!sqft || !price || !areaKey) return null;
+
+  const snapshotDate = await getLatestSnapshotDate(db);
+  if (!snapshotDate) return null;
+  const row = await db.collection(SNAPSHOTS_COLLECTION).findOne({
+    snapshotDate,
+    areaKey,
+    propertyType: String(property.propertyType || "").toLowerCase() || ALL,
+    subCategory: ALL,
+  });
+  if (!row) return null;
+
+  const isRent = property.priceType === "rent";
+  const median = isRent ? row.medianRentPerSqft : row.medianSalePricePerSqft;
+  const comparables = isRent ? row.rentCount : row.saleCount;
+  if (!median || comparables < MIN_COMPARABLES) return null;
+
+  const ratio = price / sqft / median;
+  if (ratio >= PRICE_LOW_RATIO && ratio <= PRICE_HIGH_RATIO) return null;
+
+  return {
+    code: "price_outlier",
+    weight: WEIGHTS.price_outlier,
+    message: `₹${Math.round(price / sqft).toLocaleString("en-IN")}/sq ft is ${
+      ratio < 1 ? `${Math.round((1 - ratio) * 100)}% below` : `${ratio.toFixed(1)}× above`
+    } the ${row.area} median of ₹${Math.round(median).toLocaleString("en-IN")}/sq ft`,
+  };
+}
+
+export async function assessListingRisk(db: Db, property: any): Promise<ListingRiskAssessment> {
+  const reasons: ListingRiskReason[] = [];
+  const selfId = property._id;
+  const ownerId = String(property.ownerId || "");
+
+  // --- candidates: same type, not rejected/deleted, excluding self
+  const candidates = await db
+    .collection("properties")
+    .find({
+      _id: { $ne: selfId },
+      propertyType: property.propertyType,
+      status: { $nin: ["rejected", "deleted"] },
+    })
+    .project({ title: 1, description: 1, ownerId: 1, images: 1, imageHashes: 1, imageHashesFor: 1 })
+    .sort({ createdAt: -1 })
+    .limit(MAX_CANDIDATES)
+    .toArray();
+
+  // --- 1) near-duplicate text
+  const titleSh = shingles(property.title || "", 2);
+  const descSh = shingles(property.description || "");
+  let bestText: { doc: any; title: number; desc: number } | null = null;
+  for (const c of candidates) {
+    const title = jaccard(titleSh, shingles(c.title || "", 2));
+    const desc = jaccard(descSh, shingles(c.description || ""));
+    if (title < TITLE_SIMILARITY && desc < DESCRIPTION_SIMILARITY) continue;
+    if (!bestText || Math.max(title, desc) > Math.max(bestText.title, bestText.desc)) {
+      bestText = { doc: c, title, desc };
+    }
+  }
+  if (bestText) {
+    const sameOwner = String(bestText.doc.ownerId || "") === ownerId;
+    reasons.push({
+      code: "duplicate_text",
+      weight: WEIGHTS.duplicate_text,
+      relatedPropertyId: String(bestText.doc._id),
+      message: `${Math.round(Math.max(bestText.title, bestText.desc) * 100)}% similar ${
+        bestText.title >= bestText.desc ? "title" : "description"
+      } to "${bestText.doc.title}"${sameOwner ? " by the same owner (possible repost)" : ""}`,
+    });
+  }
+
+  // --- 2) same phone used by different owners
+  const phone = contactPhoneKey(property.contactInfo?.phone);
+  if (phone.length === 10) {
+    const others = await db
+      .collection("properties")
+      .find({
+        _id: { $ne: selfId },
+        phoneKey: phone,
+        ownerId: { $ne: property.ownerId },
+      })
+      .project({ ownerId: 1, title: 1 })
+      .limit(50)
+      .toArray();
+    const owners = new Set(others.map((o) => String(o.ownerId)));
+    if (owners.size > 0) {
+      reasons.push({
+        code: "shared_phone",
+        weight: WEIGHTS.shared_phone,
+        relatedPropertyId: String(others[0]._id),
+        message: `Contact phone …${phone.slice(-4)} is also used by ${owners.size} other account${
+          owners.size > 1 ? "s" : ""
+        } (${others.length} listing${others.length > 1 ? "s" : ""})`,
+      });
+    }
+  }
+
+  // --- 3) reused images
+  const ownHashes = await ensureImageHashes(db, property).catch(() => [] as string[]);
+  if (ownHashes.length) {
+    let match: { doc: any; distance: number } | null = null;
+    for (const c of candidates) {
+      const theirs: string[] = (c.imageHashes || []).filter(Boolean);
+      for (const h of ownHashes) {
+        for (const t of theirs) {
+          const d = hammingDistance(h, t);
+          if (d <= IMAGE_HAMMING_MAX && (!match || d < match.distance)) match = { doc: c, distance: d };
+        }
+      }
+    }
+    if (match) {
+      const sameOwner = String(match.doc.ownerId || "") === ownerId;
+      reasons.push({
+        code: "reused_image",
+        weight: sameOwner ? WEIGHTS.reused_image_same_owner : WEIGHTS.reused_image,
+        relatedPropertyId: String(match.doc._id),
+        message: `Photo ${match.distance === 0 ? "identical" : "near-identical"} to one in "${
+          match.doc.title
+        }"${sameOwner ? " (same owner)" : " posted by a different account"}`,
+      });
+    }
+  }
+
+  // --- 4) price outlier for the area
+  const outlier = await priceOutlierReason(db, property);
+  if (outlier) reasons.push(outlier);
+
+  const score = Math.min(100, reasons.reduce((sum, r) => sum + r.weight, 0));
+  return {
+    score,
+    level: score >= 60 ? "high" : score >= 30 ? "medium" : "low",
+    reasons,
+    computedAt: new Date(),
+  };
+}
+
+/**
+ * Cached assessment for the moderation queue; recomputed when stale or when
+ * the listing changed after the last assessment.
+ */
+export async function getListingRisk(db: Db, property: any, force = false) {
+  const cached = property.riskAssessment as ListingRiskAssessment | undefined;
+  const computedAt = cached?.computedAt ? new Date(cached.computedAt).getTime() : 0;
+  const updatedAt = property.updatedAt ? new Date(property.updatedAt).getTime() : 0;
+  if (!force && cached && Date.now() - computedAt < ASSESSMENT_TTL_MS && updatedAt <= computedAt) {
+    return cached;
+  }
+
+  const assessment = await assessListingRisk(db, property);
+  await db
+    .collection("properties")
+    .updateOne(
+      { _id: new ObjectId(String(property._id)) },
+      { $set: { riskAssessment: assessment } },
+    );
+  return assessment;
+}
+
+/** Fill `phoneKey` on listings saved before it existed. Idempotent. */
+export async function migratePhoneKeys(db: Db) {
+  const cursor = db
+    .collection("properties")
+    .find({ phoneKey: { $exists: false } })
+    .project({ "contactInfo.phone": 1 });
+
+  let ops: any[] = [];
+  let updated = 0;
+  const flush = async () => {
+    if (ops.length === 0) return;
+    await db.collection("properties").bulkWrite(ops, { ordered: false });
+    updated += ops.length;
+    ops = [];
+  };
+  for await (const doc of cursor) {
+    ops.push({
+      updateOne: {
+        filter: { _id: doc._id },
+        update: { $set: { phoneKey: contactPhoneKey(doc.contactInfo?.phone) } },
+      },
+    });
+    if (ops.length >= BACKFILL_BATCH) await flush();
+  }
+  await flush();
+  if (updated > 0) console.log(`✅ Added phoneKey to ${updated} listings`);
+}
+
+export async function ensureListingRiskIndexes(db: Db) {
+  await db.collection("properties").createIndex({ phoneKey: 1 });
+  await db.collection("properties").createIndex({ approvalStatus: 1, "riskAssessment.score": -1 });
+}
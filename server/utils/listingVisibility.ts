@@ -0,0 +1,12 @@
+// server/utils/listingVisibility.ts
+// The one rule for which listings the public sees, shared by the listing
+// pages, comparisons, view history and the expiry job.
+
+/**
+ * Base moderation filter for anything shown publicly: ACTIVE and APPROVED
+ * (legacy documents without approvalStatus are treated as approved).
+ */
+export const publicVisibilityFilter = (): Record<string, any> => ({
+  status: "active",
+  $or: [{ approvalStatus: "approved" }, { approvalStatus: { $exists: false } }],
+});
@@ -0,0 +1,196 @@
+// server/utils/marketInsights.ts
+// Area-level market statistics over live listings. Rows are keyed by
+// (area, propertyType, subCategory) with "all" roll-ups, and a daily snapshot
+// is kept in `area_insight_snapshots` so trends can be charted over time.
+import { Db } from "mongodb";
+import { ROHTAK_AREAS } from "@shared/types";
+import { normalizeSearchText } from "./propertySearch";
+
+export const SNAPSHOTS_COLLECTION = "area_insight_snapshots";
+export const ALL = "all";
+
+export interface AreaInsight {
+  areaKey: string; // normalized, e.g. "sector 14"
+  area: string; // display name, e.g. "Sector 14"
+  propertyType: string;
+  subCategory: string;
+  listingCount: number;
+  saleCount: number;
+  rentCount: number;
+  medianSalePrice: number | null;
+  medianSalePricePerSqft: number | null;
+  medianRent: number | null;
+  medianRentPerSqft: number | null;
+  rentYieldPct: number | null; // gross: 12 × median rent / median sale price
+  medianDaysOnMarket: number | null;
+}
+
+export interface AreaInsightSnapshot extends AreaInsight {
+  snapshotDate: Date; // UTC midnight
+  createdAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DISPLAY_NAMES = new Map(
+  ROHTAK_AREAS.map((a) => [normalizeSearchText(a), a as string]),
+);
+
+const titleCase = (s: string) => s.replace(/\b[a-z]/g, (c) => c.toUpperCase());
+
+// Listings tag locality in either `sector` or `area`; prefer the sector
+export const areaKeyOf = (location: any) =>
+  normalizeSearchText(location?.sector || location?.area || "");
+
+export const areaDisplayName = (key: string) => DISPLAY_NAMES.get(key) || titleCase(key);
+
+export function median(values: number[]): number | null {
+  const nums = values.filter((v) => Number.isFinite(v) && v > 0).sort((a, b) => a - b);
+  if (!nums.length) return null;
+  const mid = Math.floor(nums.length / 2);
+  return nums.length % 2 ? nums[mid] : (nums[mid - 1] + nums[mid]) / 2;
+}
+
+const round = (v: number | null, digits = 0) =>
+  v === null ? null : Math.round(v * 10 ** digits) / 10 ** digits;
+
+interface Sample {
+  priceType: string;
+  price: number;
+  perSqft: number | null;
+  daysOnMarket: number;
+}
+
+function summarize(
+  key: { areaKey: string; propertyType: string; subCategory: string },
+  samples: Sample[],
+): AreaInsight {
+  const sale = samples.filter((s) => s.priceType === "sale");
+  const rent = samples.filter((s) => s.priceType === "rent");
+
+  const medianSalePrice = median(sale.map((s) => s.price));
+  const medianRent = median(rent.map((s) => s.price));
+
+  return {
+    ...key,
+    area: areaDisplayName(key.areaKey),
+    listingCount: samples.length,
+    saleCount: sale.length,
+    rentCount: rent.length,
+    medianSalePrice: round(medianSalePrice),
+    medianSalePricePerSqft: round(median(sale.map((s) => s.perSqft as number))),
+    medianRent: round(medianRent),
+    medianRentPerSqft: round(median(rent.map((s) => s.perSqft as number)), 2),
+    rentYieldPct:
+      medianSalePrice && medianRent ? round(((medianRent * 12) / medianSalePrice) * 100, 2) : null,
+    medianDaysOnMarket: round(median(samples.map((s) => s.daysOnMarket))),
+  };
+}
+
+/**
+ * Compute insights for every area from active, approved listings.
+ * The aggregation only projects what we need; medians are taken in memory
+ * (listing volumes per area are small).
+ */
+export async function computeAreaInsights(db: Db, now = new Date()): Promise<AreaInsight[]> {
+  const docs = await db
+    .collection("properties")
+    .aggregate([
+      {
+        $match: {
+          status: "active",
+          $or: [{ approvalStatus: "approved" }, { approvalStatus: { $exists: false } }],
+          price: { $gt: 0 },
+          priceType: { $in: ["sale", "rent"] },
+        },
+      },
+      {
+        $project: {
+          price: 1,
+          priceType: 1,
+          propertyType: 1,
+          subCategory: 1,
+          "location.sector": 1,
+          "location.area": 1,
+          "specifications.area": 1,
+          approvedAt: 1,
+          createdAt: 1,
+        },
+      },
+    ])
+    .toArray();
+
+  const groups = new Map<string, { key: any; samples: Sample[] }>();
+  const add = (areaKey: string, propertyType: string, subCategory: string, s: Sample) => {
+    const id = `${areaKey}|${propertyType}|${subCategory}`;
+    if (!groups.has(id)) groups.set(id, { key: { areaKey, propertyType, subCategory }, samples: [] });
+    groups.get(id)!.samples.push(s);
+  };
+
+  for (const d of docs) {
+    const areaKey = areaKeyOf(d.location);
+    if (!areaKey) continue;
+
+    const sqft = Number(d.specifications?.area) || 0;
+    const listedAt = new Date(d.approvedAt || d.createdAt || now);
+    const sample: Sample = {
+      priceType: d.priceType,
+      price: Number(d.price),
+      perSqft: sqft > 0 ? Number(d.price) / sqft : null,
+      daysOnMarket: Math.max(0, (now.getTime() - listedAt.getTime()) / DAY_MS),
+    };
+    const type = String(d.propertyType || "other").toLowerCase();
+    const sub = String(d.subCategory || "other").toLowerCase();
+
+    add(areaKey, type, sub, sample);
+    add(areaKey, type, ALL, sample);
+    add(areaKey, ALL, ALL, sample);
+  }
+
+  return Array.from(groups.values())
+    .map((g) => summarize(g.key, g.samples))
+    .sort((a, b) => a.areaKey.localeCompare(b.areaKey) || b.listingCount - a.listingCount);
+}
+
+/** Store today's insights (idempotent per day — re-running overwrites). */
+export async function snapshotAreaInsights(db: Db, now = new Date()) {
+  const snapshotDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const insights = await computeAreaInsights(db, now);
+
+  const col = db.collection(SNAPSHOTS_COLLECTION);
+  await col.createIndex(
+    { snapshotDate: 1, areaKey: 1, propertyType: 1, subCategory: 1 },
+    { unique: true },
+  );
+  await col.createIndex({ areaKey: 1, propertyType: 1, subCategory: 1, snapshotDate: -1 });
+
+  if (insights.length) {
+    await col.bulkWrite(
+      insights.map((row) => ({
+        updateOne: {
+          filter: {
+            snapshotDate,
+            areaKey: row.areaKey,
+            propertyType: row.propertyType,
+            subCategory: row.subCategory,
+          },
+          update: { $set: { ...row, snapshotDate, createdAt: now } },
+          upsert: true,
+        },
+      })),
+    );
+  }
+
+  return { snapshotDate: snapshotDate.toISOString().slice(0, 10), rows: insights.length };
+}
+
+export async function getLatestSnapshotDate(db: Db): Promise<Date | null> {
+  const latest = await db
+    .collection(SNAPSHOTS_COLLECTION)
+    .find({})
+    .sort({ snapshotDate: -1 })
+    .limit(1)
+    .project({ snapshotDate: 1 })
+    .toArray();
+  return latest[0]?.snapshotDate || null;
+}
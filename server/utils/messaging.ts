@@ -0,0 +1,312 @@
+// server/utils/messaging.ts
+// Buyer/seller messaging storage. Every sender — the socket.io service, the
+// REST routes and admin replies — goes through postMessage so messages land
+// in `messages` with an ObjectId `conversationId` and the same receipt
+// arrays, and every recipient is reached the same way: live over the socket
+// when connected, by FCM push when not.
+//
+// Receipts are per participant: `deliveredTo` once a recipient's device has
+// the message, `readBy` once they have seen it. Read implies delivered.
+import { Db, ObjectId } from "mongodb";
+import {
+  MESSAGE_MAX_LENGTH,
+  MESSAGE_RATE_LIMIT,
+  MESSAGE_RATE_WINDOW_SECONDS,
+  MessageReceipt,
+  ReceiptType,
+} from "@shared/messaging";
+import { sendPushToUser } from "./push";
+
+export const MESSAGES_COLLECTION = "messages";
+
+export class MessagingError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * What the live transport (server/socketio.ts) provides. Kept as a hook so
+ * the REST routes work the same whether or not a socket server is running.
+ */
+export interface MessagingTransport {
+  emitNewMessage(conversation: any, message: any): void;
+  emitReceipt(conversation: any, receipt: MessageReceipt): void;
+}
+
+let transport: MessagingTransport | null = null;
+
+export function setMessagingTransport(t: MessagingTransport | null) {
+  transport = t;
+}
+
+/* ------------------------ presence ------------------------ */
+
+// userId -> open socket count; a user with two tabs stays online until both close
+const onlineSockets = new Map<string, number>();
+
+/** Returns true when this was the user's first open socket. */
+export function markOnline(userId: string): boolean {
+  const n = (onlineSockets.get(userId) || 0) + 1;
+  onlineSockets.set(userId, n);
+  return n === 1;
+}
+
+/** Returns true when this was the user's last open socket. */
+export function markOffline(userId: string): boolean {
+  const n = (onlineSockets.get(userId) || 0) - 1;
+  if (n > 0) {
+    onlineSockets.set(userId, n);
+    return false;
+  }
+  onlineSockets.delete(userId);
+  return true;
+}
+
+export const isUserOnline = (userId: string) => onlineSockets.has(userId);
+
+/* ------------------------ helpers ------------------------ */
+
+const sentAt: Map<string, number[]> = new Map();
+
+function withinRateLimit(userId: string): boolean {
+  const now = Date.now();
+  const recent = (sentAt.get(userId) || []).filter(
+    (t) => now - t < MESSAGE_RATE_WINDOW_SECONDS * 1000,
+  );
+  if (recent.length >= MESSAGE_RATE_LIMIT) return false;
+  recent.push(now);
+  sentAt.set(userId, recent);
+  return true;
+}
+
+function sanitizeText(input?: unknown): string {
+  if (typeof input !== "string") return "";
+  return input.replace(/<[^>]*>/g, "").trim().slice(0, MESSAGE_MAX_LENGTH);
+}
+
+const toObjectId = (id: unknown): ObjectId => {
+  if (id instanceof ObjectId) return id;
+  if (typeof id === "string" && ObjectId.isValid(id)) return new ObjectId(id);
+  throw new MessagingError("Invalid conversation ID");
+};
+
+export const participantFilter = (userId: string) => ({
+  $or: [{ buyer: userId }, { seller: userId }, { participants: userId }],
+});
+
+/** Everyone on a conversation, old (`participants` only) and new (`buyer`/`seller`) shapes alike. */
+export function participantsOf(conversation: any): string[] {
+  const ids = [conversation?.buyer, conversation?.seller, ...(conversation?.participants || [])];
+  return Array.from(new Set(ids.filter(Boolean).map(String)));
+}
+
+/** Everyone `userId` has a conversation with — who should hear about their presence. */
+export async function contactsOf(db: Db, userId: string): Promise<string[]> {
+  const conversations = await db
+    .collection("conversations")
+    .find(participantFilter(userId), { projection: { buyer: 1, seller: 1, participants: 1 } })
+    .toArray();
+  const contacts = new Set(conversations.flatMap(participantsOf));
+  contacts.delete(userId);
+  return Array.from(contacts);
+}
+
+/** The conversation if `userId` is on it; 403 otherwise so ids can't be probed. */
+export async function findConversationFor(db: Db, conversationId: unknown, userId: string) {
+  const conversation = await db
+    .collection("conversations")
+    .findOne({ _id: toObjectId(conversationId), ...participantFilter(userId) });
+  if (!conversation) throw new MessagingError("Access denied", 403);
+  return conversation;
+}
+
+async function findUser(db: Db, userId: string) {
+  return (
+    (ObjectId.isValid(userId)
+      ? await db.collection("users").findOne({ _id: new ObjectId(userId) })
+      : null) || (await db.collection("users").findOne({ _id: userId as any }))
+  );
+}
+
+/* ------------------------ sending ------------------------ */
+
+export interface PostMessageInput {
+  text?: string;
+  imageUrl?: string;
+  messageType?: string;
+  propertyData?: any;
+}
+
+/**
+ * Store a message and fan it out. `asAdmin` lets support staff reply on a
+ * conversation they are not part of; everyone else must be a participant.
+ */
+export async function postMessage(
+  db: Db,
+  conversationId: unknown,
+  userId: string,
+  input: PostMessageInput,
+  opts: { asAdmin?: boolean } = {},
+) {
+  const text = sanitizeText(input.text);
+  const imageUrl = typeof input.imageUrl === "string" && input.imageUrl ? input.imageUrl : null;
+  if (!text && !imageUrl && !input.propertyData) {
+    throw new MessagingError("Either text or imageUrl is required");
+  }
+  if (!opts.asAdmin && !withinRateLimit(userId)) {
+    throw new MessagingError("Too many messages. Please wait a moment.", 429);
+  }
+
+  const conversation = opts.asAdmin
+    ? await db.collection("conversations").findOne({ _id: toObjectId(conversationId) })
+    : await findConversationFor(db, conversationId, userId);
+  if (!conversation) throw new MessagingError("Conversation not found", 404);
+
+  const user = await findUser(db, userId);
+  if (!user) throw new MessagingError("User not found", 404);
+
+  const now = new Date();
+  const message: any = {
+    conversationId: conversation._id,
+    sender: userId, // legacy
+    senderId: userId,
+    senderName: user.name ?? (opts.asAdmin ? "Admin" : "User"),
+    senderType: opts.asAdmin
+      ? "admin"
+      : user.userType ?? (conversation.seller === userId ? "seller" : "buyer"),
+    text,
+    message: text, // legacy
+    imageUrl,
+    messageType: input.messageType || (imageUrl ? "image" : "text"),
+    ...(input.propertyData ? { propertyData: input.propertyData } : {}),
+    deliveredTo: [{ userId, deliveredAt: now }],
+    readBy: [{ userId, readAt: now }],
+    createdAt: now,
+  };
+  const result = await db.collection(MESSAGES_COLLECTION).insertOne(message);
+  message._id = result.insertedId;
+
+  await db.collection("conversations").updateOne(
+    { _id: conversation._id },
+    {
+      $set: {
+        lastMessageAt: now,
+        updatedAt: now,
+        lastMessage: { text: text || (imageUrl ? "Photo" : ""), senderId: userId, createdAt: now },
+      },
+    },
+  );
+
+  dispatchMessage(db, conversation, message);
+  return { conversation, message };
+}
+
+/** Live to whoever is connected, push to whoever is not. Never throws. */
+function dispatchMessage(db: Db, conversation: any, message: any) {
+  try {
+    transport?.emitNewMessage(conversation, message);
+  } catch (e: any) {
+    console.warn("Message emit failed:", e?.message || e);
+  }
+
+  const conversationId = String(conversation._id);
+  for (const recipient of participantsOf(conversation)) {
+    if (recipient === message.senderId || isUserOnline(recipient)) continue;
+    if (!ObjectId.isValid(recipient)) continue;
+    sendPushToUser(db, recipient, {
+      title: message.senderName || "New message",
+      body: message.text ? message.text.slice(0, 120) : "Sent a photo",
+      link: `/chats/${conversationId}`,
+      data: { type: "chat_message", conversationId, messageId: String(message._id) },
+    });
+  }
+}
+
+/* ------------------------ receipts ------------------------ */
+
+/**
+ * Record that `userId` has received (or read) messages on a conversation —
+ * the listed ones, or everything from the other side when none are given —
+ * and tell the senders. Returns null when nothing changed.
+ */
+export async function markMessages(
+  db: Db,
+  conversationId: unknown,
+  userId: string,
+  type: ReceiptType,
+  messageIds?: unknown[],
+): Promise<MessageReceipt | null> {
+  const conversation = await findConversationFor(db, conversationId, userId);
+  const field = type === "read" ? "readBy" : "deliveredTo";
+
+  const filter: any = {
+    conversationId: conversation._id,
+    senderId: { $ne: userId },
+    [`${field}.userId`]: { $ne: userId },
+  };
+  if (Array.isArray(messageIds)) {
+    filter._id = {
+      $in: messageIds
+        .filter((id) => typeof id === "string" && ObjectId.isValid(id))
+        .map((id) => new ObjectId(id as string)),
+    };
+  }
+
+  const pending = await db
+    .collection(MESSAGES_COLLECTION)
+    .find(filter, { projection: { _id: 1 } })
+    .toArray();
+  if (pending.length === 0) return null;
+
+  const at = new Date();
+  const ids = pending.map((m) => m._id);
+  await db
+    .collection(MESSAGES_COLLECTION)
+    .updateMany({ _id: { $in: ids } }, {
+      $push: { [field]: { userId, [type === "read" ? "readAt" : "deliveredAt"]: at } },
+    } as any);
+  if (type === "read") {
+    await db.collection(MESSAGES_COLLECTION).updateMany(
+      { _id: { $in: ids }, "deliveredTo.userId": { $ne: userId } },
+      { $push: { deliveredTo: { userId, deliveredAt: at } } } as any,
+    );
+  }
+
+  const receipt: MessageReceipt = {
+    conversationId: String(conversation._id),
+    type,
+    userId,
+    messageIds: ids.map(String),
+    at: at.toISOString(),
+  };
+  try {
+    transport?.emitReceipt(conversation, receipt);
+  } catch (e: any) {
+    console.warn("Receipt emit failed:", e?.message || e);
+  }
+  return receipt;
+}
+
+/* ------------------------ setup ------------------------ */
+
+/**
+ * Older chat routes stored `conversationId` as a string, so those messages
+ * never matched the ObjectId lookups used everywhere else. Idempotent.
+ */
+export async function migrateMessageConversationIds(db: Db) {
+  const res = await db.collection(MESSAGES_COLLECTION).updateMany(
+    { conversationId: { $type: "string", $regex: /^[a-f\d]{24}$/i } },
+    [{ $set: { conversationId: { $toObjectId: "$conversationId" } } }],
+  );
+  if (res.modifiedCount > 0) {
+    console.log(`✅ Converted ${res.modifiedCount} message conversation ids to ObjectId`);
+  }
+}
+
+export async function ensureMessagingIndexes(db: Db) {
+  await db.collection(MESSAGES_COLLECTION).createIndex({ conversationId: 1, createdAt: -1 });
+}
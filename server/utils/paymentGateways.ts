@@ -0,0 +1,304 @@
+// server/utils/paymentGateways.ts
+// Status lookups and refunds against the payment gateways, used by the
+// PhonePe return flow, the reconciliation job and admin refunds.
+//
+// Set PAYMENT_GATEWAY_MODE=mock to answer from the `mock_gateway_payments`
+// collection instead of calling out ({ gateway, ref, status, amount }), so
+// reconciliation can be exercised locally without gateway credentials. Mock
+// refunds are written to `mock_gateway_refunds` and succeed unless the
+// payment row has `refundStatus: "failed"`.
+import crypto from "crypto";
+import { getDatabase } from "../db/mongodb";
+
+export type GatewayPaymentStatus = "paid" | "failed" | "pending" | "unknown";
+
+export interface GatewayStatus {
+  status: GatewayPaymentStatus;
+  amount?: number; // rupees, when the gateway reports it
+  raw?: any;
+}
+
+export type GatewayRefundStatus = "processed" | "pending" | "failed";
+
+export interface GatewayRefundRequest {
+  ref: string; // order id / merchant transaction id the payment was made against
+  paymentId?: string | null; // gateway payment id, when we stored it
+  amount: number; // rupees
+  refundId: string; // our refund id; gateways use it to dedupe retries
+  userId?: string | null;
+}
+
+export interface GatewayRefund {
+  status: GatewayRefundStatus;
+  gatewayRefundId: string | null;
+  raw?: any;
+}
+
+export interface PaymentGatewayClient {
+  fetchStatus(ref: string): Promise<GatewayStatus>;
+  refund(req: GatewayRefundRequest): Promise<GatewayRefund>;
+  fetchRefundStatus(gatewayRefundId: string): Promise<GatewayRefundStatus | null>;
+}
+
+// ---------------- PhonePe ----------------
+
+export interface PhonePeConfig {
+  enabled: boolean;
+  merchantId: string;
+  saltKey: string;
+  saltIndex: string; // string per PhonePe docs
+  testMode: boolean;
+}
+
+/** Load config from DB: admin_settings.payment.phonePe */
+export const loadPhonePeConfig = async (): Promise<PhonePeConfig | null> => {
+  try {
+    const db = getDatabase();
+    const settings = await db.collection("admin_settings").findOne({});
+    const cfg = settings?.payment?.phonePe as PhonePeConfig | undefined;
+    if (!cfg?.enabled) return null;
+
+    if (!cfg.merchantId || !cfg.saltKey || !cfg.saltIndex) {
+      console.error("❌ PhonePe config incomplete", {
+        hasMerchantId: !!cfg?.merchantId,
+        hasSaltKey: !!cfg?.saltKey,
+        hasSaltIndex: !!cfg?.saltIndex,
+      });
+      return null;
+    }
+
+    return {
+      enabled: true,
+      merchantId: cfg.merchantId,
+      saltKey: cfg.saltKey,
+      saltIndex: String(cfg.saltIndex),
+      testMode: !!cfg.testMode,
+    };
+  } catch (e) {
+    console.error("Error reading PhonePe config:", e);
+    return null;
+  }
+};
+
+/** sha256(base64Payload + APIPath + saltKey) + "###" + saltIndex */
+export const phonePeChecksum = (
+  base64Payload: string,
+  endpoint: string,
+  saltKey: string,
+  saltIndex: string,
+) => {
+  const data = base64Payload + endpoint + saltKey;
+  const hash = crypto.createHash("sha256").update(data).digest("hex");
+  return `${hash}###${saltIndex}`;
+};
+
+export const phonePeApiRoot = (config: PhonePeConfig) =>
+  config.testMode
+    ? "https://api-preprod.phonepe.com/apis/pg-sandbox"
+    : "https://api.phonepe.com/apis/hermes";
+
+const phonePePaidStates = new Set(["SUCCESS", "COMPLETED"]);
+
+/** Our transaction status for a PhonePe `state`. */
+export const phonePeTransactionStatus = (state?: string) =>
+  phonePePaidStates.has(state || "") ? "paid" : state === "FAILED" ? "failed" : "processing";
+
+/** Ask PhonePe for a transaction's state; returns the parsed JSON (or null). */
+export const fetchPhonePeStatus = async (config: PhonePeConfig, merchantTransactionId: string) => {
+  const endpoint = `/pg/v1/status/${config.merchantId}/${merchantTransactionId}`;
+  const xVerify = phonePeChecksum("", endpoint, config.saltKey, config.saltIndex);
+
+  const r = await fetch(`${phonePeApiRoot(config)}${endpoint}`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      "X-VERIFY": xVerify,
+      "X-MERCHANT-ID": config.merchantId,
+    },
+  });
+
+  const text = await r.text();
+  let j: any = null;
+  try {
+    j = JSON.parse(text);
+  } catch {}
+  console.log("PhonePe status RAW:", text);
+  return j;
+};
+
+const phonePeRefundStatus = (j: any): GatewayRefundStatus =>
+  j?.data?.state === "COMPLETED" || j?.code === "PAYMENT_SUCCESS"
+    ? "processed"
+    : j?.data?.state === "FAILED" || (j && j.success === false && j.code !== "PAYMENT_PENDING")
+      ? "failed"
+      : "pending";
+
+const phonePeClient: PaymentGatewayClient = {
+  async fetchStatus(ref) {
+    const config = await loadPhonePeConfig();
+    if (!config) return { status: "unknown" };
+    const j = await fetchPhonePeStatus(config, ref);
+    if (!j) return { status: "unknown" };
+    // PhonePe answers success:false with a code for failed/unknown payments
+    const state = j.data?.state || j.code;
+    const status: GatewayPaymentStatus = phonePePaidStates.has(state)
+      ? "paid"
+      : state === "FAILED" || j.code === "PAYMENT_ERROR" || j.code === "PAYMENT_DECLINED"
+        ? "failed"
+        : state === "PENDING" || j.code === "PAYMENT_PENDING"
+          ? "pending"
+          : "unknown";
+    const paise = Number(j.data?.amount);
+    return { status, amount: Number.isFinite(paise) ? paise / 100 : undefined, raw: j.data || j };
+  },
+
+  async refund(req) {
+    const config = await loadPhonePeConfig();
+    if (!config) throw new Error("PhonePe is not configured");
+
+    // a refund is its own PhonePe transaction; our refund id keeps it unique
+    const merchantTransactionId = `RF${req.refundId}`;
+    const endpoint = "/pg/v1/refund";
+    const payload = {
+      merchantId: config.merchantId,
+      merchantUserId: req.userId || "guest",
+      originalTransactionId: req.ref,
+      merchantTransactionId,
+      amount: Math.round(req.amount * 100),
+      callbackUrl: `${process.env.BASE_URL || "http://localhost:8080"}/api/payments/phonepe/callback`,
+    };
+    const base64 = Buffer.from(JSON.stringify(payload)).toString("base64");
+
+    const r = await fetch(`${phonePeApiRoot(config)}${endpoint}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-VERIFY": phonePeChecksum(base64, endpoint, config.saltKey, config.saltIndex),
+      },
+      body: JSON.stringify({ request: base64 }),
+    });
+    const j: any = await r.json().catch(() => null);
+    if (!j) throw new Error(`PhonePe refund failed: HTTP ${r.status}`);
+    return { status: phonePeRefundStatus(j), gatewayRefundId: merchantTransactionId, raw: j };
+  },
+
+  async fetchRefundStatus(gatewayRefundId) {
+    const config = await loadPhonePeConfig();
+    if (!config) return null;
+    const j = await fetchPhonePeStatus(config, gatewayRefundId);
+    return j ? phonePeRefundStatus(j) : null;
+  },
+};
+
+// ---------------- Razorpay ----------------
+
+const RAZORPAY_API = "https://api.razorpay.com/v1";
+
+const razorpayAuth = () => {
+  const keyId = (process.env.RAZORPAY_KEY_ID || "").trim();
+  const keySecret = (process.env.RAZORPAY_KEY_SECRET || "").trim();
+  if (!keyId || !keySecret) return null;
+  return `Basic ${Buffer.from(`${keyId}:${keySecret}`).toString("base64")}`;
+};
+
+const razorpayRefundStatus = (status?: string): GatewayRefundStatus =>
+  status === "processed" ? "processed" : status === "failed" ? "failed" : "pending";
+
+const razorpayClient: PaymentGatewayClient = {
+  async fetchStatus(orderId) {
+    const auth = razorpayAuth();
+    if (!auth) return { status: "unknown" };
+
+    const r = await fetch(`${RAZORPAY_API}/orders/${encodeURIComponent(orderId)}`, {
+      headers: { Authorization: auth },
+    });
+    if (r.status === 404) return { status: "unknown" };
+    if (!r.ok) throw new Error(`Razorpay order lookup failed: HTTP ${r.status}`);
+
+    const order: any = await r.json();
+    // orders are "created" until a payment is attempted, "attempted" while
+    // none has been captured and "paid" once one has
+    const status: GatewayPaymentStatus = order.status === "paid" ? "paid" : "pending";
+    return { status, amount: Number(order.amount_paid || order.amount || 0) / 100, raw: order };
+  },
+
+  async refund(req) {
+    const auth = razorpayAuth();
+    if (!auth) throw new Error("Razorpay is not configured");
+
+    // refunds are made against the captured payment, not the order
+    let paymentId = req.paymentId;
+    if (!paymentId) {
+      const r = await fetch(`${RAZORPAY_API}/orders/${encodeURIComponent(req.ref)}/payments`, {
+        headers: { Authorization: auth },
+      });
+      if (!r.ok) throw new Error(`Razorpay payment lookup failed: HTTP ${r.status}`);
+      const list: any = await r.json();
+      paymentId = (list.items || []).find((p: any) => p.status === "captured")?.id;
+      if (!paymentId) throw new Error("No captured Razorpay payment for this order");
+    }
+
+    const r = await fetch(`${RAZORPAY_API}/payments/${encodeURIComponent(paymentId)}/refund`, {
+      method: "POST",
+      headers: { Authorization: auth, "Content-Type": "application/json" },
+      body: JSON.stringify({ amount: Math.round(req.amount * 100), receipt: req.refundId }),
+    });
+    const j: any = await r.json().catch(() => null);
+    if (!r.ok) throw new Error(j?.error?.description || `Razorpay refund failed: HTTP ${r.status}`);
+    return { status: razorpayRefundStatus(j.status), gatewayRefundId: j.id || null, raw: j };
+  },
+
+  async fetchRefundStatus(refundId) {
+    const auth = razorpayAuth();
+    if (!auth) return null;
+    const r = await fetch(`${RAZORPAY_API}/refunds/${encodeURIComponent(refundId)}`, {
+      headers: { Authorization: auth },
+    });
+    if (!r.ok) return null;
+    const j: any = await r.json();
+    return razorpayRefundStatus(j.status);
+  },
+};
+
+// ---------------- Mock ----------------
+
+const mockClient = (gateway: string): PaymentGatewayClient => ({
+  async fetchStatus(ref) {
+    const row = await getDatabase().collection("mock_gateway_payments").findOne({ gateway, ref });
+    if (!row) return { status: "unknown" };
+    return { status: row.status, amount: row.amount, raw: row };
+  },
+
+  async refund(req) {
+    const db = getDatabase();
+    const payment = await db.collection("mock_gateway_payments").findOne({ gateway, ref: req.ref });
+    const status: GatewayRefundStatus = payment?.refundStatus || "processed";
+    const gatewayRefundId = `mock_rfnd_${req.refundId}`;
+    await db.collection("mock_gateway_refunds").updateOne(
+      { gatewayRefundId },
+      { $set: { gateway, ref: req.ref, amount: req.amount, status, createdAt: new Date() } },
+      { upsert: true },
+    );
+    return { status, gatewayRefundId };
+  },
+
+  async fetchRefundStatus(gatewayRefundId) {
+    const row = await getDatabase().collection("mock_gateway_refunds").findOne({ gatewayRefundId });
+    return row?.status || null;
+  },
+});
+
+let overrides: Partial<Record<string, PaymentGatewayClient>> = {};
+
+/** Swap gateway clients (scripts and local testing). Pass {} to reset. */
+export function setPaymentGatewayClients(clients: Partial<Record<string, PaymentGatewayClient>>) {
+  overrides = clients;
+}
+
+export function getPaymentGatewayClient(gateway: string): PaymentGatewayClient | null {
+  if (overrides[gateway]) return overrides[gateway]!;
+  if (process.env.PAYMENT_GATEWAY_MODE === "mock") return mockClient(gateway);
+  if (gateway === "razorpay") return razorpayClient;
+  if (gateway === "phonepe") return phonePeClient;
+  return null;
+}
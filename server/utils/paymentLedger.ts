@@ -0,0 +1,415 @@
+// server/utils/paymentLedger.ts
+// Every payment attempt — gateway transactions, bank transfers and seller
+// plan payments — and every refund, mirrored into one `payment_ledger`
+// collection, and the one
+// place a confirmed payment turns into something the user gets (a listing
+// package, a seller plan, a banner campaign).
+//
+// activateEntitlement() is idempotent: the first call for a payment claims a
+// unique key in `payment_entitlements`; retried callbacks, double-clicked
+// admin approvals and the reconciliation job all land on that key and do
+// nothing.
+import { Db, ObjectId } from "mongodb";
+import {
+  LedgerGateway,
+  LedgerPurpose,
+  LedgerSource,
+  LedgerStatus,
+} from "@shared/paymentLedger";
+import { markCampaignPaid } from "./adCampaigns";
+import { issueInvoice } from "./invoices";
+import { initialUsage } from "./entitlements";
+import { BOOSTS_COLLECTION, applyBoost } from "./boosts";
+import { resolveEntitlements } from "@shared/entitlements";
+
+export const LEDGER_COLLECTION = "payment_ledger";
+export const ENTITLEMENTS_COLLECTION = "payment_entitlements";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const oid = (v: unknown) => (v && ObjectId.isValid(String(v)) ? new ObjectId(String(v)) : null);
+
+function ledgerStatus(source: LedgerSource, raw: string): LedgerStatus {
+  const s = String(raw || "").toLowerCase();
+  if (source === "payment_refunds") {
+    return s === "processed" ? "refunded" : s === "failed" ? "failed" : "pending";
+  }
+  if (s === "refunded") return "refunded";
+  if (s === "cancelled") return "cancelled";
+  if (source === "bank_transfers") {
+    return s === "verified" ? "paid" : s === "rejected" ? "failed" : "pending";
+  }
+  if (["paid", "approved", "completed", "success"].includes(s)) return "paid";
+  if (["failed", "rejected"].includes(s)) return "failed";
+  return "pending";
+}
+
+/** Map a source record onto ledger fields. */
+export function toLedgerEntry(source: LedgerSource, doc: any) {
+  let gateway: LedgerGateway;
+  let gatewayRef: string | null = null;
+  let purpose: LedgerPurpose = "package";
+
+  if (source === "payment_refunds") {
+    gateway = doc.gateway;
+    gatewayRef = doc.gatewayRefundId || null;
+    purpose = doc.purpose;
+  } else if (source === "bank_transfers") {
+    gateway = "bank_transfer";
+    gatewayRef = doc.referenceNumber || null;
+  } else if (source === "payments") {
+    gateway = "manual";
+    gatewayRef = doc.transactionId ? String(doc.transactionId) : null;
+    purpose = "seller_plan";
+  } else if (doc.razorpayOrderId) {
+    gateway = "razorpay";
+    gatewayRef = doc.razorpayOrderId;
+  } else if (doc.merchantTransactionId) {
+    gateway = "phonepe";
+    gatewayRef = doc.merchantTransactionId;
+  } else {
+    gateway = Number(doc.amount || 0) === 0 ? "free" : "manual";
+  }
+  if (doc.campaignId) purpose = "ad_campaign";
+
+  const isRefund = source === "payment_refunds";
+  const status = ledgerStatus(source, doc.status);
+  return {
+    kind: isRefund ? ("refund" as const) : ("payment" as const),
+    source,
+    sourceId: doc._id as ObjectId,
+    refundOf: isRefund ? oid(doc.ledgerId) : null,
+    gateway,
+    gatewayRef,
+    purpose,
+    userId: oid(doc.userId || doc.sellerId),
+    packageId: oid(doc.packageId),
+    propertyId: oid(doc.propertyId),
+    campaignId: oid(doc.campaignId),
+    amount: Number(doc.amount || 0),
+    refundedAmount: isRefund ? 0 : Number(doc.refundedAmount || 0),
+    currency: String(doc.currency || "INR"),
+    status,
+    sourceStatus: String(doc.status || ""),
+    paidAt:
+      status === "paid"
+        ? doc.paidAt || doc.verificationDate || doc.date || doc.updatedAt || doc.createdAt || null
+        : null,
+    refundedAt: isRefund && status === "refunded" ? doc.processedAt || null : null,
+    sourceCreatedAt: doc.createdAt || null,
+  };
+}
+
+/** Insert or refresh the ledger row for a source record. */
+export async function syncLedgerEntry(db: Db, source: LedgerSource, doc: any) {
+  const entry = toLedgerEntry(source, doc);
+  const now = new Date();
+  await db.collection(LEDGER_COLLECTION).updateOne(
+    { source, sourceId: entry.sourceId },
+    { $set: { ...entry, updatedAt: now }, $setOnInsert: { createdAt: entry.sourceCreatedAt || now } },
+    { upsert: true },
+  );
+  return entry;
+}
+
+/** Bulk version used by the reconciliation job. */
+export async function syncLedgerEntries(db: Db, source: LedgerSource, docs: any[]) {
+  if (!docs.length) return 0;
+  const now = new Date();
+  const ops = docs.map((doc) => {
+    const entry = toLedgerEntry(source, doc);
+    return {
+      updateOne: {
+        filter: { source, sourceId: entry.sourceId },
+        update: {
+          $set: { ...entry, updatedAt: now },
+          $setOnInsert: { createdAt: entry.sourceCreatedAt || now },
+        },
+        upsert: true,
+      },
+    };
+  });
+  await db.collection(LEDGER_COLLECTION).bulkWrite(ops, { ordered: false });
+  return ops.length;
+}
+
+async function findPackage(db: Db, packageId: ObjectId) {
+  return (
+    (await db.collection("ad_packages").findOne({ _id: packageId })) ||
+    (await db.collection("packages").findOne({ _id: packageId }))
+  );
+}
+
+export interface ActivateOptions {
+  activatedBy?: string | null; // admin id for manual approvals
+  // gateway checkouts send the listing back to moderation; admin-approved
+  // and free activations leave its status alone
+  reviewListing?: boolean;
+}
+
+/**
+ * Every write here can be repeated: a retry after a partial failure finds the
+ * package row the failed attempt created (keyed by the ledger source) and
+ * reuses its id and start date, so it writes the same values again instead
+ * of granting a second package or boost.
+ */
+async function applyEntitlement(
+  db: Db,
+  entry: ReturnType<typeof toLedgerEntry>,
+  doc: any,
+  opts: ActivateOptions,
+) {
+  const existing = entry.userId
+    ? await db
+        .collection("user_packages")
+        .findOne({ ledgerSource: entry.source, ledgerSourceId: entry.sourceId })
+    : null;
+  const now: Date = existing?.startDate || new Date();
+
+  if (entry.purpose === "ad_campaign") {
+    const campaign = await markCampaignPaid(db, entry.campaignId, {
+      _id: entry.sourceId,
+      paymentMethod: entry.gateway,
+    });
+    return { campaignId: String(entry.campaignId), alreadyPaid: !campaign };
+  }
+
+  if (!entry.packageId) return { skipped: "no_package" };
+  const pkg = await findPackage(db, entry.packageId);
+  if (!pkg) return { skipped: "package_not_found" };
+
+  const entitlements = resolveEntitlements(pkg);
+  const duration = entitlements.durationDays;
+  const expiry = new Date(now.getTime() + duration * DAY_MS);
+  const userPackageId: ObjectId | null = entry.userId ? existing?._id || new ObjectId() : null;
+  const featured = entitlements.featuredSlots !== 0;
+  // a boost bought for a listing bumps it instead of changing its package
+  const boost = pkg.type === "boost";
+
+  if (entry.purpose === "seller_plan") {
+    if (!entry.userId) return { skipped: "no_user" };
+    await db.collection("users").updateOne(
+      { _id: entry.userId },
+      {
+        $set: {
+          currentPackage: pkg.name,
+          packageType: pkg.type,
+          packageExpiresAt: expiry,
+          isPremium: pkg.type !== "basic",
+          updatedAt: now,
+        },
+      },
+    );
+  } else if (entry.propertyId && !boost) {
+    const review = opts.reviewListing
+      ? { status: "pending_approval", approvalStatus: "pending", isApproved: false }
+      : {};
+    await db.collection("properties").updateOne(
+      { _id: entry.propertyId },
+      {
+        $set: {
+          isPaid: true,
+          paymentStatus: "paid",
+          paymentGateway: entry.gateway,
+          lastPaymentAt: now,
+          paidAmount: entry.amount,
+          paidCurrency: entry.currency,
+          ...(doc.razorpayOrderId
+            ? { razorpayOrderId: doc.razorpayOrderId, razorpayPaymentId: doc.razorpayPaymentId || null }
+            : {}),
+          packageId: entry.packageId,
+          package: {
+            id: pkg._id,
+            name: String(pkg.name || ""),
+            type: String(pkg.type || ""),
+            price: Number(pkg.price || 0),
+            duration,
+            features: Array.isArray(pkg.features) ? pkg.features : [],
+            purchasedAt: now,
+            expiry,
+          },
+          packageExpiry: expiry,
+          packageStatus: "active",
+          userPackageId,
+          featured,
+          featuredUserPackageId: featured ? userPackageId : null,
+          premium: pkg.type === "premium",
+          ...review,
+          updatedAt: now,
+        },
+        ...(opts.reviewListing ? { $unset: { liveAt: "", approvedAt: "" } } : {}),
+      },
+    );
+  }
+
+  if (entry.userId) {
+    const user = await db
+      .collection("users")
+      .findOne({ _id: entry.userId }, { projection: { name: 1, email: 1 } });
+    await db.collection("user_packages").updateOne(
+      { ledgerSource: entry.source, ledgerSourceId: entry.sourceId },
+      {
+        $setOnInsert: {
+          _id: userPackageId,
+          userId: entry.userId,
+          userName: user?.name || "",
+          userEmail: user?.email || "",
+          packageId: entry.packageId,
+          packageName: pkg.name,
+          packageType: pkg.type,
+          price: entry.amount,
+          duration,
+          propertyId: entry.propertyId,
+          startDate: now,
+          endDate: expiry,
+          status: "active",
+          autoRenewal: false,
+          entitlements,
+          featuresUsed: initialUsage(entitlements, entry.propertyId, boost ? "boost" : "listing"),
+          paymentStatus: "paid",
+          paymentMethod: entry.gateway,
+          ledgerSource: entry.source,
+          ledgerSourceId: entry.sourceId,
+          activatedBy: opts.activatedBy || null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      },
+      { upsert: true },
+    );
+  }
+
+  if (entry.purpose === "seller_plan") {
+    return { userId: String(entry.userId), packageExpiresAt: expiry, userPackageId: String(userPackageId) };
+  }
+  if (boost && entry.propertyId) {
+    const applied = existing
+      ? await db.collection(BOOSTS_COLLECTION).findOne({ userPackageId, source: "payment" })
+      : null;
+    if (applied) {
+      return { propertyId: String(entry.propertyId), boostedAt: applied.boostedAt, boostUntil: applied.boostUntil };
+    }
+    return applyBoost(db, entry.propertyId, {
+      userId: entry.userId,
+      source: "payment",
+      userPackageId,
+      now,
+    });
+  }
+  return {
+    propertyId: entry.propertyId ? String(entry.propertyId) : null,
+    packageExpiry: expiry,
+  };
+}
+
+// The claim below is only exclusive with a unique `key` index, so it is
+// created once per process and activation refuses to run without it.
+let entitlementKeyIndex: Promise<string> | null = null;
+
+function ensureEntitlementKeyIndex(db: Db) {
+  if (!entitlementKeyIndex) {
+    entitlementKeyIndex = db
+      .collection(ENTITLEMENTS_COLLECTION)
+      .createIndex({ key: 1 }, { unique: true })
+      .catch((e) => {
+        entitlementKeyIndex = null; // try again on the next activation
+        throw e;
+      });
+  }
+  return entitlementKeyIndex;
+}
+
+/**
+ * Give the payer what they paid for. Safe to call any number of times for
+ * the same payment; only the first call does anything. `doc` is the source
+ * record as it stands after being marked paid.
+ */
+export async function activateEntitlement(
+  db: Db,
+  source: LedgerSource,
+  doc: any,
+  opts: ActivateOptions = {},
+) {
+  const entry = await syncLedgerEntry(db, source, doc);
+  if (entry.status !== "paid") return { activated: false, reason: "not_paid" as const };
+
+  const entitlements = db.collection(ENTITLEMENTS_COLLECTION);
+  const key = `${source}:${String(doc._id)}`;
+  const now = new Date();
+
+  try {
+    await ensureEntitlementKeyIndex(db);
+  } catch (e: any) {
+    throw new Error(`Not activating ${key}: unique index on ${ENTITLEMENTS_COLLECTION}.key is missing (${e?.message || e})`);
+  }
+
+  // Whoever inserts the row owns the activation; everyone else just counts an attempt
+  let claimed = false;
+  try {
+    const claim = await entitlements.updateOne(
+      { key },
+      {
+        $setOnInsert: {
+          key,
+          source,
+          sourceId: entry.sourceId,
+          purpose: entry.purpose,
+          gateway: entry.gateway,
+          userId: entry.userId,
+          packageId: entry.packageId,
+          propertyId: entry.propertyId,
+          campaignId: entry.campaignId,
+          amount: entry.amount,
+          activatedAt: now,
+          activatedBy: opts.activatedBy || null,
+        },
+        $inc: { attempts: 1 },
+        $set: { lastAttemptAt: now },
+      },
+      { upsert: true },
+    );
+    claimed = claim.upsertedCount === 1;
+  } catch (e: any) {
+    // a concurrent upsert inserted first
+    if (e?.code !== 11000) throw e;
+  }
+  if (!claimed) return { activated: false, reason: "already_activated" as const };
+
+  let result: Record<string, any>;
+  try {
+    result = await applyEntitlement(db, entry, doc, opts);
+  } catch (e) {
+    // release the claim so the next callback or the reconciliation job retries
+    await entitlements.deleteOne({ key });
+    throw e;
+  }
+
+  await entitlements.updateOne({ key }, { $set: { result } });
+  const row = await db
+    .collection(LEDGER_COLLECTION)
+    .findOneAndUpdate(
+      { source, sourceId: entry.sourceId },
+      { $set: { entitlementActivatedAt: now } },
+      { returnDocument: "after" },
+    );
+
+  // the reconciliation job backfills invoices that fail here
+  if (row) {
+    await issueInvoice(db, row._id).catch((e: any) =>
+      console.warn(`Invoice for ${key} failed:`, e?.message || e),
+    );
+  }
+  return { activated: true, result };
+}
+
+export async function ensurePaymentLedgerIndexes(db: Db) {
+  const ledger = db.collection(LEDGER_COLLECTION);
+  await ledger.createIndex({ source: 1, sourceId: 1 }, { unique: true });
+  await ledger.createIndex({ gateway: 1, gatewayRef: 1 });
+  await ledger.createIndex({ status: 1, createdAt: -1 });
+  await ledger.createIndex({ userId: 1, createdAt: -1 });
+
+  await ensureEntitlementKeyIndex(db);
+  await db.collection(ENTITLEMENTS_COLLECTION).createIndex({ activatedAt: -1 });
+  await db.collection("user_packages").createIndex({ ledgerSource: 1, ledgerSourceId: 1 }, { sparse: true });
+}
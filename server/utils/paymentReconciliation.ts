@@ -0,0 +1,308 @@
+// server/utils/paymentReconciliation.ts
+// Compares the ledger against what the gateways say and against what was
+// actually activated, and keeps a list of problems for finance to work
+// through. Issues are keyed by (type, ledger row) so a problem seen on every
+// run stays one issue; ones whose cause goes away close themselves.
+import { Db, ObjectId } from "mongodb";
+import { LedgerSource, ReconciliationIssueType } from "@shared/paymentLedger";
+import {
+  ENTITLEMENTS_COLLECTION,
+  LEDGER_COLLECTION,
+  syncLedgerEntries,
+} from "./paymentLedger";
+import { getPaymentGatewayClient } from "./paymentGateways";
+import { syncPendingRefunds } from "./paymentRefunds";
+import { issueMissingInvoices } from "./invoices";
+
+export const RECON_ISSUES_COLLECTION = "payment_reconciliation_issues";
+const META_COLLECTION = "payment_ledger_meta";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const SYNC_WINDOW_MS = 3 * DAY; // source records touched recently are re-mirrored
+const CHECK_WINDOW_MS = 7 * DAY; // how far back gateway lookups go
+const PENDING_GRACE_MS = 15 * MINUTE; // give checkouts time to finish before asking
+const STUCK_AFTER_MS = DAY;
+const MAX_GATEWAY_CHECKS = 200; // per run, to stay well inside gateway rate limits
+const AMOUNT_TOLERANCE = 0.5; // rupees
+
+const SOURCE_COLLECTIONS: LedgerSource[] = ["transactions", "bank_transfers", "payments"];
+
+async function raiseIssue(
+  db: Db,
+  type: ReconciliationIssueType,
+  ledgerId: ObjectId,
+  details: Record<string, any>,
+  now: Date,
+) {
+  const issues = db.collection(RECON_ISSUES_COLLECTION);
+  const res = await issues.updateOne(
+    { type, ledgerId },
+    {
+      $set: { details, lastSeenAt: now },
+      $setOnInsert: { type, ledgerId, status: "open", firstSeenAt: now },
+    },
+    { upsert: true },
+  );
+  // an issue that cleared itself and came back is reopened; ones an admin
+  // resolved or ignored by hand stay closed
+  if (!res.upsertedCount) {
+    await issues.updateOne(
+      { type, ledgerId, status: "resolved", resolution: "cleared" },
+      { $set: { status: "open", reopenedAt: now } },
+    );
+  }
+  return res.upsertedCount;
+}
+
+async function mirrorSources(db: Db, now: Date) {
+  const since = new Date(now.getTime() - SYNC_WINDOW_MS);
+  let synced = 0;
+  for (const source of SOURCE_COLLECTIONS) {
+    const docs = await db
+      .collection(source)
+      .find({
+        $or: [
+          { updatedAt: { $gte: since } },
+          { createdAt: { $gte: since } },
+          { status: { $in: ["pending", "processing"] } },
+        ],
+      })
+      .limit(5000)
+      .toArray();
+    synced += await syncLedgerEntries(db, source, docs);
+  }
+  return synced;
+}
+
+async function checkGateways(db: Db, now: Date) {
+  const ledger = db.collection(LEDGER_COLLECTION);
+  const checkFrom = new Date(now.getTime() - CHECK_WINDOW_MS);
+  const entries = await ledger
+    .find({
+      kind: { $ne: "refund" },
+      gateway: { $in: ["razorpay", "phonepe"] },
+      gatewayRef: { $ne: null },
+      createdAt: { $gte: checkFrom },
+      $or: [
+        { status: { $in: ["pending", "failed"] }, createdAt: { $lte: new Date(now.getTime() - PENDING_GRACE_MS) } },
+        { status: "paid", gatewayVerifiedAt: null },
+      ],
+    })
+    .sort({ gatewayCheckedAt: 1, createdAt: -1 })
+    .limit(MAX_GATEWAY_CHECKS)
+    .toArray();
+
+  let checked = 0;
+  let errors = 0;
+  let raised = 0;
+  for (const entry of entries) {
+    const client = getPaymentGatewayClient(entry.gateway);
+    if (!client) continue;
+
+    let result;
+    try {
+      result = await client.fetchStatus(entry.gatewayRef);
+    } catch (e: any) {
+      errors++;
+      console.warn(`Gateway status failed for ${entry.gateway} ${entry.gatewayRef}:`, e?.message || e);
+      continue;
+    }
+    checked++;
+
+    const update: Record<string, any> = {
+      gatewayStatus: result.status,
+      gatewayAmount: result.amount ?? null,
+      gatewayCheckedAt: now,
+    };
+    const amountsDiffer =
+      result.amount != null && Math.abs(result.amount - Number(entry.amount || 0)) > AMOUNT_TOLERANCE;
+
+    if (result.status === "paid" && entry.status !== "paid") {
+      raised += await raiseIssue(db, "paid_not_recorded", entry._id, { gatewayAmount: result.amount }, now);
+    } else if (entry.status === "paid" && (result.status === "failed" || result.status === "pending")) {
+      raised += await raiseIssue(db, "recorded_not_paid", entry._id, { gatewayStatus: result.status }, now);
+    } else if (entry.status === "paid" && result.status === "paid") {
+      if (amountsDiffer) {
+        raised += await raiseIssue(
+          db,
+          "amount_mismatch",
+          entry._id,
+          { ledgerAmount: entry.amount, gatewayAmount: result.amount },
+          now,
+        );
+      } else {
+        update.gatewayVerifiedAt = now;
+      }
+    }
+    await ledger.updateOne({ _id: entry._id }, { $set: update });
+  }
+  return { checked, errors, raised };
+}
+
+async function findStuckAndUnactivated(db: Db, now: Date, since: Date) {
+  const ledger = db.collection(LEDGER_COLLECTION);
+  let raised = 0;
+
+  const stuck = await ledger
+    .find({
+      status: "pending",
+      createdAt: { $lte: new Date(now.getTime() - STUCK_AFTER_MS), $gte: new Date(now.getTime() - 30 * DAY) },
+    })
+    .limit(1000)
+    .toArray();
+  for (const entry of stuck) {
+    raised += await raiseIssue(
+      db,
+      "stuck_pending",
+      entry._id,
+      { ageHours: Math.round((now.getTime() - entry.createdAt.getTime()) / (60 * MINUTE)) },
+      now,
+    );
+  }
+
+  // payments from before the ledger existed were activated by the old code
+  // paths and never got an entitlement record; only judge newer ones
+  const unactivated = await ledger
+    .find({
+      status: "paid",
+      entitlementActivatedAt: null,
+      paidAt: { $gte: since, $lte: new Date(now.getTime() - 10 * MINUTE) },
+      $or: [{ packageId: { $ne: null } }, { campaignId: { $ne: null } }],
+    })
+    .limit(1000)
+    .toArray();
+  for (const entry of unactivated) {
+    raised += await raiseIssue(db, "missing_entitlement", entry._id, {}, now);
+  }
+  return raised;
+}
+
+async function findDoubleActivations(db: Db, now: Date) {
+  // two payments activating the same package on the same listing within a
+  // day, or paying for the same campaign, almost always means a double charge
+  const groups = await db
+    .collection(ENTITLEMENTS_COLLECTION)
+    .aggregate([
+      { $match: { activatedAt: { $gte: new Date(now.getTime() - 30 * DAY) } } },
+      { $sort: { activatedAt: 1 } },
+      {
+        $group: {
+          _id: {
+            userId: "$userId",
+            packageId: "$packageId",
+            propertyId: "$propertyId",
+            campaignId: "$campaignId",
+          },
+          items: { $push: { source: "$source", sourceId: "$sourceId", activatedAt: "$activatedAt" } },
+        },
+      },
+      { $match: { "items.1": { $exists: true } } },
+    ])
+    .toArray();
+
+  let raised = 0;
+  for (const g of groups) {
+    const isCampaign = !!g._id.campaignId;
+    for (let i = 1; i < g.items.length; i++) {
+      const prev = g.items[i - 1];
+      const cur = g.items[i];
+      if (!isCampaign && cur.activatedAt.getTime() - prev.activatedAt.getTime() > DAY) continue;
+
+      const entry = await db
+        .collection(LEDGER_COLLECTION)
+        .findOne({ source: cur.source, sourceId: cur.sourceId }, { projection: { _id: 1 } });
+      if (!entry) continue;
+      raised += await raiseIssue(
+        db,
+        "double_activation",
+        entry._id,
+        { previous: { source: prev.source, sourceId: String(prev.sourceId), activatedAt: prev.activatedAt } },
+        now,
+      );
+    }
+  }
+  return raised;
+}
+
+/** Close open issues whose cause has gone away. */
+async function autoResolve(db: Db, now: Date) {
+  const issues = db.collection(RECON_ISSUES_COLLECTION);
+  const open = await issues
+    .aggregate([
+      { $match: { status: "open", type: { $in: ["paid_not_recorded", "recorded_not_paid", "stuck_pending", "missing_entitlement"] } } },
+      { $lookup: { from: LEDGER_COLLECTION, localField: "ledgerId", foreignField: "_id", as: "ledger" } },
+      { $unwind: { path: "$ledger", preserveNullAndEmptyArrays: true } },
+    ])
+    .toArray();
+
+  const cleared = open
+    .filter((issue) => {
+      const l = issue.ledger;
+      if (!l) return true;
+      switch (issue.type) {
+        case "paid_not_recorded":
+          return l.status === "paid";
+        case "recorded_not_paid":
+          return l.status !== "paid" || l.gatewayStatus === "paid";
+        case "stuck_pending":
+          return l.status !== "pending";
+        case "missing_entitlement":
+          return !!l.entitlementActivatedAt || l.status !== "paid";
+        default:
+          return false;
+      }
+    })
+    .map((issue) => issue._id);
+
+  if (cleared.length) {
+    await issues.updateMany(
+      { _id: { $in: cleared } },
+      { $set: { status: "resolved", resolution: "cleared", resolvedAt: now, resolvedBy: null } },
+    );
+  }
+  return cleared.length;
+}
+
+/** One reconciliation pass. Returns counts for the job log and the admin screen. */
+export async function runPaymentReconciliation(db: Db, now: Date = new Date()) {
+  const meta = db.collection(META_COLLECTION);
+  const state = await meta.findOneAndUpdate(
+    { _id: "reconciliation" as any },
+    { $setOnInsert: { ledgerStartedAt: now } },
+    { upsert: true, returnDocument: "after" },
+  );
+  const ledgerStartedAt: Date = state?.ledgerStartedAt || now;
+
+  const synced = await mirrorSources(db, now);
+  const gateway = await checkGateways(db, now);
+  const refunds = await syncPendingRefunds(db, now);
+  const raisedLocal = await findStuckAndUnactivated(db, now, ledgerStartedAt);
+  const raisedDouble = await findDoubleActivations(db, now);
+  const resolved = await autoResolve(db, now);
+  const invoicesIssued = await issueMissingInvoices(db, ledgerStartedAt, now);
+
+  const stats = {
+    synced,
+    gatewayChecked: gateway.checked,
+    gatewayErrors: gateway.errors,
+    refundsProcessed: refunds.processed,
+    refundsFailed: refunds.failed,
+    invoicesIssued,
+    newIssues: gateway.raised + raisedLocal + raisedDouble,
+    autoResolved: resolved,
+  };
+  await meta.updateOne({ _id: "reconciliation" as any }, { $set: { lastRunAt: now, lastRunStats: stats } });
+  return stats;
+}
+
+export async function getReconciliationMeta(db: Db) {
+  return db.collection(META_COLLECTION).findOne({ _id: "reconciliation" as any });
+}
+
+export async function ensureReconciliationIndexes(db: Db) {
+  const issues = db.collection(RECON_ISSUES_COLLECTION);
+  await issues.createIndex({ type: 1, ledgerId: 1 }, { unique: true });
+  await issues.createIndex({ status: 1, lastSeenAt: -1 });
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { ObjectId } from "mongodb";
+import { RefundError, quoteRefund } from "./paymentRefunds";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ledgerId = new ObjectId();
+const sourceId = new ObjectId();
+const start = new Date("2026-01-01T00:00:00Z");
+const end = new Date(start.getTime() + 30 * DAY_MS);
+
+// quoteRefund only reads: one document per collection is enough
+const fakeDb = (docs: Record<string, any>) =>
+  ({
+    collection: (name: string) => ({
+      findOne: async () => docs[name] ?? null,
+    }),
+  }) as any;
+
+const packagePayment = (
+  opts: { refundedAmount?: number; status?: string; withPeriod?: boolean } = {},
+) =>
+  fakeDb({
+    payment_ledger: {
+      _id: ledgerId,
+      kind: "payment",
+      purpose: "package",
+      source: "transactions",
+      sourceId,
+      amount: 999,
+      status: opts.status ?? "paid",
+      paidAt: start,
+    },
+    transactions: { _id: sourceId, refundedAmount: opts.refundedAmount },
+    user_packages:
+      opts.withPeriod === false ? null : { _id: new ObjectId(), startDate: start, endDate: end },
+  });
+
+const at = (days: number) => new Date(start.getTime() + days * DAY_MS);
+
+describe("quoteRefund", () => {
+  it("offers everything back before the period starts", async () => {
+    const quote = await quoteRefund(packagePayment(), ledgerId, at(-1));
+    expect(quote).toMatchObject({
+      paidAmount: 999,
+      alreadyRefunded: 0,
+      full: 999,
+      prorated: 999,
+      unusedDays: 30,
+      totalDays: 30,
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+    });
+  });
+
+  it("prorates the unused days part way through", async () => {
+    const quote = await quoteRefund(packagePayment(), ledgerId, at(20));
+    expect(quote.full).toBe(999);
+    expect(quote.unusedDays).toBe(10);
+    expect(quote.prorated).toBe(333);
+  });
+
+  it("rounds a prorated amount down to the paisa", async () => {
+    const quote = await quoteRefund(packagePayment(), ledgerId, at(23));
+    // 999 × 7 / 30 = 233.1
+    expect(quote.prorated).toBe(233.1);
+    const odd = await quoteRefund(packagePayment(), ledgerId, at(29));
+    // 999 / 30 = 33.3
+    expect(odd.prorated).toBe(33.3);
+  });
+
+  it("counts a partly used day as used", async () => {
+    const quote = await quoteRefund(packagePayment(), ledgerId, new Date(at(20).getTime() + 1000));
+    expect(quote.unusedDays).toBe(9);
+    expect(quote.prorated).toBe(299.7);
+  });
+
+  it("offers nothing prorated once the period has expired", async () => {
+    const quote = await quoteRefund(packagePayment(), ledgerId, at(45));
+    expect(quote.unusedDays).toBe(0);
+    expect(quote.prorated).toBe(0);
+    expect(quote.full).toBe(999);
+  });
+
+  it("takes off what was already refunded", async () => {
+    const quote = await quoteRefund(packagePayment({ refundedAmount: 500 }), ledgerId, at(-1));
+    expect(quote.alreadyRefunded).toBe(500);
+    expect(quote.full).toBe(499);
+    expect(quote.prorated).toBe(499);
+  });
+
+  it("caps the prorated amount at what is left after earlier refunds", async () => {
+    const mostlyRefunded = await quoteRefund(packagePayment({ refundedAmount: 800 }), ledgerId, at(20));
+    expect(mostlyRefunded.full).toBe(199);
+    expect(mostlyRefunded.prorated).toBe(199);
+
+    const partlyRefunded = await quoteRefund(packagePayment({ refundedAmount: 100 }), ledgerId, at(20));
+    expect(partlyRefunded.full).toBe(899);
+    expect(partlyRefunded.prorated).toBe(333);
+  });
+
+  it("offers nothing once the payment is fully refunded", async () => {
+    const quote = await quoteRefund(
+      packagePayment({ refundedAmount: 999, status: "refunded" }),
+      ledgerId,
+      at(5),
+    );
+    expect(quote.full).toBe(0);
+    expect(quote.prorated).toBe(0);
+  });
+
+  it("falls back to the full amount when the period is unknown", async () => {
+    const quote = await quoteRefund(packagePayment({ withPeriod: false }), ledgerId, at(20));
+    expect(quote.prorated).toBe(999);
+    expect(quote.unusedDays).toBeNull();
+    expect(quote.totalDays).toBeNull();
+  });
+
+  it("refuses payments that were never paid", async () => {
+    await expect(
+      quoteRefund(packagePayment({ status: "pending" }), ledgerId, at(5)),
+    ).rejects.toBeInstanceOf(RefundError);
+  });
+});
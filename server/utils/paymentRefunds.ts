@@ -0,0 +1,426 @@
+// server/utils/paymentRefunds.ts
+// Admin-initiated refunds. A refund is made against a ledger row: the amount
+// is reserved on the original payment record first (so two admins can't
+// refund the same money twice), then sent to the gateway, and whatever was
+// bought is taken back. Bank transfers and offline payments have no gateway
+// to call; those refunds are recorded as processed and paid out by hand.
+import { Db, ObjectId } from "mongodb";
+import { LedgerSource, RefundMode, RefundQuote } from "@shared/paymentLedger";
+import { ENTITLEMENTS_COLLECTION, LEDGER_COLLECTION, syncLedgerEntry } from "./paymentLedger";
+import { getPaymentGatewayClient } from "./paymentGateways";
+import { AD_CAMPAIGNS_COLLECTION } from "./adCampaigns";
+import { sendEmail } from "./mailer";
+import { nextDocumentNumber } from "./invoices";
+import { endBoostsForPackage } from "./boosts";
+
+export const REFUNDS_COLLECTION = "payment_refunds";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GATEWAYS_WITH_API = ["razorpay", "phonepe"];
+
+export class RefundError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+// Down to the paisa; the epsilon keeps 33.3 (stored as 33.2999…) from losing one
+const round2 = (n: number) => Math.floor(n * 100 + 1e-6) / 100;
+
+async function loadPayment(db: Db, ledgerId: ObjectId) {
+  const entry = await db.collection(LEDGER_COLLECTION).findOne({ _id: ledgerId });
+  if (!entry || entry.kind === "refund") throw new RefundError("Payment not found", 404);
+  if (entry.status !== "paid" && entry.status !== "refunded") {
+    throw new RefundError("Only paid payments can be refunded", 409);
+  }
+  const doc = await db.collection(entry.source).findOne({ _id: entry.sourceId });
+  if (!doc) throw new RefundError("Payment record not found", 404);
+  return { entry, doc };
+}
+
+/** The user_packages row a package payment activated, if any. */
+async function findUserPackage(db: Db, entry: any) {
+  const byLedger = await db
+    .collection("user_packages")
+    .findOne({ ledgerSource: entry.source, ledgerSourceId: entry.sourceId });
+  if (byLedger || !entry.userId || !entry.packageId) return byLedger;
+  // activated before the ledger existed: match on what was bought
+  return db.collection("user_packages").findOne(
+    {
+      userId: { $in: [entry.userId, String(entry.userId)] },
+      packageId: { $in: [entry.packageId, String(entry.packageId)] },
+      ...(entry.propertyId ? { propertyId: { $in: [entry.propertyId, String(entry.propertyId)] } } : {}),
+    },
+    { sort: { createdAt: -1 } },
+  );
+}
+
+/** Start and end of the period a payment bought, for prorating. */
+async function paidPeriod(db: Db, entry: any): Promise<{ start: Date; end: Date } | null> {
+  if (entry.purpose === "ad_campaign" && entry.campaignId) {
+    const campaign = await db.collection(AD_CAMPAIGNS_COLLECTION).findOne({ _id: entry.campaignId });
+    if (!campaign) return null;
+    return {
+      start: new Date(`${campaign.startDate}T00:00:00`),
+      end: new Date(new Date(`${campaign.endDate}T00:00:00`).getTime() + DAY_MS),
+    };
+  }
+  if (entry.purpose === "seller_plan") {
+    const user = entry.userId
+      ? await db.collection("users").findOne({ _id: entry.userId }, { projection: { packageExpiresAt: 1 } })
+      : null;
+    return user?.packageExpiresAt && entry.paidAt
+      ? { start: new Date(entry.paidAt), end: new Date(user.packageExpiresAt) }
+      : null;
+  }
+  const userPackage = await findUserPackage(db, entry);
+  return userPackage?.startDate && userPackage?.endDate
+    ? { start: new Date(userPackage.startDate), end: new Date(userPackage.endDate) }
+    : null;
+}
+
+/** What a payment can still be refunded, in full or for its unused days. */
+export async function quoteRefund(db: Db, ledgerId: ObjectId, now: Date = new Date()): Promise<RefundQuote> {
+  const { entry, doc } = await loadPayment(db, ledgerId);
+  const paidAmount = Number(entry.amount || 0);
+  const alreadyRefunded = Number(doc.refundedAmount || 0);
+  const full = Math.max(0, round2(paidAmount - alreadyRefunded));
+
+  const period = await paidPeriod(db, entry);
+  let prorated = full;
+  let unusedDays: number | null = null;
+  let totalDays: number | null = null;
+  if (period) {
+    const total = Math.max(1, period.end.getTime() - period.start.getTime());
+    const unused = Math.min(total, Math.max(0, period.end.getTime() - Math.max(now.getTime(), period.start.getTime())));
+    totalDays = Math.ceil(total / DAY_MS);
+    unusedDays = Math.floor(unused / DAY_MS);
+    prorated = Math.min(full, round2((paidAmount * unusedDays) / totalDays));
+  }
+
+  return {
+    ledgerId: String(entry._id),
+    paidAmount,
+    alreadyRefunded,
+    full,
+    prorated,
+    periodStart: period?.start.toISOString() || null,
+    periodEnd: period?.end.toISOString() || null,
+    unusedDays,
+    totalDays,
+  };
+}
+
+/** Take back what the payment bought: flags on the listing, the plan, the banner. */
+async function revokeEntitlement(db: Db, entry: any, refundId: ObjectId, now: Date) {
+  const revoked: Record<string, any> = {};
+
+  if (entry.purpose === "ad_campaign" && entry.campaignId) {
+    const campaign = await db.collection(AD_CAMPAIGNS_COLLECTION).findOneAndUpdate(
+      { _id: entry.campaignId },
+      {
+        $set: {
+          paymentStatus: "refunded",
+          refundDue: false,
+          refundedAt: now,
+          refundId,
+          updatedAt: now,
+        },
+      },
+      { returnDocument: "before" },
+    );
+    if (campaign && !["completed", "rejected", "expired"].includes(campaign.status)) {
+      await db
+        .collection(AD_CAMPAIGNS_COLLECTION)
+        .updateOne({ _id: campaign._id }, { $set: { status: "cancelled", cancelledAt: now } });
+    }
+    if (campaign?.bannerId) {
+      await db.collection("banners").updateOne({ _id: campaign.bannerId }, { $set: { isActive: false, updatedAt: now } });
+    }
+    revoked.campaignId = String(entry.campaignId);
+  } else {
+    if (entry.purpose === "seller_plan" && entry.userId) {
+      await db.collection("users").updateOne(
+        { _id: entry.userId },
+        { $set: { isPremium: false, packageExpiresAt: now, updatedAt: now } },
+      );
+      revoked.userId = String(entry.userId);
+    }
+    const userPackage = await findUserPackage(db, entry);
+    if (userPackage) {
+      await db.collection("user_packages").updateOne(
+        { _id: userPackage._id },
+        {
+          $set: {
+            status: "cancelled",
+            autoRenewal: false,
+            paymentStatus: "refunded",
+            endDate: now,
+            cancelledAt: now,
+            refundId,
+            updatedAt: now,
+          },
+        },
+      );
+      revoked.userPackageId = String(userPackage._id);
+      await endBoostsForPackage(db, userPackage._id, now);
+      // listings featured on this package's slots
+      await db
+        .collection("properties")
+        .updateMany(
+          { featuredUserPackageId: userPackage._id },
+          { $set: { featured: false, featuredUserPackageId: null, updatedAt: now } },
+        );
+    }
+    // only if the listing still carries the package this payment bought
+    if (entry.propertyId && entry.packageId) {
+      const res = await db.collection("properties").updateOne(
+        { _id: entry.propertyId, packageId: { $in: [entry.packageId, String(entry.packageId)] } },
+        {
+          $set: {
+            featured: false,
+            premium: false,
+            isPaid: false,
+            paymentStatus: "refunded",
+            packageStatus: "refunded",
+            packageExpiry: now,
+            "package.expiry": now,
+            updatedAt: now,
+          },
+        },
+      );
+      if (res.modifiedCount) revoked.propertyId = String(entry.propertyId);
+    }
+  }
+
+  await db
+    .collection(ENTITLEMENTS_COLLECTION)
+    .updateOne({ key: `${entry.source}:${String(entry.sourceId)}` }, { $set: { revokedAt: now, refundId } });
+  return revoked;
+}
+
+async function sendCreditNote(db: Db, refund: any) {
+  try {
+    const user = refund.userId
+      ? await db.collection("users").findOne({ _id: refund.userId }, { projection: { name: 1, email: 1 } })
+      : null;
+    let email = user?.email;
+    if (!email && refund.campaignId) {
+      const campaign = await db.collection(AD_CAMPAIGNS_COLLECTION).findOne({ _id: refund.campaignId });
+      const submission = campaign
+        ? await db.collection("advertisement_submissions").findOne({ _id: campaign.submissionId })
+        : null;
+      email = submission?.email;
+    }
+    if (!email) return;
+
+    const amount = `₹${Number(refund.amount).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #333;">
+        <div style="background-color: #C70000; color: white; padding: 20px; text-align: center;">
+          <h2 style="margin: 0;">Credit Note</h2>
+        </div>
+        <div style="padding: 24px; background: white;">
+          <p>Hello ${user?.name || ""},</p>
+          <p>We have refunded <strong>${amount}</strong> against your payment.</p>
+          <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">
+            <tr><td style="padding: 6px 0; color: #666;">Credit note no.</td><td>${refund.creditNoteNumber}</td></tr>
+            <tr><td style="padding: 6px 0; color: #666;">Date</td><td>${new Date(refund.processedAt || refund.createdAt).toLocaleDateString("en-IN")}</td></tr>
+            ${refund.invoiceNumber ? `<tr><td style="padding: 6px 0; color: #666;">Against invoice</td><td>${refund.invoiceNumber}</td></tr>` : ""}
+            <tr><td style="padding: 6px 0; color: #666;">Original payment</td><td>${refund.gatewayRef || refund.sourceId}</td></tr>
+            <tr><td style="padding: 6px 0; color: #666;">Amount paid</td><td>₹${Number(refund.paidAmount).toLocaleString("en-IN")}</td></tr>
+            <tr><td style="padding: 6px 0; color: #666;">Refund</td><td><strong>${amount}</strong> (${refund.mode === "full" ? "full" : "unused period"})</td></tr>
+            ${refund.reason ? `<tr><td style="padding: 6px 0; color: #666;">Reason</td><td>${refund.reason}</td></tr>` : ""}
+          </table>
+          <p>${
+            refund.manualPayout
+              ? "Our accounts team will transfer the amount to your bank account."
+              : "The amount will reach your original payment method in 5–7 working days."
+          }</p>
+          <p>Best regards,<br><strong>Ashish Properties Team</strong></p>
+        </div>
+      </div>
+    `;
+    await sendEmail(email, `Credit note ${refund.creditNoteNumber}`, html, `Refund of ${amount} (${refund.creditNoteNumber})`);
+    await db.collection(REFUNDS_COLLECTION).updateOne({ _id: refund._id }, { $set: { creditNoteSentAt: new Date() } });
+  } catch (e: any) {
+    console.warn("Credit note email failed:", e?.message || e);
+  }
+}
+
+/** Put a refund's reserved amount back on the original payment. */
+async function releaseReservation(db: Db, source: LedgerSource, sourceId: ObjectId, amount: number) {
+  const doc = await db
+    .collection(source)
+    .findOneAndUpdate({ _id: sourceId }, { $inc: { refundedAmount: -amount } }, { returnDocument: "after" });
+  if (doc) await syncLedgerEntry(db, source, doc);
+}
+
+async function markProcessed(db: Db, refund: any, now: Date) {
+  const updated = await db.collection(REFUNDS_COLLECTION).findOneAndUpdate(
+    { _id: refund._id, status: { $ne: "processed" } },
+    { $set: { status: "processed", processedAt: now, updatedAt: now } },
+    { returnDocument: "after" },
+  );
+  if (!updated) return null;
+  await syncLedgerEntry(db, REFUNDS_COLLECTION, updated);
+
+  // fully refunded payments leave the "paid" state
+  const original = await db.collection(refund.source).findOneAndUpdate(
+    { _id: refund.sourceId, $expr: { $gte: [{ $ifNull: ["$refundedAmount", 0] }, refund.paidAmount] } },
+    { $set: { status: "refunded", refundedAt: now, updatedAt: now } },
+    { returnDocument: "after" },
+  );
+  if (original) await syncLedgerEntry(db, refund.source, original);
+
+  await sendCreditNote(db, updated);
+  return updated;
+}
+
+async function markFailed(db: Db, refund: any, reason: string, now: Date) {
+  const updated = await db.collection(REFUNDS_COLLECTION).findOneAndUpdate(
+    { _id: refund._id, status: "pending" },
+    { $set: { status: "failed", failureReason: reason, updatedAt: now } },
+    { returnDocument: "after" },
+  );
+  if (!updated) return null;
+  await syncLedgerEntry(db, REFUNDS_COLLECTION, updated);
+  await releaseReservation(db, refund.source, refund.sourceId, refund.amount);
+  return updated;
+}
+
+export interface RefundOptions {
+  mode: RefundMode;
+  reason: string;
+  requestedBy: string | null;
+  // false when paying back a duplicate charge whose purchase another
+  // payment already covers
+  revoke?: boolean;
+}
+
+/**
+ * Refund a payment in full or for its unused days, and take back what it
+ * bought. Throws RefundError when nothing is refundable or the gateway
+ * rejects the refund.
+ */
+export async function refundPayment(db: Db, ledgerId: ObjectId, opts: RefundOptions, now: Date = new Date()) {
+  const quote = await quoteRefund(db, ledgerId, now);
+  const amount = opts.mode === "full" ? quote.full : quote.prorated;
+  if (amount <= 0) throw new RefundError("Nothing left to refund on this payment", 409);
+
+  const { entry, doc } = await loadPayment(db, ledgerId);
+  const source = entry.source as LedgerSource;
+
+  // reserve the amount on the payment record itself; a concurrent refund
+  // that would take the total past what was paid matches nothing
+  const reserved = await db.collection(source).findOneAndUpdate(
+    {
+      _id: entry.sourceId,
+      $expr: { $lte: [{ $add: [{ $ifNull: ["$refundedAmount", 0] }, amount] }, Number(entry.amount) + 0.001] },
+    },
+    { $inc: { refundedAmount: amount }, $set: { updatedAt: now } },
+    { returnDocument: "after" },
+  );
+  if (!reserved) throw new RefundError("Another refund is already in progress for this payment", 409);
+  await syncLedgerEntry(db, source, reserved);
+
+  const viaGateway = GATEWAYS_WITH_API.includes(entry.gateway) && !!entry.gatewayRef;
+  const refund: any = {
+    ledgerId: entry._id,
+    source,
+    sourceId: entry.sourceId,
+    gateway: entry.gateway,
+    gatewayRef: entry.gatewayRef || null,
+    gatewayRefundId: null,
+    purpose: entry.purpose,
+    userId: entry.userId || null,
+    packageId: entry.packageId || null,
+    propertyId: entry.propertyId || null,
+    campaignId: entry.campaignId || null,
+    mode: opts.mode,
+    amount,
+    paidAmount: Number(entry.amount),
+    currency: entry.currency || "INR",
+    reason: opts.reason,
+    status: "pending",
+    manualPayout: !viaGateway,
+    creditNoteNumber: (await nextDocumentNumber(db, "CN", now)).number,
+    invoiceNumber: entry.invoiceNumber || null,
+    requestedBy: opts.requestedBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { insertedId } = await db.collection(REFUNDS_COLLECTION).insertOne(refund);
+  refund._id = insertedId;
+  await syncLedgerEntry(db, REFUNDS_COLLECTION, refund);
+
+  if (viaGateway) {
+    const client = getPaymentGatewayClient(entry.gateway);
+    let result;
+    try {
+      if (!client) throw new Error(`No ${entry.gateway} client`);
+      result = await client.refund({
+        ref: entry.gatewayRef,
+        paymentId: doc.razorpayPaymentId || null,
+        amount,
+        refundId: String(insertedId),
+        userId: entry.userId ? String(entry.userId) : null,
+      });
+    } catch (e: any) {
+      await markFailed(db, refund, e?.message || "Gateway error", now);
+      throw new RefundError(`Gateway refused the refund: ${e?.message || e}`, 502);
+    }
+    if (result.status === "failed") {
+      await markFailed(db, refund, "Gateway reported the refund as failed", now);
+      throw new RefundError("Gateway reported the refund as failed", 502);
+    }
+    await db
+      .collection(REFUNDS_COLLECTION)
+      .updateOne({ _id: insertedId }, { $set: { gatewayRefundId: result.gatewayRefundId, gatewayResponse: result.raw ?? null } });
+    refund.gatewayRefundId = result.gatewayRefundId;
+    await syncLedgerEntry(db, REFUNDS_COLLECTION, refund);
+    if (result.status === "processed") await markProcessed(db, refund, now);
+  } else {
+    await markProcessed(db, refund, now);
+  }
+
+  const revoked = opts.revoke === false ? null : await revokeEntitlement(db, entry, insertedId, now);
+  await db.collection(REFUNDS_COLLECTION).updateOne({ _id: insertedId }, { $set: { revoked } });
+  return db.collection(REFUNDS_COLLECTION).findOne({ _id: insertedId });
+}
+
+/** Ask the gateways about refunds still pending. Run from the reconciliation job. */
+export async function syncPendingRefunds(db: Db, now: Date = new Date()) {
+  const pending = await db
+    .collection(REFUNDS_COLLECTION)
+    .find({ status: "pending", gatewayRefundId: { $ne: null } })
+    .limit(100)
+    .toArray();
+
+  let processed = 0;
+  let failed = 0;
+  for (const refund of pending) {
+    const client = getPaymentGatewayClient(refund.gateway);
+    if (!client) continue;
+    let status;
+    try {
+      status = await client.fetchRefundStatus(refund.gatewayRefundId);
+    } catch (e: any) {
+      console.warn(`Refund status failed for ${refund.gatewayRefundId}:`, e?.message || e);
+      continue;
+    }
+    if (status === "processed" && (await markProcessed(db, refund, now))) processed++;
+    if (status === "failed" && (await markFailed(db, refund, "Gateway reported the refund as failed", now))) failed++;
+  }
+  return { checked: pending.length, processed, failed };
+}
+
+export async function ensureRefundIndexes(db: Db) {
+  const refunds = db.collection(REFUNDS_COLLECTION);
+  await refunds.createIndex({ ledgerId: 1, createdAt: -1 });
+  await refunds.createIndex({ status: 1, createdAt: -1 });
+  await refunds.createIndex({ creditNoteNumber: 1 }, { unique: true });
+}
@@ -0,0 +1,223 @@
+// server/utils/phoneOtp.ts
+// One-time login codes sent by SMS. Codes are stored only as an HMAC of
+// phone + code, expire after OTP_TTL_MS and are single use. Sending is
+// throttled per phone and per IP; repeated wrong codes lock the phone out
+// for LOCKOUT_MS.
+import crypto from "crypto";
+import { Db } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+import { sendSms } from "./sms";
+import { JWT_SECRET } from "./authSessions";
+
+export const PHONE_OTPS_COLLECTION = "phone_otps";
+const GUARDS_COLLECTION = "phone_otp_guards";
+
+const OTP_LENGTH = 6;
+export const OTP_TTL_MS = 5 * 60 * 1000;
+export const RESEND_COOLDOWN_MS = 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_SENDS_PER_PHONE_PER_HOUR = 5;
+const MAX_SENDS_PER_IP_PER_HOUR = 20;
+const MAX_ATTEMPTS_PER_CODE = 5;
+const LOCKOUT_FAILURES = 5; // wrong codes within LOCKOUT_WINDOW_MS
+const LOCKOUT_WINDOW_MS = 30 * 60 * 1000;
+const LOCKOUT_MS = 30 * 60 * 1000;
+
+const OTP_SECRET = process.env.OTP_SECRET || JWT_SECRET;
+
+export class OtpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: string,
+    public retryAfter?: number, // seconds
+    public attemptsLeft?: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Normalise to E.164, defaulting to India: "98765 43210", "098765…",
+ * "919876…" and "+91 98765…" all become "+919876543210". Returns null for
+ * anything that isn't a plausible mobile number.
+ */
+export function normalizePhone(raw: string): string | null {
+  const input = String(raw || "").trim();
+  const digits = input.replace(/\D/g, "");
+  let e164: string;
+  if (input.startsWith("+")) e164 = `+${digits}`;
+  else if (digits.length === 10) e164 = `+91${digits}`;
+  else if (digits.length === 11 && digits.startsWith("0")) e164 = `+91${digits.slice(1)}`;
+  else if (digits.length === 12 && digits.startsWith("91")) e164 = `+${digits}`;
+  else return null;
+
+  if (e164.startsWith("+91")) return /^\+91[6-9]\d{9}$/.test(e164) ? e164 : null;
+  return /^\+\d{8,15}$/.test(e164) ? e164 : null;
+}
+
+/** Spellings the same number has been stored under by older sign-up flows. */
+export function phoneVariants(e164: string): string[] {
+  if (!e164.startsWith("+91")) return [e164];
+  const local = e164.slice(3);
+  return [e164, `+91 ${local}`, `91${local}`, local, `0${local}`];
+}
+
+const hashCode = (phone: string, code: string) =>
+  crypto.createHmac("sha256", OTP_SECRET).update(`${phone}:${code}`).digest("hex");
+
+const sameHash = (a: string, b: string) =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const secondsUntil = (t: Date | number) =>
+  Math.max(1, Math.ceil((new Date(t).getTime() - Date.now()) / 1000));
+
+async function assertNotLocked(db: Db, phone: string) {
+  const guard = await db.collection(GUARDS_COLLECTION).findOne({ phone });
+  if (guard?.lockedUntil && guard.lockedUntil > new Date()) {
+    throw new OtpError(
+      "Too many incorrect codes. Try again later.",
+      429,
+      "OTP_LOCKED",
+      secondsUntil(guard.lockedUntil),
+    );
+  }
+}
+
+async function registerFailure(db: Db, phone: string) {
+  const now = new Date();
+  const guards = db.collection(GUARDS_COLLECTION);
+  const guard = await guards.findOne({ phone });
+
+  // start a new window once the previous one has passed
+  const fresh =
+    !guard?.windowStart || now.getTime() - guard.windowStart.getTime() > LOCKOUT_WINDOW_MS;
+  const failures = fresh ? 1 : (guard.failures || 0) + 1;
+  const lockedUntil = failures >= LOCKOUT_FAILURES ? new Date(now.getTime() + LOCKOUT_MS) : null;
+
+  await guards.updateOne(
+    { phone },
+    {
+      $set: {
+        failures: lockedUntil ? 0 : failures,
+        windowStart: fresh || lockedUntil ? now : guard.windowStart,
+        lockedUntil,
+        updatedAt: now,
+      },
+    },
+    { upsert: true },
+  );
+  return { lockedUntil };
+}
+
+/** Generate, store and text a new code. */
+export async function requestPhoneOtp(rawPhone: string, ip: string | null) {
+  const phone = normalizePhone(rawPhone);
+  if (!phone) throw new OtpError("Enter a valid mobile number", 400, "INVALID_PHONE");
+
+  const db = getDatabase();
+  const otps = db.collection(PHONE_OTPS_COLLECTION);
+  await assertNotLocked(db, phone);
+
+  const now = Date.now();
+  const last = await otps.findOne({ phone }, { sort: { createdAt: -1 } });
+  if (last && now - last.createdAt.getTime() < RESEND_COOLDOWN_MS) {
+    throw new OtpError(
+      "Please wait before requesting another code",
+      429,
+      "OTP_COOLDOWN",
+      secondsUntil(last.createdAt.getTime() + RESEND_COOLDOWN_MS),
+    );
+  }
+
+  const since = new Date(now - HOUR_MS);
+  const [byPhone, byIp] = await Promise.all([
+    otps.countDocuments({ phone, createdAt: { $gte: since } }),
+    ip ? otps.countDocuments({ ip, createdAt: { $gte: since } }) : Promise.resolve(0),
+  ]);
+  if (byPhone >= MAX_SENDS_PER_PHONE_PER_HOUR || byIp >= MAX_SENDS_PER_IP_PER_HOUR) {
+    throw new OtpError("Too many codes requested. Try again later.", 429, "OTP_RATE_LIMITED", 3600);
+  }
+
+  const code = String(crypto.randomInt(0, 10 ** OTP_LENGTH)).padStart(OTP_LENGTH, "0");
+  const { insertedId } = await otps.insertOne({
+    phone,
+    codeHash: hashCode(phone, code),
+    ip,
+    attempts: 0,
+    createdAt: new Date(now),
+    expiresAt: new Date(now + OTP_TTL_MS),
+    consumedAt: null,
+  });
+
+  try {
+    await sendSms({
+      to: phone,
+      body: `${code} is your Ashish Property login code. It expires in ${OTP_TTL_MS / 60000} minutes. Do not share it with anyone.`,
+    });
+  } catch (e: any) {
+    console.error("OTP SMS failed:", e?.message || e);
+    // don't let a failed send eat into the user's hourly quota
+    await otps.deleteOne({ _id: insertedId });
+    throw new OtpError("Could not send the code. Please try again.", 502, "SMS_FAILED");
+  }
+
+  return {
+    phone,
+    expiresIn: OTP_TTL_MS / 1000,
+    resendAfter: RESEND_COOLDOWN_MS / 1000,
+  };
+}
+
+/** Check a code against the latest one sent; returns the normalised phone. */
+export async function verifyPhoneOtp(rawPhone: string, rawCode: string) {
+  const phone = normalizePhone(rawPhone);
+  const code = String(rawCode || "").replace(/\D/g, "");
+  if (!phone) throw new OtpError("Enter a valid mobile number", 400, "INVALID_PHONE");
+  if (code.length !== OTP_LENGTH) throw new OtpError("Enter the 6-digit code", 400, "INVALID_OTP");
+
+  const db = getDatabase();
+  const otps = db.collection(PHONE_OTPS_COLLECTION);
+  await assertNotLocked(db, phone);
+
+  const otp = await otps.findOne({ phone, consumedAt: null }, { sort: { createdAt: -1 } });
+  if (!otp || otp.expiresAt <= new Date() || otp.attempts >= MAX_ATTEMPTS_PER_CODE) {
+    throw new OtpError("Code expired. Request a new one.", 400, "OTP_EXPIRED");
+  }
+
+  if (!sameHash(otp.codeHash, hashCode(phone, code))) {
+    await otps.updateOne({ _id: otp._id }, { $inc: { attempts: 1 } });
+    const { lockedUntil } = await registerFailure(db, phone);
+    if (lockedUntil) {
+      throw new OtpError(
+        "Too many incorrect codes. Try again later.",
+        429,
+        "OTP_LOCKED",
+        secondsUntil(lockedUntil),
+      );
+    }
+    const attemptsLeft = Math.max(0, MAX_ATTEMPTS_PER_CODE - otp.attempts - 1);
+    throw new OtpError("Incorrect code", 400, "INVALID_OTP", undefined, attemptsLeft);
+  }
+
+  // single use, even if two requests race with the same code
+  const consumed = await otps.updateOne(
+    { _id: otp._id, consumedAt: null },
+    { $set: { consumedAt: new Date() } },
+  );
+  if (!consumed.modifiedCount) {
+    throw new OtpError("Code expired. Request a new one.", 400, "OTP_EXPIRED");
+  }
+
+  await db.collection(GUARDS_COLLECTION).deleteOne({ phone });
+  return phone;
+}
+
+export async function ensurePhoneOtpIndexes(db: Db) {
+  const otps = db.collection(PHONE_OTPS_COLLECTION);
+  await otps.createIndex({ phone: 1, createdAt: -1 });
+  await otps.createIndex({ ip: 1, createdAt: -1 });
+  // keep a day of history for the hourly throttles, then drop it
+  await otps.createIndex({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+  await db.collection(GUARDS_COLLECTION).createIndex({ phone: 1 }, { unique: true });
+}
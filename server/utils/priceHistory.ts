@@ -0,0 +1,97 @@
+// server/utils/priceHistory.ts
+// Every price edit is appended to `property_price_history`; drops also
+// stamp the listing (priceDropPct/previousPrice) for the "price reduced"
+// badge and notify everyone who has the property in their favorites.
+import { Db, ObjectId } from "mongodb";
+import { sendPushToUser } from "./push";
+
+export interface PriceChangeInput {
+  property: any; // the document *before* the update
+  newPrice: number;
+  changedBy?: string;
+  source: "admin" | "seller";
+}
+
+/**
+ * Returns the extra fields to $set on the property alongside the new price,
+ * or null when the price did not change. Call before the update so the
+ * history row always holds the true previous value.
+ */
+export async function recordPriceChange(
+  db: Db,
+  { property, newPrice, changedBy, source }: PriceChangeInput,
+): Promise<Record<string, any> | null> {
+  const oldPrice = Number(property?.price) || 0;
+  if (!property?._id || !Number.isFinite(newPrice) || newPrice <= 0) return null;
+  if (newPrice === oldPrice) return null;
+
+  const now = new Date();
+  const changePct =
+    oldPrice > 0 ? Math.round(((newPrice - oldPrice) / oldPrice) * 1000) / 10 : null;
+
+  await db.collection("property_price_history").insertOne({
+    propertyId: property._id,
+    oldPrice,
+    newPrice,
+    changePct,
+    priceType: property.priceType,
+    source,
+    changedBy: changedBy ? String(changedBy) : null,
+    changedAt: now,
+  });
+
+  const dropped = oldPrice > 0 && newPrice < oldPrice;
+  return {
+    previousPrice: oldPrice,
+    priceChangedAt: now,
+    // positive percentage for the badge; cleared when the price goes back up
+    priceDropPct: dropped ? Math.abs(changePct as number) : null,
+  };
+}
+
+/** In-app + push alert to every user who favorited the listing. Never throws. */
+export async function notifyPriceDrop(
+  db: Db,
+  property: any,
+  oldPrice: number,
+  newPrice: number,
+) {
+  let notified = 0;
+  try {
+    if (!(newPrice < oldPrice) || property?.status !== "active") return { notified };
+
+    const pct = Math.round(((oldPrice - newPrice) / oldPrice) * 100);
+    const favorites = await db
+      .collection("favorites")
+      .find({ propertyId: new ObjectId(String(property._id)) })
+      .project({ userId: 1 })
+      .toArray();
+
+    const title = `Price dropped ${pct}%`;
+    const message = `"${property.title}" is now ₹${newPrice.toLocaleString("en-IN")} (was ₹${oldPrice.toLocaleString("en-IN")})`;
+    const ownerId = String(property.ownerId || "");
+
+    for (const fav of favorites) {
+      if (String(fav.userId) === ownerId) continue;
+      await db.collection("user_notifications").insertOne({
+        userId: fav.userId,
+        title,
+        message,
+        type: "price_drop",
+        propertyId: property._id,
+        isRead: false,
+        createdAt: new Date(),
+      });
+      await sendPushToUser(db, fav.userId, {
+        title,
+        body: message,
+        link: `/property/${String(property._id)}`,
+        data: { type: "price_drop", propertyId: String(property._id) },
+      });
+      notified++;
+    }
+  } catch (e: any) {
+    console.warn("Price drop notification failed:", e?.message || e);
+  }
+  return { notified };
+}
@@ -0,0 +1,160 @@
+// server/utils/propertyCompare.ts
+// Builds the side-by-side comparison for up to MAX_COMPARE live listings:
+// specs normalized to comparable units, price per sq ft, the amenities each
+// listing has that the others don't, distances to landmarks and how each
+// price sits against its area's median from the market-insight snapshots.
+import { Db, ObjectId } from "mongodb";
+import {
+  COMPARE_LANDMARKS,
+  ComparedAreaInsight,
+  ComparedProperty,
+  ComparedSpecs,
+  PropertyComparison,
+  areaInSqft,
+} from "@shared/compare";
+import { haversineKm, isValidLatLng } from "./geo";
+import {
+  ALL,
+  AreaInsight,
+  SNAPSHOTS_COLLECTION,
+  areaDisplayName,
+  areaKeyOf,
+  computeAreaInsights,
+  getLatestSnapshotDate,
+} from "./marketInsights";
+import { publicVisibilityFilter } from "./listingVisibility";
+
+const num = (v: unknown) => {
+  const n = Number(String(v ?? "").replace(/[^\d.]/g, ""));
+  return String(v ?? "").trim() && Number.isFinite(n) ? n : null;
+};
+const text = (v: unknown) => {
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  const s = String(v ?? "").trim();
+  return s || null;
+};
+const slug = (v: unknown) => String(v || "other").toLowerCase();
+const amenityKey = (a: string) => a.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function normalizeSpecs(p: any): ComparedSpecs {
+  const s = p.specifications || {};
+  return {
+    bedrooms: num(s.bedrooms),
+    bathrooms: num(s.bathrooms),
+    areaSqft: areaInSqft(s.area ?? s.builtUpArea ?? s.carpetArea, s.areaUnit),
+    floor: text(s.floor),
+    totalFloors: num(s.totalFloors),
+    facing: text(s.facing),
+    furnished: text(s.furnished),
+    parking: text(s.parking),
+    ageYears: num(s.age ?? s.propertyAge),
+  };
+}
+
+function landmarkDistances(p: any): Record<string, number | null> {
+  const c = p.location?.coordinates;
+  const at = c && isValidLatLng(Number(c.lat), Number(c.lng)) ? { lat: Number(c.lat), lng: Number(c.lng) } : null;
+  return Object.fromEntries(
+    COMPARE_LANDMARKS.map((l) => [l.key, at ? Math.round(haversineKm(at, l) * 10) / 10 : null]),
+  );
+}
+
+/** Latest insight rows for the given areas, most specific first when looked up. */
+async function loadAreaInsights(db: Db, areaKeys: string[]) {
+  const snapshotDate = await getLatestSnapshotDate(db);
+  const rows: AreaInsight[] = snapshotDate
+    ? ((await db
+        .collection(SNAPSHOTS_COLLECTION)
+        .find({ snapshotDate, areaKey: { $in: areaKeys } })
+        .project({ _id: 0 })
+        .toArray()) as unknown as AreaInsight[])
+    : (await computeAreaInsights(db)).filter((r) => areaKeys.includes(r.areaKey));
+  return new Map(rows.map((r) => [`${r.areaKey}|${r.propertyType}|${r.subCategory}`, r]));
+}
+
+function areaInsightFor(
+  p: any,
+  pricePerSqft: number | null,
+  insights: Map<string, AreaInsight>,
+): ComparedAreaInsight | null {
+  const areaKey = areaKeyOf(p.location);
+  if (!areaKey) return null;
+  const type = slug(p.propertyType);
+  const row =
+    insights.get(`${areaKey}|${type}|${slug(p.subCategory)}`) ||
+    insights.get(`${areaKey}|${type}|${ALL}`) ||
+    insights.get(`${areaKey}|${ALL}|${ALL}`);
+  if (!row) return null;
+
+  const rent = p.priceType === "rent";
+  const medianPricePerSqft = rent ? row.medianRentPerSqft : row.medianSalePricePerSqft;
+  return {
+    area: areaDisplayName(areaKey),
+    listingCount: row.listingCount,
+    medianPricePerSqft,
+    medianPrice: rent ? row.medianRent : row.medianSalePrice,
+    vsMedianPct:
+      pricePerSqft && medianPricePerSqft
+        ? Math.round(((pricePerSqft - medianPricePerSqft) / medianPricePerSqft) * 1000) / 10
+        : null,
+    rentYieldPct: row.rentYieldPct,
+  };
+}
+
+/** Compare live listings by ID, keeping the order the IDs were given in. */
+export async function compareProperties(db: Db, ids: string[]): Promise<PropertyComparison> {
+  const docs = await db
+    .collection("properties")
+    .find({ ...publicVisibilityFilter(), _id: { $in: ids.map((id) => new ObjectId(id)) } })
+    .toArray();
+  const byId = new Map(docs.map((d) => [String(d._id), d]));
+  const found = ids.map((id) => byId.get(id)).filter(Boolean) as any[];
+
+  const insights = await loadAreaInsights(
+    db,
+    [...new Set(found.map((p) => areaKeyOf(p.location)).filter(Boolean))],
+  );
+
+  // amenities compared case- and punctuation-insensitively, shown as first spelled
+  const amenityLists = found.map((p) =>
+    (Array.isArray(p.amenities) ? p.amenities : [])
+      .map((a: unknown) => String(a || "").trim())
+      .filter(Boolean),
+  );
+  const keySets = amenityLists.map((list) => new Set(list.map(amenityKey)));
+  const commonKeys = new Set(
+    [...(keySets[0] || [])].filter((k) => keySets.every((set) => set.has(k))),
+  );
+  const commonAmenities = (amenityLists[0] || []).filter((a) => commonKeys.has(amenityKey(a)));
+
+  const properties: ComparedProperty[] = found.map((p, i) => {
+    const specs = normalizeSpecs(p);
+    const price = Number(p.price) || 0;
+    const pricePerSqft = price && specs.areaSqft ? Math.round((price / specs.areaSqft) * 100) / 100 : null;
+    const others = keySets.filter((_, j) => j !== i);
+    return {
+      _id: String(p._id),
+      title: String(p.title || ""),
+      image: Array.isArray(p.images) && p.images.length ? String(p.images[0]) : null,
+      price,
+      priceType: p.priceType === "rent" ? "rent" : "sale",
+      propertyType: String(p.propertyType || ""),
+      subCategory: String(p.subCategory || ""),
+      locality: areaKeyOf(p.location) ? areaDisplayName(areaKeyOf(p.location)) : "",
+      address: String(p.location?.address || ""),
+      specs,
+      pricePerSqft,
+      amenities: amenityLists[i],
+      uniqueAmenities: amenityLists[i].filter((a) => others.every((set) => !set.has(amenityKey(a)))),
+      landmarkDistancesKm: landmarkDistances(p),
+      areaInsight: areaInsightFor(p, pricePerSqft, insights),
+    };
+  });
+
+  return {
+    properties,
+    commonAmenities,
+    landmarks: COMPARE_LANDMARKS,
+    missing: ids.filter((id) => !byId.has(id)),
+  };
+}
@@ -0,0 +1,179 @@
+// server/utils/propertySearch.ts
+// Keyword search helpers: text index bootstrap, typo-tolerant matching of
+// Rohtak locality names and highlighted snippets for search results.
+import { Db } from "mongodb";
+import { ROHTAK_AREAS } from "@shared/types";
+
+export const PROPERTY_TEXT_INDEX = "property_text_search";
+
+/**
+ * Create the text index used by /api/properties/search (idempotent).
+ * Mongo allows one text index per collection, so an existing one with a
+ * different definition is left alone and reported.
+ */
+export async function ensurePropertySearchIndexes(db: Db) {
+  try {
+    await db.collection("properties").createIndex(
+      {
+        title: "text",
+        description: "text",
+        amenities: "text",
+        "location.address": "text",
+        "location.area": "text",
+        "location.sector": "text",
+        "location.mohalla": "text",
+        "location.landmark": "text",
+      },
+      {
+        name: PROPERTY_TEXT_INDEX,
+        weights: {
+          title: 10,
+          "location.area": 6,
+          "location.sector": 6,
+          "location.mohalla": 5,
+          "location.landmark": 4,
+          "location.address": 4,
+          amenities: 3,
+          description: 1,
+        },
+        default_language: "english",
+      },
+    );
+    return { created: true };
+  } catch (e: any) {
+    console.warn("⚠️ Property text index not created:", e?.message || e);
+    return { created: false, error: e?.message || String(e) };
+  }
+}
+
+/* =========================================================================
+   Typo-tolerant locality matching
+   ========================================================================= */
+export const normalizeSearchText = (v: string) =>
+  String(v || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    // "sec 14", "sector14", "sec-14" → "sector 14"
+    .replace(/\bsec(?:tor)?\s*(\d+)\b/g, "sector $1")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Damerau-Levenshtein (optimal string alignment) distance
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) d[i] = [i];
+  for (let j = 0; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+const AREA_INDEX = ROHTAK_AREAS.map((name) => ({
+  name: name as string,
+  norm: normalizeSearchText(name),
+}));
+
+export interface AreaMatch {
+  area: string;
+  matched: string; // the query fragment that matched
+  distance: number;
+}
+
+/**
+ * Find Rohtak localities mentioned in a free-text query, tolerating typos
+ * ("modle town", "sektor 14", "subash nagar"). Numbers must match exactly so
+ * "sector 14" never matches "sector 4".
+ */
+export function matchRohtakAreas(query: string, maxMatches = 3): AreaMatch[] {
+  const tokens = normalizeSearchText(query).split(" ").filter(Boolean);
+  const best = new Map<string, AreaMatch>();
+
+  for (let size = 1; size <= 3; size++) {
+    for (let i = 0; i + size <= tokens.length; i++) {
+      const fragment = tokens.slice(i, i + size).join(" ");
+      if (fragment.length < 4) continue;
+
+      for (const area of AREA_INDEX) {
+        // compare against the area without a leading "near "
+        const target = area.norm.replace(/^near /, "");
+        if (Math.abs(target.length - fragment.length) > 3) continue;
+
+        const digitsA = fragment.replace(/\D/g, "");
+        const digitsB = target.replace(/\D/g, "");
+        if (digitsA !== digitsB) continue;
+
+        const distance = editDistance(fragment, target);
+        const allowed = Math.max(1, Math.floor(target.length * 0.2));
+        if (distance > allowed) continue;
+
+        const prev = best.get(area.name);
+        if (!prev || distance < prev.distance) {
+          best.set(area.name, { area: area.name, matched: fragment, distance });
+        }
+      }
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, maxMatches);
+}
+
+/* =========================================================================
+   Snippets
+   ========================================================================= */
+const escapeHtml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Build a short, HTML-escaped snippet around the first matching term with
+ * every term wrapped in <mark>. Returns null if nothing matches.
+ */
+export function buildSnippet(
+  text: string | undefined,
+  terms: string[],
+  radius = 60,
+): string | null {
+  if (!text) return null;
+  const cleanTerms = terms.filter((t) => t && t.length >= 2);
+  if (cleanTerms.length === 0) return null;
+
+  const re = new RegExp(`(${cleanTerms.map(escapeRegex).join("|")})`, "ig");
+  const first = text.search(re);
+  if (first === -1) return null;
+
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius * 2);
+  const slice = text.slice(start, end);
+
+  const highlighted = slice
+    .split(re)
+    .map((part, idx) =>
+      idx % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part),
+    )
+    .join("");
+
+  return `${start > 0 ? "…" : ""}${highlighted}${end < text.length ? "…" : ""}`;
+}
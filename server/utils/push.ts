@@ -0,0 +1,56 @@
+// server/utils/push.ts
+// Per-user FCM push. Device tokens are stored on `users.fcmTokens` by
+// POST /api/notifications/register-device. Push is always best-effort: if
+// Firebase admin is not configured we log and carry on.
+import { Db, ObjectId } from "mongodb";
+import { getAdmin } from "../firebaseAdmin";
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  link?: string;
+  data?: Record<string, string>;
+}
+
+const INVALID_TOKEN_CODES = [
+  "messaging/invalid-registration-token",
+  "messaging/registration-token-not-registered",
+];
+
+export async function sendPushToUser(
+  db: Db,
+  userId: string | ObjectId,
+  payload: PushPayload,
+): Promise<{ sent: number; failed: number }> {
+  try {
+    const _id = userId instanceof ObjectId ? userId : new ObjectId(String(userId));
+    const user = await db
+      .collection("users")
+      .findOne({ _id }, { projection: { fcmTokens: 1 } });
+    const tokens: string[] = Array.isArray(user?.fcmTokens) ? user.fcmTokens : [];
+    if (tokens.length === 0) return { sent: 0, failed: 0 };
+
+    const admin = getAdmin();
+    const result = await admin.messaging().sendEachForMulticast({
+      tokens,
+      notification: { title: payload.title, body: payload.body },
+      data: { ...(payload.data || {}), ...(payload.link ? { link: payload.link } : {}) },
+      webpush: payload.link ? { fcmOptions: { link: payload.link } } : undefined,
+    });
+
+    // prune tokens FCM says are dead
+    const stale = result.responses
+      .map((r, i) => (!r.success && INVALID_TOKEN_CODES.includes(r.error?.code || "") ? tokens[i] : null))
+      .filter(Boolean) as string[];
+    if (stale.length > 0) {
+      await db
+        .collection("users")
+        .updateOne({ _id }, { $pull: { fcmTokens: { $in: stale } } } as any);
+    }
+
+    return { sent: result.successCount, failed: result.failureCount };
+  } catch (e: any) {
+    console.warn("Push skipped:", e?.message || e);
+    return { sent: 0, failed: 0 };
+  }
+}
@@ -0,0 +1,270 @@
+// server/utils/savedSearchAlerts.ts
+// Matches newly approved listings against users' saved searches. "instant"
+// searches are notified straight away (in-app + email + push); "daily"
+// searches queue matches in `saved_search_matches` for the digest job.
+import { Db, ObjectId } from "mongodb";
+import { SearchFilters } from "@shared/types";
+import { sendEmail } from "./mailer";
+import { sendPushToUser } from "./push";
+import { normalizeSearchText } from "./propertySearch";
+
+const BASE_URL = () => process.env.BASE_URL || "http://localhost:8080";
+
+export const unsubscribeLink = (token: string) =>
+  `${BASE_URL()}/api/saved-searches/unsubscribe/${token}`;
+
+const propertyLink = (property: any) =>
+  `${BASE_URL()}/property/${String(property._id)}`;
+
+const formatPrice = (n: number) =>
+  `₹${Number(n || 0).toLocaleString("en-IN")}`;
+
+/** Pure matcher, kept free of I/O so the same rules apply to instant and digest alerts. */
+export function propertyMatchesFilters(property: any, filters: SearchFilters): boolean {
+  if (!property || !filters) return false;
+  const specs = property.specifications || {};
+  const loc = property.location || {};
+
+  if (filters.priceType && property.priceType !== filters.priceType) return false;
+
+  if (filters.propertyType && property.propertyType !== filters.propertyType) return false;
+  if (
+    filters.propertyTypes?.length &&
+    !filters.propertyTypes.includes(property.propertyType)
+  ) {
+    return false;
+  }
+  if (filters.subCategory && property.subCategory !== filters.subCategory) return false;
+
+  if (filters.priceRange) {
+    const price = Number(property.price) || 0;
+    if (filters.priceRange.min && price < filters.priceRange.min) return false;
+    if (filters.priceRange.max && price > filters.priceRange.max) return false;
+  }
+
+  // 5 bedrooms / 4 bathrooms are the "or more" buckets of the filter panel
+  if (filters.bedrooms) {
+    const beds = Number(specs.bedrooms) || 0;
+    if (filters.bedrooms >= 5 ? beds < 5 : beds !== filters.bedrooms) return false;
+  }
+  if (filters.bathrooms) {
+    const baths = Number(specs.bathrooms) || 0;
+    if (filters.bathrooms >= 4 ? baths < 4 : baths !== filters.bathrooms) return false;
+  }
+
+  if (filters.areaRange) {
+    const area = Number(specs.area) || 0;
+    if (filters.areaRange.min && area < filters.areaRange.min) return false;
+    if (filters.areaRange.max && area > filters.areaRange.max) return false;
+  }
+
+  const locFields: Array<keyof NonNullable<SearchFilters["location"]>> = [
+    "sector",
+    "mohalla",
+    "landmark",
+  ];
+  for (const field of locFields) {
+    const wanted = filters.location?.[field];
+    if (!wanted) continue;
+    const needle = normalizeSearchText(wanted);
+    const haystack = [loc[field], loc.area, loc.address]
+      .map((v) => normalizeSearchText(v || ""))
+      .join(" | ");
+    if (!haystack.includes(needle)) return false;
+  }
+
+  if (filters.keyword) {
+    const needle = normalizeSearchText(filters.keyword);
+    const haystack = normalizeSearchText(
+      [property.title, loc.address, loc.area, loc.sector, loc.mohalla, loc.landmark]
+        .filter(Boolean)
+        .join(" "),
+    );
+    if (needle && !haystack.includes(needle)) return false;
+  }
+
+  if (filters.amenities?.length) {
+    const have = (property.amenities || []).map((a: string) => String(a).toLowerCase());
+    if (!filters.amenities.every((a) => have.includes(String(a).toLowerCase()))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+const listingHtml = (p: any) => `
+  <li style="margin-bottom:12px">
+    <a href="${propertyLink(p)}" style="color:#C70000;font-weight:bold">${p.title}</a><br/>
+    ${formatPrice(p.price)}${p.priceType === "rent" ? "/month" : ""} · ${p.location?.address || ""}
+  </li>`;
+
+const alertEmailHtml = (search: any, properties: any[]) => `
+  <div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto">
+    <h2 style="color:#C70000">New listings for "${search.name}"</h2>
+    <ul style="padding-left:18px">${properties.map(listingHtml).join("")}</ul>
+    <p style="font-size:12px;color:#666">
+      You're receiving this because you saved this search on Ashish Properties.
+      <a href="${unsubscribeLink(search.unsubscribeToken)}">Unsubscribe from this alert</a>
+    </p>
+  </div>`;
+
+async function loadUser(db: Db, userId: ObjectId) {
+  return db
+    .collection("users")
+    .findOne({ _id: userId }, { projection: { email: 1, name: 1 } });
+}
+
+async function notifyInstant(db: Db, search: any, property: any) {
+  const now = new Date();
+  const title = `New match: ${property.title}`;
+  const message = `A new listing matches your saved search "${search.name}" — ${formatPrice(property.price)}`;
+
+  await db.collection("user_notifications").insertOne({
+    userId: search.userId,
+    title,
+    message,
+    type: "saved_search",
+    propertyId: property._id,
+    savedSearchId: search._id,
+    isRead: false,
+    createdAt: now,
+  });
+
+  const user = await loadUser(db, search.userId);
+  if (user?.email) {
+    sendEmail(
+      user.email,
+      `New listing for "${search.name}"`,
+      alertEmailHtml(search, [property]),
+      `${message}\n${propertyLink(property)}\n\nUnsubscribe: ${unsubscribeLink(search.unsubscribeToken)}`,
+    ).catch((e) => console.warn("Saved search email failed:", e?.message || e));
+  }
+
+  await sendPushToUser(db, search.userId, {
+    title,
+    body: message,
+    link: propertyLink(property),
+    data: { type: "saved_search", propertyId: String(property._id) },
+  });
+}
+
+/**
+ * Called when a listing becomes publicly visible. Never throws — alerts are a
+ * side effect of approval and must not fail it.
+ */
+export async function notifySavedSearchMatches(db: Db, property: any) {
+  let matched = 0;
+  try {
+    if (!property?._id) return { matched };
+    const searches = await db
+      .collection("saved_searches")
+      .find({ isActive: true })
+      .toArray();
+
+    const ownerId = String(property.ownerId || "");
+    for (const search of searches) {
+      if (String(search.userId) === ownerId) continue;
+      if (!propertyMatchesFilters(property, search.filters || {})) continue;
+
+      // one alert per (search, property), even if a listing is re-approved
+      const queued = await db.collection("saved_search_matches").updateOne(
+        { savedSearchId: search._id, propertyId: property._id },
+        {
+          $setOnInsert: {
+            savedSearchId: search._id,
+            userId: search.userId,
+            propertyId: property._id,
+            frequency: search.frequency,
+            digestSentAt: null,
+            createdAt: new Date(),
+          },
+        },
+        { upsert: true },
+      );
+      if (!queued.upsertedCount) continue;
+
+      matched++;
+      if (search.frequency === "instant") {
+        await notifyInstant(db, search, property);
+      }
+      await db.collection("saved_searches").updateOne(
+        { _id: search._id },
+        {
+          $inc: { matchCount: 1 },
+          $set: search.frequency === "instant" ? { lastNotifiedAt: new Date() } : {},
+        },
+      );
+    }
+  } catch (e: any) {
+    console.warn("Saved search matching failed:", e?.message || e);
+  }
+  return { matched };
+}
+
+/** Daily digest: one email + in-app notification per search with pending matches. */
+export async function sendSavedSearchDigests(db: Db) {
+  const pending = await db
+    .collection("saved_search_matches")
+    .aggregate([
+      { $match: { frequency: "daily", digestSentAt: null } },
+      { $group: { _id: "$savedSearchId", propertyIds: { $push: "$propertyId" } } },
+    ])
+    .toArray();
+
+  let digests = 0;
+  for (const group of pending) {
+    const search = await db.collection("saved_searches").findOne({ _id: group._id });
+    const now = new Date();
+
+    if (search?.isActive) {
+      const properties = await db
+        .collection("properties")
+        .find({ _id: { $in: group.propertyIds }, status: "active" })
+        .limit(20)
+        .toArray();
+
+      if (properties.length > 0) {
+        const summary = `${properties.length} new listing${properties.length > 1 ? "s" : ""} match "${search.name}"`;
+        await db.collection("user_notifications").insertOne({
+          userId: search.userId,
+          title: "Your daily property alert",
+          message: summary,
+          type: "saved_search",
+          savedSearchId: search._id,
+          isRead: false,
+          createdAt: now,
+        });
+
+        const user = await loadUser(db, search.userId);
+        if (user?.email) {
+          await sendEmail(
+            user.email,
+            summary,
+            alertEmailHtml(search, properties),
+          ).catch((e) => console.warn("Digest email failed:", e?.message || e));
+        }
+        await sendPushToUser(db, search.userId, {
+          title: "Your daily property alert",
+          body: summary,
+          data: { type: "saved_search" },
+        });
+
+        await db
+          .collection("saved_searches")
+          .updateOne({ _id: search._id }, { $set: { lastNotifiedAt: now } });
+        digests++;
+      }
+    }
+
+    // mark as handled even when the search was paused/deleted in the meantime
+    await db
+      .collection("saved_search_matches")
+      .updateMany(
+        { savedSearchId: group._id, digestSentAt: null },
+        { $set: { digestSentAt: now } },
+      );
+  }
+
+  return { digests };
+}
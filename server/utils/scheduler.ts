@@ -0,0 +1,241 @@
+// server/utils/scheduler.ts
+// In-process job scheduler backed by the `scheduled_jobs` collection.
+// Every PM2 instance runs the same tick loop, but a job only executes on the
+// instance that wins the lock (atomic findOneAndUpdate on lockedUntil).
+import os from "os";
+import { Db } from "mongodb";
+import { getDatabase } from "../db/mongodb";
+
+export interface JobContext {
+  db: Db;
+  now: Date;
+  trigger: "schedule" | "manual";
+}
+
+export type JobHandler = (ctx: JobContext) => Promise<Record<string, any> | void>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  handler: JobHandler;
+}
+
+export interface ScheduledJobDoc {
+  _id?: any;
+  name: string;
+  description: string;
+  intervalMs: number;
+  paused: boolean;
+  nextRunAt: Date;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastRunAt?: Date | null;
+  lastFinishedAt?: Date | null;
+  lastStatus?: "success" | "failed" | null;
+  lastError?: string | null;
+  lastResult?: Record<string, any> | null;
+  lastDurationMs?: number | null;
+  runCount: number;
+  failCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JOBS_COLLECTION = "scheduled_jobs";
+const RUNS_COLLECTION = "job_runs";
+const TICK_MS = Number(process.env.SCHEDULER_TICK_MS || 30 * 1000);
+const LOCK_TTL_MS = Number(process.env.SCHEDULER_LOCK_TTL_MS || 10 * 60 * 1000);
+
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}:${
+  process.env.NODE_APP_INSTANCE ?? "0"
+}`;
+
+const registry = new Map<string, JobDefinition>();
+let tickTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export function registerJob(def: JobDefinition) {
+  registry.set(def.name, def);
+}
+
+export function getRegisteredJobs(): JobDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function isJobRegistered(name: string) {
+  return registry.has(name);
+}
+
+// Make sure every registered job has a document (idempotent upsert).
+async function syncJobDocuments(db: Db) {
+  const now = new Date();
+  for (const def of registry.values()) {
+    await db.collection(JOBS_COLLECTION).updateOne(
+      { name: def.name },
+      {
+        $set: {
+          description: def.description,
+          intervalMs: def.intervalMs,
+          updatedAt: now,
+        },
+        $setOnInsert: {
+          name: def.name,
+          paused: false,
+          nextRunAt: now,
+          lockedBy: null,
+          lockedUntil: null,
+          runCount: 0,
+          failCount: 0,
+          createdAt: now,
+        },
+      },
+      { upsert: true },
+    );
+  }
+  await db.collection(JOBS_COLLECTION).createIndex({ name: 1 }, { unique: true });
+  await db.collection(RUNS_COLLECTION).createIndex({ jobName: 1, startedAt: -1 });
+}
+
+async function acquireLock(
+  db: Db,
+  name: string,
+  now: Date,
+  ignoreSchedule: boolean,
+): Promise<ScheduledJobDoc | null> {
+  const filter: any = {
+    name,
+    $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+  };
+  if (!ignoreSchedule) {
+    filter.paused = { $ne: true };
+    filter.nextRunAt = { $lte: now };
+  }
+
+  const result = await db.collection(JOBS_COLLECTION).findOneAndUpdate(
+    filter,
+    {
+      $set: {
+        lockedBy: INSTANCE_ID,
+        lockedUntil: new Date(now.getTime() + LOCK_TTL_MS),
+      },
+    },
+    { returnDocument: "after" },
+  );
+  return (result as unknown as ScheduledJobDoc) || null;
+}
+
+async function executeJob(
+  db: Db,
+  def: JobDefinition,
+  trigger: JobContext["trigger"],
+) {
+  const startedAt = new Date();
+  let status: "success" | "failed" = "success";
+  let error: string | null = null;
+  let result: Record<string, any> | null = null;
+
+  try {
+    result = (await def.handler({ db, now: startedAt, trigger })) || null;
+  } catch (e: any) {
+    status = "failed";
+    error = e?.message || String(e);
+    console.error(`⏰ Job "${def.name}" failed:`, error);
+  }
+
+  const finishedAt = new Date();
+  const durationMs = finishedAt.getTime() - startedAt.getTime();
+
+  await db.collection(JOBS_COLLECTION).updateOne(
+    { name: def.name, lockedBy: INSTANCE_ID },
+    {
+      $set: {
+        lastRunAt: startedAt,
+        lastFinishedAt: finishedAt,
+        lastStatus: status,
+        lastError: error,
+        lastResult: result,
+        lastDurationMs: durationMs,
+        nextRunAt: new Date(finishedAt.getTime() + def.intervalMs),
+        lockedBy: null,
+        lockedUntil: null,
+        updatedAt: finishedAt,
+      },
+      $inc: { runCount: 1, failCount: status === "failed" ? 1 : 0 },
+    },
+  );
+
+  await db.collection(RUNS_COLLECTION).insertOne({
+    jobName: def.name,
+    trigger,
+    instance: INSTANCE_ID,
+    status,
+    error,
+    result,
+    startedAt,
+    finishedAt,
+    durationMs,
+  });
+
+  return { status, error, result, durationMs };
+}
+
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const db = getDatabase();
+    for (const def of registry.values()) {
+      const locked = await acquireLock(db, def.name, new Date(), false);
+      if (locked) await executeJob(db, def, "schedule");
+    }
+  } catch (e: any) {
+    console.warn("⏰ Scheduler tick skipped:", e?.message || e);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Run a job immediately (admin "re-run"). Still honours the lock so a manual
+ * run never overlaps with a scheduled run on another instance.
+ */
+export async function runJobNow(name: string) {
+  const def = registry.get(name);
+  if (!def) throw new Error(`Unknown job: ${name}`);
+
+  const db = getDatabase();
+  const locked = await acquireLock(db, name, new Date(), true);
+  if (!locked) return null;
+  return executeJob(db, def, "manual");
+}
+
+export async function setJobPaused(name: string, paused: boolean) {
+  const db = getDatabase();
+  const result = await db
+    .collection(JOBS_COLLECTION)
+    .updateOne({ name }, { $set: { paused, updatedAt: new Date() } });
+  return result.matchedCount > 0;
+}
+
+export async function startScheduler() {
+  if (tickTimer) return;
+  if (String(process.env.DISABLE_SCHEDULER || "").toLowerCase() === "true") {
+    console.log("⏰ Scheduler disabled via DISABLE_SCHEDULER");
+    return;
+  }
+
+  await syncJobDocuments(getDatabase());
+  tickTimer = setInterval(tick, TICK_MS);
+  // don't keep the process alive just for the scheduler
+  tickTimer.unref?.();
+  console.log(
+    `⏰ Scheduler started on ${INSTANCE_ID} with ${registry.size} jobs (tick ${TICK_MS}ms)`,
+  );
+  tick();
+}
+
+export function stopScheduler() {
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = null;
+}
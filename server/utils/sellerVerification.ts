@@ -0,0 +1,328 @@
+// server/utils/sellerVerification.ts
+// Seller/agent KYC. Documents are written under private/seller-verifications,
+// outside the public /uploads static path, and are only ever streamed through
+// a link signed with a short expiry, so an admin can open them from a plain
+// <a href> without the file being reachable by anyone else.
+//
+// Approval sets `sellerVerified` on the user and copies it onto every one of
+// their listings, which is what the badge and the search ranking read.
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Db, ObjectId } from "mongodb";
+import {
+  DOCUMENT_TYPE_LABELS,
+  IDENTITY_DOCUMENT_TYPES,
+  MAX_DOCUMENTS,
+  MyVerificationStatus,
+  PROPERTY_DOCUMENT_TYPES,
+  REJECTION_REASONS,
+  SellerVerification,
+  VERIFICATION_STATUSES,
+  VerificationDocumentType,
+} from "@shared/sellerVerification";
+import { JWT_SECRET } from "./authSessions";
+import { sendPushToUser } from "./push";
+
+export const VERIFICATIONS_COLLECTION = "seller_verifications";
+export const KYC_DIR = path.join(process.cwd(), "private", "seller-verifications");
+
+const LINK_TTL_MS = 15 * 60 * 1000;
+
+export class VerificationError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type UploadedFile = { filename: string; originalname: string; mimetype: string; size: number };
+
+const DOCUMENT_TYPES = Object.keys(DOCUMENT_TYPE_LABELS) as VerificationDocumentType[];
+const isIdentity = (t: string) => (IDENTITY_DOCUMENT_TYPES as readonly string[]).includes(t);
+const isPropertyDoc = (t: string) => (PROPERTY_DOCUMENT_TYPES as readonly string[]).includes(t);
+
+/** Where a stored document lives; the name is ours, but never trust a path from the database. */
+export const documentPath = (storedName: string) => path.join(KYC_DIR, path.basename(storedName));
+
+export async function removeDocumentFiles(names: string[]) {
+  await Promise.all(names.map((n) => fs.promises.unlink(documentPath(n)).catch(() => {})));
+}
+
+const signature = (verificationId: string, docId: string, exp: number) =>
+  crypto.createHmac("sha256", JWT_SECRET).update(`${verificationId}:${docId}:${exp}`).digest("hex");
+
+function signedDocumentUrl(verificationId: string, docId: string, now: Date) {
+  const exp = now.getTime() + LINK_TTL_MS;
+  return `/api/seller-verifications/${verificationId}/documents/${docId}?exp=${exp}&sig=${signature(verificationId, docId, exp)}`;
+}
+
+/** True when `sig` was issued for this document and hasn't expired. */
+export function isValidDocumentLink(verificationId: string, docId: string, exp: unknown, sig: unknown) {
+  const expMs = Number(exp);
+  if (!Number.isFinite(expMs) || expMs < Date.now() || typeof sig !== "string") return false;
+  const expected = Buffer.from(signature(verificationId, docId, expMs), "hex");
+  const given = Buffer.from(sig, "hex");
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+const iso = (d: any) => (d ? new Date(d).toISOString() : undefined);
+
+export function serializeVerification(doc: any, now: Date = new Date()): SellerVerification {
+  const id = String(doc._id);
+  return {
+    _id: id,
+    userId: doc.userId,
+    userName: doc.userName || "",
+    userEmail: doc.userEmail || "",
+    userPhone: doc.userPhone || undefined,
+    userType: doc.userType,
+    reraNumber: doc.reraNumber || undefined,
+    documents: (doc.documents || []).map((d: any) => ({
+      _id: String(d._id),
+      type: d.type,
+      label: DOCUMENT_TYPE_LABELS[d.type as VerificationDocumentType] || d.type,
+      fileName: d.fileName,
+      mimeType: d.mimeType,
+      size: d.size,
+      url: signedDocumentUrl(id, String(d._id), now),
+      verified: doc.status === "approved",
+    })),
+    status: doc.status,
+    submittedAt: iso(doc.submittedAt)!,
+    reviewedAt: iso(doc.reviewedAt),
+    reviewedBy: doc.reviewedBy || undefined,
+    rejectionReason: doc.rejectionReason || undefined,
+    comments: doc.comments || undefined,
+  };
+}
+
+/** Multipart sends repeated fields as an array, a single one as a string; JSON arrays also accepted. */
+function documentTypesOf(raw: unknown): string[] {
+  if (Array.isArray(raw)) return raw.map(String);
+  if (typeof raw !== "string") return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {}
+  return raw.split(",").map((s) => s.trim());
+}
+
+/**
+ * File a KYC request from the uploaded `files`, paired by position with
+ * `body.documentTypes`. Needs at least one identity document and one RERA
+ * or ownership document; agents must include their RERA certificate. A
+ * pending request is replaced; an approved account can't resubmit.
+ */
+export async function submitVerification(db: Db, userId: string, files: UploadedFile[], body: any) {
+  const user = await db.collection("users").findOne({ _id: new ObjectId(userId) });
+  if (!user) throw new VerificationError("User not found", 404);
+  if (user.sellerVerified) throw new VerificationError("Your account is already verified", 409);
+
+  const types = documentTypesOf(body?.documentTypes);
+  if (files.length === 0) throw new VerificationError("Upload at least one document");
+  if (files.length > MAX_DOCUMENTS) throw new VerificationError(`Upload at most ${MAX_DOCUMENTS} documents`);
+  if (types.length !== files.length) throw new VerificationError("Give a document type for every file");
+  const unknown = types.find((t) => !DOCUMENT_TYPES.includes(t as VerificationDocumentType));
+  if (unknown) throw new VerificationError(`Unknown document type: ${unknown}`);
+  if (!types.some(isIdentity)) {
+    throw new VerificationError("Include an identity document (Aadhaar, PAN, passport, voter ID or driving licence)");
+  }
+  if (user.userType === "agent" && !types.includes("rera_certificate")) {
+    throw new VerificationError("Agents must include their RERA certificate");
+  }
+  if (!types.some(isPropertyDoc)) {
+    throw new VerificationError("Include a RERA certificate or proof of ownership");
+  }
+
+  const reraNumber = String(body?.reraNumber || "").trim().slice(0, 60);
+  const now = new Date();
+  const doc = {
+    userId,
+    userName: user.name || "",
+    userEmail: user.email || "",
+    userPhone: user.phone || "",
+    userType: user.userType === "agent" ? "agent" : "seller",
+    ...(reraNumber ? { reraNumber } : {}),
+    documents: files.map((f, i) => ({
+      _id: new ObjectId(),
+      type: types[i],
+      storedName: f.filename,
+      fileName: f.originalname.slice(0, 200),
+      mimeType: f.mimetype,
+      size: f.size,
+    })),
+    status: "pending",
+    submittedAt: now,
+    updatedAt: now,
+  };
+
+  const verifications = db.collection(VERIFICATIONS_COLLECTION);
+  const previous = await verifications.findOne({ userId, status: "pending" });
+  let saved: any;
+  if (previous) {
+    saved = await verifications.findOneAndUpdate({ _id: previous._id }, { $set: doc }, { returnDocument: "after" });
+    await removeDocumentFiles((previous.documents || []).map((d: any) => d.storedName));
+  } else {
+    const { insertedId } = await verifications.insertOne(doc);
+    saved = { _id: insertedId, ...doc };
+  }
+  await db
+    .collection("users")
+    .updateOne({ _id: user._id }, { $set: { sellerVerificationStatus: "pending", updatedAt: now } });
+  return saved;
+}
+
+/** The admin queue, newest first; `search` matches name, email or phone. */
+export async function listVerifications(db: Db, query: { status?: unknown; search?: unknown }) {
+  const filter: Record<string, any> = {};
+  if (VERIFICATION_STATUSES.includes(query.status as any)) filter.status = query.status;
+  const search = String(query.search || "").trim();
+  if (search) {
+    const re = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").slice(0, 100), "i");
+    filter.$or = [{ userName: re }, { userEmail: re }, { userPhone: re }];
+  }
+  return db
+    .collection(VERIFICATIONS_COLLECTION)
+    .find(filter)
+    .sort({ status: 1, submittedAt: -1 })
+    .limit(500)
+    .toArray();
+}
+
+/** Every way a listing may point at its owner (see seller.ts). */
+const ownedBy = (userId: string) => ({
+  $or: [
+    { ownerId: userId },
+    { ownerId: new ObjectId(userId) },
+    { sellerId: userId },
+    { sellerId: new ObjectId(userId) },
+    { userId },
+  ],
+});
+
+/** Set or clear the verified flag on the account and all of its listings. */
+export async function setSellerVerified(db: Db, userId: string, verified: boolean, now: Date = new Date()) {
+  await db.collection("users").updateOne(
+    { _id: new ObjectId(userId) },
+    {
+      $set: {
+        sellerVerified: verified,
+        sellerVerificationStatus: verified ? "approved" : "rejected",
+        ...(verified ? { sellerVerifiedAt: now } : {}),
+        updatedAt: now,
+      },
+      ...(verified ? {} : { $unset: { sellerVerifiedAt: "" } }),
+    },
+  );
+  await db.collection("properties").updateMany(ownedBy(userId), { $set: { sellerVerified: verified } });
+}
+
+/**
+ * Approve or reject a request. Rejecting needs one of REJECTION_REASONS;
+ * rejecting an approved request revokes the badge.
+ */
+export async function reviewVerification(
+  db: Db,
+  verificationId: string,
+  adminId: string,
+  body: { status?: unknown; comments?: unknown; rejectionReason?: unknown },
+) {
+  if (!ObjectId.isValid(verificationId)) throw new VerificationError("Invalid verification ID");
+  const status = body?.status;
+  if (status !== "approved" && status !== "rejected") {
+    throw new VerificationError("status must be approved or rejected");
+  }
+  const rejectionReason = String(body?.rejectionReason || "").trim();
+  if (status === "rejected" && !(REJECTION_REASONS as readonly string[]).includes(rejectionReason)) {
+    throw new VerificationError("Pick a rejection reason");
+  }
+  const comments = String(body?.comments || "").trim().slice(0, 1000);
+  if (status === "rejected" && rejectionReason === "Other" && !comments) {
+    throw new VerificationError("Explain the rejection in the comments");
+  }
+
+  const verifications = db.collection(VERIFICATIONS_COLLECTION);
+  const existing = await verifications.findOne({ _id: new ObjectId(verificationId) });
+  if (!existing) throw new VerificationError("Verification not found", 404);
+  if (existing.status === status) throw new VerificationError(`Verification is already ${status}`, 409);
+  if (existing.status === "rejected") throw new VerificationError("The seller has to submit again", 409);
+
+  const now = new Date();
+  const updated = await verifications.findOneAndUpdate(
+    { _id: existing._id },
+    {
+      $set: {
+        status,
+        reviewedAt: now,
+        reviewedBy: adminId,
+        comments,
+        rejectionReason: status === "rejected" ? rejectionReason : "",
+        updatedAt: now,
+      },
+    },
+    { returnDocument: "after" },
+  );
+  await setSellerVerified(db, existing.userId, status === "approved", now);
+  await notifySeller(db, existing.userId, status, rejectionReason, comments);
+  return { before: existing, after: updated };
+}
+
+async function notifySeller(db: Db, userId: string, status: string, reason: string, comments: string) {
+  if (!ObjectId.isValid(userId)) return;
+  const sellerId = new ObjectId(userId);
+  const approved = status === "approved";
+  const title = approved ? "You're a verified seller" : "Verification not approved";
+  const message = approved
+    ? "Your documents were approved. Your listings now show the verified badge."
+    : `Your verification was rejected: ${reason}${comments ? ` — ${comments}` : ""}. You can upload new documents.`;
+  await db.collection("notifications").insertOne({
+    sellerId,
+    title,
+    message,
+    type: approved ? "verification_approved" : "verification_rejected",
+    isRead: false,
+    createdAt: new Date(),
+  });
+  await sendPushToUser(db, sellerId, {
+    title,
+    body: message,
+    link: "/seller-dashboard",
+    data: { type: "seller_verification", status },
+  });
+}
+
+export async function myVerification(db: Db, userId: string): Promise<MyVerificationStatus> {
+  const [user, latest] = await Promise.all([
+    db.collection("users").findOne({ _id: new ObjectId(userId) }, { projection: { sellerVerified: 1, sellerVerifiedAt: 1 } }),
+    db.collection(VERIFICATIONS_COLLECTION).findOne({ userId }, { sort: { submittedAt: -1 } }),
+  ]);
+  return {
+    verified: Boolean(user?.sellerVerified),
+    verifiedAt: iso(user?.sellerVerifiedAt),
+    verification: latest ? serializeVerification(latest) : null,
+  };
+}
+
+/** The stored document behind a signed link, or a 404 VerificationError. */
+export async function findDocument(db: Db, verificationId: string, docId: string) {
+  if (!ObjectId.isValid(verificationId) || !ObjectId.isValid(docId)) {
+    throw new VerificationError("Document not found", 404);
+  }
+  const verification = await db
+    .collection(VERIFICATIONS_COLLECTION)
+    .findOne({ _id: new ObjectId(verificationId) }, { projection: { documents: 1 } });
+  const doc = verification?.documents?.find((d: any) => String(d._id) === docId);
+  if (!doc) throw new VerificationError("Document not found", 404);
+  const file = documentPath(doc.storedName);
+  if (!fs.existsSync(file)) throw new VerificationError("Document file is missing", 404);
+  return { file, fileName: doc.fileName as string, mimeType: doc.mimeType as string };
+}
+
+export async function ensureSellerVerificationIndexes(db: Db) {
+  const verifications = db.collection(VERIFICATIONS_COLLECTION);
+  await verifications.createIndex({ userId: 1, submittedAt: -1 });
+  await verifications.createIndex({ status: 1, submittedAt: -1 });
+  await db.collection("properties").createIndex({ sellerVerified: 1 }, { sparse: true });
+}
@@ -0,0 +1,240 @@
+// server/utils/simplePdf.ts
+// Just enough PDF to hand out reports and invoices without a PDF dependency:
+// A4 pages, the built-in Helvetica faces, text, rules and simple tables with
+// automatic page breaks. Coordinates are top-down points (1/72 in).
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: [number, number, number]; // 0..1 RGB
+  align?: "left" | "right" | "center";
+  width?: number; // box width for right/center alignment
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+// The standard fonts only cover WinAnsi; map the symbols we actually print
+// and drop anything else rather than emit garbage.
+const toWinAnsi = (s: string) =>
+  String(s ?? "")
+    .replace(/₹/g, "Rs.")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+
+const escapeText = (s: string) => s.replace(/([\\()])/g, "\\$1");
+
+/** Rough Helvetica advance width; good enough for alignment and clipping. */
+export const textWidth = (s: string, size: number, bold = false) => {
+  let units = 0;
+  for (const ch of toWinAnsi(s)) {
+    if (/[il.,:;'|!]/.test(ch)) units += 0.28;
+    else if (/[fjtrI ]/.test(ch)) units += 0.33;
+    else if (/[mwMW]/.test(ch)) units += 0.86;
+    else if (/[A-Z]/.test(ch)) units += 0.68;
+    else units += 0.556;
+  }
+  return units * size * (bold ? 1.05 : 1);
+};
+
+const fit = (s: string, width: number, size: number, bold = false) => {
+  let out = toWinAnsi(s);
+  if (textWidth(out, size, bold) <= width) return out;
+  while (out.length > 1 && textWidth(`${out}...`, size, bold) > width) out = out.slice(0, -1);
+  return `${out}...`;
+};
+
+export class SimplePdf {
+  private pages: string[][] = [];
+  readonly margin: number;
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+  /** Top-down cursor used by heading/paragraph/table. */
+  y: number;
+
+  constructor(options: { margin?: number } = {}) {
+    this.margin = options.margin ?? 40;
+    this.y = this.margin;
+    this.addPage();
+  }
+
+  get contentWidth() {
+    return this.width - this.margin * 2;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.y = this.margin;
+    return this;
+  }
+
+  /** Start a new page when fewer than `needed` points are left. */
+  ensureSpace(needed: number) {
+    if (this.y + needed > this.height - this.margin) this.addPage();
+    return this;
+  }
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(str: string, x: number, y: number, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10;
+    const value = toWinAnsi(str);
+    let left = x;
+    if (options.align && options.align !== "left" && options.width) {
+      const w = textWidth(value, size, options.bold);
+      left = options.align === "right" ? x + options.width - w : x + (options.width - w) / 2;
+    }
+    const [r, g, b] = options.color ?? [0, 0, 0];
+    // PDF's origin is bottom-left; `y` here is the text baseline from the top
+    this.ops.push(
+      `BT ${r} ${g} ${b} rg /${options.bold ? "F2" : "F1"} ${size} Tf ${left.toFixed(2)} ${(this.height - y).toFixed(2)} Td (${escapeText(value)}) Tj ET`,
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray = 0.75, lineWidth = 0.5) {
+    this.ops.push(
+      `${gray} G ${lineWidth} w ${x1.toFixed(2)} ${(this.height - y1).toFixed(2)} m ${x2.toFixed(2)} ${(this.height - y2).toFixed(2)} l S`,
+    );
+    return this;
+  }
+
+  rect(x: number, y: number, w: number, h: number, gray = 0.94) {
+    this.ops.push(
+      `${gray} g ${x.toFixed(2)} ${(this.height - y - h).toFixed(2)} ${w.toFixed(2)} ${h.toFixed(2)} re f`,
+    );
+    return this;
+  }
+
+  heading(str: string, size = 16) {
+    this.ensureSpace(size * 1.8);
+    this.y += size;
+    this.text(str, this.margin, this.y, { size, bold: true });
+    this.y += size * 0.6;
+    return this;
+  }
+
+  /** Left-aligned text wrapped to the content width. */
+  paragraph(str: string, options: { size?: number; bold?: boolean; gap?: number } = {}) {
+    const size = options.size ?? 10;
+    const words = toWinAnsi(str).split(/\s+/).filter(Boolean);
+    let current = "";
+    const flush = () => {
+      this.ensureSpace(size * 1.4);
+      this.y += size * 1.4;
+      this.text(current, this.margin, this.y, { size, bold: options.bold });
+      current = "";
+    };
+    for (const word of words) {
+      const next = current ? `${current} ${word}` : word;
+      if (current && textWidth(next, size, options.bold) > this.contentWidth) flush();
+      current = current ? `${current} ${word}` : word;
+    }
+    if (current) flush();
+    this.y += options.gap ?? 4;
+    return this;
+  }
+
+  /** Label/value rows, e.g. invoice parties or report metadata. */
+  keyValues(pairs: [string, string][], labelWidth = 120, size = 10) {
+    for (const [label, value] of pairs) {
+      this.ensureSpace(size * 1.5);
+      this.y += size * 1.5;
+      this.text(label, this.margin, this.y, { size, bold: true });
+      this.text(fit(value, this.contentWidth - labelWidth, size), this.margin + labelWidth, this.y, { size });
+    }
+    this.y += 6;
+    return this;
+  }
+
+  /** Header row + body rows; repeats the header after a page break. */
+  table(columns: PdfTableColumn[], rows: string[][], options: { size?: number; boldLastRow?: boolean } = {}) {
+    const size = options.size ?? 9;
+    const rowHeight = size * 1.9;
+    const x0 = this.margin;
+    const totalWidth = columns.reduce((s, c) => s + c.width, 0);
+
+    const drawRow = (cells: string[], bold: boolean, shaded: boolean) => {
+      if (shaded) this.rect(x0, this.y, totalWidth, rowHeight);
+      let x = x0;
+      const baseline = this.y + rowHeight * 0.68;
+      columns.forEach((col, i) => {
+        const pad = 4;
+        const value = fit(cells[i] ?? "", col.width - pad * 2, size, bold);
+        this.text(value, x + pad, baseline, {
+          size,
+          bold,
+          align: col.align,
+          width: col.width - pad * 2,
+        });
+        x += col.width;
+      });
+      this.y += rowHeight;
+      this.line(x0, this.y, x0 + totalWidth, this.y);
+    };
+
+    const header = columns.map((c) => c.header);
+    this.ensureSpace(rowHeight * 2);
+    drawRow(header, true, true);
+    rows.forEach((row, i) => {
+      if (this.y + rowHeight > this.height - this.margin) {
+        this.addPage();
+        drawRow(header, true, true);
+      }
+      drawRow(row, Boolean(options.boldLastRow && i === rows.length - 1), false);
+    });
+    this.y += 10;
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const add = (body: string) => {
+      objects.push(body);
+      return objects.length; // object number
+    };
+
+    // 1: catalog, 2: page tree; filled in once the page ids are known
+    add("");
+    add("");
+    const regular = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    const bold = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    const pageIds: number[] = [];
+    for (const ops of this.pages) {
+      const stream = ops.join("\n");
+      const content = add(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`);
+      pageIds.push(
+        add(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+            `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${content} 0 R >>`,
+        ),
+      );
+    }
+    objects[0] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+    let out = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(out, "latin1"));
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = Buffer.byteLength(out, "latin1");
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(out, "latin1");
+  }
+}
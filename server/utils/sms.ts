@@ -0,0 +1,100 @@
+// server/utils/sms.ts
+// Outbound SMS behind a small provider interface. SMS_PROVIDER picks the
+// adapter ("twilio" | "console" | "file"); when unset, Twilio is used if its
+// credentials are configured and the console stand-in otherwise (production
+// refuses to fall back, so OTPs are never silently swallowed).
+import fs from "fs";
+import path from "path";
+
+export interface SmsMessage {
+  to: string; // E.164, e.g. +919876543210
+  body: string;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(message: SmsMessage): Promise<{ id?: string }>;
+}
+
+class TwilioSmsProvider implements SmsProvider {
+  name = "twilio";
+  private client: any = null;
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string | undefined,
+    private messagingServiceSid: string | undefined,
+  ) {}
+
+  async send({ to, body }: SmsMessage) {
+    if (!this.client) {
+      const { default: twilio } = await import("twilio");
+      this.client = twilio(this.accountSid, this.authToken);
+    }
+    const msg = await this.client.messages.create({
+      to,
+      body,
+      ...(this.messagingServiceSid
+        ? { messagingServiceSid: this.messagingServiceSid }
+        : { from: this.from }),
+    });
+    return { id: msg.sid };
+  }
+}
+
+/** Dev stand-in: prints the message, optionally appending it to a file. */
+class ConsoleSmsProvider implements SmsProvider {
+  constructor(
+    public name: string,
+    private file?: string,
+  ) {}
+
+  async send({ to, body }: SmsMessage) {
+    console.log(`📱 [sms:${this.name}] to ${to}: ${body}`);
+    if (this.file) {
+      const line = JSON.stringify({ at: new Date().toISOString(), to, body }) + "\n";
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.promises.appendFile(this.file, line);
+    }
+    return {};
+  }
+}
+
+let provider: SmsProvider | null = null;
+
+function createProvider(): SmsProvider {
+  const sid = process.env.TWILIO_ACCOUNT_SID || "";
+  const token = process.env.TWILIO_AUTH_TOKEN || "";
+  const from = process.env.TWILIO_FROM_NUMBER || process.env.TWILIO_PHONE_NUMBER;
+  const service = process.env.TWILIO_MESSAGING_SERVICE_SID;
+  const hasTwilio = Boolean(sid && token && (from || service));
+
+  const choice = String(process.env.SMS_PROVIDER || "").toLowerCase();
+  const isProd = process.env.NODE_ENV === "production";
+
+  if (choice === "twilio" || (!choice && hasTwilio)) {
+    if (!hasTwilio) throw new Error("SMS_PROVIDER=twilio but Twilio credentials are missing");
+    return new TwilioSmsProvider(sid, token, from, service);
+  }
+  if (choice === "file") {
+    return new ConsoleSmsProvider("file", process.env.SMS_OUTBOX_FILE || "logs/sms-outbox.log");
+  }
+  if (choice === "console" || !isProd) return new ConsoleSmsProvider("console");
+
+  throw new Error("No SMS provider configured (set TWILIO_* or SMS_PROVIDER)");
+}
+
+export function getSmsProvider(): SmsProvider {
+  if (!provider) provider = createProvider();
+  return provider;
+}
+
+/** Swap the provider (e.g. a fake in scripts); pass null to re-read env. */
+export function setSmsProvider(next: SmsProvider | null) {
+  provider = next;
+}
+
+export async function sendSms(message: SmsMessage) {
+  return getSmsProvider().send(message);
+}
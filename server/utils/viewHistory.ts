@@ -0,0 +1,306 @@
+// server/utils/viewHistory.ts
+// Recently viewed history. A property page opens a view in the viewer's
+// current browsing session and then sends heartbeats while it stays
+// visible; dwell time is worked out here from the gap between beats, capped,
+// so a tab left open in the background doesn't pile up hours.
+//
+// `view_sessions` keeps the ordered views per session with the search that
+// started it; `user_property_views` keeps one running total per viewer and
+// property for the history list. Anonymous viewers are keyed by a browser
+// `visitorId` until they sign in and their history is merged into the account.
+import crypto from "crypto";
+import { Db, ObjectId } from "mongodb";
+import {
+  ANONYMOUS_VIEW_RETENTION_DAYS,
+  StartViewRequest,
+  VIEW_HEARTBEAT_SECONDS,
+  VIEW_SESSION_IDLE_MINUTES,
+  ViewSearchContext,
+  ViewingSession,
+} from "@shared/viewHistory";
+import { publicVisibilityFilter } from "./listingVisibility";
+
+export const VIEWS_COLLECTION = "user_property_views";
+export const SESSIONS_COLLECTION = "view_sessions";
+
+// one missed beat is tolerated; anything longer counts as the reader having left
+const MAX_BEAT_SECONDS = VIEW_HEARTBEAT_SECONDS * 2;
+const IDLE_MS = VIEW_SESSION_IDLE_MINUTES * 60 * 1000;
+
+export type Viewer = { userId: string } | { visitorId: string };
+
+const str = (v: unknown, max = 200) => String(v ?? "").trim().slice(0, max);
+
+export const isVisitorId = (v: unknown) => typeof v === "string" && /^[a-z0-9]{8,64}$/i.test(v);
+
+/** The signed-in user, else the anonymous visitor; null when neither is usable. */
+export function viewerOf(userId: unknown, visitorId: unknown): Viewer | null {
+  if (userId) return { userId: String(userId) };
+  if (isVisitorId(visitorId)) return { visitorId: String(visitorId) };
+  return null;
+}
+
+function cleanSearch(search: any): ViewSearchContext | null {
+  if (!search || typeof search !== "object") return null;
+  const path = str(search.path, 200);
+  if (!path.startsWith("/")) return null;
+  const filters: Record<string, string> = {};
+  for (const [k, v] of Object.entries(search.filters || {}).slice(0, 20)) {
+    const value = str(v, 100);
+    if (value) filters[str(k, 40)] = value;
+  }
+  return { path, ...(str(search.query) ? { query: str(search.query) } : {}), filters };
+}
+
+const searchKey = (s: ViewSearchContext | null) =>
+  s ? JSON.stringify([s.path, s.query || "", Object.entries(s.filters || {}).sort()]) : "";
+
+export async function isHistoryPaused(db: Db, userId: string) {
+  if (!ObjectId.isValid(userId)) return false;
+  const user = await db
+    .collection("users")
+    .findOne({ _id: new ObjectId(userId) }, { projection: { viewHistoryPaused: 1 } });
+  return Boolean(user?.viewHistoryPaused);
+}
+
+export async function setHistoryPaused(db: Db, userId: string, paused: boolean) {
+  await db
+    .collection("users")
+    .updateOne({ _id: new ObjectId(userId) }, { $set: { viewHistoryPaused: paused, updatedAt: new Date() } });
+}
+
+/**
+ * Open a view. It joins the viewer's current session in this tab unless
+ * that has gone idle or the view came from a different search, in which
+ * case a new session starts. Returns the view's id for heartbeats, or null
+ * when nothing is recorded (unknown listing or history paused).
+ */
+export async function startView(db: Db, viewer: Viewer, body: StartViewRequest, now: Date = new Date()) {
+  if (!ObjectId.isValid(body?.propertyId)) return null;
+  if ("userId" in viewer && (await isHistoryPaused(db, viewer.userId))) return null;
+  const exists = await db
+    .collection("properties")
+    .countDocuments({ _id: new ObjectId(body.propertyId) }, { limit: 1 });
+  if (!exists) return null;
+
+  const propertyId = String(body.propertyId);
+  const clientSessionId = str(body.sessionId, 64) || "default";
+  const search = cleanSearch(body.search);
+  const referrer = str(body.referrer) || (search ? search.path : "");
+  const viewId = crypto.randomBytes(16).toString("hex");
+  const anonymous = "visitorId" in viewer ? { anonymousAt: now } : {};
+  const sessions = db.collection(SESSIONS_COLLECTION);
+
+  const current = await sessions.findOne(
+    { ...viewer, clientSessionId, lastActiveAt: { $gt: new Date(now.getTime() - IDLE_MS) } },
+    { sort: { lastActiveAt: -1 }, projection: { searchKey: 1 } },
+  );
+  const view = { viewId, propertyId, at: now, lastBeatAt: now, timeSpent: 0 };
+
+  if (current && (!search || current.searchKey === searchKey(search) || !current.searchKey)) {
+    await sessions.updateOne(
+      { _id: current._id },
+      {
+        $push: { views: view } as any,
+        $set: {
+          lastActiveAt: now,
+          ...(search && !current.searchKey
+            ? { searchKey: searchKey(search), searchQuery: search.query, filters: search.filters, searchPath: search.path }
+            : {}),
+        },
+      },
+    );
+  } else {
+    await sessions.insertOne({
+      ...viewer,
+      ...anonymous,
+      clientSessionId,
+      startedAt: now,
+      lastActiveAt: now,
+      ...(search
+        ? { searchKey: searchKey(search), searchQuery: search.query, filters: search.filters, searchPath: search.path }
+        : {}),
+      views: [view],
+      totalTimeSpent: 0,
+    });
+  }
+
+  await db.collection(VIEWS_COLLECTION).updateOne(
+    { ...viewer, propertyId },
+    {
+      $inc: { viewCount: 1 },
+      $set: { lastViewed: now, lastViewId: viewId, ...(referrer ? { referrer } : {}), ...anonymous },
+      $setOnInsert: { firstViewed: now, timeSpent: 0 },
+    },
+    { upsert: true },
+  );
+  return viewId;
+}
+
+/**
+ * Credit the time since the view's last beat. `resume` only restarts the
+ * clock, for a page coming back into view after being hidden.
+ */
+export async function recordHeartbeat(db: Db, viewId: string, resume = false, now: Date = new Date()) {
+  if (!/^[a-f0-9]{32}$/.test(viewId || "")) return 0;
+  const sessions = db.collection(SESSIONS_COLLECTION);
+  const session = await sessions.findOne(
+    { "views.viewId": viewId },
+    { projection: { userId: 1, visitorId: 1, "views.$": 1 } },
+  );
+  const view = session?.views?.[0];
+  if (!view) return 0;
+
+  const elapsed = Math.floor((now.getTime() - new Date(view.lastBeatAt).getTime()) / 1000);
+  const seconds = resume ? 0 : Math.max(0, Math.min(MAX_BEAT_SECONDS, elapsed));
+  await sessions.updateOne(
+    { _id: session._id, "views.viewId": viewId },
+    {
+      $inc: { "views.$.timeSpent": seconds, totalTimeSpent: seconds },
+      $set: { "views.$.lastBeatAt": now, lastActiveAt: now },
+    },
+  );
+  if (seconds > 0) {
+    const viewer = session.userId ? { userId: session.userId } : { visitorId: session.visitorId };
+    await db
+      .collection(VIEWS_COLLECTION)
+      .updateOne({ ...viewer, propertyId: view.propertyId }, { $inc: { timeSpent: seconds } });
+  }
+  return seconds;
+}
+
+/** The user's viewed listings, most recent first, with dwell time and where they came from. */
+export async function recentViews(db: Db, userId: string, limit = 100) {
+  const rows = await db
+    .collection(VIEWS_COLLECTION)
+    .find({ userId })
+    .sort({ lastViewed: -1 })
+    .limit(limit)
+    .toArray();
+  const ids = rows.map((r) => r.propertyId).filter((id) => ObjectId.isValid(id));
+  if (ids.length === 0) return [];
+
+  const [properties, favorites] = await Promise.all([
+    db
+      .collection("properties")
+      .find({ ...publicVisibilityFilter(), _id: { $in: ids.map((id) => new ObjectId(id)) } })
+      .toArray(),
+    ObjectId.isValid(userId)
+      ? db
+          .collection("favorites")
+          .find({ userId: new ObjectId(userId), propertyId: { $in: ids.map((id) => new ObjectId(id)) } })
+          .project({ propertyId: 1 })
+          .toArray()
+      : Promise.resolve([]),
+  ]);
+  const byId = new Map(properties.map((p) => [String(p._id), p]));
+  const favorited = new Set(favorites.map((f: any) => String(f.propertyId)));
+
+  return rows
+    .filter((r) => byId.has(r.propertyId))
+    .map((r) => ({
+      ...byId.get(r.propertyId),
+      _id: r.propertyId,
+      viewedAt: new Date(r.lastViewed).toISOString(),
+      viewCount: r.viewCount || 1,
+      timeSpent: r.timeSpent || 0,
+      referrer: r.referrer || undefined,
+      isFavorited: favorited.has(r.propertyId),
+      lastViewSession: r.lastViewId || "",
+    }));
+}
+
+export async function viewingSessions(db: Db, userId: string, limit = 50): Promise<ViewingSession[]> {
+  const rows = await db
+    .collection(SESSIONS_COLLECTION)
+    .find({ userId })
+    .sort({ lastActiveAt: -1 })
+    .limit(limit)
+    .toArray();
+  return rows.map((s) => {
+    const views = (s.views || []).map((v: any) => ({
+      propertyId: v.propertyId,
+      at: new Date(v.at).toISOString(),
+      timeSpent: v.timeSpent || 0,
+    }));
+    return {
+      _id: String(s._id),
+      date: new Date(s.startedAt).toISOString(),
+      lastActiveAt: new Date(s.lastActiveAt).toISOString(),
+      properties: [...new Set<string>(views.map((v: any) => v.propertyId))],
+      views,
+      totalTimeSpent: s.totalTimeSpent || 0,
+      ...(s.searchQuery ? { searchQuery: s.searchQuery } : {}),
+      ...(s.filters && Object.keys(s.filters).length ? { filters: s.filters } : {}),
+      ...(s.searchPath ? { searchPath: s.searchPath } : {}),
+    };
+  });
+}
+
+/** Forget one listing, or with no `propertyId` the whole history and every session. */
+export async function clearViewHistory(db: Db, userId: string, propertyId?: string) {
+  if (propertyId) {
+    const { deletedCount } = await db.collection(VIEWS_COLLECTION).deleteOne({ userId, propertyId });
+    await db
+      .collection(SESSIONS_COLLECTION)
+      .updateMany({ userId, "views.propertyId": propertyId }, { $pull: { views: { propertyId } } as any });
+    await db.collection(SESSIONS_COLLECTION).deleteMany({ userId, views: { $size: 0 } });
+    return { removed: deletedCount };
+  }
+  const [views, sessions] = await Promise.all([
+    db.collection(VIEWS_COLLECTION).deleteMany({ userId }),
+    db.collection(SESSIONS_COLLECTION).deleteMany({ userId }),
+  ]);
+  return { removed: views.deletedCount, sessions: sessions.deletedCount };
+}
+
+/**
+ * Move a visitor's anonymous history into the account they just signed in
+ * to. Counts and dwell time add up for listings seen both ways. Nothing is
+ * kept when the account has history paused.
+ */
+export async function mergeAnonymousViews(db: Db, userId: string, visitorId: string) {
+  if (!isVisitorId(visitorId)) return { merged: 0 };
+  const views = db.collection(VIEWS_COLLECTION);
+  const sessions = db.collection(SESSIONS_COLLECTION);
+
+  if (await isHistoryPaused(db, userId)) {
+    await Promise.all([views.deleteMany({ visitorId }), sessions.deleteMany({ visitorId })]);
+    return { merged: 0 };
+  }
+
+  const anonymous = await views.find({ visitorId }).toArray();
+  for (const row of anonymous) {
+    await views.updateOne(
+      { userId, propertyId: row.propertyId },
+      {
+        $inc: { viewCount: row.viewCount || 0, timeSpent: row.timeSpent || 0 },
+        $max: { lastViewed: row.lastViewed },
+        $min: { firstViewed: row.firstViewed || row.lastViewed },
+        $setOnInsert: {
+          ...(row.referrer ? { referrer: row.referrer } : {}),
+          ...(row.lastViewId ? { lastViewId: row.lastViewId } : {}),
+        },
+      },
+      { upsert: true },
+    );
+  }
+  await views.deleteMany({ visitorId });
+  await sessions.updateMany({ visitorId }, { $set: { userId }, $unset: { visitorId: "", anonymousAt: "" } });
+  return { merged: anonymous.length };
+}
+
+export async function ensureViewHistoryIndexes(db: Db) {
+  const views = db.collection(VIEWS_COLLECTION);
+  const sessions = db.collection(SESSIONS_COLLECTION);
+  const ttl = ANONYMOUS_VIEW_RETENTION_DAYS * 24 * 60 * 60;
+
+  await views.createIndex({ userId: 1, lastViewed: -1 });
+  await views.createIndex({ visitorId: 1, propertyId: 1 }, { sparse: true });
+  // anonymous rows carry `anonymousAt`; merged rows drop it and stop expiring
+  await views.createIndex({ anonymousAt: 1 }, { expireAfterSeconds: ttl, sparse: true });
+  await sessions.createIndex({ userId: 1, lastActiveAt: -1 });
+  await sessions.createIndex({ visitorId: 1, clientSessionId: 1, lastActiveAt: -1 }, { sparse: true });
+  await sessions.createIndex({ "views.viewId": 1 });
+  await sessions.createIndex({ anonymousAt: 1 }, { expireAfterSeconds: ttl, sparse: true });
+}
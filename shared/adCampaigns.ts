@@ -0,0 +1,90 @@
+/**
+ * Self-serve banner campaigns: the slots advertisers can book, their
+ * capacity and day rate, and the lifecycle a booking moves through. Shared
+ * so the booking page prices a range exactly the way the server does.
+ */
+
+export interface BannerSlot {
+  position: string; // matches `banners.position`
+  label: string;
+  description: string;
+  capacity: number; // campaigns that can run in the slot on the same day
+  pricePerDay: number; // rupees
+}
+
+export const BANNER_SLOTS: BannerSlot[] = [
+  {
+    position: "advertisement_banners",
+    label: "Homepage hero carousel",
+    description: "Full-width rotating banner at the top of the homepage",
+    capacity: 4,
+    pricePerDay: 999,
+  },
+  {
+    position: "homepage_middle",
+    label: "Homepage mid-page strip",
+    description: "Banner strip between the category grid and listings",
+    capacity: 3,
+    pricePerDay: 499,
+  },
+];
+
+export const MAX_CAMPAIGN_DAYS = 90;
+export const MAX_BOOKING_LEAD_DAYS = 180; // how far ahead a campaign may start
+
+export type AdCampaignStatus =
+  | "pending_payment" // slot held while the advertiser pays
+  | "expired" // hold lapsed without payment
+  | "pending_approval" // paid, creative awaiting review
+  | "approved" // will go live on its start date
+  | "live" // has an active banner
+  | "completed" // window over, banner deactivated
+  | "rejected"
+  | "cancelled";
+
+export interface AdCampaignCreative {
+  title: string;
+  imageUrl: string;
+  link: string;
+}
+
+export interface AdCampaign {
+  _id: string;
+  submissionId: string;
+  userId: string;
+  slot: string;
+  startDate: string; // YYYY-MM-DD (IST), inclusive
+  endDate: string;
+  days: number;
+  pricePerDay: number;
+  amount: number;
+  creative: AdCampaignCreative;
+  status: AdCampaignStatus;
+  paymentStatus: "unpaid" | "paid" | "refunded";
+  transactionId?: string;
+  bannerId?: string;
+  rejectionReason?: string;
+  createdAt: string;
+}
+
+export interface SlotDayAvailability {
+  date: string;
+  booked: number;
+  capacity: number;
+  available: boolean;
+}
+
+export const findBannerSlot = (position: string) =>
+  BANNER_SLOTS.find((s) => s.position === position);
+
+/** Whole days from start to end, both inclusive (YYYY-MM-DD strings). */
+export const campaignDays = (startDate: string, endDate: string) =>
+  Math.round(
+    (Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) /
+      (24 * 60 * 60 * 1000),
+  ) + 1;
+
+export const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
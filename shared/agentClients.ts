@@ -0,0 +1,122 @@
+/**
+ * Agent client book: clients (usually converted leads), the properties
+ * they're linked to and the deals worked for them, each moving through
+ * the pipeline from site visit to registry. Shapes match what
+ * client/pages/Clients.tsx and AgentDashboard.tsx render.
+ */
+
+export const CLIENT_STATUSES = ["active", "inactive", "potential", "closed"] as const;
+export type ClientStatus = (typeof CLIENT_STATUSES)[number];
+
+export const CLIENT_SOURCES = ["referral", "website", "social", "advertisement", "direct"] as const;
+export type ClientSource = (typeof CLIENT_SOURCES)[number];
+
+/** Open stages in order, then the two ways a deal ends. */
+export const DEAL_STAGES = ["site_visit", "negotiation", "token", "registry", "closed", "cancelled"] as const;
+export type DealStage = (typeof DEAL_STAGES)[number];
+export const OPEN_DEAL_STAGES: DealStage[] = ["site_visit", "negotiation", "token", "registry"];
+
+export const DEAL_STAGE_LABELS: Record<DealStage, string> = {
+  site_visit: "Site visit",
+  negotiation: "Negotiation",
+  token: "Token paid",
+  registry: "Registry",
+  closed: "Closed",
+  cancelled: "Cancelled",
+};
+
+/** The coarser status older screens show for a deal. */
+export type DealStatus = "negotiating" | "pending" | "closed" | "cancelled";
+export const DEAL_STATUS_BY_STAGE: Record<DealStage, DealStatus> = {
+  site_visit: "negotiating",
+  negotiation: "negotiating",
+  token: "pending",
+  registry: "pending",
+  closed: "closed",
+  cancelled: "cancelled",
+};
+
+/** Default commission as a % of the deal amount: 1% on sales, one month's rent on rentals. */
+export const DEFAULT_COMMISSION_RATE: Record<"sale" | "rent", number> = { sale: 1, rent: 100 };
+
+export interface ClientInteraction {
+  _id: string;
+  type: "call" | "email" | "meeting" | "message" | "visit";
+  date: string;
+  description: string;
+  outcome: "positive" | "neutral" | "negative";
+  followupRequired: boolean;
+  nextAction: string;
+}
+
+export interface DealStageChange {
+  stage: DealStage;
+  at: string;
+  note?: string;
+}
+
+export interface Deal {
+  _id: string;
+  clientId: string;
+  propertyId: string;
+  propertyTitle: string;
+  type: "sale" | "rent";
+  amount: number;
+  stage: DealStage;
+  status: DealStatus;
+  stageHistory: DealStageChange[];
+  commissionRate: number; // % of amount
+  commission: number;
+  commissionReceived: boolean;
+  commissionReceivedAt?: string;
+  startDate: string;
+  expectedCloseDate: string;
+  actualCloseDate?: string;
+  notes: string;
+}
+
+export interface LinkedProperty {
+  _id: string;
+  title: string;
+  price: number;
+  priceType: string;
+  status: string;
+}
+
+export interface AgentClient {
+  _id: string;
+  agentId: string;
+  leadId?: string;
+  name: string;
+  email: string;
+  phone: string;
+  userType: "buyer" | "seller";
+  status: ClientStatus;
+  source: ClientSource;
+  assignedDate: string;
+  lastContact: string;
+  nextFollowup: string;
+  budget: { min: number; max: number };
+  preferences: {
+    propertyTypes: string[];
+    locations: string[];
+    bedrooms?: number;
+    amenities: string[];
+  };
+  notes: string;
+  interactions: ClientInteraction[];
+  propertyIds: string[];
+  properties: LinkedProperty[];
+  deals: Deal[];
+  rating: number; // 0-5, the agent's own rating of the client
+}
+
+export interface AgentSummary {
+  clients: { total: number; active: number; potential: number; buyers: number; sellers: number };
+  leads: { open: number; hot: number; followupsDue: number; converted: number; conversionRate: number };
+  pipeline: { stage: DealStage; label: string; count: number; value: number; commission: number }[];
+  deals: { open: number; closed: number; closedThisMonth: number; cancelled: number };
+  commission: { earned: number; received: number; pending: number; expected: number };
+  listings: { total: number; active: number; inquiries: number };
+  recentClients: Pick<AgentClient, "_id" | "name" | "userType" | "status" | "lastContact">[];
+}
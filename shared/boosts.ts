@@ -0,0 +1,42 @@
+/**
+ * Listing boosts ("bump to top"): a boosted listing ranks by the time it was
+ * boosted instead of the time it was posted, until the window ends.
+ */
+
+export const BOOST_WINDOW_DAYS = 7;
+
+/** The boost product sold through the gateways; one credit per purchase. */
+export const BOOST_PACKAGE_DEFAULTS = {
+  name: "Listing Boost",
+  description: `Bump a live listing back to the top for ${BOOST_WINDOW_DAYS} days`,
+  price: 49,
+  duration: 30, // days the credit can be used in
+  features: [`Bump one listing to the top for ${BOOST_WINDOW_DAYS} days`],
+  type: "boost" as const,
+  category: "property" as const,
+  location: "all" as const,
+  active: true,
+};
+
+export type BoostSource = "credit" | "payment";
+
+export interface PropertyBoost {
+  _id: string;
+  propertyId: string;
+  propertyTitle: string;
+  userId: string;
+  source: BoostSource;
+  boostedAt: string;
+  boostUntil: string;
+  active: boolean;
+  // daily averages over the window before the boost and while it ran
+  viewsPerDayBefore: number;
+  viewsPerDayDuring: number;
+  inquiriesBefore: number;
+  inquiriesDuring: number;
+}
+
+export interface BoostOptions {
+  creditsRemaining: number; // UNLIMITED (-1) or a count
+  package: { _id: string; name: string; price: number } | null;
+}
@@ -0,0 +1,105 @@
+/**
+ * Side-by-side property comparison: the compare endpoint's response shape,
+ * the landmarks distances are measured to, and the `/compare?ids=` URLs
+ * the client shares.
+ */
+
+export const MAX_COMPARE = 4;
+
+export interface Landmark {
+  key: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+/** Places buyers in Rohtak ask about most. */
+export const COMPARE_LANDMARKS: Landmark[] = [
+  { key: "railway_station", name: "Rohtak Junction", lat: 28.8955, lng: 76.6066 },
+  { key: "bus_stand", name: "New Bus Stand", lat: 28.8864, lng: 76.5932 },
+  { key: "pgims", name: "PGIMS Hospital", lat: 28.8795, lng: 76.6203 },
+  { key: "mdu", name: "MD University", lat: 28.8756, lng: 76.6222 },
+];
+
+// square feet per unit; listings without `areaUnit` are in square feet
+const AREA_UNIT_SQFT: Record<string, number> = {
+  sqft: 1,
+  sqyd: 9,
+  gaj: 9,
+  sqm: 10.7639,
+  marla: 272.25,
+  kanal: 5445,
+  acre: 43560,
+};
+
+/** Area in square feet, or null when it is missing or in a unit we don't know. */
+export function areaInSqft(area: unknown, unit?: unknown): number | null {
+  const value = Number(String(area ?? "").replace(/[^\d.]/g, ""));
+  if (!Number.isFinite(value) || value <= 0) return null;
+  // "sq ft", "Sq. Yd", "acres" -> sqft, sqyd, acre
+  const key = String(unit || "sqft")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "")
+    .replace(/s$/, "");
+  const factor = AREA_UNIT_SQFT[key];
+  return factor ? Math.round(value * factor) : null;
+}
+
+export interface ComparedSpecs {
+  bedrooms: number | null;
+  bathrooms: number | null;
+  areaSqft: number | null;
+  floor: string | null;
+  totalFloors: number | null;
+  facing: string | null;
+  furnished: string | null;
+  parking: string | null;
+  ageYears: number | null;
+}
+
+export interface ComparedAreaInsight {
+  area: string;
+  listingCount: number;
+  medianPricePerSqft: number | null; // sale or rent median, matching the listing
+  medianPrice: number | null;
+  vsMedianPct: number | null; // this listing's price/sq ft against the area median
+  rentYieldPct: number | null;
+}
+
+export interface ComparedProperty {
+  _id: string;
+  title: string;
+  image: string | null;
+  price: number;
+  priceType: "sale" | "rent";
+  propertyType: string;
+  subCategory: string;
+  locality: string;
+  address: string;
+  specs: ComparedSpecs;
+  pricePerSqft: number | null;
+  amenities: string[];
+  uniqueAmenities: string[]; // amenities none of the other listings have
+  landmarkDistancesKm: Record<string, number | null>; // by Landmark.key; null without coordinates
+  areaInsight: ComparedAreaInsight | null;
+}
+
+export interface PropertyComparison {
+  properties: ComparedProperty[];
+  commonAmenities: string[];
+  landmarks: Landmark[];
+  missing: string[]; // requested IDs that aren't (or are no longer) live
+}
+
+/** The distinct valid IDs in an `ids=a,b,c` value; callers enforce MAX_COMPARE. */
+export function parseCompareIds(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value.join(",") : String(value || "");
+  const ids = raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => /^[a-f0-9]{24}$/i.test(s));
+  return [...new Set(ids)];
+}
+
+export const compareUrl = (ids: string[]) =>
+  `/compare?ids=${ids.slice(0, MAX_COMPARE).join(",")}`;
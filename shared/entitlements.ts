@@ -0,0 +1,94 @@
+/**
+ * Structured package entitlements. `AdPackage.features` stays as marketing
+ * copy; what a purchase actually allows is in `entitlements`, snapshotted
+ * onto each `user_packages` row so later plan edits don't change what a
+ * seller already paid for.
+ */
+
+/** Stands in for "no limit" in any countable entitlement. */
+export const UNLIMITED = -1;
+
+export interface PackageEntitlements {
+  listings: number; // listings that can be posted under the package
+  featuredSlots: number; // listings that can be marked featured
+  boosts: number; // bump-to-top credits
+  contactReveals: number; // buyer phone numbers the seller can unlock
+  durationDays: number;
+}
+
+/** The countable entitlements, i.e. everything except the duration. */
+export type EntitlementKey = Exclude<keyof PackageEntitlements, "durationDays">;
+
+export const ENTITLEMENT_KEYS: EntitlementKey[] = ["listings", "featuredSlots", "boosts", "contactReveals"];
+
+export const ENTITLEMENT_LABELS: Record<EntitlementKey, string> = {
+  listings: "Listings",
+  featuredSlots: "Featured slots",
+  boosts: "Boosts",
+  contactReveals: "Contact reveals",
+};
+
+export interface QuotaLine {
+  limit: number; // UNLIMITED or a count
+  used: number;
+  remaining: number; // UNLIMITED or a count
+}
+
+export interface QuotaSummary {
+  quotas: Record<EntitlementKey, QuotaLine>;
+  freeListings: { limit: number; used: number; remaining: number; periodDays: number } | null;
+  packages: {
+    _id: string;
+    packageName: string;
+    endDate: string;
+    entitlements: PackageEntitlements;
+    used: Record<EntitlementKey, number>;
+  }[];
+}
+
+const count = (v: unknown, fallback: number) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n >= UNLIMITED ? Math.floor(n) : fallback;
+};
+
+/**
+ * Entitlements for a package document. Uses the structured field when set;
+ * otherwise infers them from the plan type and feature copy, which is how
+ * packages created before entitlements existed get migrated.
+ */
+export function resolveEntitlements(pkg: any): PackageEntitlements {
+  const durationDays = count(pkg?.duration, 30) || 30;
+  if (pkg?.entitlements) {
+    const e = pkg.entitlements;
+    return {
+      listings: count(e.listings, 1),
+      featuredSlots: count(e.featuredSlots, 0),
+      boosts: count(e.boosts, 0),
+      contactReveals: count(e.contactReveals, 0),
+      durationDays: count(e.durationDays, durationDays) || durationDays,
+    };
+  }
+
+  const text = (Array.isArray(pkg?.features) ? pkg.features : []).join("\n");
+  const type = String(pkg?.type || "basic");
+  const grab = (re: RegExp) => {
+    const m = text.match(re);
+    return m ? Number(m[1]) : null;
+  };
+
+  const listings = /unlimited (property )?(listings|postings|properties)/i.test(text)
+    ? UNLIMITED
+    : grab(/(\d+)\s+(?:property\s+)?(?:listings|properties|ads)/i) ?? (Number(pkg?.maxListings) || 1);
+  const featured = ["featured", "premium", "elite"].includes(type) || /featured|top placement/i.test(text);
+  const topTier = ["premium", "elite"].includes(type);
+
+  return {
+    listings,
+    featuredSlots: featured ? listings : 0,
+    boosts: grab(/(\d+)\s+boosts?/i) ?? (topTier ? 1 : 0),
+    contactReveals: grab(/(\d+)\s+contact/i) ?? (topTier ? UNLIMITED : 0),
+    durationDays,
+  };
+}
+
+export const isUnlimited = (n: number) => n === UNLIMITED;
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { computeGst } from "@shared/gst";
+
+const HARYANA = "06";
+const DELHI = "07";
+const intraState = { rate: 18, supplierState: HARYANA, placeOfSupply: HARYANA };
+const interState = { rate: 18, supplierState: HARYANA, placeOfSupply: DELHI };
+
+const inPaise = (n: number) => Math.round(n * 100);
+
+// a spread of awkward invoice amounts, including ones that don't split evenly
+const AMOUNTS = [
+  0.01, 0.05, 1, 9.99, 99, 199, 299.5, 499, 499.99, 999, 1000, 1179.99, 1180, 2499, 4999.01, 12345.67,
+];
+
+describe("computeGst", () => {
+  it("splits tax equally into CGST and SGST within the supplier's state", () => {
+    expect(computeGst(1180, { ...intraState, inclusive: true })).toEqual({
+      taxableValue: 1000,
+      cgst: 90,
+      sgst: 90,
+      igst: 0,
+      total: 1180,
+      rate: 18,
+      interState: false,
+    });
+  });
+
+  it("charges IGST only across states", () => {
+    expect(computeGst(1180, { ...interState, inclusive: true })).toEqual({
+      taxableValue: 1000,
+      cgst: 0,
+      sgst: 0,
+      igst: 180,
+      total: 1180,
+      rate: 18,
+      interState: true,
+    });
+  });
+
+  it("adds tax on top of an exclusive amount", () => {
+    const gst = computeGst(1000, { ...intraState, inclusive: false });
+    expect(gst.taxableValue).toBe(1000);
+    expect(gst.cgst + gst.sgst).toBe(180);
+    expect(gst.total).toBe(1180);
+  });
+
+  it("gives an odd paisa of tax to CGST and the rest to SGST", () => {
+    // 999 incl. 18% = 846.61 taxable + 152.39 tax
+    const gst = computeGst(999, { ...intraState, inclusive: true });
+    expect(gst.taxableValue).toBe(846.61);
+    expect(gst.cgst).toBe(76.2);
+    expect(gst.sgst).toBe(76.19);
+  });
+
+  it("rounds every component to the paisa", () => {
+    for (const amount of AMOUNTS) {
+      for (const options of [intraState, interState]) {
+        const gst = computeGst(amount, { ...options, inclusive: true });
+        for (const value of [gst.taxableValue, gst.cgst, gst.sgst, gst.igst, gst.total]) {
+          expect(inPaise(value) / 100).toBe(value);
+        }
+      }
+    }
+  });
+
+  it("adds up to an inclusive invoice amount to the paisa, intra- and inter-state", () => {
+    for (const amount of AMOUNTS) {
+      const intra = computeGst(amount, { ...intraState, inclusive: true });
+      expect(inPaise(intra.taxableValue) + inPaise(intra.cgst) + inPaise(intra.sgst)).toBe(inPaise(amount));
+      expect(inPaise(intra.total)).toBe(inPaise(amount));
+
+      const inter = computeGst(amount, { ...interState, inclusive: true });
+      expect(inPaise(inter.taxableValue) + inPaise(inter.igst)).toBe(inPaise(amount));
+      expect(inPaise(inter.total)).toBe(inPaise(amount));
+
+      // same tax either way, only the heads differ
+      expect(inPaise(intra.cgst) + inPaise(intra.sgst)).toBe(inPaise(inter.igst));
+    }
+  });
+
+  it("adds up to the total on exclusive amounts", () => {
+    for (const amount of AMOUNTS) {
+      const intra = computeGst(amount, { ...intraState, inclusive: false });
+      expect(inPaise(intra.taxableValue) + inPaise(intra.cgst) + inPaise(intra.sgst)).toBe(inPaise(intra.total));
+
+      const inter = computeGst(amount, { ...interState, inclusive: false });
+      expect(inPaise(inter.taxableValue) + inPaise(inter.igst)).toBe(inPaise(inter.total));
+    }
+  });
+
+  it("treats a zero rate as no tax", () => {
+    const gst = computeGst(499, { ...intraState, rate: 0, inclusive: true });
+    expect(gst).toMatchObject({ taxableValue: 499, cgst: 0, sgst: 0, igst: 0, total: 499 });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * GST helpers shared by invoicing (server) and the seller billing form
+ * (client): state codes, GSTIN validation and the CGST/SGST vs IGST split.
+ */
+
+/** GST state/UT codes, as used in the first two digits of a GSTIN. */
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+export const gstStateName = (code?: string | null) =>
+  GST_STATES.find((s) => s.code === code)?.name || "";
+
+/** State code for a state name or code, e.g. "Punjab" or "3" → "03". */
+export function gstStateCode(value?: string | null): string | null {
+  const v = String(value || "").trim();
+  if (!v) return null;
+  if (/^\d{1,2}$/.test(v)) {
+    const code = v.padStart(2, "0");
+    return GST_STATES.some((s) => s.code === code) ? code : null;
+  }
+  return GST_STATES.find((s) => s.name.toLowerCase() === v.toLowerCase())?.code || null;
+}
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/** Format, state code and check digit of a 15-character GSTIN. */
+export function isValidGstin(value?: string | null): boolean {
+  const gstin = String(value || "").trim().toUpperCase();
+  if (!GSTIN_PATTERN.test(gstin) || !gstStateName(gstin.slice(0, 2))) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARS.indexOf(gstin[i]) * (i % 2 ? 2 : 1);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARS[(36 - (sum % 36)) % 36] === gstin[14];
+}
+
+export interface GstBreakup {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  rate: number; // percent
+  interState: boolean;
+}
+
+// Half a paisa rounds up; the epsilon stops 76.195 (stored as 76.1949…) rounding down
+const paise = (n: number) => Math.round(n * 100 + 1e-6) / 100;
+
+/**
+ * Split an amount into taxable value and GST. Within the supplier's state
+ * the tax is shared equally as CGST and SGST; across states it is all IGST.
+ */
+export function computeGst(
+  amount: number,
+  options: { rate: number; inclusive: boolean; supplierState: string; placeOfSupply: string },
+): GstBreakup {
+  const rate = options.rate;
+  const taxableValue = paise(options.inclusive ? amount / (1 + rate / 100) : amount);
+  const tax = paise(options.inclusive ? amount - taxableValue : (amount * rate) / 100);
+  const interState = options.supplierState !== options.placeOfSupply;
+  const cgst = interState ? 0 : paise(tax / 2);
+  return {
+    taxableValue,
+    cgst,
+    sgst: interState ? 0 : paise(tax - cgst),
+    igst: interState ? tax : 0,
+    total: paise(taxableValue + tax),
+    rate,
+    interState,
+  };
+}
+
+export interface InvoiceParty {
+  name: string;
+  gstin?: string | null;
+  address?: string;
+  stateCode: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface Invoice {
+  _id: string;
+  invoiceNumber: string;
+  financialYear: string;
+  ledgerId: string;
+  source: string;
+  sourceId: string;
+  userId?: string | null;
+  supplier: InvoiceParty;
+  buyer: InvoiceParty;
+  placeOfSupply: string; // state code
+  description: string;
+  sac: string;
+  gst: GstBreakup;
+  issuedAt: string;
+}
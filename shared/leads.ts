@@ -0,0 +1,139 @@
+/**
+ * Agent CRM: leads, the interactions logged against them and the scoring
+ * that ranks them. Shapes match what client/pages/Leads.tsx renders.
+ */
+
+export const LEAD_SOURCES = [
+  "website",
+  "referral",
+  "social",
+  "advertisement",
+  "coldcall",
+  "event",
+] as const;
+export type LeadSource = (typeof LEAD_SOURCES)[number];
+
+export const LEAD_STATUSES = [
+  "new",
+  "contacted",
+  "qualified",
+  "proposal",
+  "negotiation",
+  "closed",
+  "lost",
+] as const;
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+
+export const INTERACTION_TYPES = ["call", "email", "meeting", "message", "visit"] as const;
+export type InteractionType = (typeof INTERACTION_TYPES)[number];
+
+export type InteractionOutcome = "positive" | "neutral" | "negative";
+export type LeadUrgency = "low" | "medium" | "high";
+
+/** How a lead reached the agent on its own, without the agent adding it. */
+export type LeadChannel = "enquiry" | "chat" | "phone";
+
+export interface LeadInteraction {
+  _id: string;
+  type: InteractionType;
+  date: string;
+  description: string;
+  outcome: InteractionOutcome;
+  nextAction: string;
+  scoreChange: number;
+  channel?: LeadChannel; // set on interactions logged automatically
+  propertyId?: string;
+}
+
+export interface LeadPropertyInterest {
+  type: "buy" | "sell" | "rent";
+  priceRange: { min: number; max: number };
+  locations: string[];
+  propertyTypes: string[];
+  bedrooms?: number;
+  urgency: LeadUrgency;
+}
+
+export interface Lead {
+  _id: string;
+  agentId: string;
+  userId?: string; // the buyer's account when the lead came from a signed-in user
+  name: string;
+  email: string;
+  phone: string;
+  source: LeadSource;
+  channel?: LeadChannel;
+  status: LeadStatus;
+  score: number; // 1-100
+  assignedDate: string;
+  lastContact: string;
+  nextFollowup: string;
+  propertyInterest: LeadPropertyInterest;
+  propertyIds: string[];
+  notes: string;
+  interactions: LeadInteraction[];
+  convertedToClient: boolean;
+  clientId?: string; // the client book entry created on conversion
+  conversionDate?: string;
+  estimatedValue: number;
+  probability: number; // 0-100
+}
+
+export interface LeadSourceStats {
+  source: LeadSource;
+  count: number;
+  converted: number;
+  conversionRate: number; // %
+  avgValue: number;
+}
+
+export const HOT_LEAD_SCORE = 80;
+
+/** Win probability implied by where the lead is in the pipeline. */
+export const STATUS_PROBABILITY: Record<LeadStatus, number> = {
+  new: 10,
+  contacted: 20,
+  qualified: 40,
+  proposal: 60,
+  negotiation: 80,
+  closed: 100,
+  lost: 0,
+};
+
+const SOURCE_SCORE: Record<LeadSource, number> = {
+  referral: 50,
+  website: 40,
+  event: 35,
+  social: 30,
+  advertisement: 30,
+  coldcall: 20,
+};
+
+const URGENCY_SCORE: Record<LeadUrgency, number> = { low: 0, medium: 10, high: 20 };
+
+/** Points a lead gains each time it reaches out by itself. */
+export const CHANNEL_SCORE: Record<LeadChannel, number> = {
+  enquiry: 10,
+  chat: 8,
+  phone: 12,
+};
+
+/** Points an interaction's outcome adds when the agent doesn't give a score change. */
+export const OUTCOME_SCORE: Record<InteractionOutcome, number> = {
+  positive: 10,
+  neutral: 0,
+  negative: -10,
+};
+
+/** Days until the next follow-up is due after a touch, by urgency. */
+export const FOLLOWUP_DAYS: Record<LeadUrgency, number> = { high: 1, medium: 3, low: 7 };
+
+export const clampScore = (score: number) =>
+  Math.max(1, Math.min(100, Math.round(Number(score) || 0)));
+
+/** Starting score for a new lead. */
+export function initialLeadScore(source: LeadSource, urgency: LeadUrgency, channel?: LeadChannel) {
+  return clampScore(
+    (SOURCE_SCORE[source] ?? 30) + (URGENCY_SCORE[urgency] ?? 0) + (channel ? CHANNEL_SCORE[channel] : 0),
+  );
+}
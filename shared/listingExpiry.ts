@@ -0,0 +1,58 @@
+/**
+ * Listing lifetimes. An approved listing stays live for the lifetime of the
+ * package it was posted under, then moves to the `expired` status (hidden
+ * from public lists) until its owner renews it.
+ */
+
+/** Listings not posted under a package use the "free" lifetime. */
+export const LISTING_TIERS = ["free", "basic", "featured", "premium"] as const;
+export type ListingTier = (typeof LISTING_TIERS)[number];
+
+export const LISTING_TIER_LABELS: Record<ListingTier, string> = {
+  free: "Free listings",
+  basic: "Basic package",
+  featured: "Featured package",
+  premium: "Premium package",
+};
+
+export interface ListingExpirySettings {
+  isActive: boolean;
+  lifetimeDays: Record<ListingTier, number>;
+  reminderDays: number[]; // days before expiry to remind the owner, e.g. [7, 1]
+}
+
+export const DEFAULT_LISTING_EXPIRY_SETTINGS: ListingExpirySettings = {
+  isActive: true,
+  lifetimeDays: { free: 30, basic: 60, featured: 60, premium: 90 },
+  reminderDays: [7, 1],
+};
+
+/** Settings from the admin form or the database, with anything missing or invalid defaulted. */
+export function normalizeListingExpirySettings(raw: any): ListingExpirySettings {
+  const d = DEFAULT_LISTING_EXPIRY_SETTINGS;
+  const days = (v: unknown, fallback: number) => {
+    const n = Math.floor(Number(v));
+    return Number.isFinite(n) && n >= 1 && n <= 365 ? n : fallback;
+  };
+  const lifetimeDays = {} as Record<ListingTier, number>;
+  for (const tier of LISTING_TIERS) {
+    lifetimeDays[tier] = days(raw?.lifetimeDays?.[tier], d.lifetimeDays[tier]);
+  }
+  const reminderDays = Array.isArray(raw?.reminderDays)
+    ? [...new Set<number>(raw.reminderDays.map((v: unknown) => days(v, 0)).filter(Boolean))]
+        .sort((a, b) => b - a)
+        .slice(0, 5)
+    : d.reminderDays;
+  return {
+    isActive: raw?.isActive === undefined ? d.isActive : !!raw.isActive,
+    lifetimeDays,
+    reminderDays,
+  };
+}
+
+/** Whole days until `expiresAt`, rounded up; 0 once it has passed. */
+export function daysUntilExpiry(expiresAt: string | Date | null | undefined, now: Date = new Date()) {
+  if (!expiresAt) return null;
+  const ms = new Date(expiresAt).getTime() - now.getTime();
+  return ms <= 0 ? 0 : Math.ceil(ms / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,75 @@
+/**
+ * Buyer/seller messaging over socket.io, with REST routes as the fallback
+ * when the socket can't connect. Both read and write the same `messages`.
+ *
+ * Client → server events:
+ *   conversation:join  (conversationId, ack)       → ack { success, online }
+ *   conversation:leave (conversationId)
+ *   message:send       (SendMessagePayload, ack)   → ack { success, data | error }
+ *   message:delivered  ({ conversationId, messageIds? })
+ *   message:read       ({ conversationId })
+ *   typing             ({ conversationId, isTyping })
+ *
+ * Server → client events:
+ *   message:new      the stored message, with `conversationId` as a string
+ *   message:receipt  MessageReceipt
+ *   typing           TypingEvent
+ *   presence         PresenceEvent
+ */
+
+export const MESSAGE_MAX_LENGTH = 2000;
+
+/** Per sender, across every conversation. */
+export const MESSAGE_RATE_LIMIT = 10;
+export const MESSAGE_RATE_WINDOW_SECONDS = 30;
+
+/** A typing indicator is dropped if no update arrives within this time. */
+export const TYPING_TIMEOUT_SECONDS = 6;
+
+/** REST polling interval while the socket is unavailable. */
+export const MESSAGE_POLL_SECONDS = 5;
+
+export type ReceiptType = "delivered" | "read";
+
+export interface SendMessagePayload {
+  conversationId: string;
+  text?: string;
+  imageUrl?: string;
+}
+
+export interface MessageReceipt {
+  conversationId: string;
+  type: ReceiptType;
+  userId: string; // who received / read
+  messageIds: string[];
+  at: string;
+}
+
+export interface TypingEvent {
+  conversationId: string;
+  userId: string;
+  isTyping: boolean;
+}
+
+export interface PresenceEvent {
+  userId: string;
+  online: boolean;
+  lastSeenAt?: string;
+}
+
+export interface ConversationMessage {
+  _id: string;
+  conversationId: string;
+  senderId: string;
+  senderName?: string;
+  senderType?: string;
+  text: string;
+  imageUrl?: string | null;
+  messageType?: string;
+  deliveredTo?: Array<{ userId: string; deliveredAt: string }>;
+  readBy?: Array<{ userId: string; readAt: string }>;
+  createdAt: string;
+}
+
+/** What the sender sees on their own message. */
+export type MessageStatus = "sending" | "sent" | "delivered" | "read" | "failed";
@@ -0,0 +1,112 @@
+/**
+ * One row per payment attempt or refund, whichever collection and gateway it
+ * came from, plus the issues the reconciliation job raises against those rows.
+ */
+
+export type LedgerSource = "transactions" | "bank_transfers" | "payments" | "payment_refunds";
+export type LedgerGateway = "razorpay" | "phonepe" | "bank_transfer" | "manual" | "free";
+export type LedgerStatus = "pending" | "paid" | "failed" | "cancelled" | "refunded";
+export type LedgerPurpose = "package" | "ad_campaign" | "seller_plan";
+
+export interface LedgerEntry {
+  _id: string;
+  kind?: "payment" | "refund"; // rows from before refunds existed have no kind
+  source: LedgerSource;
+  sourceId: string;
+  refundOf?: string | null; // ledger row a refund pays back
+  gateway: LedgerGateway;
+  gatewayRef?: string | null; // order id, merchant txn id or bank reference
+  purpose: LedgerPurpose;
+  userId?: string | null;
+  packageId?: string | null;
+  propertyId?: string | null;
+  campaignId?: string | null;
+  amount: number; // rupees
+  refundedAmount?: number; // rupees refunded (or being refunded) so far
+  currency: string;
+  status: LedgerStatus;
+  sourceStatus: string; // status as stored on the source record
+  paidAt?: string | null;
+  entitlementActivatedAt?: string | null;
+  gatewayStatus?: string | null;
+  gatewayAmount?: number | null;
+  gatewayCheckedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReconciliationIssueType =
+  | "paid_not_recorded" // gateway took the money, we still show pending/failed
+  | "recorded_not_paid" // we show paid, the gateway doesn't
+  | "amount_mismatch"
+  | "stuck_pending"
+  | "missing_entitlement" // paid but nothing was activated
+  | "double_activation"; // same thing activated by two payments
+
+export type ReconciliationIssueStatus = "open" | "resolved" | "ignored";
+
+export const RECONCILIATION_ISSUE_LABELS: Record<ReconciliationIssueType, string> = {
+  paid_not_recorded: "Paid at gateway, not recorded",
+  recorded_not_paid: "Recorded as paid, not at gateway",
+  amount_mismatch: "Amount mismatch",
+  stuck_pending: "Stuck pending",
+  missing_entitlement: "Paid, nothing activated",
+  double_activation: "Double activation",
+};
+
+export interface ReconciliationIssue {
+  _id: string;
+  type: ReconciliationIssueType;
+  ledgerId: string;
+  status: ReconciliationIssueStatus;
+  details: Record<string, any>;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  resolvedAt?: string | null;
+  resolvedBy?: string | null;
+  resolution?: string | null;
+  ledger?: LedgerEntry;
+}
+
+export type RefundMode = "full" | "prorated";
+export type RefundStatus = "pending" | "processed" | "failed";
+
+export interface PaymentRefund {
+  _id: string;
+  ledgerId: string;
+  source: LedgerSource; // where the original payment lives
+  sourceId: string;
+  gateway: LedgerGateway;
+  gatewayRef?: string | null; // original order / merchant txn / bank reference
+  gatewayRefundId?: string | null;
+  purpose: LedgerPurpose;
+  userId?: string | null;
+  userPackageId?: string | null;
+  propertyId?: string | null;
+  campaignId?: string | null;
+  mode: RefundMode;
+  amount: number; // rupees
+  paidAmount: number;
+  reason: string;
+  status: RefundStatus;
+  manualPayout: boolean; // bank transfers and offline payments are paid back by hand
+  creditNoteNumber: string;
+  creditNoteSentAt?: string | null;
+  failureReason?: string | null;
+  requestedBy?: string | null;
+  processedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RefundQuote {
+  ledgerId: string;
+  paidAmount: number;
+  alreadyRefunded: number;
+  full: number;
+  prorated: number;
+  periodStart?: string | null;
+  periodEnd?: string | null;
+  unusedDays?: number | null;
+  totalDays?: number | null;
+}
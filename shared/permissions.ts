@@ -0,0 +1,125 @@
+/**
+ * Staff permission vocabulary shared by the admin API (route enforcement)
+ * and the staff panel (menu filtering), so both sides agree on what a role
+ * can do.
+ */
+
+export type StaffRole =
+  | "super_admin"
+  | "content_manager"
+  | "sales_manager"
+  | "support_executive"
+  | "property_moderator"
+  | "admin"
+  | "custom_role";
+
+export const WILDCARD_PERMISSION = "*";
+
+export const ROLE_PERMISSIONS: Record<StaffRole, string[]> = {
+  super_admin: [WILDCARD_PERMISSION],
+  content_manager: [
+    "dashboard.view",
+    "content.manage",
+    "content.create",
+    "content.view",
+    "blog.manage",
+    "blog.view",
+    "ads.view",
+    "support.view",
+  ],
+  sales_manager: [
+    "dashboard.view",
+    "users.view",
+    "sellers.manage",
+    "sellers.verify",
+    "sellers.view",
+    "payments.view",
+    "packages.manage",
+    "ads.view",
+    "analytics.view",
+  ],
+  support_executive: [
+    "dashboard.view",
+    "users.view",
+    "support.view",
+    "support.manage",
+    "reports.view",
+    "content.view",
+  ],
+  property_moderator: [
+    "dashboard.view",
+    "ads.view",
+    "ads.approve",
+    "ads.manage",
+    "users.view",
+    "analytics.view",
+  ],
+  admin: ["dashboard.view", "content.view", "users.view", "ads.view", "analytics.view"],
+  custom_role: [], // filled from the staff member's own `permissions`
+};
+
+/** Permissions granted to a role, plus any stored on the staff member. */
+export function resolveRolePermissions(role?: string, extra: string[] = []): string[] {
+  const base = ROLE_PERMISSIONS[(role || "") as StaffRole] || [];
+  return Array.from(new Set([...base, ...(Array.isArray(extra) ? extra : [])]));
+}
+
+export function permissionAllows(granted: string[], permission: string): boolean {
+  return granted.includes(WILDCARD_PERMISSION) || granted.includes(permission);
+}
+
+export interface PermissionDefinition {
+  key: string;
+  label: string;
+  description: string;
+}
+
+/** Grouped catalogue used by the role editor when building custom roles. */
+export const PERMISSION_GROUPS: Record<string, PermissionDefinition[]> = {
+  Dashboard: [
+    { key: "dashboard.view", label: "View Dashboard", description: "See the staff dashboard and counters" },
+    { key: "analytics.view", label: "View Analytics", description: "View user and listing analytics" },
+  ],
+  "Advertisement Management": [
+    { key: "ads.view", label: "View Listings", description: "View property and service listings" },
+    { key: "ads.manage", label: "Manage Listings", description: "Create, edit and delete listings" },
+    { key: "ads.approve", label: "Approve Listings", description: "Approve or reject pending listings" },
+    { key: "categories.manage", label: "Manage Categories", description: "Edit categories and subcategories" },
+  ],
+  "Packages & Payments": [
+    { key: "packages.manage", label: "Manage Packages", description: "Edit packages, coupons and user packages" },
+    { key: "payments.view", label: "View Payments", description: "View transactions and bank transfers" },
+    { key: "payments.approve", label: "Approve Payments", description: "Approve or reject manual payments" },
+    { key: "payments.manage", label: "Manage Payments", description: "Delete and correct payment records" },
+    { key: "payments.refund", label: "Issue Refunds", description: "Refund payments and cancel what they bought" },
+  ],
+  "Users & Sellers": [
+    { key: "users.view", label: "View Users", description: "View user profiles and lists" },
+    { key: "users.manage", label: "Manage Users", description: "Change status, export and delete users" },
+    { key: "sellers.view", label: "View Sellers", description: "View seller reviews and reports" },
+    { key: "sellers.manage", label: "Manage Sellers", description: "Manage sellers and verification fields" },
+    { key: "sellers.verify", label: "Verify Sellers", description: "Approve seller verification requests" },
+  ],
+  Content: [
+    { key: "content.view", label: "View Content", description: "View pages, sliders, banners and FAQs" },
+    { key: "content.create", label: "Create Content", description: "Create new pages" },
+    { key: "content.manage", label: "Manage Content", description: "Edit pages, sliders, banners and FAQs" },
+    { key: "blog.view", label: "View Blog", description: "View blog posts" },
+    { key: "blog.manage", label: "Manage Blog", description: "Create, edit and publish blog posts" },
+    { key: "locations.manage", label: "Manage Locations", description: "Edit area maps and locations" },
+  ],
+  "Support & Reports": [
+    { key: "support.view", label: "View Support", description: "View tickets, enquiries and conversations" },
+    { key: "support.manage", label: "Handle Support", description: "Reply to and resolve support requests" },
+    { key: "reports.view", label: "View Reports", description: "View user reports" },
+    { key: "reports.manage", label: "Manage Reports", description: "Resolve reports and edit report reasons" },
+    { key: "notifications.send", label: "Send Notifications", description: "Send push notifications" },
+  ],
+  System: [
+    { key: "staff.manage", label: "Manage Staff", description: "Manage staff members" },
+    { key: "roles.manage", label: "Manage Roles", description: "View and edit roles" },
+    { key: "audit.view", label: "View Audit Log", description: "Search and export the admin audit log" },
+    { key: "system.view", label: "View System Status", description: "View system status" },
+    { key: "system.manage", label: "Manage System", description: "Settings, jobs and maintenance tools" },
+  ],
+};
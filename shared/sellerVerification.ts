@@ -0,0 +1,82 @@
+/**
+ * Seller KYC: sellers and agents submit identity and RERA/ownership
+ * documents, admins approve or reject them, and approved accounts carry a
+ * verified badge and rank a little higher in public search.
+ */
+
+export const VERIFICATION_STATUSES = ["pending", "approved", "rejected"] as const;
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+export const IDENTITY_DOCUMENT_TYPES = ["aadhaar", "pan", "passport", "voter_id", "driving_licence"] as const;
+export const PROPERTY_DOCUMENT_TYPES = ["rera_certificate", "ownership_proof", "business_registration"] as const;
+
+export type VerificationDocumentType =
+  | (typeof IDENTITY_DOCUMENT_TYPES)[number]
+  | (typeof PROPERTY_DOCUMENT_TYPES)[number];
+
+export const DOCUMENT_TYPE_LABELS: Record<VerificationDocumentType, string> = {
+  aadhaar: "Aadhaar Card",
+  pan: "PAN Card",
+  passport: "Passport",
+  voter_id: "Voter ID",
+  driving_licence: "Driving Licence",
+  rera_certificate: "RERA Certificate",
+  ownership_proof: "Ownership Proof",
+  business_registration: "Business Registration",
+};
+
+/** Preset reasons the admin picks from when rejecting; a note can add detail. */
+export const REJECTION_REASONS = [
+  "Document unreadable",
+  "Document expired",
+  "Name does not match account",
+  "RERA number could not be verified",
+  "Ownership proof missing or invalid",
+  "Suspected tampering",
+  "Other",
+] as const;
+
+export const MAX_DOCUMENT_MB = 5;
+export const MAX_DOCUMENTS = 6;
+export const DOCUMENT_MIME_TYPES = ["application/pdf", "image/jpeg", "image/png", "image/webp"];
+
+/** Verified sellers' listings sort as if posted this many days later in the newest-first order. */
+export const VERIFIED_RANK_BOOST_DAYS = 3;
+
+/** Multiplier on a verified seller's listing relevance in keyword search. */
+export const VERIFIED_SEARCH_BOOST = 1.15;
+
+export interface VerificationDocument {
+  _id: string;
+  type: VerificationDocumentType;
+  label: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  url: string; // short-lived signed link; the files are never served statically
+  verified: boolean;
+}
+
+export interface SellerVerification {
+  _id: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  userPhone?: string;
+  userType: "seller" | "agent";
+  reraNumber?: string;
+  documents: VerificationDocument[];
+  status: VerificationStatus;
+  submittedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  rejectionReason?: string;
+  comments?: string;
+}
+
+/** What the seller dashboard shows: the latest submission, if any. */
+export interface MyVerificationStatus {
+  verified: boolean;
+  verifiedAt?: string;
+  verification: SellerVerification | null;
+}
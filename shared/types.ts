@@ -1,3 +1,5 @@
+import type { PackageEntitlements } from "./entitlements";
+
 export interface Property {
   _id?: string;
   title: string;
@@ -16,7 +18,14 @@ export interface Property {
       lat: number;
       lng: number;
     };
+    // GeoJSON mirror of coordinates ([lng, lat]) for the 2dsphere index
+    geo?: {
+      type: "Point";
+      coordinates: [number, number];
+    };
   };
+  distanceKm?: number; // set by /api/properties/nearby and /within
+  riskAssessment?: ListingRiskAssessment; // moderation signals (admin only)
   specifications: {
     bedrooms?: number;
     bathrooms?: number;
@@ -38,7 +47,8 @@ export interface Property {
     whatsappNumber?: string;
     email?: string;
   };
-  status: "active" | "sold" | "rented" | "inactive";
+  phoneKey?: string; // last 10 digits of contactInfo.phone, for exact-match lookups
+  status: "active" | "sold" | "rented" | "inactive" | "expired";
   approvalStatus: "pending" | "approved" | "rejected";
   adminComments?: string;
   rejectionReason?: string;
@@ -54,6 +64,12 @@ export interface Property {
   contactVisible: boolean; // Whether contact info should be visible publicly
   packageId?: string; // Advertisement package
   packageExpiry?: Date;
+  boostedAt?: Date; // ranks by this instead of createdAt until boostUntil
+  boostUntil?: Date;
+  sellerVerified?: boolean; // owner passed KYC; see shared/sellerVerification
+  expiresAt?: Date; // moves to "expired" after this; see shared/listingExpiry
+  expiredAt?: Date;
+  renewedAt?: Date;
   views: number;
   inquiries: number;
   isDeleted?: boolean;
@@ -179,6 +195,37 @@ export interface SearchFilters {
   };
   amenities?: string[];
   sortBy?: "price_asc" | "price_desc" | "date_desc" | "date_asc" | "area_desc";
+  propertyTypes?: string[]; // any-of, used by saved searches
+  keyword?: string; // free text matched against title/address
+}
+
+// Duplicate / fraud signals shown in the moderation queue
+export interface ListingRiskReason {
+  code: "duplicate_text" | "shared_phone" | "reused_image" | "price_outlier";
+  message: string;
+  weight: number;
+  relatedPropertyId?: string;
+}
+
+export interface ListingRiskAssessment {
+  score: number; // 0-100
+  level: "low" | "medium" | "high";
+  reasons: ListingRiskReason[];
+  computedAt: Date;
+}
+
+// Saved search with new-listing alerts
+export interface SavedSearch {
+  _id?: string;
+  userId: string;
+  name: string;
+  filters: SearchFilters;
+  frequency: "instant" | "daily";
+  isActive: boolean;
+  lastNotifiedAt?: Date | null;
+  matchCount: number;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface ApiResponse<T> {
@@ -265,7 +312,8 @@ export interface AdPackage {
   price: number;
   duration: number; // in days
   features: string[];
-  type: "basic" | "featured" | "premium";
+  entitlements?: PackageEntitlements;
+  type: "basic" | "featured" | "premium" | "boost";
   category: "property" | "general";
   location: "rohtak" | "all";
   active: boolean;
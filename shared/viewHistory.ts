@@ -0,0 +1,51 @@
+/**
+ * Recently viewed history: each property page view is tracked with a
+ * heartbeat for dwell time and grouped into browsing sessions together
+ * with the search that led to it.
+ */
+
+/** How often an open, visible property page reports it is still being read. */
+export const VIEW_HEARTBEAT_SECONDS = 15;
+
+/** A session ends after this long without a view or heartbeat. */
+export const VIEW_SESSION_IDLE_MINUTES = 30;
+
+/** Anonymous history is kept this long; merged into an account it is kept until cleared. */
+export const ANONYMOUS_VIEW_RETENTION_DAYS = 30;
+
+/** The listing page a view came from. */
+export interface ViewSearchContext {
+  path: string;
+  query?: string;
+  filters?: Record<string, string>;
+}
+
+export interface StartViewRequest {
+  propertyId: string;
+  visitorId?: string; // anonymous browsers only
+  sessionId: string; // one per browser tab
+  referrer?: string;
+  search?: ViewSearchContext | null;
+}
+
+export interface SessionView {
+  propertyId: string;
+  at: string;
+  timeSpent: number; // seconds
+}
+
+export interface ViewingSession {
+  _id: string;
+  date: string;
+  lastActiveAt: string;
+  properties: string[]; // property IDs in the order they were viewed
+  views: SessionView[];
+  totalTimeSpent: number; // seconds
+  searchQuery?: string;
+  filters?: Record<string, string>;
+  searchPath?: string;
+}
+
+export interface ViewHistorySettings {
+  paused: boolean;
+}
@@ -7,10 +7,13 @@ const BASE_URL =
   (import.meta.env && (import.meta.env as any).VITE_API_BASE_URL) || "/api";
 
 /** ---------- Token helpers (works for admin/seller/user) ---------- */
+const TOKEN_KEYS = ["adminToken", "sellerToken", "userToken", "authToken", "token"];
+const REFRESH_TOKEN_KEY = "refreshToken";
+export const TOKEN_REFRESHED_EVENT = "auth:token-refreshed";
+
 function readAnyToken(): string {
-  const keys = ["adminToken", "sellerToken", "userToken", "authToken", "token"];
   try {
-    for (const k of keys) {
+    for (const k of TOKEN_KEYS) {
       const v = localStorage.getItem(k) || sessionStorage.getItem(k);
       if (v) return v;
     }
@@ -21,7 +24,7 @@ function readAnyToken(): string {
 }
 
 function clearAllTokens() {
-  const keys = ["adminToken", "sellerToken", "userToken", "authToken", "token"];
+  const keys = [...TOKEN_KEYS, REFRESH_TOKEN_KEY];
   try {
     for (const k of keys) {
       localStorage.removeItem(k);
@@ -41,20 +44,109 @@ function setPrimaryToken(tok: string | null) {
   }
 }
 
-/** Best-effort decode to check exp without throwing */
-function isJwtExpired(token: string): boolean {
+function readRefreshToken(): string {
+  try {
+    return localStorage.getItem(REFRESH_TOKEN_KEY) || "";
+  } catch {
+    return "";
+  }
+}
+
+function setRefreshToken(tok: string | null | undefined) {
+  try {
+    if (tok) localStorage.setItem(REFRESH_TOKEN_KEY, tok);
+    else localStorage.removeItem(REFRESH_TOKEN_KEY);
+  } catch {
+    /* ignore */
+  }
+}
+
+/** Best-effort decode to check exp without throwing; `skewMs` treats "about to expire" as expired */
+function isJwtExpired(token: string, skewMs = 0): boolean {
   try {
     const parts = token.split(".");
     if (parts.length !== 3) return false;
-    const payload = JSON.parse(atob(parts[1]));
+    const payload = JSON.parse(atob(parts[1].replace(/-/g, "+").replace(/_/g, "/")));
     const exp = payload?.exp;
     if (!exp) return false;
-    return Date.now() >= exp * 1000;
+    return Date.now() + skewMs >= exp * 1000;
   } catch {
     return false;
   }
 }
 
+/** Replace the access token wherever the old one was stored (admin/seller/user keys). */
+function storeRefreshedToken(oldToken: string, newToken: string) {
+  let written = false;
+  try {
+    for (const k of TOKEN_KEYS) {
+      for (const store of [localStorage, sessionStorage]) {
+        const v = store.getItem(k);
+        if (v && (!oldToken || v === oldToken)) {
+          store.setItem(k, newToken);
+          written = true;
+        }
+      }
+    }
+    if (!written) localStorage.setItem("adminToken", newToken);
+  } catch {
+    /* ignore */
+  }
+}
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Trade the stored refresh token for a new access token. Concurrent callers
+ * share one request, since the server rotates (and invalidates) the refresh
+ * token on every use. Resolves to null when the session can't be refreshed.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (refreshInFlight) return refreshInFlight;
+
+  const refreshToken = readRefreshToken();
+  if (!refreshToken) return Promise.resolve(null);
+
+  const oldToken = readAnyToken();
+  refreshInFlight = (async () => {
+    try {
+      const res = await fetch(apiClient.createUrl("auth/refresh"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      });
+      const body = await res.json().catch(() => null);
+      const token = body?.data?.token || body?.token;
+      if (!res.ok || !token) {
+        // rejected refresh token: the session is over
+        if (res.status === 401) clearAllTokens();
+        return null;
+      }
+
+      storeRefreshedToken(oldToken, token);
+      setRefreshToken(body?.data?.refreshToken || body?.refreshToken);
+      if (typeof window !== "undefined") {
+        window.dispatchEvent(new CustomEvent(TOKEN_REFRESHED_EVENT, { detail: { token } }));
+      }
+      return token as string;
+    } catch {
+      return null; // offline: keep tokens, try again on the next request
+    } finally {
+      refreshInFlight = null;
+    }
+  })();
+  return refreshInFlight;
+}
+
+/** Current access token, refreshed first when it is expired or within a minute of expiring. */
+export async function ensureFreshToken(): Promise<string> {
+  const token = readAnyToken();
+  if (token && readRefreshToken() && isJwtExpired(token, 60 * 1000)) {
+    return (await refreshAccessToken()) || readAnyToken();
+  }
+  return token;
+}
+
 function redirectToLogin() {
   if (typeof window === "undefined") return;
   const path = window.location.pathname || "";
@@ -105,14 +197,14 @@ export const apiClient = {
     return url;
   },
 
-  async request<T = any>(input: string, init: RequestInit = {}): Promise<T> {
+  async request<T = any>(input: string, init: RequestInit = {}, retried = false): Promise<T> {
     const url = this.createUrl(input);
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 15000);
 
     try {
       const callerHeaders = (init.headers as Record<string, string>) || {};
-      let token = readAnyToken();
+      let token = await ensureFreshToken();
 
       // Skip obviously expired tokens
       if (token && isJwtExpired(token)) {
@@ -163,14 +255,26 @@ export const apiClient = {
       }
 
       if (!res.ok) {
-        // Treat both 401 and 403 as auth failures
+        // Expired access token: refresh once and replay the request
+        if (
+          res.status === 401 &&
+          !retried &&
+          data?.code === "TOKEN_EXPIRED" &&
+          !("Authorization" in callerHeaders) &&
+          (await refreshAccessToken())
+        ) {
+          return (await this.request(input, init, true)) as T;
+        }
+
+        // Treat 401 and 403 as auth failures, except a staff member lacking
+        // one permission (`requiredPermission`) is still signed in
         const msg = String(
           (data && (data.message || data.error)) || ""
         ).toLowerCase();
 
         if (
           res.status === 401 ||
-          res.status === 403 ||
+          (res.status === 403 && !data?.requiredPermission) ||
           /invalid|expired token/.test(msg)
         ) {
           clearAllTokens();
@@ -237,6 +341,12 @@ export const apiClient = {
   setToken(token: string) {
     setPrimaryToken(token);
   },
+  setRefreshToken(token: string | null) {
+    setRefreshToken(token);
+  },
+  getRefreshToken() {
+    return readRefreshToken();
+  },
   clearToken() {
     clearAllTokens();
   },
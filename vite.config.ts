@@ -1,4 +1,5 @@
 // vite.config.ts
+/// <reference types="vitest" />
 import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -71,6 +72,12 @@ export default defineConfig(({ command }) => {
     },
 
     css: { devSourcemap: true },
+
+    // specs sit next to the code they cover, on either side of the app
+    test: {
+      dir: __dirname,
+      include: ["{client,server,shared}/**/*.spec.ts"],
+    },
   };
 });
 